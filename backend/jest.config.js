@@ -4,7 +4,14 @@
    roots: ['<rootDir>/src'],
    testMatch: ['**/__tests__/**/*.ts', '**/?(*.)+(spec|test).ts'],
    transform: {
-     '^.+\\.ts$': 'ts-jest',
+     '^.+\\.ts$': ['ts-jest', {
+       tsconfig: {
+         // Jest용 TypeScript 설정 (테스트에서는 덜 엄격하게)
+         strict: true,
+         esModuleInterop: true,
+         skipLibCheck: true,
+       },
+     }],
    },
    collectCoverageFrom: [
      'src/**/*.ts',
@@ -26,16 +33,6 @@
      '^@utils/(.*)$': '<rootDir>/src/utils/$1',
      '^@types/(.*)$': '<rootDir>/src/types/$1',
    },
-   globals: {
-     'ts-jest': {
-       tsconfig: {
-         // Jest용 TypeScript 설정 (테스트에서는 덜 엄격하게)
-         strict: true,
-         esModuleInterop: true,
-         skipLibCheck: true,
-       },
-     },
-   },
    setupFilesAfterEnv: ['<rootDir>/src/tests/setup.ts'],
    testTimeout: 10000,
  };
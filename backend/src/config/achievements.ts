@@ -0,0 +1,180 @@
+/**
+ * 업적 정의
+ * 업적은 코드로 정의하며, 사용자별 진행 상황과 달성/수령 기록만 user_achievements 테이블에 저장
+ * 정의를 추가하면 해당 지표가 바뀌는 다음 이벤트에서 기존 사용자도 누적 지표 기준으로 바로 판정됨
+ */
+
+import { RankingPeriod } from '../models/Ranking';
+import { AchievementDefinition, AchievementEvent, AchievementMetric, AchievementType } from '../types/achievement.types';
+
+export const ACHIEVEMENTS: AchievementDefinition[] = [
+  {
+    id: 'first-win',
+    type: AchievementType.FIRST_WIN,
+    title: '첫 승리',
+    description: '처음으로 예측에 성공하세요.',
+    icon: '🎉',
+    requirement: { type: 'wins', value: 1 },
+    reward: { points: 50, badge: 'first-win' }
+  },
+  {
+    id: 'streak-3',
+    type: AchievementType.WINNING_STREAK,
+    title: '3연승',
+    description: '예측을 3번 연속 성공하세요.',
+    icon: '🔥',
+    requirement: { type: 'best_streak', value: 3 },
+    reward: { points: 100 }
+  },
+  {
+    id: 'streak-5',
+    type: AchievementType.WINNING_STREAK,
+    title: '5연승',
+    description: '예측을 5번 연속 성공하세요.',
+    icon: '🔥',
+    requirement: { type: 'best_streak', value: 5 },
+    reward: { points: 300, badge: 'hot-streak' }
+  },
+  {
+    id: 'streak-10',
+    type: AchievementType.WINNING_STREAK,
+    title: '10연승',
+    description: '예측을 10번 연속 성공하세요.',
+    icon: '☄️',
+    requirement: { type: 'best_streak', value: 10 },
+    reward: { points: 1000, badge: 'unstoppable' }
+  },
+  {
+    id: 'accuracy-60',
+    type: AchievementType.ACCURACY_MASTER,
+    title: '정확한 예측가',
+    description: '50게임 이상 플레이하고 승률 60% 이상을 달성하세요.',
+    icon: '🎯',
+    requirement: { type: 'win_rate', value: 60, minGames: 50 },
+    reward: { points: 500 }
+  },
+  {
+    id: 'accuracy-70',
+    type: AchievementType.ACCURACY_MASTER,
+    title: '예측의 달인',
+    description: '100게임 이상 플레이하고 승률 70% 이상을 달성하세요.',
+    icon: '🧠',
+    requirement: { type: 'win_rate', value: 70, minGames: 100 },
+    reward: { points: 1500, badge: 'accuracy-master' }
+  },
+  {
+    id: 'volume-10',
+    type: AchievementType.VOLUME_TRADER,
+    title: '입문 트레이더',
+    description: '예측 10게임을 완료하세요.',
+    icon: '📊',
+    requirement: { type: 'games', value: 10 },
+    reward: { points: 50 }
+  },
+  {
+    id: 'volume-100',
+    type: AchievementType.VOLUME_TRADER,
+    title: '활발한 트레이더',
+    description: '예측 100게임을 완료하세요.',
+    icon: '📈',
+    requirement: { type: 'games', value: 100 },
+    reward: { points: 300 }
+  },
+  {
+    id: 'volume-1000',
+    type: AchievementType.VOLUME_TRADER,
+    title: '베테랑 트레이더',
+    description: '예측 1,000게임을 완료하세요.',
+    icon: '🏦',
+    requirement: { type: 'games', value: 1000 },
+    reward: { points: 2000, badge: 'veteran' }
+  },
+  {
+    id: 'specialist-btc',
+    type: AchievementType.SYMBOL_SPECIALIST,
+    title: 'BTC 전문가',
+    description: 'BTC 예측을 25번 성공하세요.',
+    icon: '₿',
+    requirement: { type: 'symbol_wins', value: 25, symbol: 'BTC' },
+    reward: { points: 300, badge: 'btc-specialist' }
+  },
+  {
+    id: 'specialist-eth',
+    type: AchievementType.SYMBOL_SPECIALIST,
+    title: 'ETH 전문가',
+    description: 'ETH 예측을 25번 성공하세요.',
+    icon: 'Ξ',
+    requirement: { type: 'symbol_wins', value: 25, symbol: 'ETH' },
+    reward: { points: 300, badge: 'eth-specialist' }
+  },
+  {
+    id: 'specialist-cta',
+    type: AchievementType.SYMBOL_SPECIALIST,
+    title: 'CTA 전문가',
+    description: 'CTA 예측을 25번 성공하세요.',
+    icon: '🪙',
+    requirement: { type: 'symbol_wins', value: 25, symbol: 'CTA' },
+    reward: { points: 300, badge: 'cta-specialist' }
+  },
+  {
+    id: 'rank-top-100',
+    type: AchievementType.RANK_CLIMBER,
+    title: '주간 TOP 100',
+    description: '주간 랭킹 100위 안에 들어보세요.',
+    icon: '🥉',
+    requirement: { type: 'rank', value: 100, period: RankingPeriod.WEEKLY },
+    reward: { points: 200 }
+  },
+  {
+    id: 'rank-top-10',
+    type: AchievementType.RANK_CLIMBER,
+    title: '주간 TOP 10',
+    description: '주간 랭킹 10위 안에 들어보세요.',
+    icon: '🥈',
+    requirement: { type: 'rank', value: 10, period: RankingPeriod.WEEKLY },
+    reward: { points: 1000, badge: 'top-10' }
+  },
+  {
+    id: 'rank-top-1',
+    type: AchievementType.RANK_CLIMBER,
+    title: '주간 1위',
+    description: '주간 랭킹 1위를 차지하세요.',
+    icon: '🥇',
+    requirement: { type: 'rank', value: 1, period: RankingPeriod.WEEKLY },
+    reward: { points: 3000, badge: 'champion' }
+  },
+  {
+    id: 'mission-1',
+    type: AchievementType.MISSION_COMPLETER,
+    title: '첫 미션',
+    description: '미션을 하나 완료하세요.',
+    icon: '✅',
+    requirement: { type: 'missions_completed', value: 1 },
+    reward: { points: 20 }
+  },
+  {
+    id: 'mission-all',
+    type: AchievementType.MISSION_COMPLETER,
+    title: '미션 마스터',
+    description: '지갑 설치와 홈페이지 방문 미션을 모두 완료하세요.',
+    icon: '🏅',
+    requirement: { type: 'missions_completed', value: 2 },
+    reward: { points: 100, badge: 'mission-master' }
+  }
+];
+
+/**
+ * 이벤트별로 다시 판정하는 지표
+ */
+export const ACHIEVEMENT_EVENT_METRICS: Record<AchievementEvent, AchievementMetric[]> = {
+  game: ['wins', 'games', 'win_rate', 'best_streak', 'symbol_wins'],
+  ranking: ['rank'],
+  mission: ['missions_completed']
+};
+
+/**
+ * 업적 조회 (없는 업적이면 undefined)
+ */
+export function findAchievement(id: string): AchievementDefinition | undefined {
+  return ACHIEVEMENTS.find(achievement => achievement.id === id);
+}
@@ -0,0 +1,53 @@
+/**
+ * 블록체인 설정
+ * Catena 네트워크 RPC 및 에어드롭 트레저리 지갑 설정
+ * 로컬 테스트 시 CATENA_RPC_URL=http://127.0.0.1:8545, CATENA_CHAIN_ID=31337 (Hardhat 노드)
+ */
+
+/**
+ * 에어드롭 실행 설정 인터페이스
+ */
+export interface AirdropChainConfig {
+  rpcUrl: string;                // Catena RPC URL
+  chainId: number;               // 체인 ID (Catena 메인넷: 1000)
+  treasuryPrivateKey?: string;   // 에어드롭 지급 지갑 프라이빗 키
+  confirmations: number;         // 지급 확정에 필요한 블록 확인 수
+  confirmationTimeout: number;   // 블록 확인 대기 시간 (밀리초)
+  maxRetries: number;            // 실패한 지급의 최대 재시도 횟수
+}
+
+export const airdropChainConfig: AirdropChainConfig = {
+  rpcUrl: process.env.CATENA_RPC_URL || 'https://cvm.node.creatachain.com',
+  chainId: parseInt(process.env.CATENA_CHAIN_ID || '1000'),
+  treasuryPrivateKey: process.env.AIRDROP_TREASURY_PRIVATE_KEY,
+  confirmations: parseInt(process.env.AIRDROP_CONFIRMATIONS || '2'),
+  confirmationTimeout: parseInt(process.env.AIRDROP_CONFIRMATION_TIMEOUT_MS || '120000'),
+  maxRetries: parseInt(process.env.AIRDROP_MAX_RETRIES || '3')
+};
+
+/**
+ * 에어드롭 지급 토큰 설정 인터페이스
+ * 보상 테이블의 토큰 심볼은 반드시 여기에 등록되어 있어야 함
+ */
+export interface AirdropTokenConfig {
+  symbol: string;
+  type: 'native' | 'erc20';      // native: 체인 기본 코인 (CTA), erc20: 토큰 컨트랙트 전송
+  address?: string;              // ERC-20 컨트랙트 주소
+  decimals: number;
+}
+
+export const airdropTokens: Record<string, AirdropTokenConfig> = {
+  CTA: {
+    symbol: 'CTA',
+    type: 'native',
+    decimals: 18
+  },
+  USDT: {
+    symbol: 'USDT',
+    type: 'erc20',
+    address: process.env.AIRDROP_USDT_ADDRESS,
+    decimals: parseInt(process.env.AIRDROP_USDT_DECIMALS || '6')
+  }
+};
+
+export default airdropChainConfig;
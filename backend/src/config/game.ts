@@ -0,0 +1,208 @@
+/**
+ * 게임 라운드 설정
+ * 라운드 스케줄러가 사용하는 심볼, 라운드 길이 등급 등을 환경변수에서 읽어옴
+ */
+
+/**
+ * 라운드 길이 등급
+ * 같은 심볼에서 등급별 라운드가 동시에 진행되며, 긴 라운드일수록 랭킹 점수 가중치가 큼
+ */
+export interface GameRoundTier {
+  id: string;                 // 등급 ID (1m, 5m, 15m, 1h)
+  duration: number;           // 게임 진행 시간 (밀리초, ACTIVE 상태 유지 시간)
+  predictionWindow: number;   // 예측 가능 시간 (밀리초, WAITING 상태 유지 시간)
+  roundInterval: number;      // 같은 심볼/등급의 새 라운드를 여는 간격 (밀리초)
+  pointMultiplier: number;    // 랭킹 반영 시 예측 점수에 곱하는 가중치
+}
+
+/**
+ * 라운드 스케줄러 설정 인터페이스
+ */
+export interface GameRoundConfig {
+  enabled: boolean;           // 스케줄러 활성화 여부
+  symbols: string[];          // 라운드를 자동으로 여는 심볼 목록
+  tiers: GameRoundTier[];     // 라운드를 자동으로 여는 등급 (짧은 순)
+  defaultTier: string;        // 등급 지정 없이 라운드를 열거나 찾을 때 사용하는 등급
+  tickInterval: number;       // 스케줄러 점검 주기 (밀리초)
+  flatTolerancePercent: number; // 기본 보합 허용 범위 (%, 라운드 생성 시 고정)
+  settlementMaxDelay: number; // 정산 가격을 확정해야 하는 시각 이후 허용 지연 (밀리초, 넘으면 라운드 무효)
+}
+
+/**
+ * 심볼별 토큰 이름 (Game.tokenName 저장용)
+ */
+export const TOKEN_NAMES: Record<string, string> = {
+  BTC: 'Bitcoin',
+  ETH: 'Ethereum',
+  CTA: 'Catena'
+};
+
+/**
+ * 등급 정의
+ * 라운드 간격은 예측 시간과 같게 두어 이전 라운드가 진행되는 동안 다음 라운드 예측을 받음
+ */
+export const GAME_ROUND_TIERS: Record<string, GameRoundTier> = {
+  '1m': { id: '1m', duration: 60000, predictionWindow: 30000, roundInterval: 30000, pointMultiplier: 1 },
+  '5m': { id: '5m', duration: 300000, predictionWindow: 60000, roundInterval: 60000, pointMultiplier: 1.5 },
+  '15m': { id: '15m', duration: 900000, predictionWindow: 180000, roundInterval: 180000, pointMultiplier: 2 },
+  '1h': { id: '1h', duration: 3600000, predictionWindow: 600000, roundInterval: 600000, pointMultiplier: 3 }
+};
+
+/**
+ * 등급 조회 (없는 등급이면 예외)
+ */
+export function getRoundTier(id: string): GameRoundTier {
+  const tier = GAME_ROUND_TIERS[id];
+  if (!tier) {
+    throw new Error(`알 수 없는 라운드 등급입니다: ${id} (지원: ${Object.keys(GAME_ROUND_TIERS).join(', ')})`);
+  }
+  return tier;
+}
+
+/**
+ * 진행 시간(분)이 같은 등급 조회 (기존 클라이언트의 duration 파라미터 호환용)
+ */
+export function findRoundTierByMinutes(minutes: number): GameRoundTier | undefined {
+  return Object.values(GAME_ROUND_TIERS).find(tier => tier.duration === minutes * 60000);
+}
+
+export const gameRoundConfig: GameRoundConfig = {
+  enabled: process.env.GAME_SCHEDULER_ENABLED !== 'false',
+  symbols: (process.env.GAME_ROUND_SYMBOLS || 'BTC,ETH,CTA')
+    .split(',')
+    .map(symbol => symbol.trim().toUpperCase())
+    .filter(symbol => symbol.length > 0),
+  tiers: (process.env.GAME_ROUND_TIERS || '1m,5m,15m,1h')
+    .split(',')
+    .map(tier => getRoundTier(tier.trim()))
+    .sort((a, b) => a.duration - b.duration),
+  defaultTier: process.env.GAME_DEFAULT_TIER || '1m',
+  tickInterval: parseInt(process.env.GAME_SCHEDULER_TICK_MS || '1000'),
+  flatTolerancePercent: parseFloat(process.env.GAME_FLAT_TOLERANCE_PERCENT || '0'),
+  settlementMaxDelay: parseInt(process.env.GAME_SETTLEMENT_MAX_DELAY_MS || '30000')
+};
+
+/**
+ * 스테이크 배당 방식
+ * - parimutuel: 라운드의 패배 스테이크를 승리 스테이크 비율대로 나눠 지급
+ * - fixed: 승리 시 스테이크 x 고정 배당률 지급
+ */
+export type GameStakeMode = 'parimutuel' | 'fixed';
+
+/**
+ * 예측 스테이크 설정 인터페이스
+ */
+export interface GameStakeConfig {
+  mode: GameStakeMode;        // 라운드 생성 시 기본 배당 방식
+  fixedOdds: number;          // 고정 배당률 기본값 (스테이크 포함 지급 배수)
+  minStake: number;           // 최소 스테이크 (신뢰도 배수 적용 전)
+  maxStake: number;           // 최대 스테이크 (신뢰도 배수 적용 전)
+  neutralConfidence: number;  // 배수 1 이 되는 신뢰도 (신뢰도 / neutralConfidence 가 스테이크 배수)
+}
+
+export const gameStakeConfig: GameStakeConfig = {
+  mode: process.env.GAME_STAKE_MODE === 'fixed' ? 'fixed' : 'parimutuel',
+  fixedOdds: parseFloat(process.env.GAME_STAKE_FIXED_ODDS || '1.9'),
+  minStake: parseInt(process.env.GAME_STAKE_MIN || '10'),
+  maxStake: parseInt(process.env.GAME_STAKE_MAX || '1000'),
+  neutralConfidence: 5
+};
+
+/**
+ * 예측 접수 시각 검증 설정
+ * 마감 판정은 서버 시각 기준이며, 나머지 임계값은 의심 예측 표시(timingFlagged)에 사용
+ */
+export interface GamePredictionGuardConfig {
+  antiSnipeWindow: number;    // 예측 마감 직전 제출/변경/철회를 거절하는 구간 (밀리초)
+  maxPriceLatency: number;    // 접수 시각 대비 기준 가격 허용 지연 (밀리초, 넘으면 다시 조회하고 그래도 넘으면 표시)
+  maxClockSkew: number;       // 클라이언트가 보낸 시각과 서버 접수 시각의 허용 차이 (밀리초)
+  nearDeadlineWindow: number; // 마감 임박 제출로 표시하는 구간 (밀리초)
+}
+
+export const gamePredictionGuardConfig: GamePredictionGuardConfig = {
+  antiSnipeWindow: parseInt(process.env.GAME_ANTI_SNIPE_WINDOW_MS || '3000'),
+  maxPriceLatency: parseInt(process.env.GAME_MAX_PRICE_LATENCY_MS || '5000'),
+  maxClockSkew: parseInt(process.env.GAME_MAX_CLOCK_SKEW_MS || '2000'),
+  nearDeadlineWindow: parseInt(process.env.GAME_NEAR_DEADLINE_FLAG_MS || '10000')
+};
+
+/**
+ * 1:1 대결 설정
+ * 대결의 각 레그는 같은 심볼/등급의 정규 라운드 하나에 묶여 그 라운드의 시작/종료 가격으로 판정
+ */
+export interface DuelConfig {
+  inviteTtl: number;          // 초대 유효 시간 (밀리초, 지나면 EXPIRED)
+  allowedBestOf: number[];    // 허용하는 시리즈 길이 (홀수)
+  maxLegFactor: number;       // 최대 레그 수 = bestOf x maxLegFactor (무승부/무효 레그가 이어질 때 종료 보장)
+  legMinLeadTime: number;     // 레그로 묶을 라운드의 예측 마감까지 최소 남은 시간 (밀리초)
+  initialRating: number;      // 대결 레이팅 시작값
+  eloK: number;               // Elo K 계수
+  inviteBaseUrl: string;      // 초대 링크 기본 주소 (뒤에 초대 코드가 붙음)
+}
+
+export const duelConfig: DuelConfig = {
+  inviteTtl: parseInt(process.env.DUEL_INVITE_TTL_MS || String(24 * 60 * 60 * 1000)),
+  allowedBestOf: [1, 3, 5, 7],
+  maxLegFactor: 2,
+  legMinLeadTime: parseInt(process.env.DUEL_LEG_MIN_LEAD_TIME_MS || '10000'),
+  initialRating: 1200,
+  eloK: parseInt(process.env.DUEL_ELO_K || '32'),
+  inviteBaseUrl: process.env.DUEL_INVITE_BASE_URL || `${process.env.CORS_ORIGIN || 'http://localhost:5173'}/duel/invite`
+};
+
+/**
+ * 토너먼트 설정
+ * 토너먼트 라운드도 같은 심볼/등급의 정규 라운드에 묶이며, 참가자는 그 라운드에 일반 예측으로 참여
+ */
+export interface TournamentConfig {
+  roundMinLeadTime: number;   // 토너먼트 라운드로 묶을 정규 라운드의 예측 마감까지 최소 남은 시간 (밀리초)
+  maxRoundFactor: number;     // 최대 배정 라운드 수 = roundCount x maxRoundFactor (무효 라운드가 이어질 때 종료 보장)
+  maxRounds: number;          // 토너먼트 라운드 수 상한
+  defaultMinEntrants: number; // 기본 최소 참가자 수 (등록 마감 시 모자라면 취소)
+}
+
+export const tournamentConfig: TournamentConfig = {
+  roundMinLeadTime: parseInt(process.env.TOURNAMENT_ROUND_MIN_LEAD_TIME_MS || '10000'),
+  maxRoundFactor: 2,
+  maxRounds: parseInt(process.env.TOURNAMENT_MAX_ROUNDS || '20'),
+  defaultMinEntrants: parseInt(process.env.TOURNAMENT_MIN_ENTRANTS || '2')
+};
+
+/**
+ * 연습 모드 설정
+ * 연습 게임은 저장된 과거 가격(1분봉, 틱)을 배속 재생하므로 가격 오라클 없이 진행/정산됨
+ */
+export interface PracticeConfig {
+  replaySpeed: number;         // 재생 배속 (등급의 예측/진행 시간을 이 값으로 나눔)
+  minPredictionWindow: number; // 배속 적용 후 최소 예측 시간 (밀리초, 직전 거절 구간보다 충분히 길게)
+  minDuration: number;         // 배속 적용 후 최소 진행 시간 (밀리초)
+  sourceLookback: number;      // 재생 구간을 고르는 기간 (밀리초, 1분봉 보존 기간까지만 의미 있음)
+  maxActivePerUser: number;    // 사용자별 동시에 진행할 수 있는 연습 게임 수
+}
+
+export const practiceConfig: PracticeConfig = {
+  replaySpeed: Math.max(1, parseFloat(process.env.PRACTICE_REPLAY_SPEED || '10')),
+  minPredictionWindow: parseInt(process.env.PRACTICE_MIN_PREDICTION_WINDOW_MS || '15000'),
+  minDuration: parseInt(process.env.PRACTICE_MIN_DURATION_MS || '10000'),
+  sourceLookback: parseInt(process.env.PRACTICE_SOURCE_LOOKBACK_MS || String(30 * 24 * 60 * 60 * 1000)),
+  maxActivePerUser: 1
+};
+
+/**
+ * 정산 기록 서명 설정
+ * 서명 키가 없으면 development/test 에서만 프로세스 시작 시 임시 키를 생성하고 (재시작하면 서명 주소가 바뀜),
+ * 그 외 환경에서는 서버를 시작하지 않음
+ */
+export interface SettlementSignerConfig {
+  privateKey?: string;      // 정산 기록 서명용 secp256k1 프라이빗 키 (0x...)
+  address?: string;         // 공개 서명 주소 (검증자가 신뢰할 주소, 설정하면 프라이빗 키의 주소와 같아야 함)
+  allowEphemeral: boolean;  // 서명 키 미설정 시 임시 키 허용 여부
+}
+
+export const settlementSignerConfig: SettlementSignerConfig = {
+  privateKey: process.env.SETTLEMENT_SIGNER_PRIVATE_KEY,
+  address: process.env.SETTLEMENT_SIGNER_ADDRESS,
+  allowEphemeral: process.env.NODE_ENV === 'development' || process.env.NODE_ENV === 'test'
+};
+
+export default gameRoundConfig;
@@ -0,0 +1,37 @@
+/**
+ * 지표별/심볼별 리더보드 설정
+ * 승률/평균 점수처럼 게임 수가 적을수록 극단값이 나오는 지표는 최소 게임 수를 채운 사용자만 순위에 올림
+ */
+
+import { RankingMetric } from '../models/Ranking';
+
+export interface LeaderboardConfig {
+  minGames: Record<RankingMetric, number>; // 지표별 최소 게임 수 (요청으로 높일 수만 있음)
+  maxLimit: number;                        // 한 번에 조회할 수 있는 최대 순위 수
+}
+
+export const leaderboardConfig: LeaderboardConfig = {
+  minGames: {
+    [RankingMetric.TOTAL_SCORE]: 0,
+    [RankingMetric.GAMES_PLAYED]: 0,
+    [RankingMetric.WIN_RATE]: parseInt(process.env.LEADERBOARD_MIN_GAMES_WIN_RATE || '20'),
+    [RankingMetric.AVG_SCORE]: parseInt(process.env.LEADERBOARD_MIN_GAMES_AVG_SCORE || '20'),
+    [RankingMetric.STREAK]: parseInt(process.env.LEADERBOARD_MIN_GAMES_STREAK || '0')
+  },
+  maxLimit: 100
+};
+
+/**
+ * 요청 파라미터 → 지표 (기존 클라이언트의 camelCase 이름도 허용)
+ */
+export const RANKING_METRIC_ALIASES: Record<string, RankingMetric> = {
+  totalScore: RankingMetric.TOTAL_SCORE,
+  winRate: RankingMetric.WIN_RATE,
+  gamesPlayed: RankingMetric.GAMES_PLAYED,
+  avgScore: RankingMetric.AVG_SCORE,
+  streak: RankingMetric.STREAK,
+  bestStreak: RankingMetric.STREAK,
+  ...Object.fromEntries(Object.values(RankingMetric).map(metric => [metric, metric]))
+};
+
+export default leaderboardConfig;
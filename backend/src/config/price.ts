@@ -0,0 +1,121 @@
+/**
+ * 가격 오라클 설정
+ * 가격 제공자별 API 주소와 심볼 매핑, 집계 규칙을 환경변수에서 읽어옴
+ * 로컬 테스트 시 *_BASE_URL 을 로컬 HTTP 스텁 주소로 지정 (예: BINANCE_BASE_URL=http://127.0.0.1:4010)
+ * catena 제공자는 로컬 Hardhat 노드에 배포한 목업 풀로 시험 (contracts 의 npm run deploy:mock-pool 출력값 사용)
+ * PRICE_PROVIDER=sim 이면 PRICE_PROVIDERS 와 관계없이 sim 제공자(시드 기반 시뮬레이션 시장)만 사용
+ */
+
+import { airdropChainConfig } from './blockchain';
+import { simMarketConfig } from './simMarket';
+
+/**
+ * 가격 제공자 설정 인터페이스
+ */
+export interface PriceProviderConfig {
+  baseUrl: string;
+  apiKey?: string;
+  symbols: Record<string, string>; // 게임 심볼 → 제공자 식별자 (코인 ID, 거래쌍 등)
+  requestsPerMinute: number;       // 분당 요청 한도 (무료 등급 기준, 0 이면 제한 없음)
+  requestsPerDay: number;          // 일(UTC) 요청 한도 (0 이면 제한 없음)
+}
+
+/**
+ * 가격 오라클 설정 인터페이스
+ */
+export interface PriceOracleConfig {
+  providers: string[];          // 조회 우선순위 (앞에서부터 조회, 실패 시 다음 제공자로 대체)
+  quorum: number;               // 목표 합의 소스 수 (이보다 적게 채택되면 다음 제공자를 추가 조회)
+  maxDeviationPercent: number;  // 중앙값 대비 허용 편차 (%), 초과 시 이상치로 제외
+  timeout: number;              // 제공자별 요청 제한 시간 (밀리초)
+}
+
+/**
+ * 제공자 회로 차단 설정
+ * 연속 실패가 failureThreshold 에 이르거나 429 를 받으면 차단(open)하고, 재시도 대기 시간은 실패할 때마다 두 배로 늘림
+ */
+export interface ProviderBreakerConfig {
+  failureThreshold: number;     // 차단까지 허용하는 연속 실패 수
+  baseBackoffMs: number;        // 첫 차단 시 재시도 대기 시간 (밀리초)
+  maxBackoffMs: number;         // 재시도 대기 시간 상한 (밀리초)
+}
+
+/**
+ * Catena 온체인 풀 가격 설정 (Uniswap V2 형식 CTA/USDT 페어)
+ */
+export interface CatenaPoolConfig {
+  poolAddress?: string;         // CTA/USDT 페어 주소 (미설정 시 catena 제공자는 어떤 심볼도 지원하지 않음)
+  ctaTokenAddress?: string;     // 풀의 CTA(WCTA) 토큰 주소 (token0/token1 판별, 미설정 시 ctaIsToken0 사용)
+  ctaIsToken0: boolean;
+  ctaDecimals: number;
+  usdtDecimals: number;
+  mode: 'spot' | 'twap';        // spot: 현재 준비금 비율, twap: 누적 가격 기반 시간 가중 평균
+  twapWindowSeconds: number;    // TWAP 구간 (이 구간의 관측값이 쌓이기 전에는 현재 준비금 비율 사용)
+  minUsdtReserve: number;       // 최소 USDT 준비금 (미만이면 유동성 부족으로 조회 실패)
+  maxDeviationPercent: number;  // 오프체인 소스 중앙값 대비 허용 편차 (%)
+}
+
+export const priceProviderConfigs: Record<string, PriceProviderConfig> = {
+  coingecko: {
+    baseUrl: process.env.COINGECKO_BASE_URL || 'https://api.coingecko.com/api/v3',
+    apiKey: process.env.COINGECKO_API_KEY,
+    symbols: { BTC: 'bitcoin', ETH: 'ethereum', CTA: 'catena' },
+    requestsPerMinute: parseInt(process.env.COINGECKO_REQUESTS_PER_MINUTE || '30'),
+    requestsPerDay: parseInt(process.env.COINGECKO_REQUESTS_PER_DAY || '0')
+  },
+  binance: {
+    baseUrl: process.env.BINANCE_BASE_URL || 'https://api.binance.com',
+    symbols: { BTC: 'BTCUSDT', ETH: 'ETHUSDT' },
+    requestsPerMinute: parseInt(process.env.BINANCE_REQUESTS_PER_MINUTE || '1200'),
+    requestsPerDay: parseInt(process.env.BINANCE_REQUESTS_PER_DAY || '0')
+  },
+  cryptocompare: {
+    baseUrl: process.env.CRYPTOCOMPARE_BASE_URL || 'https://min-api.cryptocompare.com',
+    apiKey: process.env.CRYPTOCOMPARE_API_KEY,
+    symbols: { BTC: 'BTC', ETH: 'ETH' },
+    requestsPerMinute: parseInt(process.env.CRYPTOCOMPARE_REQUESTS_PER_MINUTE || '60'),
+    requestsPerDay: parseInt(process.env.CRYPTOCOMPARE_REQUESTS_PER_DAY || '3000')
+  },
+  catena: {
+    baseUrl: airdropChainConfig.rpcUrl,
+    symbols: process.env.CATENA_CTA_POOL_ADDRESS ? { CTA: process.env.CATENA_CTA_POOL_ADDRESS } : {},
+    requestsPerMinute: parseInt(process.env.CATENA_RPC_REQUESTS_PER_MINUTE || '300'),
+    requestsPerDay: 0
+  },
+  sim: {
+    baseUrl: '',
+    symbols: Object.fromEntries(simMarketConfig.symbols.map(symbol => [symbol.symbol, symbol.symbol])),
+    requestsPerMinute: 0,
+    requestsPerDay: 0
+  }
+};
+
+export const providerBreakerConfig: ProviderBreakerConfig = {
+  failureThreshold: parseInt(process.env.PRICE_PROVIDER_FAILURE_THRESHOLD || '3'),
+  baseBackoffMs: parseInt(process.env.PRICE_PROVIDER_BACKOFF_MS || '15000'),
+  maxBackoffMs: parseInt(process.env.PRICE_PROVIDER_MAX_BACKOFF_MS || '600000')
+};
+
+export const catenaPoolConfig: CatenaPoolConfig = {
+  poolAddress: process.env.CATENA_CTA_POOL_ADDRESS,
+  ctaTokenAddress: process.env.CATENA_CTA_TOKEN_ADDRESS,
+  ctaIsToken0: process.env.CATENA_CTA_IS_TOKEN0 !== 'false',
+  ctaDecimals: parseInt(process.env.CATENA_CTA_DECIMALS || '18'),
+  usdtDecimals: parseInt(process.env.CATENA_USDT_DECIMALS || '6'),
+  mode: process.env.CATENA_POOL_PRICE_MODE === 'spot' ? 'spot' : 'twap',
+  twapWindowSeconds: parseInt(process.env.CATENA_POOL_TWAP_WINDOW_SECONDS || '600'),
+  minUsdtReserve: parseFloat(process.env.CATENA_POOL_MIN_USDT_RESERVE || '1000'),
+  maxDeviationPercent: parseFloat(process.env.CATENA_POOL_MAX_DEVIATION_PERCENT || '5')
+};
+
+export const priceOracleConfig: PriceOracleConfig = {
+  providers: (simMarketConfig.enabled ? 'sim' : process.env.PRICE_PROVIDERS || 'coingecko,binance,cryptocompare,catena')
+    .split(',')
+    .map(provider => provider.trim().toLowerCase())
+    .filter(provider => provider.length > 0),
+  quorum: parseInt(process.env.PRICE_ORACLE_QUORUM || '2'),
+  maxDeviationPercent: parseFloat(process.env.PRICE_ORACLE_MAX_DEVIATION_PERCENT || '1'),
+  timeout: parseInt(process.env.PRICE_PROVIDER_TIMEOUT_MS || '5000')
+};
+
+export default priceOracleConfig;
@@ -0,0 +1,24 @@
+/**
+ * 가격 알림 설정
+ * 사용자별 알림 한도와 쿨다운 범위를 환경변수에서 읽어옴
+ */
+
+export interface PriceAlertConfig {
+  maxActivePerUser: number;   // 사용자별 활성 알림 수 한도
+  maxPerUser: number;         // 사용자별 전체 알림 수 한도 (비활성 포함)
+  defaultCooldownMs: number;  // 반복 알림 기본 쿨다운 (밀리초)
+  minCooldownMs: number;      // 반복 알림 최소 쿨다운 (밀리초)
+  maxChangePercent: number;   // percent_change 조건의 최대 변화율 (%)
+  maxNotificationsPerRequest: number; // 발동 기록 조회/재전송 1회당 최대 건수
+}
+
+export const priceAlertConfig: PriceAlertConfig = {
+  maxActivePerUser: parseInt(process.env.PRICE_ALERT_MAX_ACTIVE_PER_USER || '20'),
+  maxPerUser: parseInt(process.env.PRICE_ALERT_MAX_PER_USER || '50'),
+  defaultCooldownMs: parseInt(process.env.PRICE_ALERT_DEFAULT_COOLDOWN_MS || '900000'),
+  minCooldownMs: parseInt(process.env.PRICE_ALERT_MIN_COOLDOWN_MS || '60000'),
+  maxChangePercent: 100,
+  maxNotificationsPerRequest: 50
+};
+
+export default priceAlertConfig;
@@ -0,0 +1,56 @@
+/**
+ * 가격 히스토리 설정
+ * 틱 기록 주기, 캔들 롤업/공백 채우기 주기, 간격별 보존 기간을 환경변수에서 읽어옴
+ */
+
+import { CandleInterval } from '../models/PriceCandle';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 가격 히스토리 설정 인터페이스
+ */
+export interface PriceHistoryConfig {
+  enabled: boolean;                                   // 틱 기록/롤업/보존 작업 실행 여부
+  symbols: string[];                                  // 기록할 심볼 (기본: 게임 라운드 심볼)
+  sampleInterval: number;                             // 틱 기록 주기 (밀리초)
+  rollupInterval: number;                             // 롤업/보존 정리 주기 (밀리초)
+  backfillInterval: number;                           // 공백 채우기 주기 (밀리초)
+  backfillLookback: Record<CandleInterval, number>;   // 간격별 공백 점검 범위 (밀리초)
+  tickRetention: number;                              // 틱 보존 기간 (밀리초)
+  candleRetention: Record<CandleInterval, number>;    // 간격별 캔들 보존 기간 (밀리초, 0 이면 영구 보존)
+  maxCandlesPerRequest: number;                       // 제공자 과거 데이터 요청당 최대 캔들 수
+  maxBackfillRequests: number;                        // 공백 채우기 1회당 최대 제공자 요청 수
+  maxPoints: number;                                  // 차트/히스토리 응답 최대 캔들 수
+}
+
+const days = (name: string, fallback: string): number => parseFloat(process.env[name] || fallback) * DAY_MS;
+
+export const priceHistoryConfig: PriceHistoryConfig = {
+  enabled: process.env.PRICE_HISTORY_ENABLED !== 'false',
+  symbols: (process.env.PRICE_HISTORY_SYMBOLS || process.env.GAME_ROUND_SYMBOLS || 'BTC,ETH,CTA')
+    .split(',')
+    .map(symbol => symbol.trim().toUpperCase())
+    .filter(symbol => symbol.length > 0),
+  sampleInterval: parseInt(process.env.PRICE_HISTORY_SAMPLE_INTERVAL_MS || '10000'),
+  rollupInterval: parseInt(process.env.PRICE_HISTORY_ROLLUP_INTERVAL_MS || '60000'),
+  backfillInterval: parseInt(process.env.PRICE_HISTORY_BACKFILL_INTERVAL_MS || '3600000'),
+  backfillLookback: {
+    [CandleInterval.ONE_MINUTE]: days('PRICE_HISTORY_BACKFILL_1M_DAYS', '0.25'),
+    [CandleInterval.FIVE_MINUTES]: days('PRICE_HISTORY_BACKFILL_5M_DAYS', '3'),
+    [CandleInterval.ONE_HOUR]: days('PRICE_HISTORY_BACKFILL_1H_DAYS', '30'),
+    [CandleInterval.ONE_DAY]: days('PRICE_HISTORY_BACKFILL_1D_DAYS', '365')
+  },
+  tickRetention: days('PRICE_HISTORY_TICK_RETENTION_DAYS', '2'),
+  candleRetention: {
+    [CandleInterval.ONE_MINUTE]: days('PRICE_HISTORY_1M_RETENTION_DAYS', '7'),
+    [CandleInterval.FIVE_MINUTES]: days('PRICE_HISTORY_5M_RETENTION_DAYS', '60'),
+    [CandleInterval.ONE_HOUR]: days('PRICE_HISTORY_1H_RETENTION_DAYS', '730'),
+    [CandleInterval.ONE_DAY]: days('PRICE_HISTORY_1D_RETENTION_DAYS', '0')
+  },
+  maxCandlesPerRequest: parseInt(process.env.PRICE_HISTORY_MAX_CANDLES_PER_REQUEST || '500'),
+  maxBackfillRequests: parseInt(process.env.PRICE_HISTORY_MAX_BACKFILL_REQUESTS || '20'),
+  maxPoints: 1000
+};
+
+export default priceHistoryConfig;
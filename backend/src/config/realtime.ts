@@ -0,0 +1,25 @@
+/**
+ * 실시간(WebSocket) 설정
+ * 프론트엔드 useWebSocket 훅이 접속하는 /ws 엔드포인트와 브로드캐스트 주기를 환경변수에서 읽어옴
+ */
+
+/**
+ * 실시간 설정 인터페이스
+ */
+export interface RealtimeConfig {
+  path: string;                  // WebSocket 엔드포인트 경로
+  heartbeatTimeout: number;      // 이 시간 동안 하트비트/pong 이 없으면 연결 종료 (밀리초)
+  priceInterval: number;         // 구독 중인 심볼의 가격 브로드캐스트 주기 (밀리초)
+  rankingBroadcastTop: number;   // 순위 변동을 채널 전체에 알리는 상위 순위 범위 (그 밖은 본인에게만 전송)
+  maxSubscriptions: number;      // 연결당 최대 구독 채널 수
+}
+
+export const realtimeConfig: RealtimeConfig = {
+  path: process.env.WS_PATH || '/ws',
+  heartbeatTimeout: parseInt(process.env.WS_HEARTBEAT_TIMEOUT_MS || '90000'),
+  priceInterval: parseInt(process.env.WS_PRICE_INTERVAL_MS || '5000'),
+  rankingBroadcastTop: parseInt(process.env.WS_RANKING_BROADCAST_TOP || '100'),
+  maxSubscriptions: parseInt(process.env.WS_MAX_SUBSCRIPTIONS || '50')
+};
+
+export default realtimeConfig;
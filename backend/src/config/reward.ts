@@ -0,0 +1,26 @@
+/**
+ * 랭킹 보상 기본 설정
+ * 기간별 보상 테이블이 아직 없을 때 생성되는 기본 보상 등급 (docs/1_overview.md 보상 등급 기준)
+ * 실제 지급은 관리자가 수정할 수 있는 reward_tables 테이블을 기준으로 함
+ */
+
+import { RewardTierDefinition, RewardTieBreaker } from '../models/RewardTable';
+
+export const DEFAULT_REWARD_TIERS: RewardTierDefinition[] = [
+  { tier: 1, name: '1등', rankFrom: 1, rankTo: 1, rewards: [{ token: 'CTA', amount: 1000 }, { token: 'USDT', amount: 5000 }] },
+  { tier: 2, name: '2등', rankFrom: 2, rankTo: 21, rewards: [{ token: 'CTA', amount: 50 }, { token: 'USDT', amount: 250 }] },
+  { tier: 3, name: '3등', rankFrom: 22, rankTo: 521, rewards: [{ token: 'CTA', amount: 2 }] },
+  { tier: 4, name: '4등', rankFrom: 522, rankTo: 1521, rewards: [{ token: 'CTA', amount: 1 }] },
+  { tier: 5, name: '5등', rankFrom: 1522, rankTo: 3521, rewards: [{ token: 'CTA', amount: 0.5 }] },
+  { tier: 6, name: '6등', rankFrom: 3522, rankTo: 8521, rewards: [{ token: 'CTA', amount: 0.2 }] },
+  { tier: 7, name: '7등', rankFrom: 8522, rankTo: 18521, rewards: [{ token: 'CTA', amount: 0.1 }] }
+];
+
+/**
+ * 동점자 순위 결정 기본 규칙 (앞에서부터 순서대로 적용)
+ */
+export const DEFAULT_TIE_BREAKERS: RewardTieBreaker[] = [
+  RewardTieBreaker.HIGHER_WIN_RATE,
+  RewardTieBreaker.MORE_GAMES,
+  RewardTieBreaker.EARLIEST_REACHED
+];
@@ -0,0 +1,107 @@
+/**
+ * 시뮬레이션 시장 설정
+ * PRICE_PROVIDER=sim 이면 외부 가격 API 대신 시드 기반 가격 경로(sim 제공자)로 게임/알림/차트/WebSocket 전체를 구동
+ *
+ * 같은 SIM_MARKET_SEED 와 SIM_MARKET_START 면 같은 시각의 가격이 항상 같으므로 네트워크 없이 게임 흐름을 재현할 수 있음
+ * 예) PRICE_PROVIDER=sim SIM_MARKET_SEED=e2e SIM_MARKET_START=2026-01-01T00:00:00Z SIM_MARKET_SCENARIOS=BTC:crash:20:300@600
+ */
+
+/**
+ * 가격 경로 모델
+ * - gbm: 기하 브라운 운동 (로그 수익률이 정규분포)
+ * - random_walk: 초기 가격 기준 고정 폭의 산술 랜덤 워크
+ */
+export type SimPriceModel = 'gbm' | 'random_walk';
+
+/**
+ * 시나리오 종류
+ * - spike: 구간 동안 magnitude% 상승
+ * - crash: 구간 동안 magnitude% 하락
+ * - flat: 구간 동안 가격 고정
+ * - volatile: 구간 동안 연 변동성을 magnitude% 로 변경
+ */
+export type SimScenarioType = 'spike' | 'crash' | 'flat' | 'volatile';
+
+/**
+ * 심볼별 가격 경로 설정 (drift, volatility 는 연 단위 비율, 예: 0.8 = 80%)
+ */
+export interface SimSymbolConfig {
+  symbol: string;
+  initialPrice: number;
+  drift: number;
+  volatility: number;
+}
+
+/**
+ * 시작 시각 기준으로 예약된 시나리오
+ */
+export interface SimScenarioScript {
+  symbol: string;
+  type: SimScenarioType;
+  magnitude: number;      // spike/crash: 변화율 (%), volatile: 연 변동성 (%), flat: 사용 안 함
+  durationMs: number;
+  startOffsetMs: number;  // 시뮬레이션 시작 시각으로부터
+}
+
+export interface SimMarketConfig {
+  enabled: boolean;                 // PRICE_PROVIDER=sim
+  seed: string;
+  model: SimPriceModel;
+  tickMs: number;                   // 가격 경로 한 걸음의 길이 (밀리초)
+  startTime: number;                // 경로 시작 시각 (이전 시각은 초기 가격, 과거 캔들 없음)
+  symbols: SimSymbolConfig[];
+  scenarios: SimScenarioScript[];
+}
+
+const DEFAULT_SYMBOLS = 'BTC:65000,ETH:3200,CTA:0.05';
+const DEFAULT_DRIFT = parseFloat(process.env.SIM_MARKET_DRIFT || '0');
+const DEFAULT_VOLATILITY = parseFloat(process.env.SIM_MARKET_VOLATILITY || '0.8');
+const TICK_MS = Math.max(100, parseInt(process.env.SIM_MARKET_TICK_MS || '1000'));
+
+/**
+ * SIM_MARKET_SYMBOLS 형식: 심볼:초기가격[:drift:volatility] (쉼표 구분)
+ */
+const parseSymbols = (value: string): SimSymbolConfig[] => value
+  .split(',')
+  .map(entry => entry.trim().split(':'))
+  .filter(parts => parts[0] && Number(parts[1]) > 0)
+  .map(([symbol, price, drift, volatility]) => ({
+    symbol: symbol.toUpperCase(),
+    initialPrice: Number(price),
+    drift: drift !== undefined && drift !== '' ? Number(drift) : DEFAULT_DRIFT,
+    volatility: volatility !== undefined && volatility !== '' ? Number(volatility) : DEFAULT_VOLATILITY
+  }));
+
+/**
+ * SIM_MARKET_SCENARIOS 형식: 심볼:종류:크기(%):지속초@시작후초 (쉼표 구분)
+ */
+const parseScenarios = (value: string): SimScenarioScript[] => value
+  .split(',')
+  .map(entry => entry.trim())
+  .filter(entry => entry.length > 0)
+  .map(entry => {
+    const [spec, offset] = entry.split('@');
+    const [symbol, type, magnitude, duration] = spec.split(':');
+    return {
+      symbol: symbol.toUpperCase(),
+      type: type as SimScenarioType,
+      magnitude: Number(magnitude) || 0,
+      durationMs: (Number(duration) || 0) * 1000,
+      startOffsetMs: (Number(offset) || 0) * 1000
+    };
+  })
+  .filter(scenario => ['spike', 'crash', 'flat', 'volatile'].includes(scenario.type) && scenario.durationMs > 0);
+
+const startTime = process.env.SIM_MARKET_START ? Date.parse(process.env.SIM_MARKET_START) : NaN;
+
+export const simMarketConfig: SimMarketConfig = {
+  enabled: (process.env.PRICE_PROVIDER || '').toLowerCase() === 'sim',
+  seed: process.env.SIM_MARKET_SEED || 'cta-mission',
+  model: process.env.SIM_MARKET_MODEL === 'random_walk' ? 'random_walk' : 'gbm',
+  tickMs: TICK_MS,
+  startTime: Number.isFinite(startTime) ? startTime : Math.floor(Date.now() / TICK_MS) * TICK_MS,
+  symbols: parseSymbols(process.env.SIM_MARKET_SYMBOLS || DEFAULT_SYMBOLS),
+  scenarios: parseScenarios(process.env.SIM_MARKET_SCENARIOS || '')
+};
+
+export default simMarketConfig;
@@ -3,6 +3,26 @@ import { User } from '../models/User';
 import { Mission } from '../models/Mission';
 import { UserMission } from '../models/UserMission';
 import { PointHistory } from '../models/PointHistory';
+import { Game } from '../models/Game';
+import { GamePrediction } from '../models/GamePrediction';
+import { GameScore } from '../models/GameScore';
+import { Prediction } from '../models/Prediction';
+import { Ranking } from '../models/Ranking';
+import { RewardTable } from '../models/RewardTable';
+import { AirdropTransfer } from '../models/AirdropTransfer';
+import { Season } from '../models/Season';
+import { SeasonStanding } from '../models/SeasonStanding';
+import { SettlementRecord } from '../models/SettlementRecord';
+import { Duel } from '../models/Duel';
+import { DuelLeg } from '../models/DuelLeg';
+import { Tournament } from '../models/Tournament';
+import { TournamentEntry } from '../models/TournamentEntry';
+import { TournamentRound } from '../models/TournamentRound';
+import { UserAchievement } from '../models/UserAchievement';
+import { PriceCandle } from '../models/PriceCandle';
+import { PriceTick } from '../models/PriceTick';
+import { PriceAlert } from '../models/PriceAlert';
+import { PriceAlertNotification } from '../models/PriceAlertNotification';
 
 /**
  * TypeORM 데이터소스 설정
@@ -28,7 +48,27 @@ const dataSourceOptions: DataSourceOptions = {
     User,
     Mission, 
     UserMission,
-    PointHistory
+    PointHistory,
+    Game,
+    GamePrediction,
+    GameScore,
+    Prediction,
+    Ranking,
+    RewardTable,
+    AirdropTransfer,
+    Season,
+    SeasonStanding,
+    SettlementRecord,
+    Duel,
+    DuelLeg,
+    Tournament,
+    TournamentEntry,
+    TournamentRound,
+    UserAchievement,
+    PriceCandle,
+    PriceTick,
+    PriceAlert,
+    PriceAlertNotification
   ],
   
   // 마이그레이션 파일 위치
@@ -0,0 +1,167 @@
+// src/controllers/AchievementController.ts
+
+import { Request, Response } from 'express';
+import { UserAchievement, UserAchievementStatus } from '../models/UserAchievement';
+import { AchievementDefinition } from '../types/achievement.types';
+import { AppError } from '../middlewares/errorHandler';
+import { AchievementService } from '../services/AchievementService';
+
+// 인터페이스 정의
+interface AuthenticatedRequest extends Request {
+  user?: {
+    id: string;
+    role?: string;
+  };
+}
+
+/**
+ * 업적 컨트롤러
+ * 업적 목록(로그인 시 내 진행 상황 포함), 내 진행 상황, 보상 수령을 담당
+ * 진행 상황 갱신과 달성 처리는 게임 정산/순위 변동/미션 완료 시 AchievementService 에서 이루어짐
+ */
+export class AchievementController {
+  private achievementService: AchievementService;
+
+  constructor() {
+    this.achievementService = new AchievementService();
+  }
+
+  /**
+   * 업적 목록 (로그인 시 내 진행 상황 포함)
+   * GET /api/achievements
+   */
+  async getAchievements(req: AuthenticatedRequest, res: Response): Promise<void> {
+    await this.handle(res, '업적 목록 조회', async userId => {
+      const progress = userId ? await this.achievementService.getProgress(userId) : null;
+      const rows = new Map((progress?.achievements || []).map(row => [row.achievementId, row]));
+
+      res.json({
+        success: true,
+        data: {
+          achievements: this.achievementService.getDefinitions().map(definition =>
+            this.toAchievementView(definition, rows.get(definition.id), !!userId)
+          ),
+          summary: progress?.summary ?? null
+        }
+      });
+    }, req, false);
+  }
+
+  /**
+   * 내 업적 진행 상황
+   * GET /api/achievements/progress
+   */
+  async getProgress(req: AuthenticatedRequest, res: Response): Promise<void> {
+    await this.handle(res, '업적 진행 상황 조회', async userId => {
+      const { achievements, summary } = await this.achievementService.getProgress(userId);
+
+      res.json({
+        success: true,
+        data: {
+          achievements: achievements.map(row => this.toProgressView(row)),
+          summary
+        }
+      });
+    }, req);
+  }
+
+  /**
+   * 업적 보상 수령
+   * POST /api/achievements/:achievementId/claim
+   */
+  async claimReward(req: AuthenticatedRequest, res: Response): Promise<void> {
+    await this.handle(res, '업적 보상 수령', async userId => {
+      const achievement = await this.achievementService.claim(userId, req.params.achievementId);
+
+      res.json({
+        success: true,
+        message: `업적 보상 ${achievement.rewardPoints}점이 지급되었습니다.`,
+        data: this.toProgressView(achievement)
+      });
+    }, req);
+  }
+
+  /**
+   * 업적 정의 (프론트엔드 Achievement 형식, 로그인 시 내 진행 상황 포함)
+   */
+  private toAchievementView(
+    definition: AchievementDefinition,
+    row: UserAchievement | undefined,
+    authenticated: boolean
+  ): Record<string, unknown> {
+    return {
+      id: definition.id,
+      type: definition.type,
+      title: definition.title,
+      description: definition.description,
+      icon: definition.icon,
+      requirement: definition.requirement,
+      reward: definition.reward,
+      unlockedAt: row?.completedAt ?? undefined,
+      progress: authenticated
+        ? this.toProgressView(row ?? { achievementId: definition.id, target: definition.requirement.value })
+        : null
+    };
+  }
+
+  /**
+   * 사용자 업적 진행 상황 (프론트엔드 UserAchievement 형식, 행이 없으면 진행 없음)
+   */
+  private toProgressView(row: Partial<UserAchievement>): Record<string, unknown> {
+    const status = row.status ?? UserAchievementStatus.IN_PROGRESS;
+    const target = row.target ?? 0;
+
+    return {
+      achievementId: row.achievementId,
+      status,
+      progress: row.progress ?? 0,
+      target,
+      progressPercent: target > 0 ? Math.round(((row.progress ?? 0) / target) * 100) : 0,
+      isCompleted: status !== UserAchievementStatus.IN_PROGRESS,
+      isClaimable: status === UserAchievementStatus.COMPLETED,
+      rewardPoints: row.rewardPoints ?? 0,
+      badge: row.badge ?? null,
+      completedAt: row.completedAt ?? null,
+      claimedAt: row.claimedAt ?? null
+    };
+  }
+
+  /**
+   * 공통 처리: 인증 확인, AppError 는 해당 상태 코드로, 그 외 오류는 500 으로 응답
+   */
+  private async handle(
+    res: Response,
+    action: string,
+    run: (userId: string) => Promise<void>,
+    req: AuthenticatedRequest,
+    requireAuth: boolean = true
+  ): Promise<void> {
+    const userId = req.user?.id;
+    if (requireAuth && !userId) {
+      res.status(401).json({
+        success: false,
+        message: '인증이 필요합니다.'
+      });
+      return;
+    }
+
+    try {
+      await run(userId || '');
+    } catch (error) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          message: error.message
+        });
+        return;
+      }
+      console.error(`${action} 오류:`, error);
+      res.status(500).json({
+        success: false,
+        message: `${action} 중 오류가 발생했습니다.`
+      });
+    }
+  }
+}
+
+export default AchievementController;
@@ -0,0 +1,307 @@
+// src/controllers/DuelController.ts
+
+import { Request, Response } from 'express';
+import { Duel } from '../models/Duel';
+import { DuelLeg } from '../models/DuelLeg';
+import { GamePredictionType } from '../models/GamePrediction';
+import { User } from '../models/User';
+import { AppError } from '../middlewares/errorHandler';
+import { DuelService } from '../services/DuelService';
+
+// 인터페이스 정의
+interface AuthenticatedRequest extends Request {
+  user?: {
+    id: string;
+    role?: string;
+  };
+}
+
+interface CreateDuelRequest extends AuthenticatedRequest {
+  body: {
+    opponentUsername?: string;
+    symbol: string;
+    tier: string;
+    bestOf?: number;
+  };
+}
+
+interface DuelPredictRequest extends AuthenticatedRequest {
+  body: {
+    prediction: GamePredictionType;
+  };
+}
+
+interface DuelHistoryQuery extends AuthenticatedRequest {
+  query: {
+    limit?: string;
+    offset?: string;
+  };
+}
+
+/**
+ * 1:1 대결 컨트롤러
+ * 대결 신청/수락/거절/취소, 레그 예측, 대결 조회와 프로필 대결 기록을 담당
+ */
+export class DuelController {
+  private duelService: DuelService;
+
+  constructor() {
+    this.duelService = new DuelService();
+  }
+
+  /**
+   * 대결 신청
+   * POST /api/duel
+   */
+  async createDuel(req: CreateDuelRequest, res: Response): Promise<void> {
+    await this.handle(res, '대결 신청', async userId => {
+      const { opponentUsername, symbol, tier, bestOf = 3 } = req.body;
+      const duel = await this.duelService.createDuel(userId, { opponentUsername, symbol, tier, bestOf });
+
+      res.status(201).json({
+        success: true,
+        message: duel.opponentId ? '대결을 신청했습니다.' : '대결 초대 링크를 만들었습니다.',
+        data: {
+          ...this.toDuelView(duel, userId),
+          inviteLink: this.duelService.getInviteLink(duel)
+        }
+      });
+    }, req);
+  }
+
+  /**
+   * 대결 수락 (대결 ID 또는 초대 코드)
+   * POST /api/duel/:key/accept
+   */
+  async acceptDuel(req: AuthenticatedRequest, res: Response): Promise<void> {
+    await this.handle(res, '대결 수락', async userId => {
+      const duel = await this.duelService.acceptDuel(req.params.key, userId);
+
+      res.json({
+        success: true,
+        message: '대결을 수락했습니다.',
+        data: this.toDuelView(duel, userId)
+      });
+    }, req);
+  }
+
+  /**
+   * 대결 거절
+   * POST /api/duel/:key/decline
+   */
+  async declineDuel(req: AuthenticatedRequest, res: Response): Promise<void> {
+    await this.handle(res, '대결 거절', async userId => {
+      const duel = await this.duelService.declineDuel(req.params.key, userId);
+
+      res.json({
+        success: true,
+        message: '대결을 거절했습니다.',
+        data: this.toDuelView(duel, userId)
+      });
+    }, req);
+  }
+
+  /**
+   * 대결 취소 (수락 전, 신청자만)
+   * POST /api/duel/:key/cancel
+   */
+  async cancelDuel(req: AuthenticatedRequest, res: Response): Promise<void> {
+    await this.handle(res, '대결 취소', async userId => {
+      const duel = await this.duelService.cancelDuel(req.params.key, userId);
+
+      res.json({
+        success: true,
+        message: '대결을 취소했습니다.',
+        data: this.toDuelView(duel, userId)
+      });
+    }, req);
+  }
+
+  /**
+   * 현재 레그 예측
+   * POST /api/duel/:key/predict
+   */
+  async predictLeg(req: DuelPredictRequest, res: Response): Promise<void> {
+    await this.handle(res, '대결 예측', async userId => {
+      const { prediction } = req.body;
+      if (!prediction || !Object.values(GamePredictionType).includes(prediction)) {
+        throw new AppError('올바른 예측 값을 입력해주세요. (UP 또는 DOWN)', 400);
+      }
+
+      const leg = await this.duelService.predictLeg(req.params.key, userId, prediction);
+
+      res.json({
+        success: true,
+        message: '레그 예측이 제출되었습니다.',
+        data: this.toLegView(leg, false)
+      });
+    }, req);
+  }
+
+  /**
+   * 대결 상세 조회 (레그 포함)
+   * GET /api/duel/:key
+   * 판정 전 레그의 상대 예측은 숨김
+   */
+  async getDuel(req: AuthenticatedRequest, res: Response): Promise<void> {
+    await this.handle(res, '대결 조회', async userId => {
+      const detail = await this.duelService.getDuel(req.params.key);
+      if (!detail) {
+        throw new AppError('대결을 찾을 수 없습니다.', 404);
+      }
+
+      const side = detail.duel.sideOf(userId);
+      res.json({
+        success: true,
+        data: {
+          ...this.toDuelView(detail.duel, userId),
+          inviteLink: side === 'challenger' ? this.duelService.getInviteLink(detail.duel) : undefined,
+          legs: detail.legs.map(leg => this.toLegView(leg, !leg.result, side))
+        }
+      });
+    }, req);
+  }
+
+  /**
+   * 내 대결 기록
+   * GET /api/duel/history
+   */
+  async getMyHistory(req: DuelHistoryQuery, res: Response): Promise<void> {
+    await this.handle(res, '대결 기록 조회', async userId => {
+      await this.sendHistory(req, res, userId, userId);
+    }, req);
+  }
+
+  /**
+   * 사용자 프로필 대결 기록
+   * GET /api/duel/users/:userId/history
+   */
+  async getUserHistory(req: DuelHistoryQuery, res: Response): Promise<void> {
+    await this.handle(res, '대결 기록 조회', async () => {
+      await this.sendHistory(req, res, req.params.userId);
+    }, req, false);
+  }
+
+  /**
+   * 대결 기록 응답 (최신순, 최대 100건)
+   */
+  private async sendHistory(req: DuelHistoryQuery, res: Response, userId: string, viewerId?: string): Promise<void> {
+    const limit = Math.min(Math.max(parseInt(req.query.limit || '20') || 20, 1), 100);
+    const offset = Math.max(parseInt(req.query.offset || '0') || 0, 0);
+    const { duels, total } = await this.duelService.getUserDuels(userId, limit, offset);
+
+    res.json({
+      success: true,
+      data: {
+        duels: duels.map(duel => this.toDuelView(duel, viewerId ?? userId)),
+        pagination: { total, limit, offset }
+      }
+    });
+  }
+
+  /**
+   * 대결 응답 형태 (요청 사용자 기준 결과 포함)
+   */
+  private toDuelView(duel: Duel, userId: string): Record<string, unknown> {
+    const side = duel.sideOf(userId);
+
+    return {
+      duelId: duel.id,
+      inviteCode: duel.inviteCode,
+      status: duel.status,
+      symbol: duel.symbol,
+      tier: duel.tier,
+      bestOf: duel.bestOf,
+      challenger: this.toPlayerView(duel.challengerId, duel.challenger),
+      opponent: duel.opponentId ? this.toPlayerView(duel.opponentId, duel.opponent) : null,
+      score: {
+        challenger: duel.challengerWins,
+        opponent: duel.opponentWins,
+        draws: duel.drawLegs
+      },
+      legCount: duel.legCount,
+      winnerId: duel.winnerId ?? null,
+      mySide: side,
+      myResult: duel.status === 'finished' && side
+        ? (!duel.winnerId ? 'draw' : duel.winnerId === userId ? 'win' : 'lose')
+        : null,
+      ratingChange: {
+        challenger: duel.challengerRatingChange ?? null,
+        opponent: duel.opponentRatingChange ?? null
+      },
+      expireReason: duel.metadata?.expireReason,
+      expiresAt: duel.expiresAt,
+      startedAt: duel.startedAt,
+      finishedAt: duel.finishedAt,
+      createdAt: duel.createdAt
+    };
+  }
+
+  /**
+   * 참가자 표시 정보
+   */
+  private toPlayerView(userId: string, user?: User): Record<string, unknown> {
+    return {
+      userId,
+      username: user?.username || user?.nickname || null,
+      duelRating: user?.duelRating ?? null
+    };
+  }
+
+  /**
+   * 레그 응답 형태
+   * @param hideOpponent 판정 전이면 요청 사용자의 예측만 공개
+   */
+  private toLegView(leg: DuelLeg, hideOpponent: boolean, side?: 'challenger' | 'opponent' | null): Record<string, unknown> {
+    const reveal = (owner: 'challenger' | 'opponent'): boolean => !hideOpponent || side === owner;
+
+    return {
+      legNumber: leg.legNumber,
+      gameId: leg.gameId,
+      challengerPrediction: reveal('challenger') ? leg.challengerPrediction ?? null : leg.challengerPrediction ? 'hidden' : null,
+      opponentPrediction: reveal('opponent') ? leg.opponentPrediction ?? null : leg.opponentPrediction ? 'hidden' : null,
+      outcome: leg.outcome ?? null,
+      result: leg.result ?? null,
+      resolvedAt: leg.resolvedAt ?? null
+    };
+  }
+
+  /**
+   * 공통 처리: 인증 확인, AppError 는 해당 상태 코드로, 그 외 오류는 500 으로 응답
+   */
+  private async handle(
+    res: Response,
+    action: string,
+    run: (userId: string) => Promise<void>,
+    req: AuthenticatedRequest,
+    requireAuth: boolean = true
+  ): Promise<void> {
+    const userId = req.user?.id;
+    if (requireAuth && !userId) {
+      res.status(401).json({
+        success: false,
+        message: '인증이 필요합니다.'
+      });
+      return;
+    }
+
+    try {
+      await run(userId || '');
+    } catch (error) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          message: error.message
+        });
+        return;
+      }
+      console.error(`${action} 오류:`, error);
+      res.status(500).json({
+        success: false,
+        message: `${action} 중 오류가 발생했습니다.`
+      });
+    }
+  }
+}
+
+export default DuelController;
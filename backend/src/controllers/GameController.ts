@@ -1,27 +1,33 @@
 // src/controllers/GameController.ts
 
 import { Request, Response } from 'express';
-import { Repository } from 'typeorm';
+import { FindOptionsWhere, Not, Repository } from 'typeorm';
 import { AppDataSource } from '../config/database';
-import { Game, GameStatus } from '../models/Game';
+import { Game, GameStatus, PRACTICE_GAME_TYPE } from '../models/Game';
 import { GamePrediction, GamePredictionType, GamePredictionStatus } from '../models/GamePrediction';
-import { GameScore } from '../models/GameScore';
+import { GameScore, GameScoreStatus } from '../models/GameScore';
 // import { User } from '../models/User'; // 사용하지 않음
 import { PriceService } from '../services/PriceService';
 import GameService from '../services/GameService';
+import { findRoundTierByMinutes, gamePredictionGuardConfig, gameRoundConfig, gameStakeConfig, GAME_ROUND_TIERS } from '../config/game';
+import { INSUFFICIENT_BALANCE_MESSAGE } from '../services/ScoreLedgerService';
+import { calculateWager } from '../utils/staking';
+import { evaluatePredictionTiming } from '../utils/predictionTiming';
+import { AppError } from '../middlewares/errorHandler';
+import SettlementService from '../services/SettlementService';
 
 // 인터페이스 정의
 interface AuthenticatedRequest extends Request {
   user?: {
     id: string;
-    role?: string;
   };
 }
 
-interface StartGameRequest extends Request {
+interface StartGameRequest extends AuthenticatedRequest {
   body: {
     symbol: string;
-    duration: number;
+    tier?: string;       // 라운드 길이 등급 (1m, 5m, 15m, 1h)
+    duration?: number;   // 진행 시간 (분), tier 가 없을 때 같은 길이의 등급으로 변환
     gameType?: string;
   };
 }
@@ -31,6 +37,15 @@ interface PredictRequest extends AuthenticatedRequest {
     gameId: string;
     prediction: GamePredictionType;
     confidence?: number;
+    stake?: number;
+    clientTimestamp?: number; // 클라이언트의 서버 기준 추정 시각 (GET /api/game/time 으로 보정, Unix ms)
+  };
+}
+
+interface ChangePredictionRequest extends AuthenticatedRequest {
+  body: {
+    prediction: GamePredictionType;
+    clientTimestamp?: number;
   };
 }
 
@@ -54,6 +69,7 @@ export class GameController {
       // private _userRepository: Repository<User>; // 사용하지 않음
   private priceService: PriceService;
   private gameService: GameService;
+  private settlementService: SettlementService;
 
   constructor() {
     this.gameRepository = AppDataSource.getRepository(Game);
@@ -62,6 +78,7 @@ export class GameController {
             // this._userRepository = AppDataSource.getRepository(User);
     this.priceService = new PriceService();
     this.gameService = new GameService();
+    this.settlementService = new SettlementService();
   }
 
   /**
@@ -95,53 +112,63 @@ export class GameController {
   /**
    * 새 게임 시작
    * POST /api/game/start
+   * 라운드는 서버 스케줄러가 관리하므로 해당 심볼/등급의 예측 접수 중인 라운드를 반환
+   * (접수 중인 라운드가 없을 때만 새 라운드를 추가로 생성하며, 다른 라운드는 종료하지 않음)
    */
   async startGame(req: StartGameRequest, res: Response): Promise<void> {
     try {
-      const { symbol, duration, gameType = 'PREDICTION' } = req.body;
+      const { symbol, duration } = req.body;
 
-      if (!symbol || !duration) {
+      if (!symbol) {
         res.status(400).json({
           success: false,
-          message: '심볼과 게임 시간은 필수 입력 사항입니다.'
+          message: '심볼은 필수 입력 사항입니다.'
         });
         return;
       }
 
-      // 현재 가격 조회
-      const currentPrice = await this.priceService.getCurrentPriceBySymbol(symbol);
-      if (!currentPrice) {
+      const tier = req.body.tier
+        || (duration ? findRoundTierByMinutes(Number(duration))?.id : gameRoundConfig.defaultTier);
+
+      if (!tier || !GAME_ROUND_TIERS[tier]) {
         res.status(400).json({
           success: false,
-          message: '지원하지 않는 토큰이거나 가격 정보를 가져올 수 없습니다.'
+          message: `지원하지 않는 라운드 등급입니다. (지원: ${Object.keys(GAME_ROUND_TIERS).join(', ')})`
         });
         return;
       }
 
-      // 게임 생성
-      const game = new Game();
-      game.symbol = symbol;
-      game.gameType = gameType;
-      game.duration = duration;
-      game.startPrice = currentPrice.price;
-      game.startTime = new Date();
-      game.endTime = new Date(Date.now() + duration * 60 * 1000);
-      game.status = GameStatus.ACTIVE;
-      game.createdBy = (req as any).user?.id || 'system';
+      let game = await this.gameService.getOpenRound(symbol, tier);
+      let created = false;
 
-      const savedGame = await this.gameRepository.save(game);
+      if (!game) {
+        try {
+          game = await this.gameService.openRound(symbol, { tier });
+          created = true;
+        } catch (error) {
+          res.status(400).json({
+            success: false,
+            message: '지원하지 않는 토큰이거나 가격 정보를 가져올 수 없습니다.'
+          });
+          return;
+        }
+      }
 
-      res.status(201).json({
+      res.status(created ? 201 : 200).json({
         success: true,
-        message: '게임이 시작되었습니다.',
+        message: created ? '새 라운드가 생성되었습니다.' : '진행 중인 라운드에 참여할 수 있습니다.',
         data: {
-          gameId: savedGame.id,
-          symbol: savedGame.symbol,
-          startPrice: savedGame.startPrice,
-          startTime: savedGame.startTime,
-          endTime: savedGame.endTime,
-          duration: savedGame.duration,
-          status: savedGame.status
+          gameId: game.id,
+          symbol: game.symbol,
+          tier: game.tier,
+          pointMultiplier: Number(game.pointMultiplier),
+          stakeMode: game.stakeMode,
+          stakeOdds: Number(game.stakeOdds),
+          startPrice: game.startPrice,
+          predictionDeadline: game.predictionDeadline,
+          predictionWindow: game.predictionWindow,
+          duration: game.duration,
+          status: game.status
         }
       });
     } catch (error) {
@@ -154,33 +181,50 @@ export class GameController {
   }
 
   /**
-   * 활성 게임 목록 조회
+   * 라운드 로비 조회
    * GET /api/game/active
+   * 예측 접수 중인 라운드를 심볼/등급별로 반환 (예측 마감 시각, 참가자 수, 랭킹 가중치, 스테이크 합계 포함)
    */
-  async getActiveGames(_req: Request, res: Response): Promise<void> {
+  async getActiveGames(req: Request, res: Response): Promise<void> {
     try {
-      const activeGames = await this.gameRepository.find({
-        where: { status: GameStatus.ACTIVE },
-        order: { startTime: 'DESC' },
-        take: 10
-      });
+      const symbol = typeof req.query.symbol === 'string' ? req.query.symbol : undefined;
+      const tier = typeof req.query.tier === 'string' ? req.query.tier : undefined;
 
-      // 각 게임의 현재 가격 정보 추가
-      const gamesWithCurrentPrice = await Promise.all(
-        activeGames.map(async (game) => {
-          const currentPrice = await this.priceService.getCurrentPriceBySymbol(game.symbol);
-          return {
-            ...game,
-            currentPrice: currentPrice?.price || game.startPrice,
-            priceChange: currentPrice?.priceChange24h || 0,
-            remainingTime: Math.max(0, game.endTime.getTime() - Date.now())
-          };
-        })
-      );
+      if (tier && !GAME_ROUND_TIERS[tier]) {
+        res.status(400).json({
+          success: false,
+          message: `지원하지 않는 라운드 등급입니다. (지원: ${Object.keys(GAME_ROUND_TIERS).join(', ')})`
+        });
+        return;
+      }
+
+      const lobby = await this.gameService.getLobby({ symbol, tier });
+
+      // 심볼별 현재 가격은 한 번만 조회
+      const symbols = [...new Set(lobby.map(({ game }) => game.symbol))];
+      const prices = new Map(await Promise.all(symbols.map(async item =>
+        [item, await this.priceService.getCurrentPriceBySymbol(item)] as const
+      )));
 
       res.json({
         success: true,
-        data: gamesWithCurrentPrice
+        data: lobby.map(({ game, participants, stakePool }) => ({
+          gameId: game.id,
+          symbol: game.symbol,
+          tier: game.tier,
+          pointMultiplier: Number(game.pointMultiplier),
+          stakeMode: game.stakeMode,
+          stakeOdds: Number(game.stakeOdds),
+          stakePool,
+          status: game.status,
+          startPrice: Number(game.startPrice),
+          currentPrice: prices.get(game.symbol)?.price || Number(game.startPrice),
+          predictionDeadline: game.predictionDeadline,
+          timeUntilPredictionDeadline: game.timeUntilPredictionDeadline,
+          predictionWindow: game.predictionWindow,
+          duration: game.duration,
+          participantCount: participants
+        }))
       });
     } catch (error) {
       console.error('활성 게임 조회 오류:', error);
@@ -192,18 +236,20 @@ export class GameController {
   }
 
   /**
-   * 현재 진행 중인 게임 조회
+   * 현재 예측 접수 중인 라운드 조회 (가장 먼저 마감되는 라운드)
    * GET /api/game/current
    */
-  async getCurrentGame(_req: Request, res: Response): Promise<void> {
+  async getCurrentGame(req: Request, res: Response): Promise<void> {
     try {
-      const currentGame = await this.gameRepository.findOne({
-        where: { status: GameStatus.ACTIVE },
-        order: { startTime: 'DESC' },
-        relations: ['predictions']
-      });
+      const symbol = typeof req.query.symbol === 'string' ? req.query.symbol : undefined;
+      const tier = typeof req.query.tier === 'string' ? req.query.tier : undefined;
 
-      if (!currentGame) {
+      const lobby = await this.gameService.getLobby({ symbol, tier });
+      const current = lobby.sort((a, b) =>
+        (a.game.predictionDeadline?.getTime() || 0) - (b.game.predictionDeadline?.getTime() || 0)
+      )[0];
+
+      if (!current) {
         res.json({
           success: true,
           data: null,
@@ -212,6 +258,8 @@ export class GameController {
         return;
       }
 
+      const { game: currentGame, participants } = current;
+
       // 현재 가격 정보 추가
       const currentPrice = await this.priceService.getCurrentPriceBySymbol(currentGame.symbol);
       
@@ -220,9 +268,10 @@ export class GameController {
         data: {
           ...currentGame,
           currentPrice: currentPrice?.price || currentGame.startPrice,
-          priceChange: currentPrice?.priceChange24h || 0,
-          remainingTime: Math.max(0, currentGame.endTime.getTime() - Date.now()),
-          participantCount: currentGame.predictions?.length || 0
+          priceChange: currentPrice?.change24h || 0,
+          timeUntilPredictionDeadline: currentGame.timeUntilPredictionDeadline,
+          remainingTime: currentGame.timeUntilEnd,
+          participantCount: participants
         }
       });
     } catch (error) {
@@ -239,8 +288,11 @@ export class GameController {
    * POST /api/game/predict
    */
   async submitPrediction(req: PredictRequest, res: Response): Promise<void> {
+    // 마감/지연 판정은 클라이언트 시각이 아닌 서버 접수 시각 기준
+    const receivedAt = Date.now();
+
     try {
-      const { gameId, prediction, confidence = 5 } = req.body;
+      const { gameId, prediction, confidence = 5, stake = 0, clientTimestamp } = req.body;
       const userId = req.user?.id;
 
       if (!userId) {
@@ -259,6 +311,24 @@ export class GameController {
         return;
       }
 
+      // 신뢰도는 점수 계산(utils/scoring)에 반영되므로 범위 검증
+      if (!Number.isInteger(confidence) || confidence < 1 || confidence > 10) {
+        res.status(400).json({
+          success: false,
+          message: '신뢰도는 1에서 10 사이의 정수여야 합니다.'
+        });
+        return;
+      }
+
+      // 스테이크는 선택 사항이며, 걸 경우 허용 범위 안의 정수
+      if (!Number.isInteger(stake) || (stake !== 0 && (stake < gameStakeConfig.minStake || stake > gameStakeConfig.maxStake))) {
+        res.status(400).json({
+          success: false,
+          message: `스테이크는 0 또는 ${gameStakeConfig.minStake}에서 ${gameStakeConfig.maxStake} 사이의 정수여야 합니다.`
+        });
+        return;
+      }
+
       // 게임 존재 및 상태 확인
       const game = await this.gameRepository.findOne({
         where: { id: gameId }
@@ -272,13 +342,8 @@ export class GameController {
         return;
       }
 
-      if (game.status !== GameStatus.ACTIVE) {
-        res.status(400).json({
-          success: false,
-          message: '현재 예측할 수 없는 게임입니다.'
-        });
-        return;
-      }
+      // 예측은 라운드가 WAITING 상태이고 예측 마감(직전 거절 구간 포함) 전일 때만 가능
+      this.gameService.assertPredictionOpen(game, receivedAt);
 
       // 이미 예측했는지 확인
       const existingPrediction = await this.predictionRepository.findOne({
@@ -288,13 +353,15 @@ export class GameController {
       if (existingPrediction) {
         res.status(400).json({
           success: false,
-          message: '이미 이 게임에 예측을 제출했습니다.'
+          message: existingPrediction.status === GamePredictionStatus.WITHDRAWN
+            ? '예측을 철회한 게임에는 다시 참여할 수 없습니다.'
+            : '이미 이 게임에 예측을 제출했습니다. 마감 전에는 예측을 변경하거나 철회할 수 있습니다.'
         });
         return;
       }
 
-      // 현재 가격 조회
-      const currentPrice = await this.priceService.getCurrentPriceBySymbol(game.symbol);
+      // 접수 시각 기준 현재 가격 조회 (오래된 캐시 가격이면 다시 조회, 연습 게임은 재생 중인 가격)
+      const currentPrice = await this.gameService.getReceiptPrice(game, receivedAt);
 
       // 예측 생성
       const gamePrediction = new GamePrediction();
@@ -302,14 +369,37 @@ export class GameController {
       gamePrediction.userId = userId;
       gamePrediction.predictionType = prediction;
       gamePrediction.predictionPrice = currentPrice?.price || game.startPrice;
+      // 신뢰도가 스테이크 배수로 적용된 금액을 점수 원장에 예치
+      gamePrediction.stake = calculateWager(stake, confidence);
+      gamePrediction.applyTiming(evaluatePredictionTiming({
+        receivedAt,
+        priceTimestamp: currentPrice?.timestamp,
+        clientTimestamp: typeof clientTimestamp === 'number' ? clientTimestamp : undefined,
+        predictionDeadline: game.predictionDeadline
+      }));
       gamePrediction.updateMetadata({
-        predictionTimestamp: Date.now(),
+        predictionTimestamp: receivedAt,
         predictionPrice: currentPrice?.price || game.startPrice,
         gameDuration: game.duration,
-        confidence
+        confidence,
+        ...(stake > 0 ? { stakeRequested: stake } : {})
       });
-
-      const savedPrediction = await this.predictionRepository.save(gamePrediction);
+      gamePrediction.recordRevision('submit', receivedAt);
+
+      // 마감 여부는 저장 트랜잭션 안에서 라운드를 잠근 뒤 다시 확인
+      let savedPrediction: GamePrediction;
+      try {
+        savedPrediction = await this.gameService.placePrediction(gamePrediction);
+      } catch (error) {
+        if (error instanceof Error && error.message === INSUFFICIENT_BALANCE_MESSAGE) {
+          res.status(400).json({
+            success: false,
+            message: error.message
+          });
+          return;
+        }
+        throw error;
+      }
 
       res.status(201).json({
         success: true,
@@ -319,10 +409,21 @@ export class GameController {
           gameId: gameId,
           prediction: prediction,
           predictionPrice: savedPrediction.predictionPrice,
-          confidence
+          confidence,
+          stake: savedPrediction.stake,
+          stakeMode: game.stakeMode,
+          stakeOdds: Number(game.stakeOdds),
+          receivedAt: new Date(receivedAt).toISOString()
         }
       });
     } catch (error) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          message: error.message
+        });
+        return;
+      }
       console.error('예측 제출 오류:', error);
       res.status(500).json({
         success: false,
@@ -331,6 +432,130 @@ export class GameController {
     }
   }
 
+  /**
+   * 서버 시각 조회 (클라이언트 타이머 보정용, 정산 기록 검증용 서명 주소 포함)
+   * GET /api/game/time
+   */
+  async getServerTime(_req: Request, res: Response): Promise<void> {
+    const now = Date.now();
+
+    res.json({
+      success: true,
+      data: {
+        serverTime: now,
+        iso: new Date(now).toISOString(),
+        antiSnipeWindow: gamePredictionGuardConfig.antiSnipeWindow,
+        settlementSigner: this.settlementService.getSignerAddress()
+      }
+    });
+  }
+
+  /**
+   * 예측 방향 변경 (예측 마감 전)
+   * PUT /api/game/:gameId/prediction
+   */
+  async changePrediction(req: ChangePredictionRequest, res: Response): Promise<void> {
+    const receivedAt = Date.now();
+
+    try {
+      const { gameId } = req.params;
+      const { prediction, clientTimestamp } = req.body;
+      const userId = req.user?.id;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: '인증이 필요합니다.'
+        });
+        return;
+      }
+
+      if (!prediction || !Object.values(GamePredictionType).includes(prediction)) {
+        res.status(400).json({
+          success: false,
+          message: '올바른 예측 값을 입력해주세요. (UP 또는 DOWN)'
+        });
+        return;
+      }
+
+      const updated = await this.gameService.changePrediction(gameId, userId, prediction, {
+        receivedAt,
+        clientTimestamp: typeof clientTimestamp === 'number' ? clientTimestamp : undefined
+      });
+
+      res.json({
+        success: true,
+        message: '예측이 변경되었습니다.',
+        data: {
+          predictionId: updated.id,
+          gameId,
+          prediction: updated.predictionType,
+          predictionPrice: Number(updated.predictionPrice),
+          revisions: updated.metadata?.revisions || []
+        }
+      });
+    } catch (error) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          message: error.message
+        });
+        return;
+      }
+      console.error('예측 변경 오류:', error);
+      res.status(500).json({
+        success: false,
+        message: '예측 변경 중 오류가 발생했습니다.'
+      });
+    }
+  }
+
+  /**
+   * 예측 철회 (예측 마감 전, 스테이크 반환)
+   * DELETE /api/game/:gameId/prediction
+   */
+  async withdrawPrediction(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { gameId } = req.params;
+      const userId = req.user?.id;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: '인증이 필요합니다.'
+        });
+        return;
+      }
+
+      const withdrawn = await this.gameService.withdrawPrediction(gameId, userId);
+
+      res.json({
+        success: true,
+        message: '예측이 철회되었습니다.',
+        data: {
+          predictionId: withdrawn.id,
+          gameId,
+          status: withdrawn.status,
+          stakeRefunded: withdrawn.stakePayout ?? 0,
+          revisions: withdrawn.metadata?.revisions || []
+        }
+      });
+    } catch (error) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          message: error.message
+        });
+        return;
+      }
+      console.error('예측 철회 오류:', error);
+      res.status(500).json({
+        success: false,
+        message: '예측 철회 중 오류가 발생했습니다.'
+      });
+    }
+  }
+
   /**
    * 사용자 게임 히스토리 조회
    * GET /api/game/history
@@ -357,9 +582,10 @@ export class GameController {
       const limitNum = parseInt(limit);
       const offset = (pageNum - 1) * limitNum;
 
-      const whereConditions: any = {};
-      if (status) whereConditions.status = status;
-      if (symbol) whereConditions.symbol = symbol;
+      // 연습 게임은 연습 모드 기록(GET /api/practice/history)에서 조회
+      const whereConditions: FindOptionsWhere<Game> = { gameType: Not(PRACTICE_GAME_TYPE) };
+      if (status) whereConditions.status = status as GameStatus;
+      if (symbol) whereConditions.tokenSymbol = symbol.toUpperCase();
 
       const [games, total] = await this.gameRepository.findAndCount({
         where: whereConditions,
@@ -408,9 +634,10 @@ export class GameController {
    * 게임 상세 정보 조회
    * GET /api/game/:gameId
    */
-  async getGameDetail(req: Request, res: Response): Promise<void> {
+  async getGameDetail(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
       const { gameId } = req.params;
+      const userId = req.user?.id;
 
       const game = await this.gameRepository.findOne({
         where: { id: gameId },
@@ -427,18 +654,37 @@ export class GameController {
 
       let currentPrice = null;
       if (game.status === GameStatus.ACTIVE) {
-        currentPrice = await this.priceService.getCurrentPriceBySymbol(game.symbol);
+        currentPrice = game.isPractice
+          ? await this.gameService.getReceiptPrice(game, Date.now())
+          : await this.priceService.getCurrentPriceBySymbol(game.symbol);
       }
 
+      // 요청 사용자의 정산 결과 (점수 구성은 정산 시 서버가 계산한 값)
+      const myPrediction = userId
+        ? await this.predictionRepository.findOne({ where: { gameId, userId } })
+        : null;
+
       res.json({
         success: true,
         data: {
           ...game,
+          // 연습 게임의 재생 가격(이후 가격 포함)은 GET /api/practice/:gameId 에서 공개된 구간만 조회
+          ...(game.isPractice ? { metadata: { ...game.metadata, replay: undefined } } : {}),
           currentPrice: currentPrice?.price || game.endPrice || 0,
-          priceChange: currentPrice?.priceChange24h || 0,
-          remainingTime: game.status === GameStatus.ACTIVE ? 
-            Math.max(0, game.endTime.getTime() - Date.now()) : 0,
-          participantCount: game.predictions?.length || 0
+          priceChange: currentPrice?.change24h || 0,
+          remainingTime: game.isActive ? game.timeUntilEnd : 0,
+          participantCount: game.predictions?.length || 0,
+          myResult: myPrediction ? {
+            predictionId: myPrediction.id,
+            predictionType: myPrediction.predictionType,
+            status: myPrediction.status,
+            scoreEarned: myPrediction.scoreEarned,
+            rankingPoints: myPrediction.isResolved ? myPrediction.rankingPoints : null,
+            scoreBreakdown: myPrediction.isResolved ? myPrediction.getScoreBreakdown() : null,
+            voidReason: myPrediction.metadata?.voidReason ?? null,
+            stake: myPrediction.stake,
+            stakePayout: myPrediction.stakePayout ?? null
+          } : null
         }
       });
     } catch (error) {
@@ -451,22 +697,81 @@ export class GameController {
   }
 
   /**
-   * 게임 취소
-   * DELETE /api/game/:gameId/cancel
+   * 게임 정산 기록 조회 (공개)
+   * GET /api/game/:gameId/settlement
+   * 시작/종료 가격의 서명된 기록과 검증 결과, 종료 기록에 서명된 예측별 판정 근거(기준 가격, 접수 시각),
+   * 로그인 시 내 예측의 판정 결과 포함
    */
-  async cancelGame(req: AuthenticatedRequest, res: Response): Promise<void> {
+  async getGameSettlement(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
       const { gameId } = req.params;
       const userId = req.user?.id;
 
-      if (!userId) {
-        res.status(401).json({
+      const game = await this.gameRepository.findOne({ where: { id: gameId } });
+      if (!game) {
+        res.status(404).json({
           success: false,
-          message: '인증이 필요합니다.'
+          message: '게임을 찾을 수 없습니다.'
         });
         return;
       }
 
+      const { records, predictions } = await this.settlementService.getGameRecords(gameId);
+      const myPrediction = userId
+        ? await this.predictionRepository.findOne({ where: { gameId, userId } })
+        : null;
+
+      res.json({
+        success: true,
+        data: {
+          gameId: game.id,
+          symbol: game.symbol,
+          status: game.status,
+          startPrice: game.startPrice ? Number(game.startPrice) : null,
+          endPrice: game.endPrice ? Number(game.endPrice) : null,
+          startedAt: game.startedAt,
+          endedAt: game.endedAt,
+          flatTolerancePercent: Number(game.flatTolerancePercent),
+          voidReason: game.metadata?.voidReason ?? null,
+          signer: this.settlementService.getSignerAddress(),
+          records: records.map(({ record, verification }) => ({ ...record.toJSON(), verification })),
+          verified: records.length > 0 && records.every(({ verification }) =>
+            verification.hashValid && verification.signatureValid && verification.chainValid && verification.predictionsValid !== false
+          ),
+          predictions,
+          // 예측은 접수 시점 가격(predictionPrice)과 종료 정산 가격을 비교해 판정 (변화율이 허용 범위 이내면 보합)
+          // 모든 예측의 기준 가격과 접수 시각은 predictions 로 공개되고 그 해시가 종료 기록에 서명됨
+          myPrediction: myPrediction ? {
+            predictionId: myPrediction.id,
+            predictionType: myPrediction.predictionType,
+            predictionPrice: Number(myPrediction.predictionPrice),
+            resultPrice: myPrediction.resultPrice ? Number(myPrediction.resultPrice) : null,
+            priceChangePercent: myPrediction.priceChangePercent,
+            status: myPrediction.status,
+            scoreEarned: myPrediction.scoreEarned,
+            scoreBreakdown: myPrediction.isResolved ? myPrediction.getScoreBreakdown() : null,
+            stake: myPrediction.stake,
+            stakePayout: myPrediction.stakePayout ?? null
+          } : null
+        }
+      });
+    } catch (error) {
+      console.error('게임 정산 기록 조회 오류:', error);
+      res.status(500).json({
+        success: false,
+        message: '게임 정산 기록 조회 중 오류가 발생했습니다.'
+      });
+    }
+  }
+
+  /**
+   * 라운드 취소 (관리자 전용)
+   * POST /api/game/:gameId/cancel
+   */
+  async cancelGame(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { gameId } = req.params;
+
       const game = await this.gameRepository.findOne({
         where: { id: gameId }
       });
@@ -479,15 +784,17 @@ export class GameController {
         return;
       }
 
-      if (game.createdBy !== userId && req.user?.role !== 'ADMIN') {
-        res.status(403).json({
+      if ([GameStatus.COMPLETED, GameStatus.CANCELLED, GameStatus.VOID].includes(game.status)) {
+        res.status(400).json({
           success: false,
-          message: '게임을 취소할 권한이 없습니다.'
+          message: '이미 종료된 게임은 취소할 수 없습니다.'
         });
         return;
       }
 
-      if (game.status === GameStatus.COMPLETED || game.status === GameStatus.CANCELLED) {
+      // 대기 중인 예측은 취소되고 스테이크는 반환됨
+      const cancelled = await this.gameService.cancelRound(game);
+      if (!cancelled) {
         res.status(400).json({
           success: false,
           message: '이미 종료된 게임은 취소할 수 없습니다.'
@@ -495,14 +802,10 @@ export class GameController {
         return;
       }
 
-      game.status = GameStatus.CANCELLED;
-      game.endTime = new Date();
-      await this.gameRepository.save(game);
-
       res.json({
         success: true,
         message: '게임이 취소되었습니다.',
-        data: game
+        data: cancelled
       });
     } catch (error) {
       console.error('게임 취소 오류:', error);
@@ -525,21 +828,35 @@ export class GameController {
         return;
       }
 
-      const totalGames = await this.predictionRepository.count({ where: { userId } });
+      // 정산된 예측(승/패/보합)만 집계하고 연습 게임, 대기/취소/철회 예측은 제외
+      const statusCounts = await this.predictionRepository
+        .createQueryBuilder('prediction')
+        .innerJoin('prediction.game', 'game')
+        .select('prediction.status', 'status')
+        .addSelect('COUNT(*)', 'count')
+        .where('prediction.userId = :userId', { userId })
+        .andWhere('game.gameType != :practice', { practice: PRACTICE_GAME_TYPE })
+        .groupBy('prediction.status')
+        .getRawMany();
+      const countOf = (status: GamePredictionStatus): number =>
+        parseInt(statusCounts.find(row => row.status === status)?.count || '0');
+
+      const winCount = countOf(GamePredictionStatus.WIN);
+      const lossCount = countOf(GamePredictionStatus.LOSE);
+      const drawCount = countOf(GamePredictionStatus.DRAW);
+      const totalGames = winCount + lossCount + drawCount;
       const totalScore = await this.scoreRepository
         .createQueryBuilder('score')
         .select('SUM(score.points)', 'total')
         .where('score.userId = :userId', { userId })
+        .andWhere('score.status = :status', { status: GameScoreStatus.CONFIRMED })
         .getRawOne();
 
-      const winCount = await this.predictionRepository.count({
-        where: { userId, status: GamePredictionStatus.WIN }
-      });
-
       const stats = {
         totalGames,
         winCount,
-        lossCount: totalGames - winCount,
+        lossCount,
+        drawCount,
         winRate: totalGames > 0 ? (winCount / totalGames * 100).toFixed(2) : '0.00',
         totalScore: totalScore?.total || 0,
         averageScore: totalGames > 0 ? ((totalScore?.total || 0) / totalGames).toFixed(2) : '0.00'
@@ -596,6 +913,7 @@ export class GameController {
         .createQueryBuilder('score')
         .select('score.userId', 'userId')
         .addSelect('SUM(score.points)', 'totalScore')
+        .where('score.status = :status', { status: GameScoreStatus.CONFIRMED })
         .groupBy('score.userId')
         .orderBy('totalScore', 'DESC')
         .limit(limitNum)
@@ -616,8 +934,8 @@ export class GameController {
   }
 
   /**
-   * 게임 결과 처리
-   * POST /api/game/:gameId/process
+   * 라운드 정산 (관리자 전용, 종료 시각이 지난 라운드만)
+   * POST /api/game/result/:gameId
    */
   async processGameResult(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
@@ -625,6 +943,10 @@ export class GameController {
       const result = await this.gameService.processGameResult(gameId);
       res.json({ success: true, data: result });
     } catch (error) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({ success: false, message: error.message });
+        return;
+      }
       console.error('게임 결과 처리 오류:', error);
       res.status(500).json({ success: false, message: '게임 결과 처리 중 오류가 발생했습니다.' });
     }
@@ -0,0 +1,205 @@
+// src/controllers/PracticeController.ts
+
+import { Request, Response } from 'express';
+import { Game, GameStatus } from '../models/Game';
+import { GamePrediction, GamePredictionStatus } from '../models/GamePrediction';
+import { AppError } from '../middlewares/errorHandler';
+import { PracticeService, PracticeState } from '../services/PracticeService';
+
+// 인터페이스 정의
+interface AuthenticatedRequest extends Request {
+  user?: {
+    id: string;
+    role?: string;
+  };
+}
+
+interface StartPracticeRequest extends AuthenticatedRequest {
+  body: {
+    symbol: string;
+    tier?: string;
+  };
+}
+
+interface PracticeHistoryQuery extends AuthenticatedRequest {
+  query: {
+    limit?: string;
+    offset?: string;
+  };
+}
+
+/**
+ * 연습 모드 컨트롤러
+ * 과거 가격 재생 연습 게임 시작, 진행 상태 조회, 연습 기록 조회를 담당
+ * 예측 제출/변경/철회는 정규 라운드와 같은 /api/game/predict 엔드포인트를 사용
+ */
+export class PracticeController {
+  private practiceService: PracticeService;
+
+  constructor() {
+    this.practiceService = new PracticeService();
+  }
+
+  /**
+   * 연습 게임 시작
+   * POST /api/practice
+   */
+  async startPractice(req: StartPracticeRequest, res: Response): Promise<void> {
+    await this.handle(res, '연습 게임 시작', async userId => {
+      const { symbol, tier } = req.body;
+      if (!symbol) {
+        throw new AppError('심볼은 필수 입력 사항입니다.', 400);
+      }
+
+      const game = await this.practiceService.startPractice(userId, symbol, tier);
+      const state = await this.practiceService.getPractice(game.id, userId);
+
+      res.status(201).json({
+        success: true,
+        message: '연습 게임이 시작되었습니다. 예측 마감 전에 /api/game/predict 로 예측을 제출하세요.',
+        data: this.toStateView(state)
+      });
+    }, req);
+  }
+
+  /**
+   * 연습 게임 진행 상태 (공개된 재생 가격, 내 예측과 정산 후 점수 구성)
+   * GET /api/practice/:gameId
+   */
+  async getPractice(req: AuthenticatedRequest, res: Response): Promise<void> {
+    await this.handle(res, '연습 게임 조회', async userId => {
+      const state = await this.practiceService.getPractice(req.params.gameId, userId);
+      res.json({ success: true, data: this.toStateView(state) });
+    }, req);
+  }
+
+  /**
+   * 내 연습 기록
+   * GET /api/practice/history
+   */
+  async getHistory(req: PracticeHistoryQuery, res: Response): Promise<void> {
+    await this.handle(res, '연습 기록 조회', async userId => {
+      const limit = Math.min(Math.max(parseInt(req.query.limit || '20') || 20, 1), 100);
+      const offset = Math.max(parseInt(req.query.offset || '0') || 0, 0);
+      const { predictions, total, summary } = await this.practiceService.getHistory(userId, limit, offset);
+
+      res.json({
+        success: true,
+        data: {
+          summary,
+          games: predictions.map(prediction => ({
+            ...this.toGameView(prediction.game),
+            prediction: this.toPredictionView(prediction)
+          })),
+          pagination: { total, limit, offset }
+        }
+      });
+    }, req);
+  }
+
+  /**
+   * 진행 상태 응답 (종료 전에는 공개된 재생 구간까지만 포함)
+   */
+  private toStateView(state: PracticeState): Record<string, unknown> {
+    const { game, prediction } = state;
+    const replay = game.metadata?.replay;
+
+    return {
+      ...this.toGameView(game),
+      replay: {
+        speed: replay?.speed ?? null,
+        from: replay ? new Date(replay.openAt) : null,
+        to: replay ? new Date(replay.endAt) : null,
+        replayTime: new Date(state.replayTime),
+        currentPrice: state.currentPrice,
+        series: state.series
+      },
+      prediction: prediction ? this.toPredictionView(prediction) : null
+    };
+  }
+
+  /**
+   * 연습 게임 정보 (시작/종료 가격은 확정된 뒤에만 포함)
+   */
+  private toGameView(game: Game): Record<string, unknown> {
+    const started = game.status === GameStatus.ACTIVE || game.status === GameStatus.COMPLETED;
+
+    return {
+      gameId: game.id,
+      symbol: game.symbol,
+      tier: game.tier,
+      status: game.status,
+      ranked: false,
+      predictionDeadline: game.predictionDeadline,
+      predictionWindow: game.predictionWindow,
+      duration: game.duration,
+      startedAt: game.startedAt ?? null,
+      endsAt: game.startedAt ? new Date(game.startedAt.getTime() + game.duration) : null,
+      startPrice: started ? Number(game.startPrice) : null,
+      endPrice: game.status === GameStatus.COMPLETED ? Number(game.endPrice) : null,
+      flatTolerancePercent: Number(game.flatTolerancePercent),
+      voidReason: game.metadata?.voidReason ?? null,
+      createdAt: game.createdAt
+    };
+  }
+
+  /**
+   * 내 예측 (정산된 예측은 점수 구성 포함)
+   */
+  private toPredictionView(prediction: GamePrediction): Record<string, unknown> {
+    const resolved = prediction.isResolved;
+
+    return {
+      predictionId: prediction.id,
+      prediction: prediction.predictionType,
+      predictionPrice: Number(prediction.predictionPrice),
+      confidence: prediction.metadata?.confidence ?? null,
+      status: prediction.status,
+      resultPrice: prediction.resultPrice !== null && prediction.resultPrice !== undefined ? Number(prediction.resultPrice) : null,
+      priceChangePercent: resolved ? prediction.metadata?.priceChangePercent ?? null : null,
+      scoreEarned: prediction.scoreEarned,
+      scoreBreakdown: resolved ? prediction.getScoreBreakdown() : null,
+      revisions: prediction.metadata?.revisions || [],
+      withdrawn: prediction.status === GamePredictionStatus.WITHDRAWN,
+      resolvedAt: prediction.resolvedAt ?? null
+    };
+  }
+
+  /**
+   * 공통 처리: 인증 확인, AppError 는 해당 상태 코드로, 그 외 오류는 500 으로 응답
+   */
+  private async handle(
+    res: Response,
+    action: string,
+    run: (userId: string) => Promise<void>,
+    req: AuthenticatedRequest
+  ): Promise<void> {
+    const userId = req.user?.id;
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: '인증이 필요합니다.'
+      });
+      return;
+    }
+
+    try {
+      await run(userId);
+    } catch (error) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          message: error.message
+        });
+        return;
+      }
+      console.error(`${action} 오류:`, error);
+      res.status(500).json({
+        success: false,
+        message: `${action} 중 오류가 발생했습니다.`
+      });
+    }
+  }
+}
+
+export default PracticeController;
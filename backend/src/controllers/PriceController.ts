@@ -1,7 +1,10 @@
 // src/controllers/PriceController.ts
 
 import { Request, Response } from 'express';
-import { PriceService } from '../services/PriceService';
+import { PriceService, priceService } from '../services/PriceService';
+import { PriceHistoryService, PriceHistoryResult } from '../services/PriceHistoryService';
+import { PriceAlertService, PriceAlertInput, CurrentPriceLookup } from '../services/PriceAlertService';
+import { AppError } from '../middlewares/errorHandler';
 
 // 요청 타입 정의
 interface AuthenticatedRequest extends Request {
@@ -38,17 +41,25 @@ interface HistoryQuery extends Request {
   };
   query: {
     days?: string;
+    from?: string;
+    to?: string;
     interval?: string;
+    ticks?: string;
     vs_currency?: string;
   };
 }
 
 interface AlertRequest extends AuthenticatedRequest {
+  body: PriceAlertInput;
+}
+
+interface AlertNotificationRequest extends AuthenticatedRequest {
+  query: {
+    pending?: string;
+    limit?: string;
+  };
   body: {
-    tokenSymbol: string;
-    targetPrice: number;
-    condition: 'above' | 'below';
-    isActive?: boolean;
+    notificationIds?: string[];
   };
 }
 
@@ -58,9 +69,14 @@ interface AlertRequest extends AuthenticatedRequest {
  */
 export class PriceController {
   private priceService: PriceService;
+  private priceHistoryService: PriceHistoryService;
+  private priceAlertService: PriceAlertService;
 
   constructor() {
-    this.priceService = new PriceService();
+    // 관리자 통계/캐시/제공자 변경이 가격 수집기와 같은 인스턴스를 보도록 싱글톤 사용
+    this.priceService = priceService;
+    this.priceHistoryService = PriceHistoryService.getInstance();
+    this.priceAlertService = PriceAlertService.getInstance();
   }
 
   /**
@@ -127,6 +143,13 @@ export class PriceController {
         message: '현재 가격 조회 성공'
       });
     } catch (error) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          message: error.message
+        });
+        return;
+      }
       console.error('현재 가격 조회 오류:', error);
       res.status(500).json({
         success: false,
@@ -207,7 +230,7 @@ export class PriceController {
   }
 
   /**
-   * 토큰 차트 데이터 조회
+   * 토큰 차트 데이터 조회 (저장된 캔들)
    * GET /api/price/:tokenSymbol/chart
    */
   async getChartData(req: ChartQuery, res: Response): Promise<void> {
@@ -216,7 +239,7 @@ export class PriceController {
       const {
         vs_currency: _vs_currency = 'usd',
         days = '7',
-        interval = 'daily'
+        interval
       } = req.query;
 
       if (!tokenSymbol) {
@@ -227,18 +250,26 @@ export class PriceController {
         return;
       }
 
-      const chartData = await this.priceService.getChartData(
-        tokenSymbol.toLowerCase(),
-        'usd', // vsCurrency
-        parseInt(days as string), // days (number)
-        interval as string // interval
-      );
+      const chart = await this.priceHistoryService.getChart(tokenSymbol, parseFloat(days) || 7, interval);
 
       res.json({
         success: true,
-        data: chartData
+        data: chart.candles.map(candle => ({
+          timestamp: candle.openTime.getTime(),
+          date: candle.openTime.toISOString(),
+          price: Number(candle.close),
+          ...candle.toJSON()
+        })),
+        meta: this.toHistoryMeta(chart)
       });
     } catch (error) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          message: error.message
+        });
+        return;
+      }
       console.error('차트 데이터 조회 오류:', error);
       res.status(500).json({
         success: false,
@@ -248,7 +279,7 @@ export class PriceController {
   }
 
   /**
-   * 가격 히스토리 조회
+   * 가격 히스토리 조회 (저장된 캔들, ticks=true 면 원본 틱 포함)
    * GET /api/price/:tokenSymbol/history
    */
   async getPriceHistory(req: HistoryQuery, res: Response): Promise<void> {
@@ -256,7 +287,10 @@ export class PriceController {
       const { tokenSymbol } = req.params;
       const {
         days = '1',
-        interval: _interval = '1h',
+        from,
+        to,
+        interval,
+        ticks,
         vs_currency: _vs_currency = 'usd'
       } = req.query;
 
@@ -268,17 +302,36 @@ export class PriceController {
         return;
       }
 
-      const historyData = await this.priceService.getPriceHistory(
-        tokenSymbol.toLowerCase(),
-        days as string, // date string
-        'usd' // vsCurrency
-      );
-      
+      const end = to ? new Date(to) : new Date();
+      const start = from ? new Date(from) : new Date(end.getTime() - (parseFloat(days) || 1) * 24 * 60 * 60 * 1000);
+      const history = await this.priceHistoryService.getHistory(tokenSymbol, {
+        from: start,
+        to: end,
+        interval,
+        includeTicks: ticks === 'true'
+      });
+
       res.json({
         success: true,
-        data: historyData
+        data: {
+          candles: history.candles,
+          ticks: history.ticks?.map(tick => ({
+            price: Number(tick.price),
+            provider: tick.provider,
+            degraded: tick.degraded,
+            observedAt: tick.observedAt
+          }))
+        },
+        meta: this.toHistoryMeta(history)
       });
     } catch (error) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          message: error.message
+        });
+        return;
+      }
       console.error('가격 히스토리 조회 오류:', error);
       res.status(500).json({
         success: false,
@@ -300,6 +353,13 @@ export class PriceController {
         data: marketData
       });
     } catch (error) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          message: error.message
+        });
+        return;
+      }
       console.error('시장 개요 조회 오류:', error);
       res.status(500).json({
         success: false,
@@ -344,6 +404,13 @@ export class PriceController {
         data
       });
     } catch (error) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          message: error.message
+        });
+        return;
+      }
       console.error('상승/하락 토큰 조회 오류:', error);
       res.status(500).json({
         success: false,
@@ -368,13 +435,20 @@ export class PriceController {
         return;
       }
 
-      const alerts = await this.priceService.getUserPriceAlerts(userId);
+      const alerts = await this.priceAlertService.getUserAlerts(userId);
 
       res.json({
         success: true,
         data: alerts
       });
     } catch (error) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          message: error.message
+        });
+        return;
+      }
       console.error('가격 알림 목록 조회 오류:', error);
       res.status(500).json({
         success: false,
@@ -390,7 +464,6 @@ export class PriceController {
   async createPriceAlert(req: AlertRequest, res: Response): Promise<void> {
     try {
       const userId = req.user?.id;
-      const { tokenSymbol, targetPrice, condition, isActive = true } = req.body;
 
       if (!userId) {
         res.status(401).json({
@@ -400,21 +473,15 @@ export class PriceController {
         return;
       }
 
-      if (!tokenSymbol || !targetPrice || !condition) {
+      if (!req.body.tokenSymbol || !req.body.condition) {
         res.status(400).json({
           success: false,
-          message: '토큰 심볼, 목표 가격, 조건이 필요합니다.'
+          message: '토큰 심볼과 조건이 필요합니다.'
         });
         return;
       }
 
-      const alert = await this.priceService.createPriceAlert(
-        userId,
-        tokenSymbol,
-        targetPrice,
-        condition,
-        isActive
-      );
+      const alert = await this.priceAlertService.createAlert(userId, req.body, this.lookupCurrentPrice);
 
       res.status(201).json({
         success: true,
@@ -422,6 +489,13 @@ export class PriceController {
         message: '가격 알림이 생성되었습니다.'
       });
     } catch (error) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          message: error.message
+        });
+        return;
+      }
       console.error('가격 알림 생성 오류:', error);
       res.status(500).json({
         success: false,
@@ -434,11 +508,10 @@ export class PriceController {
    * 가격 알림 수정
    * PUT /api/price/alerts/:alertId
    */
-  async updatePriceAlert(req: AuthenticatedRequest, res: Response): Promise<void> {
+  async updatePriceAlert(req: AlertRequest, res: Response): Promise<void> {
     try {
       const userId = req.user?.id;
       const { alertId } = req.params;
-      const updateData = req.body;
 
       if (!userId) {
         res.status(401).json({
@@ -448,11 +521,7 @@ export class PriceController {
         return;
       }
 
-      const updatedAlert = await this.priceService.updatePriceAlert(
-        alertId,
-        userId,
-        updateData
-      );
+      const updatedAlert = await this.priceAlertService.updateAlert(alertId, userId, req.body, this.lookupCurrentPrice);
 
       res.json({
         success: true,
@@ -460,6 +529,13 @@ export class PriceController {
         message: '가격 알림이 수정되었습니다.'
       });
     } catch (error) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          message: error.message
+        });
+        return;
+      }
       console.error('가격 알림 수정 오류:', error);
       res.status(500).json({
         success: false,
@@ -485,13 +561,20 @@ export class PriceController {
         return;
       }
 
-      await this.priceService.deletePriceAlert(alertId, userId);
+      await this.priceAlertService.deleteAlert(alertId, userId);
 
       res.json({
         success: true,
         message: '가격 알림이 삭제되었습니다.'
       });
     } catch (error) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          message: error.message
+        });
+        return;
+      }
       console.error('가격 알림 삭제 오류:', error);
       res.status(500).json({
         success: false,
@@ -500,6 +583,83 @@ export class PriceController {
     }
   }
 
+  /**
+   * 내 가격 알림 발동 기록 조회
+   * GET /api/price/alerts/notifications
+   */
+  async getPriceAlertNotifications(req: AlertNotificationRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: '인증이 필요합니다.'
+        });
+        return;
+      }
+
+      const limit = req.query.limit ? parseInt(req.query.limit) : undefined;
+      const notifications = await this.priceAlertService.getNotifications(
+        userId,
+        req.query.pending === 'true',
+        Number.isFinite(limit) ? limit : undefined
+      );
+
+      res.json({
+        success: true,
+        data: notifications
+      });
+    } catch (error) {
+      console.error('가격 알림 발동 기록 조회 오류:', error);
+      res.status(500).json({
+        success: false,
+        message: '가격 알림 발동 기록 조회 중 오류가 발생했습니다.'
+      });
+    }
+  }
+
+  /**
+   * 가격 알림 발동 기록 확인 처리
+   * POST /api/price/alerts/notifications/ack
+   */
+  async acknowledgePriceAlertNotifications(req: AlertNotificationRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: '인증이 필요합니다.'
+        });
+        return;
+      }
+
+      const { notificationIds } = req.body || {};
+      const isUuid = (id: unknown): boolean => typeof id === 'string' && /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(id);
+      if (notificationIds !== undefined && (!Array.isArray(notificationIds) || !notificationIds.every(isUuid))) {
+        res.status(400).json({
+          success: false,
+          message: 'notificationIds 는 발동 기록 ID 배열이어야 합니다.'
+        });
+        return;
+      }
+
+      const acknowledged = await this.priceAlertService.acknowledgeNotifications(userId, notificationIds);
+
+      res.json({
+        success: true,
+        data: { acknowledged }
+      });
+    } catch (error) {
+      console.error('가격 알림 발동 기록 확인 처리 오류:', error);
+      res.status(500).json({
+        success: false,
+        message: '가격 알림 발동 기록 확인 처리 중 오류가 발생했습니다.'
+      });
+    }
+  }
+
   /**
    * 가격 캐시 새로고침
    * POST /api/price/admin/refresh-cache
@@ -530,8 +690,8 @@ export class PriceController {
   }
 
   /**
-   * API 상태 조회
-   * GET /api/price/admin/status
+   * API 상태 조회 (제공자별 요청 한도 사용량, 회로 차단 상태)
+   * GET /api/price/admin/api-status
    */
   async getApiStatus(_req: Request, res: Response): Promise<void> {
     try {
@@ -574,6 +734,14 @@ export class PriceController {
         return;
       }
 
+      if (!this.priceService.getProviderNames().includes(provider)) {
+        res.status(400).json({
+          success: false,
+          message: `등록된 가격 제공자가 아닙니다. (${this.priceService.getProviderNames().join(', ')})`
+        });
+        return;
+      }
+
       await this.priceService.switchProvider(provider);
 
       res.json({
@@ -632,8 +800,8 @@ export class PriceController {
   }
 
   /**
-   * 테스트용 가격 설정
-   * POST /api/price/dev/mock
+   * 테스트용 가격 설정 (시뮬레이션 시장 전용)
+   * POST /api/price/dev/mock-price
    */
   async setMockPrice(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
@@ -655,13 +823,21 @@ export class PriceController {
         return;
       }
 
-      await this.priceService.setMockPrice(tokenSymbol, price);
+      const scenario = await this.priceService.setMockPrice(tokenSymbol, price);
 
       res.json({
         success: true,
+        data: scenario,
         message: `${tokenSymbol}의 테스트 가격이 ${price}로 설정되었습니다.`
       });
     } catch (error) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          message: error.message
+        });
+        return;
+      }
       console.error('테스트 가격 설정 오류:', error);
       res.status(500).json({
         success: false,
@@ -671,7 +847,7 @@ export class PriceController {
   }
 
   /**
-   * 변동성 시뮬레이션
+   * 변동성 시뮬레이션 (시뮬레이션 시장 전용)
    * POST /api/price/dev/simulate-volatility
    */
   async simulateVolatility(req: AuthenticatedRequest, res: Response): Promise<void> {
@@ -706,6 +882,13 @@ export class PriceController {
         message: '변동성 시뮬레이션이 시작되었습니다.'
       });
     } catch (error) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          message: error.message
+        });
+        return;
+      }
       console.error('변동성 시뮬레이션 오류:', error);
       res.status(500).json({
         success: false,
@@ -714,6 +897,81 @@ export class PriceController {
     }
   }
 
+  /**
+   * 시뮬레이션 시장 시나리오 시작
+   * POST /api/price/dev/scenario
+   */
+  async startSimScenario(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (req.user?.role !== 'ADMIN') {
+        res.status(403).json({
+          success: false,
+          message: '관리자 권한이 필요합니다.'
+        });
+        return;
+      }
+
+      const { tokenSymbol, type, magnitude, duration, startIn } = req.body;
+
+      if (!tokenSymbol || !type || !duration) {
+        res.status(400).json({
+          success: false,
+          message: '토큰 심볼, 시나리오 종류, 지속 시간이 필요합니다.'
+        });
+        return;
+      }
+
+      const result = await this.priceService.startSimScenario(tokenSymbol, type, magnitude, duration, startIn);
+
+      res.json({
+        success: true,
+        data: result,
+        message: '시뮬레이션 시나리오가 예약되었습니다.'
+      });
+    } catch (error) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          message: error.message
+        });
+        return;
+      }
+      console.error('시뮬레이션 시나리오 오류:', error);
+      res.status(500).json({
+        success: false,
+        message: '시뮬레이션 시나리오 시작 중 오류가 발생했습니다.'
+      });
+    }
+  }
+
+  /**
+   * 시뮬레이션 시장 상태 조회
+   * GET /api/price/dev/sim-market
+   */
+  async getSimMarketStatus(_req: Request, res: Response): Promise<void> {
+    try {
+      const status = await this.priceService.getSimMarketStatus();
+
+      res.json({
+        success: true,
+        data: status
+      });
+    } catch (error) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          message: error.message
+        });
+        return;
+      }
+      console.error('시뮬레이션 시장 상태 조회 오류:', error);
+      res.status(500).json({
+        success: false,
+        message: '시뮬레이션 시장 상태 조회 중 오류가 발생했습니다.'
+      });
+    }
+  }
+
   /**
    * 캐시 상태 조회
    * GET /api/price/dev/cache-status
@@ -734,6 +992,24 @@ export class PriceController {
       });
     }
   }
+
+  /**
+   * 차트/히스토리 응답 메타 정보 (저장된 캔들이 기대 수보다 적으면 공백 있음)
+   */
+  private toHistoryMeta(history: PriceHistoryResult): Record<string, unknown> {
+    return {
+      symbol: history.symbol,
+      interval: history.interval,
+      from: history.from.toISOString(),
+      to: history.to.toISOString(),
+      coverage: history.coverage
+    };
+  }
+
+  /**
+   * 변화율 알림 기준 가격 조회 (라우트에서 메서드를 그대로 넘기므로 화살표 함수로 this 고정)
+   */
+  private lookupCurrentPrice: CurrentPriceLookup = symbol => this.priceService.getCurrentPriceBySymbol(symbol, true);
 }
 
 export default PriceController;
\ No newline at end of file
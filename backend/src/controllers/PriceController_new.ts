@@ -2,6 +2,8 @@
 
 import { Request, Response } from 'express';
 import { PriceService } from '../services/PriceService';
+import { PriceHistoryService } from '../services/PriceHistoryService';
+import { PriceAlertService, PriceAlertInput } from '../services/PriceAlertService';
 
 // 요청 타입 정의
 interface AuthenticatedRequest extends Request {
@@ -44,12 +46,7 @@ interface HistoryQuery extends Request {
 }
 
 interface AlertRequest extends AuthenticatedRequest {
-  body: {
-    tokenSymbol: string;
-    targetPrice: number;
-    condition: 'above' | 'below';
-    isActive?: boolean;
-  };
+  body: PriceAlertInput;
 }
 
 export class PriceController {
@@ -118,13 +115,13 @@ export class PriceController {
   async getChartData(req: ChartQuery, res: Response): Promise<void> {
     try {
       const { tokenSymbol } = req.params;
-      const { vs_currency: _vs_currency = 'usd', days = '7', interval = 'daily' } = req.query;
+      const { vs_currency: _vs_currency = 'usd', days = '7', interval } = req.query;
       if (!tokenSymbol) {
         res.status(400).json({ success: false, message: '토큰 심볼이 필요합니다.' });
         return;
       }
-            const chartData = await this.priceService.getChartData(tokenSymbol.toLowerCase(), 'usd', parseInt(days as string), interval as string);
-      res.json({ success: true, data: chartData });
+            const chart = await PriceHistoryService.getInstance().getChart(tokenSymbol, parseFloat(days as string) || 7, interval as string | undefined);
+      res.json({ success: true, data: chart.candles });
     } catch (error) {
       console.error('차트 데이터 조회 오류:', error);
       res.status(500).json({ success: false, message: '차트 데이터 조회 중 오류가 발생했습니다.' });
@@ -134,13 +131,13 @@ export class PriceController {
   async getPriceHistory(req: HistoryQuery, res: Response): Promise<void> {
     try {
       const { tokenSymbol } = req.params;
-            const { days = '1', interval: _interval = '1h', vs_currency: _vs_currency = 'usd' } = req.query;
+            const { days = '1', interval, vs_currency: _vs_currency = 'usd' } = req.query;
       if (!tokenSymbol) {
         res.status(400).json({ success: false, message: '토큰 심볼이 필요합니다.' });
         return;
       }
-            const historyData = await this.priceService.getPriceHistory(tokenSymbol.toLowerCase(), days as string, 'usd');
-      res.json({ success: true, data: historyData });
+            const historyData = await PriceHistoryService.getInstance().getChart(tokenSymbol, parseFloat(days as string) || 1, interval as string | undefined);
+      res.json({ success: true, data: historyData.candles });
     } catch (error) {
       console.error('가격 히스토리 조회 오류:', error);
       res.status(500).json({ success: false, message: '가격 히스토리 조회 중 오류가 발생했습니다.' });
@@ -190,7 +187,7 @@ export class PriceController {
           res.status(401).json({ success: false, message: '인증이 필요합니다.' });
           return;
         }
-        const alerts = await this.priceService.getUserPriceAlerts(userId);
+        const alerts = await PriceAlertService.getInstance().getUserAlerts(userId);
         res.json({ success: true, data: alerts });
       } catch (error) {
         console.error('가격 알림 목록 조회 오류:', error);
@@ -201,16 +198,15 @@ export class PriceController {
     async createPriceAlert(req: AlertRequest, res: Response): Promise<void> {
       try {
         const userId = req.user?.id;
-        const { tokenSymbol, targetPrice, condition, isActive = true } = req.body;
         if (!userId) {
           res.status(401).json({ success: false, message: '인증이 필요합니다.' });
           return;
         }
-        if (!tokenSymbol || !targetPrice || !condition) {
-          res.status(400).json({ success: false, message: '토큰 심볼, 목표 가격, 조건이 필요합니다.' });
+        if (!req.body.tokenSymbol || !req.body.condition) {
+          res.status(400).json({ success: false, message: '토큰 심볼과 조건이 필요합니다.' });
           return;
         }
-        const alert = await this.priceService.createPriceAlert(userId, tokenSymbol, targetPrice, condition, isActive);
+        const alert = await PriceAlertService.getInstance().createAlert(userId, req.body, symbol => this.priceService.getCurrentPriceBySymbol(symbol, true));
         res.status(201).json({ success: true, data: alert, message: '가격 알림이 생성되었습니다.' });
       } catch (error) {
         console.error('가격 알림 생성 오류:', error);
@@ -218,16 +214,15 @@ export class PriceController {
       }
     }
   
-    async updatePriceAlert(req: AuthenticatedRequest, res: Response): Promise<void> {
+    async updatePriceAlert(req: AlertRequest, res: Response): Promise<void> {
       try {
         const userId = req.user?.id;
         const { alertId } = req.params;
-        const updateData = req.body;
         if (!userId) {
           res.status(401).json({ success: false, message: '인증이 필요합니다.' });
           return;
         }
-        const updatedAlert = await this.priceService.updatePriceAlert(alertId, userId, updateData);
+        const updatedAlert = await PriceAlertService.getInstance().updateAlert(alertId, userId, req.body, symbol => this.priceService.getCurrentPriceBySymbol(symbol, true));
         res.json({ success: true, data: updatedAlert, message: '가격 알림이 수정되었습니다.' });
       } catch (error) {
         console.error('가격 알림 수정 오류:', error);
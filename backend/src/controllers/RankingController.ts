@@ -4,8 +4,10 @@ import { Request, Response } from 'express';
 import { Repository } from 'typeorm';
 import { AppDataSource } from '../config/database';
 import { Ranking } from '../models/Ranking';
+import { RewardTierDefinition, RewardTieBreaker } from '../models/RewardTable';
 // import { User } from '../models/User'; // 사용하지 않음
 import { RankingService } from '../services/RankingService';
+import { AppError } from '../middlewares/errorHandler';
 
 // 인증된 요청 타입 정의
 interface AuthenticatedRequest extends Request {
@@ -23,6 +25,8 @@ interface RankingQuery extends Request {
     limit?: string;
     offset?: string;
     metric?: string;
+    symbol?: string;
+    minGames?: string;
     page?: string;
   };
 }
@@ -33,6 +37,8 @@ interface SeasonRequest extends AuthenticatedRequest {
     startDate: string;
     endDate: string;
     description?: string;
+    tiers?: RewardTierDefinition[];
+    tieBreakers?: RewardTieBreaker[];
   };
 }
 
@@ -90,27 +96,40 @@ export class RankingController {
         period = 'weekly',
         limit = '100',
         offset = '0',
-        metric = 'totalScore'
+        metric = 'totalScore',
+        symbol,
+        minGames
       } = req.query;
 
-      const rankings = await this.rankingService.getRanking(
+      const leaderboard = await this.rankingService.getLeaderboard(
         period,
         parseInt(limit),
         parseInt(offset),
-        metric
+        { metric, symbol, minGames: minGames ? parseInt(minGames) : undefined }
       );
 
       res.json({
         success: true,
-        data: rankings,
+        data: leaderboard.entries,
         meta: {
           period,
+          periodKey: leaderboard.periodKey,
           limit: parseInt(limit),
           offset: parseInt(offset),
-          metric
+          metric: leaderboard.metric,
+          symbol: leaderboard.symbol,
+          minGames: leaderboard.minGames,
+          totalParticipants: leaderboard.totalParticipants
         }
       });
     } catch (error) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          message: error.message
+        });
+        return;
+      }
       console.error('랭킹 조회 오류:', error);
       res.status(500).json({
         success: false,
@@ -143,7 +162,12 @@ export class RankingController {
         return;
       }
 
-      const myRanking = await this.rankingService.getUserRanking(userId);
+      const { period = 'weekly', metric, symbol, minGames } = req.query;
+      const myRanking = await this.rankingService.getUserRanking(userId, period as string, undefined, {
+        metric: metric as string | undefined,
+        symbol: symbol as string | undefined,
+        minGames: minGames ? parseInt(minGames as string) : undefined
+      });
 
       if (!myRanking) {
         res.status(404).json({
@@ -158,6 +182,13 @@ export class RankingController {
         data: myRanking
       });
     } catch (error) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          message: error.message
+        });
+        return;
+      }
       console.error('내 랭킹 조회 오류:', error);
       res.status(500).json({
         success: false,
@@ -219,7 +250,8 @@ export class RankingController {
       const updatedRanking = await this.rankingService.updateUserRanking(
         userId,
         score,
-        period
+        period,
+        req.user.id
       );
 
       res.json({
@@ -236,6 +268,39 @@ export class RankingController {
     }
   }
 
+  /**
+   * 점수 원장 기준 사용자 통계 재집계
+   * POST /api/ranking/scores/rebuild
+   */
+  async rebuildUserStats(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (req.user?.role !== 'ADMIN') {
+        res.status(403).json({
+          success: false,
+          message: '관리자 권한이 필요합니다.'
+        });
+        return;
+      }
+
+      const { apply = false, userId } = req.body;
+      const report = await this.rankingService.rebuildUserStats(apply === true, userId);
+
+      res.json({
+        success: true,
+        data: report,
+        message: report.applied
+          ? `${report.driftedUsers}명의 통계를 원장 기준으로 갱신했습니다.`
+          : `${report.driftedUsers}명의 통계가 원장과 다릅니다.`
+      });
+    } catch (error) {
+      console.error('사용자 통계 재집계 오류:', error);
+      res.status(500).json({
+        success: false,
+        message: '사용자 통계 재집계 중 오류가 발생했습니다.'
+      });
+    }
+  }
+
   /**
    * 랭킹 일괄 업데이트
    * POST /api/ranking/admin/update-all
@@ -270,9 +335,14 @@ export class RankingController {
    * 에어드롭 일정 조회
    * GET /api/ranking/airdrop/schedule
    */
-  async getAirdropSchedule(_req: Request, res: Response): Promise<void> {
+  async getAirdropSchedule(req: Request, res: Response): Promise<void> {
     try {
-      const schedule = await this.rankingService.getAirdropSchedule();
+      const { period = 'current', periodKey } = req.query;
+
+      const schedule = await this.rankingService.getAirdropSchedule(
+        period as string,
+        periodKey as string | undefined
+      );
 
       res.json({
         success: true,
@@ -332,11 +402,13 @@ export class RankingController {
    */
   async getAirdropEligible(req: Request, res: Response): Promise<void> {
     try {
-      const { period = 'current', rank = 'all' } = req.query;
+      const period = req.params.period || (req.query.period as string) || 'current';
+      const { rank = 'all', periodKey } = req.query;
 
       const eligibleUsers = await this.rankingService.getAirdropEligibleUsers(
-        period as string,
-        rank as string
+        period,
+        rank as string,
+        periodKey as string | undefined
       );
 
       res.json({
@@ -366,9 +438,9 @@ export class RankingController {
         return;
       }
 
-      const { period = 'current', dryRun = false } = req.body;
+      const { period = 'current', dryRun = false, periodKey } = req.body;
 
-      const result = await this.rankingService.executeAirdrop(period, dryRun);
+      const result = await this.rankingService.executeAirdrop(period, dryRun, periodKey);
 
       res.json({
         success: true,
@@ -415,7 +487,7 @@ export class RankingController {
 
   /**
    * 에어드롭 재시도
-   * POST /api/ranking/admin/airdrop/retry
+   * POST /api/ranking/airdrop/retry/:airdropId
    */
   async retryAirdrop(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
@@ -427,7 +499,7 @@ export class RankingController {
         return;
       }
 
-      const { airdropId } = req.body;
+      const airdropId = req.params.airdropId || req.body.airdropId;
 
       if (!airdropId) {
         res.status(400).json({
@@ -453,6 +525,108 @@ export class RankingController {
     }
   }
 
+  /**
+   * 보상 등급표 조회
+   * GET /api/ranking/airdrop/tiers
+   */
+  async getRewardTiers(req: Request, res: Response): Promise<void> {
+    try {
+      const { period = 'current', periodKey } = req.query;
+
+      const table = await this.rankingService.getActiveRewardTable(
+        period as string,
+        periodKey as string | undefined
+      );
+
+      res.json({
+        success: true,
+        data: table.toJSON()
+      });
+    } catch (error) {
+      console.error('보상 등급표 조회 오류:', error);
+      res.status(500).json({
+        success: false,
+        message: '보상 등급표 조회 중 오류가 발생했습니다.'
+      });
+    }
+  }
+
+  /**
+   * 보상 테이블 목록 조회 (관리자)
+   * GET /api/ranking/airdrop/reward-tables
+   */
+  async getRewardTables(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const tables = await this.rankingService.getRewardTables(req.query.period as string | undefined);
+
+      res.json({
+        success: true,
+        data: tables.map(table => table.toJSON())
+      });
+    } catch (error) {
+      console.error('보상 테이블 목록 조회 오류:', error);
+      res.status(500).json({
+        success: false,
+        message: '보상 테이블 목록 조회 중 오류가 발생했습니다.'
+      });
+    }
+  }
+
+  /**
+   * 보상 테이블 생성 (관리자)
+   * POST /api/ranking/airdrop/reward-tables
+   */
+  async createRewardTable(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { name, period, periodKey, tiers, tieBreakers, isActive } = req.body;
+
+      const table = await this.rankingService.createRewardTable(
+        { name, period, periodKey, tiers, tieBreakers, isActive },
+        req.user?.id
+      );
+
+      res.status(201).json({
+        success: true,
+        data: table.toJSON(),
+        message: '보상 테이블이 생성되었습니다.'
+      });
+    } catch (error) {
+      console.error('보상 테이블 생성 오류:', error);
+      res.status(400).json({
+        success: false,
+        message: error instanceof Error ? error.message : '보상 테이블 생성 중 오류가 발생했습니다.'
+      });
+    }
+  }
+
+  /**
+   * 보상 테이블 수정 (관리자)
+   * PUT /api/ranking/airdrop/reward-tables/:tableId
+   */
+  async updateRewardTable(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { name, tiers, tieBreakers, isActive } = req.body;
+
+      const table = await this.rankingService.updateRewardTable(
+        req.params.tableId,
+        { name, tiers, tieBreakers, isActive },
+        req.user?.id
+      );
+
+      res.json({
+        success: true,
+        data: table.toJSON(),
+        message: '보상 테이블이 수정되었습니다.'
+      });
+    } catch (error) {
+      console.error('보상 테이블 수정 오류:', error);
+      res.status(400).json({
+        success: false,
+        message: error instanceof Error ? error.message : '보상 테이블 수정 중 오류가 발생했습니다.'
+      });
+    }
+  }
+
   /**
    * 현재 시즌 조회
    * GET /api/ranking/season/current
@@ -522,7 +696,7 @@ export class RankingController {
         return;
       }
 
-      const { name, startDate, endDate, description } = req.body;
+      const { name, startDate, endDate, description, tiers, tieBreakers } = req.body;
 
       if (!name || !startDate || !endDate) {
         res.status(400).json({
@@ -536,8 +710,10 @@ export class RankingController {
         name,
         startDate: new Date(startDate),
         endDate: new Date(endDate),
-        description
-      });
+        description,
+        tiers,
+        tieBreakers
+      }, req.user.id);
 
       res.status(201).json({
         success: true,
@@ -546,9 +722,107 @@ export class RankingController {
       });
     } catch (error) {
       console.error('시즌 생성 오류:', error);
+      res.status(400).json({
+        success: false,
+        message: error instanceof Error ? error.message : '시즌 생성 중 오류가 발생했습니다.'
+      });
+    }
+  }
+
+  /**
+   * 시즌 상세 조회
+   * GET /api/ranking/season/:seasonId
+   */
+  async getSeason(req: Request, res: Response): Promise<void> {
+    try {
+      const season = await this.rankingService.getSeason(req.params.seasonId);
+
+      if (!season) {
+        res.status(404).json({
+          success: false,
+          message: '시즌을 찾을 수 없습니다.'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: season
+      });
+    } catch (error) {
+      console.error('시즌 조회 오류:', error);
       res.status(500).json({
         success: false,
-        message: '시즌 생성 중 오류가 발생했습니다.'
+        message: '시즌 조회 중 오류가 발생했습니다.'
+      });
+    }
+  }
+
+  /**
+   * 시즌 순위 조회 (종료된 시즌은 최종 스냅샷)
+   * GET /api/ranking/season/:seasonId/leaderboard
+   */
+  async getSeasonLeaderboard(req: RankingQuery, res: Response): Promise<void> {
+    try {
+      const { limit = '100', offset = '0' } = req.query;
+
+      const leaderboard = await this.rankingService.getSeasonLeaderboard(
+        req.params.seasonId,
+        Math.min(parseInt(limit), 1000),
+        parseInt(offset)
+      );
+
+      if (!leaderboard) {
+        res.status(404).json({
+          success: false,
+          message: '시즌을 찾을 수 없습니다.'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: leaderboard
+      });
+    } catch (error) {
+      console.error('시즌 순위 조회 오류:', error);
+      res.status(500).json({
+        success: false,
+        message: '시즌 순위 조회 중 오류가 발생했습니다.'
+      });
+    }
+  }
+
+  /**
+   * 시즌 종료 및 최종 순위 확정
+   * POST /api/ranking/season/:seasonId/close
+   */
+  async closeSeason(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (req.user?.role !== 'ADMIN') {
+        res.status(403).json({
+          success: false,
+          message: '관리자 권한이 필요합니다.'
+        });
+        return;
+      }
+
+      const season = await this.rankingService.closeSeason(
+        req.params.seasonId,
+        req.user.id,
+        req.body?.force === true
+      );
+
+      res.json({
+        success: true,
+        data: season,
+        message: '시즌이 종료되고 최종 순위가 확정되었습니다.'
+      });
+    } catch (error) {
+      console.error('시즌 종료 오류:', error);
+      res.status(400).json({
+        success: false,
+        message: error instanceof Error ? error.message : '시즌 종료 중 오류가 발생했습니다.'
       });
     }
   }
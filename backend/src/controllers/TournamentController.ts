@@ -0,0 +1,275 @@
+// src/controllers/TournamentController.ts
+
+import { Request, Response } from 'express';
+import { Tournament, TournamentFormat, TournamentRequirements } from '../models/Tournament';
+import { RewardTierDefinition, RewardTieBreaker } from '../models/RewardTable';
+import { AppError } from '../middlewares/errorHandler';
+import { TournamentService, TournamentListFilter } from '../services/TournamentService';
+
+// 인터페이스 정의
+interface AuthenticatedRequest extends Request {
+  user?: {
+    id: string;
+    role?: string;
+  };
+}
+
+interface CreateTournamentRequest extends AuthenticatedRequest {
+  body: {
+    name: string;
+    description?: string;
+    format?: TournamentFormat;
+    symbol: string;
+    tier: string;
+    roundCount: number;
+    registrationOpensAt?: string;
+    registrationClosesAt: string;
+    requirements?: TournamentRequirements;
+    minEntrants?: number;
+    maxEntrants?: number;
+    tiers?: RewardTierDefinition[];
+    tieBreakers?: RewardTieBreaker[];
+  };
+}
+
+interface TournamentListQuery extends AuthenticatedRequest {
+  query: {
+    status?: string;
+    limit?: string;
+    offset?: string;
+  };
+}
+
+const LIST_FILTERS: TournamentListFilter[] = ['upcoming', 'live', 'finished'];
+
+/**
+ * 토너먼트 컨트롤러
+ * 토너먼트 목록/상세/순위표 조회, 참가 등록, 관리자 토너먼트 생성을 담당
+ */
+export class TournamentController {
+  private tournamentService: TournamentService;
+
+  constructor() {
+    this.tournamentService = new TournamentService();
+  }
+
+  /**
+   * 토너먼트 목록 (예정/진행 중/종료)
+   * GET /api/tournament?status=upcoming|live|finished
+   * status 를 생략하면 예정과 진행 중 토너먼트를 함께 반환
+   */
+  async getTournaments(req: TournamentListQuery, res: Response): Promise<void> {
+    await this.handle(res, '토너먼트 목록 조회', async () => {
+      const { status } = req.query;
+      if (status && !LIST_FILTERS.includes(status as TournamentListFilter)) {
+        throw new AppError(`지원하지 않는 목록 구분입니다: ${status} (지원: ${LIST_FILTERS.join(', ')})`, 400);
+      }
+
+      const { limit, offset } = this.parsePaging(req.query);
+
+      if (status) {
+        const { tournaments, total } = await this.tournamentService.getTournaments(status as TournamentListFilter, limit, offset);
+        res.json({
+          success: true,
+          data: {
+            tournaments: tournaments.map(tournament => tournament.toJSON()),
+            pagination: { total, limit, offset }
+          }
+        });
+        return;
+      }
+
+      const [live, upcoming] = await Promise.all([
+        this.tournamentService.getTournaments('live', limit, 0),
+        this.tournamentService.getTournaments('upcoming', limit, 0)
+      ]);
+      res.json({
+        success: true,
+        data: {
+          live: live.tournaments.map(tournament => tournament.toJSON()),
+          upcoming: upcoming.tournaments.map(tournament => tournament.toJSON())
+        }
+      });
+    }, req, false);
+  }
+
+  /**
+   * 토너먼트 상세 (상금 테이블, 현재 라운드, 로그인 시 내 참가 정보와 참가 조건 충족 여부 포함)
+   * GET /api/tournament/:tournamentId
+   */
+  async getTournament(req: AuthenticatedRequest, res: Response): Promise<void> {
+    await this.handle(res, '토너먼트 조회', async userId => {
+      const tournament = await this.findTournament(req.params.tournamentId);
+      const table = await this.tournamentService.getRewardTable(tournament);
+      const current = await this.tournamentService.getCurrentRound(tournament);
+
+      const data: Record<string, unknown> = {
+        ...tournament.toJSON(),
+        prizePool: table.tokenTotals,
+        rewardTable: table.toJSON(),
+        currentRound: current
+          ? {
+            sequence: current.round.sequence,
+            gameId: current.round.gameId,
+            status: current.game?.status ?? null,
+            predictionDeadline: current.game?.predictionDeadline ?? null,
+            endsAt: current.game?.startedAt
+              ? new Date(current.game.startedAt.getTime() + current.game.duration)
+              : null
+          }
+          : null
+      };
+
+      if (userId) {
+        const entry = await this.tournamentService.getEntry(tournament.id, userId);
+        data.myEntry = entry ? entry.toJSON() : null;
+        if (!entry) {
+          data.eligibility = await this.tournamentService.checkEligibility(tournament, userId);
+        }
+      }
+
+      res.json({ success: true, data });
+    }, req, false);
+  }
+
+  /**
+   * 토너먼트 순위표
+   * GET /api/tournament/:tournamentId/leaderboard
+   */
+  async getLeaderboard(req: TournamentListQuery, res: Response): Promise<void> {
+    await this.handle(res, '토너먼트 순위 조회', async () => {
+      const tournament = await this.findTournament(req.params.tournamentId);
+      const { limit, offset } = this.parsePaging(req.query, 100, 500);
+      const leaderboard = await this.tournamentService.getLeaderboard(tournament, limit, offset);
+
+      res.json({
+        success: true,
+        data: {
+          tournament: tournament.toJSON(),
+          final: leaderboard.final,
+          entries: leaderboard.entries.map(entry => entry.toJSON()),
+          pagination: { total: leaderboard.total, limit, offset }
+        }
+      });
+    }, req, false);
+  }
+
+  /**
+   * 참가 등록
+   * POST /api/tournament/:tournamentId/register
+   */
+  async register(req: AuthenticatedRequest, res: Response): Promise<void> {
+    await this.handle(res, '토너먼트 참가 등록', async userId => {
+      const entry = await this.tournamentService.register(req.params.tournamentId, userId);
+
+      res.status(201).json({
+        success: true,
+        message: '토너먼트에 참가 등록했습니다.',
+        data: entry.toJSON()
+      });
+    }, req);
+  }
+
+  /**
+   * 토너먼트 생성 (관리자)
+   * POST /api/tournament
+   */
+  async createTournament(req: CreateTournamentRequest, res: Response): Promise<void> {
+    await this.handle(res, '토너먼트 생성', async userId => {
+      if (req.user?.role !== 'ADMIN') {
+        throw new AppError('관리자 권한이 필요합니다.', 403);
+      }
+
+      const {
+        name, description, format = TournamentFormat.CUMULATIVE, symbol, tier, roundCount,
+        registrationOpensAt, registrationClosesAt, requirements, minEntrants, maxEntrants, tiers, tieBreakers
+      } = req.body;
+
+      if (!name || !symbol || !tier || !roundCount || !registrationClosesAt) {
+        throw new AppError('토너먼트 이름, 심볼, 등급, 라운드 수, 등록 마감 시각이 필요합니다.', 400);
+      }
+
+      const tournament = await this.tournamentService.createTournament({
+        name,
+        description,
+        format,
+        symbol,
+        tier,
+        roundCount: Number(roundCount),
+        registrationOpensAt: registrationOpensAt ? new Date(registrationOpensAt) : new Date(),
+        registrationClosesAt: new Date(registrationClosesAt),
+        requirements,
+        minEntrants: minEntrants !== undefined ? Number(minEntrants) : undefined,
+        maxEntrants: maxEntrants !== undefined ? Number(maxEntrants) : undefined,
+        tiers,
+        tieBreakers
+      }, userId);
+
+      res.status(201).json({
+        success: true,
+        message: '토너먼트가 생성되었습니다.',
+        data: tournament.toJSON()
+      });
+    }, req);
+  }
+
+  /**
+   * 토너먼트 조회 (없으면 404)
+   */
+  private async findTournament(tournamentId: string): Promise<Tournament> {
+    const tournament = await this.tournamentService.getTournament(tournamentId);
+    if (!tournament) {
+      throw new AppError('토너먼트를 찾을 수 없습니다.', 404);
+    }
+    return tournament;
+  }
+
+  /**
+   * 페이지 파라미터 (limit 은 1-max)
+   */
+  private parsePaging(query: { limit?: string; offset?: string }, defaultLimit: number = 20, max: number = 100): { limit: number; offset: number } {
+    return {
+      limit: Math.min(Math.max(parseInt(query.limit || String(defaultLimit)) || defaultLimit, 1), max),
+      offset: Math.max(parseInt(query.offset || '0') || 0, 0)
+    };
+  }
+
+  /**
+   * 공통 처리: 인증 확인, AppError 는 해당 상태 코드로, 그 외 오류는 500 으로 응답
+   */
+  private async handle(
+    res: Response,
+    action: string,
+    run: (userId: string) => Promise<void>,
+    req: AuthenticatedRequest,
+    requireAuth: boolean = true
+  ): Promise<void> {
+    const userId = req.user?.id;
+    if (requireAuth && !userId) {
+      res.status(401).json({
+        success: false,
+        message: '인증이 필요합니다.'
+      });
+      return;
+    }
+
+    try {
+      await run(userId || '');
+    } catch (error) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          message: error.message
+        });
+        return;
+      }
+      console.error(`${action} 오류:`, error);
+      res.status(500).json({
+        success: false,
+        message: `${action} 중 오류가 발생했습니다.`
+      });
+    }
+  }
+}
+
+export default TournamentController;
@@ -20,15 +20,27 @@ import { initializeDatabase, closeDatabaseConnection, checkDatabaseHealth } from
 
 // 서비스 import
 import { MissionService } from './services/MissionService';
+import { GameRoundScheduler } from './services/GameRoundScheduler';
+import { WebSocketService } from './services/WebSocketService';
+import { priceService } from './services/PriceService';
+import { PriceHistoryService } from './services/PriceHistoryService';
+import { PriceAlertService } from './services/PriceAlertService';
 
 // 라우트 import
 import missionRoutes from './routes/mission';
+import gameRoutes from './routes/game';
+import duelRoutes from './routes/duel';
+import tournamentRoutes from './routes/tournament';
+import practiceRoutes from './routes/practice';
+import achievementRoutes from './routes/achievement';
+import rankingRoutes from './routes/ranking';
+import priceRoutes from './routes/price';
 // Express 앱 초기화
 const app: Application = express();
 const httpServer = createServer(app);
 
-// WebSocketService 초기화 (Socket.IO 대체)
-
+// WebSocketService 초기화 (Socket.IO 대체, 같은 HTTP 서버의 /ws 경로 사용)
+const webSocketService = WebSocketService.getInstance();
 
 // 포트 설정
 const PORT = parseInt(process.env.PORT || '3000', 10);
@@ -123,6 +135,27 @@ const setupRoutes = (): void => {
   // 미션 라우트 등록
   app.use('/api/v1/missions', missionRoutes);
 
+  // 게임 라우트 등록
+  app.use('/api/game', gameRoutes);
+
+  // 1:1 대결 라우트 등록
+  app.use('/api/duel', duelRoutes);
+
+  // 토너먼트 라우트 등록
+  app.use('/api/tournament', tournamentRoutes);
+
+  // 연습 모드 라우트 등록
+  app.use('/api/practice', practiceRoutes);
+
+  // 업적 라우트 등록
+  app.use('/api/achievements', achievementRoutes);
+
+  // 랭킹 라우트 등록
+  app.use('/api/ranking', rankingRoutes);
+
+  // 가격 라우트 등록
+  app.use('/api/price', priceRoutes);
+
   // 404 핸들러
   app.use('*', (req, res) => {
     res.status(404).json({
@@ -144,8 +177,15 @@ const initializeServices = async (): Promise<void> => {
     await MissionService.getInstance().initializeRepositories();
     logger.info('MissionService 초기화 완료');
     
+    // 게임 라운드 스케줄러 시작 (중단된 라운드 복구 포함)
+    await GameRoundScheduler.getInstance().start();
+    logger.info('GameRoundScheduler 초기화 완료');
+
+    // 가격 히스토리 틱 기록/캔들 롤업 시작 (공백 채우기는 백그라운드로 진행)
+    PriceHistoryService.getInstance().start(priceService);
+    logger.info('PriceHistoryService 초기화 완료');
+    
     // 다른 서비스들도 여기서 초기화할 수 있습니다
-    // await GameService.getInstance().initialize();
     // await RankingService.getInstance().initialize();
     
     logger.info('모든 서비스 초기화 완료');
@@ -181,6 +221,12 @@ const startServer = async (): Promise<void> => {
     logger.info('4단계: 라우트 설정 중...');
     setupRoutes();
 
+    // 5단계: WebSocket 서버 연결
+    logger.info('5단계: WebSocket 서버 연결 중...');
+    webSocketService.attach(httpServer, priceService);
+    // 연결이 없어 전달하지 못한 가격 알림은 notifications 채널 구독 시 재전송
+    webSocketService.setNotificationReplay(userId => PriceAlertService.getInstance().deliverPending(userId));
+
     // 6단계: HTTP 서버 시작
     httpServer.listen(PORT, () => {
       logger.info(`
@@ -189,7 +235,7 @@ const startServer = async (): Promise<void> => {
         🔧 Port: ${PORT}
         📡 API: http://localhost:${PORT}/api/v1
         🏥 Health: http://localhost:${PORT}/health
-        🔌 WebSocket: ws://localhost:${PORT}
+        🔌 WebSocket: ws://localhost:${PORT}${webSocketService.getInfo().path}
         🏆 리더보드: 실시간 업데이트 준비완료
         
         ✅ 모든 시스템이 정상적으로 초기화되었습니다.
@@ -216,10 +262,15 @@ const startServer = async (): Promise<void> => {
 const gracefulShutdown = async (): Promise<void> => {
   logger.info('🔄 서버 종료 신호를 받았습니다...');
 
+  GameRoundScheduler.getInstance().stop();
+  PriceHistoryService.getInstance().stop();
+
+  // 열린 WebSocket 연결이 HTTP 서버 종료를 막지 않도록 먼저 닫음
+  webSocketService.shutdown();
+  logger.info('✅ WebSocket 서버가 종료되었습니다');
+
   httpServer.close(() => {
     logger.info('✅ HTTP 서버가 종료되었습니다');
-    // webSocketService.shutdown(); // ← 이 줄을 삭제 또는 주석 처리
-    // logger.info('✅ Socket.io 서버가 종료되었습니다'); // 이 줄도 같이 주석 처리
   });
 
   try {
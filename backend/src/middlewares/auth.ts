@@ -47,36 +47,8 @@ export async function authMiddleware(
       throw new AppError('잘못된 토큰 형식입니다', 401);
     }
 
-    const token = tokenParts[1];
-
-    // JWT 시크릿 키 확인
-    const jwtSecret = process.env.JWT_SECRET;
-    if (!jwtSecret) {
-      logger.error('JWT_SECRET is not configured');
-      throw new AppError('서버 설정 오류입니다', 500);
-    }
-
-    // 토큰 검증
-    const decoded = jwt.verify(token, jwtSecret) as any;
-    
-    // 토큰 만료 확인
-    if (decoded.exp && Date.now() >= decoded.exp * 1000) {
-      throw new AppError('토큰이 만료되었습니다', 401);
-    }
-
-    // 필수 사용자 정보 확인
-    if (!decoded.userId) {
-      throw new AppError('잘못된 토큰입니다', 401);
-    }
-
     // 사용자 정보를 요청 객체에 추가
-    req.user = {
-      id: decoded.userId,
-      walletAddress: decoded.walletAddress,
-      email: decoded.email,
-      provider: decoded.provider,
-      isVerified: decoded.isVerified || false
-    };
+    req.user = verifyAccessToken(tokenParts[1]);
 
     logger.info(`User authenticated: ${req.user.id}`, {
       userId: req.user.id,
@@ -105,6 +77,40 @@ export async function authMiddleware(
   }
 }
 
+/**
+ * 액세스 토큰 검증 (HTTP 인증 미들웨어와 WebSocket 연결 인증에서 공용)
+ * 유효하지 않으면 AppError 또는 jwt 오류를 던짐
+ */
+export function verifyAccessToken(token: string): NonNullable<AuthenticatedRequest['user']> {
+  // JWT 시크릿 키 확인
+  const jwtSecret = process.env.JWT_SECRET;
+  if (!jwtSecret) {
+    logger.error('JWT_SECRET is not configured');
+    throw new AppError('서버 설정 오류입니다', 500);
+  }
+
+  // 토큰 검증
+  const decoded = jwt.verify(token, jwtSecret) as any;
+
+  // 토큰 만료 확인
+  if (decoded.exp && Date.now() >= decoded.exp * 1000) {
+    throw new AppError('토큰이 만료되었습니다', 401);
+  }
+
+  // 필수 사용자 정보 확인
+  if (!decoded.userId) {
+    throw new AppError('잘못된 토큰입니다', 401);
+  }
+
+  return {
+    id: decoded.userId,
+    walletAddress: decoded.walletAddress,
+    email: decoded.email,
+    provider: decoded.provider,
+    isVerified: decoded.isVerified || false
+  };
+}
+
 /**
  * 선택적 인증 미들웨어
  * 토큰이 있으면 검증하고, 없어도 계속 진행
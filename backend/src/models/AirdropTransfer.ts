@@ -0,0 +1,87 @@
+// src/models/AirdropTransfer.ts
+
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, ManyToOne, JoinColumn, Index, Unique } from 'typeorm';
+import { Ranking, AirdropStatus } from './Ranking';
+
+/**
+ * AirdropTransfer 엔티티
+ * 랭킹 보상 1건(Ranking 행)의 토큰별 전송 내역
+ * 한 등급이 여러 토큰(CTA + USDT 등)을 지급하면 토큰마다 한 행씩 생성되어 개별적으로 전송/확정됨
+ */
+@Entity('airdrop_transfers')
+@Unique(['rankingId', 'token'])
+@Index(['status'])
+@Index(['userId', 'createdAt'])
+export class AirdropTransfer {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  @Index()
+  rankingId: string;
+
+  @Column({ type: 'uuid' })
+  userId: string;
+
+  @Column({ type: 'uuid', nullable: true })
+  rewardTableId?: string; // 지급 기준이 된 보상 테이블
+
+  @Column({ type: 'int' })
+  tier: number; // 지급 시점의 보상 등급
+
+  @Column({ type: 'varchar', length: 20 })
+  token: string; // 토큰 심볼
+
+  @Column({ type: 'decimal', precision: 30, scale: 8 })
+  amount: number;
+
+  @Column({
+    type: 'enum',
+    enum: AirdropStatus,
+    default: AirdropStatus.PENDING
+  })
+  status: AirdropStatus;
+
+  @Column({ type: 'varchar', length: 66, nullable: true })
+  transactionHash?: string;
+
+  @Column({ type: 'int', nullable: true })
+  nonce?: number; // 트랜잭션 nonce (미확정 트랜잭션 재확인용)
+
+  @Column({ type: 'varchar', length: 500, nullable: true })
+  failureReason?: string;
+
+  @Column({ type: 'int', default: 0 })
+  retryCount: number;
+
+  @Column({ type: 'timestamp', nullable: true })
+  processedAt?: Date;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+
+  @ManyToOne(() => Ranking, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'rankingId' })
+  ranking: Ranking;
+
+  /**
+   * JSON 직렬화
+   */
+  toJSON(): object {
+    return {
+      id: this.id,
+      rankingId: this.rankingId,
+      tier: this.tier,
+      token: this.token,
+      amount: Number(this.amount),
+      status: this.status,
+      transactionHash: this.transactionHash,
+      failureReason: this.failureReason,
+      retryCount: this.retryCount,
+      processedAt: this.processedAt
+    };
+  }
+}
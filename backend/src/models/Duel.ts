@@ -0,0 +1,164 @@
+// src/models/Duel.ts
+
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, ManyToOne, OneToMany, JoinColumn, Index } from 'typeorm';
+import { User } from './User';
+import { DuelLeg } from './DuelLeg';
+
+/**
+ * 대결 상태 열거형
+ * INVITED → ACCEPTED → IN_PROGRESS → FINISHED
+ * INVITED → EXPIRED (초대 만료/거절/취소)
+ */
+export enum DuelStatus {
+  INVITED = 'invited',         // 초대됨 (상대 수락 대기)
+  ACCEPTED = 'accepted',       // 수락됨 (첫 레그 라운드 대기)
+  IN_PROGRESS = 'in_progress', // 레그 진행 중
+  FINISHED = 'finished',       // 시리즈 종료 (레이팅 반영 완료)
+  EXPIRED = 'expired'          // 시작하지 못하고 종료
+}
+
+/**
+ * 상태별 허용 전환
+ */
+export const DUEL_TRANSITIONS: Record<DuelStatus, DuelStatus[]> = {
+  [DuelStatus.INVITED]: [DuelStatus.ACCEPTED, DuelStatus.EXPIRED],
+  [DuelStatus.ACCEPTED]: [DuelStatus.IN_PROGRESS],
+  [DuelStatus.IN_PROGRESS]: [DuelStatus.FINISHED],
+  [DuelStatus.FINISHED]: [],
+  [DuelStatus.EXPIRED]: []
+};
+
+/**
+ * 대결 참가자 구분
+ */
+export type DuelSide = 'challenger' | 'opponent';
+
+/**
+ * 만료 사유
+ * - invite_timeout: 초대 유효 시간 안에 수락하지 않음
+ * - declined: 상대가 거절함
+ * - cancelled: 도전자가 수락 전에 취소함
+ */
+export type DuelExpireReason = 'invite_timeout' | 'declined' | 'cancelled';
+
+/**
+ * 대결 메타데이터
+ */
+export interface DuelMetadata {
+  expireReason?: DuelExpireReason;
+  challengerRatingBefore?: number;
+  opponentRatingBefore?: number;
+  expectedScore?: number; // 도전자의 Elo 기대 승률
+}
+
+/**
+ * Duel 엔티티
+ * 두 사용자가 같은 심볼/등급의 라운드로 치르는 best-of-N 시리즈
+ * 레그 결과와 레이팅 변동은 DuelLeg 와 이 엔티티의 집계 컬럼에 기록
+ */
+@Entity('duels')
+@Index(['status', 'expiresAt'])
+@Index(['challengerId', 'createdAt'])
+@Index(['opponentId', 'createdAt'])
+export class Duel {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  challengerId: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'challengerId' })
+  challenger: User;
+
+  @Column({ type: 'uuid', nullable: true })
+  opponentId?: string; // 초대 링크로 만든 대결은 수락한 사용자가 상대가 됨
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE', nullable: true })
+  @JoinColumn({ name: 'opponentId' })
+  opponent?: User;
+
+  @Column({ type: 'varchar', length: 16, unique: true })
+  inviteCode: string; // 초대 링크 코드
+
+  @Column({ type: 'varchar', length: 10 })
+  symbol: string;
+
+  @Column({ type: 'varchar', length: 8 })
+  tier: string; // 레그 라운드 길이 등급 (1m, 5m, 15m, 1h)
+
+  @Column({ type: 'int' })
+  bestOf: number; // 시리즈 길이 (과반 승리 시 종료)
+
+  @Column({ type: 'enum', enum: DuelStatus, default: DuelStatus.INVITED })
+  status: DuelStatus;
+
+  @Column({ type: 'int', default: 0 })
+  challengerWins: number;
+
+  @Column({ type: 'int', default: 0 })
+  opponentWins: number;
+
+  @Column({ type: 'int', default: 0 })
+  drawLegs: number; // 무승부 레그 수 (무효 레그 제외)
+
+  @Column({ type: 'int', default: 0 })
+  legCount: number; // 생성된 레그 수 (무효 레그 포함)
+
+  @Column({ type: 'uuid', nullable: true })
+  winnerId?: string; // 시리즈 승자 (무승부면 null)
+
+  @Column({ type: 'int', nullable: true })
+  challengerRatingChange?: number;
+
+  @Column({ type: 'int', nullable: true })
+  opponentRatingChange?: number;
+
+  @Column({ type: 'timestamp' })
+  expiresAt: Date; // 초대 만료 시각
+
+  @Column({ type: 'timestamp', nullable: true })
+  acceptedAt?: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  startedAt?: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  finishedAt?: Date;
+
+  @Column({ type: 'json', nullable: true })
+  metadata?: DuelMetadata;
+
+  @OneToMany(() => DuelLeg, leg => leg.duel)
+  legs: DuelLeg[];
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+
+  /**
+   * 시리즈 승리에 필요한 레그 승수
+   */
+  get winsNeeded(): number {
+    return Math.floor(this.bestOf / 2) + 1;
+  }
+
+  /**
+   * 상태 전환 가능 여부
+   */
+  canTransitionTo(status: DuelStatus): boolean {
+    return DUEL_TRANSITIONS[this.status].includes(status);
+  }
+
+  /**
+   * 사용자의 참가자 구분 (참가자가 아니면 null)
+   */
+  sideOf(userId: string): DuelSide | null {
+    if (userId === this.challengerId) {
+      return 'challenger';
+    }
+    return userId === this.opponentId ? 'opponent' : null;
+  }
+}
@@ -0,0 +1,72 @@
+// src/models/DuelLeg.ts
+
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, ManyToOne, JoinColumn, Index, Unique } from 'typeorm';
+import { Duel } from './Duel';
+import { Game } from './Game';
+import { GamePredictionType } from './GamePrediction';
+
+/**
+ * 레그 결과
+ * - challenger/opponent: 한쪽만 방향을 맞힘 (예측하지 않은 쪽은 틀린 것으로 봄)
+ * - draw: 둘 다 맞히거나 둘 다 틀림 (보합 포함)
+ * - void: 라운드가 무효/취소되어 레그를 다시 치름
+ */
+export type DuelLegResult = 'challenger' | 'opponent' | 'draw' | 'void';
+
+/**
+ * DuelLeg 엔티티
+ * 대결의 레그 1회 (정규 라운드 하나에 묶임)
+ * 양쪽 예측은 라운드 예측 마감 전까지만 받으며, 라운드 시작 가격 대비 종료 가격 방향으로 판정
+ */
+@Entity('duel_legs')
+@Unique(['duelId', 'legNumber'])
+export class DuelLeg {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  @Index()
+  duelId: string;
+
+  @ManyToOne(() => Duel, duel => duel.legs, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'duelId' })
+  duel: Duel;
+
+  @Column({ type: 'int' })
+  legNumber: number; // 1부터
+
+  @Column({ type: 'uuid' })
+  @Index()
+  gameId: string;
+
+  @ManyToOne(() => Game, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'gameId' })
+  game: Game;
+
+  @Column({ type: 'enum', enum: GamePredictionType, nullable: true })
+  challengerPrediction?: GamePredictionType;
+
+  @Column({ type: 'timestamp', precision: 3, nullable: true })
+  challengerPredictedAt?: Date;
+
+  @Column({ type: 'enum', enum: GamePredictionType, nullable: true })
+  opponentPrediction?: GamePredictionType;
+
+  @Column({ type: 'timestamp', precision: 3, nullable: true })
+  opponentPredictedAt?: Date;
+
+  @Column({ type: 'varchar', length: 12, nullable: true })
+  result?: DuelLegResult; // 미정산이면 null
+
+  @Column({ type: 'varchar', length: 4, nullable: true })
+  outcome?: 'up' | 'down' | 'flat'; // 라운드 가격 방향
+
+  @Column({ type: 'timestamp', nullable: true })
+  resolvedAt?: Date;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -1,6 +1,7 @@
 import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, OneToMany, Index } from 'typeorm';
 import { Prediction } from './Prediction';
 import { GameScore } from './GameScore';
+import { GameStakeMode } from '../config/game';
 
 /**
  * 게임 상태 열거형
@@ -10,23 +11,75 @@ export enum GameStatus {
   ACTIVE = 'active',         // 진행 중  
   COMPLETED = 'completed',   // 완료
   CANCELLED = 'cancelled',   // 취소
-  EXPIRED = 'expired'        // 만료
+  EXPIRED = 'expired',       // 만료
+  VOID = 'void'              // 무효 (정산 가격 누락/지연, 예측은 모두 취소)
 }
 
+/**
+ * 가격 소스별 조회 기록 (가격 오라클 집계 감사용)
+ */
+export interface PriceSourceQuote {
+  provider: string;
+  price?: number;
+  change24h?: number;
+  latency: number;            // 응답 시간 (ms)
+  accepted: boolean;          // 최종 가격 계산에 사용 여부
+  deviationPercent?: number;  // 중앙값 대비 편차 (%, 오프체인 소스가 있으면 오프체인 중앙값 기준)
+  error?: string;
+}
+
+/**
+ * 라운드 무효 사유
+ * - price_unavailable: 허용 지연 시간이 지나도록 정산 가격을 조회하지 못함
+ * - price_stale: 조회한 가격이 정산 시각보다 허용 지연 시간 이상 늦게 집계됨
+ * - round_cancelled: 라운드 생성자/관리자가 취소함 (CANCELLED)
+ */
+export type GameVoidReason = 'price_unavailable' | 'price_stale' | 'round_cancelled';
+
 /**
  * 가격 포인트 인터페이스 (JSON으로 저장)
  */
 export interface PricePoint {
   timestamp: number; // Unix timestamp
-  price: number; // 실제 가격
+  price: number; // 실제 가격 (채택된 소스들의 중앙값)
   volume?: number; // 거래량
   marketCap?: number; // 시가총액
-  apiProvider: string; // 가격 데이터 제공자 (coingecko, binance)
+  apiProvider: string; // 채택된 가격 제공자 (쉼표 구분, 예: coingecko,binance)
+  sources?: PriceSourceQuote[]; // 소스별 조회 기록
   networkLatency?: number; // 네트워크 지연시간 (ms)
   priceAccuracy?: number; // 가격 정확도 점수
   gameVersion?: string; // 게임 버전
 }
 
+/**
+ * 연습 게임 타입 (Game.gameType)
+ * 과거 가격을 재생하는 1인 라운드로, 점수 원장/랭킹/에어드랍/시즌 집계에서 제외됨
+ */
+export const PRACTICE_GAME_TYPE = 'practice';
+
+/**
+ * 재생 가격 포인트 (연습 게임)
+ */
+export interface ReplayPricePoint {
+  timestamp: number; // 원래 가격이 기록된 시각 (Unix ms)
+  price: number;
+}
+
+/**
+ * 연습 게임의 가격 재생 정보
+ * 저장된 과거 가격에서 고른 등급의 예측 시간 + 진행 시간 구간을 speed 배속으로 재생하며,
+ * 시작/종료 가격은 그 시각의 저장 가격 (utils/priceReplay)
+ */
+export interface PracticeReplay {
+  speed: number;              // 재생 배속 (원래 시간 / 실제 시간)
+  openAt: number;             // 재생 구간 시작 시각 (Unix ms, 예측 접수 시작에 대응)
+  startAt: number;            // 라운드 시작에 대응하는 시각 (Unix ms, 시작 가격 기준)
+  endAt: number;              // 라운드 종료에 대응하는 시각 (Unix ms, 종료 가격 기준)
+  startPrice: number;
+  endPrice: number;
+  series: ReplayPricePoint[]; // 재생 구간의 저장된 가격 (시간순)
+}
+
 /**
  * 게임 메타데이터 인터페이스
  */
@@ -38,6 +91,8 @@ export interface GameMetadata {
   totalParticipants?: number; // 총 참가자 수
   winnerCount?: number; // 승자 수
   averageScore?: number; // 평균 점수
+  voidReason?: GameVoidReason; // 무효/취소 사유 (VOID, CANCELLED)
+  replay?: PracticeReplay; // 연습 게임의 가격 재생 정보
 }
 
 /**
@@ -48,6 +103,7 @@ export interface GameMetadata {
 @Index(['tokenSymbol', 'createdAt'])
 @Index(['status', 'createdAt'])
 @Index(['status', 'tokenSymbol'])
+@Index(['tokenSymbol', 'tier', 'createdAt'])
 export class Game {
   @PrimaryGeneratedColumn('uuid')
   id: string;
@@ -67,7 +123,7 @@ export class Game {
   @Column({ type: 'varchar', length: 100 })
   tokenName: string; // Bitcoin, Ethereum, Catena 등
   @Column({ type: 'varchar', length: 20, default: 'standard' })
-  gameType: string; // GameController에서 사용
+  gameType: string; // standard 또는 practice (PRACTICE_GAME_TYPE)
   
   @Column({ type: 'decimal', precision: 20, scale: 8 })
   startPrice: number; // 게임 시작 가격
@@ -90,6 +146,21 @@ export class Game {
   @Column({ type: 'int' })
   predictionWindow: number; // 예측 가능 시간 (밀리초)
 
+  @Column({ type: 'varchar', length: 10, default: '1m' })
+  tier: string; // 라운드 길이 등급 (config/game GAME_ROUND_TIERS)
+
+  @Column({ type: 'decimal', precision: 4, scale: 2, default: 1 })
+  pointMultiplier: number; // 생성 시점 등급의 랭킹 점수 가중치
+
+  @Column({ type: 'decimal', precision: 6, scale: 4, default: 0 })
+  flatTolerancePercent: number; // 보합 허용 범위 (%, 변화율 절댓값이 이하면 DRAW)
+
+  @Column({ type: 'varchar', length: 12, default: 'parimutuel' })
+  stakeMode: GameStakeMode; // 스테이크 배당 방식 (config/game GameStakeMode)
+
+  @Column({ type: 'decimal', precision: 6, scale: 2, default: 1.9 })
+  stakeOdds: number; // fixed 방식의 배당률 (스테이크 포함 지급 배수)
+
   @Column({ type: 'timestamp', nullable: true })
   startedAt?: Date; // 게임 실제 시작 시간 (예측 마감 후)
 
@@ -159,7 +230,7 @@ export class Game {
    * 게임 진행률 계산 (0-100%)
    */
   get progressPercentage(): number {
-    if (this.status === GameStatus.COMPLETED || this.status === GameStatus.CANCELLED) {
+    if (this.status === GameStatus.COMPLETED || this.status === GameStatus.CANCELLED || this.status === GameStatus.VOID) {
       return 100;
     }
 
@@ -198,7 +269,8 @@ export class Game {
   get isCompleted(): boolean {
     return this.status === GameStatus.COMPLETED || 
            this.status === GameStatus.CANCELLED || 
-           this.status === GameStatus.EXPIRED;
+           this.status === GameStatus.EXPIRED ||
+           this.status === GameStatus.VOID;
   }
 
   /**
@@ -270,6 +342,13 @@ export class Game {
     }
   }
 
+  /**
+   * 연습 게임 여부 (과거 가격 재생, 랭킹/원장 제외)
+   */
+  get isPractice(): boolean {
+    return this.gameType === PRACTICE_GAME_TYPE;
+  }
+
   /**
    * 예측 마감까지 남은 시간 (밀리초)
    */
@@ -1,8 +1,10 @@
 // src/models/GamePrediction.ts
 
 import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, ManyToOne, JoinColumn, Index } from 'typeorm';
-import { Game } from './Game';
+import { Game, GameVoidReason } from './Game';
 import { User } from './User';
+import { calculatePredictionScore, ScoreBreakdown, ScoringContext } from '../utils/scoring';
+import { PredictionTiming } from '../utils/predictionTiming';
 
 /**
  * 게임 예측 타입 열거형
@@ -19,7 +21,20 @@ export enum GamePredictionStatus {
   PENDING = 'pending',     // 결과 대기 중
   WIN = 'win',            // 예측 성공
   LOSE = 'lose',          // 예측 실패
-  CANCELLED = 'cancelled'  // 취소됨
+  DRAW = 'draw',          // 보합 (허용 범위 이내 변동, 0점)
+  CANCELLED = 'cancelled', // 취소됨 (라운드 무효 포함)
+  WITHDRAWN = 'withdrawn'  // 예측 마감 전 사용자가 철회함 (같은 라운드 재참여 불가)
+}
+
+/**
+ * 예측 수정 이력 1건 (감사용, 변경 후 상태를 기록)
+ */
+export interface GamePredictionRevision {
+  action: 'submit' | 'change' | 'withdraw';
+  predictionType: GamePredictionType;
+  predictionPrice: number;
+  timestamp: number;
+  priceLatencyMs?: number; // 이 수정의 기준 가격 지연 (접수 시각 - 가격 집계 시각)
 }
 
 /**
@@ -40,9 +55,17 @@ export interface GamePredictionMetadata {
   // 게임 설정
   gameDuration: number;            // 게임 지속 시간 (분)
   minimumChangeThreshold?: number; // 최소 변화량 임계값
+  flatTolerancePercent?: number;   // 정산 시 적용한 보합 허용 범위 (%)
+  voidReason?: GameVoidReason;     // 라운드 무효 사유 (CANCELLED)
   
   // 추가 정보
   confidence?: number;             // 예측 신뢰도 (1-10)
+  stakeRequested?: number;         // 요청한 스테이크 (신뢰도 배수 적용 전)
+  revisions?: GamePredictionRevision[]; // 제출/변경/철회 이력 (시간순)
+  timing?: PredictionTiming;       // 마지막 제출/변경의 접수 시각 기록 (utils/predictionTiming)
+  scoreBreakdown?: ScoreBreakdown;  // 정산 시 계산된 점수 구성 (utils/scoring)
+  roundTier?: string;              // 정산된 라운드의 길이 등급
+  rankingMultiplier?: number;      // 랭킹 반영 시 점수 가중치 (라운드 등급)
   reasoning?: string;              // 예측 근거
   clientInfo?: {
     userAgent?: string;
@@ -137,6 +160,37 @@ export class GamePrediction {
   })
   accuracy?: number;
 
+  // 스테이크
+  @Column({
+    type: 'int',
+    default: 0,
+    comment: '점수 원장에 예치한 스테이크 (신뢰도 배수 적용)'
+  })
+  stake: number;
+
+  @Column({
+    type: 'int',
+    nullable: true,
+    comment: '스테이크 정산 지급액 (배당/반환, 미정산이면 null)'
+  })
+  stakePayout?: number;
+
+  // 접수 시각 검증
+  @Column({
+    type: 'int',
+    nullable: true,
+    comment: '접수 시각 대비 기준 가격 지연 (밀리초, 마지막 제출/변경 기준)'
+  })
+  priceLatencyMs?: number;
+
+  @Column({
+    type: 'boolean',
+    default: false,
+    comment: '접수 시각 의심 패턴 표시 (metadata.timing.flags)'
+  })
+  @Index()
+  timingFlagged: boolean;
+
   // 메타데이터
   @Column({
     type: 'json',
@@ -174,10 +228,19 @@ export class GamePrediction {
   }
 
   /**
-   * 예측이 완료되었는지 여부 (성공/실패 상관없이)
+   * 예측이 완료되었는지 여부 (성공/실패/보합 상관없이)
    */
   get isResolved(): boolean {
-    return this.status === GamePredictionStatus.WIN || this.status === GamePredictionStatus.LOSE;
+    return this.status === GamePredictionStatus.WIN ||
+      this.status === GamePredictionStatus.LOSE ||
+      this.status === GamePredictionStatus.DRAW;
+  }
+
+  /**
+   * 랭킹에 반영되는 점수 (예측 점수 x 라운드 등급 가중치)
+   */
+  get rankingPoints(): number {
+    return Math.round((this.scoreEarned || 0) * (this.metadata?.rankingMultiplier ?? 1));
   }
 
   /**
@@ -224,14 +287,15 @@ export class GamePrediction {
 
   /**
    * 예측 결과 처리
+   * @param status 정산 결과 (생략하면 가격 방향으로 WIN/LOSE 판정)
    */
-  resolveResult(resultPrice: number, scoreEarned: number = 0): void {
+  resolveResult(resultPrice: number, scoreEarned: number = 0, status?: GamePredictionStatus): void {
     this.resultPrice = resultPrice;
     this.scoreEarned = scoreEarned;
     this.resolvedAt = new Date();
     
     const isCorrect = this.isPredictionCorrect();
-    this.status = isCorrect ? GamePredictionStatus.WIN : GamePredictionStatus.LOSE;
+    this.status = status ?? (isCorrect ? GamePredictionStatus.WIN : GamePredictionStatus.LOSE);
     
     // 정확도 계산
     if (this.priceChangePercent !== null) {
@@ -279,26 +343,106 @@ export class GamePrediction {
   
   /**
   * updateResult 메서드 (GameService 호환성)
+  * 공통 점수 규칙(utils/scoring)으로 점수를 계산하고 구성 내역을 메타데이터에 남김
+  * 변화율이 보합 허용 범위(%) 이내면 방향과 관계없이 DRAW
   */
-  updateResult(resultPrice: number): void {
-  this.resolveResult(resultPrice, this.calculateScore(resultPrice));
+  updateResult(resultPrice: number, context: ScoringContext = {}, flatTolerancePercent: number = 0): void {
+    const price = Number(resultPrice);
+    const predictionPrice = Number(this.predictionPrice);
+    const priceChangePercent = predictionPrice ? ((price - predictionPrice) / predictionPrice) * 100 : 0;
+    const isDraw = Math.abs(priceChangePercent) <= Math.max(0, flatTolerancePercent);
+    const isCorrect = !isDraw && (this.predictionType === GamePredictionType.UP
+      ? price > predictionPrice
+      : price < predictionPrice);
+
+    const breakdown = calculatePredictionScore({
+      ...context,
+      isCorrect,
+      isDraw,
+      priceChangePercent,
+      confidence: context.confidence ?? this.metadata?.confidence
+    });
+
+    const status = isDraw
+      ? GamePredictionStatus.DRAW
+      : isCorrect ? GamePredictionStatus.WIN : GamePredictionStatus.LOSE;
+
+    this.resolveResult(price, breakdown.total, status);
+    this.updateMetadata({ scoreBreakdown: breakdown, flatTolerancePercent });
   }
-  
+
   /**
-  * 점수 계산 로직
-  */
-  private calculateScore(resultPrice: number): number {
-  const isCorrect = this.predictionType === GamePredictionType.UP ? 
-    resultPrice > this.predictionPrice : 
-    resultPrice < this.predictionPrice;
-  
-  if (!isCorrect) return 0;
-  
-  // 정확도에 따른 점수 계산 (기본 100점)
-  const changePercent = Math.abs((resultPrice - this.predictionPrice) / this.predictionPrice) * 100;
-  const baseScore = 100;
-  const accuracyBonus = Math.min(changePercent * 2, 50); // 최대 50점 보너스
-  
-  return Math.round(baseScore + accuracyBonus);
+   * 수정 이력 추가 (현재 방향/기준 가격 기록)
+   */
+  recordRevision(action: GamePredictionRevision['action'], timestamp: number = Date.now()): void {
+    this.updateMetadata({
+      revisions: [
+        ...(this.metadata?.revisions || []),
+        {
+          action,
+          predictionType: this.predictionType,
+          predictionPrice: Number(this.predictionPrice),
+          timestamp,
+          ...(this.priceLatencyMs !== undefined && this.priceLatencyMs !== null ? { priceLatencyMs: this.priceLatencyMs } : {})
+        }
+      ]
+    });
   }
-  }
\ No newline at end of file
+
+  /**
+   * 접수 시각 기록 적용
+   * 의심 표시는 한 번 붙으면 이후 수정으로 지워지지 않음
+   */
+  applyTiming(timing: PredictionTiming): void {
+    this.priceLatencyMs = timing.priceLatencyMs !== undefined ? Math.round(timing.priceLatencyMs) : undefined;
+    this.timingFlagged = !!this.timingFlagged || timing.flags.length > 0;
+    this.updateMetadata({ timing });
+  }
+
+  /**
+   * 예측 방향 변경
+   * 기준 가격과 제출 시각을 변경 접수 시점으로 갱신하므로 판정과 속도 보너스는 마지막 수정 기준
+   */
+  changeDirection(predictionType: GamePredictionType, currentPrice: number, timestamp: number = Date.now()): void {
+    this.predictionType = predictionType;
+    this.predictionPrice = currentPrice;
+    this.updateMetadata({ predictionTimestamp: timestamp, predictionPrice: currentPrice });
+    this.recordRevision('change', timestamp);
+  }
+
+  /**
+   * 예측 철회 (점수 없이 WITHDRAWN)
+   */
+  withdraw(): void {
+    this.status = GamePredictionStatus.WITHDRAWN;
+    this.resolvedAt = new Date();
+    this.recordRevision('withdraw');
+  }
+
+  /**
+   * 라운드 무효 처리 (정산 가격 누락/지연)
+   * 점수 없이 취소 상태로 바꾸며 점수 원장/랭킹/연승에는 반영하지 않음
+   */
+  voidResult(reason: GameVoidReason): void {
+    this.status = GamePredictionStatus.CANCELLED;
+    this.scoreEarned = 0;
+    this.resolvedAt = new Date();
+    this.updateMetadata({ voidReason: reason });
+  }
+
+  /**
+   * 점수 구성 내역
+   * 정산 시 저장된 내역을 사용하고, 내역 없이 정산된 이전 예측은 v1 규칙으로 다시 계산
+   */
+  getScoreBreakdown(): ScoreBreakdown {
+    if (this.metadata?.scoreBreakdown) {
+      return this.metadata.scoreBreakdown;
+    }
+
+    return calculatePredictionScore({
+      isCorrect: this.status === GamePredictionStatus.WIN,
+      isDraw: this.status === GamePredictionStatus.DRAW,
+      priceChangePercent: this.priceChangePercent ?? 0
+    }, 'v1');
+  }
+}
@@ -1,23 +1,32 @@
 // src/models/GameScore.ts
 
-import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, ManyToOne, JoinColumn, Index, Unique } from 'typeorm';
 import { Game } from './Game';
 import { User } from './User';
 import { GamePrediction } from './GamePrediction';
+import { ScoreBreakdown } from '../utils/scoring';
 
 /**
  * 점수 타입 열거형
  */
 export enum GameScoreType {
   PREDICTION_WIN = 'prediction_win',         // 예측 성공 점수
+  PREDICTION_LOSS = 'prediction_loss',       // 예측 실패 기록 (0점, 게임 수 집계용)
+  PREDICTION_DRAW = 'prediction_draw',       // 보합 기록 (0점, 게임 수 집계용)
+  STAKE_ESCROW = 'stake_escrow',             // 예측 스테이크 예치 (음수)
+  STAKE_PAYOUT = 'stake_payout',             // 스테이크 배당 (예치액 포함)
+  STAKE_REFUND = 'stake_refund',             // 스테이크 반환 (보합/무효/상대 없음)
   PREDICTION_ACCURACY = 'prediction_accuracy', // 예측 정확도 보너스
   STREAK_BONUS = 'streak_bonus',             // 연승 보너스
   SPEED_BONUS = 'speed_bonus',               // 빠른 예측 보너스
+  CONFIDENCE_BONUS = 'confidence_bonus',     // 예측 신뢰도 보너스
   FIRST_PLAY = 'first_play',                 // 첫 게임 보너스
   DAILY_BONUS = 'daily_bonus',               // 일일 보너스
   WEEKLY_BONUS = 'weekly_bonus',             // 주간 보너스
   PENALTY = 'penalty',                       // 패널티 (예: 어뷔징)
-  ADMIN_ADJUSTMENT = 'admin_adjustment'      // 관리자 조정
+  ADMIN_ADJUSTMENT = 'admin_adjustment',     // 관리자 조정
+  MISSION_REWARD = 'mission_reward',         // 미션 완료 보상
+  ACHIEVEMENT_REWARD = 'achievement_reward'  // 업적 달성 보상
 }
 
 /**
@@ -35,11 +44,18 @@ export enum GameScoreStatus {
  */
 export interface GameScoreMetadata {
   // 점수 계산 정보
+  scoringVersion?: string;         // 점수 규칙 버전 (utils/scoring)
+  scoreBreakdown?: ScoreBreakdown; // 예측 정산 점수 구성 전체
   baseScore?: number;              // 기본 점수
   bonusMultiplier?: number;        // 보너스 배수
   accuracyBonus?: number;          // 정확도 보너스
   speedBonus?: number;             // 속도 보너스
+  streakBonus?: number;            // 연승 보너스
   streakCount?: number;            // 연승 횟수
+  confidenceBonus?: number;        // 신뢰도 보너스 (실패 시 감점)
+  stakeWager?: number;             // 예치한 스테이크
+  stakeMode?: string;              // 스테이크 배당 방식 (parimutuel, fixed)
+  stakeOdds?: number;              // 고정 배당률 (fixed)
   
   // 예측 관련 정보
   predictionAccuracy?: number;     // 예측 정확도 (%)
@@ -74,9 +90,12 @@ export interface GameScoreMetadata {
 
 /**
  * 게임 점수 엔티티
- * 사용자의 게임 점수 이력을 관리하는 전용 모델
+ * 사용자 점수 원장 (추가 전용, 지급 1건당 1행)
+ * 기존 행의 점수는 수정하지 않으며 정정은 조정/패널티 항목을 추가해서 처리
+ * User.totalScore / gameCount / winCount 는 이 원장의 합계와 일치해야 함
  */
 @Entity('game_scores')
+@Unique(['predictionId', 'scoreType'])         // 예측당 지급 유형별 1건 (중복 정산 방지)
 @Index(['userId', 'createdAt'])                // 사용자별 점수 이력 조회용
 @Index(['gameId', 'userId'])                   // 게임별 사용자 점수 조회용
 @Index(['scoreType', 'status'])                // 점수 타입별 상태 조회용
@@ -138,7 +157,7 @@ export class GameScore {
   @Column({
     type: 'int',
     default: 0,
-    comment: '이 점수 이후의 총 점수'
+    comment: '이 점수 이후의 총 점수 (사용자 누적 잔액)'
   })
   totalPointsAfter: number;
 
@@ -226,6 +245,7 @@ export class GameScore {
       GameScoreType.PREDICTION_ACCURACY,
       GameScoreType.STREAK_BONUS,
       GameScoreType.SPEED_BONUS,
+      GameScoreType.CONFIDENCE_BONUS,
       GameScoreType.FIRST_PLAY,
       GameScoreType.DAILY_BONUS,
       GameScoreType.WEEKLY_BONUS
@@ -331,76 +351,4 @@ export class GameScore {
       penaltyReasons: [...currentReasons, reason]
     });
   }
-
-  /**
-   * 정적 메서드: 점수 계산
-   */
-  static calculatePredictionScore(
-    isCorrect: boolean,
-    accuracy: number,
-    speed: number,
-    streakCount: number = 0
-  ): { baseScore: number; bonuses: number; total: number } {
-    let baseScore = 0;
-    let bonuses = 0;
-
-    // 기본 점수
-    if (isCorrect) {
-      baseScore = 100;
-    }
-
-    // 정확도 보너스 (정확할수록 높은 점수)
-    if (isCorrect && accuracy > 0) {
-      bonuses += Math.min(accuracy * 0.5, 50); // 최대 50점
-    }
-
-    // 속도 보너스 (5초 이내 예측)
-    if (speed < 5000) {
-      bonuses += 20;
-    }
-
-    // 연승 보너스
-    if (streakCount > 0) {
-      bonuses += Math.min(streakCount * 10, 100); // 최대 100점
-    }
-    
-    const total = baseScore + bonuses;
-    return { baseScore, bonuses, total };
-    }
-    
-    // GameService에서 사용하는 속성 및 메서드
-    
-    /**
-     * rank 속성 (GameService 호환성)
-     */
-    @Column({ type: 'int', default: 0, comment: '랭킹 순위' })
-    rank: number = 0;
-    /**
-     * totalScore 별칭 (GameService 호환성)
-     */
-    get totalScore(): number {
-      return this.totalPointsAfter;
-    }
-    
-    /**
-     * 예측 결과 추가 메서드 (GameService 호환성)
-     */
-    addPredictionResult(isCorrect: boolean, score: number): void {
-       // 기존 점수에 새 점수 추가
-       this.points += score;
-       this.totalPointsAfter = this.points;
-       
-       // 상태 업데이트
-       this.status = GameScoreStatus.CONFIRMED;
-       this.confirmedAt = new Date();
-       
-       // 메타데이터 업데이트
-       this.updateMetadata({
-         lastPredictionResult: {
-           isCorrect,
-           score,
-           timestamp: Date.now()
-         }
-       });
-       }
-       }
\ No newline at end of file
+}
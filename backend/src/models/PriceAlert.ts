@@ -0,0 +1,123 @@
+// src/models/PriceAlert.ts
+
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { User } from './User';
+
+/**
+ * 가격 알림 조건
+ * - above: 가격이 목표 가격 이상
+ * - below: 가격이 목표 가격 이하
+ * - percent_change: 기준 가격 대비 변화율 절댓값이 changePercent 이상 (기준 가격은 알림 생성/재무장 시점 가격)
+ */
+export enum PriceAlertCondition {
+  ABOVE = 'above',
+  BELOW = 'below',
+  PERCENT_CHANGE = 'percent_change'
+}
+
+/**
+ * PriceAlert 엔티티
+ * 사용자가 등록한 심볼별 가격 알림
+ *
+ * 조건을 만족하면 발동하고 무장 해제(armed=false)되며, 한 번만 울리는 알림은 비활성화됨
+ * 반복 알림은 조건이 다시 풀리고(가격이 되돌아가거나 percent_change 는 즉시) 쿨다운이 지나야 다시 무장됨
+ */
+@Entity('price_alerts')
+@Index(['symbol', 'isActive'])
+@Index(['userId', 'createdAt'])
+export class PriceAlert {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  userId: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  @Column({ type: 'varchar', length: 10 })
+  symbol: string;
+
+  @Column({ type: 'enum', enum: PriceAlertCondition })
+  condition: PriceAlertCondition;
+
+  @Column({ type: 'decimal', precision: 20, scale: 8, nullable: true })
+  targetPrice?: number | null; // above/below 목표 가격
+
+  @Column({ type: 'decimal', precision: 8, scale: 2, nullable: true })
+  changePercent?: number | null; // percent_change 기준 변화율 (%)
+
+  @Column({ type: 'decimal', precision: 20, scale: 8, nullable: true })
+  referencePrice?: number | null; // percent_change 기준 가격
+
+  @Column({ type: 'boolean', default: false })
+  recurring: boolean; // false 면 한 번 발동 후 비활성화
+
+  @Column({ type: 'int' })
+  cooldownMs: number; // 반복 알림의 최소 발동 간격
+
+  @Column({ type: 'boolean', default: true })
+  isActive: boolean;
+
+  @Column({ type: 'boolean', default: true })
+  armed: boolean; // 다음 가격 갱신에서 발동할 수 있는 상태
+
+  @Column({ type: 'varchar', length: 200, nullable: true })
+  note?: string | null;
+
+  @Column({ type: 'int', default: 0 })
+  triggerCount: number;
+
+  @Column({ type: 'timestamp', nullable: true })
+  lastTriggeredAt?: Date | null;
+
+  @Column({ type: 'decimal', precision: 20, scale: 8, nullable: true })
+  lastTriggeredPrice?: number | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+
+  /**
+   * 현재 가격이 조건을 만족하는지 여부
+   */
+  isSatisfiedBy(price: number): boolean {
+    if (this.condition === PriceAlertCondition.ABOVE) {
+      return price >= Number(this.targetPrice);
+    }
+    if (this.condition === PriceAlertCondition.BELOW) {
+      return price <= Number(this.targetPrice);
+    }
+
+    const reference = Number(this.referencePrice);
+    return reference > 0 && Math.abs((price - reference) / reference) * 100 >= Number(this.changePercent);
+  }
+
+  /**
+   * JSON 직렬화 (decimal 컬럼은 문자열로 오므로 숫자로 변환)
+   */
+  toJSON(): object {
+    const toNumber = (value?: number | null): number | null => (value === null || value === undefined ? null : Number(value));
+
+    return {
+      id: this.id,
+      tokenSymbol: this.symbol,
+      condition: this.condition,
+      targetPrice: toNumber(this.targetPrice),
+      changePercent: toNumber(this.changePercent),
+      referencePrice: toNumber(this.referencePrice),
+      recurring: this.recurring,
+      cooldownMs: this.cooldownMs,
+      isActive: this.isActive,
+      armed: this.armed,
+      note: this.note ?? null,
+      triggerCount: this.triggerCount,
+      lastTriggeredAt: this.lastTriggeredAt ?? null,
+      lastTriggeredPrice: toNumber(this.lastTriggeredPrice),
+      createdAt: this.createdAt
+    };
+  }
+}
@@ -0,0 +1,90 @@
+// src/models/PriceAlertNotification.ts
+
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { PriceAlert, PriceAlertCondition } from './PriceAlert';
+import { User } from './User';
+
+/**
+ * PriceAlertNotification 엔티티
+ * 가격 알림 발동 기록 (알림 발동과 같은 트랜잭션에서 저장하는 전송 대기함)
+ *
+ * 발동 시점의 조건/가격을 복사해 두므로 알림을 수정/삭제해도 내용이 바뀌지 않음
+ * 연결된 WebSocket 이 하나도 없어 전달하지 못한 발동은 deliveredAt 이 비어 있고,
+ * notifications 채널을 다시 구독하거나 알림 기록 API 로 확인할 때 전달됨
+ */
+@Entity('price_alert_notifications')
+@Index(['userId', 'triggeredAt'])
+@Index(['userId', 'deliveredAt'])
+export class PriceAlertNotification {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  userId: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  @Column({ type: 'uuid', nullable: true })
+  alertId?: string | null; // 알림이 삭제되면 null
+
+  @ManyToOne(() => PriceAlert, { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'alertId' })
+  alert?: PriceAlert;
+
+  @Column({ type: 'varchar', length: 10 })
+  symbol: string;
+
+  @Column({ type: 'enum', enum: PriceAlertCondition })
+  condition: PriceAlertCondition;
+
+  @Column({ type: 'decimal', precision: 20, scale: 8 })
+  price: number; // 발동 시점 가격
+
+  @Column({ type: 'decimal', precision: 20, scale: 8, nullable: true })
+  targetPrice?: number | null;
+
+  @Column({ type: 'decimal', precision: 8, scale: 2, nullable: true })
+  changePercent?: number | null;
+
+  @Column({ type: 'decimal', precision: 20, scale: 8, nullable: true })
+  referencePrice?: number | null; // percent_change 발동 직전 기준 가격
+
+  @Column({ type: 'boolean', default: false })
+  recurring: boolean; // false 면 이번 발동으로 알림이 비활성화됨
+
+  @Column({ type: 'varchar', length: 200, nullable: true })
+  note?: string | null;
+
+  @Column({ type: 'timestamp', precision: 3 })
+  triggeredAt: Date;
+
+  @Column({ type: 'timestamp', precision: 3, nullable: true })
+  deliveredAt?: Date | null; // WebSocket 으로 전달했거나 사용자가 확인한 시각
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  /**
+   * JSON 직렬화 (decimal 컬럼은 문자열로 오므로 숫자로 변환)
+   */
+  toJSON(): object {
+    const toNumber = (value?: number | null): number | null => (value === null || value === undefined ? null : Number(value));
+
+    return {
+      id: this.id,
+      alertId: this.alertId ?? null,
+      tokenSymbol: this.symbol,
+      condition: this.condition,
+      price: Number(this.price),
+      targetPrice: toNumber(this.targetPrice),
+      changePercent: toNumber(this.changePercent),
+      referencePrice: toNumber(this.referencePrice),
+      recurring: this.recurring,
+      note: this.note ?? null,
+      triggeredAt: this.triggeredAt,
+      deliveredAt: this.deliveredAt ?? null
+    };
+  }
+}
@@ -0,0 +1,122 @@
+// src/models/PriceCandle.ts
+
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, Index, Unique } from 'typeorm';
+
+/**
+ * 캔들 간격 열거형
+ */
+export enum CandleInterval {
+  ONE_MINUTE = '1m',
+  FIVE_MINUTES = '5m',
+  ONE_HOUR = '1h',
+  ONE_DAY = '1d'
+}
+
+/**
+ * 캔들 출처
+ * - ticks: 기록한 틱으로 만든 1분봉
+ * - rollup: 한 단계 작은 캔들을 합친 캔들
+ * - backfill: 공백 구간을 가격 제공자 과거 데이터로 채운 캔들
+ */
+export enum CandleSource {
+  TICKS = 'ticks',
+  ROLLUP = 'rollup',
+  BACKFILL = 'backfill'
+}
+
+/**
+ * 간격별 길이 (밀리초)
+ */
+export const CANDLE_INTERVAL_MS: Record<CandleInterval, number> = {
+  [CandleInterval.ONE_MINUTE]: 60 * 1000,
+  [CandleInterval.FIVE_MINUTES]: 5 * 60 * 1000,
+  [CandleInterval.ONE_HOUR]: 60 * 60 * 1000,
+  [CandleInterval.ONE_DAY]: 24 * 60 * 60 * 1000
+};
+
+/**
+ * 롤업 원본 간격 (1분봉 → 5분봉 → 1시간봉 → 일봉)
+ */
+export const CANDLE_ROLLUP_SOURCES: Partial<Record<CandleInterval, CandleInterval>> = {
+  [CandleInterval.FIVE_MINUTES]: CandleInterval.ONE_MINUTE,
+  [CandleInterval.ONE_HOUR]: CandleInterval.FIVE_MINUTES,
+  [CandleInterval.ONE_DAY]: CandleInterval.ONE_HOUR
+};
+
+/**
+ * PriceCandle 엔티티
+ * 심볼/간격별 OHLCV 캔들 (openTime 은 간격 경계에 맞춘 UTC 시각)
+ * 차트/가격 히스토리 API 는 외부 API 대신 이 테이블에서 조회
+ */
+@Entity('price_candles')
+@Unique(['symbol', 'interval', 'openTime'])
+@Index(['interval', 'openTime'])
+export class PriceCandle {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', length: 10 })
+  symbol: string;
+
+  @Column({ type: 'enum', enum: CandleInterval })
+  interval: CandleInterval;
+
+  @Column({ type: 'timestamp', precision: 3 })
+  openTime: Date;
+
+  @Column({ type: 'decimal', precision: 20, scale: 8 })
+  open: number;
+
+  @Column({ type: 'decimal', precision: 20, scale: 8 })
+  high: number;
+
+  @Column({ type: 'decimal', precision: 20, scale: 8 })
+  low: number;
+
+  @Column({ type: 'decimal', precision: 20, scale: 8 })
+  close: number;
+
+  @Column({ type: 'decimal', precision: 30, scale: 8, default: 0 })
+  volume: number; // 제공자 과거 데이터의 거래량 (틱으로 만든 캔들은 0)
+
+  @Column({ type: 'int', default: 0 })
+  tickCount: number; // 캔들에 반영된 틱 수
+
+  @Column({ type: 'enum', enum: CandleSource })
+  source: CandleSource;
+
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  provider?: string | null; // 틱 집계 제공자 또는 공백을 채운 제공자
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+
+  /**
+   * 시각이 속한 캔들의 시작 시각 (밀리초)
+   */
+  static floorTime(time: number, interval: CandleInterval): number {
+    const length = CANDLE_INTERVAL_MS[interval];
+    return Math.floor(time / length) * length;
+  }
+
+  /**
+   * JSON 직렬화 (decimal 컬럼은 문자열로 오므로 숫자로 변환)
+   */
+  toJSON(): object {
+    return {
+      symbol: this.symbol,
+      interval: this.interval,
+      openTime: this.openTime,
+      open: Number(this.open),
+      high: Number(this.high),
+      low: Number(this.low),
+      close: Number(this.close),
+      volume: Number(this.volume),
+      tickCount: this.tickCount,
+      source: this.source
+    };
+  }
+}
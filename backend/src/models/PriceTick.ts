@@ -0,0 +1,33 @@
+// src/models/PriceTick.ts
+
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, Index } from 'typeorm';
+
+/**
+ * PriceTick 엔티티
+ * 오라클 집계 가격을 기록 주기마다 저장한 원본 틱 (1분봉의 재료, 정산 가격 감사용)
+ * 보존 기간이 지나면 삭제되며 그 이후에는 캔들만 남음
+ */
+@Entity('price_ticks')
+@Index(['symbol', 'observedAt'])
+export class PriceTick {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', length: 10 })
+  symbol: string;
+
+  @Column({ type: 'decimal', precision: 20, scale: 8 })
+  price: number;
+
+  @Column({ type: 'varchar', length: 100 })
+  provider: string; // 채택된 제공자 (쉼표 구분)
+
+  @Column({ type: 'boolean', default: false })
+  degraded: boolean; // 목표 합의 소스 수를 채우지 못한 가격
+
+  @Column({ type: 'timestamp', precision: 3 })
+  observedAt: Date; // 오라클이 가격을 집계한 시각
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
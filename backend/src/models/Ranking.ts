@@ -8,7 +8,9 @@ export enum RankingPeriod {
   DAILY = 'daily',
   WEEKLY = 'weekly', 
   MONTHLY = 'monthly',
-  ALL_TIME = 'all_time'
+  ALL_TIME = 'all_time',
+  SEASON = 'season', // 시즌 최종 순위 (periodKey = Season.periodKey)
+  TOURNAMENT = 'tournament' // 토너먼트 최종 순위 (periodKey = Tournament.periodKey)
 }
 
 /**
@@ -29,7 +31,8 @@ export enum AirdropStatus {
   PENDING = 'pending',
   PROCESSING = 'processing',
   COMPLETED = 'completed',
-  FAILED = 'failed'
+  FAILED = 'failed',
+  NEEDS_REVIEW = 'needs_review' // 체인 반영 여부를 확정할 수 없어 수동 확인 필요 (재시도하지 않음)
 }
 
 /**
@@ -58,6 +61,8 @@ export interface AirdropInfo {
   processedAt?: Date;
   failureReason?: string;
   retryCount: number;
+  tier?: number;
+  rewards?: object[]; // 토큰별 전송 내역
 }
 
 /**
@@ -73,7 +78,7 @@ export class Ranking {
   @PrimaryGeneratedColumn('uuid')
   id: string;
 
-  @Column({ type: 'varchar', length: 255 })
+  @Column({ type: 'uuid' })
   @Index()
   userId: string;
 
@@ -97,7 +102,7 @@ export class Ranking {
   rank: number; // 해당 기간 내 순위
 
   @Column({ type: 'int', nullable: true })
-  previousRank?: number; // 이전 기간 순위
+  previousRank?: number; // 직전 순위 (순위가 바뀔 때 갱신, 순위 변동 표시용)
 
   @Column({ type: 'decimal', precision: 15, scale: 2 })
   @Index()
@@ -130,6 +135,9 @@ export class Ranking {
   @Column({ type: 'int', default: 0 })
   totalPlayTime: number; // 총 플레이 시간 (분)
 
+  @Column({ type: 'timestamp', nullable: true })
+  scoreReachedAt?: Date | null; // 현재 총점에 도달한 정산 시각 (총점이 오를 때만 갱신, 동점자 규칙 earliest_reached)
+
   // 에어드롭 관련 정보
   @Column({ 
     type: 'enum', 
@@ -153,6 +161,12 @@ export class Ranking {
   @Column({ type: 'int', default: 0 })
   airdropRetryCount: number; // 에어드롭 재시도 횟수
 
+  @Column({ type: 'int', nullable: true })
+  rewardTier?: number; // 지급 대상 확정 시 보상 테이블 기준 등급
+
+  @Column({ type: 'uuid', nullable: true })
+  rewardTableId?: string; // 지급 기준이 된 보상 테이블
+
   // 상세 통계 (JSON)
   @Column({ type: 'json', nullable: true })
   detailedStats?: RankingStats;
@@ -204,42 +218,17 @@ export class Ranking {
   }
 
   /**
-   * 에어드롭 자격 여부 확인
+   * 에어드롭 자격 여부 확인 (지급 대상 확정 이후)
    */
   get isEligibleForAirdrop(): boolean {
-    // 1등 1명, 2등 50명, 3등 500명, 4등 1000명
-    if (this.rank === 1) return true;
-    if (this.rank <= 51) return true; // 2-51등
-    if (this.rank <= 551) return true; // 52-551등  
-    if (this.rank <= 1551) return true; // 552-1551등
-    return false;
+    return this.rewardTier !== null && this.rewardTier !== undefined;
   }
 
   /**
-   * 에어드롭 등급 계산
+   * 에어드롭 등급 (보상 테이블 기준, 지급 대상 확정 전에는 null)
    */
-  get airdropTier(): 1 | 2 | 3 | 4 | null {
-    if (this.rank === 1) return 1;
-    if (this.rank <= 51) return 2;
-    if (this.rank <= 551) return 3;
-    if (this.rank <= 1551) return 4;
-    return null;
-  }
-
-  /**
-   * 기본 에어드롭 금액 계산 (환경 변수 기반)
-   */
-  get baseAirdropAmount(): number {
-    const tier = this.airdropTier;
-    if (!tier) return 0;
-
-    switch (tier) {
-      case 1: return parseFloat(process.env.AIRDROP_1ST_PLACE_AMOUNT || '10000');
-      case 2: return parseFloat(process.env.AIRDROP_2ND_PLACE_AMOUNT || '1000'); 
-      case 3: return parseFloat(process.env.AIRDROP_3RD_PLACE_AMOUNT || '100');
-      case 4: return parseFloat(process.env.AIRDROP_4TH_PLACE_AMOUNT || '10');
-      default: return 0;
-    }
+  get airdropTier(): number | null {
+    return this.rewardTier ?? null;
   }
 
   /**
@@ -302,7 +291,7 @@ export class Ranking {
       airdropAmount: Number(this.airdropAmount),
       airdropTier: this.airdropTier,
       isEligibleForAirdrop: this.isEligibleForAirdrop,
-      baseAirdropAmount: this.baseAirdropAmount,
+      rewardTableId: this.rewardTableId,
       transactionHash: this.transactionHash,
       airdropProcessedAt: this.airdropProcessedAt,
       airdropFailureReason: this.airdropFailureReason,
@@ -346,7 +335,8 @@ export class Ranking {
       transactionHash: this.transactionHash,
       processedAt: this.airdropProcessedAt,
       failureReason: this.airdropFailureReason,
-      retryCount: this.airdropRetryCount
+      retryCount: this.airdropRetryCount,
+      tier: this.airdropTier ?? undefined
     };
   }
 
@@ -0,0 +1,196 @@
+// src/models/RewardTable.ts
+
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, Index } from 'typeorm';
+import { RankingPeriod } from './Ranking';
+
+/**
+ * 동점자 순위 결정 규칙 열거형
+ * 총점이 같은 사용자 사이에서 앞에서부터 순서대로 비교
+ */
+export enum RewardTieBreaker {
+  HIGHER_WIN_RATE = 'higher_win_rate',   // 승률이 높은 사용자 우선
+  MORE_GAMES = 'more_games',             // 게임 수가 많은 사용자 우선
+  FEWER_GAMES = 'fewer_games',           // 게임 수가 적은 사용자 우선 (효율 우선)
+  BEST_STREAK = 'best_streak',           // 최고 연승이 높은 사용자 우선
+  EARLIEST_REACHED = 'earliest_reached'  // 해당 점수에 먼저 도달한 사용자 우선
+}
+
+/**
+ * 등급별 지급 토큰
+ */
+export interface RewardTokenAmount {
+  token: string;   // 토큰 심볼 (config/blockchain.ts airdropTokens 에 등록된 심볼)
+  amount: number;  // 1인당 지급 수량
+}
+
+/**
+ * 보상 등급 정의
+ */
+export interface RewardTierDefinition {
+  tier: number;      // 등급 (1등급이 가장 높음)
+  name: string;      // 표시 이름
+  rankFrom: number;  // 시작 순위 (포함)
+  rankTo: number;    // 종료 순위 (포함)
+  rewards: RewardTokenAmount[];
+}
+
+/**
+ * RewardTable 엔티티
+ * 기간(또는 특정 기간 키)별 랭킹 보상 등급표
+ * 스케줄 조회, 대상자 조회, 시뮬레이션, 실제 지급이 모두 이 테이블을 기준으로 함
+ */
+@Entity('reward_tables')
+@Index(['period', 'periodKey', 'isActive'])
+export class RewardTable {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', length: 100 })
+  name: string;
+
+  @Column({
+    type: 'enum',
+    enum: RankingPeriod
+  })
+  period: RankingPeriod;
+
+  @Column({
+    type: 'varchar',
+    length: 20,
+    nullable: true,
+    comment: '특정 기간 키 (비어있으면 해당 기간 유형의 기본 테이블)'
+  })
+  periodKey?: string;
+
+  @Column({ type: 'json' })
+  tiers: RewardTierDefinition[];
+
+  @Column({ type: 'json' })
+  tieBreakers: RewardTieBreaker[];
+
+  @Column({ type: 'boolean', default: true })
+  isActive: boolean;
+
+  @Column({ type: 'int', default: 1 })
+  version: number; // 수정될 때마다 증가
+
+  @Column({ type: 'uuid', nullable: true })
+  updatedBy?: string; // 마지막으로 수정한 관리자
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+
+  /**
+   * 순위에 해당하는 보상 등급 조회
+   */
+  getTierForRank(rank: number): RewardTierDefinition | null {
+    return this.tiers.find(tier => rank >= tier.rankFrom && rank <= tier.rankTo) || null;
+  }
+
+  /**
+   * 보상을 받는 마지막 순위
+   */
+  get maxRewardedRank(): number {
+    return this.tiers.reduce((max, tier) => Math.max(max, tier.rankTo), 0);
+  }
+
+  /**
+   * 토큰별 총 지급량 (모든 등급 인원이 채워졌을 때)
+   */
+  get tokenTotals(): Record<string, number> {
+    const totals: Record<string, number> = {};
+
+    for (const tier of this.tiers) {
+      const recipients = tier.rankTo - tier.rankFrom + 1;
+      for (const reward of tier.rewards) {
+        totals[reward.token] = (totals[reward.token] || 0) + reward.amount * recipients;
+      }
+    }
+
+    return totals;
+  }
+
+  /**
+   * 등급표 유효성 검사
+   * @param supportedTokens 지급 가능한 토큰 심볼 목록
+   * @returns 오류 메시지 목록 (비어있으면 유효)
+   */
+  static validate(tiers: RewardTierDefinition[], tieBreakers: RewardTieBreaker[], supportedTokens: string[]): string[] {
+    const errors: string[] = [];
+
+    if (!Array.isArray(tiers) || tiers.length === 0) {
+      return ['보상 등급이 최소 1개 이상 필요합니다.'];
+    }
+
+    const sorted = [...tiers].sort((a, b) => a.rankFrom - b.rankFrom);
+    let previousRankTo = 0;
+
+    for (const tier of sorted) {
+      if (!Number.isInteger(tier.rankFrom) || !Number.isInteger(tier.rankTo) || tier.rankFrom < 1 || tier.rankTo < tier.rankFrom) {
+        errors.push(`${tier.tier}등급의 순위 범위가 올바르지 않습니다.`);
+      } else if (tier.rankFrom <= previousRankTo) {
+        errors.push(`${tier.tier}등급의 순위 범위가 다른 등급과 겹칩니다.`);
+      }
+      previousRankTo = Math.max(previousRankTo, tier.rankTo);
+
+      if (!Array.isArray(tier.rewards) || tier.rewards.length === 0) {
+        errors.push(`${tier.tier}등급에 지급 토큰이 없습니다.`);
+        continue;
+      }
+
+      const tokens = new Set<string>();
+      for (const reward of tier.rewards) {
+        if (!supportedTokens.includes(reward.token)) {
+          errors.push(`${tier.tier}등급: 지원하지 않는 토큰입니다 (${reward.token})`);
+        }
+        if (tokens.has(reward.token)) {
+          errors.push(`${tier.tier}등급: ${reward.token} 토큰이 중복되었습니다.`);
+        }
+        if (!(Number(reward.amount) > 0)) {
+          errors.push(`${tier.tier}등급: ${reward.token} 지급 수량은 0보다 커야 합니다.`);
+        }
+        tokens.add(reward.token);
+      }
+    }
+
+    if (new Set(tiers.map(tier => tier.tier)).size !== tiers.length) {
+      errors.push('등급 번호가 중복되었습니다.');
+    }
+
+    const validTieBreakers = Object.values(RewardTieBreaker) as string[];
+    for (const tieBreaker of tieBreakers || []) {
+      if (!validTieBreakers.includes(tieBreaker)) {
+        errors.push(`지원하지 않는 동점자 규칙입니다: ${tieBreaker}`);
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * JSON 직렬화
+   */
+  toJSON(): object {
+    return {
+      id: this.id,
+      name: this.name,
+      period: this.period,
+      periodKey: this.periodKey || null,
+      tiers: [...this.tiers].sort((a, b) => a.tier - b.tier).map(tier => ({
+        ...tier,
+        recipients: tier.rankTo - tier.rankFrom + 1
+      })),
+      tieBreakers: this.tieBreakers,
+      maxRewardedRank: this.maxRewardedRank,
+      tokenTotals: this.tokenTotals,
+      isActive: this.isActive,
+      version: this.version,
+      updatedBy: this.updatedBy,
+      createdAt: this.createdAt,
+      updatedAt: this.updatedAt
+    };
+  }
+}
@@ -0,0 +1,116 @@
+// src/models/Season.ts
+
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, Index } from 'typeorm';
+
+/**
+ * 시즌 상태 열거형
+ * SCHEDULED → ACTIVE → FINALIZING → CLOSED
+ */
+export enum SeasonStatus {
+  SCHEDULED = 'scheduled',   // 시작 전
+  ACTIVE = 'active',         // 진행 중
+  FINALIZING = 'finalizing', // 최종 순위 확정 중
+  CLOSED = 'closed'          // 종료 (최종 순위 스냅샷 생성 완료)
+}
+
+/**
+ * Season 엔티티
+ * 시즌 기간, 상태, 보상 테이블, 최종 순위 스냅샷 정보를 관리
+ * 시즌 순위는 Ranking(period=season, periodKey) 및 SeasonStanding 에 저장됨
+ */
+@Entity('seasons')
+@Index(['status', 'startDate'])
+export class Season {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'int', unique: true })
+  number: number; // 시즌 번호 (1부터 증가)
+
+  @Column({ type: 'varchar', length: 100 })
+  name: string;
+
+  @Column({ type: 'text', nullable: true })
+  description?: string;
+
+  @Column({
+    type: 'enum',
+    enum: SeasonStatus,
+    default: SeasonStatus.SCHEDULED
+  })
+  status: SeasonStatus;
+
+  @Column({ type: 'timestamp' })
+  startDate: Date;
+
+  @Column({ type: 'timestamp' })
+  endDate: Date;
+
+  @Column({
+    type: 'varchar',
+    length: 20,
+    unique: true,
+    comment: '시즌 랭킹/보상 테이블 기간 키 (예: S1)'
+  })
+  periodKey: string;
+
+  @Column({ type: 'uuid', nullable: true })
+  rewardTableId?: string;
+
+  @Column({ type: 'int', default: 0 })
+  participantCount: number; // 종료 시 확정된 참가자 수
+
+  @Column({ type: 'varchar', length: 64, nullable: true })
+  snapshotHash?: string; // 최종 순위 스냅샷 SHA-256 (변조 확인용)
+
+  @Column({ type: 'timestamp', nullable: true })
+  closedAt?: Date;
+
+  @Column({ type: 'uuid', nullable: true })
+  createdBy?: string;
+
+  @Column({ type: 'uuid', nullable: true })
+  closedBy?: string;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+
+  /**
+   * 시즌 종료 시각이 지났는지 여부
+   */
+  get hasEnded(): boolean {
+    return Date.now() >= new Date(this.endDate).getTime();
+  }
+
+  /**
+   * 시즌 남은 시간 (밀리초)
+   */
+  get timeRemaining(): number {
+    return Math.max(0, new Date(this.endDate).getTime() - Date.now());
+  }
+
+  /**
+   * JSON 직렬화
+   */
+  toJSON(): object {
+    return {
+      id: this.id,
+      number: this.number,
+      name: this.name,
+      description: this.description,
+      status: this.status,
+      startDate: this.startDate,
+      endDate: this.endDate,
+      periodKey: this.periodKey,
+      rewardTableId: this.rewardTableId,
+      participantCount: this.participantCount,
+      snapshotHash: this.snapshotHash,
+      closedAt: this.closedAt,
+      timeRemaining: this.timeRemaining,
+      createdAt: this.createdAt
+    };
+  }
+}
@@ -0,0 +1,82 @@
+// src/models/SeasonStanding.ts
+
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, ManyToOne, JoinColumn, Index, Unique } from 'typeorm';
+import { Season } from './Season';
+import { User } from './User';
+import { RewardTokenAmount } from './RewardTable';
+
+/**
+ * SeasonStanding 엔티티
+ * 시즌 종료 시 생성되는 최종 순위 스냅샷 (생성 후 수정하지 않음)
+ */
+@Entity('season_standings')
+@Unique(['seasonId', 'userId'])
+@Unique(['seasonId', 'rank'])
+export class SeasonStanding {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  @Index()
+  seasonId: string;
+
+  @Column({ type: 'uuid' })
+  userId: string;
+
+  @Column({ type: 'int' })
+  rank: number;
+
+  @Column({ type: 'decimal', precision: 15, scale: 2 })
+  totalScore: number;
+
+  @Column({ type: 'int' })
+  totalGames: number;
+
+  @Column({ type: 'int' })
+  winCount: number;
+
+  @Column({ type: 'int' })
+  loseCount: number;
+
+  @Column({ type: 'int' })
+  drawCount: number;
+
+  @Column({ type: 'decimal', precision: 5, scale: 2 })
+  winRate: number;
+
+  @Column({ type: 'int', nullable: true })
+  rewardTier?: number;
+
+  @Column({ type: 'json', nullable: true })
+  rewards?: RewardTokenAmount[];
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @ManyToOne(() => Season, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'seasonId' })
+  season: Season;
+
+  @ManyToOne(() => User)
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  /**
+   * JSON 직렬화
+   */
+  toJSON(): object {
+    return {
+      rank: this.rank,
+      userId: this.userId,
+      nickname: this.user?.nickname,
+      totalScore: Number(this.totalScore),
+      totalGames: this.totalGames,
+      winCount: this.winCount,
+      loseCount: this.loseCount,
+      drawCount: this.drawCount,
+      winRate: Number(this.winRate),
+      rewardTier: this.rewardTier ?? null,
+      rewards: this.rewards || []
+    };
+  }
+}
@@ -0,0 +1,97 @@
+// src/models/SettlementRecord.ts
+
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, ManyToOne, JoinColumn, Index, Unique } from 'typeorm';
+import { Game, PriceSourceQuote } from './Game';
+
+/**
+ * 정산 가격 종류
+ */
+export enum SettlementPriceKind {
+  START = 'start', // 예측 마감 시 고정한 시작 가격
+  END = 'end'      // 종료 시각의 정산 가격
+}
+
+/**
+ * SettlementRecord 엔티티
+ * 라운드 시작/종료 가격의 서명된 기록 (생성 후 수정하지 않음)
+ * 모든 기록은 sequence 순으로 이전 기록의 해시를 포함하는 해시 체인을 이룸
+ */
+@Entity('settlement_records')
+@Unique(['sequence'])
+@Unique(['gameId', 'kind'])
+export class SettlementRecord {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'int' })
+  sequence: number; // 전체 기록 순번 (1부터)
+
+  @Column({ type: 'uuid' })
+  @Index()
+  gameId: string;
+
+  @Column({ type: 'enum', enum: SettlementPriceKind })
+  kind: SettlementPriceKind;
+
+  @Column({ type: 'varchar', length: 10 })
+  symbol: string;
+
+  @Column({ type: 'decimal', precision: 20, scale: 8 })
+  price: number; // 집계 가격
+
+  @Column({ type: 'timestamp', precision: 3 })
+  scheduledAt: Date; // 가격을 확정해야 하는 시각 (예측 마감 / 라운드 종료 예정 시각)
+
+  @Column({ type: 'timestamp', precision: 3 })
+  observedAt: Date; // 오라클이 가격을 집계한 시각
+
+  @Column({ type: 'varchar', length: 100 })
+  aggregationMethod: string; // 예: median(quorum=2,maxDeviation=1%)
+
+  @Column({ type: 'json' })
+  quotes: PriceSourceQuote[]; // 소스별 조회 기록 (채택/제외 포함)
+
+  @Column({ type: 'varchar', length: 64, nullable: true })
+  predictionsHash?: string; // 종료 기록만: 채점 대상 예측의 판정 근거(기준 가격, 접수 시각) 해시
+
+  @Column({ type: 'varchar', length: 64, nullable: true })
+  previousHash?: string; // 직전 기록의 해시 (첫 기록은 null)
+
+  @Column({ type: 'varchar', length: 64 })
+  hash: string; // 기록 내용 + previousHash 의 SHA-256
+
+  @Column({ type: 'varchar', length: 132 })
+  signature: string; // hash 에 대한 서명 (EIP-191 personal_sign)
+
+  @Column({ type: 'varchar', length: 42 })
+  signer: string; // 서명 주소
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @ManyToOne(() => Game, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'gameId' })
+  game: Game;
+
+  /**
+   * JSON 직렬화
+   */
+  toJSON(): object {
+    return {
+      sequence: this.sequence,
+      gameId: this.gameId,
+      kind: this.kind,
+      symbol: this.symbol,
+      price: Number(this.price),
+      scheduledAt: this.scheduledAt,
+      observedAt: this.observedAt,
+      aggregationMethod: this.aggregationMethod,
+      quotes: this.quotes,
+      predictionsHash: this.predictionsHash ?? null,
+      previousHash: this.previousHash ?? null,
+      hash: this.hash,
+      signature: this.signature,
+      signer: this.signer
+    };
+  }
+}
@@ -0,0 +1,184 @@
+// src/models/Tournament.ts
+
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, OneToMany, Index } from 'typeorm';
+import { MissionType } from '../types/mission.types';
+import { TournamentEntry } from './TournamentEntry';
+import { TournamentRound } from './TournamentRound';
+
+/**
+ * 토너먼트 상태 열거형
+ * SCHEDULED → REGISTRATION → LIVE → FINALIZING → FINISHED
+ * REGISTRATION → CANCELLED (등록 마감 시 최소 참가자 미달)
+ */
+export enum TournamentStatus {
+  SCHEDULED = 'scheduled',       // 등록 시작 전
+  REGISTRATION = 'registration', // 참가 등록 중
+  LIVE = 'live',                 // 라운드 진행 중
+  FINALIZING = 'finalizing',     // 최종 순위 확정 중
+  FINISHED = 'finished',         // 종료 (최종 순위와 토너먼트 랭킹 기록 완료)
+  CANCELLED = 'cancelled'        // 시작하지 못하고 취소
+}
+
+/**
+ * 토너먼트 방식
+ * - elimination: 라운드마다 방향을 맞히지 못한 참가자 탈락 (남은 참가자가 모두 틀리면 아무도 탈락하지 않음)
+ * - cumulative: 모든 라운드의 예측 점수 합계로 순위 결정
+ */
+export enum TournamentFormat {
+  ELIMINATION = 'elimination',
+  CUMULATIVE = 'cumulative'
+}
+
+/**
+ * 참가 조건
+ */
+export interface TournamentRequirements {
+  missions?: MissionType[]; // 완료해야 하는 미션 유형
+  minGames?: number;        // 최소 참여 게임 수 (users.gameCount)
+}
+
+/**
+ * Tournament 엔티티
+ * 등록 기간, 참가 조건, 고정된 라운드 수와 진행 방식을 가진 토너먼트
+ * 최종 순위는 TournamentEntry 와 Ranking(period=tournament, periodKey) 에 기록되어 에어드롭 지급 대상이 됨
+ */
+@Entity('tournaments')
+@Index(['status', 'registrationOpensAt'])
+export class Tournament {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'int', unique: true })
+  number: number; // 토너먼트 번호 (1부터 증가)
+
+  @Column({ type: 'varchar', length: 100 })
+  name: string;
+
+  @Column({ type: 'text', nullable: true })
+  description?: string;
+
+  @Column({
+    type: 'enum',
+    enum: TournamentStatus,
+    default: TournamentStatus.SCHEDULED
+  })
+  status: TournamentStatus;
+
+  @Column({
+    type: 'enum',
+    enum: TournamentFormat,
+    default: TournamentFormat.CUMULATIVE
+  })
+  format: TournamentFormat;
+
+  @Column({ type: 'varchar', length: 10 })
+  symbol: string;
+
+  @Column({ type: 'varchar', length: 8 })
+  tier: string; // 토너먼트 라운드 길이 등급 (1m, 5m, 15m, 1h)
+
+  @Column({ type: 'int' })
+  roundCount: number; // 치를 라운드 수 (무효 라운드 제외)
+
+  @Column({ type: 'timestamp' })
+  registrationOpensAt: Date;
+
+  @Column({ type: 'timestamp' })
+  registrationClosesAt: Date; // 등록 마감 = 첫 라운드 배정 시작
+
+  @Column({ type: 'json', nullable: true })
+  requirements?: TournamentRequirements;
+
+  @Column({ type: 'int', default: 2 })
+  minEntrants: number;
+
+  @Column({ type: 'int', nullable: true })
+  maxEntrants?: number; // 비어있으면 제한 없음
+
+  @Column({
+    type: 'varchar',
+    length: 20,
+    unique: true,
+    comment: '토너먼트 랭킹/보상 테이블 기간 키 (예: T1)'
+  })
+  periodKey: string;
+
+  @Column({ type: 'uuid', nullable: true })
+  rewardTableId?: string;
+
+  @Column({ type: 'int', default: 0 })
+  entrantCount: number;
+
+  @Column({ type: 'int', default: 0 })
+  roundsPlayed: number; // 판정된 라운드 수 (무효 라운드 제외)
+
+  @Column({ type: 'int', default: 0 })
+  roundsAssigned: number; // 배정한 라운드 수 (무효 라운드 포함)
+
+  @Column({ type: 'timestamp', nullable: true })
+  startedAt?: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  finishedAt?: Date;
+
+  @Column({ type: 'uuid', nullable: true })
+  createdBy?: string;
+
+  @OneToMany(() => TournamentEntry, entry => entry.tournament)
+  entries: TournamentEntry[];
+
+  @OneToMany(() => TournamentRound, round => round.tournament)
+  rounds: TournamentRound[];
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+
+  /**
+   * 참가 등록 가능 여부
+   */
+  get isRegistrationOpen(): boolean {
+    const now = Date.now();
+    return this.status === TournamentStatus.REGISTRATION &&
+      now >= new Date(this.registrationOpensAt).getTime() &&
+      now < new Date(this.registrationClosesAt).getTime();
+  }
+
+  /**
+   * 정원이 찼는지 여부
+   */
+  get isFull(): boolean {
+    return !!this.maxEntrants && this.entrantCount >= this.maxEntrants;
+  }
+
+  /**
+   * JSON 직렬화
+   */
+  toJSON(): object {
+    return {
+      id: this.id,
+      number: this.number,
+      name: this.name,
+      description: this.description,
+      status: this.status,
+      format: this.format,
+      symbol: this.symbol,
+      tier: this.tier,
+      roundCount: this.roundCount,
+      roundsPlayed: this.roundsPlayed,
+      registrationOpensAt: this.registrationOpensAt,
+      registrationClosesAt: this.registrationClosesAt,
+      requirements: this.requirements || {},
+      minEntrants: this.minEntrants,
+      maxEntrants: this.maxEntrants ?? null,
+      entrantCount: this.entrantCount,
+      periodKey: this.periodKey,
+      rewardTableId: this.rewardTableId,
+      startedAt: this.startedAt,
+      finishedAt: this.finishedAt,
+      createdAt: this.createdAt
+    };
+  }
+}
@@ -0,0 +1,94 @@
+// src/models/TournamentEntry.ts
+
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, ManyToOne, JoinColumn, Index, Unique } from 'typeorm';
+import { Tournament } from './Tournament';
+import { User } from './User';
+import { RewardTokenAmount } from './RewardTable';
+
+/**
+ * 참가자 상태
+ * - active: 진행 중 (탈락하지 않음)
+ * - eliminated: 탈락 (elimination 방식)
+ * - finished: 토너먼트 종료 후 최종 순위 확정
+ */
+export type TournamentEntryStatus = 'active' | 'eliminated' | 'finished';
+
+/**
+ * TournamentEntry 엔티티
+ * 토너먼트 참가 등록과 라운드별 누적 성적, 최종 순위
+ */
+@Entity('tournament_entries')
+@Unique(['tournamentId', 'userId'])
+@Index(['tournamentId', 'finalRank'])
+@Index(['userId', 'createdAt'])
+export class TournamentEntry {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  tournamentId: string;
+
+  @ManyToOne(() => Tournament, tournament => tournament.entries, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'tournamentId' })
+  tournament: Tournament;
+
+  @Column({ type: 'uuid' })
+  userId: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  @Column({ type: 'varchar', length: 12, default: 'active' })
+  status: TournamentEntryStatus;
+
+  @Column({ type: 'decimal', precision: 15, scale: 2, default: 0 })
+  totalScore: number; // 토너먼트 라운드 예측 점수 합계
+
+  @Column({ type: 'int', default: 0 })
+  roundsPlayed: number; // 예측을 제출한 라운드 수
+
+  @Column({ type: 'int', default: 0 })
+  correctCount: number; // 방향을 맞힌 라운드 수
+
+  @Column({ type: 'int', default: 0 })
+  drawCount: number; // 보합으로 끝난 라운드 수
+
+  @Column({ type: 'int', nullable: true })
+  eliminatedInRound?: number; // 탈락한 라운드 번호
+
+  @Column({ type: 'int', nullable: true })
+  finalRank?: number;
+
+  @Column({ type: 'int', nullable: true })
+  rewardTier?: number; // 종료 시 적용된 보상 등급
+
+  @Column({ type: 'json', nullable: true })
+  rewards?: RewardTokenAmount[];
+
+  @CreateDateColumn()
+  createdAt: Date; // 등록 시각 (동점자 순위 결정에 사용)
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+
+  /**
+   * JSON 직렬화
+   */
+  toJSON(): object {
+    return {
+      userId: this.userId,
+      nickname: this.user?.nickname || this.user?.username,
+      status: this.status,
+      totalScore: Number(this.totalScore),
+      roundsPlayed: this.roundsPlayed,
+      correctCount: this.correctCount,
+      drawCount: this.drawCount,
+      eliminatedInRound: this.eliminatedInRound ?? null,
+      rank: this.finalRank ?? null,
+      rewardTier: this.rewardTier ?? null,
+      rewards: this.rewards || [],
+      registeredAt: this.createdAt
+    };
+  }
+}
@@ -0,0 +1,57 @@
+// src/models/TournamentRound.ts
+
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, ManyToOne, JoinColumn, Index, Unique } from 'typeorm';
+import { Tournament } from './Tournament';
+import { Game } from './Game';
+
+/**
+ * TournamentRound 엔티티
+ * 토너먼트에 배정된 정규 라운드 1회
+ * 참가자는 해당 라운드에 일반 예측으로 참여하고, 라운드 예측이 모두 정산되면 토너먼트 성적에 반영
+ */
+@Entity('tournament_rounds')
+@Unique(['tournamentId', 'sequence'])
+@Unique(['tournamentId', 'gameId'])
+export class TournamentRound {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  @Index()
+  tournamentId: string;
+
+  @ManyToOne(() => Tournament, tournament => tournament.rounds, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'tournamentId' })
+  tournament: Tournament;
+
+  @Column({ type: 'int' })
+  sequence: number; // 배정 순서 (무효 라운드 포함, 1부터)
+
+  @Column({ type: 'int', nullable: true })
+  roundNumber?: number; // 판정된 토너먼트 라운드 번호 (무효 라운드는 비어있음)
+
+  @Column({ type: 'uuid' })
+  gameId: string;
+
+  @ManyToOne(() => Game, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'gameId' })
+  game: Game;
+
+  @Column({ type: 'boolean', default: false })
+  voided: boolean; // 라운드가 무효/취소되어 다시 배정함
+
+  @Column({ type: 'int', default: 0 })
+  participantCount: number; // 판정 시 남아있던 참가자 수
+
+  @Column({ type: 'int', default: 0 })
+  eliminatedCount: number; // 이 라운드에서 탈락한 참가자 수
+
+  @Column({ type: 'timestamp', nullable: true })
+  resolvedAt?: Date;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -46,7 +46,6 @@ export class User {
   id: string;
 
   @Column({ type: 'varchar', length: 255, unique: true })
-  @Index()
   email: string;
 
   @Column({ type: 'varchar', length: 100, nullable: true })
@@ -70,7 +69,6 @@ export class User {
   socialProvider: SocialProvider;
 
   @Column({ type: 'varchar', length: 500, nullable: true })
-  @Index()
   walletAddress?: string; // Account Abstraction 지갑 주소
 
   @Column({ type: 'varchar', length: 1000, nullable: true })
@@ -107,6 +105,18 @@ export class User {
   @Column({ type: 'decimal', precision: 5, scale: 2, default: 0 })
   winRate: number; // 승률 (%)
 
+  @Column({ type: 'int', default: 1200 })
+  duelRating: number; // 1:1 대결 Elo 레이팅 (랭킹 점수와 별도)
+
+  @Column({ type: 'int', default: 0 })
+  duelWins: number; // 대결 시리즈 승리 수
+
+  @Column({ type: 'int', default: 0 })
+  duelLosses: number; // 대결 시리즈 패배 수
+
+  @Column({ type: 'int', default: 0 })
+  duelDraws: number; // 대결 시리즈 무승부 수
+
   @Column({ type: 'timestamp', nullable: true })
   lastLoginAt?: Date; // 마지막 로그인 시간
 
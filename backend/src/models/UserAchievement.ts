@@ -0,0 +1,86 @@
+// src/models/UserAchievement.ts
+
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, ManyToOne, JoinColumn, Index, Unique } from 'typeorm';
+import { User } from './User';
+
+/**
+ * 사용자 업적 상태 열거형
+ * IN_PROGRESS → COMPLETED (달성, 배지 부여) → CLAIMED (점수 보상 수령)
+ */
+export enum UserAchievementStatus {
+  IN_PROGRESS = 'in_progress',
+  COMPLETED = 'completed',
+  CLAIMED = 'claimed'
+}
+
+/**
+ * 사용자 업적 메타데이터
+ */
+export interface UserAchievementMetadata {
+  periodKey?: string;       // rank 업적: 달성한 랭킹 기간 키
+  rewardScoreId?: string;   // 보상 수령 시 기록된 점수 원장 항목
+}
+
+/**
+ * UserAchievement 엔티티
+ * 업적 정의(config/achievements)별 사용자 진행 상황
+ * 목표값과 보상은 달성 시점의 정의를 남기기 위해 행에 복사해 둠
+ */
+@Entity('user_achievements')
+@Unique(['userId', 'achievementId'])
+@Index(['userId', 'status'])
+export class UserAchievement {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  userId: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  @Column({ type: 'varchar', length: 50 })
+  achievementId: string;
+
+  @Column({
+    type: 'enum',
+    enum: UserAchievementStatus,
+    default: UserAchievementStatus.IN_PROGRESS
+  })
+  status: UserAchievementStatus;
+
+  @Column({ type: 'int', default: 0 })
+  progress: number; // 현재 지표 값 (목표값에서 멈춤, rank 업적은 달성 시 목표값)
+
+  @Column({ type: 'int' })
+  target: number;
+
+  @Column({ type: 'int', default: 0 })
+  rewardPoints: number;
+
+  @Column({ type: 'varchar', length: 50, nullable: true })
+  badge?: string | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  completedAt?: Date | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  claimedAt?: Date | null;
+
+  @Column({ type: 'jsonb', nullable: true })
+  metadata?: UserAchievementMetadata | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+
+  /**
+   * 달성 여부 (수령 완료 포함)
+   */
+  get isCompleted(): boolean {
+    return this.status === UserAchievementStatus.COMPLETED || this.status === UserAchievementStatus.CLAIMED;
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * Achievement Routes - 업적 API 라우트 설정
+ * 업적 목록, 내 진행 상황, 보상 수령 (달성 알림은 WebSocket notifications 채널의 achievement.unlocked)
+ */
+
+import { Router, Request, Response } from 'express';
+import { AchievementController } from '../controllers/AchievementController';
+import { authMiddleware, optionalAuthMiddleware } from '../middlewares/auth';
+import { validateCommonRequest, requestLogger, standardizeResponse } from '../middlewares/validation';
+import { createRateLimiter } from '../middlewares/rateLimit';
+
+const router = Router();
+const achievementController = new AchievementController();
+
+// 모든 라우트에 공통 미들웨어 적용
+router.use(standardizeResponse);
+
+// Rate Limiters 설정
+const generalRateLimit = createRateLimiter({
+  windowMs: 15 * 60 * 1000, // 15분
+  max: 100, // 최대 100회 요청
+  message: '너무 많은 요청입니다. 15분 후에 다시 시도해주세요.'
+});
+
+const claimRateLimit = createRateLimiter({
+  windowMs: 1 * 60 * 1000, // 1분
+  max: 20, // 최대 20회 요청
+  message: '보상 수령 요청이 너무 많습니다. 1분 후에 다시 시도해주세요.'
+});
+
+/**
+ * GET /api/achievements
+ * 업적 목록 (로그인 시 업적별 내 진행 상황과 요약 포함)
+ */
+router.get('/',
+  generalRateLimit,
+  optionalAuthMiddleware,
+  async (req: Request, res: Response) => {
+    await achievementController.getAchievements(req, res);
+  }
+);
+
+/**
+ * GET /api/achievements/progress
+ * 내 업적 진행 상황과 요약 (받지 않은 보상 점수, 획득한 배지)
+ * 조회 시 누적 지표로 다시 판정하므로 이벤트 이전 기록도 반영됨
+ */
+router.get('/progress',
+  generalRateLimit,
+  authMiddleware,
+  async (req: Request, res: Response) => {
+    await achievementController.getProgress(req, res);
+  }
+);
+
+/**
+ * POST /api/achievements/:achievementId/claim
+ * 달성한 업적의 점수 보상 수령 (업적당 한 번, 점수 원장에 지급)
+ *
+ * @param {string} achievementId - 업적 ID (예: first-win)
+ */
+router.post('/:achievementId/claim',
+  claimRateLimit,
+  authMiddleware,
+  validateCommonRequest,
+  requestLogger,
+  async (req: Request, res: Response) => {
+    await achievementController.claimReward(req, res);
+  }
+);
+
+export default router;
@@ -5,9 +5,11 @@ import { validateRequest } from '../middlewares/validation';
 import { body } from 'express-validator'; // validationResult 사용하지 않음
 import { AppDataSource } from '../config/database';
 import { User } from '../models/User';
+import { DuelService } from '../services/DuelService';
 
 const router = Router();
 const authService = new AuthService();
+const duelService = new DuelService();
 const userRepository = AppDataSource.getRepository(User);
 
 /**
@@ -116,7 +118,7 @@ router.post('/refresh',
 );
 
 /**
- * 사용자 프로필 조회
+ * 사용자 프로필 조회 (최근 대결 기록 포함)
  */
 router.get('/profile', 
   authMiddleware,
@@ -145,9 +147,12 @@ router.get('/profile',
         return;
       }
 
+      // 대결 기록 (최근 10건, 레이팅과 전적은 사용자 컬럼에 포함)
+      const { duels: recentDuels } = await duelService.getUserDuels(userId, 10);
+
       res.json({
         success: true,
-        data: user,
+        data: { ...user, recentDuels },
         message: '프로필 조회 성공'
       });
     } catch (error) {
@@ -0,0 +1,190 @@
+/**
+ * Duel Routes - 1:1 대결 API 라우트 설정
+ * 사용자 이름 또는 초대 링크로 신청하는 best-of-N 업다운 대결
+ */
+
+import { Router, Request, Response } from 'express';
+import { DuelController } from '../controllers/DuelController';
+import { GamePredictionType } from '../models/GamePrediction';
+import { authMiddleware } from '../middlewares/auth';
+import { validateCommonRequest, requestLogger, standardizeResponse } from '../middlewares/validation';
+import { createRateLimiter } from '../middlewares/rateLimit';
+
+// 요청 타입 정의
+interface CreateDuelRequest extends Request {
+  body: {
+    opponentUsername?: string;
+    symbol: string;
+    tier: string;
+    bestOf?: number;
+  };
+}
+
+interface DuelPredictRequest extends Request {
+  body: {
+    prediction: GamePredictionType;
+  };
+}
+
+interface DuelHistoryQuery extends Request {
+  query: {
+    limit?: string;
+    offset?: string;
+  };
+}
+
+const router = Router();
+const duelController = new DuelController();
+
+// 모든 라우트에 공통 미들웨어 적용
+router.use(standardizeResponse);
+
+// Rate Limiters 설정
+const generalRateLimit = createRateLimiter({
+  windowMs: 15 * 60 * 1000, // 15분
+  max: 100, // 최대 100회 요청
+  message: '너무 많은 요청입니다. 15분 후에 다시 시도해주세요.'
+});
+
+const duelActionRateLimit = createRateLimiter({
+  windowMs: 1 * 60 * 1000, // 1분
+  max: 10, // 최대 10회 요청
+  message: '대결 요청이 너무 많습니다. 1분 후에 다시 시도해주세요.'
+});
+
+const predictionRateLimit = createRateLimiter({
+  windowMs: 30 * 1000, // 30초
+  max: 5, // 최대 5회 예측
+  message: '예측 요청이 너무 많습니다. 30초 후에 다시 시도해주세요.'
+});
+
+/**
+ * POST /api/duel
+ * 대결 신청
+ *
+ * @body {string} [opponentUsername] - 상대 사용자 이름 (없으면 초대 링크로 누구나 수락 가능)
+ * @body {string} symbol - 레그 라운드 심볼 (예: BTC)
+ * @body {string} tier - 레그 라운드 길이 등급 (1m, 5m, 15m, 1h)
+ * @body {number} [bestOf] - 시리즈 길이 (1, 3, 5, 7, 기본 3)
+ * @returns {object} 대결 정보와 초대 링크
+ */
+router.post('/',
+  duelActionRateLimit,
+  authMiddleware,
+  validateCommonRequest,
+  requestLogger,
+  async (req: CreateDuelRequest, res: Response) => {
+    await duelController.createDuel(req, res);
+  }
+);
+
+/**
+ * GET /api/duel/history
+ * 내 대결 기록 (최신순)
+ *
+ * @query {number} [limit] - 조회 개수 (기본 20, 최대 100)
+ * @query {number} [offset] - 시작 위치
+ */
+router.get('/history',
+  generalRateLimit,
+  authMiddleware,
+  async (req: DuelHistoryQuery, res: Response) => {
+    await duelController.getMyHistory(req, res);
+  }
+);
+
+/**
+ * GET /api/duel/users/:userId/history
+ * 사용자 프로필 대결 기록 (인증 불필요)
+ *
+ * @param {string} userId - 사용자 ID
+ * @query {number} [limit] - 조회 개수 (기본 20, 최대 100)
+ * @query {number} [offset] - 시작 위치
+ */
+router.get('/users/:userId/history',
+  generalRateLimit,
+  async (req: DuelHistoryQuery, res: Response) => {
+    await duelController.getUserHistory(req, res);
+  }
+);
+
+/**
+ * GET /api/duel/:key
+ * 대결 상세 조회 (레그 포함, 판정 전 레그의 상대 예측은 숨김)
+ *
+ * @param {string} key - 대결 ID 또는 초대 코드
+ */
+router.get('/:key',
+  generalRateLimit,
+  authMiddleware,
+  async (req: Request, res: Response) => {
+    await duelController.getDuel(req, res);
+  }
+);
+
+/**
+ * POST /api/duel/:key/accept
+ * 대결 수락 (초대 링크로 들어온 경우 수락한 사용자가 상대가 됨)
+ *
+ * @param {string} key - 대결 ID 또는 초대 코드
+ */
+router.post('/:key/accept',
+  duelActionRateLimit,
+  authMiddleware,
+  validateCommonRequest,
+  requestLogger,
+  async (req: Request, res: Response) => {
+    await duelController.acceptDuel(req, res);
+  }
+);
+
+/**
+ * POST /api/duel/:key/decline
+ * 대결 거절 (지정된 상대만)
+ *
+ * @param {string} key - 대결 ID 또는 초대 코드
+ */
+router.post('/:key/decline',
+  duelActionRateLimit,
+  authMiddleware,
+  validateCommonRequest,
+  requestLogger,
+  async (req: Request, res: Response) => {
+    await duelController.declineDuel(req, res);
+  }
+);
+
+/**
+ * POST /api/duel/:key/cancel
+ * 대결 취소 (수락 전, 신청자만)
+ *
+ * @param {string} key - 대결 ID 또는 초대 코드
+ */
+router.post('/:key/cancel',
+  duelActionRateLimit,
+  authMiddleware,
+  validateCommonRequest,
+  requestLogger,
+  async (req: Request, res: Response) => {
+    await duelController.cancelDuel(req, res);
+  }
+);
+
+/**
+ * POST /api/duel/:key/predict
+ * 현재 레그 예측 (레그 라운드의 예측 마감 전까지)
+ *
+ * @param {string} key - 대결 ID
+ * @body {'UP'|'DOWN'} prediction - 가격 예측 방향
+ */
+router.post('/:key/predict',
+  predictionRateLimit,
+  authMiddleware,
+  validateCommonRequest,
+  requestLogger,
+  async (req: DuelPredictRequest, res: Response) => {
+    await duelController.predictLeg(req, res);
+  }
+);
+
+export default router;
@@ -6,7 +6,7 @@
 import { Router, Request, Response } from 'express';
 import { GameController } from '../controllers/GameController';
 import { GamePredictionType } from '../models/GamePrediction';
-import { authMiddleware, optionalAuthMiddleware } from '../middlewares/auth';
+import { authMiddleware, optionalAuthMiddleware, adminMiddleware } from '../middlewares/auth';
 import { validateCommonRequest, requestLogger, standardizeResponse } from '../middlewares/validation';
 import { createRateLimiter } from '../middlewares/rateLimit';
 
@@ -14,7 +14,8 @@ import { createRateLimiter } from '../middlewares/rateLimit';
 interface StartGameRequest extends Request {
   body: {
     symbol: string;      // GameController와 일치
-    duration: number;    // GameController와 일치 (필수)
+    tier?: string;       // 라운드 길이 등급 (1m, 5m, 15m, 1h)
+    duration?: number;   // 진행 시간 (분), tier 가 없을 때 같은 길이의 등급으로 변환
     gameType?: string;   // GameController와 일치
   };
 }
@@ -73,7 +74,22 @@ interface GameHistoryQuery extends Request {
  */
 router.get('/health', 
   generalRateLimit,
-  gameController.healthCheck
+  async (req: Request, res: Response) => {
+    await gameController.healthCheck(req, res);
+  }
+);
+
+/**
+ * GET /api/game/time
+ * 서버 시각 조회 (게임 타이머의 시계 보정용, 인증 불필요)
+ *
+ * @returns {object} 서버 시각 (Unix ms/ISO), 예측 마감 직전 거절 구간 (ms), 정산 기록 서명 주소
+ */
+router.get('/time',
+  generalRateLimit,
+  async (req: Request, res: Response) => {
+    await gameController.getServerTime(req, res);
+  }
 );
 
 /**
@@ -81,8 +97,9 @@ router.get('/health',
  * 새 게임 시작 (미션 완료 필수)
  * 
  * @body {string} tokenSymbol - 예측할 토큰 심볼 (예: bitcoin, ethereum)
- * @body {number} [duration] - 게임 지속 시간 (분, 기본값: 5)
- * @returns {object} 시작된 게임 정보
+ * @body {string} [tier] - 라운드 길이 등급 (1m, 5m, 15m, 1h, 기본값: GAME_DEFAULT_TIER)
+ * @body {number} [duration] - 게임 지속 시간 (분, tier 가 없을 때 같은 길이의 등급 사용)
+ * @returns {object} 해당 등급의 예측 접수 중인 라운드 정보
  */
 router.post('/start', 
   gameActionRateLimit,
@@ -100,8 +117,10 @@ router.post('/start',
  * 
  * @body {string} gameId - 게임 ID
  * @body {'UP'|'DOWN'} prediction - 가격 예측 방향
- * @body {number} [confidence] - 예측 신뢰도 (0-100)
- * @returns {object} 예측 제출 결과
+ * @body {number} [confidence] - 예측 신뢰도 (1-10, 기본 5, 스테이크 배수 = 신뢰도 / 5)
+ * @body {number} [stake] - 스테이크 (0 또는 GAME_STAKE_MIN-GAME_STAKE_MAX, 보유 점수에서 예치)
+ * @body {number} [clientTimestamp] - 서버 시각으로 보정한 클라이언트 시각 (Unix ms, 시계 차이 기록용)
+ * @returns {object} 예측 제출 결과 (예치된 스테이크, 라운드 배당 방식 포함)
  */
 router.post('/predict', 
   predictionRateLimit,
@@ -113,18 +132,58 @@ router.post('/predict',
   }
 );
 
+/**
+ * PUT /api/game/:gameId/prediction
+ * 예측 방향 변경 (예측 마감 전까지, 기준 가격은 변경 시점 가격으로 갱신)
+ *
+ * @param {string} gameId - 게임 ID
+ * @body {'UP'|'DOWN'} prediction - 변경할 예측 방향
+ * @body {number} [clientTimestamp] - 서버 시각으로 보정한 클라이언트 시각 (Unix ms)
+ * @returns {object} 변경된 예측 (수정 이력 포함)
+ */
+router.put('/:gameId/prediction',
+  predictionRateLimit,
+  authMiddleware,
+  validateCommonRequest,
+  requestLogger,
+  async (req: Request, res: Response) => {
+    await gameController.changePrediction(req, res);
+  }
+);
+
+/**
+ * DELETE /api/game/:gameId/prediction
+ * 예측 철회 (예측 마감 전까지, 스테이크 즉시 반환, 같은 라운드 재참여 불가)
+ *
+ * @param {string} gameId - 게임 ID
+ * @returns {object} 철회 결과 (반환된 스테이크, 수정 이력 포함)
+ */
+router.delete('/:gameId/prediction',
+  predictionRateLimit,
+  authMiddleware,
+  validateCommonRequest,
+  requestLogger,
+  async (req: Request, res: Response) => {
+    await gameController.withdrawPrediction(req, res);
+  }
+);
+
 /**
  * GET /api/game/active
- * 현재 진행 중인 게임 조회
+ * 라운드 로비 조회 (예측 접수 중인 모든 심볼/등급 라운드)
  * 
- * @returns {object} 진행 중인 게임 목록
+ * @query {string} [symbol] - 특정 심볼 필터 (BTC, ETH, CTA)
+ * @query {string} [tier] - 특정 등급 필터 (1m, 5m, 15m, 1h)
+ * @returns {object} 라운드 목록 (예측 마감 시각, 참가자 수, 랭킹 가중치 포함)
  */
 router.get('/active', 
   generalRateLimit,
   authMiddleware,
   validateCommonRequest,
   requestLogger,
-  gameController.getActiveGames
+  async (req: Request, res: Response) => {
+    await gameController.getActiveGames(req, res);
+  }
 );
 
 /**
@@ -150,23 +209,26 @@ router.get('/history',
 );
 
 /**
- * GET /api/game/:gameId
- * 특정 게임 상세 정보 조회
+ * GET /api/game/:gameId/settlement
+ * 게임 정산 기록 조회 (공개, 선택적 인증)
  * 
  * @param {string} gameId - 게임 ID
- * @returns {object} 게임 상세 정보
+ * @returns {object} 시작/종료 가격의 서명된 해시 체인 기록과 검증 결과, 종료 기록에 서명된 예측별 판정 근거 (로그인 시 myPrediction 포함)
  */
-router.get('/:gameId', 
+router.get('/:gameId/settlement', 
   generalRateLimit,
-  authMiddleware,
+  optionalAuthMiddleware,
   validateCommonRequest,
   requestLogger,
-  gameController.getGameDetail
+  async (req: Request, res: Response) => {
+    await gameController.getGameSettlement(req, res);
+  }
 );
 
 /**
  * POST /api/game/:gameId/cancel
- * 게임 취소 (진행 중인 게임만)
+ * 라운드 취소 (관리자 전용, 종료되지 않은 라운드만)
+ * 라운드는 모든 참가자가 함께 쓰므로 대기 중인 예측을 모두 취소하고 스테이크를 반환
  * 
  * @param {string} gameId - 게임 ID
  * @returns {object} 취소 결과
@@ -174,9 +236,12 @@ router.get('/:gameId',
 router.post('/:gameId/cancel', 
   gameActionRateLimit,
   authMiddleware,
+  adminMiddleware,
   validateCommonRequest,
   requestLogger,
-  gameController.cancelGame
+  async (req: Request, res: Response) => {
+    await gameController.cancelGame(req, res);
+  }
 );
 
 /**
@@ -190,7 +255,9 @@ router.get('/stats/user',
   authMiddleware,
   validateCommonRequest,
   requestLogger,
-  gameController.getUserStats
+  async (req: Request, res: Response) => {
+    await gameController.getUserStats(req, res);
+  }
 );
 
 /**
@@ -203,7 +270,9 @@ router.get('/stats/global',
   generalRateLimit,
   optionalAuthMiddleware,
   requestLogger,
-  gameController.getGlobalStats
+  async (req: Request, res: Response) => {
+    await gameController.getGlobalStats(req, res);
+  }
 );
 
 /**
@@ -219,23 +288,29 @@ router.get('/leaderboard',
   generalRateLimit,
   optionalAuthMiddleware,
   requestLogger,
-  gameController.getLeaderboard
+  async (req: Request, res: Response) => {
+    await gameController.getLeaderboard(req, res);
+  }
 );
 
 /**
  * POST /api/game/result/:gameId
- * 게임 결과 처리 (시스템용 - 관리자만)
+ * 라운드 정산 (관리자 전용)
+ * 스케줄러와 같은 정산 경로로 종료 가격 확정, 정산 기록, 전체 예측 채점을 처리하며
+ * 종료 시각이 지나지 않았거나 이미 정산된 라운드는 409
  * 
  * @param {string} gameId - 게임 ID
- * @returns {object} 결과 처리 완료
+ * @returns {object} 정산된 게임
  */
 router.post('/result/:gameId', 
   gameActionRateLimit,
   authMiddleware,
-  // adminMiddleware, // TODO: 관리자 미들웨어 구현 후 활성화
+  adminMiddleware,
   validateCommonRequest,
   requestLogger,
-  gameController.processGameResult
+  async (req: Request, res: Response) => {
+    await gameController.processGameResult(req, res);
+  }
 );
 
 /**
@@ -247,7 +322,26 @@ router.post('/result/:gameId',
 router.get('/tokens/supported', 
   generalRateLimit,
   optionalAuthMiddleware,
-  gameController.getSupportedTokens
+  async (req: Request, res: Response) => {
+    await gameController.getSupportedTokens(req, res);
+  }
+);
+
+/**
+ * GET /api/game/:gameId
+ * 특정 게임 상세 정보 조회 (/leaderboard 등 고정 경로보다 뒤에 등록)
+ * 
+ * @param {string} gameId - 게임 ID
+ * @returns {object} 게임 상세 정보 (myResult: 요청 사용자의 정산 결과와 점수 구성)
+ */
+router.get('/:gameId', 
+  generalRateLimit,
+  authMiddleware,
+  validateCommonRequest,
+  requestLogger,
+  async (req: Request, res: Response) => {
+    await gameController.getGameDetail(req, res);
+  }
 );
 
 /**
@@ -263,7 +357,9 @@ if (process.env.NODE_ENV === 'development') {
     authMiddleware,
     validateCommonRequest,
     requestLogger,
-    gameController.simulateGameResult
+    async (req: Request, res: Response) => {
+      await gameController.simulateGameResult(req, res);
+    }
   );
 
   /**
@@ -275,7 +371,9 @@ if (process.env.NODE_ENV === 'development') {
     authMiddleware,
     validateCommonRequest,
     requestLogger,
-    gameController.resetUserStats
+    async (req: Request, res: Response) => {
+      await gameController.resetUserStats(req, res);
+    }
   );
 
   /**
@@ -287,7 +385,9 @@ if (process.env.NODE_ENV === 'development') {
     authMiddleware,
     validateCommonRequest,
     requestLogger,
-    gameController.getGameDebugInfo
+    async (req: Request, res: Response) => {
+      await gameController.getGameDebugInfo(req, res);
+    }
   );
 }
 
@@ -0,0 +1,79 @@
+/**
+ * Practice Routes - 연습 모드 API 라우트 설정
+ * 저장된 과거 가격을 배속 재생하는 연습 게임 (랭킹/점수 원장/에어드랍 미반영)
+ */
+
+import { Router, Request, Response } from 'express';
+import { PracticeController } from '../controllers/PracticeController';
+import { authMiddleware } from '../middlewares/auth';
+import { validateCommonRequest, requestLogger, standardizeResponse } from '../middlewares/validation';
+import { createRateLimiter } from '../middlewares/rateLimit';
+
+const router = Router();
+const practiceController = new PracticeController();
+
+// 모든 라우트에 공통 미들웨어 적용
+router.use(standardizeResponse);
+
+// Rate Limiters 설정
+const generalRateLimit = createRateLimiter({
+  windowMs: 15 * 60 * 1000, // 15분
+  max: 300, // 최대 300회 요청 (진행 중 재생 가격 폴링 포함)
+  message: '너무 많은 요청입니다. 15분 후에 다시 시도해주세요.'
+});
+
+const startRateLimit = createRateLimiter({
+  windowMs: 1 * 60 * 1000, // 1분
+  max: 10, // 최대 10회 요청
+  message: '연습 게임 시작 요청이 너무 많습니다. 1분 후에 다시 시도해주세요.'
+});
+
+/**
+ * POST /api/practice
+ * 연습 게임 시작 (최근 정규 라운드 하나를 골라 배속 재생)
+ * 예측 제출/변경/철회는 POST /api/game/predict, PUT/DELETE /api/game/:gameId/prediction 을 그대로 사용
+ *
+ * @body {string} symbol - 심볼 (예: BTC)
+ * @body {string} [tier] - 라운드 길이 등급 (1m, 5m, 15m, 1h, 기본 GAME_DEFAULT_TIER)
+ */
+router.post('/',
+  startRateLimit,
+  authMiddleware,
+  validateCommonRequest,
+  requestLogger,
+  async (req: Request, res: Response) => {
+    await practiceController.startPractice(req, res);
+  }
+);
+
+/**
+ * GET /api/practice/history
+ * 내 연습 기록과 결과 요약 (점수 구성 포함)
+ *
+ * @query {number} [limit=20] - 조회 개수 (최대 100)
+ * @query {number} [offset=0] - 시작 위치
+ */
+router.get('/history',
+  generalRateLimit,
+  authMiddleware,
+  async (req: Request, res: Response) => {
+    await practiceController.getHistory(req, res);
+  }
+);
+
+/**
+ * GET /api/practice/:gameId
+ * 연습 게임 진행 상태 (지금까지 공개된 재생 가격, 내 예측, 정산 후 점수 구성)
+ * 예측 마감/종료 시각이 지났으면 조회 시 바로 시작/정산
+ *
+ * @param {string} gameId - 연습 게임 ID
+ */
+router.get('/:gameId',
+  generalRateLimit,
+  authMiddleware,
+  async (req: Request, res: Response) => {
+    await practiceController.getPractice(req, res);
+  }
+);
+
+export default router;
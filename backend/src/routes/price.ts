@@ -8,6 +8,7 @@ import { PriceController } from '../controllers/PriceController';
 import { authMiddleware, optionalAuthMiddleware, adminMiddleware } from '../middlewares/auth';
 import { validateCommonRequest, requestLogger, standardizeResponse } from '../middlewares/validation';
 import { createRateLimiter } from '../middlewares/rateLimit';
+import { simMarketConfig } from '../config/simMarket';
 
 // 요청 타입 정의
 interface ChartQuery extends Request {
@@ -27,7 +28,10 @@ interface TokenHistoryQuery extends Request {
   };
   query: {
     days?: string;
+    from?: string;
+    to?: string;
     interval?: string;
+    ticks?: string;
     vs_currency?: string;
   };
 }
@@ -85,10 +89,14 @@ interface ChartQuery extends Request {
 
 interface AlertRequest extends Request {
   body: {
-    tokenSymbol: string;
-    targetPrice: number;
-    condition: 'above' | 'below';
+    tokenSymbol?: string;
+    condition?: 'above' | 'below' | 'percent_change';
+    targetPrice?: number;
+    changePercent?: number;
+    recurring?: boolean;
+    cooldownMs?: number;
     isActive?: boolean;
+    note?: string;
   };
 }
 
@@ -98,7 +106,9 @@ interface AlertRequest extends Request {
  */
 router.get('/health', 
   generalRateLimit,
-  priceController.healthCheck
+  async (req: Request, res: Response) => {
+    await priceController.healthCheck(req, res);
+  }
 );
 
 /**
@@ -130,35 +140,20 @@ router.get('/supported',
   generalRateLimit,
   optionalAuthMiddleware,
   requestLogger,
-  priceController.getSupportedTokens
-);
-
-/**
- * GET /api/price/:tokenSymbol
- * 특정 토큰 가격 상세 조회
- * 
- * @param {string} tokenSymbol - 토큰 심볼 (예: bitcoin, ethereum)
- * @query {string} [vs_currency=usd] - 기준 통화
- * @query {boolean} [include_24hr_change=true] - 24시간 변화율 포함
- * @query {boolean} [include_market_cap=true] - 시가총액 포함
- * @returns {object} 토큰 상세 가격 정보
- */
-router.get('/:tokenSymbol', 
-  generalRateLimit,
-  optionalAuthMiddleware,
-  requestLogger,
-  priceController.getTokenPrice
+  async (req: Request, res: Response) => {
+    await priceController.getSupportedTokens(req, res);
+  }
 );
 
 /**
  * GET /api/price/:tokenSymbol/chart
- * 토큰 차트 데이터 조회
+ * 토큰 차트 데이터 조회 (저장된 OHLCV 캔들, 외부 API 를 호출하지 않음)
  * 
- * @param {string} tokenSymbol - 토큰 심볼
+ * @param {string} tokenSymbol - 토큰 심볼 (BTC, ETH, CTA 또는 bitcoin 등 토큰 ID)
  * @query {string} [vs_currency=usd] - 기준 통화
- * @query {string} [days=7] - 조회 기간 (1, 7, 30, 90, 365)
- * @query {string} [interval=daily] - 데이터 간격 (minutely, hourly, daily)
- * @returns {object} 차트 데이터 (가격, 시간)
+ * @query {string} [days=7] - 조회 기간 (일)
+ * @query {string} [interval] - 캔들 간격 (1m, 5m, 1h, 1d / minutely, hourly, daily, 생략 시 기간에 맞춰 선택)
+ * @returns {object} 차트 데이터 (시간, 종가, 시가/고가/저가/종가/거래량)
  */
 router.get('/:tokenSymbol/chart', 
   intensiveRateLimit,
@@ -171,18 +166,22 @@ router.get('/:tokenSymbol/chart',
 
 /**
  * GET /api/price/:tokenSymbol/history
- * 토큰 과거 가격 히스토리
+ * 토큰 과거 가격 히스토리 (저장된 캔들과 원본 틱, 정산 가격 감사용)
  * 
  * @param {string} tokenSymbol - 토큰 심볼
- * @query {string} [date] - 조회 날짜 (YYYY-MM-DD)
+ * @query {string} [from] - 조회 시작 시각 (ISO 8601, 생략 시 to 에서 days 만큼 이전)
+ * @query {string} [to] - 조회 종료 시각 (ISO 8601, 생략 시 현재)
+ * @query {string} [days=1] - from 생략 시 조회 기간 (일)
+ * @query {string} [interval] - 캔들 간격 (1m, 5m, 1h, 1d)
+ * @query {boolean} [ticks=false] - 원본 틱 포함 (틱 보존 기간 이내만)
  * @query {string} [vs_currency=usd] - 기준 통화
- * @returns {object} 과거 가격 데이터
+ * @returns {object} 캔들, 틱, 저장 범위(coverage)
  */
 router.get('/:tokenSymbol/history', 
   intensiveRateLimit,
   optionalAuthMiddleware,
   requestLogger,
-    async (req: TokenHistoryQuery, res: Response) => {
+  async (req: TokenHistoryQuery, res: Response) => {
     await priceController.getPriceHistory(req, res);
   }
 );
@@ -198,7 +197,9 @@ router.get('/market/overview',
   generalRateLimit,
   optionalAuthMiddleware,
   requestLogger,
-  priceController.getMarketOverview
+  async (req: Request, res: Response) => {
+    await priceController.getMarketOverview(req, res);
+  }
 );
 
 /**
@@ -212,7 +213,9 @@ router.get('/trending',
   generalRateLimit,
   optionalAuthMiddleware,
   requestLogger,
-  priceController.getTrendingTokens
+  async (req: Request, res: Response) => {
+    await priceController.getTrendingTokens(req, res);
+  }
 );
 
 /**
@@ -227,7 +230,28 @@ router.get('/gainers-losers',
   generalRateLimit,
   optionalAuthMiddleware,
   requestLogger,
-  priceController.getGainersLosers
+  async (req: Request, res: Response) => {
+    await priceController.getGainersLosers(req, res);
+  }
+);
+
+/**
+ * GET /api/price/:tokenSymbol
+ * 특정 토큰 가격 상세 조회 (/trending 등 고정 경로보다 뒤에 등록)
+ * 
+ * @param {string} tokenSymbol - 토큰 심볼 (예: bitcoin, ethereum)
+ * @query {string} [vs_currency=usd] - 기준 통화
+ * @query {boolean} [include_24hr_change=true] - 24시간 변화율 포함
+ * @query {boolean} [include_market_cap=true] - 시가총액 포함
+ * @returns {object} 토큰 상세 가격 정보
+ */
+router.get('/:tokenSymbol', 
+  generalRateLimit,
+  optionalAuthMiddleware,
+  requestLogger,
+  async (req: Request, res: Response) => {
+    await priceController.getTokenPrice(req, res);
+  }
 );
 
 /**
@@ -240,24 +264,68 @@ router.get('/gainers-losers',
  * GET /api/price/alerts/my-alerts
  * 내 가격 알림 목록 조회
  * 
- * @returns {object} 사용자 가격 알림 목록
+ * @returns {object} 사용자 가격 알림 목록 (발동 횟수, 마지막 발동 시각/가격 포함)
  */
 router.get('/alerts/my-alerts', 
   generalRateLimit,
   authMiddleware,
   validateCommonRequest,
   requestLogger,
-  priceController.getMyPriceAlerts
+  async (req: Request, res: Response) => {
+    await priceController.getMyPriceAlerts(req, res);
+  }
+);
+
+/**
+ * GET /api/price/alerts/notifications
+ * 내 가격 알림 발동 기록 조회 (최근 발동 순)
+ * WebSocket 연결이 없어 전달되지 않은 발동도 포함 (deliveredAt 이 null)
+ * 
+ * @query {boolean} [pending=false] - true 면 전달되지 않은 기록만
+ * @query {number} [limit=50] - 최대 건수 (최대 50)
+ * @returns {object} 발동 기록 목록
+ */
+router.get('/alerts/notifications', 
+  generalRateLimit,
+  authMiddleware,
+  validateCommonRequest,
+  requestLogger,
+  async (req: Request, res: Response) => {
+    await priceController.getPriceAlertNotifications(req, res);
+  }
+);
+
+/**
+ * POST /api/price/alerts/notifications/ack
+ * 가격 알림 발동 기록 확인 처리 (확인한 기록은 WebSocket 재접속 시 다시 보내지 않음)
+ * 
+ * @body {string[]} [notificationIds] - 확인할 발동 기록 ID (생략하면 전달되지 않은 기록 전체)
+ * @returns {object} 확인 처리한 기록 수
+ */
+router.post('/alerts/notifications/ack', 
+  generalRateLimit,
+  authMiddleware,
+  validateCommonRequest,
+  requestLogger,
+  async (req: Request, res: Response) => {
+    await priceController.acknowledgePriceAlertNotifications(req, res);
+  }
 );
 
 /**
  * POST /api/price/alerts/create
  * 가격 알림 생성
+ * 가격이 갱신될 때마다 평가되며, 발동하면 발동 기록을 남기고 WebSocket notifications 채널의 price.alert 로 전달
+ * 사용자별 전체/활성 알림 수 한도 초과 시 400
  * 
- * @body {string} tokenSymbol - 토큰 심볼
- * @body {number} targetPrice - 목표 가격
- * @body {string} condition - 조건 ('above' | 'below')
+ * @body {string} tokenSymbol - 토큰 심볼 (가격 히스토리 기록 심볼만)
+ * @body {string} condition - 조건 ('above' | 'below' | 'percent_change')
+ * @body {number} [targetPrice] - 목표 가격 (above/below)
+ * @body {number} [changePercent] - 현재 가격 대비 변화율 % (percent_change)
+ * @body {boolean} [recurring=false] - 반복 알림 여부 (false 면 한 번 발동 후 비활성화)
+ * @body {number} [cooldownMs] - 반복 알림 최소 발동 간격 (밀리초)
  * @body {boolean} [isActive=true] - 활성화 여부
+ * @body {string} [note] - 메모
  * @returns {object} 생성된 알림 정보
  */
 router.post('/alerts/create', 
@@ -274,10 +342,16 @@ router.post('/alerts/create',
  * PUT /api/price/alerts/:alertId
  * 가격 알림 수정
  * 
+ * 조건/목표를 바꾸거나 다시 활성화하면 재무장 (percent_change 는 현재 가격이 새 기준)
+ * 
  * @param {string} alertId - 알림 ID
  * @body {number} [targetPrice] - 목표 가격
+ * @body {number} [changePercent] - 변화율 %
  * @body {string} [condition] - 조건
+ * @body {boolean} [recurring] - 반복 알림 여부
+ * @body {number} [cooldownMs] - 반복 알림 최소 발동 간격 (밀리초)
  * @body {boolean} [isActive] - 활성화 여부
+ * @body {string} [note] - 메모
  * @returns {object} 수정된 알림 정보
  */
 router.put('/alerts/:alertId', 
@@ -285,7 +359,9 @@ router.put('/alerts/:alertId',
   authMiddleware,
   validateCommonRequest,
   requestLogger,
-  priceController.updatePriceAlert
+  async (req: AlertRequest, res: Response) => {
+    await priceController.updatePriceAlert(req, res);
+  }
 );
 
 /**
@@ -300,7 +376,9 @@ router.delete('/alerts/:alertId',
   authMiddleware,
   validateCommonRequest,
   requestLogger,
-  priceController.deletePriceAlert
+  async (req: Request, res: Response) => {
+    await priceController.deletePriceAlert(req, res);
+  }
 );
 
 /**
@@ -322,14 +400,17 @@ router.post('/admin/refresh-cache',
   adminMiddleware,
   validateCommonRequest,
   requestLogger,
-  priceController.refreshPriceCache
+  async (req: Request, res: Response) => {
+    await priceController.refreshPriceCache(req, res);
+  }
 );
 
 /**
  * GET /api/price/admin/api-status
  * 외부 API 상태 조회 (관리자 전용)
+ * 제공자별 회로 차단 상태(closed/open/half_open), 분당/일일 요청 한도 사용량, 성공/실패/429/거절/병합 수
  * 
- * @returns {object} 외부 API 상태 정보
+ * @returns {object} 외부 API 상태 정보 (차단되었거나 한도를 소진한 제공자가 있으면 status=degraded)
  */
 router.get('/admin/api-status', 
   adminRateLimit,
@@ -337,7 +418,9 @@ router.get('/admin/api-status',
   adminMiddleware,
   validateCommonRequest,
   requestLogger,
-  priceController.getApiStatus
+  async (req: Request, res: Response) => {
+    await priceController.getApiStatus(req, res);
+  }
 );
 
 /**
@@ -354,7 +437,9 @@ router.post('/admin/switch-provider',
   adminMiddleware,
   validateCommonRequest,
   requestLogger,
-  priceController.switchPriceProvider
+  async (req: Request, res: Response) => {
+    await priceController.switchPriceProvider(req, res);
+  }
 );
 
 /**
@@ -362,7 +447,7 @@ router.post('/admin/switch-provider',
  * 가격 서비스 통계 (관리자 전용)
  * 
  * @query {string} [period=24h] - 통계 기간
- * @returns {object} 가격 서비스 사용 통계
+ * @returns {object} 가격 서비스 사용 통계 (외부 호출 수 합계와 제공자별 사용량, 캐시 적중률)
  */
 router.get('/admin/stats', 
   adminRateLimit,
@@ -370,7 +455,9 @@ router.get('/admin/stats',
   adminMiddleware,
   validateCommonRequest,
   requestLogger,
-  priceController.getPriceServiceStats
+  async (req: Request, res: Response) => {
+    await priceController.getPriceServiceStats(req, res);
+  }
 );
 
 /**
@@ -390,16 +477,22 @@ router.post('/websocket/subscribe',
   generalRateLimit,
   optionalAuthMiddleware,
   requestLogger,
-  priceController.getWebSocketSubscription
+  async (req: Request, res: Response) => {
+    await priceController.getWebSocketSubscription(req, res);
+  }
 );
 
 /**
- * 개발 전용 엔드포인트들 (개발 환경에서만)
+ * 개발 전용 엔드포인트들 (개발 환경 또는 시뮬레이션 시장 PRICE_PROVIDER=sim 에서만)
+ * 가격 설정/변동성/시나리오는 시뮬레이션 시장에서만 동작하고, 꺼져 있으면 400
  */
-if (process.env.NODE_ENV === 'development') {
+if (process.env.NODE_ENV === 'development' || simMarketConfig.enabled) {
   /**
    * POST /api/price/dev/mock-price
-   * 목 가격 데이터 설정 (개발 환경 전용)
+   * 시뮬레이션 가격 설정 (다음 걸음에서 목표 가격으로 이동한 뒤 그 가격부터 경로가 이어짐)
+   *
+   * @body {string} tokenSymbol - 토큰 심볼
+   * @body {number} price - 목표 가격
    */
   router.post('/dev/mock-price',
     adminRateLimit,
@@ -407,12 +500,18 @@ if (process.env.NODE_ENV === 'development') {
     adminMiddleware,
     validateCommonRequest,
     requestLogger,
-    priceController.setMockPrice
+    async (req: Request, res: Response) => {
+      await priceController.setMockPrice(req, res);
+    }
   );
 
   /**
    * POST /api/price/dev/simulate-volatility
-   * 가격 변동성 시뮬레이션 (개발 환경 전용)
+   * 시뮬레이션 변동성 변경 (지속 시간 동안 연 변동성을 volatilityPercent% 로)
+   *
+   * @body {string} tokenSymbol - 토큰 심볼
+   * @body {number} volatilityPercent - 연 변동성 (%)
+   * @body {number} duration - 지속 시간 (밀리초)
    */
   router.post('/dev/simulate-volatility',
     adminRateLimit,
@@ -420,7 +519,44 @@ if (process.env.NODE_ENV === 'development') {
     adminMiddleware,
     validateCommonRequest,
     requestLogger,
-    priceController.simulateVolatility
+    async (req: Request, res: Response) => {
+      await priceController.simulateVolatility(req, res);
+    }
+  );
+
+  /**
+   * POST /api/price/dev/scenario
+   * 시뮬레이션 시나리오 예약 (급등/급락/가격 고정/변동성 변경)
+   *
+   * @body {string} tokenSymbol - 토큰 심볼
+   * @body {string} type - 시나리오 ('spike' | 'crash' | 'flat' | 'volatile')
+   * @body {number} [magnitude] - spike/crash: 구간 전체 변화율 %, volatile: 연 변동성 %
+   * @body {number} duration - 지속 시간 (밀리초)
+   * @body {number} [startIn=0] - 지금부터 몇 밀리초 뒤에 시작
+   */
+  router.post('/dev/scenario',
+    adminRateLimit,
+    authMiddleware,
+    adminMiddleware,
+    validateCommonRequest,
+    requestLogger,
+    async (req: Request, res: Response) => {
+      await priceController.startSimScenario(req, res);
+    }
+  );
+
+  /**
+   * GET /api/price/dev/sim-market
+   * 시뮬레이션 시장 상태 (시드, 심볼별 현재가, 진행 중/예정 시나리오)
+   */
+  router.get('/dev/sim-market',
+    generalRateLimit,
+    authMiddleware,
+    validateCommonRequest,
+    requestLogger,
+    async (req: Request, res: Response) => {
+      await priceController.getSimMarketStatus(req, res);
+    }
   );
 
   /**
@@ -432,7 +568,9 @@ if (process.env.NODE_ENV === 'development') {
     authMiddleware,
     validateCommonRequest,
     requestLogger,
-    priceController.getCacheStatus
+    async (req: Request, res: Response) => {
+      await priceController.getCacheStatus(req, res);
+    }
   );
 }
 
@@ -42,7 +42,9 @@ interface RankingQuery extends Request {
     period?: 'daily' | 'weekly' | 'monthly' | 'all';
     limit?: string;
     offset?: string;
-    metric?: 'totalScore' | 'winRate' | 'gamesPlayed' | 'avgScore';
+    metric?: 'totalScore' | 'winRate' | 'gamesPlayed' | 'avgScore' | 'streak';
+    symbol?: string;
+    minGames?: string;
     userId?: string;
   };
 }
@@ -60,6 +62,7 @@ interface AirdropHistoryQuery extends Request {
 interface AirdropExecuteRequest extends Request {
   body: {
     period: 'weekly' | 'monthly';
+    periodKey?: string;
     dryRun?: boolean;
     forceExecute?: boolean;
   };
@@ -71,7 +74,9 @@ interface AirdropExecuteRequest extends Request {
  */
 router.get('/health', 
   generalRateLimit,
-  rankingController.healthCheck
+  async (req: Request, res: Response) => {
+    await rankingController.healthCheck(req, res);
+  }
 );
 
 /**
@@ -80,7 +85,9 @@ router.get('/health',
  * 
  * @query {number} [limit=100] - 조회할 랭킹 수
  * @query {number} [offset=0] - 건너뛸 랭킹 수
- * @query {string} [metric=totalScore] - 랭킹 기준
+ * @query {string} [metric=totalScore] - 랭킹 기준 (totalScore, winRate, gamesPlayed, avgScore, streak)
+ * @query {string} [symbol] - 심볼별 랭킹 (BTC, ETH, CTA / 생략 시 전체)
+ * @query {number} [minGames] - 최소 게임 수 (승률/평균 점수는 설정값보다 낮출 수 없음)
  * @returns {object} 주간 랭킹 데이터
  */
 router.get('/weekly', 
@@ -99,7 +106,9 @@ router.get('/weekly',
  * 
  * @query {number} [limit=100] - 조회할 랭킹 수
  * @query {number} [offset=0] - 건너뛸 랭킹 수
- * @query {string} [metric=totalScore] - 랭킹 기준
+ * @query {string} [metric=totalScore] - 랭킹 기준 (totalScore, winRate, gamesPlayed, avgScore, streak)
+ * @query {string} [symbol] - 심볼별 랭킹 (BTC, ETH, CTA / 생략 시 전체)
+ * @query {number} [minGames] - 최소 게임 수 (승률/평균 점수는 설정값보다 낮출 수 없음)
  * @returns {object} 월간 랭킹 데이터
  */
 router.get('/monthly', 
@@ -118,7 +127,9 @@ router.get('/monthly',
  * 
  * @query {number} [limit=100] - 조회할 랭킹 수
  * @query {number} [offset=0] - 건너뛸 랭킹 수
- * @query {string} [metric=totalScore] - 랭킹 기준
+ * @query {string} [metric=totalScore] - 랭킹 기준 (totalScore, winRate, gamesPlayed, avgScore, streak)
+ * @query {string} [symbol] - 심볼별 랭킹 (BTC, ETH, CTA / 생략 시 전체)
+ * @query {number} [minGames] - 최소 게임 수 (승률/평균 점수는 설정값보다 낮출 수 없음)
  * @returns {object} 일일 랭킹 데이터
  */
 router.get('/daily', 
@@ -137,7 +148,9 @@ router.get('/daily',
  * 
  * @query {number} [limit=100] - 조회할 랭킹 수
  * @query {number} [offset=0] - 건너뛸 랭킹 수
- * @query {string} [metric=totalScore] - 랭킹 기준
+ * @query {string} [metric=totalScore] - 랭킹 기준 (totalScore, winRate, gamesPlayed, avgScore, streak)
+ * @query {string} [symbol] - 심볼별 랭킹 (BTC, ETH, CTA / 생략 시 전체)
+ * @query {number} [minGames] - 최소 게임 수 (승률/평균 점수는 설정값보다 낮출 수 없음)
  * @returns {object} 전체 기간 랭킹 데이터
  */
 router.get('/all-time', 
@@ -163,7 +176,9 @@ router.get('/user/:userId',
   authMiddleware,
   validateCommonRequest,
   requestLogger,
-  rankingController.getRanking // getUserRanking 대신 getRanking 사용
+  async (req: Request, res: Response) => {
+    await rankingController.getRanking(req, res); // getUserRanking 대신 getRanking 사용
+  }
 );
 
 /**
@@ -171,6 +186,9 @@ router.get('/user/:userId',
  * 내 랭킹 정보 조회
  * 
  * @query {string} [period=all] - 조회 기간
+ * @query {string} [metric=totalScore] - 랭킹 기준 (지정 시 해당 지표 리더보드에서의 순위)
+ * @query {string} [symbol] - 심볼별 랭킹 (BTC, ETH, CTA / 생략 시 전체)
+ * @query {number} [minGames] - 최소 게임 수
  * @returns {object} 현재 사용자 랭킹 정보
  */
 router.get('/my-rank', 
@@ -178,7 +196,9 @@ router.get('/my-rank',
   authMiddleware,
   validateCommonRequest,
   requestLogger,
-  rankingController.getMyRanking
+  async (req: Request, res: Response) => {
+    await rankingController.getMyRanking(req, res);
+  }
 );
 
 /**
@@ -193,7 +213,9 @@ router.get('/leaderboard/top',
   generalRateLimit,
   optionalAuthMiddleware,
   requestLogger,
-  rankingController.getTopLeaderboard
+  async (req: Request, res: Response) => {
+    await rankingController.getTopLeaderboard(req, res);
+  }
 );
 
 /**
@@ -206,7 +228,9 @@ router.get('/stats/overview',
   generalRateLimit,
   optionalAuthMiddleware,
   requestLogger,
-  rankingController.getRanking // getRankingStats 대신 getRanking 사용
+  async (req: Request, res: Response) => {
+    await rankingController.getRanking(req, res); // getRankingStats 대신 getRanking 사용
+  }
 );
 
 /**
@@ -223,7 +247,28 @@ router.post('/update',
   adminMiddleware,
   validateCommonRequest,
   requestLogger,
-  rankingController.updateRankings
+  async (req: Request, res: Response) => {
+    await rankingController.updateRankings(req, res);
+  }
+);
+
+/**
+ * POST /api/ranking/scores/rebuild
+ * 점수 원장 기준 사용자 통계(totalScore, gameCount, winCount, winRate) 재집계 (관리자 전용)
+ * 
+ * @body {boolean} [apply=false] - 차이가 있는 사용자 통계를 원장 값으로 갱신 (false 면 보고만)
+ * @body {string} [userId] - 특정 사용자만 검사
+ * @returns {object} 검사 사용자 수, 차이 목록 (userId, field, stored, ledger)
+ */
+router.post('/scores/rebuild', 
+  adminRateLimit,
+  authMiddleware,
+  adminMiddleware,
+  validateCommonRequest,
+  requestLogger,
+  async (req: Request, res: Response) => {
+    await rankingController.rebuildUserStats(req, res);
+  }
 );
 
 /**
@@ -236,13 +281,17 @@ router.post('/update',
  * GET /api/ranking/airdrop/schedule
  * 에어드롭 스케줄 조회
  * 
- * @returns {object} 다음 에어드롭 일정 정보
+ * @query {string} [period=current] - 랭킹 기간
+ * @query {string} [periodKey] - 기간 키 (생략 시 현재 기간)
+ * @returns {object} 다음 에어드롭 일정 및 보상 등급표
  */
 router.get('/airdrop/schedule', 
   generalRateLimit,
   optionalAuthMiddleware,
   requestLogger,
-  rankingController.getAirdropSchedule
+  async (req: Request, res: Response) => {
+    await rankingController.getAirdropSchedule(req, res);
+  }
 );
 
 /**
@@ -280,7 +329,9 @@ router.get('/airdrop/my-history',
   authMiddleware,
   validateCommonRequest,
   requestLogger,
-  rankingController.getMyAirdropHistory
+  async (req: Request, res: Response) => {
+    await rankingController.getMyAirdropHistory(req, res);
+  }
 );
 
 /**
@@ -297,7 +348,9 @@ router.get('/airdrop/eligible/:period',
   adminMiddleware,
   validateCommonRequest,
   requestLogger,
-  rankingController.getAirdropEligible
+  async (req: Request, res: Response) => {
+    await rankingController.getAirdropEligible(req, res);
+  }
 );
 
 /**
@@ -305,6 +358,7 @@ router.get('/airdrop/eligible/:period',
  * 에어드롭 실행 (관리자 전용)
  * 
  * @body {string} period - 실행할 기간 (weekly, monthly)
+ * @body {string} [periodKey] - 실행할 기간 키 (예: 2024-W05, 생략 시 현재 기간)
  * @body {boolean} [dryRun=false] - 시뮬레이션 실행 여부
  * @body {boolean} [forceExecute=false] - 강제 실행 여부
  * @returns {object} 에어드롭 실행 결과
@@ -333,7 +387,9 @@ router.get('/airdrop/stats',
   adminMiddleware,
   validateCommonRequest,
   requestLogger,
-  rankingController.getAirdropStats
+  async (req: Request, res: Response) => {
+    await rankingController.getAirdropStats(req, res);
+  }
 );
 
 /**
@@ -349,7 +405,88 @@ router.post('/airdrop/retry/:airdropId',
   adminMiddleware,
   validateCommonRequest,
   requestLogger,
-  rankingController.retryAirdrop
+  async (req: Request, res: Response) => {
+    await rankingController.retryAirdrop(req, res);
+  }
+);
+
+/**
+ * GET /api/ranking/airdrop/tiers
+ * 보상 등급표 조회 (기간에 적용되는 보상 테이블)
+ * 
+ * @query {string} [period=current] - 랭킹 기간 (current, daily, weekly, monthly, all_time)
+ * @query {string} [periodKey] - 기간 키 (생략 시 현재 기간)
+ * @returns {object} 등급별 순위 범위, 토큰별 지급 수량, 동점자 규칙
+ */
+router.get('/airdrop/tiers', 
+  generalRateLimit,
+  optionalAuthMiddleware,
+  requestLogger,
+  async (req: Request, res: Response) => {
+    await rankingController.getRewardTiers(req, res);
+  }
+);
+
+/**
+ * GET /api/ranking/airdrop/reward-tables
+ * 보상 테이블 목록 조회 (관리자 전용)
+ * 
+ * @query {string} [period] - 랭킹 기간 필터
+ * @returns {object} 보상 테이블 목록
+ */
+router.get('/airdrop/reward-tables', 
+  adminRateLimit,
+  authMiddleware,
+  adminMiddleware,
+  validateCommonRequest,
+  requestLogger,
+  async (req: Request, res: Response) => {
+    await rankingController.getRewardTables(req, res);
+  }
+);
+
+/**
+ * POST /api/ranking/airdrop/reward-tables
+ * 보상 테이블 생성 (관리자 전용)
+ * 같은 기간/기간 키의 기존 활성 테이블은 비활성화됨
+ * 
+ * @body {string} period - 랭킹 기간 (weekly, monthly 등)
+ * @body {string} [periodKey] - 특정 기간 키 전용 테이블 (생략 시 기간 유형 기본 테이블)
+ * @body {string} [name] - 테이블 이름
+ * @body {Array} [tiers] - 보상 등급 ({ tier, name, rankFrom, rankTo, rewards: [{ token, amount }] })
+ * @body {Array} [tieBreakers] - 동점자 규칙 (higher_win_rate, more_games, fewer_games, best_streak, earliest_reached)
+ * @returns {object} 생성된 보상 테이블
+ */
+router.post('/airdrop/reward-tables', 
+  adminRateLimit,
+  authMiddleware,
+  adminMiddleware,
+  validateCommonRequest,
+  requestLogger,
+  async (req: Request, res: Response) => {
+    await rankingController.createRewardTable(req, res);
+  }
+);
+
+/**
+ * PUT /api/ranking/airdrop/reward-tables/:tableId
+ * 보상 테이블 수정 (관리자 전용)
+ * 
+ * @param {string} tableId - 보상 테이블 ID
+ * @body {Array} [tiers] - 보상 등급
+ * @body {Array} [tieBreakers] - 동점자 규칙
+ * @body {boolean} [isActive] - 활성화 여부
+ * @returns {object} 수정된 보상 테이블
+ */
+router.put('/airdrop/reward-tables/:tableId', 
+  adminRateLimit,
+  authMiddleware,
+  adminMiddleware,
+  validateCommonRequest,
+  requestLogger,
+  async (req: Request, res: Response) => {
+    await rankingController.updateRewardTable(req, res);
+  }
 );
 
 /**
@@ -368,7 +505,9 @@ router.get('/season/current',
   generalRateLimit,
   optionalAuthMiddleware,
   requestLogger,
-  rankingController.getCurrentSeason
+  async (req: Request, res: Response) => {
+    await rankingController.getCurrentSeason(req, res);
+  }
 );
 
 /**
@@ -382,7 +521,9 @@ router.get('/season/history',
   generalRateLimit,
   optionalAuthMiddleware,
   requestLogger,
-  rankingController.getSeasonHistory
+  async (req: Request, res: Response) => {
+    await rankingController.getSeasonHistory(req, res);
+  }
 );
 
 /**
@@ -392,7 +533,9 @@ router.get('/season/history',
  * @body {string} name - 시즌 이름
  * @body {Date} startDate - 시작 날짜
  * @body {Date} endDate - 종료 날짜
- * @body {number} prizePool - 상금 풀
+ * @body {string} [description] - 시즌 설명
+ * @body {Array} [tiers] - 시즌 보상 등급 (생략 시 기본 등급)
+ * @body {Array} [tieBreakers] - 동점자 규칙
  * @returns {object} 생성된 시즌 정보
  */
 router.post('/season/create', 
@@ -401,7 +544,62 @@ router.post('/season/create',
   adminMiddleware,
   validateCommonRequest,
   requestLogger,
-  rankingController.createSeason
+  async (req: Request, res: Response) => {
+    await rankingController.createSeason(req, res);
+  }
+);
+
+/**
+ * GET /api/ranking/season/:seasonId
+ * 시즌 상세 조회 (보상 테이블, 상금 포함)
+ * 
+ * @param {string} seasonId - 시즌 ID
+ * @returns {object} 시즌 정보
+ */
+router.get('/season/:seasonId', 
+  generalRateLimit,
+  optionalAuthMiddleware,
+  requestLogger,
+  async (req: Request, res: Response) => {
+    await rankingController.getSeason(req, res);
+  }
+);
+
+/**
+ * GET /api/ranking/season/:seasonId/leaderboard
+ * 시즌 순위 조회 (진행 중 시즌은 실시간 집계, 종료된 시즌은 최종 스냅샷)
+ * 
+ * @param {string} seasonId - 시즌 ID
+ * @query {number} [limit=100] - 조회할 순위 수
+ * @query {number} [offset=0] - 시작 위치
+ * @returns {object} 시즌 순위 및 스냅샷 검증 결과
+ */
+router.get('/season/:seasonId/leaderboard', 
+  generalRateLimit,
+  optionalAuthMiddleware,
+  requestLogger,
+  async (req: Request, res: Response) => {
+    await rankingController.getSeasonLeaderboard(req, res);
+  }
+);
+
+/**
+ * POST /api/ranking/season/:seasonId/close
+ * 시즌 종료 및 최종 순위 스냅샷 생성 (관리자 전용)
+ * 
+ * @param {string} seasonId - 시즌 ID
+ * @body {boolean} [force=false] - 종료일 이전 강제 종료
+ * @returns {object} 종료된 시즌 정보
+ */
+router.post('/season/:seasonId/close', 
+  adminRateLimit,
+  authMiddleware,
+  adminMiddleware,
+  validateCommonRequest,
+  requestLogger,
+  async (req: Request, res: Response) => {
+    await rankingController.closeSeason(req, res);
+  }
 );
 
 /**
@@ -418,7 +616,9 @@ if (process.env.NODE_ENV === 'development') {
     adminMiddleware,
     validateCommonRequest,
     requestLogger,
-    rankingController.resetRankings
+    async (req: Request, res: Response) => {
+      await rankingController.resetRankings(req, res);
+    }
   );
 
   /**
@@ -431,7 +631,9 @@ if (process.env.NODE_ENV === 'development') {
     adminMiddleware,
     validateCommonRequest,
     requestLogger,
-    rankingController.seedRankings
+    async (req: Request, res: Response) => {
+      await rankingController.seedRankings(req, res);
+    }
   );
 
   /**
@@ -444,7 +646,9 @@ if (process.env.NODE_ENV === 'development') {
     adminMiddleware,
     validateCommonRequest,
     requestLogger,
-    rankingController.simulateAirdrop
+    async (req: Request, res: Response) => {
+      await rankingController.simulateAirdrop(req, res);
+    }
   );
 }
 
@@ -0,0 +1,125 @@
+/**
+ * Tournament Routes - 토너먼트 API 라우트 설정
+ * 등록 기간/참가 조건/고정 라운드 수를 가진 토너먼트 조회·참가 및 관리자 생성
+ */
+
+import { Router, Request, Response } from 'express';
+import { TournamentController } from '../controllers/TournamentController';
+import { authMiddleware, adminMiddleware, optionalAuthMiddleware } from '../middlewares/auth';
+import { validateCommonRequest, requestLogger, standardizeResponse } from '../middlewares/validation';
+import { createRateLimiter } from '../middlewares/rateLimit';
+
+const router = Router();
+const tournamentController = new TournamentController();
+
+// 모든 라우트에 공통 미들웨어 적용
+router.use(standardizeResponse);
+
+// Rate Limiters 설정
+const generalRateLimit = createRateLimiter({
+  windowMs: 15 * 60 * 1000, // 15분
+  max: 100, // 최대 100회 요청
+  message: '너무 많은 요청입니다. 15분 후에 다시 시도해주세요.'
+});
+
+const registerRateLimit = createRateLimiter({
+  windowMs: 1 * 60 * 1000, // 1분
+  max: 10, // 최대 10회 요청
+  message: '참가 등록 요청이 너무 많습니다. 1분 후에 다시 시도해주세요.'
+});
+
+const adminRateLimit = createRateLimiter({
+  windowMs: 10 * 60 * 1000, // 10분
+  max: 5, // 최대 5회 요청
+  message: '관리자 작업 요청이 너무 많습니다. 10분 후에 다시 시도해주세요.'
+});
+
+/**
+ * GET /api/tournament
+ * 토너먼트 목록 (인증 불필요)
+ *
+ * @query {string} [status] - upcoming (등록 전/등록 중), live (진행 중), finished (종료/취소), 생략 시 live 와 upcoming 을 함께 반환
+ * @query {number} [limit=20] - 조회 개수 (최대 100)
+ * @query {number} [offset=0] - 시작 위치 (status 지정 시)
+ */
+router.get('/',
+  generalRateLimit,
+  async (req: Request, res: Response) => {
+    await tournamentController.getTournaments(req, res);
+  }
+);
+
+/**
+ * POST /api/tournament
+ * 토너먼트 생성 (관리자 전용, 전용 상금 테이블 함께 생성)
+ *
+ * @body {string} name - 토너먼트 이름
+ * @body {'elimination'|'cumulative'} [format=cumulative] - 진행 방식
+ * @body {string} symbol - 라운드 심볼 (예: BTC)
+ * @body {string} tier - 라운드 길이 등급 (1m, 5m, 15m, 1h)
+ * @body {number} roundCount - 라운드 수 (1-TOURNAMENT_MAX_ROUNDS)
+ * @body {string} [registrationOpensAt] - 등록 시작 시각 (생략 시 즉시)
+ * @body {string} registrationClosesAt - 등록 마감 시각 (이후 첫 라운드 배정)
+ * @body {object} [requirements] - 참가 조건 ({ missions: MissionType[], minGames: number })
+ * @body {number} [minEntrants] - 최소 참가자 수 (미달 시 취소, 기본 TOURNAMENT_MIN_ENTRANTS)
+ * @body {number} [maxEntrants] - 최대 참가자 수
+ * @body {Array} [tiers] - 상금 등급 (생략 시 기본 등급)
+ * @body {Array} [tieBreakers] - 동점자 규칙
+ */
+router.post('/',
+  adminRateLimit,
+  authMiddleware,
+  adminMiddleware,
+  validateCommonRequest,
+  requestLogger,
+  async (req: Request, res: Response) => {
+    await tournamentController.createTournament(req, res);
+  }
+);
+
+/**
+ * GET /api/tournament/:tournamentId
+ * 토너먼트 상세 (상금 테이블, 현재 라운드, 로그인 시 내 참가 정보/참가 조건 충족 여부)
+ *
+ * @param {string} tournamentId - 토너먼트 ID
+ */
+router.get('/:tournamentId',
+  generalRateLimit,
+  optionalAuthMiddleware,
+  async (req: Request, res: Response) => {
+    await tournamentController.getTournament(req, res);
+  }
+);
+
+/**
+ * GET /api/tournament/:tournamentId/leaderboard
+ * 토너먼트 순위표 (종료 시 확정 순위, 진행 중이면 현재 순위)
+ *
+ * @param {string} tournamentId - 토너먼트 ID
+ * @query {number} [limit=100] - 조회 개수 (최대 500)
+ * @query {number} [offset=0] - 시작 위치
+ */
+router.get('/:tournamentId/leaderboard',
+  generalRateLimit,
+  async (req: Request, res: Response) => {
+    await tournamentController.getLeaderboard(req, res);
+  }
+);
+
+/**
+ * POST /api/tournament/:tournamentId/register
+ * 참가 등록 (등록 기간 중, 참가 조건 충족 시)
+ *
+ * @param {string} tournamentId - 토너먼트 ID
+ */
+router.post('/:tournamentId/register',
+  registerRateLimit,
+  authMiddleware,
+  validateCommonRequest,
+  requestLogger,
+  async (req: Request, res: Response) => {
+    await tournamentController.register(req, res);
+  }
+);
+
+export default router;
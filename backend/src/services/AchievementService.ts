@@ -0,0 +1,411 @@
+// src/services/AchievementService.ts
+
+import { In, Repository } from 'typeorm';
+import { AppDataSource } from '../config/database';
+import { ACHIEVEMENTS, ACHIEVEMENT_EVENT_METRICS } from '../config/achievements';
+import { PRACTICE_GAME_TYPE } from '../models/Game';
+import { GamePrediction, GamePredictionStatus } from '../models/GamePrediction';
+import { GameScoreType } from '../models/GameScore';
+import { Ranking, RankingPeriod } from '../models/Ranking';
+import { User } from '../models/User';
+import { UserAchievement, UserAchievementStatus } from '../models/UserAchievement';
+import { UserMission } from '../models/UserMission';
+import { AchievementDefinition, AchievementMetric, AchievementMetrics, AchievementRequirement } from '../types/achievement.types';
+import { AppError } from '../middlewares/errorHandler';
+import { logger } from '../utils/logger';
+import { ScoreLedgerService } from './ScoreLedgerService';
+import { WebSocketService } from './WebSocketService';
+
+/**
+ * 사용자 업적 요약
+ */
+export interface AchievementSummary {
+  total: number;
+  completed: number;        // 달성 (수령 완료 포함)
+  claimed: number;
+  claimablePoints: number;  // 달성했지만 아직 받지 않은 보상 점수
+  badges: string[];         // 달성한 업적의 배지
+}
+
+/**
+ * 순위 변동 1건 (RankingEngine.recomputeRanks 결과)
+ */
+export interface AchievementRankChange {
+  userId: string;
+  newRank: number;
+}
+
+const EMPTY_METRICS: AchievementMetrics = {
+  wins: 0,
+  games: 0,
+  winRate: 0,
+  bestStreak: 0,
+  symbolWins: {},
+  missionsCompleted: 0
+};
+
+/**
+ * 지표별 현재 값 (rank 는 순위 변동 이벤트로만 판정)
+ */
+const METRIC_VALUES: Record<AchievementMetric, (metrics: AchievementMetrics, requirement: AchievementRequirement) => number> = {
+  wins: metrics => metrics.wins,
+  games: metrics => metrics.games,
+  // 최소 게임 수를 채우기 전에는 승률을 인정하지 않음
+  win_rate: (metrics, requirement) => metrics.games >= (requirement.minGames || 0) ? Math.floor(metrics.winRate) : 0,
+  best_streak: metrics => metrics.bestStreak,
+  symbol_wins: (metrics, requirement) => metrics.symbolWins[requirement.symbol?.toUpperCase() || ''] || 0,
+  rank: () => 0,
+  missions_completed: metrics => metrics.missionsCompleted
+};
+
+/**
+ * 업적 서비스
+ * 게임 정산, 순위 변동, 미션 완료 이벤트마다 관련 업적만 다시 판정해 진행 상황을 갱신하고,
+ * 목표에 도달하면 달성 처리(배지 부여)와 함께 notifications 채널로 본인에게 알림
+ * 판정은 이벤트의 증분이 아니라 누적 지표(점수 원장 기준 승/게임 수, 최고 연승 등)로 하므로
+ * 이벤트를 놓쳐도 다음 이벤트나 진행 상황 조회 때 바로잡힘 (순위 업적만 변동 시점에 판정)
+ * 점수 보상은 사용자가 수령할 때 점수 원장에 지급
+ */
+export class AchievementService {
+  private achievementRepository: Repository<UserAchievement>;
+  private userRepository: Repository<User>;
+  private rankingRepository: Repository<Ranking>;
+  private predictionRepository: Repository<GamePrediction>;
+  private userMissionRepository: Repository<UserMission>;
+  private scoreLedger: ScoreLedgerService;
+
+  constructor(private readonly definitions: AchievementDefinition[] = ACHIEVEMENTS) {
+    this.achievementRepository = AppDataSource.getRepository(UserAchievement);
+    this.userRepository = AppDataSource.getRepository(User);
+    this.rankingRepository = AppDataSource.getRepository(Ranking);
+    this.predictionRepository = AppDataSource.getRepository(GamePrediction);
+    this.userMissionRepository = AppDataSource.getRepository(UserMission);
+    this.scoreLedger = new ScoreLedgerService();
+  }
+
+  /**
+   * 업적 정의 목록
+   */
+  getDefinitions(): AchievementDefinition[] {
+    return this.definitions;
+  }
+
+  /**
+   * 사용자 업적 진행 상황 (조회 전에 누적 지표로 다시 판정)
+   */
+  async getProgress(userId: string): Promise<{ achievements: UserAchievement[]; summary: AchievementSummary }> {
+    await this.evaluate([userId], [...ACHIEVEMENT_EVENT_METRICS.game, ...ACHIEVEMENT_EVENT_METRICS.mission]);
+
+    const achievements = await this.achievementRepository.find({ where: { userId } });
+    return { achievements, summary: this.summarize(achievements) };
+  }
+
+  /**
+   * 달성한 업적의 점수 보상 수령
+   * 행을 잠근 뒤 상태를 바꾸고 같은 트랜잭션에서 점수 원장에 지급하므로 중복 수령되지 않음
+   */
+  async claim(userId: string, achievementId: string): Promise<UserAchievement> {
+    const definition = this.definitions.find(achievement => achievement.id === achievementId);
+    if (!definition) {
+      throw new AppError('업적을 찾을 수 없습니다.', 404);
+    }
+
+    return await AppDataSource.transaction(async manager => {
+      const achievement = await manager.findOne(UserAchievement, {
+        where: { userId, achievementId },
+        lock: { mode: 'pessimistic_write' }
+      });
+      if (!achievement || achievement.status === UserAchievementStatus.IN_PROGRESS) {
+        throw new AppError('아직 달성하지 않은 업적입니다.', 409);
+      }
+      if (achievement.status === UserAchievementStatus.CLAIMED) {
+        throw new AppError('이미 보상을 받은 업적입니다.', 409);
+      }
+
+      const entry = achievement.rewardPoints > 0
+        ? await this.scoreLedger.recordAward(userId, {
+          scoreType: GameScoreType.ACHIEVEMENT_REWARD,
+          points: achievement.rewardPoints,
+          description: `업적 달성: ${definition.title}`
+        }, { awardedBy: 'system' }, manager)
+        : null;
+
+      achievement.status = UserAchievementStatus.CLAIMED;
+      achievement.claimedAt = new Date();
+      achievement.metadata = { ...achievement.metadata, rewardScoreId: entry?.id };
+      return await manager.save(UserAchievement, achievement);
+    });
+  }
+
+  /**
+   * 정규 라운드 예측 정산 후 판정 (GameService)
+   */
+  async onPredictionsSettled(userIds: string[]): Promise<void> {
+    await this.evaluate(userIds, ACHIEVEMENT_EVENT_METRICS.game);
+  }
+
+  /**
+   * 미션 완료 후 판정 (MissionService)
+   */
+  async onMissionCompleted(userId: string): Promise<void> {
+    await this.evaluate([userId], ACHIEVEMENT_EVENT_METRICS.mission);
+  }
+
+  /**
+   * 순위 변동 후 판정 (RankingEngine)
+   * 순위 업적은 목표 순위 안에 든 순간 달성되며, 목표 밖 순위는 진행 상황으로 남기지 않음
+   */
+  async onRanksChanged(period: RankingPeriod, periodKey: string, changes: AchievementRankChange[]): Promise<void> {
+    const definitions = this.definitions.filter(definition =>
+      definition.requirement.type === 'rank' && definition.requirement.period === period
+    );
+    if (definitions.length === 0 || changes.length === 0) {
+      return;
+    }
+
+    for (const definition of definitions) {
+      const reached = changes.filter(change => change.newRank > 0 && change.newRank <= definition.requirement.value);
+      if (reached.length === 0) {
+        continue;
+      }
+
+      const existing = await this.loadExisting(reached.map(change => change.userId), [definition]);
+      for (const change of reached) {
+        const row = existing.get(`${change.userId}|${definition.id}`);
+        if (row && row.status !== UserAchievementStatus.IN_PROGRESS) {
+          continue;
+        }
+        await this.apply(change.userId, definition, row, definition.requirement.value, true, { periodKey });
+      }
+    }
+  }
+
+  /**
+   * 지정한 지표를 쓰는 업적을 사용자별 누적 지표로 다시 판정
+   */
+  private async evaluate(userIds: string[], metrics: AchievementMetric[]): Promise<void> {
+    const users = [...new Set(userIds)];
+    const definitions = this.definitions.filter(definition => metrics.includes(definition.requirement.type));
+    if (users.length === 0 || definitions.length === 0) {
+      return;
+    }
+
+    const [values, existing] = await Promise.all([
+      this.loadMetrics(users, new Set(definitions.map(definition => definition.requirement.type))),
+      this.loadExisting(users, definitions)
+    ]);
+
+    for (const userId of users) {
+      const userMetrics = values.get(userId) || EMPTY_METRICS;
+
+      for (const definition of definitions) {
+        const row = existing.get(`${userId}|${definition.id}`);
+        if (row && row.status !== UserAchievementStatus.IN_PROGRESS) {
+          continue;
+        }
+
+        const { progress, reached } = this.measure(definition, userMetrics);
+        if (!row && progress === 0) {
+          continue; // 진행이 없는 업적은 행을 만들지 않음
+        }
+        await this.apply(userId, definition, row, progress, reached);
+      }
+    }
+  }
+
+  /**
+   * 누적 지표로 업적 진행도 계산 (목표값에서 멈춤)
+   */
+  private measure(definition: AchievementDefinition, metrics: AchievementMetrics): { progress: number; reached: boolean } {
+    const { requirement } = definition;
+    const value = METRIC_VALUES[requirement.type](metrics, requirement);
+
+    return {
+      progress: Math.min(value, requirement.value),
+      reached: value >= requirement.value
+    };
+  }
+
+  /**
+   * 진행 상황 저장, 목표에 도달했으면 달성 처리 후 알림
+   * 달성 전환은 IN_PROGRESS 조건부 갱신으로 하므로 동시에 판정해도 알림은 한 번만 전송됨
+   */
+  private async apply(
+    userId: string,
+    definition: AchievementDefinition,
+    row: UserAchievement | undefined,
+    progress: number,
+    reached: boolean,
+    metadata?: { periodKey?: string }
+  ): Promise<void> {
+    if (!row) {
+      await this.achievementRepository
+        .createQueryBuilder()
+        .insert()
+        .into(UserAchievement)
+        .values({
+          userId,
+          achievementId: definition.id,
+          status: UserAchievementStatus.IN_PROGRESS,
+          progress: reached ? 0 : progress,
+          target: definition.requirement.value,
+          rewardPoints: definition.reward.points,
+          badge: definition.reward.badge ?? null
+        })
+        .orIgnore()
+        .execute();
+    }
+
+    if (!reached) {
+      if (row && row.progress !== progress) {
+        await this.achievementRepository.update(
+          { userId, achievementId: definition.id, status: UserAchievementStatus.IN_PROGRESS },
+          { progress }
+        );
+      }
+      return;
+    }
+
+    const completedAt = new Date();
+    const result = await this.achievementRepository.update(
+      { userId, achievementId: definition.id, status: UserAchievementStatus.IN_PROGRESS },
+      {
+        status: UserAchievementStatus.COMPLETED,
+        progress: definition.requirement.value,
+        completedAt,
+        ...(metadata ? { metadata: { ...row?.metadata, ...metadata } } : {})
+      }
+    );
+    if (!result.affected) {
+      return;
+    }
+
+    logger.info(`업적 달성 - 사용자: ${userId}, 업적: ${definition.id}`);
+    WebSocketService.getInstance().publishAchievementUnlocked({
+      userId,
+      achievementId: definition.id,
+      type: definition.type,
+      title: definition.title,
+      icon: definition.icon,
+      rewardPoints: definition.reward.points,
+      badge: definition.reward.badge,
+      completedAt
+    });
+  }
+
+  /**
+   * 사용자별 누적 지표 조회 (필요한 지표만)
+   */
+  private async loadMetrics(userIds: string[], metrics: Set<AchievementMetric>): Promise<Map<string, AchievementMetrics>> {
+    const result = new Map<string, AchievementMetrics>(
+      userIds.map(userId => [userId, { ...EMPTY_METRICS, symbolWins: {} }])
+    );
+    const entryOf = (userId: string): AchievementMetrics => {
+      let entry = result.get(userId);
+      if (!entry) {
+        entry = { ...EMPTY_METRICS, symbolWins: {} };
+        result.set(userId, entry);
+      }
+      return entry;
+    };
+
+    if (metrics.has('wins') || metrics.has('games') || metrics.has('win_rate')) {
+      // 점수 원장이 유지하는 사용자 통계 (연습 게임은 원장에 기록되지 않음)
+      const users = await this.userRepository.find({
+        select: ['id', 'gameCount', 'winCount'],
+        where: { id: In(userIds) }
+      });
+      for (const user of users) {
+        const entry = entryOf(user.id);
+        entry.games = user.gameCount || 0;
+        entry.wins = user.winCount || 0;
+        entry.winRate = entry.games > 0 ? (entry.wins / entry.games) * 100 : 0;
+      }
+    }
+
+    if (metrics.has('best_streak')) {
+      const rows: Array<{ userId: string; bestStreak: string }> = await this.rankingRepository
+        .createQueryBuilder('ranking')
+        .select('ranking.userId', 'userId')
+        .addSelect('MAX(ranking.bestStreak)', 'bestStreak')
+        .where('ranking.userId IN (:...userIds)', { userIds })
+        .andWhere('ranking.period = :period', { period: RankingPeriod.ALL_TIME })
+        .groupBy('ranking.userId')
+        .getRawMany();
+      for (const row of rows) {
+        entryOf(row.userId).bestStreak = Number(row.bestStreak) || 0;
+      }
+    }
+
+    if (metrics.has('symbol_wins')) {
+      const rows: Array<{ userId: string; symbol: string; wins: string }> = await this.predictionRepository
+        .createQueryBuilder('prediction')
+        .innerJoin('prediction.game', 'game')
+        .select('prediction.userId', 'userId')
+        .addSelect('game.tokenSymbol', 'symbol')
+        .addSelect('COUNT(*)', 'wins')
+        .where('prediction.userId IN (:...userIds)', { userIds })
+        .andWhere('prediction.status = :win', { win: GamePredictionStatus.WIN })
+        .andWhere('game.gameType != :practice', { practice: PRACTICE_GAME_TYPE })
+        .groupBy('prediction.userId')
+        .addGroupBy('game.tokenSymbol')
+        .getRawMany();
+      for (const row of rows) {
+        entryOf(row.userId).symbolWins[row.symbol.toUpperCase()] = parseInt(row.wins) || 0;
+      }
+    }
+
+    if (metrics.has('missions_completed')) {
+      const rows: Array<{ userId: string; completed: string }> = await this.userMissionRepository
+        .createQueryBuilder('userMission')
+        .select('userMission.userId', 'userId')
+        .addSelect('COUNT(*)', 'completed')
+        .where('userMission.userId IN (:...userIds)', { userIds })
+        .andWhere('userMission.status IN (:...statuses)', { statuses: ['completed', 'claimed'] })
+        .groupBy('userMission.userId')
+        .getRawMany();
+      for (const row of rows) {
+        entryOf(row.userId).missionsCompleted = parseInt(row.completed) || 0;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * 기존 진행 상황 조회 (키: userId|achievementId)
+   */
+  private async loadExisting(userIds: string[], definitions: AchievementDefinition[]): Promise<Map<string, UserAchievement>> {
+    const rows = await this.achievementRepository.find({
+      where: {
+        userId: In(userIds),
+        achievementId: In(definitions.map(definition => definition.id))
+      }
+    });
+
+    return new Map(rows.map(row => [`${row.userId}|${row.achievementId}`, row]));
+  }
+
+  /**
+   * 진행 상황 요약 (정의에서 빠진 업적은 제외)
+   */
+  private summarize(achievements: UserAchievement[]): AchievementSummary {
+    const ids = new Set(this.definitions.map(definition => definition.id));
+    const known = achievements.filter(achievement => ids.has(achievement.achievementId));
+    const completed = known.filter(achievement => achievement.isCompleted);
+
+    return {
+      total: this.definitions.length,
+      completed: completed.length,
+      claimed: completed.filter(achievement => achievement.status === UserAchievementStatus.CLAIMED).length,
+      claimablePoints: completed
+        .filter(achievement => achievement.status === UserAchievementStatus.COMPLETED)
+        .reduce((sum, achievement) => sum + achievement.rewardPoints, 0),
+      badges: completed
+        .map(achievement => achievement.badge)
+        .filter((badge): badge is string => !!badge)
+    };
+  }
+}
+
+export default AchievementService;
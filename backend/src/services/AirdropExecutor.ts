@@ -0,0 +1,561 @@
+// src/services/AirdropExecutor.ts
+
+import { In, Not, Repository } from 'typeorm';
+import { Interface, JsonRpcProvider, Transaction, TransactionRequest, Wallet, isAddress, isError, parseUnits } from 'ethers';
+import { AppDataSource } from '../config/database';
+import { airdropChainConfig, AirdropChainConfig, airdropTokens, AirdropTokenConfig } from '../config/blockchain';
+import { Ranking, AirdropStatus } from '../models/Ranking';
+import { AirdropTransfer } from '../models/AirdropTransfer';
+import { RewardTokenAmount } from '../models/RewardTable';
+import { User } from '../models/User';
+import { logger } from '../utils/logger';
+import { WebSocketService } from './WebSocketService';
+
+const ERC20_INTERFACE = new Interface(['function transfer(address to, uint256 amount) returns (bool)']);
+
+/**
+ * 에어드롭 지급 요청 (랭킹 행 단위)
+ */
+export interface AirdropPayout {
+  rankingId: string;
+  userId: string;
+  rank: number;
+  tier: number;
+  rewardTableId?: string;
+  rewards: RewardTokenAmount[]; // 토큰별 지급 수량
+}
+
+/**
+ * 에어드롭 전송 결과 (토큰 단위)
+ */
+export interface AirdropTransferResult {
+  transferId: string;
+  rankingId: string;
+  userId: string;
+  token: string;
+  amount: number;
+  status: AirdropStatus;
+  txHash?: string;
+  skipped?: boolean;
+  error?: string;
+}
+
+/**
+ * 에어드롭 실행기
+ * 트레저리 지갑으로 Catena 네이티브 CTA 및 ERC-20 토큰을 전송하고
+ * 토큰별 상태는 AirdropTransfer 행에, 종합 상태는 Ranking 행에 기록
+ *
+ * 중복 지급 방지:
+ * - 전송 행(rankingId + token)마다 PENDING/FAILED → PROCESSING 조건부 전환으로 선점
+ * - 서명한 트랜잭션 해시와 nonce를 전송 전에 먼저 저장 → 프로세스가 중단되어도 재확인 가능
+ * - PROCESSING 행은 다시 전송하지 않고 영수증/nonce 로만 확정 또는 실패 처리
+ * - 체인 반영 여부를 확정할 수 없는 행은 NEEDS_REVIEW 로 옮겨 자동 재시도에서 제외
+ */
+export class AirdropExecutor {
+  private rankingRepository: Repository<Ranking>;
+  private transferRepository: Repository<AirdropTransfer>;
+  private userRepository: Repository<User>;
+  private provider: JsonRpcProvider;
+  private wallet?: Wallet;
+  private nextNonce: number | null = null;
+
+  constructor(
+    private readonly config: AirdropChainConfig = airdropChainConfig,
+    private readonly tokens: Record<string, AirdropTokenConfig> = airdropTokens
+  ) {
+    this.rankingRepository = AppDataSource.getRepository(Ranking);
+    this.transferRepository = AppDataSource.getRepository(AirdropTransfer);
+    this.userRepository = AppDataSource.getRepository(User);
+    // 전송 직후 nonce, 영수증, 블록 번호를 다시 읽으므로 같은 요청의 응답을 재사용하는 캐시는 끔
+    this.provider = new JsonRpcProvider(config.rpcUrl, config.chainId, { staticNetwork: true, cacheTimeout: -1 });
+
+    if (config.treasuryPrivateKey) {
+      this.wallet = new Wallet(config.treasuryPrivateKey, this.provider);
+    }
+  }
+
+  /**
+   * 에어드롭 일괄 지급
+   * 모든 트랜잭션을 먼저 전송한 뒤 블록 확인을 기다림
+   */
+  async executePayouts(payouts: AirdropPayout[]): Promise<AirdropTransferResult[]> {
+    this.getWallet();
+
+    // 이전 실행에서 확정되지 않은 지급부터 정리
+    await this.reconcilePending();
+
+    const transfers: AirdropTransfer[] = [];
+    for (const payout of payouts) {
+      transfers.push(...await this.preparePayout(payout));
+    }
+
+    return await this.processTransfers(transfers);
+  }
+
+  /**
+   * 실패한 지급 재시도 (해당 랭킹의 실패한 토큰 전송만 다시 전송)
+   */
+  async retryPayout(rankingId: string): Promise<AirdropTransferResult[]> {
+    this.getWallet();
+
+    const ranking = await this.rankingRepository.findOne({ where: { id: rankingId } });
+    if (!ranking) {
+      throw new Error('에어드롭 정보를 찾을 수 없습니다.');
+    }
+
+    await this.reconcilePending();
+
+    const failed = await this.transferRepository.find({
+      where: { rankingId, status: AirdropStatus.FAILED }
+    });
+
+    if (failed.length === 0) {
+      throw new Error(`재시도할 수 없는 에어드롭 상태입니다: ${ranking.airdropStatus}`);
+    }
+
+    return await this.processTransfers(failed);
+  }
+
+  /**
+   * 확정되지 않은 (PROCESSING) 전송 재확인
+   * - 영수증이 있으면 확정/실패 처리
+   * - 멤풀에 남아있으면 유지
+   * - 해당 nonce가 소비되었는데 영수증을 다시 조회해도 없으면 수동 확인 대상(NEEDS_REVIEW)으로 전환
+   *   (지연되거나 부하 분산된 RPC 노드는 채굴된 트랜잭션도 찾지 못할 수 있으므로 실패로 보고 재전송하지 않음)
+   * @returns 상태가 바뀐 전송 수
+   */
+  async reconcilePending(): Promise<number> {
+    const wallet = this.getWallet();
+    const processing = await this.transferRepository.find({
+      where: { status: AirdropStatus.PROCESSING }
+    });
+
+    let updated = 0;
+    const touchedRankings = new Set<string>();
+
+    for (const transfer of processing) {
+      try {
+        // 서명 전에 중단된 경우 → 전송되지 않았으므로 실패 처리
+        if (!transfer.transactionHash) {
+          await this.markFailed(transfer, '트랜잭션 전송 전 중단됨');
+          touchedRankings.add(transfer.rankingId);
+          updated++;
+          continue;
+        }
+
+        const receipt = await this.provider.getTransactionReceipt(transfer.transactionHash);
+        if (receipt) {
+          if (await receipt.confirmations() >= this.config.confirmations) {
+            await this.finalize(transfer, receipt.status === 1);
+            touchedRankings.add(transfer.rankingId);
+            updated++;
+          }
+          continue;
+        }
+
+        if (await this.provider.getTransaction(transfer.transactionHash)) {
+          continue;
+        }
+
+        const latestNonce = await this.provider.getTransactionCount(wallet.address, 'latest');
+        if (transfer.nonce !== null && transfer.nonce !== undefined && latestNonce > transfer.nonce) {
+          // nonce 조회 사이에 채굴 결과가 보일 수 있으므로 영수증을 한 번 더 확인
+          const lateReceipt = await this.provider.getTransactionReceipt(transfer.transactionHash);
+          if (lateReceipt) {
+            if (await lateReceipt.confirmations() >= this.config.confirmations) {
+              await this.finalize(transfer, lateReceipt.status === 1);
+              touchedRankings.add(transfer.rankingId);
+              updated++;
+            }
+            continue;
+          }
+
+          await this.markNeedsReview(transfer, '트랜잭션을 찾을 수 없지만 nonce 가 소비됨 (체인 반영 여부 수동 확인 필요)');
+          touchedRankings.add(transfer.rankingId);
+          updated++;
+        }
+      } catch (error) {
+        logger.error(`에어드롭 전송 ${transfer.id} 재확인 실패:`, error);
+      }
+    }
+
+    for (const rankingId of touchedRankings) {
+      await this.syncRankingStatus(rankingId);
+    }
+
+    return updated;
+  }
+
+  /**
+   * 트레저리 지갑 잔액 조회 (CTA)
+   */
+  async getTreasuryBalance(): Promise<bigint> {
+    return await this.provider.getBalance(this.getWallet().address);
+  }
+
+  /**
+   * 지급 대상 확정: 토큰별 전송 행 생성 및 랭킹에 등급 기록
+   * 아직 전송하지 않은 (PENDING) 행은 현재 보상 테이블 수량으로 갱신
+   */
+  private async preparePayout(payout: AirdropPayout): Promise<AirdropTransfer[]> {
+    const ranking = await this.rankingRepository.findOne({ where: { id: payout.rankingId } });
+    if (!ranking) {
+      return [];
+    }
+
+    const existing = await this.transferRepository.find({ where: { rankingId: ranking.id } });
+
+    if (ranking.airdropStatus !== AirdropStatus.COMPLETED) {
+      for (const reward of payout.rewards) {
+        const transfer = existing.find(item => item.token === reward.token);
+
+        if (!transfer) {
+          await this.transferRepository
+            .createQueryBuilder()
+            .insert()
+            .into(AirdropTransfer)
+            .values({
+              rankingId: ranking.id,
+              userId: payout.userId,
+              rewardTableId: payout.rewardTableId,
+              tier: payout.tier,
+              token: reward.token,
+              amount: reward.amount
+            })
+            .orIgnore()
+            .execute();
+        } else if (transfer.status === AirdropStatus.PENDING) {
+          await this.transferRepository.update(
+            { id: transfer.id, status: AirdropStatus.PENDING },
+            { amount: reward.amount, tier: payout.tier, rewardTableId: payout.rewardTableId }
+          );
+        }
+      }
+
+      const nativeReward = payout.rewards.find(reward => this.tokens[reward.token]?.type === 'native');
+      await this.rankingRepository.update(ranking.id, {
+        rewardTier: payout.tier,
+        rewardTableId: payout.rewardTableId,
+        airdropAmount: nativeReward ? nativeReward.amount : 0
+      });
+    }
+
+    return await this.transferRepository.find({
+      where: { rankingId: ranking.id },
+      order: { createdAt: 'ASC' }
+    });
+  }
+
+  /**
+   * 전송 → 블록 확인 → 랭킹 종합 상태 갱신
+   */
+  private async processTransfers(transfers: AirdropTransfer[]): Promise<AirdropTransferResult[]> {
+    this.nextNonce = null;
+
+    const results: AirdropTransferResult[] = [];
+    for (const transfer of transfers) {
+      results.push(await this.sendTransfer(transfer));
+    }
+
+    for (const result of results) {
+      if (result.txHash && !result.skipped && result.status === AirdropStatus.PROCESSING) {
+        Object.assign(result, await this.waitForConfirmation(result.transferId, result.txHash));
+      }
+    }
+
+    for (const rankingId of new Set(results.map(result => result.rankingId))) {
+      await this.syncRankingStatus(rankingId);
+    }
+
+    return results;
+  }
+
+  /**
+   * 단일 토큰 전송
+   */
+  private async sendTransfer(transfer: AirdropTransfer): Promise<AirdropTransferResult> {
+    const base = {
+      transferId: transfer.id,
+      rankingId: transfer.rankingId,
+      userId: transfer.userId,
+      token: transfer.token,
+      amount: Number(transfer.amount)
+    };
+
+    if (transfer.status === AirdropStatus.COMPLETED || transfer.status === AirdropStatus.PROCESSING) {
+      return { ...base, status: transfer.status, txHash: transfer.transactionHash, skipped: true };
+    }
+
+    if (transfer.status === AirdropStatus.FAILED && transfer.retryCount >= this.config.maxRetries) {
+      return { ...base, status: AirdropStatus.FAILED, skipped: true, error: '최대 재시도 횟수 초과' };
+    }
+
+    const token = this.tokens[transfer.token];
+    if (!token || (token.type === 'erc20' && !token.address)) {
+      const reason = `지급 토큰 설정이 없습니다 (${transfer.token})`;
+      await this.markFailed(transfer, reason);
+      return { ...base, status: AirdropStatus.FAILED, error: reason };
+    }
+
+    const user = await this.userRepository.findOne({ where: { id: transfer.userId } });
+    if (!user?.walletAddress || !isAddress(user.walletAddress)) {
+      await this.markFailed(transfer, '유효한 지갑 주소가 없습니다');
+      return { ...base, status: AirdropStatus.FAILED, error: '유효한 지갑 주소가 없습니다' };
+    }
+
+    // 전송 선점 (동시에 실행되더라도 한 번만 전송)
+    const claim = await this.transferRepository.update(
+      { id: transfer.id, status: In([AirdropStatus.PENDING, AirdropStatus.FAILED]) },
+      {
+        status: AirdropStatus.PROCESSING,
+        failureReason: null,
+        transactionHash: null,
+        nonce: null
+      }
+    );
+
+    if (!claim.affected) {
+      return { ...base, status: AirdropStatus.PROCESSING, skipped: true };
+    }
+
+    let txHash: string | undefined;
+    try {
+      const wallet = this.getWallet();
+      if (this.nextNonce === null) {
+        this.nextNonce = await this.provider.getTransactionCount(wallet.address, 'pending');
+      }
+      const nonce = this.nextNonce;
+
+      const request = await wallet.populateTransaction({
+        ...this.buildTransfer(token, user.walletAddress, String(transfer.amount)),
+        chainId: this.config.chainId,
+        nonce
+      });
+      const signedTx = await wallet.signTransaction(request);
+      txHash = Transaction.from(signedTx).hash;
+
+      // 전송 전에 해시와 nonce를 먼저 기록
+      await this.transferRepository.update(transfer.id, { transactionHash: txHash, nonce });
+
+      await this.provider.broadcastTransaction(signedTx);
+      this.nextNonce = nonce + 1;
+
+      return { ...base, status: AirdropStatus.PROCESSING, txHash };
+    } catch (error) {
+      this.nextNonce = null;
+      const message = error instanceof Error ? error.message : 'Unknown error';
+
+      // 노드가 명확히 거부했거나 전송 전에 실패한 경우만 즉시 실패 처리
+      // 그 외 (네트워크 오류 등)는 실제 전송 여부를 알 수 없으므로 재확인에 맡김
+      if (!txHash || this.isRejected(error)) {
+        await this.markFailed(transfer, message);
+        return { ...base, status: AirdropStatus.FAILED, error: message };
+      }
+
+      logger.warn(`에어드롭 전송 ${transfer.id} 결과 불확실, 재확인 대기: ${message}`);
+      return { ...base, status: AirdropStatus.PROCESSING, txHash, error: message };
+    }
+  }
+
+  /**
+   * 토큰 종류별 트랜잭션 구성
+   */
+  private buildTransfer(token: AirdropTokenConfig, to: string, amount: string): TransactionRequest {
+    const value = parseUnits(this.trimDecimals(amount, token.decimals), token.decimals);
+
+    if (token.type === 'native') {
+      return { to, value };
+    }
+
+    return {
+      to: token.address,
+      data: ERC20_INTERFACE.encodeFunctionData('transfer', [to, value])
+    };
+  }
+
+  /**
+   * 소수 자릿수를 토큰 decimals 이내로 맞춤 (DB decimal 문자열의 뒤쪽 0 제거)
+   */
+  private trimDecimals(amount: string, decimals: number): string {
+    const [whole, fraction = ''] = amount.split('.');
+    const trimmed = fraction.replace(/0+$/, '').substring(0, decimals);
+    return trimmed ? `${whole}.${trimmed}` : whole;
+  }
+
+  /**
+   * 블록 확인 대기 후 전송 확정
+   */
+  private async waitForConfirmation(
+    transferId: string,
+    txHash: string
+  ): Promise<Pick<AirdropTransferResult, 'status' | 'error'>> {
+    try {
+      const receipt = await this.provider.waitForTransaction(
+        txHash,
+        this.config.confirmations,
+        this.config.confirmationTimeout
+      );
+
+      if (!receipt) {
+        return { status: AirdropStatus.PROCESSING };
+      }
+
+      const transfer = await this.transferRepository.findOne({ where: { id: transferId } });
+      if (!transfer) {
+        return { status: AirdropStatus.PROCESSING };
+      }
+
+      const success = receipt.status === 1;
+      await this.finalize(transfer, success);
+      return success
+        ? { status: AirdropStatus.COMPLETED }
+        : { status: AirdropStatus.FAILED, error: '트랜잭션 실행 실패 (reverted)' };
+    } catch (error) {
+      // 타임아웃 → PROCESSING 유지, 다음 실행 시 reconcilePending 에서 확정
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      logger.warn(`에어드롭 전송 ${transferId} 블록 확인 대기 실패: ${message}`);
+      return { status: AirdropStatus.PROCESSING, error: message };
+    }
+  }
+
+  /**
+   * 채굴된 트랜잭션 결과 반영
+   */
+  private async finalize(transfer: AirdropTransfer, success: boolean): Promise<void> {
+    if (success) {
+      const result = await this.transferRepository.update(
+        { id: transfer.id, transactionHash: transfer.transactionHash },
+        {
+          status: AirdropStatus.COMPLETED,
+          processedAt: new Date(),
+          failureReason: null
+        }
+      );
+
+      if (result.affected) {
+        await this.notifyCompleted(transfer);
+      }
+      return;
+    }
+
+    await this.markFailed(transfer, '트랜잭션 실행 실패 (reverted)');
+  }
+
+  /**
+   * 지급 완료 알림 (airdrop 채널, 본인 연결에만 전송)
+   */
+  private async notifyCompleted(transfer: AirdropTransfer): Promise<void> {
+    try {
+      const ranking = await this.rankingRepository.findOne({ where: { id: transfer.rankingId } });
+      if (!ranking) {
+        return;
+      }
+
+      WebSocketService.getInstance().publishAirdrop({
+        userId: transfer.userId,
+        amount: String(transfer.amount),
+        token: transfer.token,
+        rank: ranking.rank,
+        period: ranking.period,
+        txHash: transfer.transactionHash || undefined
+      });
+    } catch (error) {
+      logger.warn(`에어드롭 전송 ${transfer.id} 완료 알림 실패:`, error);
+    }
+  }
+
+  /**
+   * 전송 실패 기록 (재시도 횟수 증가)
+   * 실패한 전송은 체인에 반영되지 않은 것이 확실하므로 해시와 nonce 를 비움
+   */
+  private async markFailed(transfer: AirdropTransfer, reason: string): Promise<void> {
+    await this.transferRepository.update(
+      { id: transfer.id, status: Not(AirdropStatus.COMPLETED) },
+      {
+        status: AirdropStatus.FAILED,
+        failureReason: reason.substring(0, 500),
+        retryCount: transfer.retryCount + 1,
+        processedAt: new Date(),
+        transactionHash: null,
+        nonce: null
+      }
+    );
+  }
+
+  /**
+   * 수동 확인 대상으로 전환 (재시도 대상에서 제외)
+   * 실제로 채굴되었을 수 있으므로 해시와 nonce 를 남겨 체인 탐색기에서 확인할 수 있게 함
+   */
+  private async markNeedsReview(transfer: AirdropTransfer, reason: string): Promise<void> {
+    await this.transferRepository.update(
+      { id: transfer.id, status: AirdropStatus.PROCESSING },
+      {
+        status: AirdropStatus.NEEDS_REVIEW,
+        failureReason: reason.substring(0, 500),
+        processedAt: new Date()
+      }
+    );
+    logger.error(`에어드롭 전송 ${transfer.id} 수동 확인 필요: ${reason} (tx ${transfer.transactionHash}, nonce ${transfer.nonce})`);
+  }
+
+  /**
+   * 토큰별 전송 상태를 랭킹 행의 에어드롭 상태로 종합
+   * 모두 완료 → COMPLETED, 하나라도 처리 중 → PROCESSING, 하나라도 수동 확인 → NEEDS_REVIEW, 하나라도 실패 → FAILED
+   */
+  private async syncRankingStatus(rankingId: string): Promise<void> {
+    const transfers = await this.transferRepository.find({ where: { rankingId } });
+    if (transfers.length === 0) {
+      return;
+    }
+
+    const statuses = transfers.map(transfer => transfer.status);
+    let status = AirdropStatus.PENDING;
+    if (statuses.every(item => item === AirdropStatus.COMPLETED)) {
+      status = AirdropStatus.COMPLETED;
+    } else if (statuses.includes(AirdropStatus.PROCESSING)) {
+      status = AirdropStatus.PROCESSING;
+    } else if (statuses.includes(AirdropStatus.NEEDS_REVIEW)) {
+      status = AirdropStatus.NEEDS_REVIEW;
+    } else if (statuses.includes(AirdropStatus.FAILED)) {
+      status = AirdropStatus.FAILED;
+    }
+
+    const nativeTransfer = transfers.find(transfer => this.tokens[transfer.token]?.type === 'native');
+    const failureReasons = transfers
+      .filter(transfer => (transfer.status === AirdropStatus.FAILED || transfer.status === AirdropStatus.NEEDS_REVIEW) && transfer.failureReason)
+      .map(transfer => `${transfer.token}: ${transfer.failureReason}`);
+    const processedTimes = transfers
+      .filter(transfer => transfer.processedAt)
+      .map(transfer => new Date(transfer.processedAt as Date).getTime());
+
+    await this.rankingRepository.update(rankingId, {
+      airdropStatus: status,
+      transactionHash: (nativeTransfer || transfers[0]).transactionHash || null,
+      airdropFailureReason: failureReasons.length > 0 ? failureReasons.join(' / ').substring(0, 500) : null,
+      airdropRetryCount: Math.max(...transfers.map(transfer => transfer.retryCount)),
+      airdropProcessedAt: processedTimes.length > 0 ? new Date(Math.max(...processedTimes)) : null
+    });
+  }
+
+  /**
+   * 노드가 트랜잭션을 명확히 거부한 오류인지 확인
+   */
+  private isRejected(error: unknown): boolean {
+    return isError(error, 'INSUFFICIENT_FUNDS') ||
+      isError(error, 'NONCE_EXPIRED') ||
+      isError(error, 'REPLACEMENT_UNDERPRICED') ||
+      isError(error, 'TRANSACTION_REPLACED');
+  }
+
+  /**
+   * 트레저리 지갑 반환
+   */
+  private getWallet(): Wallet {
+    if (!this.wallet) {
+      throw new Error('에어드롭 트레저리 키가 설정되지 않았습니다. AIRDROP_TREASURY_PRIVATE_KEY를 확인하세요.');
+    }
+    return this.wallet;
+  }
+}
+
+export default AirdropExecutor;
@@ -0,0 +1,541 @@
+// src/services/DuelService.ts
+
+import { randomBytes } from 'crypto';
+import { EntityManager, In, IsNull, LessThanOrEqual, Repository } from 'typeorm';
+import { AppDataSource } from '../config/database';
+import { duelConfig, DuelConfig, gameRoundConfig } from '../config/game';
+import { Duel, DuelStatus, DuelExpireReason } from '../models/Duel';
+import { DuelLeg, DuelLegResult } from '../models/DuelLeg';
+import { Game, GameStatus } from '../models/Game';
+import { GamePredictionType } from '../models/GamePrediction';
+import { User } from '../models/User';
+import { AppError } from '../middlewares/errorHandler';
+import { calculateEloChange, EloOutcome } from '../utils/elo';
+import { logger } from '../utils/logger';
+import { GameService } from './GameService';
+import { DuelUpdatePayload, WebSocketService } from './WebSocketService';
+
+/**
+ * 대결 생성 입력
+ */
+export interface CreateDuelInput {
+  opponentUsername?: string; // 없으면 초대 링크로 누구나 수락 가능
+  symbol: string;
+  tier: string;
+  bestOf: number;
+}
+
+/**
+ * 대결 상세 (레그 포함)
+ */
+export interface DuelDetail {
+  duel: Duel;
+  legs: DuelLeg[];
+}
+
+// 라운드 상태별 레그 판정 가능 여부 (COMPLETED 는 가격 방향으로 판정, 나머지 종료 상태는 무효 레그)
+const VOID_ROUND_STATUSES = [GameStatus.VOID, GameStatus.CANCELLED, GameStatus.EXPIRED];
+
+/**
+ * 1:1 대결 서비스
+ * 초대/수락/레그 배정/레그 판정/시리즈 종료와 Elo 레이팅 반영을 담당
+ * 레그 배정과 판정은 GameRoundScheduler 점검마다 advanceDuels 로 진행
+ */
+export class DuelService {
+  private duelRepository: Repository<Duel>;
+  private legRepository: Repository<DuelLeg>;
+  private userRepository: Repository<User>;
+  private gameRepository: Repository<Game>;
+  private gameService: GameService;
+
+  constructor(private readonly config: DuelConfig = duelConfig) {
+    this.duelRepository = AppDataSource.getRepository(Duel);
+    this.legRepository = AppDataSource.getRepository(DuelLeg);
+    this.userRepository = AppDataSource.getRepository(User);
+    this.gameRepository = AppDataSource.getRepository(Game);
+    this.gameService = new GameService();
+  }
+
+  /**
+   * 초대 링크 주소
+   */
+  getInviteLink(duel: Duel): string {
+    return `${this.config.inviteBaseUrl}/${duel.inviteCode}`;
+  }
+
+  /**
+   * 대결 생성 (INVITED)
+   * 상대 사용자명을 지정하면 그 사용자만 수락할 수 있고, 없으면 초대 링크를 받은 누구나 수락 가능
+   */
+  async createDuel(challengerId: string, input: CreateDuelInput): Promise<Duel> {
+    const symbol = input.symbol?.toUpperCase();
+    if (!symbol || !gameRoundConfig.symbols.includes(symbol)) {
+      throw new AppError(`지원하지 않는 심볼입니다. (${gameRoundConfig.symbols.join(', ')})`, 400);
+    }
+    if (!gameRoundConfig.tiers.some(tier => tier.id === input.tier)) {
+      throw new AppError(`지원하지 않는 라운드 등급입니다. (${gameRoundConfig.tiers.map(tier => tier.id).join(', ')})`, 400);
+    }
+    if (!this.config.allowedBestOf.includes(input.bestOf)) {
+      throw new AppError(`시리즈 길이는 ${this.config.allowedBestOf.join(', ')} 중 하나여야 합니다.`, 400);
+    }
+
+    let opponent: User | null = null;
+    if (input.opponentUsername) {
+      opponent = await this.userRepository.findOne({ where: { username: input.opponentUsername } });
+      if (!opponent) {
+        throw new AppError('상대 사용자를 찾을 수 없습니다.', 404);
+      }
+      if (opponent.id === challengerId) {
+        throw new AppError('자기 자신에게는 대결을 신청할 수 없습니다.', 400);
+      }
+    }
+
+    const duel = await this.duelRepository.save(this.duelRepository.create({
+      challengerId,
+      opponentId: opponent?.id,
+      inviteCode: randomBytes(9).toString('base64url'),
+      symbol,
+      tier: input.tier,
+      bestOf: input.bestOf,
+      status: DuelStatus.INVITED,
+      expiresAt: new Date(Date.now() + this.config.inviteTtl)
+    }));
+
+    if (duel.opponentId) {
+      this.notify(duel, 'invited', [duel.opponentId]);
+    }
+    return duel;
+  }
+
+  /**
+   * 대결 수락 (INVITED → ACCEPTED)
+   * 수락 즉시 예측 접수 중인 라운드가 있으면 첫 레그를 배정
+   * @param key 대결 ID 또는 초대 코드
+   */
+  async acceptDuel(key: string, userId: string): Promise<Duel> {
+    const accepted = await AppDataSource.transaction(async manager => {
+      const duel = await this.lockDuel(manager, key);
+
+      if (duel.status !== DuelStatus.INVITED || !duel.canTransitionTo(DuelStatus.ACCEPTED)) {
+        throw new AppError('수락할 수 없는 대결입니다.', 400);
+      }
+      if (duel.expiresAt.getTime() <= Date.now()) {
+        throw new AppError('만료된 초대입니다.', 400);
+      }
+      if (duel.challengerId === userId) {
+        throw new AppError('자신이 신청한 대결은 수락할 수 없습니다.', 400);
+      }
+      if (duel.opponentId && duel.opponentId !== userId) {
+        throw new AppError('다른 사용자에게 보낸 초대입니다.', 403);
+      }
+
+      duel.opponentId = userId;
+      duel.status = DuelStatus.ACCEPTED;
+      duel.acceptedAt = new Date();
+      return await manager.save(Duel, duel);
+    });
+
+    this.notify(accepted, 'accepted', [accepted.challengerId]);
+    return await this.startNextLeg(accepted) || accepted;
+  }
+
+  /**
+   * 초대 거절 (상대만, INVITED → EXPIRED)
+   */
+  async declineDuel(key: string, userId: string): Promise<Duel> {
+    return await this.expireInvite(key, userId, 'declined');
+  }
+
+  /**
+   * 초대 취소 (도전자만, INVITED → EXPIRED)
+   */
+  async cancelDuel(key: string, userId: string): Promise<Duel> {
+    return await this.expireInvite(key, userId, 'cancelled');
+  }
+
+  /**
+   * 현재 레그 예측 제출 (레그 라운드의 예측 마감 전까지 변경 가능)
+   */
+  async predictLeg(duelId: string, userId: string, predictionType: GamePredictionType): Promise<DuelLeg> {
+    return await AppDataSource.transaction(async manager => {
+      const duel = await manager.findOne(Duel, { where: { id: duelId } });
+      if (!duel) {
+        throw new AppError('대결을 찾을 수 없습니다.', 404);
+      }
+
+      const side = duel.sideOf(userId);
+      if (!side) {
+        throw new AppError('대결 참가자가 아닙니다.', 403);
+      }
+      if (duel.status !== DuelStatus.IN_PROGRESS) {
+        throw new AppError('진행 중인 대결이 아닙니다.', 400);
+      }
+
+      const current = await manager.findOne(DuelLeg, {
+        where: { duelId, result: IsNull() },
+        order: { legNumber: 'DESC' },
+        lock: { mode: 'pessimistic_write' }
+      });
+      if (!current) {
+        throw new AppError('다음 레그 라운드를 기다리는 중입니다.', 400);
+      }
+
+      // 정규 예측과 같은 기준(서버 시각, 마감 직전 거절 구간)으로 마감 확인
+      const game = await manager.findOne(Game, {
+        where: { id: current.gameId },
+        lock: { mode: 'pessimistic_read' }
+      });
+      if (!game) {
+        throw new AppError('레그 라운드를 찾을 수 없습니다.', 404);
+      }
+      this.gameService.assertPredictionOpen(game);
+
+      if (side === 'challenger') {
+        current.challengerPrediction = predictionType;
+        current.challengerPredictedAt = new Date();
+      } else {
+        current.opponentPrediction = predictionType;
+        current.opponentPredictedAt = new Date();
+      }
+      return await manager.save(DuelLeg, current);
+    });
+  }
+
+  /**
+   * 대결 상세 조회
+   */
+  async getDuel(key: string): Promise<DuelDetail | null> {
+    const duel = await this.duelRepository.findOne({
+      where: this.keyCondition(key),
+      relations: ['challenger', 'opponent']
+    });
+    if (!duel) {
+      return null;
+    }
+
+    const legs = await this.legRepository.find({
+      where: { duelId: duel.id },
+      order: { legNumber: 'ASC' }
+    });
+    return { duel, legs };
+  }
+
+  /**
+   * 사용자의 대결 기록 (최신순)
+   */
+  async getUserDuels(userId: string, limit: number = 20, offset: number = 0): Promise<{ duels: Duel[]; total: number }> {
+    const [duels, total] = await this.duelRepository.findAndCount({
+      where: [{ challengerId: userId }, { opponentId: userId }],
+      relations: ['challenger', 'opponent'],
+      order: { createdAt: 'DESC' },
+      take: limit,
+      skip: offset
+    });
+    return { duels, total };
+  }
+
+  /**
+   * 대결 진행 점검 (스케줄러 점검마다 호출)
+   * 만료된 초대 정리 → 종료된 레그 라운드 판정 → 다음 레그 배정 순서로 처리
+   */
+  async advanceDuels(now: Date = new Date()): Promise<void> {
+    const expired = await this.duelRepository.find({
+      where: { status: DuelStatus.INVITED, expiresAt: LessThanOrEqual(now) }
+    });
+    for (const duel of expired) {
+      await this.closeInvite(duel, 'invite_timeout');
+    }
+
+    const running = await this.duelRepository.find({
+      where: { status: In([DuelStatus.ACCEPTED, DuelStatus.IN_PROGRESS]) }
+    });
+
+    for (const duel of running) {
+      try {
+        const openLeg = await this.legRepository.findOne({
+          where: { duelId: duel.id, result: IsNull() },
+          order: { legNumber: 'DESC' }
+        });
+
+        if (openLeg) {
+          await this.resolveLeg(duel, openLeg);
+        } else {
+          await this.startNextLeg(duel);
+        }
+      } catch (error) {
+        logger.error(`대결 ${duel.id} 진행 실패 (다음 점검에서 재시도):`, error);
+      }
+    }
+  }
+
+  /**
+   * 레그 판정
+   * 라운드 시작 가격 대비 종료 가격 방향(라운드 보합 허용 범위 적용)을 맞힌 쪽이 승리
+   * 한쪽만 맞혔을 때만 승패가 갈리고, 예측하지 않은 쪽은 틀린 것으로 봄
+   */
+  static judgeLeg(leg: DuelLeg, game: Game): { result: DuelLegResult; outcome?: DuelLeg['outcome'] } {
+    if (VOID_ROUND_STATUSES.includes(game.status)) {
+      return { result: 'void' };
+    }
+
+    const startPrice = Number(game.startPrice);
+    const endPrice = Number(game.endPrice);
+    const changePercent = startPrice > 0 ? (endPrice - startPrice) / startPrice * 100 : 0;
+    const outcome = Math.abs(changePercent) <= Number(game.flatTolerancePercent || 0)
+      ? 'flat'
+      : changePercent > 0 ? 'up' : 'down';
+
+    const challengerCorrect = outcome !== 'flat' && leg.challengerPrediction === outcome;
+    const opponentCorrect = outcome !== 'flat' && leg.opponentPrediction === outcome;
+
+    if (challengerCorrect === opponentCorrect) {
+      return { result: 'draw', outcome };
+    }
+    return { result: challengerCorrect ? 'challenger' : 'opponent', outcome };
+  }
+
+  /**
+   * 종료된 레그 라운드 판정 및 시리즈 집계
+   * 과반 승리 또는 최대 레그 수에 도달하면 같은 트랜잭션에서 시리즈를 종료하고 레이팅 반영
+   */
+  private async resolveLeg(duel: Duel, leg: DuelLeg): Promise<void> {
+    const game = await this.gameRepository.findOne({ where: { id: leg.gameId } });
+    if (!game || (game.status !== GameStatus.COMPLETED && !VOID_ROUND_STATUSES.includes(game.status))) {
+      return;
+    }
+
+    const { result, outcome } = DuelService.judgeLeg(leg, game);
+
+    const resolved = await AppDataSource.transaction(async manager => {
+      const updated = await manager.update(
+        DuelLeg,
+        { id: leg.id, result: IsNull() },
+        { result, outcome, resolvedAt: new Date() }
+      );
+      if (!updated.affected) {
+        return null;
+      }
+
+      const locked = await this.lockDuel(manager, duel.id);
+      if (result === 'challenger') {
+        locked.challengerWins += 1;
+      } else if (result === 'opponent') {
+        locked.opponentWins += 1;
+      } else if (result === 'draw') {
+        locked.drawLegs += 1;
+      }
+
+      const decided = locked.challengerWins >= locked.winsNeeded || locked.opponentWins >= locked.winsNeeded;
+      if (decided || locked.legCount >= locked.bestOf * this.config.maxLegFactor) {
+        await this.finishDuel(manager, locked);
+      }
+      return await manager.save(Duel, locked);
+    });
+
+    if (!resolved) {
+      return;
+    }
+
+    const participants = [resolved.challengerId, resolved.opponentId as string];
+    this.notify(resolved, 'leg_resolved', participants, { legNumber: leg.legNumber, gameId: leg.gameId });
+    if (resolved.status === DuelStatus.FINISHED) {
+      this.notify(resolved, 'finished', participants);
+    }
+  }
+
+  /**
+   * 시리즈 종료 (IN_PROGRESS → FINISHED) 및 Elo 레이팅 반영
+   * 호출한 트랜잭션 안에서 두 사용자 행을 ID 순으로 잠근 뒤 갱신
+   */
+  private async finishDuel(manager: EntityManager, duel: Duel): Promise<void> {
+    if (!duel.canTransitionTo(DuelStatus.FINISHED) || !duel.opponentId) {
+      return;
+    }
+
+    const users = await manager.find(User, {
+      where: { id: In([duel.challengerId, duel.opponentId]) },
+      order: { id: 'ASC' },
+      lock: { mode: 'pessimistic_write' }
+    });
+    const challenger = users.find(user => user.id === duel.challengerId);
+    const opponent = users.find(user => user.id === duel.opponentId);
+    if (!challenger || !opponent) {
+      throw new Error('대결 참가자를 찾을 수 없습니다.');
+    }
+
+    const outcome: EloOutcome = duel.challengerWins === duel.opponentWins
+      ? 'draw'
+      : duel.challengerWins > duel.opponentWins ? 'win' : 'lose';
+    const change = calculateEloChange(challenger.duelRating, opponent.duelRating, outcome, this.config.eloK);
+
+    duel.metadata = {
+      ...duel.metadata,
+      challengerRatingBefore: challenger.duelRating,
+      opponentRatingBefore: opponent.duelRating,
+      expectedScore: Number(change.expected.toFixed(4))
+    };
+
+    challenger.duelRating += change.deltaA;
+    opponent.duelRating += change.deltaB;
+    if (outcome === 'draw') {
+      challenger.duelDraws += 1;
+      opponent.duelDraws += 1;
+    } else if (outcome === 'win') {
+      challenger.duelWins += 1;
+      opponent.duelLosses += 1;
+    } else {
+      challenger.duelLosses += 1;
+      opponent.duelWins += 1;
+    }
+    await manager.save(User, [challenger, opponent]);
+
+    duel.status = DuelStatus.FINISHED;
+    duel.finishedAt = new Date();
+    duel.winnerId = outcome === 'draw' ? undefined : outcome === 'win' ? challenger.id : opponent.id;
+    duel.challengerRatingChange = change.deltaA;
+    duel.opponentRatingChange = change.deltaB;
+  }
+
+  /**
+   * 다음 레그 배정 (ACCEPTED/IN_PROGRESS, 진행 중인 레그가 없을 때)
+   * 예측 마감까지 충분한 시간이 남은 같은 심볼/등급의 라운드가 없으면 다음 점검까지 대기
+   * @returns 배정했으면 갱신된 대결, 아니면 null
+   */
+  private async startNextLeg(duel: Duel): Promise<Duel | null> {
+    const round = await this.gameService.getOpenRound(duel.symbol, duel.tier);
+    if (!round?.predictionDeadline || round.predictionDeadline.getTime() - Date.now() < this.config.legMinLeadTime) {
+      return null;
+    }
+
+    const started = await AppDataSource.transaction(async manager => {
+      const locked = await this.lockDuel(manager, duel.id);
+      if (locked.status !== DuelStatus.ACCEPTED && locked.status !== DuelStatus.IN_PROGRESS) {
+        return null;
+      }
+
+      const pending = await manager.count(DuelLeg, { where: { duelId: locked.id, result: IsNull() } });
+      const reused = await manager.count(DuelLeg, { where: { duelId: locked.id, gameId: round.id } });
+      if (pending > 0 || reused > 0) {
+        return null;
+      }
+
+      locked.legCount += 1;
+      await manager.save(DuelLeg, manager.create(DuelLeg, {
+        duelId: locked.id,
+        legNumber: locked.legCount,
+        gameId: round.id
+      }));
+
+      if (locked.status === DuelStatus.ACCEPTED) {
+        locked.status = DuelStatus.IN_PROGRESS;
+        locked.startedAt = new Date();
+      }
+      return await manager.save(Duel, locked);
+    });
+
+    if (started) {
+      this.notify(started, 'leg_started', [started.challengerId, started.opponentId as string], {
+        legNumber: started.legCount,
+        gameId: round.id,
+        predictionDeadline: round.predictionDeadline
+      });
+    }
+    return started;
+  }
+
+  /**
+   * 초대 거절/취소 (요청자 권한 확인 후 EXPIRED)
+   */
+  private async expireInvite(key: string, userId: string, reason: DuelExpireReason): Promise<Duel> {
+    const duel = await this.duelRepository.findOne({ where: this.keyCondition(key) });
+    if (!duel) {
+      throw new AppError('대결을 찾을 수 없습니다.', 404);
+    }
+
+    const allowed = reason === 'cancelled' ? duel.challengerId === userId : duel.opponentId === userId;
+    if (!allowed) {
+      throw new AppError(reason === 'cancelled' ? '대결을 신청한 사용자만 취소할 수 있습니다.' : '초대받은 사용자만 거절할 수 있습니다.', 403);
+    }
+
+    const closed = await this.closeInvite(duel, reason);
+    if (!closed) {
+      throw new AppError('이미 수락되었거나 종료된 대결입니다.', 400);
+    }
+    return closed;
+  }
+
+  /**
+   * 초대 종료 (INVITED → EXPIRED)
+   * @returns 다른 요청이 먼저 상태를 바꿨다면 null
+   */
+  private async closeInvite(duel: Duel, reason: DuelExpireReason): Promise<Duel | null> {
+    if (!duel.canTransitionTo(DuelStatus.EXPIRED)) {
+      return null;
+    }
+
+    const metadata = { ...duel.metadata, expireReason: reason };
+    const result = await this.duelRepository.update(
+      { id: duel.id, status: DuelStatus.INVITED },
+      { status: DuelStatus.EXPIRED, metadata }
+    );
+    if (!result.affected) {
+      return null;
+    }
+
+    duel.status = DuelStatus.EXPIRED;
+    duel.metadata = metadata;
+    this.notify(duel, 'expired', [duel.challengerId, duel.opponentId].filter((id): id is string => !!id));
+    return duel;
+  }
+
+  /**
+   * 대결 행 잠금 조회 (ID 또는 초대 코드)
+   */
+  private async lockDuel(manager: EntityManager, key: string): Promise<Duel> {
+    const duel = await manager.findOne(Duel, {
+      where: this.keyCondition(key),
+      lock: { mode: 'pessimistic_write' }
+    });
+    if (!duel) {
+      throw new AppError('대결을 찾을 수 없습니다.', 404);
+    }
+    return duel;
+  }
+
+  /**
+   * 대결 ID(UUID) 또는 초대 코드 조회 조건
+   */
+  private keyCondition(key: string): { id: string } | { inviteCode: string } {
+    return /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(key)
+      ? { id: key }
+      : { inviteCode: key };
+  }
+
+  /**
+   * 참가자 알림 (실패해도 대결 진행에는 영향 없음)
+   */
+  private notify(
+    duel: Duel,
+    event: DuelUpdatePayload['event'],
+    userIds: string[],
+    extra: Pick<DuelUpdatePayload, 'legNumber' | 'gameId' | 'predictionDeadline'> = {}
+  ): void {
+    try {
+      for (const userId of userIds) {
+        WebSocketService.getInstance().publishDuelUpdate({
+          userId,
+          duelId: duel.id,
+          event,
+          status: duel.status,
+          challengerWins: duel.challengerWins,
+          opponentWins: duel.opponentWins,
+          ...extra
+        });
+      }
+    } catch (error) {
+      logger.warn(`대결 ${duel.id} 알림 전송 실패:`, error);
+    }
+  }
+}
+
+export default DuelService;
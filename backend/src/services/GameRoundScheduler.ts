@@ -0,0 +1,207 @@
+/**
+ * GameRoundScheduler - 서버 주도 게임 라운드 스케줄러
+ * 심볼/길이 등급별로 일정 주기마다 라운드를 열고 WAITING → ACTIVE → COMPLETED 로 전환하며
+ * 종료된 라운드의 모든 예측을 자동 정산 (정산 가격을 제때 확정하지 못한 라운드는 VOID)
+ *
+ * 모든 상태는 데이터베이스에서 읽어오므로 재시작 후 첫 점검에서
+ * 중단되었던 라운드도 이어서 전환/정산됨
+ * 연습 게임도 같은 전환/정산을 거치며, 가격은 오라클 대신 저장된 재생 가격을 사용
+ */
+
+import { LessThanOrEqual, Not, Repository } from 'typeorm';
+import { getDataSource } from '../config/database';
+import { gameRoundConfig, GameRoundConfig } from '../config/game';
+import { Game, GameStatus, PRACTICE_GAME_TYPE } from '../models/Game';
+import { logger } from '../utils/logger';
+import { GameService } from './GameService';
+import { DuelService } from './DuelService';
+import { TournamentService } from './TournamentService';
+
+export class GameRoundScheduler {
+  private static instance: GameRoundScheduler;
+
+  private gameRepository?: Repository<Game>;
+  private gameService?: GameService;
+  private duelService?: DuelService;
+  private tournamentService?: TournamentService;
+  private timer?: NodeJS.Timeout;
+  private isTicking = false;
+
+  private constructor(private readonly config: GameRoundConfig = gameRoundConfig) {}
+
+  /**
+   * 싱글톤 인스턴스 반환
+   */
+  public static getInstance(): GameRoundScheduler {
+    if (!GameRoundScheduler.instance) {
+      GameRoundScheduler.instance = new GameRoundScheduler();
+    }
+    return GameRoundScheduler.instance;
+  }
+
+  /**
+   * 스케줄러 시작 (데이터베이스 초기화 이후 호출)
+   */
+  public async start(): Promise<void> {
+    if (!this.config.enabled) {
+      logger.info('GameRoundScheduler 비활성화됨 (GAME_SCHEDULER_ENABLED=false)');
+      return;
+    }
+
+    if (this.timer) {
+      logger.info('GameRoundScheduler already running');
+      return;
+    }
+
+    this.gameRepository = getDataSource().getRepository(Game);
+    this.gameService = new GameService();
+    this.duelService = new DuelService();
+    this.tournamentService = new TournamentService();
+
+    // 정산 도중 프로세스가 종료된 라운드 복구
+    const recovered = await this.gameService.recoverInterruptedSettlements();
+    if (recovered > 0) {
+      logger.info(`중단된 라운드 정산 복구: ${recovered}개`);
+    }
+
+    await this.tick();
+    this.timer = setInterval(() => {
+      void this.tick();
+    }, this.config.tickInterval);
+
+    logger.info('✅ GameRoundScheduler 시작', {
+      symbols: this.config.symbols,
+      tiers: this.config.tiers.map(tier => tier.id)
+    });
+  }
+
+  /**
+   * 스케줄러 중지
+   */
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+      logger.info('GameRoundScheduler 중지');
+    }
+  }
+
+  /**
+   * 스케줄러 점검 1회 실행
+   * 예측 마감된 라운드 시작 → 종료 시각이 지난 라운드 정산 → 새 라운드 생성 → 대결 레그/토너먼트 라운드 판정·배정 순서로 처리
+   */
+  public async tick(): Promise<void> {
+    if (this.isTicking) {
+      return;
+    }
+
+    this.isTicking = true;
+    try {
+      const now = new Date();
+      await this.lockDueRounds(now);
+      await this.settleDueRounds();
+      await this.openDueRounds(now);
+      await this.duelService?.advanceDuels(now);
+      await this.tournamentService?.advanceTournaments(now);
+    } catch (error) {
+      logger.error('GameRoundScheduler 점검 실패:', error);
+    } finally {
+      this.isTicking = false;
+    }
+  }
+
+  /**
+   * 예측 마감 시각이 지난 WAITING 라운드를 ACTIVE로 전환
+   */
+  private async lockDueRounds(now: Date): Promise<void> {
+    const { gameRepository, gameService } = this.getDependencies();
+
+    const dueGames = await gameRepository.find({
+      where: {
+        status: GameStatus.WAITING,
+        predictionDeadline: LessThanOrEqual(now)
+      }
+    });
+
+    for (const game of dueGames) {
+      try {
+        const locked = await gameService.lockRound(game);
+        if (locked?.status === GameStatus.VOID) {
+          logger.warn(`라운드 무효: ${game.symbol} ${game.id} (시작 가격 ${locked.metadata?.voidReason})`);
+        } else if (locked) {
+          logger.info(`라운드 시작: ${game.symbol} ${game.id} (시작 가격 ${game.startPrice})`);
+        }
+      } catch (error) {
+        logger.error(`라운드 ${game.id} 시작 실패 (다음 점검에서 재시도):`, error);
+      }
+    }
+  }
+
+  /**
+   * 종료 시각이 지난 ACTIVE 라운드를 정산
+   */
+  private async settleDueRounds(): Promise<void> {
+    const { gameRepository, gameService } = this.getDependencies();
+
+    const activeGames = await gameRepository.find({
+      where: { status: GameStatus.ACTIVE }
+    });
+
+    for (const game of activeGames) {
+      try {
+        const settled = await gameService.settleRound(game);
+        if (settled?.status === GameStatus.VOID) {
+          logger.warn(`라운드 무효: ${game.symbol} ${game.id} (종료 가격 ${settled.metadata?.voidReason})`);
+        } else if (settled) {
+          logger.info(`라운드 정산 완료: ${game.symbol} ${game.id} (종료 가격 ${game.endPrice})`);
+        }
+      } catch (error) {
+        logger.error(`라운드 ${game.id} 정산 실패 (다음 점검에서 재시도):`, error);
+      }
+    }
+  }
+
+  /**
+   * 심볼/등급별로 라운드 간격이 지났으면 새 라운드 생성
+   * 등급마다 독립적으로 열리므로 한 심볼에 여러 라운드가 동시에 진행됨 (연습 게임은 간격 계산에서 제외)
+   */
+  private async openDueRounds(now: Date): Promise<void> {
+    const { gameRepository, gameService } = this.getDependencies();
+
+    for (const symbol of this.config.symbols) {
+      for (const tier of this.config.tiers) {
+        try {
+          const latestGame = await gameRepository.findOne({
+            where: { tokenSymbol: symbol, tier: tier.id, gameType: Not(PRACTICE_GAME_TYPE) },
+            order: { createdAt: 'DESC' }
+          });
+
+          if (latestGame && latestGame.createdAt.getTime() + tier.roundInterval > now.getTime()) {
+            continue;
+          }
+
+          const game = await gameService.openRound(symbol, { tier: tier.id });
+          logger.info(`새 라운드 생성: ${symbol} ${tier.id} ${game.id} (예측 마감 ${game.predictionDeadline?.toISOString()})`);
+        } catch (error) {
+          logger.error(`${symbol} ${tier.id} 라운드 생성 실패:`, error);
+        }
+      }
+    }
+  }
+
+  /**
+   * 안전한 의존성 접근
+   */
+  private getDependencies(): { gameRepository: Repository<Game>; gameService: GameService } {
+    if (!this.gameRepository || !this.gameService) {
+      throw new Error('GameRoundScheduler가 시작되지 않았습니다. start()를 먼저 호출하세요.');
+    }
+
+    return {
+      gameRepository: this.gameRepository,
+      gameService: this.gameService
+    };
+  }
+}
+
+export default GameRoundScheduler;
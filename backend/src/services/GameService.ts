@@ -1,12 +1,51 @@
 // src/services/GameService.ts
 
-import { Repository } from 'typeorm';
+import { EntityManager, In, IsNull, MoreThan, Not, Repository } from 'typeorm';
 import { AppDataSource } from '../config/database';
-import { Game, GameStatus } from '../models/Game';
+import { gamePredictionGuardConfig, gameRoundConfig, GameStakeMode, gameStakeConfig, getRoundTier, TOKEN_NAMES } from '../config/game';
+import { Game, GameStatus, GameVoidReason, PRACTICE_GAME_TYPE, PricePoint } from '../models/Game';
 import { GamePrediction, GamePredictionStatus, GamePredictionType } from '../models/GamePrediction';
-import { GameScore, GameScoreType, GameScoreStatus } from '../models/GameScore';
 // import { User } from '../models/User'; // 사용하지 않음
-import { PriceService } from './PriceService';
+import { Ranking } from '../models/Ranking';
+import { PriceService, SymbolPrice } from './PriceService';
+import { RankingEngine, SettledScore, TRACKED_PERIODS } from './RankingEngine';
+import { AchievementService } from './AchievementService';
+import { ScoreLedgerService } from './ScoreLedgerService';
+import { SettlementService } from './SettlementService';
+import { SettlementPriceKind } from '../models/SettlementRecord';
+import { WebSocketService } from './WebSocketService';
+import { AppError } from '../middlewares/errorHandler';
+import { logger } from '../utils/logger';
+import { getMaxStreakTier, ScoringContext } from '../utils/scoring';
+import { calculateStakeSettlements, StakeEntry } from '../utils/staking';
+import { evaluatePredictionTiming, isPriceStale } from '../utils/predictionTiming';
+import { getReplayPrice, getReplayTime } from '../utils/priceReplay';
+
+// 예측 상태별 스테이크 정산 결과 (PENDING 은 정산 대상 아님)
+const STAKE_RESULTS: Partial<Record<GamePredictionStatus, StakeEntry['result']>> = {
+  [GamePredictionStatus.WIN]: 'win',
+  [GamePredictionStatus.LOSE]: 'lose',
+  [GamePredictionStatus.DRAW]: 'draw',
+  [GamePredictionStatus.CANCELLED]: 'void',
+  [GamePredictionStatus.WITHDRAWN]: 'void'
+};
+
+/**
+ * 로비 라운드 (예측 접수 중)
+ */
+export interface LobbyRound {
+  game: Game;
+  participants: number;
+  stakePool: number; // 라운드에 예치된 스테이크 합계
+}
+
+/**
+ * 예측 요청 접수 정보 (컨트롤러가 요청을 받은 시각 기준)
+ */
+export interface PredictionReceipt {
+  receivedAt: number;        // 서버 접수 시각 (Unix ms)
+  clientTimestamp?: number;  // 클라이언트가 보낸 서버 기준 추정 시각 (Unix ms)
+}
 
 /**
  * 게임 관련 비즈니스 로직 서비스
@@ -14,183 +53,811 @@ import { PriceService } from './PriceService';
 export class GameService {
   private gameRepository: Repository<Game>;
   private predictionRepository: Repository<GamePrediction>;
-  private scoreRepository: Repository<GameScore>;
   // private userRepository: Repository<User>; // 사용하지 않음
   private priceService: PriceService;
+  private rankingEngine: RankingEngine;
+  private scoreLedger: ScoreLedgerService;
+  private settlementService: SettlementService;
+  private achievementService: AchievementService;
 
   constructor() {
     this.gameRepository = AppDataSource.getRepository(Game);
     this.predictionRepository = AppDataSource.getRepository(GamePrediction);
-    this.scoreRepository = AppDataSource.getRepository(GameScore);
     // this.userRepository = AppDataSource.getRepository(User); // 사용하지 않음
     this.priceService = new PriceService();
+    this.rankingEngine = new RankingEngine();
+    this.scoreLedger = new ScoreLedgerService();
+    this.settlementService = new SettlementService();
+    this.achievementService = new AchievementService();
   }
 
   /**
-   * 게임 결과 계산
+   * 예측 결과 저장
+   * 예측 상태와 점수 원장 기록(사용자 통계 포함)을 하나의 트랜잭션으로 처리
    */
-  async calculateGameResult(gameId: string, userId: string): Promise<{
-    game: Game;
-    prediction: GamePrediction | null;
-    score: number;
-    isCorrect: boolean;
-    endPrice: number;
-  }> {
-    // 게임 조회
-    const game = await this.gameRepository.findOne({
-      where: { id: gameId }
+  private async savePredictionResult(prediction: GamePrediction): Promise<void> {
+    await AppDataSource.transaction(async manager => {
+      await manager.save(GamePrediction, prediction);
+      await this.scoreLedger.recordPredictionResult(prediction, manager);
     });
+  }
 
-    if (!game) {
-      throw new Error('게임을 찾을 수 없습니다.');
-    }
+  /**
+   * 점수 계산 컨텍스트
+   * 예측 가능 시간 중 제출 시점의 경과 비율과 직전까지의 연승 수 (연승 보너스 최대 구간까지만 조회)
+   * 보합/무효 예측은 연승을 끊지 않으므로 조회에서 제외하고, 연습 게임의 연승은 연습 게임끼리만 이어짐
+   */
+  private async getScoringContext(prediction: GamePrediction, game: Game): Promise<ScoringContext> {
+    const submittedAt = prediction.metadata?.predictionTimestamp ?? prediction.createdAt.getTime();
+    const elapsedRatio = game.predictionWindow > 0
+      ? (submittedAt - game.createdAt.getTime()) / game.predictionWindow
+      : undefined;
+
+    const maxStreak = getMaxStreakTier();
+    const recent = maxStreak > 0
+      ? await this.predictionRepository.find({
+        select: ['id', 'status', 'resolvedAt'], // 게임 조건 조인 시 정렬 컬럼도 선택해야 함
+        where: {
+          userId: prediction.userId,
+          status: In([GamePredictionStatus.WIN, GamePredictionStatus.LOSE]),
+          game: { gameType: game.isPractice ? PRACTICE_GAME_TYPE : Not(PRACTICE_GAME_TYPE) }
+        },
+        order: { resolvedAt: 'DESC' },
+        take: maxStreak
+      })
+      : [];
+    const firstLoss = recent.findIndex(previous => previous.status !== GamePredictionStatus.WIN);
 
-    // 사용자 예측 조회
-    const prediction = await this.predictionRepository.findOne({
-      where: { gameId, userId }
+    return {
+      elapsedRatio,
+      previousStreak: firstLoss === -1 ? recent.length : firstLoss
+    };
+  }
+
+  /**
+   * 활성 게임 종료
+   * 종료 시각이 지난 ACTIVE 라운드만 정산 (다른 사용자의 진행 중인 라운드는 건드리지 않음)
+   */
+  async endActiveGames(): Promise<void> {
+    const activeGames = await this.gameRepository.find({
+      where: { status: GameStatus.ACTIVE }
     });
 
-    if (!prediction) {
-      throw new Error('예측을 찾을 수 없습니다.');
+    for (const game of activeGames) {
+      try {
+        await this.settleRound(game);
+      } catch (error) {
+        console.error(`게임 ${game.id} 종료 중 오류:`, error);
+      }
     }
+  }
+
+  /**
+   * 게임의 모든 예측 결과 계산
+   * PENDING 상태의 예측만 처리하므로 재실행해도 중복 정산되지 않음
+   * 연습 게임은 점수 구성만 예측에 남기고 점수 원장과 랭킹에는 반영하지 않음
+   */
+  private async calculateAllPredictions(gameId: string, endPrice: number): Promise<void> {
+    const predictions = await this.predictionRepository.find({
+      where: { gameId, status: GamePredictionStatus.PENDING },
+      relations: ['game']
+    });
+    const settled: SettledScore[] = [];
 
-    // 게임이 아직 종료되지 않았다면 현재 가격으로 종료
-    if (game.status === GameStatus.ACTIVE) {
-      const currentPrice = await this.priceService.getCurrentPriceBySymbol(game.symbol);
-      
-      if (!currentPrice) {
-        throw new Error('현재 가격을 조회할 수 없습니다.');
+    for (const prediction of predictions) {
+      try {
+        prediction.updateResult(
+          endPrice,
+          await this.getScoringContext(prediction, prediction.game),
+          Number(prediction.game.flatTolerancePercent)
+        );
+        prediction.metadata = {
+          ...prediction.metadata,
+          roundTier: prediction.game.tier,
+          rankingMultiplier: Number(prediction.game.pointMultiplier)
+        };
+        if (prediction.game.isPractice) {
+          await this.predictionRepository.save(prediction);
+          continue;
+        }
+        await this.savePredictionResult(prediction);
+        settled.push(RankingEngine.fromPrediction(prediction));
+      } catch (error) {
+        console.error(`예측 ${prediction.id} 결과 계산 중 오류:`, error);
       }
+    }
 
-      // 게임 종료 처리
-      game.status = GameStatus.COMPLETED;
-      game.endTime = new Date();
-      await this.gameRepository.save(game);
+    // 라운드 단위로 랭킹 반영 (반영 실패 시 관리자 재집계로 복구)
+    try {
+      await this.rankingEngine.applySettlements(settled);
+    } catch (error) {
+      console.error(`게임 ${gameId} 랭킹 반영 중 오류:`, error);
+    }
 
-      // 예측 결과 업데이트
-      prediction.updateResult(currentPrice.price);
-      await this.predictionRepository.save(prediction);
+    await this.evaluateAchievements(gameId, settled.map(score => score.userId));
+    await this.settleStakes(gameId);
+  }
 
-      // 사용자 점수 업데이트
-      await this.updateUserScore(userId, prediction.isCorrect, prediction.score);
+  /**
+   * 정산된 참가자의 업적 판정 (랭킹 반영 뒤 최고 연승까지 갱신된 상태로 판정)
+   * 판정 실패는 정산을 막지 않으며, 누적 지표 기준이므로 다음 정산이나 진행 상황 조회 때 다시 판정됨
+   */
+  private async evaluateAchievements(gameId: string, userIds: string[]): Promise<void> {
+    try {
+      await this.achievementService.onPredictionsSettled(userIds);
+    } catch (error) {
+      logger.error(`게임 ${gameId} 업적 판정 중 오류:`, error);
     }
+  }
 
-    return {
-      game,
-      prediction,
-      score: prediction.score,
-      isCorrect: prediction.isCorrect,
-      endPrice: prediction.endPrice || 0
-    };
+  /**
+   * 예측 저장
+   * 스테이크가 있으면 같은 트랜잭션에서 점수 원장에 예치하며, 잔액이 부족하면 예측도 저장하지 않고 예외
+   * 연습 게임은 만든 사용자만 참여할 수 있고 스테이크를 걸 수 없음
+   */
+  async placePrediction(prediction: GamePrediction): Promise<GamePrediction> {
+    return await AppDataSource.transaction(async manager => {
+      const game = await this.lockOpenRound(manager, prediction.gameId);
+      if (game.isPractice) {
+        if (game.createdBy !== prediction.userId) {
+          throw new AppError('다른 사용자의 연습 게임입니다.', 403);
+        }
+        if (prediction.stake > 0) {
+          throw new AppError('연습 게임에는 스테이크를 걸 수 없습니다.', 400);
+        }
+      }
+
+      const saved = await manager.save(GamePrediction, prediction);
+      this.warnSuspiciousTiming(saved);
+
+      if (saved.stake > 0) {
+        await this.scoreLedger.recordStakeEscrow(saved, {
+          stakeMode: game.stakeMode,
+          stakeOdds: Number(game.stakeOdds)
+        }, manager);
+      }
+      return saved;
+    });
   }
 
   /**
-   * 사용자 점수 업데이트
+   * 예측 방향 변경 (예측 마감 전, PENDING 예측만)
+   * 기준 가격은 변경 시점 가격으로 다시 잡고 수정 이력을 메타데이터에 남김
    */
-  private async updateUserScore(userId: string, isCorrect: boolean, score: number): Promise<void> {
-    let userScore = await this.scoreRepository.findOne({
-      where: { userId }
+  async changePrediction(
+    gameId: string,
+    userId: string,
+    predictionType: GamePredictionType,
+    receipt: PredictionReceipt = { receivedAt: Date.now() }
+  ): Promise<GamePrediction> {
+    const game = await this.gameRepository.findOne({ where: { id: gameId } });
+    if (!game) {
+      throw new AppError('게임을 찾을 수 없습니다.', 404);
+    }
+    this.assertPredictionOpen(game);
+
+    const currentPrice = await this.getReceiptPrice(game, receipt.receivedAt);
+    if (!currentPrice) {
+      throw new AppError('가격 정보를 조회할 수 없습니다.', 503);
+    }
+
+    return await AppDataSource.transaction(async manager => {
+      await this.lockOpenRound(manager, gameId);
+      const prediction = await this.lockPendingPrediction(manager, gameId, userId);
+
+      if (prediction.predictionType === predictionType) {
+        throw new AppError('이미 같은 방향으로 예측했습니다.', 400);
+      }
+
+      prediction.applyTiming(evaluatePredictionTiming({
+        receivedAt: receipt.receivedAt,
+        priceTimestamp: currentPrice.timestamp,
+        clientTimestamp: receipt.clientTimestamp,
+        predictionDeadline: game.predictionDeadline
+      }));
+      prediction.changeDirection(predictionType, currentPrice.price, receipt.receivedAt);
+
+      const saved = await manager.save(GamePrediction, prediction);
+      this.warnSuspiciousTiming(saved);
+      return saved;
     });
+  }
 
-    if (!userScore) {
-      userScore = this.scoreRepository.create({
-        userId,
-        scoreType: GameScoreType.PREDICTION_WIN,
-        points: score,
-        totalPointsAfter: score,
-        status: GameScoreStatus.CONFIRMED,
-        description: isCorrect ? '예측 성공' : '예측 실패',
-        awardedBy: 'system'
-      });
-      } else {
-      // 기존 점수 레코드를 업데이트
-      userScore.points = score;
-      userScore.totalPointsAfter = userScore.totalPointsAfter + score;
-      userScore.description = isCorrect ? '예측 성공' : '예측 실패';
-      userScore.status = GameScoreStatus.CONFIRMED;
+  /**
+   * 예측 철회 (예측 마감 전, PENDING 예측만)
+   * 예치한 스테이크는 바로 반환하며, 철회한 라운드에는 다시 참여할 수 없음
+   */
+  async withdrawPrediction(gameId: string, userId: string): Promise<GamePrediction> {
+    return await AppDataSource.transaction(async manager => {
+      const game = await this.lockOpenRound(manager, gameId);
+      const prediction = await this.lockPendingPrediction(manager, gameId, userId);
+
+      prediction.withdraw();
+      if (prediction.stake > 0) {
+        prediction.stakePayout = prediction.stake;
       }
-    
-    await this.scoreRepository.save(userScore);
+      const saved = await manager.save(GamePrediction, prediction);
+
+      if (saved.stake > 0) {
+        await this.scoreLedger.recordStakeSettlement(saved, {
+          id: saved.id,
+          wager: saved.stake,
+          amount: saved.stake,
+          kind: 'refund'
+        }, {
+          stakeMode: game.stakeMode,
+          stakeOdds: Number(game.stakeOdds)
+        }, manager);
+      }
+      return saved;
+    });
   }
 
   /**
-   * 활성 게임 종료
+   * 예측 접수 중인 라운드를 공유 잠금으로 조회 (예측 제출/수정 트랜잭션 안에서 호출)
+   * 라운드 시작 전환(lockRound)과 직렬화되므로 마감 이후의 제출/수정은 서버에서 항상 거절됨
    */
-  async endActiveGames(): Promise<void> {
-    const activeGames = await this.gameRepository.find({
-      where: { status: GameStatus.ACTIVE }
+  private async lockOpenRound(manager: EntityManager, gameId: string): Promise<Game> {
+    const game = await manager.findOne(Game, {
+      where: { id: gameId },
+      lock: { mode: 'pessimistic_read' }
     });
 
-    for (const game of activeGames) {
-      try {
-        // 현재 가격 조회
-        const currentPrice = await this.priceService.getCurrentPriceBySymbol(game.symbol);
-        
-        if (currentPrice) {
-          // 게임 종료
-          game.status = GameStatus.COMPLETED;
-          game.endTime = new Date();
-          await this.gameRepository.save(game);
-
-          // 모든 예측 결과 계산
-          await this.calculateAllPredictions(game.id, currentPrice.price);
-        }
-      } catch (error) {
-        console.error(`게임 ${game.id} 종료 중 오류:`, error);
-      }
+    if (!game) {
+      throw new AppError('게임을 찾을 수 없습니다.', 404);
     }
+    this.assertPredictionOpen(game);
+    return game;
   }
 
   /**
-   * 게임의 모든 예측 결과 계산
+   * 예측 접수 가능 여부 확인 (서버 시각 기준)
+   * 예측 마감 이후는 물론 마감 직전 GAME_ANTI_SNIPE_WINDOW_MS 구간의 제출/변경/철회도 거절
    */
-  private async calculateAllPredictions(gameId: string, endPrice: number): Promise<void> {
-    const predictions = await this.predictionRepository.find({
-      where: { gameId, status: GamePredictionStatus.PENDING }
+  assertPredictionOpen(game: Game, now: number = Date.now()): void {
+    if (game.status !== GameStatus.WAITING || !game.predictionDeadline || now >= game.predictionDeadline.getTime()) {
+      throw new AppError('예측이 마감된 게임입니다.', 400);
+    }
+
+    const antiSnipeWindow = gamePredictionGuardConfig.antiSnipeWindow;
+    if (now >= game.predictionDeadline.getTime() - antiSnipeWindow) {
+      throw new AppError(`예측 마감 ${Math.ceil(antiSnipeWindow / 1000)}초 전부터는 예측을 제출하거나 수정할 수 없습니다.`, 400);
+    }
+  }
+
+  /**
+   * 접수 시각 기준 가격 조회
+   * 캐시된 가격이 접수 시각보다 허용 지연 이상 오래됐으면 오라클에서 다시 조회
+   * 연습 게임은 접수 시각에 재생 중인 과거 가격
+   */
+  async getReceiptPrice(game: Game, receivedAt: number): Promise<SymbolPrice | null> {
+    if (game.isPractice) {
+      return this.getReplayQuote(game, 'current', receivedAt);
+    }
+
+    const cached = await this.priceService.getCurrentPriceBySymbol(game.symbol);
+    if (cached && !isPriceStale(receivedAt, cached.timestamp)) {
+      return cached;
+    }
+
+    return await this.priceService.getCurrentPriceBySymbol(game.symbol, true) || cached;
+  }
+
+  /**
+   * 연습 게임의 재생 가격을 가격 조회 결과 형식으로 변환
+   * current 는 실제 시각에 대응하는 재생 시점, start/end 는 원본 라운드의 확정 가격
+   * 재생 정보가 없으면 null (정산 시 허용 지연이 지나면 무효 처리됨)
+   */
+  private getReplayQuote(game: Game, point: 'current' | 'start' | 'end', now: number = Date.now()): SymbolPrice | null {
+    const replay = game.metadata?.replay;
+    if (!replay) {
+      return null;
+    }
+
+    const at = point === 'start' ? replay.startAt : point === 'end' ? replay.endAt : getReplayTime(game, replay, now);
+    return {
+      symbol: game.symbol,
+      price: getReplayPrice(replay, at),
+      method: 'replay',
+      provider: 'replay',
+      sources: [],
+      latency: 0,
+      degraded: false,
+      timestamp: new Date(now).toISOString()
+    };
+  }
+
+  /**
+   * 접수 시각 의심 패턴 로그
+   */
+  private warnSuspiciousTiming(prediction: GamePrediction): void {
+    const timing = prediction.metadata?.timing;
+    if (timing && timing.flags.length > 0) {
+      logger.warn(`예측 접수 시각 의심 패턴 (${prediction.id}): ${timing.flags.join(', ')}`, {
+        gameId: prediction.gameId,
+        userId: prediction.userId,
+        timing
+      });
+    }
+  }
+
+  /**
+   * 수정 가능한 내 예측을 행 잠금으로 조회
+   */
+  private async lockPendingPrediction(manager: EntityManager, gameId: string, userId: string): Promise<GamePrediction> {
+    const prediction = await manager.findOne(GamePrediction, {
+      where: { gameId, userId },
+      lock: { mode: 'pessimistic_write' }
     });
 
-    for (const prediction of predictions) {
+    if (!prediction) {
+      throw new AppError('예측을 찾을 수 없습니다.', 404);
+    }
+    if (prediction.status !== GamePredictionStatus.PENDING) {
+      throw new AppError('변경할 수 없는 예측입니다.', 400);
+    }
+    return prediction;
+  }
+
+  /**
+   * 라운드 스테이크 정산
+   * 모든 예측이 확정된 뒤 라운드 전체 예치액으로 지급액을 계산하고, 아직 정산하지 않은 예측만 예측 단위로 기록
+   * 지급액은 매번 같은 입력으로 다시 계산되므로 중단 후 재실행해도 같은 금액이 지급됨
+   * @returns 이번에 정산한 예측 수
+   */
+  async settleStakes(gameId: string): Promise<number> {
+    const [game, staked] = await Promise.all([
+      this.gameRepository.findOne({ where: { id: gameId } }),
+      this.predictionRepository.find({ where: { gameId, stake: MoreThan(0) } })
+    ]);
+
+    if (!game || staked.length === 0 || staked.some(prediction => !STAKE_RESULTS[prediction.status])) {
+      return 0;
+    }
+
+    const predictions = new Map(staked.map(prediction => [prediction.id, prediction]));
+    const settlements = calculateStakeSettlements(
+      staked.map(prediction => ({
+        id: prediction.id,
+        wager: prediction.stake,
+        result: STAKE_RESULTS[prediction.status] as StakeEntry['result']
+      })),
+      game.stakeMode,
+      Number(game.stakeOdds)
+    );
+    let count = 0;
+
+    for (const settlement of settlements) {
+      const prediction = predictions.get(settlement.id);
+      if (!prediction || (prediction.stakePayout !== null && prediction.stakePayout !== undefined)) {
+        continue;
+      }
+
       try {
-        prediction.updateResult(endPrice);
-        await this.predictionRepository.save(prediction);
+        const recorded = await AppDataSource.transaction(async manager => {
+          const result = await manager.update(
+            GamePrediction,
+            { id: prediction.id, stakePayout: IsNull() },
+            { stakePayout: settlement.amount }
+          );
 
-        // 사용자 점수 업데이트
-        await this.updateUserScore(prediction.userId, prediction.isCorrect, prediction.score);
+          if (!result.affected) {
+            return false;
+          }
+
+          await this.scoreLedger.recordStakeSettlement(prediction, settlement, {
+            stakeMode: game.stakeMode,
+            stakeOdds: Number(game.stakeOdds)
+          }, manager);
+          return true;
+        });
+
+        if (recorded) {
+          prediction.stakePayout = settlement.amount;
+          count += 1;
+        }
       } catch (error) {
-        console.error(`예측 ${prediction.id} 결과 계산 중 오류:`, error);
+        logger.error(`예측 ${prediction.id} 스테이크 정산 중 오류:`, error);
       }
     }
+
+    return count;
   }
 
   /**
    * 게임 생성
+   * 기존 라운드는 종료하지 않고 새 라운드를 추가로 연다
+   */
+  async createGame(symbol: string, tier: string): Promise<Game> {
+    return this.openRound(symbol, { tier });
+  }
+
+  /**
+   * 새 라운드 열기 (WAITING 상태로 생성, 예측 마감 시각까지 예측 접수)
+   * 진행 시간/예측 시간은 등급 정의를 따르며, 랭킹 가중치·보합 허용 범위·스테이크 배당 방식은 생성 시점 값으로 고정
+   * 라운드는 모든 참가자가 함께 쓰므로 요청한 사용자와 관계없이 생성자는 스케줄러로 기록
    */
-  async createGame(symbol: string, duration: number, userId: string): Promise<Game> {
-    // 기존 활성 게임 종료
-    await this.endActiveGames();
+  async openRound(symbol: string, options: {
+    tier?: string;
+    duration?: number;
+    predictionWindow?: number;
+    flatTolerancePercent?: number;
+    stakeMode?: GameStakeMode;
+    stakeOdds?: number;
+  } = {}): Promise<Game> {
+    const tier = getRoundTier(options.tier || gameRoundConfig.defaultTier);
+    const tokenSymbol = symbol.toUpperCase();
+    const currentPrice = await this.priceService.getCurrentPriceBySymbol(tokenSymbol);
 
-    // 현재 가격 조회
-    const currentPrice = await this.priceService.getCurrentPriceBySymbol(symbol);
-    
     if (!currentPrice) {
       throw new Error('가격 정보를 조회할 수 없습니다.');
     }
 
-    // 새 게임 생성
-    const endTime = new Date();
-    endTime.setSeconds(endTime.getSeconds() + duration);
+    const now = new Date();
+    const predictionWindow = options.predictionWindow ?? tier.predictionWindow;
 
     const newGame = this.gameRepository.create({
-      symbol: symbol.toUpperCase(),
-      startTime: new Date(),
-      endTime,
-      duration,
+      tokenSymbol,
+      tokenName: TOKEN_NAMES[tokenSymbol] || tokenSymbol,
+      // 라운드가 ACTIVE로 전환될 때 실제 시작 가격으로 갱신됨
       startPrice: currentPrice.price,
-      status: GameStatus.ACTIVE,
-      createdBy: userId
+      status: GameStatus.WAITING,
+      duration: options.duration ?? tier.duration,
+      predictionWindow,
+      tier: tier.id,
+      pointMultiplier: tier.pointMultiplier,
+      flatTolerancePercent: options.flatTolerancePercent ?? gameRoundConfig.flatTolerancePercent,
+      stakeMode: options.stakeMode ?? gameStakeConfig.mode,
+      stakeOdds: options.stakeOdds ?? gameStakeConfig.fixedOdds,
+      predictionDeadline: new Date(now.getTime() + predictionWindow),
+      priceHistory: [this.toPricePoint(currentPrice)],
+      metadata: { apiProvider: currentPrice.provider },
+      createdBy: 'scheduler'
     });
 
-    return await this.gameRepository.save(newGame);
+    const savedGame = await this.gameRepository.save(newGame);
+    await this.broadcastRoundState(savedGame);
+    return savedGame;
+  }
+
+  /**
+   * 라운드 상태 실시간 전송 (game.state, game.<gameId> 채널)
+   * 전송 실패는 라운드 진행에 영향을 주지 않도록 로그만 남김 (연습 게임은 전송하지 않음)
+   */
+  async broadcastRoundState(game: Game): Promise<void> {
+    if (game.isPractice) {
+      return;
+    }
+
+    try {
+      const [participants, currentRound] = await Promise.all([
+        this.predictionRepository.count({ where: { gameId: game.id, status: Not(GamePredictionStatus.WITHDRAWN) } }),
+        this.gameRepository.count({ where: { tokenSymbol: game.tokenSymbol } })
+      ]);
+      WebSocketService.getInstance().publishGameState(game, participants, currentRound);
+    } catch (error) {
+      logger.warn(`라운드 ${game.id} 상태 전송 실패:`, error);
+    }
+  }
+
+  /**
+   * 예측 접수 중인 정규 라운드 조회 (등급별, 연습 게임 제외)
+   */
+  async getOpenRound(symbol: string, tier: string = gameRoundConfig.defaultTier): Promise<Game | null> {
+    return await this.gameRepository.findOne({
+      where: {
+        tokenSymbol: symbol.toUpperCase(),
+        tier,
+        gameType: Not(PRACTICE_GAME_TYPE),
+        status: GameStatus.WAITING,
+        predictionDeadline: MoreThan(new Date())
+      },
+      order: { createdAt: 'DESC' }
+    });
+  }
+
+  /**
+   * 로비: 예측 접수 중인 모든 정규 라운드 (심볼 → 등급 순)
+   * 참가자 수와 스테이크 합계는 라운드별 예측을 한 번의 집계 쿼리로 조회
+   */
+  async getLobby(filter: { symbol?: string; tier?: string } = {}): Promise<LobbyRound[]> {
+    const rounds = await this.gameRepository.find({
+      where: {
+        status: GameStatus.WAITING,
+        gameType: Not(PRACTICE_GAME_TYPE),
+        predictionDeadline: MoreThan(new Date()),
+        ...(filter.symbol ? { tokenSymbol: filter.symbol.toUpperCase() } : {}),
+        ...(filter.tier ? { tier: filter.tier } : {})
+      },
+      order: { tokenSymbol: 'ASC', duration: 'ASC', predictionDeadline: 'ASC' }
+    });
+
+    if (rounds.length === 0) {
+      return [];
+    }
+
+    const counts: Array<{ gameId: string; count: string; stakePool: string }> = await this.predictionRepository
+      .createQueryBuilder('prediction')
+      .select('prediction.gameId', 'gameId')
+      .addSelect('COUNT(*)', 'count')
+      .addSelect('COALESCE(SUM(prediction.stake), 0)', 'stakePool')
+      .where('prediction.gameId IN (:...gameIds)', { gameIds: rounds.map(round => round.id) })
+      .andWhere('prediction.status != :withdrawn', { withdrawn: GamePredictionStatus.WITHDRAWN })
+      .groupBy('prediction.gameId')
+      .getRawMany();
+    const totals = new Map(counts.map(row => [row.gameId, row]));
+
+    return rounds.map(game => ({
+      game,
+      participants: parseInt(totals.get(game.id)?.count || '0'),
+      stakePool: parseInt(totals.get(game.id)?.stakePool || '0')
+    }));
+  }
+
+  /**
+   * 라운드 시작 (WAITING → ACTIVE)
+   * 예측 마감 시점의 가격을 시작 가격으로 고정하고 서명된 정산 기록을 함께 남김
+   * 허용 지연 시간 안에 시작 가격을 확정하지 못하면 라운드를 무효 처리
+   * 연습 게임은 원본 라운드의 시작 가격을 쓰며 정산 기록을 남기지 않음
+   * @returns 다른 프로세스가 먼저 전환했다면 null (무효 처리했다면 VOID 상태의 게임)
+   */
+  async lockRound(game: Game): Promise<Game | null> {
+    const scheduledAt = game.predictionDeadline || new Date();
+    const currentPrice = game.isPractice
+      ? this.getReplayQuote(game, 'start')
+      : await this.priceService.getCurrentPriceBySymbol(game.symbol, true);
+
+    const voidReason = this.getVoidReason(currentPrice, scheduledAt);
+    if (voidReason) {
+      return await this.voidRound(game, voidReason);
+    }
+
+    if (!currentPrice) {
+      throw new Error('가격 정보를 조회할 수 없습니다.');
+    }
+
+    game.status = GameStatus.ACTIVE;
+    game.startedAt = new Date();
+    game.startPrice = Number(currentPrice.price.toFixed(8));
+    game.addPricePoint(this.toPricePoint(currentPrice));
+
+    const locked = await AppDataSource.transaction(async manager => {
+      const result = await manager.update(
+        Game,
+        { id: game.id, status: GameStatus.WAITING },
+        {
+          status: game.status,
+          startedAt: game.startedAt,
+          startPrice: game.startPrice,
+          priceHistory: game.priceHistory
+        }
+      );
+
+      if (!result.affected) {
+        return null;
+      }
+
+      if (!game.isPractice) {
+        await this.settlementService.record(
+          manager,
+          game,
+          SettlementPriceKind.START,
+          currentPrice,
+          scheduledAt
+        );
+      }
+      return game;
+    });
+
+    if (locked) {
+      await this.broadcastRoundState(locked);
+    }
+    return locked;
+  }
+
+  /**
+   * 라운드 정산 (ACTIVE → COMPLETED)
+   * 종료 가격은 서명된 정산 기록과 같은 트랜잭션으로 확정
+   * 허용 지연 시간 안에 종료 가격을 확정하지 못하면 라운드를 무효 처리 (VOID 상태의 게임 반환)
+   * 종료 시각이 지나지 않았거나 다른 프로세스가 먼저 정산했다면 null
+   * 연습 게임은 원본 라운드의 종료 가격으로 정산하며 정산 기록을 남기지 않음
+   */
+  async settleRound(game: Game): Promise<Game | null> {
+    if (!game.startedAt || game.timeUntilEnd > 0) {
+      return null;
+    }
+
+    const scheduledAt = new Date(game.startedAt.getTime() + game.duration);
+    const currentPrice = game.isPractice
+      ? this.getReplayQuote(game, 'end')
+      : await this.priceService.getCurrentPriceBySymbol(game.symbol, true);
+
+    const voidReason = this.getVoidReason(currentPrice, scheduledAt);
+    if (voidReason) {
+      return await this.voidRound(game, voidReason);
+    }
+
+    if (!currentPrice) {
+      throw new Error('가격 정보를 조회할 수 없습니다.');
+    }
+
+    game.status = GameStatus.COMPLETED;
+    game.endPrice = Number(currentPrice.price.toFixed(8));
+    game.endedAt = new Date();
+    game.addPricePoint(this.toPricePoint(currentPrice));
+
+    const settled = await AppDataSource.transaction(async manager => {
+      const result = await manager.update(
+        Game,
+        { id: game.id, status: GameStatus.ACTIVE },
+        {
+          status: game.status,
+          endPrice: game.endPrice,
+          endedAt: game.endedAt,
+          priceHistory: game.priceHistory
+        }
+      );
+
+      if (!result.affected) {
+        return false;
+      }
+
+      if (!game.isPractice) {
+        await this.settlementService.record(
+          manager,
+          game,
+          SettlementPriceKind.END,
+          currentPrice,
+          scheduledAt
+        );
+      }
+      return true;
+    });
+
+    if (!settled) {
+      return null;
+    }
+
+    await this.calculateAllPredictions(game.id, game.endPrice);
+    await this.broadcastRoundState(game);
+    return game;
+  }
+
+  /**
+   * 정산 가격 무효 사유 판정
+   * 가격이 없으면 허용 지연 시간이 지난 뒤에만 무효 (그 전에는 다음 점검에서 재시도),
+   * 가격이 있어도 확정 시각보다 허용 지연 시간 이상 늦게 집계됐다면 무효
+   */
+  private getVoidReason(currentPrice: SymbolPrice | null, scheduledAt: Date): GameVoidReason | null {
+    const deadline = scheduledAt.getTime() + gameRoundConfig.settlementMaxDelay;
+
+    if (!currentPrice) {
+      return Date.now() > deadline ? 'price_unavailable' : null;
+    }
+    return new Date(currentPrice.timestamp).getTime() > deadline ? 'price_stale' : null;
+  }
+
+  /**
+   * 라운드 무효 처리 (WAITING/ACTIVE → VOID)
+   * @returns 다른 프로세스가 먼저 전환했다면 null
+   */
+  async voidRound(game: Game, reason: GameVoidReason): Promise<Game | null> {
+    return await this.closeRound(game, GameStatus.VOID, reason);
+  }
+
+  /**
+   * 라운드 취소 (WAITING/ACTIVE → CANCELLED, 생성자/관리자 요청)
+   * @returns 이미 종료되었거나 다른 프로세스가 먼저 전환했다면 null
+   */
+  async cancelRound(game: Game): Promise<Game | null> {
+    return await this.closeRound(game, GameStatus.CANCELLED, 'round_cancelled');
+  }
+
+  /**
+   * 정산 없이 라운드 종료
+   * 대기 중인 예측은 점수 없이 취소 상태로 바꾸므로 점수 원장, 랭킹, 연승 기록에 영향이 없고 스테이크는 반환
+   * 처리 후 라운드 상태를 전송하고 참가자 본인에게 무효 알림을 보냄
+   */
+  private async closeRound(
+    game: Game,
+    status: GameStatus.VOID | GameStatus.CANCELLED,
+    reason: GameVoidReason
+  ): Promise<Game | null> {
+    game.status = status;
+    game.endedAt = new Date();
+    game.metadata = { apiProvider: 'unknown', ...game.metadata, voidReason: reason };
+
+    const voided = await AppDataSource.transaction(async manager => {
+      const result = await manager.update(
+        Game,
+        { id: game.id, status: In([GameStatus.WAITING, GameStatus.ACTIVE]) },
+        {
+          status: game.status,
+          endedAt: game.endedAt,
+          metadata: game.metadata
+        }
+      );
+
+      if (!result.affected) {
+        return null;
+      }
+
+      const predictions = await manager.find(GamePrediction, {
+        where: { gameId: game.id, status: GamePredictionStatus.PENDING }
+      });
+      for (const prediction of predictions) {
+        prediction.voidResult(reason);
+      }
+      return await manager.save(GamePrediction, predictions);
+    });
+
+    if (!voided) {
+      return null;
+    }
+
+    for (const prediction of voided) {
+      WebSocketService.getInstance().publishPredictionVoid({
+        userId: prediction.userId,
+        gameId: game.id,
+        predictionId: prediction.id,
+        symbol: game.symbol,
+        reason
+      });
+    }
+    await this.settleStakes(game.id);
+    await this.broadcastRoundState(game);
+    return game;
+  }
+
+  /**
+   * 정산 중 중단된 라운드 복구
+   * COMPLETED 상태지만 PENDING 예측이 남아있는 게임의 예측을 다시 정산하고, 남은 스테이크 지급을 이어서 처리
+   * @returns 복구한 게임 수
+   */
+  async recoverInterruptedSettlements(): Promise<number> {
+    const games = await this.predictionRepository
+      .createQueryBuilder('prediction')
+      .innerJoin('prediction.game', 'game')
+      .select('prediction.gameId', 'gameId')
+      .addSelect('game.endPrice', 'endPrice')
+      .distinct(true)
+      .where('prediction.status = :status', { status: GamePredictionStatus.PENDING })
+      .andWhere('game.status = :gameStatus', { gameStatus: GameStatus.COMPLETED })
+      .andWhere('game.endPrice IS NOT NULL')
+      .getRawMany();
+
+    for (const { gameId, endPrice } of games) {
+      await this.calculateAllPredictions(gameId, parseFloat(endPrice));
+    }
+
+    // 예측은 확정됐지만 스테이크 지급 전에 중단된 라운드
+    const stakeGames = await this.predictionRepository
+      .createQueryBuilder('prediction')
+      .select('DISTINCT prediction.gameId', 'gameId')
+      .where('prediction.stake > 0')
+      .andWhere('prediction.stakePayout IS NULL')
+      .andWhere('prediction.status != :status', { status: GamePredictionStatus.PENDING })
+      .getRawMany();
+
+    for (const { gameId } of stakeGames) {
+      await this.settleStakes(gameId);
+    }
+
+    return games.length + stakeGames.length;
+  }
+
+  /**
+   * 가격 조회 결과를 가격 포인트로 변환
+   * 채택된 제공자와 소스별 조회 기록(이상치 포함)을 함께 남김
+   */
+  private toPricePoint(currentPrice: SymbolPrice): PricePoint {
+    return {
+      timestamp: Date.now(),
+      price: currentPrice.price,
+      apiProvider: currentPrice.provider,
+      networkLatency: currentPrice.latency,
+      sources: currentPrice.sources
+    };
   }
 
   /**
@@ -225,7 +892,7 @@ export class GameService {
   }
 
   /**
-   * 사용자의 게임 참여 기록
+   * 사용자의 게임 참여 기록 (연습 게임 제외)
    */
   async getUserGameHistory(userId: string, page: number = 1, limit: number = 20): Promise<{
     predictions: GamePrediction[];
@@ -235,7 +902,7 @@ export class GameService {
     const skip = (page - 1) * limit;
 
     const [predictions, total] = await this.predictionRepository.findAndCount({
-      where: { userId },
+      where: { userId, game: { gameType: Not(PRACTICE_GAME_TYPE) } },
       relations: ['game'],
       order: { createdAt: 'DESC' },
       skip,
@@ -251,74 +918,85 @@ export class GameService {
 
   /**
    * 랭킹 업데이트
+   * 현재 기간 키의 순위를 다시 계산 (점수 집계는 정산 시 증분 반영됨)
    */
   async updateRankings(): Promise<void> {
-    const scores = await this.scoreRepository.find({
-      order: { totalScore: 'DESC' }
-    });
-
-    for (let i = 0; i < scores.length; i++) {
-      scores[i].rank = i + 1;
-      await this.scoreRepository.save(scores[i]);
-    }
+    for (const period of TRACKED_PERIODS) {
+      await this.rankingEngine.recomputeRanks(period, Ranking.generatePeriodKey(period));
     }
-    
-    /**
-    * 게임 결과 처리 (GameController에서 호출)
-    */
-    async processGameResult(gameId: string): Promise<any> {
+  }
+
+  /**
+   * 라운드 정산 요청 (관리자용)
+   * 스케줄러와 같은 settleRound 로 종료 가격 확정, 정산 기록, 전체 예측 채점을 함께 처리
+   * 종료 시각이 지나지 않았거나 이미 정산된 라운드는 409
+   */
+  async processGameResult(gameId: string): Promise<Game> {
     const game = await this.gameRepository.findOne({
-      where: { id: gameId },
-      relations: ['predictions']
+      where: { id: gameId }
     });
-    
+
     if (!game) {
-      throw new Error('게임을 찾을 수 없습니다.');
+      throw new AppError('게임을 찾을 수 없습니다.', 404);
     }
-    
-    // 게임에 참여한 모든 사용자에 대해 결과 업데이트
-    const results = [];
-    for (const prediction of game.predictions) {
-      const result = await this.calculateGameResult(gameId, prediction.userId);
-      results.push(result);
+    if (game.status !== GameStatus.ACTIVE) {
+      throw new AppError('진행 중인 라운드만 정산할 수 있습니다.', 409);
     }
-    return results;
+
+    const settled = await this.settleRound(game);
+    if (!settled) {
+      throw new AppError('라운드 종료 시각이 지나지 않았거나 이미 정산되었습니다.', 409);
     }
-    
-    /**
-    * 게임 결과 시뮤레이션 (개발용)
-    */
-    async simulateGameResult(gameId: string, endPrice: number): Promise<any> {
+    return settled;
+  }
+
+  /**
+   * 게임 결과 시뮬레이션 (개발용)
+   * 지정한 종료 가격으로 라운드를 마치고 대기 중인 모든 예측을 채점 (정산 기록은 남기지 않음)
+   * 진행 중이 아니거나 다른 프로세스가 먼저 정산한 라운드는 409
+   */
+  async simulateGameResult(gameId: string, endPrice: number): Promise<Game> {
     const game = await this.gameRepository.findOne({
-      where: { id: gameId },
-      relations: ['predictions']
+      where: { id: gameId }
     });
-    
+
     if (!game) {
-      throw new Error('게임을 찾을 수 없습니다.');
+      throw new AppError('게임을 찾을 수 없습니다.', 404);
     }
-    
-    // 강제로 endPrice를 설정하고 결과 계산
+    if (game.status !== GameStatus.ACTIVE) {
+      throw new AppError('진행 중인 라운드만 정산할 수 있습니다.', 409);
+    }
+
     game.endPrice = endPrice;
+    game.endedAt = new Date();
     game.status = GameStatus.COMPLETED;
-    await this.gameRepository.save(game);
-    
-    return await this.calculateGameResult(gameId, game.predictions[0]?.userId || 'test-user');
-    }
-    
-    /**
-    * 게임 디버그 정보 조회 (개발용)
-    */
-    async getGameDebugInfo(gameId: string): Promise<any> {
+
+    const result = await this.gameRepository.update(
+      { id: game.id, status: GameStatus.ACTIVE },
+      { status: game.status, endPrice: game.endPrice, endedAt: game.endedAt }
+    );
+    if (!result.affected) {
+      throw new AppError('이미 정산된 라운드입니다.', 409);
+    }
+    await this.calculateAllPredictions(game.id, endPrice);
+    await this.broadcastRoundState(game);
+
+    return game;
+  }
+
+  /**
+   * 게임 디버그 정보 조회 (개발용)
+   */
+  async getGameDebugInfo(gameId: string): Promise<any> {
     const game = await this.gameRepository.findOne({
       where: { id: gameId },
       relations: ['predictions']
     });
-    
+
     if (!game) {
       throw new Error('게임을 찾을 수 없습니다.');
     }
-    
+
     return {
       game: {
         id: game.id,
@@ -346,7 +1024,7 @@ export class GameService {
         winningPredictions: game.predictions?.filter((p: any) => p.status === GamePredictionStatus.WIN).length || 0
       }
     };
-    }
+  }
 }
 
 // 기본 export (GameController에서 사용)
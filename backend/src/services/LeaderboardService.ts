@@ -0,0 +1,293 @@
+// src/services/LeaderboardService.ts
+
+import { AppDataSource } from '../config/database';
+import { gameRoundConfig } from '../config/game';
+import { leaderboardConfig, LeaderboardConfig, RANKING_METRIC_ALIASES } from '../config/leaderboard';
+import { PRACTICE_GAME_TYPE } from '../models/Game';
+import { GamePredictionStatus } from '../models/GamePrediction';
+import { Ranking, RankingMetric, RankingPeriod } from '../models/Ranking';
+import { AppError } from '../middlewares/errorHandler';
+import { TRACKED_PERIODS } from './RankingEngine';
+
+/**
+ * 리더보드 조회 조건
+ */
+export interface LeaderboardQuery {
+  period: RankingPeriod;
+  periodKey: string;
+  metric: RankingMetric;
+  symbol?: string;     // 지정하면 해당 심볼 라운드만 집계
+  minGames?: number;   // 지표별 최소 게임 수보다 작으면 무시
+}
+
+/**
+ * 리더보드 항목
+ */
+export interface LeaderboardEntry {
+  rank: number;
+  userId: string;
+  nickname?: string;
+  score: number;
+  totalGames: number;
+  winCount: number;
+  winRate: number;
+  averageScore: number;
+  bestStreak: number;
+  metricValue: number; // 순위 기준 지표 값
+}
+
+/**
+ * 리더보드 조회 결과
+ */
+export interface LeaderboardPage {
+  metric: RankingMetric;
+  symbol: string | null;
+  minGames: number;            // 실제 적용된 최소 게임 수
+  totalParticipants: number;   // 최소 게임 수를 채운 참가자 수
+  entries: LeaderboardEntry[];
+}
+
+/**
+ * 지표별 정렬 컬럼 (board CTE 컬럼명)
+ */
+const METRIC_COLUMNS: Record<RankingMetric, string> = {
+  [RankingMetric.TOTAL_SCORE]: '"totalScore"',
+  [RankingMetric.WIN_RATE]: '"winRate"',
+  [RankingMetric.GAMES_PLAYED]: '"totalGames"',
+  [RankingMetric.AVG_SCORE]: '"averageScore"',
+  [RankingMetric.STREAK]: '"bestStreak"'
+};
+
+interface BoardRow {
+  userId: string;
+  nickname: string | null;
+  totalScore: string;
+  totalGames: string;
+  winCount: string;
+  winRate: string;
+  averageScore: string;
+  bestStreak: string;
+  position: string;
+  participants: string;
+}
+
+/**
+ * 지표별/심볼별 리더보드
+ * 기간 랭킹(rankings)의 집계값을 지표 순으로 다시 정렬하거나, 심볼 지정 시 기간 안에 정산된 해당 심볼 예측을 직접 집계
+ * 순위는 조회 시 ROW_NUMBER 로 매기며 (지표 → 총점 → 먼저 참가한 순) 최소 게임 수를 채우지 못한 사용자는 제외
+ * 점수/연승 규칙은 랭킹 엔진과 같음 (라운드 등급 가중치 적용, 보합은 연승을 끊지 않음, 연습 게임 제외)
+ */
+export class LeaderboardService {
+  constructor(private readonly config: LeaderboardConfig = leaderboardConfig) {}
+
+  /**
+   * 지표 파라미터 변환 (없으면 총점)
+   */
+  parseMetric(value?: string): RankingMetric {
+    if (!value) {
+      return RankingMetric.TOTAL_SCORE;
+    }
+    const metric = RANKING_METRIC_ALIASES[value];
+    if (!metric) {
+      throw new AppError(`지원하지 않는 랭킹 지표입니다. (${Object.values(RankingMetric).join(', ')})`, 400);
+    }
+    return metric;
+  }
+
+  /**
+   * 심볼 파라미터 변환 (없으면 전체)
+   */
+  parseSymbol(value?: string): string | undefined {
+    if (!value || value.toLowerCase() === 'overall') {
+      return undefined;
+    }
+    const symbol = value.toUpperCase();
+    if (!gameRoundConfig.symbols.includes(symbol)) {
+      throw new AppError(`지원하지 않는 심볼입니다. (${gameRoundConfig.symbols.join(', ')})`, 400);
+    }
+    return symbol;
+  }
+
+  /**
+   * 실제 적용할 최소 게임 수 (지표별 하한보다 낮출 수 없음)
+   */
+  resolveMinGames(metric: RankingMetric, requested?: number): number {
+    const floor = this.config.minGames[metric] ?? 0;
+    return Math.max(floor, Number.isFinite(requested) ? Math.floor(requested as number) : 0);
+  }
+
+  /**
+   * 리더보드 페이지 조회
+   */
+  async getPage(query: LeaderboardQuery, limit: number, offset: number = 0): Promise<LeaderboardPage> {
+    const minGames = this.resolveMinGames(query.metric, query.minGames);
+    const rows = await this.queryBoard(query, minGames, {
+      limit: Math.min(Math.max(limit, 1), this.config.maxLimit),
+      offset: Math.max(offset, 0)
+    });
+
+    return {
+      metric: query.metric,
+      symbol: query.symbol ?? null,
+      minGames,
+      totalParticipants: rows.length > 0 ? parseInt(rows[0].participants) : await this.countParticipants(query, minGames),
+      entries: rows.map(row => this.toEntry(row, query.metric))
+    };
+  }
+
+  /**
+   * 리더보드에서 사용자 위치 (최소 게임 수를 채우지 못했거나 기록이 없으면 null)
+   */
+  async getUserEntry(query: LeaderboardQuery, userId: string): Promise<(LeaderboardEntry & { totalParticipants: number; minGames: number }) | null> {
+    const minGames = this.resolveMinGames(query.metric, query.minGames);
+    const [row] = await this.queryBoard(query, minGames, { userId });
+
+    return row
+      ? { ...this.toEntry(row, query.metric), totalParticipants: parseInt(row.participants), minGames }
+      : null;
+  }
+
+  /**
+   * 순위 계산 쿼리 (페이지 또는 특정 사용자)
+   */
+  private async queryBoard(
+    query: LeaderboardQuery,
+    minGames: number,
+    select: { limit?: number; offset?: number; userId?: string }
+  ): Promise<BoardRow[]> {
+    const { sql: source, params } = this.buildSource(query, minGames);
+    const next = params.length + 1;
+    const filter = select.userId
+      ? { sql: `WHERE ranked."userId" = $${next} ORDER BY position`, params: [select.userId] }
+      : { sql: `ORDER BY position LIMIT $${next} OFFSET $${next + 1}`, params: [select.limit ?? this.config.maxLimit, select.offset ?? 0] };
+
+    return await AppDataSource.query(
+      `WITH ${source},
+       ranked AS (
+         SELECT board.*,
+                ROW_NUMBER() OVER (ORDER BY ${METRIC_COLUMNS[query.metric]} DESC, "totalScore" DESC, "joinedAt" ASC, "userId" ASC) AS position,
+                COUNT(*) OVER () AS participants
+           FROM board
+       )
+       SELECT ranked.*, u.nickname
+         FROM ranked
+         LEFT JOIN users u ON u.id = ranked."userId"
+       ${filter.sql}`,
+      [...params, ...filter.params]
+    );
+  }
+
+  /**
+   * 결과가 없는 페이지의 참가자 수
+   */
+  private async countParticipants(query: LeaderboardQuery, minGames: number): Promise<number> {
+    const { sql: source, params } = this.buildSource(query, minGames);
+    const [row] = await AppDataSource.query(`WITH ${source} SELECT COUNT(*) AS count FROM board`, params);
+    return parseInt(row?.count || '0');
+  }
+
+  /**
+   * 집계 대상 (board CTE)
+   * - 심볼 없음: 기간 랭킹 행을 그대로 사용
+   * - 심볼 지정: 기간 안에 정산된 해당 심볼 정규 라운드 예측을 사용자별로 집계 (연승은 보합을 뺀 연속 승리 구간)
+   */
+  private buildSource(query: LeaderboardQuery, minGames: number): { sql: string; params: unknown[] } {
+    if (!query.symbol) {
+      return {
+        sql: `board AS (
+          SELECT "userId", "totalScore", "totalGames", "winCount", "winRate", "averageScore", "bestStreak", "createdAt" AS "joinedAt"
+            FROM rankings
+           WHERE period = $1 AND "periodKey" = $2 AND "totalGames" >= $3
+        )`,
+        params: [query.period, query.periodKey, minGames]
+      };
+    }
+
+    if (!TRACKED_PERIODS.includes(query.period)) {
+      throw new AppError('심볼별 랭킹은 일간/주간/월간/전체 기간만 지원합니다.', 400);
+    }
+
+    const { start, end } = Ranking.getPeriodRange(query.period, query.periodKey);
+    return {
+      sql: `settled AS (
+          SELECT p.id, p."userId", p.status, p."resolvedAt",
+                 ROUND(p."scoreEarned" * COALESCE((p.metadata->>'rankingMultiplier')::numeric, 1)) AS points
+            FROM game_predictions p
+            JOIN games g ON g.id = p."gameId"
+           WHERE g."tokenSymbol" = $1
+             AND g."gameType" <> $2
+             AND p.status IN ($3, $4, $5)
+             AND p."resolvedAt" BETWEEN $6 AND $7
+        ),
+        runs AS (
+          SELECT "userId", status,
+                 ROW_NUMBER() OVER (PARTITION BY "userId" ORDER BY "resolvedAt", id)
+                 - ROW_NUMBER() OVER (PARTITION BY "userId", status ORDER BY "resolvedAt", id) AS grp
+            FROM settled
+           WHERE status <> $5
+        ),
+        streaks AS (
+          SELECT "userId", MAX(length) AS "bestStreak"
+            FROM (SELECT "userId", grp, COUNT(*) AS length FROM runs WHERE status = $3 GROUP BY "userId", grp) AS run
+           GROUP BY "userId"
+        ),
+        totals AS (
+          SELECT "userId",
+                 SUM(points) AS "totalScore",
+                 COUNT(*) AS "totalGames",
+                 SUM(CASE WHEN status = $3 THEN 1 ELSE 0 END) AS "winCount",
+                 MIN("resolvedAt") AS "joinedAt"
+            FROM settled
+           GROUP BY "userId"
+        ),
+        board AS (
+          SELECT t."userId", t."totalScore", t."totalGames", t."winCount",
+                 ROUND(t."winCount" * 100.0 / t."totalGames", 2) AS "winRate",
+                 ROUND(t."totalScore" * 1.0 / t."totalGames", 2) AS "averageScore",
+                 COALESCE(s."bestStreak", 0) AS "bestStreak",
+                 t."joinedAt"
+            FROM totals t
+            LEFT JOIN streaks s ON s."userId" = t."userId"
+           WHERE t."totalGames" >= $8
+        )`,
+      params: [
+        query.symbol,
+        PRACTICE_GAME_TYPE,
+        GamePredictionStatus.WIN,
+        GamePredictionStatus.LOSE,
+        GamePredictionStatus.DRAW,
+        start,
+        end,
+        minGames
+      ]
+    };
+  }
+
+  /**
+   * 응답 항목 변환 (decimal/bigint 는 문자열로 오므로 숫자로 변환)
+   */
+  private toEntry(row: BoardRow, metric: RankingMetric): LeaderboardEntry {
+    const entry = {
+      rank: parseInt(row.position),
+      userId: row.userId,
+      nickname: row.nickname ?? undefined,
+      score: Number(row.totalScore),
+      totalGames: Number(row.totalGames),
+      winCount: Number(row.winCount),
+      winRate: Number(row.winRate),
+      averageScore: Number(row.averageScore),
+      bestStreak: Number(row.bestStreak)
+    };
+    const values: Record<RankingMetric, number> = {
+      [RankingMetric.TOTAL_SCORE]: entry.score,
+      [RankingMetric.WIN_RATE]: entry.winRate,
+      [RankingMetric.GAMES_PLAYED]: entry.totalGames,
+      [RankingMetric.AVG_SCORE]: entry.averageScore,
+      [RankingMetric.STREAK]: entry.bestStreak
+    };
+
+    return { ...entry, metricValue: values[metric] };
+  }
+}
+
+export default LeaderboardService;
@@ -10,10 +10,13 @@ import { Mission } from '../models/Mission';
 import { UserMission } from '../models/UserMission';
 import { User } from '../models/User';
 import { PointHistory } from '../models/PointHistory';
+import { GameScoreType } from '../models/GameScore';
 import { DeviceInfo } from '../types/common.types';
 import { logger } from '../utils/logger';
 import { WalletVerificationService, WalletVerificationResult } from './WalletVerificationService';
 import { HomepageVisitService, VisitSessionResult, VisitVerificationResult } from './HomepageVisitService';
+import { ScoreLedgerService } from './ScoreLedgerService';
+import { AchievementService } from './AchievementService';
 
 export class MissionService {
   private static instance: MissionService;
@@ -26,6 +29,8 @@ export class MissionService {
   // 전용 서비스들
   private walletVerificationService: WalletVerificationService;
   private homepageVisitService: HomepageVisitService;
+  private scoreLedger?: ScoreLedgerService;
+  private achievementService?: AchievementService;
   private isInitialized = false;
 
   private constructor() {
@@ -49,6 +54,26 @@ export class MissionService {
     return MissionService.instance;
   }
 
+  /**
+   * 점수 원장 서비스 (데이터베이스 초기화 이후 최초 사용 시 생성)
+   */
+  private getScoreLedger(): ScoreLedgerService {
+    if (!this.scoreLedger) {
+      this.scoreLedger = new ScoreLedgerService();
+    }
+    return this.scoreLedger;
+  }
+
+  /**
+   * 업적 서비스 (데이터베이스 초기화 이후 최초 사용 시 생성)
+   */
+  private getAchievementService(): AchievementService {
+    if (!this.achievementService) {
+      this.achievementService = new AchievementService();
+    }
+    return this.achievementService;
+  }
+
   /**
    * 리포지토리 명시적 초기화 (서버 시작 시 호출)
    */
@@ -376,7 +401,7 @@ export class MissionService {
       // 트랜잭션으로 처리
       const dataSource = getDataSource();
       
-      return await dataSource.transaction(async (manager) => {
+      const completed = await dataSource.transaction(async (manager) => {
         // UserMission 업데이트 또는 생성
         let userMission = await manager.findOne(UserMission, {
           where: { userId, missionId }
@@ -403,12 +428,12 @@ export class MissionService {
 
         await manager.save(UserMission, userMission);
 
-        // 사용자 총 점수 업데이트
-        const user = await manager.findOne(User, { where: { id: userId } });
-        if (user) {
-          user.totalScore = (user.totalScore || 0) + points;
-          await manager.save(User, user);
-        }
+        // 점수 원장 기록 (사용자 총 점수 함께 갱신)
+        await this.getScoreLedger().recordAward(userId, {
+          scoreType: GameScoreType.MISSION_REWARD,
+          points,
+          description: `미션 완료: ${missionId}`
+        }, { awardedBy: 'system' }, manager);
 
         // 포인트 히스토리 기록
         const pointHistory = manager.create(PointHistory, {
@@ -427,6 +452,15 @@ export class MissionService {
         
         return userMission;
       });
+
+      // 미션 업적 판정 (실패해도 미션 완료는 유지)
+      try {
+        await this.getAchievementService().onMissionCompleted(userId);
+      } catch (error) {
+        logger.error(`미션 업적 판정 실패 - 사용자: ${userId}:`, error);
+      }
+
+      return completed;
     } catch (error) {
       logger.error(`미션 완료 처리 실패 - 사용자: ${userId}, 미션: ${missionId}:`, error);
       throw error;
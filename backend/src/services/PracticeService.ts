@@ -0,0 +1,292 @@
+// src/services/PracticeService.ts
+
+import { Between, In, Repository } from 'typeorm';
+import { AppDataSource } from '../config/database';
+import { GAME_ROUND_TIERS, gameRoundConfig, gameStakeConfig, practiceConfig, PracticeConfig, TOKEN_NAMES } from '../config/game';
+import { Game, GameStatus, PRACTICE_GAME_TYPE, PracticeReplay, ReplayPricePoint } from '../models/Game';
+import { GamePrediction, GamePredictionStatus } from '../models/GamePrediction';
+import { CANDLE_INTERVAL_MS, CandleInterval, PriceCandle } from '../models/PriceCandle';
+import { PriceTick } from '../models/PriceTick';
+import { AppError } from '../middlewares/errorHandler';
+import { buildReplaySeries, getPriceAt, getReplayPrice, getReplayTime, getVisibleReplaySeries } from '../utils/priceReplay';
+import { GameService } from './GameService';
+
+/**
+ * 연습 게임 상태 (공개 가능한 재생 구간까지)
+ */
+export interface PracticeState {
+  game: Game;
+  prediction: GamePrediction | null;
+  replayTime: number;            // 현재 재생 중인 원본 시각 (Unix ms)
+  currentPrice: number;          // 재생 중인 가격
+  series: ReplayPricePoint[];    // 지금까지 공개된 재생 가격
+}
+
+/**
+ * 연습 기록 요약
+ */
+export interface PracticeSummary {
+  totalGames: number;
+  winCount: number;
+  loseCount: number;
+  drawCount: number;
+  totalScore: number;
+}
+
+const MINUTE = CANDLE_INTERVAL_MS[CandleInterval.ONE_MINUTE];
+
+/**
+ * 연습 모드 서비스
+ * 저장된 과거 가격(1분봉, 틱)을 배속 재생하는 1인 연습 게임을 만들고 상태를 조회
+ * 예측 제출/변경/철회와 라운드 시작/정산은 정규 라운드와 같은 GameService 흐름을 거치며,
+ * 가격은 오라클 대신 게임에 저장된 재생 가격을 사용하므로 외부 가격 조회 없이 진행됨
+ * 연습 게임 결과는 점수 구성만 예측에 남고 점수 원장, 랭킹, 시즌/에어드랍 집계에는 반영되지 않음
+ */
+export class PracticeService {
+  private gameRepository: Repository<Game>;
+  private predictionRepository: Repository<GamePrediction>;
+  private candleRepository: Repository<PriceCandle>;
+  private tickRepository: Repository<PriceTick>;
+  private gameService: GameService;
+
+  constructor(private readonly config: PracticeConfig = practiceConfig) {
+    this.gameRepository = AppDataSource.getRepository(Game);
+    this.predictionRepository = AppDataSource.getRepository(GamePrediction);
+    this.candleRepository = AppDataSource.getRepository(PriceCandle);
+    this.tickRepository = AppDataSource.getRepository(PriceTick);
+    this.gameService = new GameService();
+  }
+
+  /**
+   * 연습 게임 시작 (WAITING)
+   * 1분봉이 빠짐없이 저장된 과거 구간 하나를 골라 등급의 예측 시간 + 진행 시간만큼 재생
+   * 시작/종료 가격은 그 시각의 저장 가격이므로 정규 라운드 기록이나 가격 오라클 없이 만들 수 있음
+   */
+  async startPractice(userId: string, symbol: string, tierId: string = gameRoundConfig.defaultTier): Promise<Game> {
+    const tokenSymbol = symbol?.toUpperCase();
+    if (!tokenSymbol || !gameRoundConfig.symbols.includes(tokenSymbol)) {
+      throw new AppError(`지원하지 않는 심볼입니다. (${gameRoundConfig.symbols.join(', ')})`, 400);
+    }
+    const tier = GAME_ROUND_TIERS[tierId];
+    if (!tier) {
+      throw new AppError(`지원하지 않는 라운드 등급입니다. (${Object.keys(GAME_ROUND_TIERS).join(', ')})`, 400);
+    }
+
+    const active = await this.getActivePractices(userId);
+    if (active.length >= this.config.maxActivePerUser) {
+      throw new AppError('진행 중인 연습 게임이 있습니다. 끝난 뒤 다시 시작해주세요.', 409);
+    }
+
+    const span = tier.predictionWindow + tier.duration;
+    const endAt = await this.pickReplayWindow(tokenSymbol, span);
+    const points = endAt === null ? [] : await this.loadStoredPrices(tokenSymbol, endAt - span, endAt);
+    if (endAt === null || points.length === 0) {
+      throw new AppError('재생할 수 있는 과거 가격이 없습니다.', 404);
+    }
+
+    const window = {
+      openAt: endAt - span,
+      startAt: endAt - tier.duration,
+      endAt,
+      startPrice: getPriceAt(points, endAt - tier.duration) as number,
+      endPrice: getPriceAt(points, endAt) as number
+    };
+    const replay: PracticeReplay = {
+      speed: this.config.replaySpeed,
+      ...window,
+      series: buildReplaySeries(points, window)
+    };
+
+    const now = new Date();
+    const predictionWindow = Math.max(Math.round(tier.predictionWindow / replay.speed), this.config.minPredictionWindow);
+
+    return await this.gameRepository.save(this.gameRepository.create({
+      tokenSymbol,
+      tokenName: TOKEN_NAMES[tokenSymbol] || tokenSymbol,
+      gameType: PRACTICE_GAME_TYPE,
+      // 라운드가 ACTIVE로 전환될 때 재생 구간의 시작 가격으로 갱신됨
+      startPrice: getReplayPrice(replay, replay.openAt),
+      status: GameStatus.WAITING,
+      duration: Math.max(Math.round(tier.duration / replay.speed), this.config.minDuration),
+      predictionWindow,
+      tier: tier.id,
+      pointMultiplier: tier.pointMultiplier,
+      // 정규 라운드와 같은 보합 기준으로 판정
+      flatTolerancePercent: gameRoundConfig.flatTolerancePercent,
+      stakeMode: gameStakeConfig.mode,
+      stakeOdds: gameStakeConfig.fixedOdds,
+      predictionDeadline: new Date(now.getTime() + predictionWindow),
+      priceHistory: [],
+      metadata: { apiProvider: 'replay', replay },
+      createdBy: userId
+    }));
+  }
+
+  /**
+   * 연습 게임 상태 조회
+   * 예측 마감/종료 시각이 지났으면 스케줄러를 기다리지 않고 바로 시작/정산
+   */
+  async getPractice(gameId: string, userId: string): Promise<PracticeState> {
+    const found = await this.gameRepository.findOne({ where: { id: gameId, gameType: PRACTICE_GAME_TYPE } });
+    if (!found || found.createdBy !== userId) {
+      throw new AppError('연습 게임을 찾을 수 없습니다.', 404);
+    }
+
+    const game = await this.advance(found);
+    const prediction = await this.predictionRepository.findOne({ where: { gameId, userId } });
+    const replay = game.metadata?.replay;
+    const replayTime = replay ? getReplayTime(game, replay) : Date.now();
+
+    return {
+      game,
+      prediction,
+      replayTime,
+      currentPrice: replay ? getReplayPrice(replay, replayTime) : Number(game.startPrice),
+      series: replay ? getVisibleReplaySeries(replay, replayTime) : []
+    };
+  }
+
+  /**
+   * 내 연습 기록 (최근 순) 과 결과 요약
+   */
+  async getHistory(userId: string, limit: number = 20, offset: number = 0): Promise<{
+    predictions: GamePrediction[];
+    total: number;
+    summary: PracticeSummary;
+  }> {
+    const [predictions, total] = await this.predictionRepository.findAndCount({
+      where: { userId, game: { gameType: PRACTICE_GAME_TYPE } },
+      relations: ['game'],
+      order: { createdAt: 'DESC' },
+      skip: offset,
+      take: limit
+    });
+
+    const row = await this.predictionRepository
+      .createQueryBuilder('prediction')
+      .innerJoin('prediction.game', 'game')
+      .select('COUNT(*)', 'totalGames')
+      .addSelect('SUM(CASE WHEN prediction.status = :win THEN 1 ELSE 0 END)', 'winCount')
+      .addSelect('SUM(CASE WHEN prediction.status = :lose THEN 1 ELSE 0 END)', 'loseCount')
+      .addSelect('SUM(CASE WHEN prediction.status = :draw THEN 1 ELSE 0 END)', 'drawCount')
+      .addSelect('COALESCE(SUM(prediction.scoreEarned), 0)', 'totalScore')
+      .where('prediction.userId = :userId', { userId })
+      .andWhere('game.gameType = :practice', { practice: PRACTICE_GAME_TYPE })
+      .andWhere('prediction.status IN (:...statuses)', {
+        statuses: [GamePredictionStatus.WIN, GamePredictionStatus.LOSE, GamePredictionStatus.DRAW]
+      })
+      .setParameters({
+        win: GamePredictionStatus.WIN,
+        lose: GamePredictionStatus.LOSE,
+        draw: GamePredictionStatus.DRAW
+      })
+      .getRawOne();
+
+    return {
+      predictions,
+      total,
+      summary: {
+        totalGames: parseInt(row?.totalGames || '0'),
+        winCount: parseInt(row?.winCount || '0'),
+        loseCount: parseInt(row?.loseCount || '0'),
+        drawCount: parseInt(row?.drawCount || '0'),
+        totalScore: parseInt(row?.totalScore || '0')
+      }
+    };
+  }
+
+  /**
+   * 진행 중인 내 연습 게임 (시작/정산 시각이 지난 게임은 먼저 전환)
+   */
+  private async getActivePractices(userId: string): Promise<Game[]> {
+    const games = await this.gameRepository.find({
+      where: {
+        gameType: PRACTICE_GAME_TYPE,
+        createdBy: userId,
+        status: In([GameStatus.WAITING, GameStatus.ACTIVE])
+      }
+    });
+
+    const advanced = await Promise.all(games.map(game => this.advance(game)));
+    return advanced.filter(game => game.status === GameStatus.WAITING || game.status === GameStatus.ACTIVE);
+  }
+
+  /**
+   * 예측 마감/종료 시각이 지난 연습 게임을 시작/정산한 뒤 다시 조회
+   * 스케줄러와 동시에 전환해도 GameService 의 조건부 갱신으로 한 번만 처리됨
+   */
+  private async advance(game: Game): Promise<Game> {
+    let current = game;
+
+    if (current.status === GameStatus.WAITING && current.predictionDeadline && current.predictionDeadline.getTime() <= Date.now()) {
+      await this.gameService.lockRound(current);
+      current = await this.gameRepository.findOneOrFail({ where: { id: game.id } });
+    }
+
+    if (current.status === GameStatus.ACTIVE && current.timeUntilEnd === 0) {
+      await this.gameService.settleRound(current);
+      current = await this.gameRepository.findOneOrFail({ where: { id: game.id } });
+    }
+
+    return current;
+  }
+
+  /**
+   * 재생 구간 선택 (재생 기간 안에서 구간이 걸치는 1분봉이 모두 저장된 구간 중 무작위)
+   * 구간은 1분봉 끝 시각에서 끝나므로 시작/종료 가격은 분 단위 경계의 종가 (진행 시간은 분 단위),
+   * 진행 중인 1분봉은 값이 바뀌므로 제외
+   * @returns 구간 종료 시각 (Unix ms, 없으면 null)
+   */
+  private async pickReplayWindow(symbol: string, span: number): Promise<number | null> {
+    const candleCount = Math.ceil(span / MINUTE);
+    const until = PriceCandle.floorTime(Date.now(), CandleInterval.ONE_MINUTE) - MINUTE;
+
+    // 첫 봉부터 candleCount 개의 봉이 1분 간격으로 이어지는 구간
+    const [row] = await this.candleRepository.query(
+      `SELECT windows."lastOpenTime" FROM (
+         SELECT "openTime", LEAD("openTime", $2::int - 1) OVER (ORDER BY "openTime") AS "lastOpenTime"
+         FROM price_candles
+         WHERE symbol = $1 AND interval = $3 AND "openTime" BETWEEN $4 AND $5
+       ) windows
+       WHERE windows."lastOpenTime" = windows."openTime" + make_interval(mins => $2::int - 1)
+       ORDER BY random()
+       LIMIT 1`,
+      [symbol, candleCount, CandleInterval.ONE_MINUTE, new Date(Date.now() - this.config.sourceLookback), new Date(until)]
+    );
+
+    return row ? new Date(row.lastOpenTime).getTime() + MINUTE : null;
+  }
+
+  /**
+   * 구간 안에 저장된 가격 (시간순)
+   * 1분봉은 첫 봉의 시가와 각 봉 끝 시각의 종가로, 보존 기간 안의 틱은 기록 시각 그대로 사용
+   */
+  private async loadStoredPrices(symbol: string, from: number, to: number): Promise<ReplayPricePoint[]> {
+    const candles = await this.candleRepository.find({
+      select: ['openTime', 'open', 'close'],
+      where: {
+        symbol,
+        interval: CandleInterval.ONE_MINUTE,
+        openTime: Between(new Date(PriceCandle.floorTime(from, CandleInterval.ONE_MINUTE)), new Date(to))
+      },
+      order: { openTime: 'ASC' }
+    });
+    const ticks = await this.tickRepository.find({
+      select: ['price', 'observedAt'],
+      where: { symbol, observedAt: Between(new Date(from), new Date(to)) },
+      order: { observedAt: 'ASC' }
+    });
+
+    const points: ReplayPricePoint[] = [
+      ...candles.slice(0, 1).map(candle => ({ timestamp: candle.openTime.getTime(), price: Number(candle.open) })),
+      ...candles.map(candle => ({ timestamp: candle.openTime.getTime() + MINUTE, price: Number(candle.close) })),
+      ...ticks.map(tick => ({ timestamp: tick.observedAt.getTime(), price: Number(tick.price) }))
+    ];
+
+    return points
+      .filter(point => point.timestamp >= from && point.timestamp <= to)
+      .sort((a, b) => a.timestamp - b.timestamp);
+  }
+}
+
+export default PracticeService;
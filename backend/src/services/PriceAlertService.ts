@@ -0,0 +1,435 @@
+/**
+ * PriceAlertService - 가격 알림 저장과 발동 엔진
+ * 사용자별 알림 등록/수정/삭제(한도 적용)와, 오라클 가격이 갱신될 때마다 해당 심볼의 활성 알림 평가를 담당
+ * 발동한 알림은 발동 기록(PriceAlertNotification)으로 저장한 뒤 WebSocket notifications 채널의 price.alert 로 본인에게 전달하며,
+ * 연결이 없어 전달하지 못한 기록은 notifications 채널을 다시 구독하거나 알림 기록 API 로 확인할 때 전달
+ *
+ * 발동/재무장은 triggerCount 를 조건으로 갱신하므로 여러 PriceService 인스턴스가 같은 가격으로 평가해도 한 번만 발동
+ */
+
+import { EntityManager, In, IsNull, Repository } from 'typeorm';
+import { getDataSource } from '../config/database';
+import { priceAlertConfig, PriceAlertConfig } from '../config/priceAlerts';
+import { priceHistoryConfig } from '../config/priceHistory';
+import { PriceAlert, PriceAlertCondition } from '../models/PriceAlert';
+import { PriceAlertNotification } from '../models/PriceAlertNotification';
+import { User } from '../models/User';
+import { AppError } from '../middlewares/errorHandler';
+import { logger } from '../utils/logger';
+import { WebSocketService } from './WebSocketService';
+
+/**
+ * 알림 등록/수정 입력
+ */
+export interface PriceAlertInput {
+  tokenSymbol?: string;
+  condition?: string;
+  targetPrice?: number;
+  changePercent?: number;
+  recurring?: boolean;
+  cooldownMs?: number;
+  isActive?: boolean;
+  note?: string | null;
+}
+
+/**
+ * percent_change 기준 가격을 정할 때 쓰는 현재 가격 조회 함수
+ */
+export type CurrentPriceLookup = (symbol: string) => Promise<{ price: number } | null>;
+
+/**
+ * 알림 평가에 쓰는 가격 (SymbolPrice 중 필요한 값)
+ */
+export interface AlertPrice {
+  symbol: string;
+  price: number;
+  timestamp: string;
+}
+
+export class PriceAlertService {
+  private static instance: PriceAlertService;
+
+  private alertRepository?: Repository<PriceAlert>;
+  private notificationRepository?: Repository<PriceAlertNotification>;
+  private lastEvaluatedAt = new Map<string, number>();
+
+  private constructor(private readonly config: PriceAlertConfig = priceAlertConfig) {}
+
+  /**
+   * 싱글톤 인스턴스 반환
+   */
+  public static getInstance(): PriceAlertService {
+    if (!PriceAlertService.instance) {
+      PriceAlertService.instance = new PriceAlertService();
+    }
+    return PriceAlertService.instance;
+  }
+
+  /**
+   * 내 알림 목록 (최근 등록 순)
+   */
+  public async getUserAlerts(userId: string): Promise<PriceAlert[]> {
+    return await this.getRepository().find({
+      where: { userId },
+      order: { createdAt: 'DESC' }
+    });
+  }
+
+  /**
+   * 알림 등록 (사용자별 활성/전체 한도 적용, 사용자 행을 잠근 트랜잭션에서 확인 후 저장)
+   * percent_change 는 등록 시점 가격을 기준 가격으로 사용
+   */
+  public async createAlert(userId: string, input: PriceAlertInput, lookupPrice: CurrentPriceLookup): Promise<PriceAlert> {
+    const repository = this.getRepository();
+    const alert = repository.create({
+      userId,
+      symbol: this.resolveSymbol(input.tokenSymbol),
+      condition: this.resolveCondition(input.condition),
+      recurring: input.recurring === true,
+      cooldownMs: this.config.defaultCooldownMs,
+      isActive: input.isActive !== false,
+      armed: true,
+      triggerCount: 0
+    });
+    await this.applyInput(alert, input, lookupPrice);
+
+    return await getDataSource().transaction(async manager => {
+      await this.lockUser(manager, userId);
+
+      const [total, active] = await Promise.all([
+        manager.count(PriceAlert, { where: { userId } }),
+        manager.count(PriceAlert, { where: { userId, isActive: true } })
+      ]);
+      if (total >= this.config.maxPerUser) {
+        throw new AppError(`가격 알림은 최대 ${this.config.maxPerUser}개까지 등록할 수 있습니다.`, 400);
+      }
+      if (alert.isActive && active >= this.config.maxActivePerUser) {
+        throw new AppError(`활성 가격 알림은 최대 ${this.config.maxActivePerUser}개까지 사용할 수 있습니다.`, 400);
+      }
+
+      return await manager.save(alert);
+    });
+  }
+
+  /**
+   * 알림 수정 (조건/목표를 바꾸거나 다시 활성화하면 재무장)
+   */
+  public async updateAlert(
+    alertId: string,
+    userId: string,
+    input: PriceAlertInput,
+    lookupPrice: CurrentPriceLookup
+  ): Promise<PriceAlert> {
+    const repository = this.getRepository();
+    const alert = await this.findOwnAlert(alertId, userId);
+    const wasActive = alert.isActive;
+
+    if (input.tokenSymbol !== undefined) {
+      alert.symbol = this.resolveSymbol(input.tokenSymbol);
+    }
+    if (input.condition !== undefined) {
+      alert.condition = this.resolveCondition(input.condition);
+    }
+    if (input.recurring !== undefined) {
+      alert.recurring = input.recurring === true;
+    }
+    if (input.isActive !== undefined) {
+      alert.isActive = input.isActive === true;
+    }
+    await this.applyInput(alert, input, lookupPrice);
+    alert.armed = alert.isActive;
+
+    if (!alert.isActive || wasActive) {
+      return await repository.save(alert);
+    }
+
+    return await getDataSource().transaction(async manager => {
+      await this.lockUser(manager, userId);
+
+      const active = await manager.count(PriceAlert, { where: { userId, isActive: true } });
+      if (active >= this.config.maxActivePerUser) {
+        throw new AppError(`활성 가격 알림은 최대 ${this.config.maxActivePerUser}개까지 사용할 수 있습니다.`, 400);
+      }
+
+      return await manager.save(alert);
+    });
+  }
+
+  /**
+   * 알림 삭제
+   */
+  public async deleteAlert(alertId: string, userId: string): Promise<void> {
+    const alert = await this.findOwnAlert(alertId, userId);
+    await this.getRepository().remove(alert);
+  }
+
+  /**
+   * 가격 갱신 시 해당 심볼의 활성 알림 평가
+   * 같은 집계 시각의 가격은 한 번만 평가
+   * @returns 발동한 알림 수
+   */
+  public async evaluate(price: AlertPrice): Promise<number> {
+    const observedAt = new Date(price.timestamp).getTime();
+    if (observedAt <= (this.lastEvaluatedAt.get(price.symbol) || 0)) {
+      return 0;
+    }
+    this.lastEvaluatedAt.set(price.symbol, observedAt);
+
+    const alerts = await this.getRepository().find({ where: { symbol: price.symbol, isActive: true } });
+    let triggered = 0;
+
+    for (const alert of alerts) {
+      const satisfied = alert.isSatisfiedBy(price.price);
+      const cooledDown = !alert.lastTriggeredAt || observedAt - alert.lastTriggeredAt.getTime() >= alert.cooldownMs;
+      // 반복 알림 재무장: 쿨다운이 지나고 조건이 풀렸을 때 (percent_change 는 기준 가격이 발동 가격으로 바뀌므로 쿨다운만)
+      const ready = alert.armed
+        || (alert.recurring && cooledDown && (alert.condition === PriceAlertCondition.PERCENT_CHANGE || !satisfied));
+
+      if (ready && satisfied && cooledDown) {
+        if (await this.trigger(alert, price.price, new Date(observedAt))) {
+          triggered += 1;
+        }
+      } else if (ready && !alert.armed) {
+        await this.getRepository().update(
+          { id: alert.id, triggerCount: alert.triggerCount },
+          { armed: true }
+        );
+      }
+    }
+
+    return triggered;
+  }
+
+  /**
+   * 내 가격 알림 발동 기록 (최근 발동 순)
+   * @param pendingOnly true 면 아직 전달되지 않은 기록만
+   */
+  public async getNotifications(userId: string, pendingOnly: boolean = false, limit: number = this.config.maxNotificationsPerRequest): Promise<PriceAlertNotification[]> {
+    return await this.getNotificationRepository().find({
+      where: pendingOnly ? { userId, deliveredAt: IsNull() } : { userId },
+      order: { triggeredAt: 'DESC' },
+      take: Math.min(Math.max(limit, 1), this.config.maxNotificationsPerRequest)
+    });
+  }
+
+  /**
+   * 발동 기록 확인 처리 (API 로 받은 기록은 WebSocket 으로 다시 보내지 않음)
+   * @param notificationIds 지정하지 않으면 전달되지 않은 기록 전체
+   * @returns 확인 처리한 기록 수
+   */
+  public async acknowledgeNotifications(userId: string, notificationIds?: string[]): Promise<number> {
+    const result = await this.getNotificationRepository().update(
+      notificationIds
+        ? { userId, deliveredAt: IsNull(), id: In(notificationIds) }
+        : { userId, deliveredAt: IsNull() },
+      { deliveredAt: new Date() }
+    );
+    return result.affected || 0;
+  }
+
+  /**
+   * 전달되지 않은 발동 기록 재전송 (발동 순, notifications 채널 구독 시 호출)
+   * @returns 전달한 기록 수
+   */
+  public async deliverPending(userId: string): Promise<number> {
+    const pending = await this.getNotificationRepository().find({
+      where: { userId, deliveredAt: IsNull() },
+      order: { triggeredAt: 'ASC' },
+      take: this.config.maxNotificationsPerRequest
+    });
+
+    let delivered = 0;
+    for (const notification of pending) {
+      if (!await this.deliver(notification)) {
+        break;
+      }
+      delivered += 1;
+    }
+    return delivered;
+  }
+
+  /**
+   * 알림 발동 (triggerCount 가 그대로일 때만 반영되며, 반영된 경우에만 발동 기록 저장 후 전송)
+   * 발동 기록은 알림 갱신과 같은 트랜잭션에 저장하므로 전송하지 못해도 발동이 사라지지 않음
+   */
+  private async trigger(alert: PriceAlert, price: number, triggeredAt: Date): Promise<boolean> {
+    const notification = await getDataSource().transaction(async manager => {
+      const result = await manager.update(
+        PriceAlert,
+        { id: alert.id, triggerCount: alert.triggerCount, isActive: true },
+        {
+          armed: false,
+          isActive: alert.recurring,
+          triggerCount: alert.triggerCount + 1,
+          lastTriggeredAt: triggeredAt,
+          lastTriggeredPrice: price,
+          referencePrice: alert.condition === PriceAlertCondition.PERCENT_CHANGE ? price : alert.referencePrice
+        }
+      );
+      if (!result.affected) {
+        return null;
+      }
+
+      return await manager.save(manager.create(PriceAlertNotification, {
+        userId: alert.userId,
+        alertId: alert.id,
+        symbol: alert.symbol,
+        condition: alert.condition,
+        price,
+        targetPrice: alert.targetPrice ?? null,
+        changePercent: alert.changePercent ?? null,
+        referencePrice: alert.referencePrice ?? null,
+        recurring: alert.recurring,
+        note: alert.note ?? null,
+        triggeredAt,
+        deliveredAt: null
+      }));
+    });
+    if (!notification) {
+      return false;
+    }
+
+    const delivered = await this.deliver(notification);
+    logger.info(`가격 알림 발동: ${alert.id} (${alert.symbol} ${alert.condition}, ${price})${delivered ? '' : ' - 연결 없음, 재접속 시 전달'}`);
+    return true;
+  }
+
+  /**
+   * 발동 기록 전송 (본인 연결이 하나 이상 받았을 때만 전달 처리)
+   */
+  private async deliver(notification: PriceAlertNotification): Promise<boolean> {
+    const toNumber = (value?: number | null): number | undefined => (value === null || value === undefined ? undefined : Number(value));
+
+    const sent = WebSocketService.getInstance().publishPriceAlert({
+      notificationId: notification.id,
+      userId: notification.userId,
+      alertId: notification.alertId ?? null,
+      symbol: notification.symbol,
+      condition: notification.condition,
+      price: Number(notification.price),
+      targetPrice: toNumber(notification.targetPrice),
+      changePercent: toNumber(notification.changePercent),
+      referencePrice: toNumber(notification.referencePrice),
+      recurring: notification.recurring,
+      note: notification.note ?? undefined,
+      triggeredAt: notification.triggeredAt
+    });
+    if (sent === 0) {
+      return false;
+    }
+
+    await this.getNotificationRepository().update(
+      { id: notification.id, deliveredAt: IsNull() },
+      { deliveredAt: new Date() }
+    );
+    return true;
+  }
+
+  /**
+   * 조건별 입력값 검증 및 반영
+   */
+  private async applyInput(alert: PriceAlert, input: PriceAlertInput, lookupPrice: CurrentPriceLookup): Promise<void> {
+    if (input.cooldownMs !== undefined) {
+      const cooldownMs = Number(input.cooldownMs);
+      if (!Number.isFinite(cooldownMs) || cooldownMs < this.config.minCooldownMs) {
+        throw new AppError(`반복 알림 쿨다운은 ${this.config.minCooldownMs / 1000}초 이상이어야 합니다.`, 400);
+      }
+      alert.cooldownMs = Math.floor(cooldownMs);
+    }
+    if (input.note !== undefined) {
+      alert.note = input.note ? String(input.note).slice(0, 200) : null;
+    }
+
+    if (alert.condition === PriceAlertCondition.PERCENT_CHANGE) {
+      const changePercent = Number(input.changePercent ?? alert.changePercent);
+      if (!Number.isFinite(changePercent) || changePercent <= 0 || changePercent > this.config.maxChangePercent) {
+        throw new AppError(`변화율은 0 보다 크고 ${this.config.maxChangePercent}% 이하여야 합니다.`, 400);
+      }
+      // 조건/심볼/변화율을 바꾸거나 다시 켜면 현재 가격을 새 기준으로 사용
+      const rebase = input.changePercent !== undefined || input.condition !== undefined
+        || input.tokenSymbol !== undefined || input.isActive === true || !alert.referencePrice;
+      if (rebase) {
+        const current = await lookupPrice(alert.symbol);
+        if (!current || !(current.price > 0)) {
+          throw new AppError('현재 가격을 조회할 수 없어 변화율 알림의 기준 가격을 정할 수 없습니다.', 503);
+        }
+        alert.referencePrice = current.price;
+      }
+      alert.changePercent = changePercent;
+      alert.targetPrice = null;
+      return;
+    }
+
+    const targetPrice = Number(input.targetPrice ?? alert.targetPrice);
+    if (!Number.isFinite(targetPrice) || targetPrice <= 0) {
+      throw new AppError('목표 가격은 0 보다 커야 합니다.', 400);
+    }
+    alert.targetPrice = targetPrice;
+    alert.changePercent = null;
+    alert.referencePrice = null;
+  }
+
+  /**
+   * 본인 알림 조회 (없거나 다른 사용자 알림이면 404)
+   */
+  private async findOwnAlert(alertId: string, userId: string): Promise<PriceAlert> {
+    const alert = await this.getRepository().findOne({ where: { id: alertId, userId } });
+    if (!alert) {
+      throw new AppError('가격 알림을 찾을 수 없습니다.', 404);
+    }
+    return alert;
+  }
+
+  /**
+   * 심볼 검증 (가격을 주기적으로 갱신하는 심볼만 알림 가능)
+   */
+  private resolveSymbol(value?: string): string {
+    const symbol = (value || '').toUpperCase();
+    if (!priceHistoryConfig.symbols.includes(symbol)) {
+      throw new AppError(`가격 알림을 지원하지 않는 심볼입니다. (${priceHistoryConfig.symbols.join(', ')})`, 400);
+    }
+    return symbol;
+  }
+
+  /**
+   * 조건 검증
+   */
+  private resolveCondition(value?: string): PriceAlertCondition {
+    if (!Object.values(PriceAlertCondition).includes(value as PriceAlertCondition)) {
+      throw new AppError(`지원하지 않는 알림 조건입니다. (${Object.values(PriceAlertCondition).join(', ')})`, 400);
+    }
+    return value as PriceAlertCondition;
+  }
+
+  /**
+   * 사용자 행 잠금 (같은 사용자의 한도 확인과 저장이 동시에 진행되지 않도록 직렬화)
+   */
+  private async lockUser(manager: EntityManager, userId: string): Promise<void> {
+    const user = await manager.findOne(User, {
+      where: { id: userId },
+      lock: { mode: 'pessimistic_write' }
+    });
+    if (!user) {
+      throw new AppError('사용자를 찾을 수 없습니다.', 404);
+    }
+  }
+
+  /**
+   * 리포지토리 (데이터베이스 초기화 이후 최초 사용 시 생성)
+   */
+  private getRepository(): Repository<PriceAlert> {
+    if (!this.alertRepository) {
+      this.alertRepository = getDataSource().getRepository(PriceAlert);
+    }
+    return this.alertRepository;
+  }
+
+  private getNotificationRepository(): Repository<PriceAlertNotification> {
+    if (!this.notificationRepository) {
+      this.notificationRepository = getDataSource().getRepository(PriceAlertNotification);
+    }
+    return this.notificationRepository;
+  }
+}
+
+export default PriceAlertService;
@@ -0,0 +1,501 @@
+/**
+ * PriceHistoryService - 가격 히스토리 저장소
+ * 오라클 집계 가격을 주기적으로 틱으로 기록해 1분봉을 만들고, 1분봉 → 5분봉 → 1시간봉 → 일봉으로 롤업
+ * 서버가 멈춰 있던 구간 등 공백은 가격 제공자의 과거 캔들로 채우고, 간격별 보존 기간이 지난 데이터는 삭제
+ *
+ * 차트/가격 히스토리 API 는 이 저장소만 조회하므로 요청마다 외부 API 를 호출하지 않음
+ */
+
+import { Between, LessThan, Repository } from 'typeorm';
+import { getDataSource } from '../config/database';
+import { priceProviderConfigs } from '../config/price';
+import { priceHistoryConfig, PriceHistoryConfig } from '../config/priceHistory';
+import { PriceCandle, CandleInterval, CandleSource, CANDLE_INTERVAL_MS, CANDLE_ROLLUP_SOURCES } from '../models/PriceCandle';
+import { PriceTick } from '../models/PriceTick';
+import { AppError } from '../middlewares/errorHandler';
+import { logger } from '../utils/logger';
+import { PriceOracle } from './PriceOracle';
+import { PriceService, SymbolPrice } from './PriceService';
+
+/**
+ * 차트/히스토리 조회 범위
+ */
+export interface PriceHistoryRange {
+  symbol: string;
+  interval: CandleInterval;
+  from: Date;
+  to: Date;
+}
+
+/**
+ * 가격 히스토리 조회 결과
+ */
+export interface PriceHistoryResult extends PriceHistoryRange {
+  candles: PriceCandle[];
+  ticks?: PriceTick[];
+  coverage: {
+    expected: number; // 범위 안의 캔들 수
+    stored: number;   // 저장된 캔들 수 (작으면 공백 있음)
+  };
+}
+
+/**
+ * 요청 간격 이름 → 캔들 간격 (기존 CoinGecko 방식 이름도 허용)
+ */
+const INTERVAL_ALIASES: Record<string, CandleInterval> = {
+  minutely: CandleInterval.ONE_MINUTE,
+  hourly: CandleInterval.ONE_HOUR,
+  daily: CandleInterval.ONE_DAY,
+  ...Object.fromEntries(Object.values(CandleInterval).map(interval => [interval, interval]))
+};
+
+export class PriceHistoryService {
+  private static instance: PriceHistoryService;
+
+  private candleRepository?: Repository<PriceCandle>;
+  private tickRepository?: Repository<PriceTick>;
+  private priceService?: PriceService;
+  private sampleTimer?: NodeJS.Timeout;
+  private rollupTimer?: NodeJS.Timeout;
+  private backfillTimer?: NodeJS.Timeout;
+  private lastTickAt = new Map<string, number>();
+  private isSampling = false;
+  private isRollingUp = false;
+  private isBackfilling = false;
+
+  private constructor(
+    private readonly oracle: PriceOracle = new PriceOracle(),
+    private readonly config: PriceHistoryConfig = priceHistoryConfig
+  ) {}
+
+  /**
+   * 싱글톤 인스턴스 반환
+   */
+  public static getInstance(): PriceHistoryService {
+    if (!PriceHistoryService.instance) {
+      PriceHistoryService.instance = new PriceHistoryService();
+    }
+    return PriceHistoryService.instance;
+  }
+
+  /**
+   * 틱 기록/롤업/공백 채우기/보존 정리 시작 (데이터베이스 초기화 이후 호출)
+   * @param priceService 틱으로 기록할 현재 가격을 조회하는 가격 서비스 (캐시 공유)
+   */
+  public start(priceService: PriceService): void {
+    if (!this.config.enabled) {
+      logger.info('PriceHistoryService 비활성화됨 (PRICE_HISTORY_ENABLED=false)');
+      return;
+    }
+
+    if (this.sampleTimer) {
+      logger.info('PriceHistoryService already running');
+      return;
+    }
+
+    this.priceService = priceService;
+    this.sampleTimer = setInterval(() => {
+      void this.recordSamples();
+    }, this.config.sampleInterval);
+    this.rollupTimer = setInterval(() => {
+      void this.maintain();
+    }, this.config.rollupInterval);
+    this.backfillTimer = setInterval(() => {
+      void this.backfillAll();
+    }, this.config.backfillInterval);
+
+    // 서버가 멈춰 있던 구간은 시작 직후 채움 (서버 시작을 막지 않음)
+    void this.backfillAll();
+
+    logger.info('✅ PriceHistoryService 시작', { symbols: this.config.symbols });
+  }
+
+  /**
+   * 중지
+   */
+  public stop(): void {
+    if (!this.sampleTimer) {
+      return;
+    }
+
+    clearInterval(this.sampleTimer);
+    clearInterval(this.rollupTimer);
+    clearInterval(this.backfillTimer);
+    this.sampleTimer = undefined;
+    this.rollupTimer = undefined;
+    this.backfillTimer = undefined;
+    logger.info('PriceHistoryService 중지');
+  }
+
+  /**
+   * 틱 기록 및 1분봉 반영
+   * 1분봉은 같은 캔들에 들어오는 틱으로 고가/저가/종가를 갱신
+   */
+  public async recordTick(price: SymbolPrice): Promise<void> {
+    const { tickRepository } = this.getRepositories();
+    const observedAt = new Date(price.timestamp);
+
+    await tickRepository.insert({
+      symbol: price.symbol,
+      price: price.price,
+      provider: price.provider.slice(0, 100),
+      degraded: price.degraded,
+      observedAt
+    });
+
+    await getDataSource().query(
+      `INSERT INTO price_candles (symbol, interval, "openTime", open, high, low, close, volume, "tickCount", source, provider)
+       VALUES ($1, $2, $3, $4, $4, $4, $4, 0, 1, $5, $6)
+       ON CONFLICT (symbol, interval, "openTime") DO UPDATE SET
+         high = GREATEST(price_candles.high, EXCLUDED.high),
+         low = LEAST(price_candles.low, EXCLUDED.low),
+         close = EXCLUDED.close,
+         "tickCount" = price_candles."tickCount" + 1,
+         "updatedAt" = now()`,
+      [
+        price.symbol,
+        CandleInterval.ONE_MINUTE,
+        new Date(PriceCandle.floorTime(observedAt.getTime(), CandleInterval.ONE_MINUTE)),
+        price.price,
+        CandleSource.TICKS,
+        price.provider.slice(0, 100)
+      ]
+    );
+  }
+
+  /**
+   * 한 단계 작은 캔들을 합쳐 상위 간격 캔들 갱신
+   * 진행 중인 캔들과 직전 캔들만 다시 계산 (그 이전 구간은 이미 확정됨)
+   * @returns 갱신한 캔들 수
+   */
+  public async rollUp(interval: CandleInterval, now: number = Date.now()): Promise<number> {
+    const sourceInterval = CANDLE_ROLLUP_SOURCES[interval];
+    if (!sourceInterval) {
+      return 0;
+    }
+
+    const { candleRepository } = this.getRepositories();
+    const windowStart = PriceCandle.floorTime(now, interval) - CANDLE_INTERVAL_MS[interval];
+    const sources = await candleRepository.find({
+      where: { interval: sourceInterval, openTime: Between(new Date(windowStart), new Date(now)) },
+      order: { openTime: 'ASC' }
+    });
+
+    const candles = new Map<string, Partial<PriceCandle>>();
+    for (const source of sources) {
+      const openTime = PriceCandle.floorTime(source.openTime.getTime(), interval);
+      const key = `${source.symbol}:${openTime}`;
+      const candle = candles.get(key);
+      if (!candle) {
+        candles.set(key, {
+          symbol: source.symbol,
+          interval,
+          openTime: new Date(openTime),
+          open: Number(source.open),
+          high: Number(source.high),
+          low: Number(source.low),
+          close: Number(source.close),
+          volume: Number(source.volume),
+          tickCount: source.tickCount,
+          source: CandleSource.ROLLUP,
+          provider: source.provider
+        });
+        continue;
+      }
+      candle.high = Math.max(Number(candle.high), Number(source.high));
+      candle.low = Math.min(Number(candle.low), Number(source.low));
+      candle.close = Number(source.close);
+      candle.volume = Number(candle.volume) + Number(source.volume);
+      candle.tickCount = (candle.tickCount || 0) + source.tickCount;
+    }
+
+    if (candles.size > 0) {
+      await candleRepository.upsert([...candles.values()], ['symbol', 'interval', 'openTime']);
+    }
+    return candles.size;
+  }
+
+  /**
+   * 공백 채우기
+   * 점검 범위 안에서 저장되지 않은 (이미 끝난) 캔들을 찾아 연속 구간별로 제공자 과거 캔들을 요청
+   * @param budget 사용할 수 있는 최대 제공자 요청 수
+   * @returns 채운 캔들 수와 사용한 요청 수
+   */
+  public async backfill(
+    symbol: string,
+    interval: CandleInterval,
+    budget: number = this.config.maxBackfillRequests,
+    now: number = Date.now()
+  ): Promise<{ inserted: number; requests: number }> {
+    const { candleRepository } = this.getRepositories();
+    const length = CANDLE_INTERVAL_MS[interval];
+    const end = PriceCandle.floorTime(now, interval);
+    const start = PriceCandle.floorTime(end - this.config.backfillLookback[interval], interval);
+
+    const stored = await candleRepository.find({
+      select: ['openTime'],
+      where: { symbol, interval, openTime: Between(new Date(start), new Date(end - 1)) }
+    });
+    const existing = new Set(stored.map(candle => candle.openTime.getTime()));
+
+    const gaps: { start: number; end: number }[] = [];
+    for (let openTime = start; openTime < end; openTime += length) {
+      if (existing.has(openTime)) {
+        continue;
+      }
+      const last = gaps[gaps.length - 1];
+      if (last && last.end === openTime && (last.end - last.start) / length < this.config.maxCandlesPerRequest) {
+        last.end = openTime + length;
+      } else {
+        gaps.push({ start: openTime, end: openTime + length });
+      }
+    }
+
+    let inserted = 0;
+    let requests = 0;
+    for (const gap of gaps) {
+      if (requests >= budget) {
+        break;
+      }
+
+      requests += 1;
+      try {
+        const result = await this.oracle.getCandles(symbol, interval, gap.start, gap.end);
+        if (!result) {
+          break; // 이 심볼/간격의 과거 캔들을 제공하는 제공자 없음
+        }
+
+        const rows = result.candles
+          .filter(candle => candle.openTime >= gap.start && candle.openTime < gap.end && !existing.has(candle.openTime))
+          .map(candle => ({
+            symbol,
+            interval,
+            openTime: new Date(candle.openTime),
+            open: candle.open,
+            high: candle.high,
+            low: candle.low,
+            close: candle.close,
+            volume: candle.volume,
+            tickCount: 0,
+            source: CandleSource.BACKFILL,
+            provider: result.provider
+          }));
+        if (rows.length === 0) {
+          continue;
+        }
+
+        const insertResult = await candleRepository
+          .createQueryBuilder()
+          .insert()
+          .into(PriceCandle)
+          .values(rows)
+          .orIgnore()
+          .execute();
+        inserted += Array.isArray(insertResult.raw) ? insertResult.raw.length : rows.length;
+      } catch (error) {
+        logger.warn(`가격 히스토리 공백 채우기 실패 (${symbol} ${interval}):`, error);
+        break;
+      }
+    }
+
+    return { inserted, requests };
+  }
+
+  /**
+   * 보존 기간이 지난 틱/캔들 삭제
+   */
+  public async applyRetention(now: number = Date.now()): Promise<void> {
+    const { candleRepository, tickRepository } = this.getRepositories();
+
+    await tickRepository.delete({ observedAt: LessThan(new Date(now - this.config.tickRetention)) });
+    for (const interval of Object.values(CandleInterval)) {
+      const retention = this.config.candleRetention[interval];
+      if (retention > 0) {
+        await candleRepository.delete({ interval, openTime: LessThan(new Date(now - retention)) });
+      }
+    }
+  }
+
+  /**
+   * 차트용 캔들 조회 (최근 days 일, 간격 생략 시 기간에 맞춰 선택)
+   */
+  public async getChart(symbol: string, days: number, interval?: string): Promise<PriceHistoryResult> {
+    const to = new Date();
+    const from = new Date(to.getTime() - Math.max(days, 0) * CANDLE_INTERVAL_MS[CandleInterval.ONE_DAY]);
+    return this.getHistory(symbol, { from, to, interval });
+  }
+
+  /**
+   * 구간 캔들 조회 (정산 가격 감사 등 짧은 구간은 원본 틱도 함께 조회 가능)
+   * 범위가 응답 최대 캔들 수를 넘으면 최근 캔들부터 잘라냄
+   */
+  public async getHistory(
+    symbol: string,
+    options: { from: Date; to: Date; interval?: string; includeTicks?: boolean }
+  ): Promise<PriceHistoryResult> {
+    const { candleRepository, tickRepository } = this.getRepositories();
+    const resolvedSymbol = this.resolveSymbol(symbol);
+    const { from, to } = options;
+    if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime()) || from >= to) {
+      throw new AppError('조회 구간이 올바르지 않습니다.', 400);
+    }
+    const interval = this.resolveInterval(options.interval, to.getTime() - from.getTime());
+
+    const candles = (await candleRepository.find({
+      where: { symbol: resolvedSymbol, interval, openTime: Between(from, to) },
+      order: { openTime: 'DESC' },
+      take: this.config.maxPoints
+    })).reverse();
+
+    const ticks = options.includeTicks
+      ? await tickRepository.find({
+        where: { symbol: resolvedSymbol, observedAt: Between(from, to) },
+        order: { observedAt: 'ASC' },
+        take: this.config.maxPoints
+      })
+      : undefined;
+
+    const length = CANDLE_INTERVAL_MS[interval];
+    return {
+      symbol: resolvedSymbol,
+      interval,
+      from,
+      to,
+      candles,
+      ticks,
+      coverage: {
+        expected: Math.min(
+          this.config.maxPoints,
+          Math.floor(to.getTime() / length) - Math.ceil(from.getTime() / length) + 1
+        ),
+        stored: candles.length
+      }
+    };
+  }
+
+  /**
+   * 심볼 파라미터 변환 (토큰 ID/소문자도 허용, 기록하지 않는 심볼이면 400)
+   */
+  public resolveSymbol(value: string): string {
+    const tokenIds = priceProviderConfigs.coingecko?.symbols || {};
+    const symbol = Object.keys(tokenIds).find(key => tokenIds[key] === value.toLowerCase()) || value.toUpperCase();
+
+    if (!this.config.symbols.includes(symbol)) {
+      throw new AppError(`가격 히스토리를 기록하지 않는 심볼입니다. (${this.config.symbols.join(', ')})`, 400);
+    }
+    return symbol;
+  }
+
+  /**
+   * 간격 파라미터 변환 (생략 시 1일 이하 5분봉, 30일 이하 1시간봉, 그 이상 일봉)
+   */
+  public resolveInterval(value: string | undefined, range: number): CandleInterval {
+    if (!value) {
+      if (range <= CANDLE_INTERVAL_MS[CandleInterval.ONE_DAY]) {
+        return CandleInterval.FIVE_MINUTES;
+      }
+      return range <= 30 * CANDLE_INTERVAL_MS[CandleInterval.ONE_DAY] ? CandleInterval.ONE_HOUR : CandleInterval.ONE_DAY;
+    }
+
+    const interval = INTERVAL_ALIASES[value];
+    if (!interval) {
+      throw new AppError(`지원하지 않는 캔들 간격입니다. (${Object.values(CandleInterval).join(', ')})`, 400);
+    }
+    return interval;
+  }
+
+  /**
+   * 기록 주기마다 심볼별 현재 가격을 틱으로 기록 (캐시된 같은 가격은 한 번만)
+   */
+  private async recordSamples(): Promise<void> {
+    if (this.isSampling || !this.priceService) {
+      return;
+    }
+
+    this.isSampling = true;
+    try {
+      for (const symbol of this.config.symbols) {
+        const price = await this.priceService.getCurrentPriceBySymbol(symbol);
+        const observedAt = price ? new Date(price.timestamp).getTime() : 0;
+        if (!price || observedAt <= (this.lastTickAt.get(symbol) || 0)) {
+          continue;
+        }
+
+        await this.recordTick(price);
+        this.lastTickAt.set(symbol, observedAt);
+      }
+    } catch (error) {
+      logger.error('가격 틱 기록 실패:', error);
+    } finally {
+      this.isSampling = false;
+    }
+  }
+
+  /**
+   * 롤업 후 보존 기간 정리 (작은 간격부터 롤업해야 상위 간격에 최신 값이 반영됨)
+   */
+  private async maintain(): Promise<void> {
+    if (this.isRollingUp) {
+      return;
+    }
+
+    this.isRollingUp = true;
+    try {
+      const now = Date.now();
+      for (const interval of [CandleInterval.FIVE_MINUTES, CandleInterval.ONE_HOUR, CandleInterval.ONE_DAY]) {
+        await this.rollUp(interval, now);
+      }
+      await this.applyRetention(now);
+    } catch (error) {
+      logger.error('가격 캔들 롤업 실패:', error);
+    } finally {
+      this.isRollingUp = false;
+    }
+  }
+
+  /**
+   * 모든 심볼/간격 공백 채우기 (1회 제공자 요청 수 제한 공유)
+   */
+  private async backfillAll(): Promise<void> {
+    if (this.isBackfilling) {
+      return;
+    }
+
+    this.isBackfilling = true;
+    try {
+      let budget = this.config.maxBackfillRequests;
+      let inserted = 0;
+      for (const symbol of this.config.symbols) {
+        for (const interval of Object.values(CandleInterval)) {
+          if (budget <= 0) {
+            break;
+          }
+          const result = await this.backfill(symbol, interval, budget);
+          budget -= result.requests;
+          inserted += result.inserted;
+        }
+      }
+
+      if (inserted > 0) {
+        logger.info(`가격 히스토리 공백 채우기: 캔들 ${inserted}개`);
+      }
+    } catch (error) {
+      logger.error('가격 히스토리 공백 채우기 실패:', error);
+    } finally {
+      this.isBackfilling = false;
+    }
+  }
+
+  /**
+   * 리포지토리 (데이터베이스 초기화 이후 최초 사용 시 생성)
+   */
+  private getRepositories(): { candleRepository: Repository<PriceCandle>; tickRepository: Repository<PriceTick> } {
+    if (!this.candleRepository || !this.tickRepository) {
+      this.candleRepository = getDataSource().getRepository(PriceCandle);
+      this.tickRepository = getDataSource().getRepository(PriceTick);
+    }
+    return { candleRepository: this.candleRepository, tickRepository: this.tickRepository };
+  }
+}
+
+export default PriceHistoryService;
@@ -0,0 +1,666 @@
+// src/services/PriceOracle.ts
+
+import axios, { AxiosInstance } from 'axios';
+import { Contract, FetchRequest, JsonRpcProvider } from 'ethers';
+import { airdropChainConfig } from '../config/blockchain';
+import {
+  catenaPoolConfig,
+  CatenaPoolConfig,
+  priceOracleConfig,
+  PriceOracleConfig,
+  priceProviderConfigs,
+  PriceProviderConfig
+} from '../config/price';
+import { PriceSourceQuote } from '../models/Game';
+import { CandleInterval, CANDLE_INTERVAL_MS, PriceCandle } from '../models/PriceCandle';
+import { logger } from '../utils/logger';
+import { ProviderGuard, ProviderGuardStatus } from './ProviderGuard';
+import { SimMarket } from './SimMarket';
+
+/**
+ * 제공자 조회 결과
+ */
+export interface ProviderQuote {
+  price: number;
+  change24h?: number; // 24시간 변화율 (%)
+}
+
+/**
+ * 제공자 과거 캔들 (openTime 은 밀리초)
+ */
+export interface ProviderCandle {
+  openTime: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+/**
+ * 가격 제공자 어댑터
+ * 새 제공자는 이 인터페이스를 구현하고 createProviderAdapter 에 등록
+ * 과거 캔들을 제공하는 제공자는 candleIntervals 와 fetchCandles 를 함께 구현 (가격 히스토리 공백 채우기용)
+ * 온체인 풀처럼 조작 위험이 있는 소스는 sanityBoundPercent 를 지정해 오프체인 소스 중앙값 대비 그 편차 이내일 때만 채택
+ */
+export interface PriceProviderAdapter {
+  readonly name: string;
+  readonly candleIntervals?: CandleInterval[];
+  readonly sanityBoundPercent?: number;
+  supports(symbol: string): boolean;
+  fetchQuote(symbol: string): Promise<ProviderQuote>;
+  fetchCandles?(symbol: string, interval: CandleInterval, start: number, end: number): Promise<ProviderCandle[]>;
+}
+
+/**
+ * 과거 캔들 조회 결과
+ */
+export interface OracleCandles {
+  provider: string;
+  candles: ProviderCandle[];
+}
+
+/**
+ * 오라클 집계 가격
+ */
+export interface OraclePrice {
+  symbol: string;
+  price: number;              // 채택된 소스 가격의 중앙값
+  change24h?: number;
+  method: string;             // 집계 방식 (정산 기록용, 예: median(quorum=2,maxDeviation=1%))
+  providers: string[];        // 채택된 제공자 (우선순위 순)
+  sources: PriceSourceQuote[];
+  latency: number;            // 채택된 소스 중 가장 느린 응답 시간 (ms)
+  degraded: boolean;          // 목표 합의 소스 수(quorum)를 채우지 못함
+  timestamp: number;
+}
+
+/**
+ * 제공자 공통 HTTP 클라이언트
+ */
+abstract class HttpPriceProvider implements PriceProviderAdapter {
+  protected http: AxiosInstance;
+
+  constructor(
+    readonly name: string,
+    protected readonly config: PriceProviderConfig,
+    timeout: number,
+    headers: Record<string, string> = {}
+  ) {
+    this.http = axios.create({
+      baseURL: config.baseUrl,
+      timeout,
+      headers: { Accept: 'application/json', ...headers }
+    });
+  }
+
+  supports(symbol: string): boolean {
+    return !!this.config.symbols[symbol.toUpperCase()];
+  }
+
+  protected resolve(symbol: string): string {
+    const id = this.config.symbols[symbol.toUpperCase()];
+    if (!id) {
+      throw new Error(`${this.name}: 지원하지 않는 심볼입니다 (${symbol})`);
+    }
+    return id;
+  }
+
+  abstract fetchQuote(symbol: string): Promise<ProviderQuote>;
+}
+
+/**
+ * CoinGecko (/simple/price)
+ */
+class CoinGeckoProvider extends HttpPriceProvider {
+  constructor(config: PriceProviderConfig, timeout: number) {
+    super('coingecko', config, timeout, config.apiKey ? { 'X-CG-Demo-API-Key': config.apiKey } : {});
+  }
+
+  async fetchQuote(symbol: string): Promise<ProviderQuote> {
+    const id = this.resolve(symbol);
+    const response = await this.http.get('/simple/price', {
+      params: { ids: id, vs_currencies: 'usd', include_24hr_change: true }
+    });
+
+    return { price: Number(response.data?.[id]?.usd), change24h: response.data?.[id]?.usd_24h_change };
+  }
+
+  readonly candleIntervals = [CandleInterval.ONE_HOUR, CandleInterval.ONE_DAY];
+
+  /**
+   * /coins/{id}/market_chart/range 의 가격 포인트를 간격별로 묶어 캔들로 변환
+   * (범위가 90일 이하이면 시간 단위 포인트를 제공하므로 시간봉/일봉만 지원)
+   */
+  async fetchCandles(symbol: string, interval: CandleInterval, start: number, end: number): Promise<ProviderCandle[]> {
+    const response = await this.http.get(`/coins/${this.resolve(symbol)}/market_chart/range`, {
+      params: { vs_currency: 'usd', from: Math.floor(start / 1000), to: Math.ceil(end / 1000) }
+    });
+    const volumes = new Map<number, number>(
+      (response.data?.total_volumes || []).map((point: number[]) => [PriceCandle.floorTime(point[0], interval), Number(point[1])])
+    );
+
+    return bucketPoints(response.data?.prices || [], interval)
+      .map(candle => ({ ...candle, volume: volumes.get(candle.openTime) || 0 }));
+  }
+}
+
+/**
+ * Binance (/api/v3/ticker/24hr, USDT 거래쌍)
+ */
+class BinanceProvider extends HttpPriceProvider {
+  constructor(config: PriceProviderConfig, timeout: number) {
+    super('binance', config, timeout);
+  }
+
+  async fetchQuote(symbol: string): Promise<ProviderQuote> {
+    const response = await this.http.get('/api/v3/ticker/24hr', {
+      params: { symbol: this.resolve(symbol) }
+    });
+
+    return { price: Number(response.data?.lastPrice), change24h: Number(response.data?.priceChangePercent) };
+  }
+
+  readonly candleIntervals = Object.values(CandleInterval);
+
+  /**
+   * /api/v3/klines (간격 이름이 캔들 간격과 같음)
+   */
+  async fetchCandles(symbol: string, interval: CandleInterval, start: number, end: number): Promise<ProviderCandle[]> {
+    const response = await this.http.get('/api/v3/klines', {
+      params: {
+        symbol: this.resolve(symbol),
+        interval,
+        startTime: start,
+        endTime: end - 1,
+        limit: Math.min(1000, Math.ceil((end - start) / CANDLE_INTERVAL_MS[interval]))
+      }
+    });
+
+    return (response.data || []).map((kline: (number | string)[]) => ({
+      openTime: Number(kline[0]),
+      open: Number(kline[1]),
+      high: Number(kline[2]),
+      low: Number(kline[3]),
+      close: Number(kline[4]),
+      volume: Number(kline[5])
+    }));
+  }
+}
+
+/**
+ * CryptoCompare (/data/pricemultifull)
+ */
+class CryptoCompareProvider extends HttpPriceProvider {
+  constructor(config: PriceProviderConfig, timeout: number) {
+    super('cryptocompare', config, timeout, config.apiKey ? { Authorization: `Apikey ${config.apiKey}` } : {});
+  }
+
+  async fetchQuote(symbol: string): Promise<ProviderQuote> {
+    const fsym = this.resolve(symbol);
+    const response = await this.http.get('/data/pricemultifull', {
+      params: { fsyms: fsym, tsyms: 'USD' }
+    });
+    const raw = response.data?.RAW?.[fsym]?.USD;
+
+    return { price: Number(raw?.PRICE), change24h: raw?.CHANGEPCT24HOUR };
+  }
+
+  readonly candleIntervals = Object.values(CandleInterval);
+
+  /**
+   * /data/v2/histominute, histohour, histoday (5분봉은 aggregate=5)
+   * toTs 까지 limit + 1 개를 돌려주므로 마지막 캔들 시작 시각을 toTs 로 지정
+   */
+  async fetchCandles(symbol: string, interval: CandleInterval, start: number, end: number): Promise<ProviderCandle[]> {
+    const endpoints: Record<CandleInterval, { path: string; aggregate: number }> = {
+      [CandleInterval.ONE_MINUTE]: { path: 'histominute', aggregate: 1 },
+      [CandleInterval.FIVE_MINUTES]: { path: 'histominute', aggregate: 5 },
+      [CandleInterval.ONE_HOUR]: { path: 'histohour', aggregate: 1 },
+      [CandleInterval.ONE_DAY]: { path: 'histoday', aggregate: 1 }
+    };
+    const { path, aggregate } = endpoints[interval];
+    const length = CANDLE_INTERVAL_MS[interval];
+    const response = await this.http.get(`/data/v2/${path}`, {
+      params: {
+        fsym: this.resolve(symbol),
+        tsym: 'USD',
+        aggregate,
+        limit: Math.max(1, Math.ceil((end - start) / length) - 1),
+        toTs: Math.floor((end - length) / 1000)
+      }
+    });
+
+    return (response.data?.Data?.Data || [])
+      .map((row: { time: number; open: number; high: number; low: number; close: number; volumefrom: number }) => ({
+        openTime: row.time * 1000,
+        open: Number(row.open),
+        high: Number(row.high),
+        low: Number(row.low),
+        close: Number(row.close),
+        volume: Number(row.volumefrom)
+      }))
+      .filter((candle: ProviderCandle) => candle.openTime >= start && candle.openTime < end && candle.close > 0);
+  }
+}
+
+/**
+ * Uniswap V2 페어 ABI 중 가격 조회에 쓰는 부분
+ */
+const PAIR_ABI = [
+  'function getReserves() view returns (uint112 reserve0, uint112 reserve1, uint32 blockTimestampLast)',
+  'function token0() view returns (address)',
+  'function price0CumulativeLast() view returns (uint256)',
+  'function price1CumulativeLast() view returns (uint256)'
+];
+
+const Q112 = 2n ** 112n;
+const UINT256 = 2n ** 256n;
+const UINT32 = 2n ** 32n;
+
+/**
+ * Catena 온체인 CTA/USDT 풀 (Uniswap V2 형식 페어)
+ * spot 은 현재 준비금 비율, twap 은 누적 가격(priceXCumulativeLast)을 현재 시각까지 연장한 값과
+ * twapWindowSeconds 이전 관측값의 차이로 계산한 시간 가중 평균 가격
+ * USDT 준비금이 minUsdtReserve 미만이면 조회 실패로 처리하고, 채택 여부는 오라클이 오프체인 중앙값과 비교해 결정
+ */
+class CatenaPoolProvider implements PriceProviderAdapter {
+  readonly name = 'catena';
+  readonly sanityBoundPercent: number;
+
+  private pair?: Contract;
+  private ctaIsToken0?: boolean;
+  private observations: { timestamp: bigint; cumulative: bigint }[] = [];
+
+  constructor(
+    private readonly config: PriceProviderConfig,
+    private readonly pool: CatenaPoolConfig,
+    private readonly timeout: number
+  ) {
+    this.sanityBoundPercent = pool.maxDeviationPercent;
+  }
+
+  supports(symbol: string): boolean {
+    return !!this.config.symbols[symbol.toUpperCase()];
+  }
+
+  async fetchQuote(symbol: string): Promise<ProviderQuote> {
+    if (!this.supports(symbol)) {
+      throw new Error(`${this.name}: 지원하지 않는 심볼입니다 (${symbol})`);
+    }
+
+    const pair = this.getPair();
+    const [reserves, ctaIsToken0, price0Cumulative, price1Cumulative] = await Promise.all([
+      pair.getReserves(),
+      this.resolveOrientation(pair),
+      this.pool.mode === 'twap' ? pair.price0CumulativeLast() : Promise.resolve(0n),
+      this.pool.mode === 'twap' ? pair.price1CumulativeLast() : Promise.resolve(0n)
+    ]);
+
+    const ctaReserve = BigInt(ctaIsToken0 ? reserves[0] : reserves[1]);
+    const usdtReserve = BigInt(ctaIsToken0 ? reserves[1] : reserves[0]);
+    if (ctaReserve === 0n || usdtReserve === 0n) {
+      throw new Error(`${this.name}: 풀 준비금이 비어 있습니다.`);
+    }
+    if (Number(usdtReserve) / 10 ** this.pool.usdtDecimals < this.pool.minUsdtReserve) {
+      throw new Error(`${this.name}: 풀 유동성이 부족합니다 (USDT 준비금 < ${this.pool.minUsdtReserve})`);
+    }
+
+    // CTA 1개당 USDT (UQ112x112)
+    const spot = usdtReserve * Q112 / ctaReserve;
+    const average = this.pool.mode === 'twap'
+      ? this.observe(BigInt(ctaIsToken0 ? price0Cumulative : price1Cumulative), BigInt(reserves[2]), spot)
+      : spot;
+
+    return { price: this.toPrice(average) };
+  }
+
+  /**
+   * 누적 가격을 현재 시각까지 연장해 관측값으로 기록하고 TWAP 반환
+   * (구간 이상 지난 관측값이 아직 없으면 현재 준비금 비율)
+   */
+  private observe(cumulativeLast: bigint, blockTimestampLast: bigint, spot: bigint): bigint {
+    const now = BigInt(Math.floor(Date.now() / 1000));
+    const sinceUpdate = ((now % UINT32) - blockTimestampLast + UINT32) % UINT32;
+    const elapsed = sinceUpdate > UINT32 / 2n ? 0n : sinceUpdate; // 서버 시계가 블록 시각보다 늦은 경우
+    const cumulative = (cumulativeLast + spot * elapsed) % UINT256;
+    const window = BigInt(this.pool.twapWindowSeconds);
+
+    const latest = this.observations[this.observations.length - 1];
+    if (!latest || latest.timestamp < now) {
+      this.observations.push({ timestamp: now, cumulative });
+    }
+
+    let base = -1;
+    this.observations.forEach((observation, index) => {
+      if (now - observation.timestamp >= window) {
+        base = index;
+      }
+    });
+    if (base < 0) {
+      return spot;
+    }
+
+    this.observations = this.observations.slice(base);
+    const start = this.observations[0];
+    return ((cumulative - start.cumulative + UINT256) % UINT256) / (now - start.timestamp);
+  }
+
+  /**
+   * 풀에서 CTA 가 token0 인지 확인 (CTA 토큰 주소가 설정된 경우 한 번만 조회)
+   */
+  private async resolveOrientation(pair: Contract): Promise<boolean> {
+    if (this.ctaIsToken0 === undefined) {
+      this.ctaIsToken0 = this.pool.ctaTokenAddress
+        ? String(await pair.token0()).toLowerCase() === this.pool.ctaTokenAddress.toLowerCase()
+        : this.pool.ctaIsToken0;
+    }
+    return this.ctaIsToken0;
+  }
+
+  /**
+   * UQ112x112 가격을 소수 단위 USDT 가격으로 변환 (토큰 소수 자릿수 보정)
+   */
+  private toPrice(value: bigint): number {
+    return Number(value) / Number(Q112) * 10 ** (this.pool.ctaDecimals - this.pool.usdtDecimals);
+  }
+
+  private getPair(): Contract {
+    if (!this.pair) {
+      const request = new FetchRequest(this.config.baseUrl);
+      request.timeout = this.timeout;
+      const provider = new JsonRpcProvider(request, airdropChainConfig.chainId, { staticNetwork: true });
+      this.pair = new Contract(this.config.symbols.CTA, PAIR_ABI, provider);
+    }
+    return this.pair;
+  }
+}
+
+/**
+ * 시드 기반 시뮬레이션 시장 (PRICE_PROVIDER=sim)
+ * 네트워크 호출 없이 SimMarket 의 가격 경로에서 현재가와 모든 간격의 과거 캔들을 제공
+ */
+class SimMarketProvider implements PriceProviderAdapter {
+  readonly name = 'sim';
+  readonly candleIntervals = Object.values(CandleInterval);
+
+  private market = SimMarket.getInstance();
+
+  supports(symbol: string): boolean {
+    return this.market.supports(symbol);
+  }
+
+  async fetchQuote(symbol: string): Promise<ProviderQuote> {
+    return this.market.getQuote(symbol);
+  }
+
+  async fetchCandles(symbol: string, interval: CandleInterval, start: number, end: number): Promise<ProviderCandle[]> {
+    return this.market.getCandles(symbol, interval, start, end);
+  }
+}
+
+/**
+ * 설정 이름으로 제공자 어댑터 생성
+ */
+export function createProviderAdapter(name: string, timeout: number = priceOracleConfig.timeout): PriceProviderAdapter {
+  const config = priceProviderConfigs[name];
+  if (!config) {
+    throw new Error(`알 수 없는 가격 제공자입니다: ${name}`);
+  }
+
+  switch (name) {
+    case 'coingecko':
+      return new CoinGeckoProvider(config, timeout);
+    case 'binance':
+      return new BinanceProvider(config, timeout);
+    case 'cryptocompare':
+      return new CryptoCompareProvider(config, timeout);
+    case 'catena':
+      return new CatenaPoolProvider(config, catenaPoolConfig, timeout);
+    case 'sim':
+      return new SimMarketProvider();
+    default:
+      throw new Error(`어댑터가 없는 가격 제공자입니다: ${name}`);
+  }
+}
+
+/**
+ * 가격 오라클
+ * 우선순위 순으로 quorum 개 제공자를 동시에 조회하고, 실패하거나 이상치로 제외되어
+ * 채택 수가 부족하면 남은 제공자를 하나씩 추가 조회 (자동 대체)
+ * 최종 가격은 중앙값 대비 허용 편차 이내 소스들의 중앙값
+ * 온체인 소스(sanityBoundPercent 지정)는 오프체인 소스 중앙값 대비 자체 허용 편차로 판정하고,
+ * 오프체인 소스가 모두 실패하면 온체인 소스만으로 집계
+ * 제공자 호출은 ProviderGuard 를 거치므로 요청 한도/회로 차단으로 호출할 수 없는 제공자는 우선순위와 관계없이 뒤로 밀림
+ */
+export class PriceOracle {
+  private adapters: PriceProviderAdapter[];
+  private guard = ProviderGuard.getInstance();
+
+  constructor(
+    adapters?: PriceProviderAdapter[],
+    private readonly config: PriceOracleConfig = priceOracleConfig
+  ) {
+    this.adapters = adapters || config.providers.map(name => createProviderAdapter(name, config.timeout));
+  }
+
+  /**
+   * 조회 우선순위 순 제공자 이름
+   */
+  getProviderNames(): string[] {
+    return this.adapters.map(adapter => adapter.name);
+  }
+
+  /**
+   * 심볼 지원 여부 (하나 이상의 제공자가 지원)
+   */
+  supports(symbol: string): boolean {
+    return this.adapters.some(adapter => adapter.supports(symbol));
+  }
+
+  /**
+   * 온체인 소스로도 가격을 조회하는 심볼인지 여부
+   */
+  hasOnChainSource(symbol: string): boolean {
+    return this.adapters.some(adapter => adapter.sanityBoundPercent !== undefined && adapter.supports(symbol));
+  }
+
+  /**
+   * 우선 제공자 변경 (조회 순서 맨 앞으로 이동)
+   */
+  setPreferredProvider(name: string): void {
+    const adapter = this.adapters.find(candidate => candidate.name === name);
+    if (!adapter) {
+      throw new Error(`등록되지 않은 가격 제공자입니다: ${name}`);
+    }
+    this.adapters = [adapter, ...this.adapters.filter(candidate => candidate !== adapter)];
+  }
+
+  /**
+   * 제공자별 호출 상태 (요청 한도 사용량, 회로 차단 상태, 성공/실패 수)
+   */
+  getProviderStatus(): ProviderGuardStatus[] {
+    return this.guard.getStatus(this.getProviderNames());
+  }
+
+  /**
+   * 집계 가격 조회
+   * 모든 제공자가 실패하거나 소스 간 편차로 채택된 가격이 없으면 예외
+   */
+  async getPrice(symbol: string): Promise<OraclePrice> {
+    const candidates = this.prioritize(this.adapters.filter(adapter => adapter.supports(symbol)));
+    if (candidates.length === 0) {
+      throw new Error(`가격을 제공하는 소스가 없는 심볼입니다: ${symbol}`);
+    }
+
+    const quorum = Math.max(1, Math.min(this.config.quorum, candidates.length));
+    const sources = await Promise.all(candidates.slice(0, quorum).map(adapter => this.query(adapter, symbol)));
+    let next = quorum;
+    let accepted = this.aggregate(sources);
+
+    while (accepted.length < quorum && next < candidates.length) {
+      sources.push(await this.query(candidates[next], symbol));
+      next += 1;
+      accepted = this.aggregate(sources);
+    }
+
+    if (accepted.length === 0) {
+      const reason = sources.some(source => source.price !== undefined)
+        ? '가격 소스 간 편차가 허용 범위를 넘었습니다.'
+        : '모든 가격 제공자 조회에 실패했습니다.';
+      throw new Error(`${symbol.toUpperCase()} ${reason}`);
+    }
+
+    if (accepted.length < quorum) {
+      logger.warn(`가격 오라클 합의 소스 부족 (${symbol}): ${accepted.length}/${quorum}`, { sources });
+    }
+
+    const primary = accepted.find(source => source.change24h !== undefined && Number.isFinite(source.change24h));
+    const bounds = candidates
+      .filter(adapter => adapter.sanityBoundPercent !== undefined)
+      .map(adapter => `,${adapter.name}<=${adapter.sanityBoundPercent}%`)
+      .join('');
+
+    return {
+      symbol: symbol.toUpperCase(),
+      price: median(accepted.map(source => source.price as number)),
+      change24h: primary?.change24h,
+      method: `median(quorum=${quorum},maxDeviation=${this.config.maxDeviationPercent}%${bounds})`,
+      providers: accepted.map(source => source.provider),
+      sources,
+      latency: Math.max(...accepted.map(source => source.latency)),
+      degraded: accepted.length < quorum,
+      timestamp: Date.now()
+    };
+  }
+
+  /**
+   * 과거 캔들 조회 (가격 히스토리 공백 채우기용)
+   * 해당 심볼/간격을 제공하는 제공자를 우선순위 순으로 조회하고 처음 성공한 결과를 사용
+   * 제공하는 제공자가 없으면 null, 모두 실패하면 예외
+   */
+  async getCandles(symbol: string, interval: CandleInterval, start: number, end: number): Promise<OracleCandles | null> {
+    const candidates = this.prioritize(this.adapters.filter(adapter =>
+      adapter.supports(symbol) && adapter.candleIntervals?.includes(interval)
+    ));
+    if (candidates.length === 0) {
+      return null;
+    }
+
+    const errors: string[] = [];
+    for (const adapter of candidates) {
+      const fetchCandles = adapter.fetchCandles;
+      if (!fetchCandles) {
+        continue;
+      }
+      try {
+        const candles = await this.guard.execute<ProviderCandle[]>(
+          adapter.name,
+          `candles:${symbol}:${interval}:${start}:${end}`,
+          () => fetchCandles.call(adapter, symbol, interval, start, end)
+        );
+        return { provider: adapter.name, candles };
+      } catch (error) {
+        errors.push(`${adapter.name}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    throw new Error(`${symbol.toUpperCase()} ${interval} 과거 캔들 조회 실패 (${errors.join(', ')})`);
+  }
+
+  /**
+   * 단일 제공자 조회 (실패도 기록으로 반환)
+   */
+  private async query(adapter: PriceProviderAdapter, symbol: string): Promise<PriceSourceQuote> {
+    const startedAt = Date.now();
+
+    try {
+      const quote = await this.guard.execute(adapter.name, `quote:${symbol.toUpperCase()}`, async () => {
+        const result = await adapter.fetchQuote(symbol);
+        if (!Number.isFinite(result.price) || result.price <= 0) {
+          throw new Error('유효하지 않은 가격 응답');
+        }
+        return result;
+      });
+
+      const latency = Date.now() - startedAt;
+      return { provider: adapter.name, price: quote.price, change24h: quote.change24h, latency, accepted: false };
+    } catch (error) {
+      const latency = Date.now() - startedAt;
+      const message = error instanceof Error ? error.message : String(error);
+      return { provider: adapter.name, latency, accepted: false, error: message };
+    }
+  }
+
+  /**
+   * 이상치 판정
+   * 성공한 소스의 중앙값(오프체인 소스가 있으면 오프체인 소스만의 중앙값) 대비 편차를 기록하고 허용 편차 이내 소스만 채택
+   * 온체인 소스는 오프체인 기준이 있을 때 자체 허용 편차(sanityBoundPercent)를 사용
+   */
+  private aggregate(sources: PriceSourceQuote[]): PriceSourceQuote[] {
+    const priced = sources.filter(source => source.price !== undefined);
+    if (priced.length === 0) {
+      return [];
+    }
+
+    const references = priced.filter(source => this.sanityBound(source.provider) === undefined);
+    const center = median((references.length > 0 ? references : priced).map(source => source.price as number));
+
+    for (const source of priced) {
+      const bound = references.length > 0 ? this.sanityBound(source.provider) : undefined;
+      source.deviationPercent = Math.abs((source.price as number) - center) / center * 100;
+      source.accepted = source.deviationPercent <= (bound ?? this.config.maxDeviationPercent);
+    }
+
+    return priced.filter(source => source.accepted);
+  }
+
+  /**
+   * 제공자의 오프체인 기준 허용 편차 (온체인 소스만)
+   */
+  private sanityBound(provider: string): number | undefined {
+    return this.adapters.find(adapter => adapter.name === provider)?.sanityBoundPercent;
+  }
+
+  /**
+   * 지금 호출할 수 있는 제공자를 앞으로 (각 그룹 안에서는 우선순위 유지)
+   */
+  private prioritize(adapters: PriceProviderAdapter[]): PriceProviderAdapter[] {
+    const available = adapters.filter(adapter => this.guard.isAvailable(adapter.name));
+    return [...available, ...adapters.filter(adapter => !available.includes(adapter))];
+  }
+
+}
+
+/**
+ * [시각(ms), 가격] 포인트를 간격별 캔들로 묶음 (포인트는 시간순)
+ */
+function bucketPoints(points: number[][], interval: CandleInterval): ProviderCandle[] {
+  const candles = new Map<number, ProviderCandle>();
+
+  for (const [time, value] of points) {
+    const price = Number(value);
+    const openTime = PriceCandle.floorTime(time, interval);
+    const candle = candles.get(openTime);
+    if (!candle) {
+      candles.set(openTime, { openTime, open: price, high: price, low: price, close: price, volume: 0 });
+      continue;
+    }
+    candle.high = Math.max(candle.high, price);
+    candle.low = Math.min(candle.low, price);
+    candle.close = price;
+  }
+
+  return [...candles.values()];
+}
+
+/**
+ * 중앙값 (짝수 개면 가운데 두 값의 평균)
+ */
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+export default PriceOracle;
@@ -1,5 +1,13 @@
-import axios, { AxiosInstance } from 'axios';
+import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
 import NodeCache from 'node-cache';
+import { OraclePrice, PriceOracle } from './PriceOracle';
+import { ProviderGuard, ProviderGuardStatus } from './ProviderGuard';
+import { SimMarket } from './SimMarket';
+import { simMarketConfig, SimScenarioType } from '../config/simMarket';
+import { AppError } from '../middlewares/errorHandler';
+import { PriceSourceQuote } from '../models/Game';
+import { WebSocketService } from './WebSocketService';
+import { PriceAlertService } from './PriceAlertService';
 
 /**
  * 토큰 가격 정보 인터페이스
@@ -32,26 +40,44 @@ export interface TokenPrice {
   last_updated: string;
 }
 
+/**
+ * 심볼 현재 가격 (오라클 집계 결과)
+ */
+export interface SymbolPrice {
+  symbol: string;
+  price: number;
+  change24h?: number;
+  method: string;               // 집계 방식
+  provider: string;             // 채택된 제공자 목록 (쉼표 구분, PricePoint.apiProvider 에 기록)
+  sources: PriceSourceQuote[];  // 소스별 조회 기록
+  latency: number;
+  degraded: boolean;
+  timestamp: string;
+}
+
 /**
  * 실시간 크립토 가격 데이터 서비스
+ * 게임 진행/정산용 현재 가격은 PriceOracle(다중 제공자 중앙값)으로 조회하고,
+ * 마켓 정보 등 부가 조회는 CoinGecko 를 직접 사용 (차트/가격 히스토리는 PriceHistoryService 저장소에서 조회)
  */
 export class PriceService {
   private coinGeckoApi: AxiosInstance;
   private cache: NodeCache;
-  private currentProvider: 'coingecko' | 'binance';
-  private apiCallCount: number;
-  private lastApiCall: number;
+  private oracle: PriceOracle;
 
   // 지원하는 토큰들과 CoinGecko ID 매핑
   private supportedTokens: Record<string, string> = {
     'bitcoin': 'bitcoin',
     'ethereum': 'ethereum',
+    'catena': 'catena',
     'cta': 'catena', // Catena 네트워크 토큰
     'btc': 'bitcoin',
     'eth': 'ethereum'
   };
 
-  constructor() {
+  constructor(oracle: PriceOracle = new PriceOracle()) {
+    this.oracle = oracle;
+
     // CoinGecko API 설정
     this.coinGeckoApi = axios.create({
       baseURL: process.env.COINGECKO_BASE_URL || 'https://api.coingecko.com/api/v3',
@@ -68,19 +94,17 @@ export class PriceService {
         checkperiod: 2,
         useClones: false
         });
-        
-        // 기본 제공자 설정
-        this.currentProvider = 'coingecko';
-        this.apiCallCount = 0;
-        this.lastApiCall = 0;
   }
 
   /**
    * 서비스 상태 확인
    */
   public async healthCheck(): Promise<boolean> {
+    if (simMarketConfig.enabled) {
+      return true;
+    }
     try {
-      const response = await this.coinGeckoApi.get('/ping', { timeout: 5000 });
+      const response = await this.requestCoinGecko('/ping', { timeout: 5000 });
       return response.status === 200 && response.data?.gecko_says === 'Hello World!';
     } catch (error) {
       console.error('Health check failed:', error);
@@ -102,10 +126,21 @@ export class PriceService {
     const cached = this.cache.get<TokenPrice[]>(cacheKey);
     if (cached) return cached;
 
+    // 시뮬레이션 시장에서는 CoinGecko 를 호출하지 않고 sim 제공자 가격만 사용
+    if (simMarketConfig.enabled) {
+      const results: TokenPrice[] = [];
+      await this.applyOraclePrices(tokens.filter(token => this.oracle.supports(this.normalizeSymbol(token))), results);
+      this.cache.set(cacheKey, results);
+      return results;
+    }
+
+    // 온체인 소스가 있는 토큰 (CTA) 은 CoinGecko 결과가 없거나 조회에 실패해도 오라클 가격으로 채움
+    const onChainTokens = tokens.filter(token => this.oracle.hasOnChainSource(this.normalizeSymbol(token)));
+
     try {
       const tokenIds = tokens.map(token => this.getTokenIdBySymbol(token) || token).join(',');
       
-      const response = await this.coinGeckoApi.get('/simple/price', {
+      const response = await this.requestCoinGecko('/simple/price', {
         params: {
           ids: tokenIds,
           vs_currencies: vsCurrency,
@@ -151,10 +186,16 @@ export class PriceService {
         }
       }
 
+      await this.applyOraclePrices(onChainTokens, results);
       this.cache.set(cacheKey, results);
       return results;
     } catch (error) {
       console.error('Multiple prices fetch error:', error);
+      const results: TokenPrice[] = [];
+      if (onChainTokens.length > 0 && await this.applyOraclePrices(onChainTokens, results) > 0) {
+        return results;
+      }
+      if (error instanceof AppError) throw error;
       throw new Error('여러 토큰 가격 조회 실패');
     }
   }
@@ -176,7 +217,7 @@ export class PriceService {
     if (cached) return cached;
 
     try {
-      const response = await this.coinGeckoApi.get('/coins/markets', {
+      const response = await this.requestCoinGecko('/coins/markets', {
         params: {
           vs_currency: 'usd',
           order: 'market_cap_desc',
@@ -212,6 +253,7 @@ export class PriceService {
       return result;
     } catch (error) {
       console.error('Gainers/Losers fetch error:', error);
+      if (error instanceof AppError) throw error;
       throw new Error('상승/하락 토큰 조회 실패');
     }
   }
@@ -237,8 +279,19 @@ export class PriceService {
     const cached = this.cache.get<TokenPrice>(cacheKey);
     if (cached) return cached;
 
+    if (simMarketConfig.enabled) {
+      const results: TokenPrice[] = [];
+      if (!this.oracle.supports(this.normalizeSymbol(tokenId)) || await this.applyOraclePrices([tokenId], results) === 0) {
+        throw new AppError(`시뮬레이션 시장에 없는 토큰입니다: ${tokenId}`, 404);
+      }
+      this.cache.set(cacheKey, results[0]);
+      return results[0];
+    }
+
+    const onChain = vsCurrency === 'usd' && this.oracle.hasOnChainSource(this.normalizeSymbol(tokenId));
+
     try {
-      const response = await this.coinGeckoApi.get(`/coins/${tokenId}`, {
+      const response = await this.requestCoinGecko(`/coins/${tokenId}`, {
         params: {
           localization: false,
           tickers: false,
@@ -280,99 +333,44 @@ export class PriceService {
         last_updated: data.last_updated || new Date().toISOString()
       };
 
+      if (onChain) {
+        const results = [tokenPrice];
+        await this.applyOraclePrices([tokenId], results);
+      }
       this.cache.set(cacheKey, tokenPrice);
       return tokenPrice;
     } catch (error) {
       console.error('Token price fetch error:', error);
+      const results: TokenPrice[] = [];
+      if (onChain && await this.applyOraclePrices([tokenId], results) > 0) {
+        return results[0];
+      }
+      if (error instanceof AppError) throw error;
       throw new Error('토큰 가격 조회 실패');
     }
   }
 
   /**
    * 심볼로 현재 가격 조회
+   * 여러 제공자의 중앙값을 사용하며, 모든 제공자가 실패하면 null
+   * @param fresh 캐시를 건너뛰고 새로 집계 (라운드 시작/정산 가격 확정용)
    */
-  public async getCurrentPriceBySymbol(tokenSymbol: string): Promise<any> {
-    try {
-      const tokenId = this.getTokenIdBySymbol(tokenSymbol);
-      if (!tokenId) return null;
-
-      const priceData = await this.getTokenPrice(tokenId);
-      return {
-        symbol: tokenSymbol.toUpperCase(),
-        price: priceData.current_price,
-        change24h: priceData.price_change_percentage_24h,
-        timestamp: new Date().toISOString()
-      };
-    } catch (error) {
-      console.error('Current price by symbol error:', error);
-      return null;
-    }
-  }
-
-  /**
-   * 차트 데이터 조회
-   */
-  public async getChartData(
-    tokenId: string,
-    vsCurrency: string = 'usd',
-    days: number = 7,
-    interval?: string
-  ): Promise<any[]> {
-    const cacheKey = `chart_${tokenId}_${vsCurrency}_${days}_${interval}`;
-    
-    const cached = this.cache.get(cacheKey);
-    if (cached && Array.isArray(cached)) return cached;
-
-    try {
-      const response = await this.coinGeckoApi.get(`/coins/${tokenId}/market_chart`, {
-        params: {
-          vs_currency: vsCurrency,
-          days: days,
-          interval: interval || 'daily'
-        }
-      });
-
-      const chartData = response.data.prices?.map((price: any[]) => ({
-        timestamp: price[0],
-        price: price[1],
-        date: new Date(price[0]).toISOString()
-      })) || [];
+  public async getCurrentPriceBySymbol(tokenSymbol: string, fresh: boolean = false): Promise<SymbolPrice | null> {
+    const symbol = this.normalizeSymbol(tokenSymbol);
+    const cacheKey = `oracle_price_${symbol}`;
 
-      this.cache.set(cacheKey, chartData);
-      return chartData;
-    } catch (error) {
-      console.error('Chart data fetch error:', error);
-      return [];
-    }
-  }
+    const cached = fresh ? undefined : this.cache.get<SymbolPrice>(cacheKey);
+    if (cached) return cached;
 
-  /**
-   * 가격 히스토리 조회
-   */
-  public async getPriceHistory(
-    tokenId: string,
-    date: string,
-    vsCurrency: string = 'usd'
-  ): Promise<any> {
     try {
-      const response = await this.coinGeckoApi.get(`/coins/${tokenId}/history`, {
-        params: {
-          date: date,
-          localization: false
-        }
-      });
-
-      return {
-        id: response.data.id,
-        symbol: response.data.symbol,
-        name: response.data.name,
-        date: date,
-        current_price: response.data.market_data?.current_price?.[vsCurrency] || 0,
-        market_cap: response.data.market_data?.market_cap?.[vsCurrency] || 0
-      };
+      const oraclePrice = await this.oracle.getPrice(symbol);
+      const result = this.toSymbolPrice(oraclePrice);
+      this.cache.set(cacheKey, result);
+      this.evaluatePriceAlerts(result);
+      return result;
     } catch (error) {
-      console.error('Price history fetch error:', error);
-      throw new Error('가격 히스토리 조회 실패');
+      console.error('Current price by symbol error:', error);
+      return null;
     }
   }
 
@@ -386,7 +384,7 @@ export class PriceService {
     if (cached) return cached;
 
     try {
-      const response = await this.coinGeckoApi.get('/global');
+      const response = await this.requestCoinGecko('/global');
       const data = response.data.data;
 
       const marketData = {
@@ -400,6 +398,7 @@ export class PriceService {
       return marketData;
     } catch (error) {
       console.error('Market overview fetch error:', error);
+      if (error instanceof AppError) throw error;
       throw new Error('마켓 개요 조회 실패');
     }
   }
@@ -414,7 +413,7 @@ export class PriceService {
     if (cached && Array.isArray(cached)) return cached;
 
     try {
-      const response = await this.coinGeckoApi.get('/search/trending');
+      const response = await this.requestCoinGecko('/search/trending');
       const trending = response.data.coins?.slice(0, limit) || [];
 
       this.cache.set(cacheKey, trending);
@@ -450,52 +449,25 @@ export class PriceService {
   }
 
   // 추가 메서드들...
-  public async getUserPriceAlerts(userId: string): Promise<any[]> {
-    console.log(`Getting price alerts for user: ${userId}`);
-    return [];
-  }
-
-  public async createPriceAlert(
-    userId: string,
-    tokenSymbol: string,
-    targetPrice: number,
-    condition: string,
-    isActive: boolean = true
-  ): Promise<any> {
-    const alert = {
-      id: `alert_${Date.now()}`,
-      userId,
-      tokenSymbol,
-      targetPrice,
-      condition,
-      isActive,
-      createdAt: new Date().toISOString()
-    };
-    console.log(`Created price alert:`, alert);
-    return alert;
-  }
-
-  public async updatePriceAlert(
-    alertId: string,
-    userId: string,
-    updateData: any
-  ): Promise<any> {
-    console.log(`Updated price alert ${alertId} for user ${userId}:`, updateData);
-    return { id: alertId, ...updateData, updatedAt: new Date().toISOString() };
-  }
-
-  public async deletePriceAlert(alertId: string, userId: string): Promise<void> {
-    console.log(`Deleted price alert ${alertId} for user ${userId}`);
-  }
-
+  /**
+   * 외부 API 상태 (제공자별 요청 한도 사용량과 회로 차단 상태 포함)
+   * 차단되었거나 한도를 소진한 제공자가 있으면 degraded
+   */
   public async getApiStatus(): Promise<any> {
     try {
       const health = await this.healthCheck();
+      const providers = this.getProviderUsage();
+      const lastApiCall = Math.max(0, ...providers.map(provider => Math.max(
+        provider.lastSuccessAt ? Date.parse(provider.lastSuccessAt) : 0,
+        provider.lastFailureAt ? Date.parse(provider.lastFailureAt) : 0
+      )));
       return {
-        status: health ? 'healthy' : 'degraded',
-        currentProvider: this.currentProvider,
-        apiCallCount: this.apiCallCount,
-        lastApiCall: this.lastApiCall,
+        status: health && providers.every(provider => provider.available) ? 'healthy' : 'degraded',
+        currentProvider: this.oracle.getProviderNames()[0],
+        providers,
+        unavailableProviders: providers.filter(provider => !provider.available).map(provider => provider.provider),
+        apiCallCount: providers.reduce((sum, provider) => sum + provider.requests, 0),
+        lastApiCall: lastApiCall > 0 ? new Date(lastApiCall).toISOString() : null,
         uptime: process.uptime(),
         timestamp: new Date().toISOString()
       };
@@ -508,61 +480,135 @@ export class PriceService {
     }
   }
 
-  public async switchProvider(provider: 'coingecko' | 'binance'): Promise<void> {
-    this.currentProvider = provider;
+  /**
+   * 우선 가격 제공자 변경 (오라클 조회 순서 맨 앞으로 이동)
+   */
+  public async switchProvider(provider: string): Promise<void> {
+    this.oracle.setPreferredProvider(provider);
     console.log(`Switched to provider: ${provider}`);
     this.cache.flushAll();
   }
 
+  /**
+   * 등록된 가격 제공자 (조회 우선순위 순)
+   */
+  public getProviderNames(): string[] {
+    return this.oracle.getProviderNames();
+  }
+
+  /**
+   * 가격 서비스 통계 (제공자별 외부 호출/실패/429/거절/병합 수)
+   */
   public async getServiceStats(): Promise<any> {
     const cacheStats = this.cache.getStats();
+    const providers = this.getProviderUsage();
+    const total = (field: 'requests' | 'failureCount' | 'rateLimitedCount' | 'rejectedCount' | 'coalescedCount') =>
+      providers.reduce((sum, provider) => sum + provider[field], 0);
     
     return {
-      apiCalls: this.apiCallCount,
+      apiCalls: {
+        total: total('requests'),
+        failures: total('failureCount'),
+        rateLimited: total('rateLimitedCount'),
+        rejected: total('rejectedCount'),
+        coalesced: total('coalescedCount'),
+        byProvider: providers.map(provider => ({
+          provider: provider.provider,
+          state: provider.state,
+          requests: provider.requests,
+          usedLastMinute: provider.budget.usedLastMinute,
+          requestsPerMinute: provider.budget.requestsPerMinute,
+          usedToday: provider.budget.usedToday,
+          requestsPerDay: provider.budget.requestsPerDay,
+          failures: provider.failureCount,
+          rateLimited: provider.rateLimitedCount,
+          rejected: provider.rejectedCount,
+          coalesced: provider.coalescedCount
+        }))
+      },
       cache: {
         keys: cacheStats.keys,
         hits: cacheStats.hits,
         misses: cacheStats.misses,
         hitRate: cacheStats.hits / (cacheStats.hits + cacheStats.misses) || 0
       },
-      currentProvider: this.currentProvider,
+      currentProvider: this.oracle.getProviderNames()[0],
       uptime: process.uptime(),
       supportedTokens: Object.keys(this.supportedTokens).length,
       timestamp: new Date().toISOString()
     };
   }
 
+  /**
+   * 실시간 가격 스트림 정보 (같은 서버의 WebSocket 엔드포인트)
+   */
   public async getWebSocketInfo(): Promise<any> {
+    const info = WebSocketService.getInstance().getInfo();
+    const symbols = [...new Set(Object.keys(this.supportedTokens).filter(key => key.length <= 4).map(key => key.toLowerCase()))];
+
     return {
-      endpoint: 'wss://api.example.com/ws',
-      protocols: ['price-stream'],
-      supportedSymbols: Object.values(this.supportedTokens),
-      status: 'available',
+      path: info.path,
+      channels: symbols.map(symbol => `price.${symbol}`),
+      messageType: 'price.update',
+      connections: info.connections,
+      status: info.running ? 'available' : 'unavailable',
       timestamp: new Date().toISOString()
     };
   }
 
-  public async setMockPrice(tokenSymbol: string, price: number): Promise<void> {
-    const cacheKey = `mock_price_${tokenSymbol.toLowerCase()}`;
-    this.cache.set(cacheKey, price, 3600);
-    console.log(`Set mock price for ${tokenSymbol}: $${price}`);
+  /**
+   * 시뮬레이션 시장 가격 설정 (다음 걸음에서 목표 가격으로 이동한 뒤 그 가격부터 경로가 이어짐)
+   */
+  public async setMockPrice(tokenSymbol: string, price: number): Promise<object> {
+    const market = this.getSimMarket();
+    const symbol = this.normalizeSymbol(tokenSymbol);
+    const scenario = market.setPrice(symbol, Number(price));
+
+    this.cache.del(`oracle_price_${symbol}`);
+    console.log(`Set simulated price for ${symbol}: $${price}`);
+    return market.describeScenario(scenario);
   }
 
+  /**
+   * 시뮬레이션 시장 변동성 변경 (duration 밀리초 동안 연 변동성을 volatilityPercent% 로)
+   */
   public async simulateVolatility(
     tokenSymbol: string,
     volatilityPercent: number,
     duration: number
-  ): Promise<any> {
-    console.log(`Simulating ${volatilityPercent}% volatility for ${tokenSymbol} over ${duration}ms`);
-    
-    return {
-      tokenSymbol,
-      volatilityPercent,
-      duration,
-      simulationId: `sim_${Date.now()}`,
-      startTime: new Date().toISOString(),
-      status: 'started'
-    };
+  ): Promise<object> {
+    return this.startSimScenario(tokenSymbol, 'volatile', volatilityPercent, duration);
+  }
+
+  /**
+   * 시뮬레이션 시장 시나리오 시작 (spike/crash: magnitude% 상승/하락, flat: 가격 고정, volatile: 연 변동성 magnitude%)
+   * @param startInMs 지금부터 몇 밀리초 뒤에 시작
+   */
+  public async startSimScenario(
+    tokenSymbol: string,
+    type: SimScenarioType,
+    magnitude: number,
+    duration: number,
+    startInMs: number = 0
+  ): Promise<object> {
+    const market = this.getSimMarket();
+    const scenario = market.addScenario({
+      symbol: this.normalizeSymbol(tokenSymbol),
+      type,
+      magnitude: Number(magnitude),
+      durationMs: Number(duration),
+      startInMs: Number(startInMs)
+    });
+
+    console.log(`Started simulated ${type} scenario for ${scenario.symbol} (${scenario.id})`);
+    return market.describeScenario(scenario);
+  }
+
+  /**
+   * 시뮬레이션 시장 상태 (심볼별 현재가, 진행 중/예정 시나리오)
+   */
+  public async getSimMarketStatus(): Promise<object> {
+    return this.getSimMarket().getStatus();
   }
 
   public async getCacheStatus(): Promise<any> {
@@ -585,16 +631,136 @@ export class PriceService {
   }
 
   /**
-   * 심볼을 토큰 ID로 변환하는 헬퍼 메서드
+   * CoinGecko 직접 조회 (오라클 coingecko 제공자와 요청 한도/회로 차단 상태를 공유하고, 같은 요청은 병합)
    */
-  private getTokenIdBySymbol(symbol: string): string | null {
-    const upperSymbol = symbol.toUpperCase();
-    for (const [id, sym] of Object.entries(this.supportedTokens)) {
-      if (sym === upperSymbol) {
-        return id;
+  private async requestCoinGecko(path: string, config: AxiosRequestConfig = {}): Promise<AxiosResponse> {
+    if (simMarketConfig.enabled) {
+      throw new AppError('시뮬레이션 시장(PRICE_PROVIDER=sim)에서는 CoinGecko 데이터를 제공하지 않습니다.', 503);
+    }
+    return await ProviderGuard.getInstance().execute(
+      'coingecko',
+      `${path}?${JSON.stringify(config.params || {})}`,
+      () => this.coinGeckoApi.get(path, config)
+    );
+  }
+
+  /**
+   * 시뮬레이션 시장 (PRICE_PROVIDER=sim 이 아니면 400)
+   */
+  private getSimMarket(): SimMarket {
+    if (!simMarketConfig.enabled) {
+      throw new AppError('시뮬레이션 시장이 꺼져 있습니다. PRICE_PROVIDER=sim 으로 실행하세요.', 400);
+    }
+    return SimMarket.getInstance();
+  }
+
+  /**
+   * 오라클 제공자와 CoinGecko 직접 조회의 호출 상태
+   */
+  private getProviderUsage(): ProviderGuardStatus[] {
+    return ProviderGuard.getInstance().getStatus([...new Set([...this.oracle.getProviderNames(), 'coingecko'])]);
+  }
+
+  /**
+   * 토큰의 현재가를 오라클 집계 가격(온체인 토큰은 풀 가격 + 오프체인 소스, 시뮬레이션 시장은 sim 가격)으로 교체하거나 추가
+   * @returns 반영한 토큰 수
+   */
+  private async applyOraclePrices(tokens: string[], results: TokenPrice[]): Promise<number> {
+    let applied = 0;
+
+    for (const token of tokens) {
+      const price = await this.getCurrentPriceBySymbol(token);
+      if (!price) continue;
+
+      const tokenId = this.getTokenIdBySymbol(token) || token.toLowerCase();
+      const existing = results.find(result => result.id === tokenId);
+      if (existing) {
+        existing.current_price = price.price;
+        existing.last_updated = price.timestamp;
+      } else {
+        results.push(this.toTokenPrice(tokenId, price));
       }
+      applied += 1;
     }
-    return null;
+
+    return applied;
+  }
+
+  /**
+   * 오라클 집계 가격을 TokenPrice 형식으로 변환 (시가총액 등 마켓 정보는 0)
+   */
+  private toTokenPrice(tokenId: string, price: SymbolPrice): TokenPrice {
+    return {
+      id: tokenId,
+      symbol: price.symbol,
+      name: tokenId.charAt(0).toUpperCase() + tokenId.slice(1),
+      current_price: price.price,
+      market_cap: 0,
+      market_cap_rank: 0,
+      fully_diluted_valuation: 0,
+      total_volume: 0,
+      high_24h: 0,
+      low_24h: 0,
+      price_change_24h: 0,
+      price_change_percentage_24h: price.change24h || 0,
+      market_cap_change_24h: 0,
+      market_cap_change_percentage_24h: 0,
+      circulating_supply: 0,
+      total_supply: 0,
+      max_supply: 0,
+      ath: 0,
+      ath_change_percentage: 0,
+      ath_date: '',
+      atl: 0,
+      atl_change_percentage: 0,
+      atl_date: '',
+      roi: null,
+      last_updated: price.timestamp
+    };
+  }
+
+  /**
+   * 새로 조회한 가격으로 가격 알림 평가 (응답을 막지 않도록 기다리지 않음)
+   */
+  private evaluatePriceAlerts(price: SymbolPrice): void {
+    PriceAlertService.getInstance().evaluate(price).catch(error => {
+      console.error('Price alert evaluation error:', error);
+    });
+  }
+
+  /**
+   * 오라클 결과를 응답 형식으로 변환
+   */
+  private toSymbolPrice(oraclePrice: OraclePrice): SymbolPrice {
+    return {
+      symbol: oraclePrice.symbol,
+      price: oraclePrice.price,
+      change24h: oraclePrice.change24h,
+      method: oraclePrice.method,
+      provider: oraclePrice.providers.join(','),
+      sources: oraclePrice.sources,
+      latency: oraclePrice.latency,
+      degraded: oraclePrice.degraded,
+      timestamp: new Date(oraclePrice.timestamp).toISOString()
+    };
+  }
+
+  /**
+   * 토큰 ID/이름도 게임 심볼로 변환 (bitcoin → BTC)
+   */
+  private normalizeSymbol(tokenSymbol: string): string {
+    const tokenId = this.getTokenIdBySymbol(tokenSymbol);
+    const symbol = Object.keys(this.supportedTokens).find(key =>
+      key.length <= 4 && this.supportedTokens[key] === tokenId && key !== tokenId
+    );
+    return (symbol || tokenSymbol).toUpperCase();
+  }
+
+  /**
+   * 심볼을 토큰 ID로 변환하는 헬퍼 메서드
+   */
+  private getTokenIdBySymbol(symbol: string): string | null {
+    return this.supportedTokens[symbol.toLowerCase()] || null;
   }
 
   /**
@@ -0,0 +1,324 @@
+/**
+ * ProviderGuard - 외부 가격 제공자 호출 보호
+ * 프로세스 전체에서 제공자별로 하나의 상태를 공유하므로 PriceService 인스턴스가 여러 개여도 한도가 합산됨
+ *
+ * - 요청 한도: 최근 1분/당일(UTC) 요청 수가 제공자 설정 한도에 이르면 호출하지 않고 거절
+ * - 요청 병합: 같은 키의 요청이 진행 중이면 새로 호출하지 않고 같은 결과를 공유 (한도에도 한 번만 계산)
+ * - 회로 차단: 연속 실패가 기준에 이르거나 429 를 받으면 차단하고, 대기 시간이 지나면 한 번만 시험 호출(half_open)
+ *   시험 호출이 실패할 때마다 대기 시간은 두 배 (429 의 Retry-After 가 더 길면 그 값)
+ */
+
+import { isAxiosError } from 'axios';
+import { priceProviderConfigs, providerBreakerConfig, ProviderBreakerConfig } from '../config/price';
+import { AppError } from '../middlewares/errorHandler';
+import { logger } from '../utils/logger';
+
+export type ProviderCircuitState = 'closed' | 'open' | 'half_open';
+
+/**
+ * 제공자별 호출 상태 (관리자 API 노출용)
+ */
+export interface ProviderGuardStatus {
+  provider: string;
+  state: ProviderCircuitState;
+  available: boolean;             // 지금 호출 가능 여부 (차단/한도 소진이면 false)
+  consecutiveFailures: number;
+  retryAt?: string;               // 차단 해제(시험 호출) 예정 시각
+  budget: {
+    requestsPerMinute: number;    // 0 이면 제한 없음
+    usedLastMinute: number;
+    requestsPerDay: number;       // 0 이면 제한 없음
+    usedToday: number;
+  };
+  requests: number;               // 실제 외부 호출 수
+  successCount: number;
+  failureCount: number;
+  rateLimitedCount: number;       // 제공자가 429 로 거절한 수
+  rejectedCount: number;          // 차단/한도 소진으로 호출하지 않고 거절한 수
+  coalescedCount: number;         // 진행 중인 같은 요청에 합쳐진 수
+  lastLatency?: number;
+  lastSuccessAt?: string;
+  lastFailureAt?: string;
+  lastError?: string;
+}
+
+interface ProviderState {
+  state: ProviderCircuitState;
+  consecutiveFailures: number;
+  backoffMs: number;
+  retryAt: number;
+  probing: boolean;
+  minuteWindow: number[];
+  day: string;
+  usedToday: number;
+  requests: number;
+  successCount: number;
+  failureCount: number;
+  rateLimitedCount: number;
+  rejectedCount: number;
+  coalescedCount: number;
+  lastLatency?: number;
+  lastSuccessAt?: number;
+  lastFailureAt?: number;
+  lastError?: string;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+export class ProviderGuard {
+  private static instance: ProviderGuard;
+
+  private states = new Map<string, ProviderState>();
+  private inflight = new Map<string, Promise<unknown>>();
+
+  private constructor(private readonly config: ProviderBreakerConfig = providerBreakerConfig) {}
+
+  /**
+   * 싱글톤 인스턴스 반환
+   */
+  public static getInstance(): ProviderGuard {
+    if (!ProviderGuard.instance) {
+      ProviderGuard.instance = new ProviderGuard();
+    }
+    return ProviderGuard.instance;
+  }
+
+  /**
+   * 제공자 호출 (한도/차단 확인 후 실행하고 결과를 상태에 기록)
+   * 차단 중이거나 한도가 소진되면 호출하지 않고 503 AppError, 제공자가 429 를 주면 차단 후 503 AppError
+   * @param key 같은 결과를 돌려주는 요청끼리 같은 값 (예: quote:BTC)
+   */
+  public async execute<T>(provider: string, key: string, task: () => Promise<T>): Promise<T> {
+    const inflightKey = `${provider}:${key}`;
+    const pending = this.inflight.get(inflightKey) as Promise<T> | undefined;
+    const state = this.getState(provider);
+    if (pending) {
+      state.coalescedCount += 1;
+      return await pending;
+    }
+
+    const blocked = this.checkAvailability(provider, state, Date.now());
+    if (blocked) {
+      state.rejectedCount += 1;
+      throw new AppError(blocked, 503);
+    }
+
+    const request = this.run(provider, state, task);
+    this.inflight.set(inflightKey, request);
+    try {
+      return await request;
+    } finally {
+      this.inflight.delete(inflightKey);
+    }
+  }
+
+  /**
+   * 지금 호출 가능한지 여부 (오라클이 차단된 제공자를 뒤로 미룰 때 사용)
+   */
+  public isAvailable(provider: string): boolean {
+    return !this.checkAvailability(provider, this.getState(provider), Date.now(), false);
+  }
+
+  /**
+   * 제공자별 상태 (이름을 주지 않으면 한 번이라도 호출된 제공자 전체)
+   */
+  public getStatus(providers: string[] = [...this.states.keys()]): ProviderGuardStatus[] {
+    const now = Date.now();
+
+    return providers.map(provider => {
+      const state = this.getState(provider);
+      const limits = this.getLimits(provider);
+      this.refreshBudget(state, now);
+
+      return {
+        provider,
+        state: state.state === 'open' && now >= state.retryAt ? 'half_open' : state.state,
+        available: !this.checkAvailability(provider, state, now, false),
+        consecutiveFailures: state.consecutiveFailures,
+        retryAt: state.state === 'closed' ? undefined : new Date(state.retryAt).toISOString(),
+        budget: {
+          requestsPerMinute: limits.requestsPerMinute,
+          usedLastMinute: state.minuteWindow.length,
+          requestsPerDay: limits.requestsPerDay,
+          usedToday: state.usedToday
+        },
+        requests: state.requests,
+        successCount: state.successCount,
+        failureCount: state.failureCount,
+        rateLimitedCount: state.rateLimitedCount,
+        rejectedCount: state.rejectedCount,
+        coalescedCount: state.coalescedCount,
+        lastLatency: state.lastLatency,
+        lastSuccessAt: state.lastSuccessAt ? new Date(state.lastSuccessAt).toISOString() : undefined,
+        lastFailureAt: state.lastFailureAt ? new Date(state.lastFailureAt).toISOString() : undefined,
+        lastError: state.lastError
+      };
+    });
+  }
+
+  /**
+   * 실제 호출과 결과 기록
+   */
+  private async run<T>(provider: string, state: ProviderState, task: () => Promise<T>): Promise<T> {
+    const startedAt = Date.now();
+    if (state.state !== 'closed') {
+      state.state = 'half_open';
+      state.probing = true;
+    }
+    state.minuteWindow.push(startedAt);
+    state.usedToday += 1;
+    state.requests += 1;
+
+    try {
+      const result = await task();
+      this.recordSuccess(provider, state, Date.now() - startedAt);
+      return result;
+    } catch (error) {
+      const status = isAxiosError(error) ? error.response?.status : undefined;
+      // 잘못된 요청(404 등)은 제공자 장애가 아니므로 차단 판단에서 제외
+      const providerFault = status === undefined || status === 408 || status === 429 || status >= 500;
+      state.lastLatency = Date.now() - startedAt;
+      state.probing = false;
+      if (!providerFault) {
+        throw error;
+      }
+
+      const message = error instanceof Error ? error.message : String(error);
+      if (status === 429) {
+        state.rateLimitedCount += 1;
+        this.recordFailure(provider, state, message, this.retryAfterMs(error), true);
+        throw new AppError(`${provider} 요청 한도를 초과했습니다. ${this.retryInSeconds(state)}초 후 다시 시도합니다.`, 503);
+      }
+
+      this.recordFailure(provider, state, message);
+      throw error;
+    }
+  }
+
+  private recordSuccess(provider: string, state: ProviderState, latency: number): void {
+    if (state.state !== 'closed') {
+      logger.info(`가격 제공자 차단 해제: ${provider}`);
+    }
+    state.state = 'closed';
+    state.consecutiveFailures = 0;
+    state.backoffMs = 0;
+    state.probing = false;
+    state.successCount += 1;
+    state.lastLatency = latency;
+    state.lastSuccessAt = Date.now();
+  }
+
+  /**
+   * 실패 기록 (연속 실패가 기준에 이르거나 시험 호출이 실패하거나 429 면 차단, 대기 시간은 두 배씩)
+   */
+  private recordFailure(provider: string, state: ProviderState, message: string, retryAfterMs = 0, force = false): void {
+    const now = Date.now();
+    state.consecutiveFailures += 1;
+    state.failureCount += 1;
+    state.lastFailureAt = now;
+    state.lastError = message;
+
+    if (!force && state.state !== 'half_open' && state.consecutiveFailures < this.config.failureThreshold) {
+      return;
+    }
+
+    state.backoffMs = Math.min(
+      this.config.maxBackoffMs,
+      state.backoffMs > 0 ? state.backoffMs * 2 : this.config.baseBackoffMs
+    );
+    state.state = 'open';
+    state.retryAt = now + Math.max(state.backoffMs, retryAfterMs);
+    logger.warn(`가격 제공자 차단: ${provider} (연속 실패 ${state.consecutiveFailures}회, ${this.retryInSeconds(state)}초 후 재시도)`, { error: message });
+  }
+
+  /**
+   * 호출할 수 없는 사유 (호출 가능하면 null)
+   * @param probe 차단 대기 시간이 지났을 때 시험 호출 중이면 거절할지 여부
+   */
+  private checkAvailability(provider: string, state: ProviderState, now: number, probe = true): string | null {
+    if (state.state === 'open' && now < state.retryAt) {
+      return `${provider} 제공자가 일시 차단되었습니다. ${this.retryInSeconds(state)}초 후 다시 시도합니다.`;
+    }
+    if (probe && state.state === 'half_open' && state.probing) {
+      return `${provider} 제공자 복구를 확인하는 중입니다.`;
+    }
+
+    const limits = this.getLimits(provider);
+    this.refreshBudget(state, now);
+    if (limits.requestsPerMinute > 0 && state.minuteWindow.length >= limits.requestsPerMinute) {
+      return `${provider} 분당 요청 한도(${limits.requestsPerMinute}회)를 모두 사용했습니다.`;
+    }
+    if (limits.requestsPerDay > 0 && state.usedToday >= limits.requestsPerDay) {
+      return `${provider} 일일 요청 한도(${limits.requestsPerDay}회)를 모두 사용했습니다.`;
+    }
+    return null;
+  }
+
+  /**
+   * 1분이 지난 요청 기록과 지난 날짜의 일일 사용량 정리
+   */
+  private refreshBudget(state: ProviderState, now: number): void {
+    while (state.minuteWindow.length > 0 && now - state.minuteWindow[0] >= MINUTE_MS) {
+      state.minuteWindow.shift();
+    }
+    const day = new Date(now).toISOString().slice(0, 10);
+    if (state.day !== day) {
+      state.day = day;
+      state.usedToday = 0;
+    }
+  }
+
+  /**
+   * 429 응답의 Retry-After (초 또는 HTTP 날짜)
+   */
+  private retryAfterMs(error: unknown): number {
+    const header = isAxiosError(error) ? error.response?.headers?.['retry-after'] : undefined;
+    if (!header) {
+      return 0;
+    }
+    const seconds = Number(header);
+    if (Number.isFinite(seconds)) {
+      return seconds * 1000;
+    }
+    const date = Date.parse(String(header));
+    return Number.isFinite(date) ? Math.max(0, date - Date.now()) : 0;
+  }
+
+  private retryInSeconds(state: ProviderState): number {
+    return Math.max(0, Math.ceil((state.retryAt - Date.now()) / 1000));
+  }
+
+  private getLimits(provider: string): { requestsPerMinute: number; requestsPerDay: number } {
+    const config = priceProviderConfigs[provider];
+    return {
+      requestsPerMinute: config?.requestsPerMinute || 0,
+      requestsPerDay: config?.requestsPerDay || 0
+    };
+  }
+
+  private getState(provider: string): ProviderState {
+    let state = this.states.get(provider);
+    if (!state) {
+      state = {
+        state: 'closed',
+        consecutiveFailures: 0,
+        backoffMs: 0,
+        retryAt: 0,
+        probing: false,
+        minuteWindow: [],
+        day: '',
+        usedToday: 0,
+        requests: 0,
+        successCount: 0,
+        failureCount: 0,
+        rateLimitedCount: 0,
+        rejectedCount: 0,
+        coalescedCount: 0
+      };
+      this.states.set(provider, state);
+    }
+    return state;
+  }
+}
+
+export default ProviderGuard;
@@ -0,0 +1,452 @@
+// src/services/RankingEngine.ts
+
+import { Between, EntityManager, In, Not, Repository } from 'typeorm';
+import { AppDataSource } from '../config/database';
+import { Ranking, RankingPeriod } from '../models/Ranking';
+import { PRACTICE_GAME_TYPE } from '../models/Game';
+import { GamePrediction, GamePredictionStatus } from '../models/GamePrediction';
+import { RewardTieBreaker } from '../models/RewardTable';
+import { RewardTableService } from './RewardTableService';
+import { WebSocketService } from './WebSocketService';
+import { AchievementService } from './AchievementService';
+import { logger } from '../utils/logger';
+
+/**
+ * 정산 시 실시간으로 순위를 갱신하는 랭킹 기간
+ * 시즌/토너먼트 순위는 종료 시 스냅샷으로 확정함 (FINALIZED_PERIODS)
+ */
+export const TRACKED_PERIODS: RankingPeriod[] = [
+  RankingPeriod.DAILY,
+  RankingPeriod.WEEKLY,
+  RankingPeriod.MONTHLY,
+  RankingPeriod.ALL_TIME
+];
+
+/**
+ * 종료 시 순위를 확정하는 랭킹 기간 (SeasonService/TournamentService, 재계산/재구축 대상 아님)
+ */
+export const FINALIZED_PERIODS: RankingPeriod[] = [
+  RankingPeriod.SEASON,
+  RankingPeriod.TOURNAMENT
+];
+
+/**
+ * 정산 완료된 예측 1건
+ */
+export interface SettledScore {
+  userId: string;
+  score: number;
+  result: 'win' | 'lose' | 'draw';
+  settledAt: Date;
+  playTime?: number; // 플레이 시간 (분)
+}
+
+/**
+ * 기간/사용자별 집계 변화량
+ */
+interface RankingDelta {
+  userId: string;
+  period: RankingPeriod;
+  periodKey: string;
+  score: number;
+  games: number;
+  wins: number;
+  losses: number;
+  draws: number;
+  playTime: number;
+  unbroken: boolean;     // 이번 배치에 패배가 없는지 (기존 연승에 이어짐, 보합은 무시)
+  leadingWins: number;   // 첫 패배 전까지의 승리 수
+  trailingWins: number;  // 마지막 패배 이후의 승리 수
+  bestRun: number;       // 배치 내 최고 연승
+  reachedAt: Date | null; // 배치에서 마지막으로 점수가 바뀐 정산 시각 (총점이 오르면 scoreReachedAt 으로 기록)
+}
+
+/**
+ * 동점자 규칙별 정렬 컬럼
+ */
+const TIE_BREAKER_ORDER: Record<RewardTieBreaker, string> = {
+  [RewardTieBreaker.HIGHER_WIN_RATE]: '"winRate" DESC',
+  [RewardTieBreaker.MORE_GAMES]: '"totalGames" DESC',
+  [RewardTieBreaker.FEWER_GAMES]: '"totalGames" ASC',
+  [RewardTieBreaker.BEST_STREAK]: '"bestStreak" DESC',
+  [RewardTieBreaker.EARLIEST_REACHED]: '"scoreReachedAt" ASC NULLS LAST'
+};
+
+/**
+ * UPDATE ... FROM VALUES 의 변화량 컬럼 타입 (applyDeltas 의 값 순서와 동일)
+ */
+const DELTA_COLUMN_TYPES = [
+  'uuid', 'text', 'text', 'numeric', 'int', 'int',
+  'int', 'int', 'int', 'boolean', 'int',
+  'int', 'int', 'timestamp'
+];
+
+const UPSERT_CHUNK_SIZE = 500;
+const REBUILD_PAGE_SIZE = 5000;
+
+/**
+ * 랭킹 엔진
+ * 정산된 점수를 기간 키별 랭킹에 증분 반영하고, 순위는 집합 연산(ROW_NUMBER)으로 한 번에 재계산
+ * 순위가 바뀐 행만 갱신하며 직전 순위는 previousRank 에 보관 (순위 변동 표시용)
+ */
+export class RankingEngine {
+  private rankingRepository: Repository<Ranking>;
+  private predictionRepository: Repository<GamePrediction>;
+  private rewardTableService: RewardTableService;
+  private achievementService: AchievementService;
+
+  constructor() {
+    this.rankingRepository = AppDataSource.getRepository(Ranking);
+    this.predictionRepository = AppDataSource.getRepository(GamePrediction);
+    this.rewardTableService = new RewardTableService();
+    this.achievementService = new AchievementService();
+  }
+
+  /**
+   * 정산 결과 반영
+   * 정산 시각 기준 기간 키별로 집계를 증분 갱신한 뒤 영향받은 기간 키의 순위를 재계산
+   * @returns 순위를 재계산한 기간 키 목록
+   */
+  async applySettlements(
+    settlements: SettledScore[],
+    periods: RankingPeriod[] = TRACKED_PERIODS
+  ): Promise<Array<{ period: RankingPeriod; periodKey: string }>> {
+    if (settlements.length === 0) {
+      return [];
+    }
+
+    const deltas = this.buildDeltas(settlements, periods);
+    await this.persistDeltas(deltas);
+
+    const touched = new Map<string, { period: RankingPeriod; periodKey: string }>();
+    for (const delta of deltas) {
+      touched.set(`${delta.period}|${delta.periodKey}`, { period: delta.period, periodKey: delta.periodKey });
+    }
+
+    for (const { period, periodKey } of touched.values()) {
+      await this.recomputeRanks(period, periodKey);
+    }
+
+    return [...touched.values()];
+  }
+
+  /**
+   * 관리자 점수 조정 (게임 수/승패는 그대로 두고 총점만 변경)
+   */
+  async adjustScore(userId: string, points: number, period: RankingPeriod, periodKey: string): Promise<Ranking> {
+    const delta = this.emptyDelta(userId, period, periodKey);
+    delta.score = points;
+    delta.reachedAt = new Date();
+
+    await this.persistDeltas([delta]);
+    await this.recomputeRanks(period, periodKey);
+
+    return await this.rankingRepository.findOneOrFail({ where: { userId, period, periodKey } });
+  }
+
+  /**
+   * 기간 키 순위 재계산
+   * 총점 → 활성 보상 테이블의 동점자 규칙 → 생성 순으로 ROW_NUMBER 를 매겨 바뀐 행만 갱신
+   * 바뀐 순위는 ranking.<period> 채널로 실시간 전송
+   * @returns 순위가 바뀐 행 수
+   */
+  async recomputeRanks(period: RankingPeriod, periodKey: string): Promise<number> {
+    if (FINALIZED_PERIODS.includes(period)) {
+      throw new Error('시즌/토너먼트 순위는 종료 시 확정됩니다.');
+    }
+
+    const table = await this.rewardTableService.getActiveTable(period, periodKey);
+    const orderBy = [
+      '"totalScore" DESC',
+      ...table.tieBreakers.map(tieBreaker => TIE_BREAKER_ORDER[tieBreaker]),
+      '"createdAt" ASC',
+      'id ASC'
+    ].join(', ');
+
+    const [changed, affected]: [Array<{ userId: string; oldRank: number; newRank: number; score: string }>, number] =
+      await AppDataSource.query(
+        `UPDATE rankings AS r
+            SET "previousRank" = CASE WHEN r.rank > 0 THEN r.rank ELSE r."previousRank" END,
+                rank = s.position
+           FROM (
+             SELECT id, rank AS old_rank, ROW_NUMBER() OVER (ORDER BY ${orderBy}) AS position
+               FROM rankings
+              WHERE period = $1 AND "periodKey" = $2
+           ) AS s
+          WHERE r.id = s.id AND r.rank <> s.position
+      RETURNING r."userId" AS "userId", s.old_rank AS "oldRank", r.rank AS "newRank", r."totalScore" AS score`,
+        [period, periodKey]
+      );
+
+    const changes = (changed || []).map(row => ({
+      userId: row.userId,
+      oldRank: Number(row.oldRank),
+      newRank: Number(row.newRank),
+      score: Number(row.score)
+    }));
+    WebSocketService.getInstance().publishRankingChanges(period, periodKey, changes);
+
+    // 순위 업적 판정 (실패해도 순위 갱신은 유지)
+    try {
+      await this.achievementService.onRanksChanged(period, periodKey, changes);
+    } catch (error) {
+      logger.error(`${period}/${periodKey} 순위 업적 판정 중 오류:`, error);
+    }
+
+    return affected ?? 0;
+  }
+
+  /**
+   * 상위 N명 조회 (rank 인덱스 범위 조회)
+   */
+  async getTop(period: RankingPeriod, periodKey: string, limit: number, offset: number = 0): Promise<Ranking[]> {
+    return await this.rankingRepository
+      .createQueryBuilder('ranking')
+      .leftJoinAndSelect('ranking.user', 'user')
+      .where('ranking.period = :period', { period })
+      .andWhere('ranking.periodKey = :periodKey', { periodKey })
+      .andWhere('ranking.rank BETWEEN :from AND :to', { from: offset + 1, to: offset + limit })
+      .orderBy('ranking.rank', 'ASC')
+      .getMany();
+  }
+
+  /**
+   * 사용자 순위 조회 (userId, period, periodKey 유니크 인덱스 조회)
+   */
+  async getUserRank(userId: string, period: RankingPeriod, periodKey: string): Promise<Ranking | null> {
+    return await this.rankingRepository.findOne({
+      where: { userId, period, periodKey },
+      relations: ['user']
+    });
+  }
+
+  /**
+   * 기간 키 참가자 수 (가장 낮은 순위)
+   */
+  async getParticipantCount(period: RankingPeriod, periodKey: string): Promise<number> {
+    const row = await this.rankingRepository
+      .createQueryBuilder('ranking')
+      .select('MAX(ranking.rank)', 'count')
+      .where('ranking.period = :period', { period })
+      .andWhere('ranking.periodKey = :periodKey', { periodKey })
+      .getRawOne();
+
+    return parseInt(row?.count || '0');
+  }
+
+  /**
+   * 기간 키 랭킹 재구축
+   * 집계를 초기화한 뒤 기간 내 정산된 예측(연습 게임 제외)을 정산 순서대로 다시 반영 (누락/중복 반영 복구용)
+   * @returns 반영한 예측 수
+   */
+  async rebuild(period: RankingPeriod, periodKey: string): Promise<number> {
+    if (FINALIZED_PERIODS.includes(period)) {
+      throw new Error('시즌/토너먼트 순위는 종료 시 확정됩니다.');
+    }
+
+    const { start, end } = Ranking.getPeriodRange(period, periodKey);
+
+    await this.rankingRepository.update({ period, periodKey }, {
+      totalScore: 0,
+      averageScore: 0,
+      totalGames: 0,
+      winCount: 0,
+      loseCount: 0,
+      drawCount: 0,
+      winRate: 0,
+      currentStreak: 0,
+      bestStreak: 0,
+      totalPlayTime: 0,
+      scoreReachedAt: null
+    });
+
+    let processed = 0;
+    let fetched = 0;
+
+    do {
+      const predictions = await this.predictionRepository.find({
+        select: ['id', 'userId', 'status', 'scoreEarned', 'resolvedAt', 'metadata'],
+        where: {
+          status: In([GamePredictionStatus.WIN, GamePredictionStatus.LOSE, GamePredictionStatus.DRAW]),
+          resolvedAt: Between(start, end),
+          game: { gameType: Not(PRACTICE_GAME_TYPE) }
+        },
+        order: { resolvedAt: 'ASC', id: 'ASC' },
+        skip: processed,
+        take: REBUILD_PAGE_SIZE
+      });
+
+      fetched = predictions.length;
+      if (fetched > 0) {
+        await this.persistDeltas(this.buildDeltas(predictions.map(RankingEngine.fromPrediction), [period]));
+        processed += fetched;
+      }
+    } while (fetched === REBUILD_PAGE_SIZE);
+
+    await this.recomputeRanks(period, periodKey);
+    return processed;
+  }
+
+  /**
+   * 정산된 예측을 랭킹 반영 단위로 변환 (점수는 라운드 등급 가중치 적용)
+   */
+  static fromPrediction(prediction: GamePrediction): SettledScore {
+    return {
+      userId: prediction.userId,
+      score: prediction.rankingPoints,
+      result: prediction.status === GamePredictionStatus.WIN
+        ? 'win'
+        : prediction.status === GamePredictionStatus.DRAW ? 'draw' : 'lose',
+      settledAt: prediction.resolvedAt || new Date(),
+      playTime: prediction.metadata?.gameDuration
+    };
+  }
+
+  /**
+   * 정산 결과를 기간 키/사용자별 변화량으로 집계 (정산 시각 순서로 연승 계산)
+   */
+  private buildDeltas(settlements: SettledScore[], periods: RankingPeriod[]): RankingDelta[] {
+    const deltas = new Map<string, RankingDelta>();
+    const ordered = [...settlements].sort((a, b) => a.settledAt.getTime() - b.settledAt.getTime());
+
+    for (const settlement of ordered) {
+      for (const period of periods) {
+        const periodKey = Ranking.generatePeriodKey(period, settlement.settledAt);
+        const key = `${period}|${periodKey}|${settlement.userId}`;
+        let delta = deltas.get(key);
+
+        if (!delta) {
+          delta = this.emptyDelta(settlement.userId, period, periodKey);
+          deltas.set(key, delta);
+        }
+
+        delta.score += settlement.score;
+        delta.games += 1;
+        if (settlement.score !== 0) {
+          delta.reachedAt = settlement.settledAt;
+        }
+        delta.playTime += settlement.playTime || 0;
+
+        if (settlement.result === 'win') {
+          delta.wins += 1;
+          delta.trailingWins += 1;
+          delta.bestRun = Math.max(delta.bestRun, delta.trailingWins);
+          if (delta.unbroken) {
+            delta.leadingWins += 1;
+          }
+        } else if (settlement.result === 'draw') {
+          // 보합은 연승을 이어가지도 끊지도 않음
+          delta.draws += 1;
+        } else {
+          delta.losses += 1;
+          delta.unbroken = false;
+          delta.trailingWins = 0;
+        }
+      }
+    }
+
+    return [...deltas.values()];
+  }
+
+  private emptyDelta(userId: string, period: RankingPeriod, periodKey: string): RankingDelta {
+    return {
+      userId,
+      period,
+      periodKey,
+      score: 0,
+      games: 0,
+      wins: 0,
+      losses: 0,
+      draws: 0,
+      playTime: 0,
+      unbroken: true,
+      leadingWins: 0,
+      trailingWins: 0,
+      bestRun: 0,
+      reachedAt: null
+    };
+  }
+
+  /**
+   * 변화량을 하나의 트랜잭션에서 청크 단위로 반영
+   */
+  private async persistDeltas(deltas: RankingDelta[]): Promise<void> {
+    await AppDataSource.transaction(async manager => {
+      for (let i = 0; i < deltas.length; i += UPSERT_CHUNK_SIZE) {
+        await this.applyDeltas(manager, deltas.slice(i, i + UPSERT_CHUNK_SIZE));
+      }
+    });
+  }
+
+  /**
+   * 변화량 반영
+   * 없는 랭킹 행을 먼저 만든 뒤(INSERT ... ON CONFLICT DO NOTHING) 한 번의 UPDATE ... FROM VALUES 로 증분 갱신
+   */
+  private async applyDeltas(manager: EntityManager, deltas: RankingDelta[]): Promise<void> {
+    await manager
+      .createQueryBuilder()
+      .insert()
+      .into(Ranking)
+      .values(deltas.map(delta => {
+        const range = Ranking.getPeriodRange(delta.period, delta.periodKey);
+        return {
+          userId: delta.userId,
+          period: delta.period,
+          periodKey: delta.periodKey,
+          rank: 0,
+          totalScore: 0,
+          averageScore: 0,
+          totalGames: 0,
+          winCount: 0,
+          loseCount: 0,
+          drawCount: 0,
+          winRate: 0,
+          currentStreak: 0,
+          bestStreak: 0,
+          periodStart: range.start,
+          periodEnd: range.end
+        };
+      }))
+      .orIgnore()
+      .execute();
+
+    const params: unknown[] = [];
+    const rows = deltas.map(delta => {
+      const values = [
+        delta.userId, delta.period, delta.periodKey, delta.score, delta.games, delta.wins,
+        delta.losses, delta.draws, delta.playTime, delta.unbroken, delta.leadingWins,
+        delta.trailingWins, delta.bestRun, delta.reachedAt
+      ];
+      const placeholders = values.map((value, index) => {
+        params.push(value);
+        return `$${params.length}::${DELTA_COLUMN_TYPES[index]}`;
+      });
+      return `(${placeholders.join(', ')})`;
+    });
+
+    await manager.query(
+      `UPDATE rankings AS r
+          SET "totalScore" = r."totalScore" + d.score,
+              "totalGames" = r."totalGames" + d.games,
+              "winCount" = r."winCount" + d.wins,
+              "loseCount" = r."loseCount" + d.losses,
+              "drawCount" = r."drawCount" + d.draws,
+              "totalPlayTime" = r."totalPlayTime" + d.play_time,
+              "winRate" = CASE WHEN r."totalGames" + d.games > 0
+                THEN ROUND((r."winCount" + d.wins) * 100.0 / (r."totalGames" + d.games), 2) ELSE 0 END,
+              "averageScore" = CASE WHEN r."totalGames" + d.games > 0
+                THEN LEAST(ROUND((r."totalScore" + d.score) / (r."totalGames" + d.games), 2), 999.99) ELSE 0 END,
+              "currentStreak" = CASE WHEN d.unbroken THEN r."currentStreak" + d.leading_wins ELSE d.trailing_wins END,
+              "bestStreak" = GREATEST(r."bestStreak", r."currentStreak" + d.leading_wins, d.best_run),
+              "scoreReachedAt" = CASE WHEN d.score > 0 THEN d.reached_at ELSE r."scoreReachedAt" END,
+              "updatedAt" = NOW()
+         FROM (VALUES ${rows.join(', ')})
+           AS d(user_id, period, period_key, score, games, wins, losses, draws, play_time,
+                unbroken, leading_wins, trailing_wins, best_run, reached_at)
+        WHERE r."userId" = d.user_id AND r.period::text = d.period AND r."periodKey" = d.period_key`,
+      params
+    );
+  }
+}
+
+export default RankingEngine;
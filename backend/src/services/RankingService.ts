@@ -1,10 +1,31 @@
 // src/services/RankingService.ts
 
-import { Repository } from 'typeorm';
+import { In, Repository } from 'typeorm';
 import { AppDataSource } from '../config/database';
-import { Ranking, RankingPeriod, AirdropStatus } from '../models/Ranking';
+import { Ranking, RankingPeriod, RankingMetric, AirdropStatus } from '../models/Ranking';
 import { User } from '../models/User';
-import { GameScore } from '../models/GameScore';
+import { AirdropTransfer } from '../models/AirdropTransfer';
+import { RewardTable, RewardTokenAmount } from '../models/RewardTable';
+import { AirdropExecutor } from './AirdropExecutor';
+import { RankingEngine, TRACKED_PERIODS, FINALIZED_PERIODS } from './RankingEngine';
+import { ScoreLedgerService, LedgerRebuildReport } from './ScoreLedgerService';
+import { GameScoreType } from '../models/GameScore';
+import { RewardTableService, RewardRecipient, RewardTableInput } from './RewardTableService';
+import { SeasonService, CreateSeasonInput } from './SeasonService';
+import { Season } from '../models/Season';
+import { Tournament, TournamentStatus } from '../models/Tournament';
+import { LeaderboardService, LeaderboardPage } from './LeaderboardService';
+import { AppError } from '../middlewares/errorHandler';
+
+/**
+ * 리더보드 조회 옵션 (지표/심볼/최소 게임 수)
+ */
+export interface LeaderboardOptions {
+  metric?: string;     // RankingMetric 값 또는 기존 camelCase 이름 (기본 총점)
+  symbol?: string;     // 심볼별 리더보드 (생략 또는 overall 이면 전체)
+  minGames?: number;   // 지표별 최소 게임 수보다 높게만 지정 가능
+  periodKey?: string;
+}
 
 /**
  * 랭킹 서비스
@@ -13,12 +34,25 @@ import { GameScore } from '../models/GameScore';
 export class RankingService {
   private rankingRepository: Repository<Ranking>;
   private userRepository: Repository<User>;
-  private scoreRepository: Repository<GameScore>;
+  private rankingEngine: RankingEngine;
+  private scoreLedger: ScoreLedgerService;
+  private transferRepository: Repository<AirdropTransfer>;
+  private tournamentRepository: Repository<Tournament>;
+  private rewardTableService: RewardTableService;
+  private seasonService: SeasonService;
+  private leaderboardService: LeaderboardService;
+  private airdropExecutor?: AirdropExecutor;
 
   constructor() {
     this.rankingRepository = AppDataSource.getRepository(Ranking);
     this.userRepository = AppDataSource.getRepository(User);
-    this.scoreRepository = AppDataSource.getRepository(GameScore);
+    this.rankingEngine = new RankingEngine();
+    this.scoreLedger = new ScoreLedgerService();
+    this.transferRepository = AppDataSource.getRepository(AirdropTransfer);
+    this.tournamentRepository = AppDataSource.getRepository(Tournament);
+    this.rewardTableService = new RewardTableService();
+    this.seasonService = new SeasonService();
+    this.leaderboardService = new LeaderboardService();
   }
 
   /**
@@ -26,12 +60,7 @@ export class RankingService {
    */
   async getActiveSeasonCount(): Promise<number> {
     try {
-      const count = await this.rankingRepository
-        .createQueryBuilder('ranking')
-        .where('ranking.isActive = :isActive', { isActive: true })
-        .getCount();
-      
-      return count;
+      return await this.seasonService.countActive();
     } catch (error) {
       console.error('활성 시즌 수 조회 오류:', error);
       return 0;
@@ -40,65 +69,100 @@ export class RankingService {
 
   /**
    * 랭킹 조회
+   * 조회 실패 시 빈 목록 (지표/심볼 검증 오류를 응답으로 돌려줘야 하면 getLeaderboard 사용)
    */
   async getRanking(
     period: string = 'weekly',
     limit: number = 10,
     offset: number = 0,
-    metric: string = 'totalScore'
+    metric: string = 'totalScore',
+    periodKey?: string
   ): Promise<any[]> {
     try {
-      const query = this.rankingRepository
-        .createQueryBuilder('ranking')
-        .leftJoinAndSelect('ranking.user', 'user')
-        .where('ranking.period = :period', { period })
-        .orderBy(`ranking.${metric}`, 'DESC')
-        .limit(limit)
-        .offset(offset);
-
-      const rankings = await query.getMany();
-      
-      return rankings.map((ranking, index) => ({
-        rank: offset + index + 1,
-        userId: ranking.userId,
-        score: ranking.totalScore,
-        period: ranking.period,
-        lastUpdated: ranking.updatedAt
-      }));
+      const leaderboard = await this.getLeaderboard(period, limit, offset, { metric, periodKey });
+      return leaderboard.entries;
     } catch (error) {
       console.error('랭킹 조회 오류:', error);
       return [];
     }
   }
 
+  /**
+   * 지표별/심볼별 리더보드 조회
+   * 전체 심볼 총점 기준(최소 게임 수 없음)은 랭킹 엔진이 확정한 순위(rank) 범위로 조회하고,
+   * 그 외에는 LeaderboardService 가 조회 시 순위를 계산
+   */
+  async getLeaderboard(
+    period: string = 'weekly',
+    limit: number = 100,
+    offset: number = 0,
+    options: LeaderboardOptions = {}
+  ): Promise<LeaderboardPage & { period: RankingPeriod; periodKey: string }> {
+    const rankingPeriod = this.resolvePeriod(period);
+    const key = await this.resolvePeriodKey(rankingPeriod, options.periodKey);
+    const metric = this.leaderboardService.parseMetric(options.metric);
+    const symbol = this.leaderboardService.parseSymbol(options.symbol);
+    const minGames = this.leaderboardService.resolveMinGames(metric, options.minGames);
+
+    if (metric === RankingMetric.TOTAL_SCORE && !symbol && minGames === 0) {
+      const rankings = await this.rankingEngine.getTop(rankingPeriod, key, limit, offset);
+      return {
+        period: rankingPeriod,
+        periodKey: key,
+        metric,
+        symbol: null,
+        minGames,
+        totalParticipants: await this.rankingEngine.getParticipantCount(rankingPeriod, key),
+        entries: rankings.map(ranking => ({ ...this.toRankingEntry(ranking), metricValue: Number(ranking.totalScore) }))
+      };
+    }
+
+    const page = await this.leaderboardService.getPage(
+      { period: rankingPeriod, periodKey: key, metric, symbol, minGames },
+      limit,
+      offset
+    );
+    return {
+      ...page,
+      period: rankingPeriod,
+      periodKey: key,
+      entries: page.entries.map(entry => ({ ...entry, period: rankingPeriod, periodKey: key, symbol: symbol ?? null }))
+    };
+  }
+
   /**
    * 사용자 랭킹 조회
    */
-  async getUserRanking(userId: string): Promise<any | null> {
+  async getUserRanking(userId: string, period: string = 'weekly', periodKey?: string, options: LeaderboardOptions = {}): Promise<any | null> {
     try {
-      const ranking = await this.rankingRepository
-        .createQueryBuilder('ranking')
-        .where('ranking.userId = :userId', { userId })
-        .orderBy('ranking.totalScore', 'DESC')
-        .getOne();
+      const rankingPeriod = this.resolvePeriod(period);
+      const key = await this.resolvePeriodKey(rankingPeriod, periodKey);
+      const metric = this.leaderboardService.parseMetric(options.metric);
+      const symbol = this.leaderboardService.parseSymbol(options.symbol);
+
+      // 지표별/심볼별 리더보드에서의 위치
+      if (metric !== RankingMetric.TOTAL_SCORE || symbol || options.minGames) {
+        const entry = await this.leaderboardService.getUserEntry(
+          { period: rankingPeriod, periodKey: key, metric, symbol, minGames: options.minGames },
+          userId
+        );
+        return entry ? { ...entry, period: rankingPeriod, periodKey: key, metric, symbol: symbol ?? null } : null;
+      }
+
+      const ranking = await this.rankingEngine.getUserRank(userId, rankingPeriod, key);
 
       if (!ranking) {
         return null;
       }
 
-      const rank = await this.rankingRepository
-        .createQueryBuilder('ranking')
-        .where('ranking.totalScore > :score', { score: ranking.totalScore })
-        .getCount();
-
       return {
-        rank: rank + 1,
-        userId: ranking.userId,
-        score: ranking.totalScore,
-        period: ranking.period,
-        lastUpdated: ranking.updatedAt
+        ...this.toRankingEntry(ranking),
+        totalParticipants: await this.rankingEngine.getParticipantCount(rankingPeriod, key)
       };
     } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
       console.error('사용자 랭킹 조회 오류:', error);
       return null;
     }
@@ -109,21 +173,14 @@ export class RankingService {
    */
   async getTopLeaderboard(limit: number = 10, period: string = 'weekly'): Promise<any[]> {
     try {
-      const rankings = await this.rankingRepository
-        .createQueryBuilder('ranking')
-        .leftJoinAndSelect('ranking.user', 'user')
-        .where('ranking.period = :period', { period })
-        .orderBy('ranking.totalScore', 'DESC')
-        .limit(limit)
-        .getMany();
-
-      return rankings.map((ranking, index) => ({
-        rank: index + 1,
-        userId: ranking.userId,
-        score: ranking.totalScore,
-        period: ranking.period,
-        lastUpdated: ranking.updatedAt
-      }));
+      const rankingPeriod = this.resolvePeriod(period);
+      const rankings = await this.rankingEngine.getTop(
+        rankingPeriod,
+        await this.resolvePeriodKey(rankingPeriod),
+        limit
+      );
+
+      return rankings.map(ranking => this.toRankingEntry(ranking));
     } catch (error) {
       console.error('상위 리더보드 조회 오류:', error);
       return [];
@@ -131,52 +188,32 @@ export class RankingService {
   }
 
   /**
-   * 사용자 랭킹 업데이트
+   * 사용자 랭킹 업데이트 (관리자 점수 조정)
+   * 조정 내역은 점수 원장에도 ADMIN_ADJUSTMENT 항목으로 기록
    */
   async updateUserRanking(
     userId: string,
     score: number,
-    period: string = 'weekly'
+    period: string = 'weekly',
+    adminId?: string
   ): Promise<any> {
     try {
-      let ranking = await this.rankingRepository.findOne({
-        where: { userId, period: period as RankingPeriod }
-      });
+      const rankingPeriod = this.resolvePeriod(period);
+      const periodKey = await this.resolvePeriodKey(rankingPeriod);
+      const ranking = await this.rankingEngine.adjustScore(userId, score, rankingPeriod, periodKey);
 
-      if (ranking) {
-        ranking.totalScore += score;
-        ranking.updatedAt = new Date();
-      } else {
-        ranking = this.rankingRepository.create({
-          userId,
-          period: period as RankingPeriod,
-          periodKey: new Date().toISOString().substring(0, 10),
-          rank: 0,
-          totalScore: score,
-          averageScore: score,
-          totalGames: 1,
-          winCount: 0,
-          loseCount: 0,
-          drawCount: 0,
-          winRate: 0,
-          currentStreak: 0,
-          bestStreak: 0,
-          totalPlayTime: 0,
-          airdropStatus: AirdropStatus.PENDING,
-          airdropAmount: 0,
-          airdropRetryCount: 0,
-          periodStart: new Date(),
-          periodEnd: new Date(),
-          isActive: true
-        });
-      }
+      await this.scoreLedger.recordAward(userId, {
+        scoreType: score < 0 ? GameScoreType.PENALTY : GameScoreType.ADMIN_ADJUSTMENT,
+        points: score,
+        description: `랭킹 점수 조정 (${rankingPeriod} ${periodKey})`
+      }, { awardedBy: adminId || 'admin' });
 
-      const savedRanking = await this.rankingRepository.save(ranking);
-      
       return {
-        userId: savedRanking.userId,
-        totalScore: savedRanking.totalScore,
-        period: savedRanking.period,
+        userId: ranking.userId,
+        totalScore: Number(ranking.totalScore),
+        rank: ranking.rank,
+        period: ranking.period,
+        periodKey: ranking.periodKey,
         updated: true
       };
     } catch (error) {
@@ -187,54 +224,68 @@ export class RankingService {
 
   /**
    * 모든 랭킹 업데이트
+   * 현재 기간 키의 랭킹을 정산된 예측으로부터 다시 집계
    */
   async updateAllRankings(): Promise<{ updated: number; errors: number }> {
-    try {
-      let updated = 0;
-      let errors = 0;
-
-      const users = await this.userRepository.find();
-      
-      for (const user of users) {
-        try {
-          const totalScore = await this.scoreRepository
-            .createQueryBuilder('score')
-            .select('SUM(score.points)', 'total')
-            .where('score.userId = :userId', { userId: user.id })
-            .getRawOne();
-
-          await this.updateUserRanking(user.id, totalScore?.total || 0, 'weekly');
-          updated++;
-        } catch (error) {
-          console.error(`사용자 ${user.id} 랭킹 업데이트 오류:`, error);
-          errors++;
-        }
+    let updated = 0;
+    let errors = 0;
+
+    for (const period of TRACKED_PERIODS) {
+      try {
+        await this.rankingEngine.rebuild(period, Ranking.generatePeriodKey(period));
+        updated++;
+      } catch (error) {
+        console.error(`${period} 랭킹 재집계 오류:`, error);
+        errors++;
       }
+    }
+
+    return { updated, errors };
+  }
 
-      return { updated, errors };
+  /**
+   * 점수 원장 기준 사용자 통계 재집계 (차이 보고, apply 시 반영)
+   */
+  async rebuildUserStats(apply: boolean = false, userId?: string): Promise<LedgerRebuildReport> {
+    try {
+      return await this.scoreLedger.rebuildUserStats({ apply, userId });
     } catch (error) {
-      console.error('모든 랭킹 업데이트 오류:', error);
-      return { updated: 0, errors: 1 };
+      console.error('사용자 통계 재집계 오류:', error);
+      throw error;
     }
   }
 
   /**
    * 에어드롭 스케줄 조회
+   * 다음 지급일과 해당 기간에 적용되는 보상 등급표를 반환
    */
-  async getAirdropSchedule(): Promise<any> {
+  async getAirdropSchedule(period: string = 'current', periodKey?: string): Promise<any> {
     try {
-      const schedule = {
-        nextAirdrop: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
-        frequency: 'weekly',
-        rewards: {
-          first: { rank: 1, amount: 10000, count: 1 },
-          second: { rank: 2, amount: 1000, count: 50 },
-          third: { rank: 3, amount: 100, count: 500 },
-          fourth: { rank: 4, amount: 10, count: 1000 }
-        }
-      };
+      const rankingPeriod = this.resolvePeriod(period);
+      const key = await this.resolvePeriodKey(rankingPeriod, periodKey);
+      const table = await this.rewardTableService.getActiveTable(rankingPeriod, key);
+      const season = rankingPeriod === RankingPeriod.SEASON
+        ? await this.seasonService.getCurrentSeason()
+        : null;
+      const tournament = rankingPeriod === RankingPeriod.TOURNAMENT
+        ? await this.tournamentRepository.findOne({ where: { periodKey: key } })
+        : null;
+
+      let nextAirdrop: Date | null;
+      if (season) {
+        nextAirdrop = season.endDate;
+      } else if (rankingPeriod === RankingPeriod.TOURNAMENT) {
+        nextAirdrop = tournament?.finishedAt || null;
+      } else {
+        nextAirdrop = Ranking.getPeriodRange(rankingPeriod, key).end;
+      }
 
-      return schedule;
+      return {
+        nextAirdrop,
+        frequency: rankingPeriod,
+        periodKey: key,
+        rewardTable: table.toJSON()
+      };
     } catch (error) {
       console.error('에어드롭 스케줄 조회 오류:', error);
       return null;
@@ -246,17 +297,33 @@ export class RankingService {
    */
   async getUserAirdropHistory(userId: string): Promise<any[]> {
     try {
-      return [
-        {
-          id: '1',
+      const rankings = await this.rankingRepository.find({
+        where: {
           userId,
-          rank: 1,
-          amount: 10000,
-          period: 'weekly',
-          distributedAt: new Date(),
-          txHash: '0x123...'
-        }
-      ];
+          airdropStatus: In([AirdropStatus.PROCESSING, AirdropStatus.COMPLETED, AirdropStatus.FAILED, AirdropStatus.NEEDS_REVIEW])
+        },
+        order: { updatedAt: 'DESC' }
+      });
+
+      if (rankings.length === 0) {
+        return [];
+      }
+
+      const transfers = await this.transferRepository.find({
+        where: { rankingId: In(rankings.map(ranking => ranking.id)) },
+        order: { createdAt: 'ASC' }
+      });
+
+      return rankings.map(ranking => ({
+        id: ranking.id,
+        period: ranking.period,
+        periodKey: ranking.periodKey,
+        status: ranking.airdropStatus,
+        ...ranking.toAirdropInfo(),
+        rewards: transfers
+          .filter(transfer => transfer.rankingId === ranking.id)
+          .map(transfer => transfer.toJSON())
+      }));
     } catch (error) {
       console.error('사용자 에어드롭 히스토리 조회 오류:', error);
       return [];
@@ -264,55 +331,30 @@ export class RankingService {
   }
 
   /**
-   * 에어드롭 대상자 조회
+   * 에어드롭 대상자 조회 (보상 테이블 기준)
+   * @param period 랭킹 기간 ('current' 는 주간 랭킹)
+   * @param rank 보상 등급 ('all' 또는 등급 번호)
+   * @param periodKey 기간 키 (생략 시 현재 기간)
    */
-  async getAirdropEligibleUsers(period: string = 'current', rank: string = 'all'): Promise<any[]> {
+  async getAirdropEligibleUsers(period: string = 'current', rank: string = 'all', periodKey?: string): Promise<any[]> {
     try {
-      const query = this.rankingRepository
-        .createQueryBuilder('ranking')
-        .leftJoinAndSelect('ranking.user', 'user')
-        .where('ranking.period = :period', { period })
-        .orderBy('ranking.totalScore', 'DESC');
-
-      if (rank !== 'all') {
-        if (rank === '1') {
-          query.limit(1);
-        } else if (rank === '2') {
-          query.offset(1).limit(50);
-        } else if (rank === '3') {
-          query.offset(51).limit(500);
-        } else if (rank === '4') {
-          query.offset(551).limit(1000);
-        }
-      } else {
-        query.limit(1551);
-      }
-
-      const rankings = await query.getMany();
-      
-      return rankings.map((ranking, index) => {
-        let rankGroup = 4;
-        let amount = 10;
-        
-        if (index === 0) {
-          rankGroup = 1;
-          amount = 10000;
-        } else if (index <= 50) {
-          rankGroup = 2;
-          amount = 1000;
-        } else if (index <= 550) {
-          rankGroup = 3;
-          amount = 100;
-        }
-
-        return {
-          userId: ranking.userId,
-          rank: index + 1,
-          rankGroup,
-          score: ranking.totalScore,
-          airdropAmount: amount
-        };
-      });
+      const { table, periodKey: key, recipients } = await this.loadRewardRecipients(period, rank, periodKey);
+
+      return recipients.map(recipient => ({
+        rankingId: recipient.ranking.id,
+        userId: recipient.ranking.userId,
+        walletAddress: recipient.ranking.user?.walletAddress,
+        period: table.period,
+        periodKey: key,
+        rewardTableId: table.id,
+        rank: recipient.position,
+        rankGroup: recipient.tier.tier,
+        tierName: recipient.tier.name,
+        score: Number(recipient.ranking.totalScore),
+        rewards: recipient.rewards,
+        airdropAmount: recipient.rewards.find(reward => reward.token === 'CTA')?.amount || 0,
+        airdropStatus: recipient.ranking.airdropStatus
+      }));
     } catch (error) {
       console.error('에어드롭 대상자 조회 오류:', error);
       return [];
@@ -321,50 +363,56 @@ export class RankingService {
 
   /**
    * 에어드롭 실행
+   * 보상 테이블의 등급/토큰별 수량으로 지급하며
+   * 이미 지급 완료되었거나 처리 중인 대상은 건너뜀 (같은 기간에 여러 번 실행해도 중복 지급 없음)
    */
-  async executeAirdrop(period: string = 'current', dryRun: boolean = false): Promise<any> {
+  async executeAirdrop(period: string = 'current', dryRun: boolean = false, periodKey?: string): Promise<any> {
     try {
-      const eligibleUsers = await this.getAirdropEligibleUsers(period);
-      
+      const { table, periodKey: key, recipients } = await this.loadRewardRecipients(period, 'all', periodKey);
+      const totalAmounts = this.sumRewards(recipients.map(recipient => recipient.rewards));
+
       if (dryRun) {
+        const breakdown: Record<string, number> = {};
+        for (const tier of table.tiers) {
+          breakdown[`rank${tier.tier}`] = recipients.filter(recipient => recipient.tier.tier === tier.tier).length;
+        }
+
         return {
           dryRun: true,
-          totalUsers: eligibleUsers.length,
-          totalAmount: eligibleUsers.reduce((sum, user) => sum + user.airdropAmount, 0),
-          breakdown: {
-            rank1: eligibleUsers.filter(u => u.rankGroup === 1).length,
-            rank2: eligibleUsers.filter(u => u.rankGroup === 2).length,
-            rank3: eligibleUsers.filter(u => u.rankGroup === 3).length,
-            rank4: eligibleUsers.filter(u => u.rankGroup === 4).length
-          }
+          period: table.period,
+          periodKey: key,
+          rewardTable: { id: table.id, name: table.name, version: table.version },
+          totalUsers: recipients.length,
+          totalAmount: totalAmounts.CTA || 0,
+          totalAmounts,
+          breakdown,
+          alreadyCompleted: recipients.filter(recipient => recipient.ranking.airdropStatus === AirdropStatus.COMPLETED).length
         };
       }
 
-      const results = [];
-      for (const user of eligibleUsers) {
-        try {
-          const txHash = await this.sendAirdrop(user.userId, user.airdropAmount);
-          results.push({
-            userId: user.userId,
-            amount: user.airdropAmount,
-            txHash,
-            success: true
-          });
-        } catch (error) {
-          results.push({
-            userId: user.userId,
-            amount: user.airdropAmount,
-            success: false,
-            error: error.message
-          });
-        }
-      }
+      const results = await this.getAirdropExecutor().executePayouts(
+        recipients.map(recipient => ({
+          rankingId: recipient.ranking.id,
+          userId: recipient.ranking.userId,
+          rank: recipient.position,
+          tier: recipient.tier.tier,
+          rewardTableId: table.id,
+          rewards: recipient.rewards
+        }))
+      );
 
       return {
         executed: true,
-        totalUsers: eligibleUsers.length,
-        successful: results.filter(r => r.success).length,
-        failed: results.filter(r => !r.success).length,
+        period: table.period,
+        periodKey: key,
+        rewardTable: { id: table.id, name: table.name, version: table.version },
+        totalUsers: recipients.length,
+        totalAmounts,
+        transfers: results.length,
+        successful: results.filter(r => !r.skipped && r.status === AirdropStatus.COMPLETED).length,
+        pending: results.filter(r => !r.skipped && r.status === AirdropStatus.PROCESSING).length,
+        failed: results.filter(r => r.status === AirdropStatus.FAILED).length,
+        skipped: results.filter(r => r.skipped).length,
         results
       };
     } catch (error) {
@@ -378,12 +426,47 @@ export class RankingService {
    */
   async getAirdropStats(): Promise<any> {
     try {
+      const completed = await this.rankingRepository
+        .createQueryBuilder('ranking')
+        .select('COUNT(*)', 'count')
+        .addSelect('COUNT(DISTINCT ranking.userId)', 'users')
+        .addSelect('MAX(ranking.airdropProcessedAt)', 'lastAirdrop')
+        .where('ranking.airdropStatus = :status', { status: AirdropStatus.COMPLETED })
+        .getRawOne();
+
+      const byStatus = await this.rankingRepository
+        .createQueryBuilder('ranking')
+        .select('ranking.airdropStatus', 'status')
+        .addSelect('COUNT(*)', 'count')
+        .groupBy('ranking.airdropStatus')
+        .getRawMany();
+
+      const byToken = await this.transferRepository
+        .createQueryBuilder('transfer')
+        .select('transfer.token', 'token')
+        .addSelect('COALESCE(SUM(transfer.amount), 0)', 'amount')
+        .where('transfer.status = :status', { status: AirdropStatus.COMPLETED })
+        .groupBy('transfer.token')
+        .getRawMany();
+
+      const statusCount = (status: AirdropStatus): number =>
+        parseInt(byStatus.find(row => row.status === status)?.count || '0');
+
+      const totalAmounts: Record<string, number> = {};
+      for (const row of byToken) {
+        totalAmounts[row.token] = parseFloat(row.amount);
+      }
+
       return {
-        totalAirdrops: 10,
-        totalAmount: 1000000,
-        totalUsers: 1551,
-        lastAirdrop: new Date(),
-        nextAirdrop: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000)
+        totalAirdrops: parseInt(completed?.count || '0'),
+        totalAmount: totalAmounts.CTA || 0,
+        totalAmounts,
+        totalUsers: parseInt(completed?.users || '0'),
+        processing: statusCount(AirdropStatus.PROCESSING),
+        failed: statusCount(AirdropStatus.FAILED),
+        needsReview: statusCount(AirdropStatus.NEEDS_REVIEW),
+        lastAirdrop: completed?.lastAirdrop || null,
+        nextAirdrop: Ranking.getPeriodRange(RankingPeriod.WEEKLY, Ranking.generatePeriodKey(RankingPeriod.WEEKLY)).end
       };
     } catch (error) {
       console.error('에어드롭 통계 조회 오류:', error);
@@ -392,15 +475,18 @@ export class RankingService {
   }
 
   /**
-   * 에어드롭 재시도
+   * 에어드롭 재시도 (실패한 토큰 전송만 다시 전송)
+   * @param airdropId 랭킹 ID
    */
   async retryAirdrop(airdropId: string): Promise<any> {
     try {
+      const results = await this.getAirdropExecutor().retryPayout(airdropId);
+
       return {
         airdropId,
         retried: true,
-        success: true,
-        txHash: '0x456...'
+        success: results.every(result => result.status !== AirdropStatus.FAILED),
+        results
       };
     } catch (error) {
       console.error('에어드롭 재시도 오류:', error);
@@ -408,57 +494,79 @@ export class RankingService {
     }
   }
 
+  /**
+   * 보상 테이블 목록 조회
+   */
+  async getRewardTables(period?: string): Promise<RewardTable[]> {
+    return await this.rewardTableService.listTables(period ? this.resolvePeriod(period) : undefined);
+  }
+
+  /**
+   * 기간에 적용되는 보상 테이블 조회
+   */
+  async getActiveRewardTable(period: string = 'current', periodKey?: string): Promise<RewardTable> {
+    const rankingPeriod = this.resolvePeriod(period);
+    return await this.rewardTableService.getActiveTable(
+      rankingPeriod,
+      await this.resolvePeriodKey(rankingPeriod, periodKey)
+    );
+  }
+
+  /**
+   * 보상 테이블 생성
+   */
+  async createRewardTable(
+    input: Omit<RewardTableInput, 'period'> & { period?: string },
+    adminId?: string
+  ): Promise<RewardTable> {
+    return await this.rewardTableService.createTable(
+      { ...input, period: input.period ? this.resolvePeriod(input.period) : undefined },
+      adminId
+    );
+  }
+
+  /**
+   * 보상 테이블 수정
+   */
+  async updateRewardTable(tableId: string, input: RewardTableInput, adminId?: string): Promise<RewardTable> {
+    return await this.rewardTableService.updateTable(tableId, input, adminId);
+  }
+
   /**
    * 현재 시즌 조회
    */
   async getCurrentSeason(): Promise<any | null> {
     try {
-      const currentSeason = await this.rankingRepository
-        .createQueryBuilder('ranking')
-        .where('ranking.isActive = :isActive', { isActive: true })
-        .orderBy('ranking.createdAt', 'DESC')
-        .getOne();
+      const season = await this.seasonService.getCurrentSeason();
 
-      if (!currentSeason) {
+      if (!season) {
         return null;
       }
 
-      return {
-        id: currentSeason.id,
-        name: currentSeason.period,
-        startDate: currentSeason.createdAt,
-        endDate: new Date(currentSeason.createdAt.getTime() + 7 * 24 * 60 * 60 * 1000),
-        isActive: currentSeason.isActive
-      };
+      return await this.toSeasonInfo(season);
     } catch (error) {
       console.error('현재 시즌 조회 오류:', error);
       return null;
     }
   }
 
+  /**
+   * 시즌 조회
+   */
+  async getSeason(seasonId: string): Promise<any | null> {
+    const season = await this.seasonService.getSeason(seasonId);
+    return season ? await this.toSeasonInfo(season) : null;
+  }
+
   /**
    * 시즌 히스토리 조회
    */
   async getSeasonHistory(page: number = 1, limit: number = 10): Promise<any> {
     try {
-      const offset = (page - 1) * limit;
-      
-      const [seasons, total] = await this.rankingRepository
-        .createQueryBuilder('ranking')
-        .orderBy('ranking.createdAt', 'DESC')
-        .limit(limit)
-        .offset(offset)
-        .getManyAndCount();
+      const { seasons, total } = await this.seasonService.getSeasonHistory(page, limit);
 
       return {
-        seasons: seasons.map(season => ({
-          id: season.id,
-          name: season.period,
-          startDate: season.createdAt,
-          endDate: season.updatedAt,
-          isActive: season.isActive,
-          participantCount: 1
-        })),
+        seasons: seasons.map(season => season.toJSON()),
         pagination: {
           page,
           limit,
@@ -475,59 +583,47 @@ export class RankingService {
   /**
    * 새 시즌 생성
    */
-  async createSeason(seasonData: {
-    name: string;
-    startDate: Date;
-    endDate: Date;
-    description?: string;
-  }): Promise<any> {
+  async createSeason(seasonData: CreateSeasonInput, adminId?: string): Promise<any> {
     try {
-      await this.rankingRepository
-        .createQueryBuilder()
-        .update(Ranking)
-        .set({ isActive: false })
-        .where('isActive = :isActive', { isActive: true })
-        .execute();
-
-      const newSeason = this.rankingRepository.create({
-        userId: 'system',
-        period: seasonData.name as RankingPeriod,
-        periodKey: seasonData.name,
-        rank: 0,
-        totalScore: 0,
-        averageScore: 0,
-        totalGames: 0,
-        winCount: 0,
-        loseCount: 0,
-        drawCount: 0,
-        winRate: 0,
-        currentStreak: 0,
-        bestStreak: 0,
-        totalPlayTime: 0,
-        airdropStatus: AirdropStatus.PENDING,
-        airdropAmount: 0,
-        airdropRetryCount: 0,
-        periodStart: seasonData.startDate,
-        periodEnd: seasonData.endDate,
-        isActive: true
-      });
-
-      const savedSeason = await this.rankingRepository.save(newSeason);
-
-      return {
-        id: savedSeason.id,
-        name: savedSeason.period,
-        startDate: savedSeason.periodStart,
-        endDate: savedSeason.periodEnd,
-        isActive: savedSeason.isActive,
-        description: seasonData.description || ''
-      };
+      const season = await this.seasonService.createSeason(seasonData, adminId);
+      return await this.toSeasonInfo(season);
     } catch (error) {
       console.error('새 시즌 생성 오류:', error);
       throw error;
     }
   }
 
+  /**
+   * 시즌 종료 (최종 순위 스냅샷 생성)
+   */
+  async closeSeason(seasonId: string, adminId?: string, force: boolean = false): Promise<any> {
+    try {
+      const season = await this.seasonService.closeSeason(seasonId, adminId, force);
+      return await this.toSeasonInfo(season);
+    } catch (error) {
+      console.error('시즌 종료 오류:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * 시즌 순위 조회 (종료된 시즌은 최종 스냅샷)
+   */
+  async getSeasonLeaderboard(seasonId: string, limit: number = 100, offset: number = 0): Promise<any | null> {
+    const season = await this.seasonService.getSeason(seasonId);
+
+    if (!season) {
+      return null;
+    }
+
+    const leaderboard = await this.seasonService.getLeaderboard(season, limit, offset);
+
+    return {
+      season: season.toJSON(),
+      ...leaderboard
+    };
+  }
+
   /**
    * 랭킹 리셋
    */
@@ -604,11 +700,137 @@ export class RankingService {
   }
 
   /**
-   * 실제 에어드롭 전송 (블록체인 트랜잭션)
+   * 에어드롭 실행기 (최초 사용 시 생성)
    * @private
    */
-  private async sendAirdrop(_userId: string, _amount: number): Promise<string> {
-    return `0x${Math.random().toString(16).substr(2, 40)}`;
+  private getAirdropExecutor(): AirdropExecutor {
+    if (!this.airdropExecutor) {
+      this.airdropExecutor = new AirdropExecutor();
+    }
+    return this.airdropExecutor;
+  }
+
+  /**
+   * 보상 테이블과 대상자 조회
+   * @private
+   */
+  private async loadRewardRecipients(
+    period: string,
+    rank: string,
+    periodKey?: string
+  ): Promise<{ table: RewardTable; periodKey: string; recipients: RewardRecipient[] }> {
+    const rankingPeriod = this.resolvePeriod(period);
+    const key = await this.resolvePeriodKey(rankingPeriod, periodKey);
+    const table = await this.rewardTableService.getActiveTable(rankingPeriod, key);
+
+    if (!FINALIZED_PERIODS.includes(rankingPeriod)) {
+      await this.rankingEngine.recomputeRanks(rankingPeriod, key);
+    }
+
+    const tier = rank === 'all' ? undefined : parseInt(rank);
+    const recipients = await this.rewardTableService.getRecipients(table, key, tier);
+
+    return { table, periodKey: key, recipients };
+  }
+
+  /**
+   * 토큰별 지급량 합계
+   * @private
+   */
+  private sumRewards(rewardLists: RewardTokenAmount[][]): Record<string, number> {
+    const totals: Record<string, number> = {};
+    for (const rewards of rewardLists) {
+      for (const reward of rewards) {
+        totals[reward.token] = (totals[reward.token] || 0) + reward.amount;
+      }
+    }
+    return totals;
+  }
+
+  /**
+   * 시즌 응답 데이터 (보상 등급표 및 토큰별 상금 포함)
+   * @private
+   */
+  private async toSeasonInfo(season: Season): Promise<any> {
+    const table = await this.seasonService.getRewardTable(season);
+
+    return {
+      ...season.toJSON(),
+      prizePool: table.tokenTotals,
+      rewardTable: table.toJSON()
+    };
+  }
+
+  /**
+   * 기간 키 결정 (생략 시 현재 기간, 시즌/토너먼트는 가장 최근에 종료된 시즌/토너먼트)
+   * @private
+   */
+  private async resolvePeriodKey(period: RankingPeriod, periodKey?: string): Promise<string> {
+    if (periodKey) {
+      return periodKey;
+    }
+
+    if (period === RankingPeriod.TOURNAMENT) {
+      const tournament = await this.tournamentRepository.findOne({
+        where: { status: TournamentStatus.FINISHED },
+        order: { finishedAt: 'DESC' }
+      });
+      if (!tournament) {
+        throw new Error('종료된 토너먼트가 없습니다.');
+      }
+      return tournament.periodKey;
+    }
+
+    if (period === RankingPeriod.SEASON) {
+      const season = await this.seasonService.getLatestClosedSeason();
+      if (!season) {
+        throw new Error('종료된 시즌이 없습니다.');
+      }
+      return season.periodKey;
+    }
+
+    return Ranking.generatePeriodKey(period);
+  }
+
+  /**
+   * 랭킹 응답 항목 (순위 변동 포함)
+   * @private
+   */
+  private toRankingEntry(ranking: Ranking): any {
+    return {
+      rank: ranking.rank,
+      previousRank: ranking.previousRank ?? null,
+      rankChange: ranking.rankChange,
+      rankDirection: ranking.rankDirection,
+      userId: ranking.userId,
+      nickname: ranking.user?.nickname,
+      score: Number(ranking.totalScore),
+      totalGames: ranking.totalGames,
+      winCount: ranking.winCount,
+      winRate: Number(ranking.winRate),
+      averageScore: Number(ranking.averageScore),
+      bestStreak: ranking.bestStreak,
+      period: ranking.period,
+      periodKey: ranking.periodKey,
+      lastUpdated: ranking.updatedAt
+    };
+  }
+
+  /**
+   * 기간 파라미터를 RankingPeriod 로 변환
+   * @private
+   */
+  private resolvePeriod(period: string): RankingPeriod {
+    if (period === 'current') {
+      return RankingPeriod.WEEKLY;
+    }
+    if (period === 'all') {
+      return RankingPeriod.ALL_TIME;
+    }
+    if (!Object.values(RankingPeriod).includes(period as RankingPeriod)) {
+      throw new Error(`지원하지 않는 랭킹 기간입니다: ${period}`);
+    }
+    return period as RankingPeriod;
   }
 }
 
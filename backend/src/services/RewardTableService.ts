@@ -0,0 +1,263 @@
+// src/services/RewardTableService.ts
+
+import { In, IsNull, Repository } from 'typeorm';
+import { AppDataSource } from '../config/database';
+import { airdropTokens } from '../config/blockchain';
+import { DEFAULT_REWARD_TIERS, DEFAULT_TIE_BREAKERS } from '../config/reward';
+import { Ranking, RankingPeriod } from '../models/Ranking';
+import { RewardTable, RewardTierDefinition, RewardTieBreaker, RewardTokenAmount } from '../models/RewardTable';
+import { Season, SeasonStatus } from '../models/Season';
+import { Tournament, TournamentStatus } from '../models/Tournament';
+
+/**
+ * 보상 대상자 (보상 테이블 기준 순위/등급 확정)
+ */
+export interface RewardRecipient {
+  ranking: Ranking;
+  position: number; // 동점자 규칙까지 적용한 보상 순위 (= ranking.rank)
+  tier: RewardTierDefinition;
+  rewards: RewardTokenAmount[];
+}
+
+/**
+ * 보상 테이블 생성/수정 요청
+ */
+export interface RewardTableInput {
+  name?: string;
+  period?: RankingPeriod;
+  periodKey?: string | null;
+  tiers?: RewardTierDefinition[];
+  tieBreakers?: RewardTieBreaker[];
+  isActive?: boolean;
+}
+
+/**
+ * 보상 테이블 서비스
+ * 기간별 보상 등급표 관리 및 보상 대상자 산정
+ */
+export class RewardTableService {
+  private rewardTableRepository: Repository<RewardTable>;
+  private rankingRepository: Repository<Ranking>;
+  private seasonRepository: Repository<Season>;
+  private tournamentRepository: Repository<Tournament>;
+
+  constructor() {
+    this.rewardTableRepository = AppDataSource.getRepository(RewardTable);
+    this.rankingRepository = AppDataSource.getRepository(Ranking);
+    this.seasonRepository = AppDataSource.getRepository(Season);
+    this.tournamentRepository = AppDataSource.getRepository(Tournament);
+  }
+
+  /**
+   * 기간에 적용되는 보상 테이블 조회
+   * 특정 기간 키 전용 테이블 → 기간 유형 기본 테이블 순서로 찾고, 없으면 기본 등급으로 생성
+   */
+  async getActiveTable(period: RankingPeriod, periodKey?: string): Promise<RewardTable> {
+    if (periodKey) {
+      const specific = await this.rewardTableRepository.findOne({
+        where: { period, periodKey, isActive: true },
+        order: { updatedAt: 'DESC' }
+      });
+      if (specific) {
+        return specific;
+      }
+    }
+
+    const fallback = await this.rewardTableRepository.findOne({
+      where: { period, periodKey: IsNull(), isActive: true },
+      order: { updatedAt: 'DESC' }
+    });
+    if (fallback) {
+      return fallback;
+    }
+
+    return await this.rewardTableRepository.save(
+      this.rewardTableRepository.create({
+        name: `${period} 기본 보상`,
+        period,
+        tiers: DEFAULT_REWARD_TIERS,
+        tieBreakers: DEFAULT_TIE_BREAKERS,
+        isActive: true
+      })
+    );
+  }
+
+  /**
+   * 보상 테이블 목록 조회
+   */
+  async listTables(period?: RankingPeriod): Promise<RewardTable[]> {
+    return await this.rewardTableRepository.find({
+      where: period ? { period } : {},
+      order: { period: 'ASC', updatedAt: 'DESC' }
+    });
+  }
+
+  /**
+   * 보상 테이블 생성
+   * 같은 기간/기간 키의 기존 활성 테이블은 비활성화됨
+   */
+  async createTable(input: RewardTableInput, adminId?: string): Promise<RewardTable> {
+    if (!input.period || !Object.values(RankingPeriod).includes(input.period)) {
+      throw new Error('보상 테이블의 랭킹 기간이 올바르지 않습니다.');
+    }
+
+    const tiers = input.tiers || DEFAULT_REWARD_TIERS;
+    const tieBreakers = input.tieBreakers || DEFAULT_TIE_BREAKERS;
+    this.assertValid(tiers, tieBreakers);
+
+    const periodKey = input.periodKey || undefined;
+    const isActive = input.isActive !== false;
+    await this.assertEditable(input.period, periodKey);
+
+    return await AppDataSource.transaction(async manager => {
+      if (isActive) {
+        await manager.update(
+          RewardTable,
+          { period: input.period, periodKey: periodKey ?? IsNull(), isActive: true },
+          { isActive: false }
+        );
+      }
+
+      return await manager.save(
+        manager.create(RewardTable, {
+          name: input.name || `${input.period} 보상`,
+          period: input.period,
+          periodKey,
+          tiers: this.normalizeTiers(tiers),
+          tieBreakers,
+          isActive,
+          updatedBy: adminId
+        })
+      );
+    });
+  }
+
+  /**
+   * 보상 테이블 수정
+   * 이미 생성된 지급 내역(airdrop_transfers)은 생성 당시 수량을 유지함
+   */
+  async updateTable(tableId: string, input: RewardTableInput, adminId?: string): Promise<RewardTable> {
+    const table = await this.rewardTableRepository.findOne({ where: { id: tableId } });
+
+    if (!table) {
+      throw new Error('보상 테이블을 찾을 수 없습니다.');
+    }
+
+    const tiers = input.tiers || table.tiers;
+    const tieBreakers = input.tieBreakers || table.tieBreakers;
+    this.assertValid(tiers, tieBreakers);
+    await this.assertEditable(table.period, table.periodKey);
+
+    table.name = input.name || table.name;
+    table.tiers = this.normalizeTiers(tiers);
+    table.tieBreakers = tieBreakers;
+    table.version += 1;
+    table.updatedBy = adminId;
+
+    if (input.isActive !== undefined) {
+      table.isActive = input.isActive;
+    }
+
+    return await AppDataSource.transaction(async manager => {
+      if (table.isActive) {
+        await manager.update(
+          RewardTable,
+          { period: table.period, periodKey: table.periodKey ?? IsNull(), isActive: true },
+          { isActive: false }
+        );
+      }
+      return await manager.save(table);
+    });
+  }
+
+  /**
+   * 보상 대상자 산정
+   * 랭킹 엔진이 확정한 순위(rank, 총점 → 동점자 규칙 순)를 그대로 사용하므로
+   * 호출 전 해당 기간의 순위가 최신 상태여야 함 (RankingEngine.recomputeRanks)
+   * @param tier 특정 등급만 조회 (생략 시 전체)
+   */
+  async getRecipients(table: RewardTable, periodKey: string, tier?: number): Promise<RewardRecipient[]> {
+    const target = tier !== undefined ? table.tiers.find(definition => definition.tier === tier) : undefined;
+    if (tier !== undefined && !target) {
+      return [];
+    }
+
+    const rankFrom = target ? target.rankFrom : 1;
+    const rankTo = target ? target.rankTo : table.maxRewardedRank;
+
+    const rankings = await this.rankingRepository
+      .createQueryBuilder('ranking')
+      .leftJoinAndSelect('ranking.user', 'user')
+      .where('ranking.period = :period', { period: table.period })
+      .andWhere('ranking.periodKey = :periodKey', { periodKey })
+      .andWhere('ranking.rank BETWEEN :rankFrom AND :rankTo', { rankFrom, rankTo })
+      .orderBy('ranking.rank', 'ASC')
+      .getMany();
+
+    const recipients: RewardRecipient[] = [];
+
+    for (const ranking of rankings) {
+      const definition = table.getTierForRank(ranking.rank);
+      if (definition) {
+        recipients.push({ ranking, position: ranking.rank, tier: definition, rewards: definition.rewards });
+      }
+    }
+
+    return recipients;
+  }
+
+  /**
+   * 등급표 유효성 검사 (실패 시 예외)
+   */
+  private assertValid(tiers: RewardTierDefinition[], tieBreakers: RewardTieBreaker[]): void {
+    const errors = RewardTable.validate(tiers, tieBreakers, Object.keys(airdropTokens));
+    if (errors.length > 0) {
+      throw new Error(`보상 테이블이 올바르지 않습니다: ${errors.join(' ')}`);
+    }
+  }
+
+  /**
+   * 순위가 확정된 (순위 확정 중 또는 종료된) 시즌/토너먼트의 보상 테이블은 변경 불가
+   */
+  private async assertEditable(period: RankingPeriod, periodKey?: string): Promise<void> {
+    if (period === RankingPeriod.TOURNAMENT && periodKey) {
+      const finalized = await this.tournamentRepository.count({
+        where: { periodKey, status: In([TournamentStatus.FINALIZING, TournamentStatus.FINISHED]) }
+      });
+
+      if (finalized > 0) {
+        throw new Error('종료된 토너먼트의 보상 테이블은 수정할 수 없습니다.');
+      }
+      return;
+    }
+
+    if (period !== RankingPeriod.SEASON || !periodKey) {
+      return;
+    }
+
+    const locked = await this.seasonRepository.count({
+      where: { periodKey, status: In([SeasonStatus.FINALIZING, SeasonStatus.CLOSED]) }
+    });
+
+    if (locked > 0) {
+      throw new Error('종료된 시즌의 보상 테이블은 수정할 수 없습니다.');
+    }
+  }
+
+  /**
+   * 등급 정렬 및 수량 숫자 변환
+   */
+  private normalizeTiers(tiers: RewardTierDefinition[]): RewardTierDefinition[] {
+    return [...tiers]
+      .sort((a, b) => a.rankFrom - b.rankFrom)
+      .map(tier => ({
+        tier: Number(tier.tier),
+        name: tier.name || `${tier.tier}등`,
+        rankFrom: Number(tier.rankFrom),
+        rankTo: Number(tier.rankTo),
+        rewards: tier.rewards.map(reward => ({ token: reward.token, amount: Number(reward.amount) }))
+      }));
+  }
+}
+
+export default RewardTableService;
@@ -0,0 +1,416 @@
+// src/services/ScoreLedgerService.ts
+
+import { EntityManager, In, Repository } from 'typeorm';
+import { AppDataSource } from '../config/database';
+import { GameScore, GameScoreMetadata, GameScoreStatus, GameScoreType } from '../models/GameScore';
+import { GamePrediction, GamePredictionStatus } from '../models/GamePrediction';
+import { User } from '../models/User';
+import { StakeSettlement } from '../utils/staking';
+
+/**
+ * 원장에 추가할 점수 항목
+ */
+export interface ScoreAward {
+  scoreType: GameScoreType;
+  points: number;
+  description?: string;
+  multiplier?: number;
+  metadata?: GameScoreMetadata;
+}
+
+/**
+ * 원장 항목 연결 정보
+ */
+export interface ScoreAwardContext {
+  gameId?: string;
+  predictionId?: string;
+  awardedBy?: string; // 'system' 또는 관리자 ID
+  result?: 'win' | 'lose' | 'draw'; // 예측 정산 결과 (게임 수/승수 집계 대상)
+  requireBalance?: boolean; // 반영 후 잔액이 음수가 되면 예외 (스테이크 예치)
+}
+
+/**
+ * 원장 기준 사용자 통계
+ */
+export interface LedgerBalance {
+  totalScore: number;
+  gameCount: number;
+  winCount: number;
+  winRate: number;
+}
+
+/**
+ * 저장된 사용자 통계와 원장 합계의 차이
+ */
+export interface ScoreDrift {
+  userId: string;
+  field: keyof LedgerBalance;
+  stored: number;
+  ledger: number;
+}
+
+/**
+ * 원장 기준 재집계 결과
+ */
+export interface LedgerRebuildReport {
+  scannedUsers: number;
+  driftedUsers: number;
+  drifts: ScoreDrift[];
+  applied: boolean;
+}
+
+const USER_PAGE_SIZE = 1000;
+
+// 잔액 부족 예외 메시지 (컨트롤러가 400 응답으로 구분)
+export const INSUFFICIENT_BALANCE_MESSAGE = '보유 점수가 부족합니다.';
+
+/**
+ * 점수 원장 서비스
+ * 점수 지급은 모두 game_scores 에 항목을 추가하는 방식으로만 기록하고,
+ * 같은 트랜잭션에서 User 의 누적 통계(totalScore, gameCount, winCount, winRate)를 함께 갱신
+ */
+export class ScoreLedgerService {
+  private scoreRepository: Repository<GameScore>;
+  private userRepository: Repository<User>;
+
+  constructor() {
+    this.scoreRepository = AppDataSource.getRepository(GameScore);
+    this.userRepository = AppDataSource.getRepository(User);
+  }
+
+  /**
+   * 예측 정산 결과 기록
+   * 성공 시 점수 구성(기본/정확도/속도/연승/신뢰도)을 항목별로, 실패 시 0점 실패 기록과 신뢰도 감점을,
+   * 보합 시 0점 보합 기록만 추가
+   * 각 항목 메타데이터에는 규칙 버전과 전체 점수 구성이 함께 저장됨
+   * 이미 기록된 예측이면 아무것도 하지 않음
+   */
+  async recordPredictionResult(prediction: GamePrediction, manager?: EntityManager): Promise<GameScore[]> {
+    const isWin = prediction.status === GamePredictionStatus.WIN;
+    const isDraw = prediction.status === GamePredictionStatus.DRAW;
+    const breakdown = prediction.getScoreBreakdown();
+    const metadata: GameScoreMetadata = {
+      scoringVersion: breakdown.version,
+      scoreBreakdown: breakdown,
+      baseScore: breakdown.base,
+      accuracyBonus: breakdown.accuracy,
+      speedBonus: breakdown.speed,
+      streakBonus: breakdown.streak,
+      streakCount: breakdown.streakCount,
+      confidenceBonus: breakdown.confidence,
+      priceChangePercent: prediction.priceChangePercent ?? undefined
+    };
+    const awards: ScoreAward[] = [];
+
+    if (isWin) {
+      const components: Array<[GameScoreType, number, string]> = [
+        [GameScoreType.PREDICTION_WIN, breakdown.base, '예측 성공'],
+        [GameScoreType.PREDICTION_ACCURACY, breakdown.accuracy, '예측 정확도 보너스'],
+        [GameScoreType.SPEED_BONUS, breakdown.speed, '빠른 예측 보너스'],
+        [GameScoreType.STREAK_BONUS, breakdown.streak, `${breakdown.streakCount}연승 보너스`],
+        [GameScoreType.CONFIDENCE_BONUS, breakdown.confidence, '예측 신뢰도 보너스']
+      ];
+
+      for (const [scoreType, points, description] of components) {
+        // 기본 점수 항목은 게임 수/승수 집계 기준이므로 항상 기록
+        if (scoreType === GameScoreType.PREDICTION_WIN || points !== 0) {
+          awards.push({ scoreType, points, description, metadata });
+        }
+      }
+    } else if (isDraw) {
+      awards.push({ scoreType: GameScoreType.PREDICTION_DRAW, points: 0, description: '보합', metadata });
+    } else {
+      awards.push({ scoreType: GameScoreType.PREDICTION_LOSS, points: 0, description: '예측 실패', metadata });
+      if (breakdown.confidence < 0) {
+        awards.push({ scoreType: GameScoreType.PENALTY, points: breakdown.confidence, description: '예측 신뢰도 감점', metadata });
+      }
+    }
+
+    return await this.append(prediction.userId, awards, {
+      gameId: prediction.gameId,
+      predictionId: prediction.id,
+      awardedBy: 'system',
+      result: isWin ? 'win' : isDraw ? 'draw' : 'lose'
+    }, manager);
+  }
+
+  /**
+   * 스테이크 예치
+   * 예측 저장과 같은 트랜잭션에서 호출하며, 잔액이 부족하면 예외
+   */
+  async recordStakeEscrow(prediction: GamePrediction, metadata: GameScoreMetadata, manager: EntityManager): Promise<GameScore | null> {
+    const [entry] = await this.append(prediction.userId, [{
+      scoreType: GameScoreType.STAKE_ESCROW,
+      points: -prediction.stake,
+      description: '예측 스테이크 예치',
+      metadata: { ...metadata, stakeWager: prediction.stake }
+    }], {
+      gameId: prediction.gameId,
+      predictionId: prediction.id,
+      awardedBy: 'system',
+      requireBalance: true
+    }, manager);
+    return entry || null;
+  }
+
+  /**
+   * 스테이크 정산 기록 (배당 또는 반환, 지급액이 없으면 기록하지 않음)
+   */
+  async recordStakeSettlement(
+    prediction: GamePrediction,
+    settlement: StakeSettlement,
+    metadata: GameScoreMetadata,
+    manager: EntityManager
+  ): Promise<GameScore | null> {
+    if (settlement.kind === 'lost' || settlement.amount <= 0) {
+      return null;
+    }
+
+    const [entry] = await this.append(prediction.userId, [{
+      scoreType: settlement.kind === 'payout' ? GameScoreType.STAKE_PAYOUT : GameScoreType.STAKE_REFUND,
+      points: settlement.amount,
+      description: settlement.kind === 'payout' ? '스테이크 배당' : '스테이크 반환',
+      metadata: { ...metadata, stakeWager: settlement.wager }
+    }], {
+      gameId: prediction.gameId,
+      predictionId: prediction.id,
+      awardedBy: 'system'
+    }, manager);
+    return entry || null;
+  }
+
+  /**
+   * 단일 항목 기록 (미션 보상, 관리자 조정, 패널티 등)
+   */
+  async recordAward(
+    userId: string,
+    award: ScoreAward,
+    context: ScoreAwardContext = {},
+    manager?: EntityManager
+  ): Promise<GameScore | null> {
+    const [entry] = await this.append(userId, [award], context, manager);
+    return entry || null;
+  }
+
+  /**
+   * 사용자 점수 원장 조회 (최신순)
+   */
+  async getLedger(userId: string, page: number = 1, limit: number = 20): Promise<{ entries: GameScore[]; total: number }> {
+    const [entries, total] = await this.scoreRepository.findAndCount({
+      where: { userId },
+      order: { createdAt: 'DESC' },
+      skip: (page - 1) * limit,
+      take: limit
+    });
+
+    return { entries, total };
+  }
+
+  /**
+   * 원장 합계로 계산한 사용자 통계
+   */
+  async getBalance(userId: string): Promise<LedgerBalance> {
+    const balances = await this.aggregate([userId]);
+    return balances.get(userId) || { totalScore: 0, gameCount: 0, winCount: 0, winRate: 0 };
+  }
+
+  /**
+   * 원장 기준 사용자 통계 재집계
+   * 저장된 값과 원장 합계를 비교해 차이를 보고하고, apply 시 차이가 있는 사용자만 원장 값으로 갱신
+   * @param userId 특정 사용자만 검사 (생략 시 전체)
+   */
+  async rebuildUserStats(options: { apply?: boolean; userId?: string } = {}): Promise<LedgerRebuildReport> {
+    const report: LedgerRebuildReport = { scannedUsers: 0, driftedUsers: 0, drifts: [], applied: !!options.apply };
+    let fetched = 0;
+
+    do {
+      const users = await this.userRepository.find({
+        select: ['id', 'totalScore', 'gameCount', 'winCount', 'winRate'],
+        where: options.userId ? { id: options.userId } : {},
+        order: { id: 'ASC' },
+        skip: report.scannedUsers,
+        take: USER_PAGE_SIZE
+      });
+
+      fetched = users.length;
+      if (fetched === 0) {
+        break;
+      }
+
+      const balances = await this.aggregate(users.map(user => user.id));
+      const drifted: Array<{ userId: string; balance: LedgerBalance }> = [];
+
+      for (const user of users) {
+        const balance = balances.get(user.id) || { totalScore: 0, gameCount: 0, winCount: 0, winRate: 0 };
+        const drifts = this.compare(user, balance);
+
+        if (drifts.length > 0) {
+          report.drifts.push(...drifts);
+          drifted.push({ userId: user.id, balance });
+        }
+      }
+
+      report.scannedUsers += fetched;
+      report.driftedUsers += drifted.length;
+
+      if (options.apply && drifted.length > 0) {
+        await AppDataSource.transaction(async manager => {
+          for (const { userId, balance } of drifted) {
+            await manager.update(User, { id: userId }, balance);
+          }
+        });
+      }
+    } while (fetched === USER_PAGE_SIZE);
+
+    return report;
+  }
+
+  /**
+   * 원장 항목 추가
+   * 사용자 행을 잠근 뒤 누적 잔액(totalPointsAfter)을 이어서 기록하고 사용자 통계를 갱신
+   */
+  private async append(
+    userId: string,
+    awards: ScoreAward[],
+    context: ScoreAwardContext,
+    manager?: EntityManager
+  ): Promise<GameScore[]> {
+    if (!manager) {
+      return await AppDataSource.transaction(async transactionManager =>
+        this.append(userId, awards, context, transactionManager)
+      );
+    }
+
+    const user = await manager.findOne(User, {
+      where: { id: userId },
+      lock: { mode: 'pessimistic_write' }
+    });
+
+    if (!user) {
+      throw new Error('사용자를 찾을 수 없습니다.');
+    }
+
+    if (context.predictionId) {
+      const recorded = await manager.count(GameScore, {
+        where: { predictionId: context.predictionId, scoreType: In(awards.map(award => award.scoreType)) }
+      });
+      if (recorded > 0) {
+        return [];
+      }
+    }
+
+    let balance = Number(user.totalScore) || 0;
+    const now = new Date();
+    const entries = awards.map(award => {
+      const points = award.multiplier && award.multiplier !== 1
+        ? Math.round(award.points * award.multiplier)
+        : award.points;
+      balance += points;
+
+      return manager.create(GameScore, {
+        userId,
+        gameId: context.gameId,
+        predictionId: context.predictionId,
+        scoreType: award.scoreType,
+        points,
+        totalPointsAfter: Math.round(balance),
+        multiplier: award.multiplier,
+        status: GameScoreStatus.CONFIRMED,
+        description: award.description,
+        awardedBy: context.awardedBy || 'system',
+        metadata: award.metadata,
+        confirmedAt: now
+      });
+    });
+
+    if (context.requireBalance && balance < 0) {
+      throw new Error(INSUFFICIENT_BALANCE_MESSAGE);
+    }
+
+    const saved = await manager.save(GameScore, entries);
+    const earned = saved.reduce((sum, entry) => sum + entry.points, 0);
+
+    user.totalScore = Number(user.totalScore) || 0;
+    if (context.result) {
+      user.updateGameStats(context.result === 'win', earned);
+    } else {
+      user.totalScore += earned;
+    }
+
+    await manager.update(User, { id: userId }, {
+      totalScore: user.totalScore,
+      gameCount: user.gameCount,
+      winCount: user.winCount,
+      winRate: Math.round(user.winRate * 100) / 100,
+      lastGameAt: user.lastGameAt
+    });
+
+    return saved;
+  }
+
+  /**
+   * 사용자별 원장 합계
+   * 확정된 항목만 합산하며, 게임 수/승수는 예측에 연결된 성공/실패/보합 기록으로 계산
+   */
+  private async aggregate(userIds: string[]): Promise<Map<string, LedgerBalance>> {
+    const balances = new Map<string, LedgerBalance>();
+
+    if (userIds.length === 0) {
+      return balances;
+    }
+
+    const rows = await this.scoreRepository
+      .createQueryBuilder('score')
+      .select('score.userId', 'userId')
+      .addSelect('COALESCE(SUM(score.points), 0)', 'totalScore')
+      .addSelect(
+        'COUNT(*) FILTER (WHERE score.scoreType = :win AND score.predictionId IS NOT NULL)',
+        'winCount'
+      )
+      .addSelect(
+        'COUNT(*) FILTER (WHERE score.scoreType IN (:win, :loss, :draw) AND score.predictionId IS NOT NULL)',
+        'gameCount'
+      )
+      .where('score.userId IN (:...userIds)', { userIds })
+      .andWhere('score.status = :status', { status: GameScoreStatus.CONFIRMED })
+      .setParameters({
+        win: GameScoreType.PREDICTION_WIN,
+        loss: GameScoreType.PREDICTION_LOSS,
+        draw: GameScoreType.PREDICTION_DRAW
+      })
+      .groupBy('score.userId')
+      .getRawMany();
+
+    for (const row of rows) {
+      const gameCount = parseInt(row.gameCount);
+      const winCount = parseInt(row.winCount);
+
+      balances.set(row.userId, {
+        totalScore: parseFloat(row.totalScore),
+        gameCount,
+        winCount,
+        winRate: gameCount > 0 ? Math.round(winCount / gameCount * 10000) / 100 : 0
+      });
+    }
+
+    return balances;
+  }
+
+  /**
+   * 저장된 통계와 원장 합계 비교 (소수점 둘째 자리까지)
+   */
+  private compare(user: User, balance: LedgerBalance): ScoreDrift[] {
+    const drifts: ScoreDrift[] = [];
+
+    for (const field of ['totalScore', 'gameCount', 'winCount', 'winRate'] as Array<keyof LedgerBalance>) {
+      const stored = Number(user[field]) || 0;
+      if (Math.abs(stored - balance[field]) >= 0.01) {
+        drifts.push({ userId: user.id, field, stored, ledger: balance[field] });
+      }
+    }
+
+    return drifts;
+  }
+}
+
+export default ScoreLedgerService;
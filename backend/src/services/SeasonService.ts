@@ -0,0 +1,494 @@
+// src/services/SeasonService.ts
+
+import { createHash } from 'crypto';
+import { In, LessThanOrEqual, Repository } from 'typeorm';
+import { AppDataSource } from '../config/database';
+import { airdropTokens } from '../config/blockchain';
+import { DEFAULT_REWARD_TIERS, DEFAULT_TIE_BREAKERS } from '../config/reward';
+import { Season, SeasonStatus } from '../models/Season';
+import { SeasonStanding } from '../models/SeasonStanding';
+import { Ranking, RankingPeriod } from '../models/Ranking';
+import { RewardTable, RewardTierDefinition, RewardTieBreaker, RewardTokenAmount } from '../models/RewardTable';
+import { GamePrediction, GamePredictionStatus } from '../models/GamePrediction';
+import { PRACTICE_GAME_TYPE } from '../models/Game';
+import { RewardTableService } from './RewardTableService';
+
+/**
+ * 시즌 생성 요청
+ */
+export interface CreateSeasonInput {
+  name: string;
+  startDate: Date;
+  endDate: Date;
+  description?: string;
+  tiers?: RewardTierDefinition[];
+  tieBreakers?: RewardTieBreaker[];
+}
+
+/**
+ * 시즌 순위 항목 (진행 중 시즌은 실시간 집계, 종료된 시즌은 스냅샷)
+ */
+export interface SeasonStandingEntry {
+  rank: number;
+  userId: string;
+  totalScore: number;
+  totalGames: number;
+  winCount: number;
+  loseCount: number;
+  drawCount: number;
+  winRate: number;
+  lastScoredAt: Date | null;
+  rewardTier: number | null;
+  rewards: RewardTokenAmount[];
+}
+
+/**
+ * 시즌 서비스
+ * 시즌 생성/상태 전환 및 종료 시 최종 순위 스냅샷 생성
+ */
+export class SeasonService {
+  private seasonRepository: Repository<Season>;
+  private standingRepository: Repository<SeasonStanding>;
+  private predictionRepository: Repository<GamePrediction>;
+  private rewardTableService: RewardTableService;
+
+  constructor() {
+    this.seasonRepository = AppDataSource.getRepository(Season);
+    this.standingRepository = AppDataSource.getRepository(SeasonStanding);
+    this.predictionRepository = AppDataSource.getRepository(GamePrediction);
+    this.rewardTableService = new RewardTableService();
+  }
+
+  /**
+   * 시작 시각이 지난 예정 시즌을 진행 중으로 전환
+   */
+  async syncLifecycle(now: Date = new Date()): Promise<void> {
+    await this.seasonRepository.update(
+      { status: SeasonStatus.SCHEDULED, startDate: LessThanOrEqual(now) },
+      { status: SeasonStatus.ACTIVE }
+    );
+  }
+
+  /**
+   * 진행 중인 시즌 수
+   */
+  async countActive(): Promise<number> {
+    await this.syncLifecycle();
+    return await this.seasonRepository.count({ where: { status: SeasonStatus.ACTIVE } });
+  }
+
+  /**
+   * 현재 시즌 조회
+   * 진행 중 → 순위 확정 중 → 다음 예정 시즌 순서로 찾음
+   */
+  async getCurrentSeason(): Promise<Season | null> {
+    await this.syncLifecycle();
+
+    for (const status of [SeasonStatus.ACTIVE, SeasonStatus.FINALIZING]) {
+      const season = await this.seasonRepository.findOne({
+        where: { status },
+        order: { startDate: 'DESC' }
+      });
+      if (season) {
+        return season;
+      }
+    }
+
+    return await this.seasonRepository.findOne({
+      where: { status: SeasonStatus.SCHEDULED },
+      order: { startDate: 'ASC' }
+    });
+  }
+
+  /**
+   * 시즌 조회
+   */
+  async getSeason(seasonId: string): Promise<Season | null> {
+    await this.syncLifecycle();
+    return await this.seasonRepository.findOne({ where: { id: seasonId } });
+  }
+
+  /**
+   * 시즌 목록 조회 (최신순)
+   */
+  async getSeasonHistory(page: number, limit: number): Promise<{ seasons: Season[]; total: number }> {
+    await this.syncLifecycle();
+
+    const [seasons, total] = await this.seasonRepository.findAndCount({
+      order: { startDate: 'DESC' },
+      skip: (page - 1) * limit,
+      take: limit
+    });
+
+    return { seasons, total };
+  }
+
+  /**
+   * 가장 최근에 종료된 시즌
+   */
+  async getLatestClosedSeason(): Promise<Season | null> {
+    return await this.seasonRepository.findOne({
+      where: { status: SeasonStatus.CLOSED },
+      order: { endDate: 'DESC' }
+    });
+  }
+
+  /**
+   * 시즌 보상 테이블 조회
+   */
+  async getRewardTable(season: Season): Promise<RewardTable> {
+    return await this.rewardTableService.getActiveTable(RankingPeriod.SEASON, season.periodKey);
+  }
+
+  /**
+   * 시즌 생성 (시즌 전용 보상 테이블 함께 생성)
+   * 종료되지 않은 다른 시즌과 기간이 겹치면 생성할 수 없음
+   */
+  async createSeason(input: CreateSeasonInput, adminId?: string): Promise<Season> {
+    const startDate = new Date(input.startDate);
+    const endDate = new Date(input.endDate);
+
+    if (isNaN(startDate.getTime()) || isNaN(endDate.getTime()) || endDate <= startDate) {
+      throw new Error('시즌 종료일은 시작일 이후여야 합니다.');
+    }
+
+    const tiers = input.tiers || DEFAULT_REWARD_TIERS;
+    const tieBreakers = input.tieBreakers || DEFAULT_TIE_BREAKERS;
+    const errors = RewardTable.validate(tiers, tieBreakers, Object.keys(airdropTokens));
+    if (errors.length > 0) {
+      throw new Error(`보상 테이블이 올바르지 않습니다: ${errors.join(' ')}`);
+    }
+
+    const overlapping = await this.seasonRepository
+      .createQueryBuilder('season')
+      .where('season.status != :closed', { closed: SeasonStatus.CLOSED })
+      .andWhere('season.startDate < :endDate', { endDate })
+      .andWhere('season.endDate > :startDate', { startDate })
+      .getOne();
+
+    if (overlapping) {
+      throw new Error(`기간이 겹치는 시즌이 있습니다: ${overlapping.name}`);
+    }
+
+    const latest = await this.seasonRepository.findOne({ where: {}, order: { number: 'DESC' } });
+    const number = (latest?.number || 0) + 1;
+
+    const season = await this.seasonRepository.save(
+      this.seasonRepository.create({
+        number,
+        name: input.name,
+        description: input.description,
+        status: startDate.getTime() <= Date.now() ? SeasonStatus.ACTIVE : SeasonStatus.SCHEDULED,
+        startDate,
+        endDate,
+        periodKey: `S${number}`,
+        createdBy: adminId
+      })
+    );
+
+    try {
+      const table = await this.rewardTableService.createTable(
+        {
+          name: `${input.name} 보상`,
+          period: RankingPeriod.SEASON,
+          periodKey: season.periodKey,
+          tiers,
+          tieBreakers
+        },
+        adminId
+      );
+
+      season.rewardTableId = table.id;
+      return await this.seasonRepository.save(season);
+    } catch (error) {
+      await this.seasonRepository.delete(season.id);
+      throw error;
+    }
+  }
+
+  /**
+   * 시즌 종료 및 최종 순위 스냅샷 생성
+   * ACTIVE → FINALIZING 으로 선점한 뒤 하나의 트랜잭션에서
+   * 시즌 랭킹(에어드롭 지급 대상) 기록, 순위 스냅샷 저장, CLOSED 전환을 수행
+   * @param force 종료 시각 전이라도 즉시 종료 (종료일을 현재 시각으로 변경)
+   */
+  async closeSeason(seasonId: string, adminId?: string, force: boolean = false): Promise<Season> {
+    const season = await this.getSeason(seasonId);
+
+    if (!season) {
+      throw new Error('시즌을 찾을 수 없습니다.');
+    }
+    if (season.status === SeasonStatus.CLOSED) {
+      throw new Error('이미 종료된 시즌입니다.');
+    }
+    if (season.status === SeasonStatus.SCHEDULED) {
+      throw new Error('시작되지 않은 시즌은 종료할 수 없습니다.');
+    }
+    if (!season.hasEnded && !force) {
+      throw new Error('시즌 종료 시각 전입니다. 즉시 종료하려면 force 옵션을 사용하세요.');
+    }
+
+    const endDate = season.hasEnded ? season.endDate : new Date();
+    const claim = await this.seasonRepository.update(
+      {
+        id: season.id,
+        status: force ? In([SeasonStatus.ACTIVE, SeasonStatus.FINALIZING]) : SeasonStatus.ACTIVE
+      },
+      { status: SeasonStatus.FINALIZING, endDate }
+    );
+
+    if (!claim.affected) {
+      throw new Error('다른 작업에서 시즌을 종료하는 중입니다.');
+    }
+    season.endDate = endDate;
+
+    try {
+      const table = await this.getRewardTable(season);
+      const standings = await this.computeStandings(season, table);
+      const snapshotHash = this.hashStandings(season, standings);
+
+      await AppDataSource.transaction(async manager => {
+        if (standings.length > 0) {
+          // 시즌 랭킹 (에어드롭 지급 대상, rank 는 스냅샷 순위)
+          await manager.getRepository(Ranking).upsert(
+            standings.map(entry => ({
+              userId: entry.userId,
+              period: RankingPeriod.SEASON,
+              periodKey: season.periodKey,
+              rank: entry.rank,
+              totalScore: entry.totalScore,
+              averageScore: entry.totalGames > 0 ? Math.round(entry.totalScore / entry.totalGames * 100) / 100 : 0,
+              totalGames: entry.totalGames,
+              winCount: entry.winCount,
+              loseCount: entry.loseCount,
+              drawCount: entry.drawCount,
+              winRate: entry.winRate,
+              currentStreak: 0,
+              bestStreak: 0,
+              airdropAmount: 0,
+              periodStart: season.startDate,
+              periodEnd: season.endDate,
+              isActive: false
+            })),
+            ['userId', 'period', 'periodKey']
+          );
+
+          const rows = standings.map(entry => manager.create(SeasonStanding, {
+            seasonId: season.id,
+            userId: entry.userId,
+            rank: entry.rank,
+            totalScore: entry.totalScore,
+            totalGames: entry.totalGames,
+            winCount: entry.winCount,
+            loseCount: entry.loseCount,
+            drawCount: entry.drawCount,
+            winRate: entry.winRate,
+            rewardTier: entry.rewardTier ?? undefined,
+            rewards: entry.rewards.length > 0 ? entry.rewards : undefined
+          }));
+          await manager.save(SeasonStanding, rows, { chunk: 500 });
+        }
+
+        await manager.update(Season, { id: season.id }, {
+          status: SeasonStatus.CLOSED,
+          closedAt: new Date(),
+          closedBy: adminId,
+          participantCount: standings.length,
+          snapshotHash,
+          rewardTableId: table.id
+        });
+      });
+    } catch (error) {
+      await this.seasonRepository.update(
+        { id: season.id, status: SeasonStatus.FINALIZING },
+        { status: SeasonStatus.ACTIVE }
+      );
+      throw error;
+    }
+
+    return await this.seasonRepository.findOneOrFail({ where: { id: season.id } });
+  }
+
+  /**
+   * 시즌 순위 조회
+   * 종료된 시즌은 스냅샷, 진행 중인 시즌은 실시간 집계
+   */
+  async getLeaderboard(
+    season: Season,
+    limit: number,
+    offset: number
+  ): Promise<{ final: boolean; total: number; entries: object[]; snapshotVerified?: boolean }> {
+    if (season.status === SeasonStatus.CLOSED) {
+      const [standings, total] = await this.standingRepository.findAndCount({
+        where: { seasonId: season.id },
+        relations: ['user'],
+        order: { rank: 'ASC' },
+        skip: offset,
+        take: limit
+      });
+
+      return {
+        final: true,
+        total,
+        entries: standings.map(standing => standing.toJSON()),
+        snapshotVerified: await this.verifySnapshot(season)
+      };
+    }
+
+    const table = await this.getRewardTable(season);
+    const standings = await this.computeStandings(season, table);
+
+    return {
+      final: false,
+      total: standings.length,
+      entries: standings.slice(offset, offset + limit)
+    };
+  }
+
+  /**
+   * 저장된 스냅샷이 종료 시점의 해시와 일치하는지 확인
+   */
+  async verifySnapshot(season: Season): Promise<boolean> {
+    if (!season.snapshotHash) {
+      return false;
+    }
+
+    const standings = await this.standingRepository.find({
+      where: { seasonId: season.id },
+      order: { rank: 'ASC' }
+    });
+
+    const entries: SeasonStandingEntry[] = standings.map(standing => ({
+      rank: standing.rank,
+      userId: standing.userId,
+      totalScore: Number(standing.totalScore),
+      totalGames: standing.totalGames,
+      winCount: standing.winCount,
+      loseCount: standing.loseCount,
+      drawCount: standing.drawCount,
+      winRate: Number(standing.winRate),
+      lastScoredAt: null,
+      rewardTier: standing.rewardTier ?? null,
+      rewards: standing.rewards || []
+    }));
+
+    return this.hashStandings(season, entries) === season.snapshotHash;
+  }
+
+  /**
+   * 시즌 기간 내 확정된 예측으로 순위 집계 (연습 게임 제외, 총점은 라운드 등급 가중 점수)
+   * 총점 내림차순 → 보상 테이블의 동점자 규칙 → 사용자 ID 순
+   */
+  private async computeStandings(season: Season, table: RewardTable): Promise<SeasonStandingEntry[]> {
+    const rows = await this.predictionRepository
+      .createQueryBuilder('prediction')
+      .innerJoin('prediction.game', 'game')
+      .select('prediction.userId', 'userId')
+      // 랭킹과 같은 등급 가중 점수 (GamePrediction.rankingPoints, Math.round 와 같은 반올림)
+      .addSelect(
+        'COALESCE(SUM(FLOOR(prediction.scoreEarned * COALESCE((prediction.metadata->>\'rankingMultiplier\')::numeric, 1) + 0.5)), 0)',
+        'totalScore'
+      )
+      .addSelect('COUNT(*)', 'totalGames')
+      .addSelect('SUM(CASE WHEN prediction.status = :win THEN 1 ELSE 0 END)', 'winCount')
+      .addSelect('SUM(CASE WHEN prediction.status = :lose THEN 1 ELSE 0 END)', 'loseCount')
+      .addSelect('SUM(CASE WHEN prediction.status = :draw THEN 1 ELSE 0 END)', 'drawCount')
+      // 랭킹의 scoreReachedAt 과 같이 점수를 얻은 정산 시각만 (0점·감점 결과는 도달 시각을 늦추지 않음)
+      .addSelect('MAX(CASE WHEN prediction.scoreEarned > 0 THEN prediction.resolvedAt END)', 'lastScoredAt')
+      .where('prediction.status IN (:...statuses)', {
+        statuses: [GamePredictionStatus.WIN, GamePredictionStatus.LOSE, GamePredictionStatus.DRAW]
+      })
+      .andWhere('prediction.resolvedAt >= :startDate', { startDate: season.startDate })
+      .andWhere('prediction.resolvedAt < :endDate', { endDate: season.endDate })
+      .andWhere('game.gameType != :practice', { practice: PRACTICE_GAME_TYPE })
+      .setParameters({ win: GamePredictionStatus.WIN, lose: GamePredictionStatus.LOSE, draw: GamePredictionStatus.DRAW })
+      .groupBy('prediction.userId')
+      .getRawMany();
+
+    const entries = rows.map(row => {
+      const totalGames = parseInt(row.totalGames);
+      const winCount = parseInt(row.winCount || '0');
+
+      return {
+        rank: 0,
+        userId: row.userId as string,
+        totalScore: parseFloat(row.totalScore),
+        totalGames,
+        winCount,
+        loseCount: parseInt(row.loseCount || '0'),
+        drawCount: parseInt(row.drawCount || '0'),
+        winRate: totalGames > 0 ? Math.round(winCount / totalGames * 10000) / 100 : 0,
+        lastScoredAt: row.lastScoredAt ? new Date(row.lastScoredAt) : null,
+        rewardTier: null as number | null,
+        rewards: [] as RewardTokenAmount[]
+      };
+    });
+
+    entries.sort((a, b) => {
+      if (b.totalScore !== a.totalScore) {
+        return b.totalScore - a.totalScore;
+      }
+      for (const tieBreaker of table.tieBreakers) {
+        const diff = this.compareTie(tieBreaker, a, b);
+        if (diff !== 0) {
+          return diff;
+        }
+      }
+      return a.userId.localeCompare(b.userId);
+    });
+
+    entries.forEach((entry, index) => {
+      entry.rank = index + 1;
+      const tier = table.getTierForRank(entry.rank);
+      entry.rewardTier = tier ? tier.tier : null;
+      entry.rewards = tier ? tier.rewards : [];
+    });
+
+    return entries;
+  }
+
+  /**
+   * 동점자 규칙 비교 (음수면 a 가 앞 순위)
+   * 시즌 집계에는 연승 기록이 없으므로 BEST_STREAK 는 건너뜀
+   */
+  private compareTie(tieBreaker: RewardTieBreaker, a: SeasonStandingEntry, b: SeasonStandingEntry): number {
+    switch (tieBreaker) {
+      case RewardTieBreaker.HIGHER_WIN_RATE:
+        return b.winRate - a.winRate;
+      case RewardTieBreaker.MORE_GAMES:
+        return b.totalGames - a.totalGames;
+      case RewardTieBreaker.FEWER_GAMES:
+        return a.totalGames - b.totalGames;
+      case RewardTieBreaker.EARLIEST_REACHED:
+        return (a.lastScoredAt?.getTime() ?? Infinity) - (b.lastScoredAt?.getTime() ?? Infinity) || 0;
+      default:
+        return 0;
+    }
+  }
+
+  /**
+   * 최종 순위 스냅샷 해시 (시즌 정보 + 순위별 결과)
+   */
+  private hashStandings(season: Season, standings: SeasonStandingEntry[]): string {
+    const payload = JSON.stringify({
+      seasonId: season.id,
+      periodKey: season.periodKey,
+      standings: standings.map(entry => [
+        entry.rank,
+        entry.userId,
+        entry.totalScore.toFixed(2),
+        entry.totalGames,
+        entry.winCount,
+        entry.loseCount,
+        entry.drawCount,
+        entry.winRate.toFixed(2),
+        entry.rewardTier,
+        entry.rewards.map(reward => `${reward.amount} ${reward.token}`)
+      ])
+    });
+
+    return createHash('sha256').update(payload).digest('hex');
+  }
+}
+
+export default SeasonService;
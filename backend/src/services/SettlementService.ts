@@ -0,0 +1,248 @@
+// src/services/SettlementService.ts
+
+import { createHash } from 'crypto';
+import { EntityManager, In, Repository } from 'typeorm';
+import { HDNodeWallet, Wallet, verifyMessage } from 'ethers';
+import { AppDataSource } from '../config/database';
+import { settlementSignerConfig, SettlementSignerConfig } from '../config/game';
+import { Game } from '../models/Game';
+import { GamePrediction, GamePredictionStatus, GamePredictionType } from '../models/GamePrediction';
+import { SettlementPriceKind, SettlementRecord } from '../models/SettlementRecord';
+import { logger } from '../utils/logger';
+import { SymbolPrice } from './PriceService';
+
+// 해시 체인 순번 발급용 트랜잭션 잠금 키
+const SETTLEMENT_CHAIN_LOCK = 72410901;
+
+// 종료 가격 기록 시점에 채점 대상인 예측 상태 (정산 후에는 판정 결과로 바뀜)
+const JUDGED_PREDICTION_STATUSES = [
+  GamePredictionStatus.PENDING,
+  GamePredictionStatus.WIN,
+  GamePredictionStatus.LOSE,
+  GamePredictionStatus.DRAW
+];
+
+// 서명 키 미설정 시 프로세스 안의 모든 인스턴스가 공유하는 임시 키
+let ephemeralSigner: HDNodeWallet | null = null;
+
+/**
+ * 정산 기록 검증 결과
+ */
+export interface SettlementVerification {
+  hashValid: boolean;       // 저장된 내용으로 다시 계산한 해시와 일치
+  signatureValid: boolean;  // 서명이 기록된 서명 주소와 일치
+  chainValid: boolean;      // 직전 기록의 해시와 연결됨
+  signerTrusted: boolean;   // 현재 서버의 서명 주소와 일치
+  predictionsValid: boolean | null; // 현재 예측의 판정 근거가 종료 기록의 해시와 일치 (근거 해시가 없는 기록은 null)
+}
+
+/**
+ * 예측 판정 근거 (예측은 종료 정산 가격을 이 기준 가격과 비교해 판정)
+ */
+export interface PredictionBasis {
+  predictionId: string;
+  predictionType: GamePredictionType;
+  predictionPrice: number;
+  submittedAt: Date; // 접수 시각 (기준 가격을 정한 시각)
+}
+
+/**
+ * 정산 가격 기록 서비스
+ * 라운드 시작/종료 가격을 오라클 소스별 조회 기록과 함께 저장하고,
+ * 직전 기록 해시를 포함한 SHA-256 해시에 서명해 변조를 검증할 수 있게 함
+ */
+export class SettlementService {
+  private recordRepository: Repository<SettlementRecord>;
+  private signer: Wallet | HDNodeWallet;
+
+  constructor(config: SettlementSignerConfig = settlementSignerConfig) {
+    this.recordRepository = AppDataSource.getRepository(SettlementRecord);
+
+    if (config.privateKey) {
+      this.signer = new Wallet(config.privateKey);
+    } else if (config.allowEphemeral) {
+      if (!ephemeralSigner) {
+        ephemeralSigner = Wallet.createRandom();
+        logger.warn(`SETTLEMENT_SIGNER_PRIVATE_KEY 미설정: 임시 정산 서명 키 사용 (${ephemeralSigner.address})`);
+      }
+      this.signer = ephemeralSigner;
+    } else {
+      throw new Error('SETTLEMENT_SIGNER_PRIVATE_KEY 가 설정되지 않았습니다. (임시 서명 키는 development/test 환경에서만 사용)');
+    }
+
+    if (config.address && config.address.toLowerCase() !== this.signer.address.toLowerCase()) {
+      throw new Error(`SETTLEMENT_SIGNER_ADDRESS(${config.address}) 가 서명 키의 주소(${this.signer.address})와 다릅니다.`);
+    }
+  }
+
+  /**
+   * 정산 기록 서명 주소
+   */
+  getSignerAddress(): string {
+    return this.signer.address;
+  }
+
+  /**
+   * 정산 가격 기록
+   * 게임 상태 전환과 같은 트랜잭션에서 호출해야 함 (이미 기록된 게임/종류면 기존 기록 반환)
+   * 종료 기록에는 채점 대상 예측의 판정 근거 해시를 함께 서명
+   */
+  async record(
+    manager: EntityManager,
+    game: Game,
+    kind: SettlementPriceKind,
+    price: SymbolPrice,
+    scheduledAt: Date
+  ): Promise<SettlementRecord> {
+    // 순번과 previousHash 가 갈라지지 않도록 체인 끝 조회부터 저장까지 직렬화
+    await manager.query('SELECT pg_advisory_xact_lock($1)', [SETTLEMENT_CHAIN_LOCK]);
+
+    const existing = await manager.findOne(SettlementRecord, { where: { gameId: game.id, kind } });
+    if (existing) {
+      return existing;
+    }
+
+    const [last] = await manager.find(SettlementRecord, { order: { sequence: 'DESC' }, take: 1 });
+
+    const record = manager.create(SettlementRecord, {
+      sequence: last ? last.sequence + 1 : 1,
+      gameId: game.id,
+      kind,
+      symbol: game.symbol,
+      price: Number(Number(price.price).toFixed(8)),
+      scheduledAt,
+      observedAt: new Date(price.timestamp),
+      aggregationMethod: price.method,
+      quotes: price.sources,
+      predictionsHash: kind === SettlementPriceKind.END
+        ? SettlementService.hashPredictionBasis(await this.findPredictionBasis(manager, game.id))
+        : undefined,
+      previousHash: last?.hash,
+      signer: this.signer.address
+    });
+
+    record.hash = SettlementService.hashRecord(record);
+    record.signature = this.signer.signMessageSync(record.hash);
+
+    return await manager.save(record);
+  }
+
+  /**
+   * 게임의 정산 기록 조회 (시작 → 종료 순) 및 검증
+   * 종료 기록의 근거 해시와 비교할 현재 예측 판정 근거도 함께 반환
+   */
+  async getGameRecords(gameId: string): Promise<{
+    records: Array<{ record: SettlementRecord; verification: SettlementVerification }>;
+    predictions: PredictionBasis[];
+  }> {
+    const records = await this.recordRepository.find({
+      where: { gameId },
+      order: { sequence: 'ASC' }
+    });
+    const predictions = await this.findPredictionBasis(this.recordRepository.manager, gameId);
+    const predictionsHash = SettlementService.hashPredictionBasis(predictions);
+
+    const results: Array<{ record: SettlementRecord; verification: SettlementVerification }> = [];
+    for (const record of records) {
+      const previous = record.sequence > 1
+        ? await this.recordRepository.findOne({ where: { sequence: record.sequence - 1 } })
+        : null;
+      results.push({ record, verification: this.verify(record, previous, predictionsHash) });
+    }
+
+    return { records: results, predictions };
+  }
+
+  /**
+   * 게임의 예측 판정 근거 조회 (예측 ID 순)
+   */
+  private async findPredictionBasis(manager: EntityManager, gameId: string): Promise<PredictionBasis[]> {
+    const predictions = await manager.find(GamePrediction, {
+      select: ['id', 'predictionType', 'predictionPrice', 'metadata', 'createdAt'],
+      where: { gameId, status: In(JUDGED_PREDICTION_STATUSES) },
+      order: { id: 'ASC' }
+    });
+
+    return predictions.map(prediction => ({
+      predictionId: prediction.id,
+      predictionType: prediction.predictionType,
+      predictionPrice: Number(prediction.predictionPrice),
+      submittedAt: new Date(prediction.metadata?.predictionTimestamp ?? prediction.createdAt.getTime())
+    }));
+  }
+
+  /**
+   * 단일 기록 검증
+   * @param previous 직전 순번 기록 (첫 기록이면 null)
+   * @param predictionsHash 현재 예측 판정 근거의 해시 (종료 기록의 근거 해시와 비교)
+   */
+  verify(record: SettlementRecord, previous: SettlementRecord | null, predictionsHash?: string): SettlementVerification {
+    let signatureValid = false;
+    try {
+      signatureValid = verifyMessage(record.hash, record.signature).toLowerCase() === record.signer.toLowerCase();
+    } catch {
+      signatureValid = false;
+    }
+
+    return {
+      hashValid: SettlementService.hashRecord(record) === record.hash,
+      signatureValid,
+      chainValid: previous ? record.previousHash === previous.hash : !record.previousHash,
+      signerTrusted: record.signer.toLowerCase() === this.signer.address.toLowerCase(),
+      predictionsValid: record.predictionsHash ? record.predictionsHash === predictionsHash : null
+    };
+  }
+
+  /**
+   * 기록 해시 (SHA-256)
+   * 필드 순서를 고정한 배열로 직렬화하며, 가격은 소수점 8자리 문자열, 시각은 ISO 문자열 사용
+   * 예측 판정 근거 해시는 있을 때만 포함 (근거 해시 도입 전 기록의 해시는 그대로 검증됨)
+   */
+  static hashRecord(record: SettlementRecord): string {
+    const payload = JSON.stringify([
+      record.sequence,
+      record.gameId,
+      record.kind,
+      record.symbol,
+      Number(record.price).toFixed(8),
+      new Date(record.scheduledAt).toISOString(),
+      new Date(record.observedAt).toISOString(),
+      record.aggregationMethod,
+      (record.quotes || []).map(quote => [
+        quote.provider,
+        quote.price ?? null,
+        quote.change24h ?? null,
+        quote.latency,
+        quote.accepted,
+        quote.deviationPercent ?? null,
+        quote.error ?? null
+      ]),
+      record.previousHash ?? null,
+      record.signer.toLowerCase(),
+      ...(record.predictionsHash ? [record.predictionsHash] : [])
+    ]);
+
+    return createHash('sha256').update(payload).digest('hex');
+  }
+
+  /**
+   * 예측 판정 근거 해시 (SHA-256)
+   * 예측 ID 순으로 [예측 ID, 방향, 기준 가격(소수점 8자리), 접수 시각(ISO)] 배열을 직렬화
+   */
+  static hashPredictionBasis(predictions: PredictionBasis[]): string {
+    const payload = JSON.stringify(
+      [...predictions]
+        .sort((a, b) => (a.predictionId < b.predictionId ? -1 : 1))
+        .map(basis => [
+          basis.predictionId,
+          basis.predictionType,
+          Number(basis.predictionPrice).toFixed(8),
+          new Date(basis.submittedAt).toISOString()
+        ])
+    );
+
+    return createHash('sha256').update(payload).digest('hex');
+  }
+}
+
+export default SettlementService;
@@ -0,0 +1,376 @@
+/**
+ * SimMarket - 시드 기반 시뮬레이션 시장
+ * PRICE_PROVIDER=sim 일 때 PriceOracle 의 sim 제공자가 이 가격 경로를 현재가/과거 캔들로 제공
+ *
+ * 가격은 시작 시각부터 tickMs 걸음마다 한 번씩 움직이며, 각 걸음의 난수는 (시드, 심볼, 걸음 번호)만으로 정해지므로
+ * 같은 시드·시작 시각·시나리오 스크립트면 어느 프로세스에서 언제 조회해도 같은 시각의 가격이 같음
+ * 실행 중 추가한 시나리오(가격 설정, 변동성, 급등/급락/고정)는 현재 걸음 이후 경로만 바꿈
+ *
+ * 경로는 1024 걸음마다 체크포인트를 남겨 두고, 조회 시 가장 가까운 체크포인트부터 계산
+ */
+
+import { simMarketConfig, SimMarketConfig, SimScenarioType, SimSymbolConfig } from '../config/simMarket';
+import { CandleInterval, CANDLE_INTERVAL_MS, PriceCandle } from '../models/PriceCandle';
+import { AppError } from '../middlewares/errorHandler';
+import { logger } from '../utils/logger';
+import { ProviderCandle, ProviderQuote } from './PriceOracle';
+
+/**
+ * 시나리오 (시작/종료는 걸음 번호, 종료 걸음은 포함하지 않음)
+ */
+export interface SimScenario {
+  id: string;
+  symbol: string;
+  type: SimScenarioType;
+  magnitude: number;
+  startStep: number;
+  endStep: number;
+  scripted: boolean;      // SIM_MARKET_SCENARIOS 로 예약된 시나리오
+}
+
+/**
+ * 실행 중 시나리오 추가 입력
+ */
+export interface SimScenarioInput {
+  symbol: string;
+  type: SimScenarioType;
+  magnitude?: number;
+  durationMs: number;
+  startInMs?: number;     // 지금부터 몇 밀리초 뒤에 시작 (기본 0)
+}
+
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const CHECKPOINT_STEPS = 1024;
+const MAX_CANDLE_SAMPLES = 120;
+
+interface SymbolPath {
+  config: SimSymbolConfig;
+  key: number;                          // 시드와 심볼로 만든 난수 키
+  checkpoints: Map<number, number>;     // 걸음 번호 → 가격 (CHECKPOINT_STEPS 배수)
+  cursor: { step: number; price: number };
+}
+
+export class SimMarket {
+  private static instance: SimMarket;
+
+  private paths = new Map<string, SymbolPath>();
+  private scenarios: SimScenario[] = [];
+  private sequence = 0;
+
+  private constructor(private readonly config: SimMarketConfig = simMarketConfig) {
+    for (const symbol of config.symbols) {
+      this.paths.set(symbol.symbol, {
+        config: symbol,
+        key: hashString(`${config.seed}:${symbol.symbol}`),
+        checkpoints: new Map([[0, symbol.initialPrice]]),
+        cursor: { step: 0, price: symbol.initialPrice }
+      });
+    }
+
+    for (const script of config.scenarios) {
+      if (!this.paths.has(script.symbol)) continue;
+      const startStep = Math.floor(script.startOffsetMs / config.tickMs);
+      this.scenarios.push({
+        id: `script_${this.scenarios.length + 1}`,
+        symbol: script.symbol,
+        type: script.type,
+        magnitude: script.magnitude,
+        startStep,
+        endStep: startStep + Math.max(1, Math.round(script.durationMs / config.tickMs)),
+        scripted: true
+      });
+    }
+  }
+
+  /**
+   * 싱글톤 인스턴스 반환
+   */
+  public static getInstance(): SimMarket {
+    if (!SimMarket.instance) {
+      SimMarket.instance = new SimMarket();
+    }
+    return SimMarket.instance;
+  }
+
+  public isEnabled(): boolean {
+    return this.config.enabled;
+  }
+
+  public supports(symbol: string): boolean {
+    return this.paths.has(symbol.toUpperCase());
+  }
+
+  /**
+   * 현재가와 24시간 변화율
+   */
+  public getQuote(symbol: string, time: number = Date.now()): ProviderQuote {
+    const price = this.priceAt(symbol, time);
+    const previous = this.priceAt(symbol, time - DAY_MS);
+    return { price, change24h: (price - previous) / previous * 100 };
+  }
+
+  /**
+   * 시각의 가격 (시작 시각 이전은 초기 가격)
+   */
+  public priceAt(symbol: string, time: number): number {
+    return this.priceAtStep(this.getPath(symbol), this.stepOf(time));
+  }
+
+  /**
+   * 과거 캔들 (시작 시각 이후이면서 이미 끝난 캔들만, 거래량은 0)
+   * 캔들 안의 걸음을 최대 MAX_CANDLE_SAMPLES 개 골라 고가/저가를 정함
+   */
+  public getCandles(symbol: string, interval: CandleInterval, start: number, end: number, now: number = Date.now()): ProviderCandle[] {
+    const path = this.getPath(symbol);
+    const length = CANDLE_INTERVAL_MS[interval];
+    const candles: ProviderCandle[] = [];
+
+    for (
+      let openTime = PriceCandle.floorTime(Math.max(start, this.config.startTime), interval);
+      openTime < end && openTime + length <= now;
+      openTime += length
+    ) {
+      if (openTime < start) continue;
+      const firstStep = Math.max(0, this.stepOf(openTime));
+      const lastStep = this.stepOf(openTime + length) - 1;
+      if (lastStep < firstStep) continue;
+
+      const stride = Math.max(1, Math.ceil((lastStep - firstStep + 1) / MAX_CANDLE_SAMPLES));
+      const open = this.priceAtStep(path, firstStep);
+      let high = open;
+      let low = open;
+      for (let step = firstStep + stride; step < lastStep; step += stride) {
+        const price = this.priceAtStep(path, step);
+        high = Math.max(high, price);
+        low = Math.min(low, price);
+      }
+      const close = this.priceAtStep(path, lastStep);
+      candles.push({ openTime, open, high: Math.max(high, close), low: Math.min(low, close), close, volume: 0 });
+    }
+
+    return candles;
+  }
+
+  /**
+   * 시나리오 추가 (현재 걸음 이후에만 적용)
+   */
+  public addScenario(input: SimScenarioInput): SimScenario {
+    const path = this.getPath(input.symbol);
+    const type = input.type;
+    const magnitude = Number(input.magnitude) || 0;
+
+    if (!['spike', 'crash', 'flat', 'volatile'].includes(type)) {
+      throw new AppError('지원하지 않는 시나리오입니다. (spike, crash, flat, volatile)', 400);
+    }
+    if (!(Number(input.durationMs) > 0)) {
+      throw new AppError('시나리오 지속 시간은 0 보다 커야 합니다.', 400);
+    }
+    if ((type === 'spike' || type === 'volatile') && magnitude <= 0) {
+      throw new AppError('시나리오 크기(%)는 0 보다 커야 합니다.', 400);
+    }
+    if (type === 'crash' && (magnitude <= 0 || magnitude >= 100)) {
+      throw new AppError('급락 크기(%)는 0 보다 크고 100 보다 작아야 합니다.', 400);
+    }
+
+    const startStep = this.stepOf(Date.now() + Math.max(0, Number(input.startInMs) || 0));
+    const scenario: SimScenario = {
+      id: `sim_${Date.now()}_${++this.sequence}`,
+      symbol: path.config.symbol,
+      type,
+      magnitude,
+      startStep: Math.max(0, startStep),
+      endStep: Math.max(0, startStep) + Math.max(1, Math.round(Number(input.durationMs) / this.config.tickMs)),
+      scripted: false
+    };
+
+    this.invalidate(path, scenario.startStep);
+    this.scenarios.push(scenario);
+    logger.info(`시뮬레이션 시나리오 추가: ${scenario.symbol} ${type} ${magnitude}% (${scenario.id})`);
+    return scenario;
+  }
+
+  /**
+   * 다음 걸음에서 가격이 목표 가격이 되도록 한 걸음짜리 급등/급락 시나리오 추가
+   */
+  public setPrice(symbol: string, price: number): SimScenario {
+    if (!(price > 0)) {
+      throw new AppError('가격은 0 보다 커야 합니다.', 400);
+    }
+    const current = this.priceAt(symbol, Date.now());
+    const change = (price / current - 1) * 100;
+
+    return this.addScenario({
+      symbol,
+      type: change >= 0 ? 'spike' : 'crash',
+      magnitude: Math.abs(change) || Number.EPSILON,
+      durationMs: this.config.tickMs
+    });
+  }
+
+  /**
+   * 시나리오 시작/종료 시각
+   */
+  public describeScenario(scenario: SimScenario): object {
+    return {
+      id: scenario.id,
+      tokenSymbol: scenario.symbol,
+      type: scenario.type,
+      magnitude: scenario.magnitude,
+      startsAt: new Date(this.timeOf(scenario.startStep)).toISOString(),
+      endsAt: new Date(this.timeOf(scenario.endStep)).toISOString(),
+      scripted: scenario.scripted
+    };
+  }
+
+  /**
+   * 시뮬레이션 상태 (심볼별 현재가, 진행 중/예정 시나리오)
+   */
+  public getStatus(now: number = Date.now()): object {
+    const step = this.stepOf(now);
+
+    return {
+      enabled: this.config.enabled,
+      seed: this.config.seed,
+      model: this.config.model,
+      tickMs: this.config.tickMs,
+      startTime: new Date(this.config.startTime).toISOString(),
+      symbols: [...this.paths.values()].map(path => ({
+        symbol: path.config.symbol,
+        price: this.priceAtStep(path, step),
+        initialPrice: path.config.initialPrice,
+        drift: path.config.drift,
+        volatility: path.config.volatility
+      })),
+      scenarios: this.scenarios
+        .filter(scenario => scenario.endStep > step)
+        .map(scenario => this.describeScenario(scenario))
+    };
+  }
+
+  /**
+   * 걸음 번호의 가격 (가까운 체크포인트 또는 직전 조회 위치부터 계산)
+   */
+  private priceAtStep(path: SymbolPath, step: number): number {
+    if (step <= 0) {
+      return path.config.initialPrice;
+    }
+
+    let from = { step: 0, price: path.config.initialPrice };
+    for (let checkpoint = Math.floor(step / CHECKPOINT_STEPS) * CHECKPOINT_STEPS; checkpoint >= 0; checkpoint -= CHECKPOINT_STEPS) {
+      const price = path.checkpoints.get(checkpoint);
+      if (price !== undefined) {
+        from = { step: checkpoint, price };
+        break;
+      }
+    }
+    if (path.cursor.step <= step && path.cursor.step > from.step) {
+      from = path.cursor;
+    }
+
+    let price = from.price;
+    for (let current = from.step; current < step; current += 1) {
+      price = this.next(path, current, price);
+      if ((current + 1) % CHECKPOINT_STEPS === 0) {
+        path.checkpoints.set(current + 1, price);
+      }
+    }
+
+    path.cursor = { step, price };
+    return price;
+  }
+
+  /**
+   * 한 걸음 이동 (step → step + 1)
+   */
+  private next(path: SymbolPath, step: number, price: number): number {
+    const active = this.scenarios.filter(scenario =>
+      scenario.symbol === path.config.symbol && scenario.startStep <= step && step < scenario.endStep
+    );
+    if (active.some(scenario => scenario.type === 'flat')) {
+      return price;
+    }
+
+    const volatile = active.filter(scenario => scenario.type === 'volatile').pop();
+    const sigma = volatile ? volatile.magnitude / 100 : path.config.volatility;
+    const mu = path.config.drift;
+    const dt = this.config.tickMs / YEAR_MS;
+    const shock = active
+      .filter(scenario => scenario.type === 'spike' || scenario.type === 'crash')
+      .reduce((sum, scenario) => {
+        const factor = scenario.type === 'spike' ? 1 + scenario.magnitude / 100 : 1 - scenario.magnitude / 100;
+        return sum + Math.log(factor) / (scenario.endStep - scenario.startStep);
+      }, 0);
+    const z = normal(path.key, step);
+
+    if (this.config.model === 'random_walk') {
+      const walked = price + path.config.initialPrice * (mu * dt + sigma * Math.sqrt(dt) * z);
+      return Math.max(path.config.initialPrice * 1e-6, walked) * Math.exp(shock);
+    }
+
+    return price * Math.exp((mu - sigma * sigma / 2) * dt + sigma * Math.sqrt(dt) * z + shock);
+  }
+
+  /**
+   * 시나리오가 바꾸는 걸음 이후의 계산 결과 폐기
+   */
+  private invalidate(path: SymbolPath, fromStep: number): void {
+    for (const checkpoint of [...path.checkpoints.keys()]) {
+      if (checkpoint > fromStep) {
+        path.checkpoints.delete(checkpoint);
+      }
+    }
+    if (path.cursor.step > fromStep) {
+      path.cursor = { step: 0, price: path.config.initialPrice };
+    }
+  }
+
+  private getPath(symbol: string): SymbolPath {
+    const path = this.paths.get(symbol.toUpperCase());
+    if (!path) {
+      throw new AppError(`시뮬레이션 시장에 없는 심볼입니다: ${symbol} (${[...this.paths.keys()].join(', ')})`, 400);
+    }
+    return path;
+  }
+
+  private stepOf(time: number): number {
+    return Math.floor((time - this.config.startTime) / this.config.tickMs);
+  }
+
+  private timeOf(step: number): number {
+    return this.config.startTime + step * this.config.tickMs;
+  }
+}
+
+/**
+ * 문자열 32비트 해시 (FNV-1a)
+ */
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < value.length; index += 1) {
+    hash ^= value.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * 32비트 정수 섞기 (murmur3 fmix32)
+ */
+function mix(value: number): number {
+  let hash = value;
+  hash = Math.imul(hash ^ (hash >>> 16), 0x85ebca6b);
+  hash = Math.imul(hash ^ (hash >>> 13), 0xc2b2ae35);
+  return (hash ^ (hash >>> 16)) >>> 0;
+}
+
+/**
+ * 키와 걸음 번호로 정해지는 표준정규 난수 (Box-Muller)
+ */
+function normal(key: number, step: number): number {
+  const u1 = (mix(key ^ mix(step * 2 + 1)) + 1) / 4294967297;
+  const u2 = (mix(key ^ mix(step * 2 + 2)) + 1) / 4294967297;
+  return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+}
+
+export default SimMarket;
@@ -0,0 +1,715 @@
+// src/services/TournamentService.ts
+
+import { EntityManager, In, IsNull, LessThanOrEqual, Repository } from 'typeorm';
+import { AppDataSource } from '../config/database';
+import { airdropTokens } from '../config/blockchain';
+import { gameRoundConfig, getRoundTier, tournamentConfig, TournamentConfig } from '../config/game';
+import { DEFAULT_REWARD_TIERS, DEFAULT_TIE_BREAKERS } from '../config/reward';
+import { Tournament, TournamentFormat, TournamentRequirements, TournamentStatus } from '../models/Tournament';
+import { TournamentEntry } from '../models/TournamentEntry';
+import { TournamentRound } from '../models/TournamentRound';
+import { Game, GameStatus } from '../models/Game';
+import { GamePrediction, GamePredictionStatus } from '../models/GamePrediction';
+import { Ranking, RankingPeriod } from '../models/Ranking';
+import { RewardTable, RewardTierDefinition, RewardTieBreaker } from '../models/RewardTable';
+import { User } from '../models/User';
+import { UserMission } from '../models/UserMission';
+import { MissionType } from '../types/mission.types';
+import { AppError } from '../middlewares/errorHandler';
+import { logger } from '../utils/logger';
+import { GameService } from './GameService';
+import { RewardTableService } from './RewardTableService';
+
+/**
+ * 토너먼트 생성 요청
+ */
+export interface CreateTournamentInput {
+  name: string;
+  description?: string;
+  format: TournamentFormat;
+  symbol: string;
+  tier: string;
+  roundCount: number;
+  registrationOpensAt: Date;
+  registrationClosesAt: Date;
+  requirements?: TournamentRequirements;
+  minEntrants?: number;
+  maxEntrants?: number;
+  tiers?: RewardTierDefinition[];
+  tieBreakers?: RewardTieBreaker[];
+}
+
+/**
+ * 참가 조건 확인 결과
+ */
+export interface TournamentEligibility {
+  eligible: boolean;
+  unmet: string[]; // 충족하지 못한 조건 (사용자 표시용 문구)
+}
+
+/**
+ * 토너먼트 목록 구분
+ * - upcoming: 등록 시작 전/등록 중
+ * - live: 라운드 진행 중/순위 확정 중
+ * - finished: 종료/취소
+ */
+export type TournamentListFilter = 'upcoming' | 'live' | 'finished';
+
+const LIST_STATUSES: Record<TournamentListFilter, TournamentStatus[]> = {
+  upcoming: [TournamentStatus.SCHEDULED, TournamentStatus.REGISTRATION],
+  live: [TournamentStatus.LIVE, TournamentStatus.FINALIZING],
+  finished: [TournamentStatus.FINISHED, TournamentStatus.CANCELLED]
+};
+
+// 라운드 상태별 판정 가능 여부 (COMPLETED 는 예측 정산 후 반영, 나머지 종료 상태는 무효 라운드)
+const VOID_ROUND_STATUSES = [GameStatus.VOID, GameStatus.CANCELLED, GameStatus.EXPIRED];
+
+// 탈락하지 않는 예측 결과 (보합이면 모두 DRAW 이므로 아무도 맞히지 못한 라운드로 처리됨)
+const SURVIVING_STATUSES = [GamePredictionStatus.WIN, GamePredictionStatus.DRAW];
+
+/**
+ * 토너먼트 서비스
+ * 토너먼트 생성/참가 등록/라운드 배정과 판정/최종 순위 확정을 담당
+ * 등록 기간 전환과 라운드 진행은 GameRoundScheduler 점검마다 advanceTournaments 로 처리
+ */
+export class TournamentService {
+  private tournamentRepository: Repository<Tournament>;
+  private entryRepository: Repository<TournamentEntry>;
+  private roundRepository: Repository<TournamentRound>;
+  private gameRepository: Repository<Game>;
+  private predictionRepository: Repository<GamePrediction>;
+  private userRepository: Repository<User>;
+  private userMissionRepository: Repository<UserMission>;
+  private rewardTableService: RewardTableService;
+  private gameService: GameService;
+
+  constructor(private readonly config: TournamentConfig = tournamentConfig) {
+    this.tournamentRepository = AppDataSource.getRepository(Tournament);
+    this.entryRepository = AppDataSource.getRepository(TournamentEntry);
+    this.roundRepository = AppDataSource.getRepository(TournamentRound);
+    this.gameRepository = AppDataSource.getRepository(Game);
+    this.predictionRepository = AppDataSource.getRepository(GamePrediction);
+    this.userRepository = AppDataSource.getRepository(User);
+    this.userMissionRepository = AppDataSource.getRepository(UserMission);
+    this.rewardTableService = new RewardTableService();
+    this.gameService = new GameService();
+  }
+
+  /**
+   * 토너먼트 생성 (전용 보상 테이블 함께 생성)
+   */
+  async createTournament(input: CreateTournamentInput, adminId?: string): Promise<Tournament> {
+    const symbol = (input.symbol || '').toUpperCase();
+    const registrationOpensAt = new Date(input.registrationOpensAt);
+    const registrationClosesAt = new Date(input.registrationClosesAt);
+    const minEntrants = input.minEntrants ?? this.config.defaultMinEntrants;
+
+    if (!input.name) {
+      throw new AppError('토너먼트 이름이 필요합니다.', 400);
+    }
+    if (!Object.values(TournamentFormat).includes(input.format)) {
+      throw new AppError(`지원하지 않는 토너먼트 방식입니다: ${input.format}`, 400);
+    }
+    if (!gameRoundConfig.symbols.includes(symbol)) {
+      throw new AppError(`라운드가 열리지 않는 심볼입니다: ${symbol}`, 400);
+    }
+    if (!gameRoundConfig.tiers.some(tier => tier.id === input.tier)) {
+      throw new AppError(`라운드가 열리지 않는 등급입니다: ${input.tier}`, 400);
+    }
+    if (!Number.isInteger(input.roundCount) || input.roundCount < 1 || input.roundCount > this.config.maxRounds) {
+      throw new AppError(`라운드 수는 1-${this.config.maxRounds} 사이여야 합니다.`, 400);
+    }
+    if (isNaN(registrationOpensAt.getTime()) || isNaN(registrationClosesAt.getTime()) || registrationClosesAt <= registrationOpensAt) {
+      throw new AppError('등록 마감은 등록 시작 이후여야 합니다.', 400);
+    }
+    if (registrationClosesAt.getTime() <= Date.now()) {
+      throw new AppError('등록 마감 시각이 이미 지났습니다.', 400);
+    }
+    if (!Number.isInteger(minEntrants) || minEntrants < 2) {
+      throw new AppError('최소 참가자 수는 2명 이상이어야 합니다.', 400);
+    }
+    if (input.maxEntrants !== undefined && (!Number.isInteger(input.maxEntrants) || input.maxEntrants < minEntrants)) {
+      throw new AppError('최대 참가자 수는 최소 참가자 수 이상이어야 합니다.', 400);
+    }
+
+    const requirements = this.normalizeRequirements(input.requirements);
+    const tiers = input.tiers || DEFAULT_REWARD_TIERS;
+    const tieBreakers = input.tieBreakers || DEFAULT_TIE_BREAKERS;
+    const errors = RewardTable.validate(tiers, tieBreakers, Object.keys(airdropTokens));
+    if (errors.length > 0) {
+      throw new AppError(`보상 테이블이 올바르지 않습니다: ${errors.join(' ')}`, 400);
+    }
+
+    const latest = await this.tournamentRepository.findOne({ where: {}, order: { number: 'DESC' } });
+    const number = (latest?.number || 0) + 1;
+
+    const tournament = await this.tournamentRepository.save(
+      this.tournamentRepository.create({
+        number,
+        name: input.name,
+        description: input.description,
+        format: input.format,
+        status: registrationOpensAt.getTime() <= Date.now() ? TournamentStatus.REGISTRATION : TournamentStatus.SCHEDULED,
+        symbol,
+        tier: getRoundTier(input.tier).id,
+        roundCount: input.roundCount,
+        registrationOpensAt,
+        registrationClosesAt,
+        requirements,
+        minEntrants,
+        maxEntrants: input.maxEntrants,
+        periodKey: `T${number}`,
+        createdBy: adminId
+      })
+    );
+
+    try {
+      const table = await this.rewardTableService.createTable(
+        {
+          name: `${input.name} 상금`,
+          period: RankingPeriod.TOURNAMENT,
+          periodKey: tournament.periodKey,
+          tiers,
+          tieBreakers
+        },
+        adminId
+      );
+
+      tournament.rewardTableId = table.id;
+      return await this.tournamentRepository.save(tournament);
+    } catch (error) {
+      await this.tournamentRepository.delete(tournament.id);
+      throw error;
+    }
+  }
+
+  /**
+   * 토너먼트 목록 (예정/진행 중은 가까운 순, 종료는 최신순)
+   */
+  async getTournaments(
+    filter: TournamentListFilter,
+    limit: number,
+    offset: number
+  ): Promise<{ tournaments: Tournament[]; total: number }> {
+    await this.syncRegistration();
+
+    const [tournaments, total] = await this.tournamentRepository.findAndCount({
+      where: { status: In(LIST_STATUSES[filter]) },
+      order: filter === 'finished' ? { registrationClosesAt: 'DESC' } : { registrationClosesAt: 'ASC' },
+      skip: offset,
+      take: limit
+    });
+
+    return { tournaments, total };
+  }
+
+  /**
+   * 토너먼트 조회
+   */
+  async getTournament(tournamentId: string): Promise<Tournament | null> {
+    await this.syncRegistration();
+    return await this.tournamentRepository.findOne({ where: { id: tournamentId } });
+  }
+
+  /**
+   * 토너먼트 상금 테이블
+   */
+  async getRewardTable(tournament: Tournament): Promise<RewardTable> {
+    return await this.rewardTableService.getActiveTable(RankingPeriod.TOURNAMENT, tournament.periodKey);
+  }
+
+  /**
+   * 현재 배정된 (판정 전) 라운드
+   */
+  async getCurrentRound(tournament: Tournament): Promise<{ round: TournamentRound; game: Game | null } | null> {
+    const round = await this.roundRepository.findOne({
+      where: { tournamentId: tournament.id, resolvedAt: IsNull() },
+      order: { sequence: 'DESC' }
+    });
+    if (!round) {
+      return null;
+    }
+
+    return { round, game: await this.gameRepository.findOne({ where: { id: round.gameId } }) };
+  }
+
+  /**
+   * 사용자 참가 정보
+   */
+  async getEntry(tournamentId: string, userId: string): Promise<TournamentEntry | null> {
+    return await this.entryRepository.findOne({ where: { tournamentId, userId } });
+  }
+
+  /**
+   * 참가 조건 확인
+   */
+  async checkEligibility(tournament: Tournament, userId: string): Promise<TournamentEligibility> {
+    const user = await this.userRepository.findOne({ where: { id: userId } });
+    if (!user) {
+      return { eligible: false, unmet: ['사용자를 찾을 수 없습니다.'] };
+    }
+
+    const unmet: string[] = [];
+    const { missions = [], minGames = 0 } = tournament.requirements || {};
+
+    if (missions.length > 0) {
+      const rows = await this.userMissionRepository
+        .createQueryBuilder('userMission')
+        .innerJoin('userMission.mission', 'mission')
+        .select('DISTINCT mission.type', 'type')
+        .where('userMission.userId = :userId', { userId })
+        .andWhere('userMission.status IN (:...statuses)', { statuses: ['completed', 'claimed'] })
+        .andWhere('mission.type IN (:...types)', { types: missions })
+        .getRawMany();
+
+      const completed = new Set(rows.map(row => row.type as MissionType));
+      for (const type of missions) {
+        if (!completed.has(type)) {
+          unmet.push(`미션 미완료: ${type}`);
+        }
+      }
+    }
+
+    if (user.gameCount < minGames) {
+      unmet.push(`최소 ${minGames}게임 참여 필요 (현재 ${user.gameCount}게임)`);
+    }
+
+    return { eligible: unmet.length === 0, unmet };
+  }
+
+  /**
+   * 참가 등록
+   * 토너먼트 행을 잠근 뒤 등록 기간/정원을 다시 확인하므로 마감·정원 초과 등록은 반영되지 않음
+   */
+  async register(tournamentId: string, userId: string): Promise<TournamentEntry> {
+    const tournament = await this.getTournament(tournamentId);
+    if (!tournament) {
+      throw new AppError('토너먼트를 찾을 수 없습니다.', 404);
+    }
+
+    const eligibility = await this.checkEligibility(tournament, userId);
+    if (!eligibility.eligible) {
+      throw new AppError(`참가 조건을 충족하지 않습니다: ${eligibility.unmet.join(', ')}`, 403);
+    }
+
+    return await AppDataSource.transaction(async manager => {
+      const locked = await this.lockTournament(manager, tournamentId);
+      if (!locked.isRegistrationOpen) {
+        throw new AppError('참가 등록 기간이 아닙니다.', 400);
+      }
+      if (locked.isFull) {
+        throw new AppError('참가 정원이 찼습니다.', 409);
+      }
+
+      const existing = await manager.count(TournamentEntry, { where: { tournamentId, userId } });
+      if (existing > 0) {
+        throw new AppError('이미 참가 등록한 토너먼트입니다.', 409);
+      }
+
+      const entry = await manager.save(TournamentEntry, manager.create(TournamentEntry, { tournamentId, userId }));
+      await manager.increment(Tournament, { id: tournamentId }, 'entrantCount', 1);
+      return entry;
+    });
+  }
+
+  /**
+   * 토너먼트 순위표
+   * 종료된 토너먼트는 확정 순위, 진행 중이면 현재 성적으로 계산한 순위
+   */
+  async getLeaderboard(
+    tournament: Tournament,
+    limit: number,
+    offset: number
+  ): Promise<{ final: boolean; total: number; entries: TournamentEntry[] }> {
+    if (tournament.status === TournamentStatus.FINISHED) {
+      const [entries, total] = await this.entryRepository.findAndCount({
+        where: { tournamentId: tournament.id },
+        relations: ['user'],
+        order: { finalRank: 'ASC' },
+        skip: offset,
+        take: limit
+      });
+      return { final: true, total, entries };
+    }
+
+    const table = await this.getRewardTable(tournament);
+    const entries = this.rankEntries(
+      tournament,
+      table,
+      await this.entryRepository.find({ where: { tournamentId: tournament.id }, relations: ['user'] })
+    );
+
+    return { final: false, total: entries.length, entries: entries.slice(offset, offset + limit) };
+  }
+
+  /**
+   * 토너먼트 진행 점검 (스케줄러 점검마다 호출)
+   * 등록 기간 전환 → 진행 중 토너먼트의 라운드 판정/다음 라운드 배정/종료 순서로 처리
+   */
+  async advanceTournaments(now: Date = new Date()): Promise<void> {
+    await this.syncRegistration(now);
+
+    const closing = await this.tournamentRepository.find({
+      where: { status: TournamentStatus.REGISTRATION, registrationClosesAt: LessThanOrEqual(now) }
+    });
+    for (const tournament of closing) {
+      await this.closeRegistration(tournament);
+    }
+
+    const live = await this.tournamentRepository.find({ where: { status: TournamentStatus.LIVE } });
+    for (const tournament of live) {
+      try {
+        const pending = await this.roundRepository.findOne({
+          where: { tournamentId: tournament.id, resolvedAt: IsNull() },
+          order: { sequence: 'DESC' }
+        });
+
+        if (pending) {
+          await this.resolveRound(tournament, pending);
+        } else if (await this.isComplete(tournament)) {
+          await this.finalizeTournament(tournament);
+        } else {
+          await this.assignNextRound(tournament);
+        }
+      } catch (error) {
+        logger.error(`토너먼트 ${tournament.id} 진행 실패 (다음 점검에서 재시도):`, error);
+      }
+    }
+  }
+
+  /**
+   * 등록 시작 시각이 지난 예정 토너먼트를 등록 중으로 전환
+   */
+  private async syncRegistration(now: Date = new Date()): Promise<void> {
+    await this.tournamentRepository.update(
+      { status: TournamentStatus.SCHEDULED, registrationOpensAt: LessThanOrEqual(now) },
+      { status: TournamentStatus.REGISTRATION }
+    );
+  }
+
+  /**
+   * 등록 마감 (REGISTRATION → LIVE, 최소 참가자 미달이면 CANCELLED)
+   */
+  private async closeRegistration(tournament: Tournament): Promise<void> {
+    const status = tournament.entrantCount >= tournament.minEntrants ? TournamentStatus.LIVE : TournamentStatus.CANCELLED;
+
+    const result = await this.tournamentRepository.update(
+      { id: tournament.id, status: TournamentStatus.REGISTRATION },
+      status === TournamentStatus.LIVE ? { status, startedAt: new Date() } : { status, finishedAt: new Date() }
+    );
+
+    if (result.affected && status === TournamentStatus.CANCELLED) {
+      logger.info(`토너먼트 ${tournament.periodKey} 취소: 참가자 ${tournament.entrantCount}명 (최소 ${tournament.minEntrants}명)`);
+    }
+  }
+
+  /**
+   * 모든 라운드를 치렀는지 여부
+   * elimination 방식은 남은 참가자가 1명 이하여도 종료, 무효 라운드가 이어지면 배정 상한에서 종료
+   */
+  private async isComplete(tournament: Tournament): Promise<boolean> {
+    if (tournament.roundsPlayed >= tournament.roundCount) {
+      return true;
+    }
+    if (tournament.roundsAssigned >= tournament.roundCount * this.config.maxRoundFactor) {
+      return true;
+    }
+    if (tournament.format === TournamentFormat.ELIMINATION) {
+      const remaining = await this.entryRepository.count({ where: { tournamentId: tournament.id, status: 'active' } });
+      return remaining <= 1;
+    }
+    return false;
+  }
+
+  /**
+   * 다음 라운드 배정
+   * 예측 마감까지 충분한 시간이 남은 같은 심볼/등급의 라운드가 없으면 다음 점검까지 대기
+   */
+  private async assignNextRound(tournament: Tournament): Promise<void> {
+    const game = await this.gameService.getOpenRound(tournament.symbol, tournament.tier);
+    if (!game?.predictionDeadline || game.predictionDeadline.getTime() - Date.now() < this.config.roundMinLeadTime) {
+      return;
+    }
+
+    await AppDataSource.transaction(async manager => {
+      const locked = await this.lockTournament(manager, tournament.id);
+      if (locked.status !== TournamentStatus.LIVE) {
+        return;
+      }
+
+      const pending = await manager.count(TournamentRound, { where: { tournamentId: locked.id, resolvedAt: IsNull() } });
+      const reused = await manager.count(TournamentRound, { where: { tournamentId: locked.id, gameId: game.id } });
+      if (pending > 0 || reused > 0) {
+        return;
+      }
+
+      locked.roundsAssigned += 1;
+      await manager.save(TournamentRound, manager.create(TournamentRound, {
+        tournamentId: locked.id,
+        sequence: locked.roundsAssigned,
+        gameId: game.id
+      }));
+      await manager.save(Tournament, locked);
+    });
+  }
+
+  /**
+   * 라운드 판정
+   * 라운드가 무효/취소되면 무효 라운드로 기록하고 다시 배정, 정산된 라운드는 모든 예측이 정산된 뒤 반영
+   * 참가자의 정산된 예측 점수를 누적하고, elimination 방식은 맞히지 못한(예측하지 않은 경우 포함) 참가자를 탈락시킴
+   */
+  private async resolveRound(tournament: Tournament, round: TournamentRound): Promise<void> {
+    const game = await this.gameRepository.findOne({ where: { id: round.gameId } });
+    if (!game) {
+      return;
+    }
+
+    if (VOID_ROUND_STATUSES.includes(game.status)) {
+      await this.roundRepository.update(
+        { id: round.id, resolvedAt: IsNull() },
+        { voided: true, resolvedAt: new Date() }
+      );
+      return;
+    }
+
+    if (game.status !== GameStatus.COMPLETED) {
+      return;
+    }
+
+    const unsettled = await this.predictionRepository.count({
+      where: { gameId: game.id, status: GamePredictionStatus.PENDING }
+    });
+    if (unsettled > 0) {
+      return;
+    }
+
+    await AppDataSource.transaction(async manager => {
+      const claimed = await manager.update(
+        TournamentRound,
+        { id: round.id, resolvedAt: IsNull() },
+        { resolvedAt: new Date() }
+      );
+      if (!claimed.affected) {
+        return;
+      }
+
+      const locked = await this.lockTournament(manager, tournament.id);
+      const entries = await manager.find(TournamentEntry, {
+        where: { tournamentId: locked.id, status: 'active' },
+        lock: { mode: 'pessimistic_write' }
+      });
+      const predictions = entries.length > 0
+        ? await manager.find(GamePrediction, {
+          where: {
+            gameId: game.id,
+            userId: In(entries.map(entry => entry.userId)),
+            status: In([GamePredictionStatus.WIN, GamePredictionStatus.LOSE, GamePredictionStatus.DRAW])
+          }
+        })
+        : [];
+      const byUser = new Map(predictions.map(prediction => [prediction.userId, prediction]));
+
+      locked.roundsPlayed += 1;
+      const failed: TournamentEntry[] = [];
+
+      for (const entry of entries) {
+        const prediction = byUser.get(entry.userId);
+        if (prediction) {
+          entry.roundsPlayed += 1;
+          entry.totalScore = Number(entry.totalScore) + (prediction.scoreEarned || 0);
+          if (prediction.status === GamePredictionStatus.WIN) {
+            entry.correctCount += 1;
+          } else if (prediction.status === GamePredictionStatus.DRAW) {
+            entry.drawCount += 1;
+          }
+        }
+        if (!prediction || !SURVIVING_STATUSES.includes(prediction.status)) {
+          failed.push(entry);
+        }
+      }
+
+      // 남은 참가자가 모두 틀린 라운드는 아무도 탈락시키지 않음
+      const eliminated = locked.format === TournamentFormat.ELIMINATION && failed.length < entries.length ? failed : [];
+      for (const entry of eliminated) {
+        entry.status = 'eliminated';
+        entry.eliminatedInRound = locked.roundsPlayed;
+      }
+
+      await manager.save(TournamentEntry, entries);
+      await manager.update(TournamentRound, { id: round.id }, {
+        roundNumber: locked.roundsPlayed,
+        participantCount: entries.length,
+        eliminatedCount: eliminated.length
+      });
+      await manager.save(Tournament, locked);
+    });
+  }
+
+  /**
+   * 토너먼트 종료 및 최종 순위 확정
+   * LIVE → FINALIZING 으로 선점한 뒤 하나의 트랜잭션에서
+   * 토너먼트 랭킹(에어드롭 지급 대상) 기록, 참가자 최종 순위/상금 기록, FINISHED 전환을 수행
+   */
+  private async finalizeTournament(tournament: Tournament): Promise<void> {
+    const claim = await this.tournamentRepository.update(
+      { id: tournament.id, status: TournamentStatus.LIVE },
+      { status: TournamentStatus.FINALIZING }
+    );
+    if (!claim.affected) {
+      return;
+    }
+
+    try {
+      const table = await this.getRewardTable(tournament);
+      const entries = this.rankEntries(
+        tournament,
+        table,
+        await this.entryRepository.find({ where: { tournamentId: tournament.id } })
+      );
+      const finishedAt = new Date();
+
+      await AppDataSource.transaction(async manager => {
+        if (entries.length > 0) {
+          // 토너먼트 랭킹 (에어드롭 지급 대상, rank 는 최종 순위)
+          await manager.getRepository(Ranking).upsert(
+            entries.map(entry => {
+              const totalScore = Number(entry.totalScore);
+              return {
+                userId: entry.userId,
+                period: RankingPeriod.TOURNAMENT,
+                periodKey: tournament.periodKey,
+                rank: entry.finalRank as number,
+                totalScore,
+                averageScore: entry.roundsPlayed > 0 ? Math.round(totalScore / entry.roundsPlayed * 100) / 100 : 0,
+                totalGames: entry.roundsPlayed,
+                winCount: entry.correctCount,
+                loseCount: entry.roundsPlayed - entry.correctCount - entry.drawCount,
+                drawCount: entry.drawCount,
+                winRate: entry.roundsPlayed > 0 ? Math.round(entry.correctCount / entry.roundsPlayed * 10000) / 100 : 0,
+                currentStreak: 0,
+                bestStreak: 0,
+                airdropAmount: 0,
+                periodStart: tournament.startedAt || tournament.registrationClosesAt,
+                periodEnd: finishedAt,
+                isActive: false
+              };
+            }),
+            ['userId', 'period', 'periodKey']
+          );
+
+          for (const entry of entries) {
+            if (entry.status === 'active') {
+              entry.status = 'finished';
+            }
+          }
+          await manager.save(TournamentEntry, entries, { chunk: 500 });
+        }
+
+        await manager.update(Tournament, { id: tournament.id }, {
+          status: TournamentStatus.FINISHED,
+          finishedAt,
+          rewardTableId: table.id
+        });
+      });
+
+      logger.info(`토너먼트 ${tournament.periodKey} 종료: 참가자 ${entries.length}명, ${tournament.roundsPlayed}라운드`);
+    } catch (error) {
+      await this.tournamentRepository.update(
+        { id: tournament.id, status: TournamentStatus.FINALIZING },
+        { status: TournamentStatus.LIVE }
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * 참가자 순위 계산 (finalRank/rewardTier/rewards 를 채워 순위순으로 반환)
+   * elimination: 생존자 → 늦게 탈락한 순, cumulative: 총점 순
+   * 이후 보상 테이블의 동점자 규칙 → 등록 순으로 결정
+   */
+  private rankEntries(tournament: Tournament, table: RewardTable, entries: TournamentEntry[]): TournamentEntry[] {
+    const survival = (entry: TournamentEntry): number =>
+      entry.status === 'eliminated' ? entry.eliminatedInRound ?? 0 : Number.MAX_SAFE_INTEGER;
+
+    const sorted = [...entries].sort((a, b) => {
+      if (tournament.format === TournamentFormat.ELIMINATION && survival(a) !== survival(b)) {
+        return survival(b) - survival(a);
+      }
+      if (Number(b.totalScore) !== Number(a.totalScore)) {
+        return Number(b.totalScore) - Number(a.totalScore);
+      }
+      for (const tieBreaker of table.tieBreakers) {
+        const diff = this.compareTie(tieBreaker, a, b);
+        if (diff !== 0) {
+          return diff;
+        }
+      }
+      return new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime() || a.userId.localeCompare(b.userId);
+    });
+
+    sorted.forEach((entry, index) => {
+      entry.finalRank = index + 1;
+      const tier = table.getTierForRank(entry.finalRank);
+      entry.rewardTier = tier ? tier.tier : undefined;
+      entry.rewards = tier ? tier.rewards : [];
+    });
+
+    return sorted;
+  }
+
+  /**
+   * 동점자 규칙 비교 (음수면 a 가 앞 순위)
+   * 토너먼트 성적에는 연승 기록이 없으므로 BEST_STREAK 는 건너뜀, EARLIEST_REACHED 는 등록 순
+   */
+  private compareTie(tieBreaker: RewardTieBreaker, a: TournamentEntry, b: TournamentEntry): number {
+    const rate = (entry: TournamentEntry): number => entry.roundsPlayed > 0 ? entry.correctCount / entry.roundsPlayed : 0;
+
+    switch (tieBreaker) {
+      case RewardTieBreaker.HIGHER_WIN_RATE:
+        return rate(b) - rate(a);
+      case RewardTieBreaker.MORE_GAMES:
+        return b.roundsPlayed - a.roundsPlayed;
+      case RewardTieBreaker.FEWER_GAMES:
+        return a.roundsPlayed - b.roundsPlayed;
+      case RewardTieBreaker.EARLIEST_REACHED:
+        return new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
+      default:
+        return 0;
+    }
+  }
+
+  /**
+   * 참가 조건 정리 (알 수 없는 미션 유형이면 예외)
+   */
+  private normalizeRequirements(requirements?: TournamentRequirements): TournamentRequirements {
+    const missions = [...new Set(requirements?.missions || [])];
+    const validTypes = Object.values(MissionType) as string[];
+    const invalid = missions.filter(type => !validTypes.includes(type));
+    if (invalid.length > 0) {
+      throw new AppError(`알 수 없는 미션 유형입니다: ${invalid.join(', ')}`, 400);
+    }
+
+    const minGames = Number(requirements?.minGames || 0);
+    if (!Number.isInteger(minGames) || minGames < 0) {
+      throw new AppError('최소 게임 수는 0 이상의 정수여야 합니다.', 400);
+    }
+
+    return { missions, minGames };
+  }
+
+  /**
+   * 토너먼트 행 잠금 조회
+   */
+  private async lockTournament(manager: EntityManager, tournamentId: string): Promise<Tournament> {
+    const tournament = await manager.findOne(Tournament, {
+      where: { id: tournamentId },
+      lock: { mode: 'pessimistic_write' }
+    });
+    if (!tournament) {
+      throw new AppError('토너먼트를 찾을 수 없습니다.', 404);
+    }
+    return tournament;
+  }
+}
+
+export default TournamentService;
@@ -0,0 +1,648 @@
+/**
+ * WebSocketService - 실시간 브로드캐스트 서버
+ * 프론트엔드 useWebSocket 훅 프로토콜({ type, data, timestamp, id? })을 그대로 사용
+ *
+ * 채널:
+ * - price.<symbol>    심볼별 가격 (예: price.btc) → price.update
+ * - game.state        모든 라운드 상태 변경 → game.state
+ * - game.<gameId>     특정 라운드 상태 변경 → game.state
+ * - ranking.<period>  기간별 순위 변동 (daily, weekly, monthly, all_time) → ranking.update
+ * - airdrop           본인 에어드롭 지급 알림 (인증 필요) → airdrop.notification
+ * - notifications     본인 예측/대결/업적/가격 알림 (인증 필요) → prediction.void, duel.update, achievement.unlocked, price.alert
+ *
+ * 인증은 접속 URL 의 ?token= 또는 Authorization 헤더의 JWT 로 하며, 토큰 없이도 공개 채널은 구독 가능
+ * notifications 채널을 구독하면 연결이 없어 전달하지 못한 가격 알림 발동을 다시 전송 (setNotificationReplay)
+ * 서버가 시작되지 않았으면 publish 계열 메서드는 아무 일도 하지 않음
+ */
+
+import { IncomingMessage, Server } from 'http';
+import { randomUUID } from 'crypto';
+import WebSocket, { RawData, WebSocketServer } from 'ws';
+import { realtimeConfig, RealtimeConfig } from '../config/realtime';
+import { verifyAccessToken } from '../middlewares/auth';
+import { Game, GameStatus, GameVoidReason } from '../models/Game';
+import { DuelStatus } from '../models/Duel';
+import { PriceAlertCondition } from '../models/PriceAlert';
+import { RankingPeriod } from '../models/Ranking';
+import { AchievementType } from '../types/achievement.types';
+import { logger } from '../utils/logger';
+import { PriceService } from './PriceService';
+
+/**
+ * 클라이언트 ↔ 서버 메시지 형식
+ */
+export interface RealtimeMessage<T = unknown> {
+  type: string;
+  data: T;
+  timestamp: number;
+  id?: string;
+}
+
+/**
+ * 구독 요청 (useWebSocket 의 WebSocketSubscription)
+ * params 로 세부 채널을 지정할 수도 있음 (예: { channel: 'price', params: { symbol: 'BTC' } })
+ */
+export interface RealtimeSubscription {
+  channel: string;
+  params?: Record<string, unknown>;
+}
+
+export interface PriceUpdatePayload {
+  symbol: string;
+  price: number;
+  change24h: number;        // 24시간 가격 변화량
+  changePercent24h: number; // 24시간 변화율 (%)
+  volume24h: number;        // 오라클이 거래량을 집계하지 않으므로 0
+  timestamp: number;
+}
+
+export interface GameStatePayload {
+  gameId: string;
+  symbol: string;
+  status: 'waiting' | 'active' | 'ended' | 'void';
+  currentRound: number;     // 심볼별 라운드 순번
+  timeRemaining: number;    // 다음 상태 전환까지 남은 시간 (밀리초)
+  participants: number;
+  startPrice?: number;
+  endPrice?: number;
+}
+
+export interface RankingUpdatePayload {
+  userId: string;
+  newRank: number;
+  oldRank: number;
+  score: number;
+  timestamp: number;
+  period: RankingPeriod;
+  periodKey: string;
+}
+
+export interface AirdropNotificationPayload {
+  userId: string;
+  amount: string;
+  token: string;
+  rank: number;
+  period: RankingPeriod;
+  txHash?: string;
+}
+
+export interface PredictionVoidPayload {
+  userId: string;
+  gameId: string;
+  predictionId: string;
+  symbol: string;
+  reason: GameVoidReason;
+}
+
+export interface DuelUpdatePayload {
+  userId: string;
+  duelId: string;
+  event: 'invited' | 'accepted' | 'leg_started' | 'leg_resolved' | 'finished' | 'expired';
+  status: DuelStatus;
+  challengerWins: number;
+  opponentWins: number;
+  legNumber?: number;
+  gameId?: string;            // 현재 레그 라운드
+  predictionDeadline?: Date;  // 현재 레그 예측 마감 시각
+}
+
+export interface AchievementUnlockedPayload {
+  userId: string;
+  achievementId: string;
+  type: AchievementType;
+  title: string;
+  icon: string;
+  rewardPoints: number;       // 수령 시 지급되는 점수
+  badge?: string;
+  completedAt: Date;
+}
+
+/**
+ * 가격 알림 발동 알림 (notifications 채널, 본인에게만)
+ */
+export interface PriceAlertTriggeredPayload {
+  notificationId: string;     // 발동 기록 ID (재전송된 알림의 중복 제거용)
+  userId: string;
+  alertId: string | null;     // 알림이 삭제되었으면 null
+  symbol: string;
+  condition: PriceAlertCondition;
+  price: number;              // 발동 시점 가격
+  targetPrice?: number;       // above/below 목표 가격
+  changePercent?: number;     // percent_change 기준 변화율 (%)
+  referencePrice?: number;    // percent_change 기준 가격
+  recurring: boolean;         // false 면 이번 발동으로 비활성화됨
+  note?: string;
+  triggeredAt: Date;
+}
+
+/**
+ * 엔드포인트 상태
+ */
+export interface RealtimeInfo {
+  running: boolean;
+  path: string;
+  connections: number;
+  authenticatedConnections: number;
+  channels: Record<string, number>; // 채널별 구독 연결 수
+}
+
+/**
+ * 연결별 상태
+ */
+interface ClientState {
+  id: string;
+  userId?: string;
+  subscriptions: Set<string>;
+  lastSeen: number;
+}
+
+const PUBLIC_CHANNEL_PATTERNS = [
+  /^price\.[a-z0-9]{2,10}$/,
+  /^game\.state$/,
+  /^game\.[0-9a-f-]{36}$/,
+  new RegExp(`^ranking\\.(${[RankingPeriod.DAILY, RankingPeriod.WEEKLY, RankingPeriod.MONTHLY, RankingPeriod.ALL_TIME].join('|')})$`)
+];
+const AIRDROP_CHANNEL = 'airdrop';
+const NOTIFICATION_CHANNEL = 'notifications';
+const PRIVATE_CHANNELS = [AIRDROP_CHANNEL, NOTIFICATION_CHANNEL];
+
+export class WebSocketService {
+  private static instance: WebSocketService;
+
+  private server?: WebSocketServer;
+  private clients = new Map<WebSocket, ClientState>();
+  private heartbeatTimer?: NodeJS.Timeout;
+  private priceTimer?: NodeJS.Timeout;
+  private priceService?: PriceService;
+  private lastPrices = new Map<string, number>();
+  private isBroadcastingPrices = false;
+  private notificationReplay?: (userId: string) => Promise<unknown>;
+
+  private constructor(private readonly config: RealtimeConfig = realtimeConfig) {}
+
+  /**
+   * 싱글톤 인스턴스 반환
+   */
+  public static getInstance(): WebSocketService {
+    if (!WebSocketService.instance) {
+      WebSocketService.instance = new WebSocketService();
+    }
+    return WebSocketService.instance;
+  }
+
+  /**
+   * 기존 HTTP 서버에 WebSocket 엔드포인트 연결
+   * @param priceService 가격 채널 브로드캐스트에 사용할 가격 서비스
+   */
+  public attach(httpServer: Server, priceService: PriceService): void {
+    if (this.server) {
+      logger.info('WebSocketService already attached');
+      return;
+    }
+
+    this.priceService = priceService;
+    this.server = new WebSocketServer({ server: httpServer, path: this.config.path });
+    this.server.on('connection', (socket, request) => this.handleConnection(socket, request));
+    this.server.on('error', error => logger.error('WebSocket 서버 오류:', error));
+
+    this.heartbeatTimer = setInterval(() => this.sweepIdleClients(), Math.max(1000, Math.floor(this.config.heartbeatTimeout / 3)));
+    this.priceTimer = setInterval(() => {
+      void this.broadcastPrices();
+    }, this.config.priceInterval);
+
+    logger.info(`✅ WebSocketService 시작 (${this.config.path})`);
+  }
+
+  /**
+   * notifications 채널 구독 시 전달하지 못한 알림을 다시 보내는 함수 등록
+   * @param replay 사용자의 미전달 알림을 publish 계열 메서드로 다시 전송
+   */
+  public setNotificationReplay(replay: (userId: string) => Promise<unknown>): void {
+    this.notificationReplay = replay;
+  }
+
+  /**
+   * 서버 종료 (모든 연결을 1001 로 닫음)
+   */
+  public shutdown(): void {
+    if (!this.server) {
+      return;
+    }
+
+    clearInterval(this.heartbeatTimer);
+    clearInterval(this.priceTimer);
+    this.heartbeatTimer = undefined;
+    this.priceTimer = undefined;
+
+    for (const socket of this.clients.keys()) {
+      socket.close(1001, 'Server shutting down');
+    }
+    this.clients.clear();
+    this.lastPrices.clear();
+
+    this.server.close();
+    this.server = undefined;
+    logger.info('WebSocketService 중지');
+  }
+
+  /**
+   * 엔드포인트 정보 (연결 수, 채널별 구독 수)
+   */
+  public getInfo(): RealtimeInfo {
+    const channels: Record<string, number> = {};
+    let authenticatedConnections = 0;
+
+    for (const client of this.clients.values()) {
+      if (client.userId) {
+        authenticatedConnections += 1;
+      }
+      for (const channel of client.subscriptions) {
+        channels[channel] = (channels[channel] || 0) + 1;
+      }
+    }
+
+    return {
+      running: !!this.server,
+      path: this.config.path,
+      connections: this.clients.size,
+      authenticatedConnections,
+      channels
+    };
+  }
+
+  /**
+   * 채널 구독자에게 메시지 전송
+   * @param userId 지정하면 해당 사용자의 연결에만 전송
+   * @returns 전송한 연결 수
+   */
+  public publish<T>(channel: string, type: string, data: T, userId?: string): number {
+    if (!this.server) {
+      return 0;
+    }
+
+    const payload = JSON.stringify(this.createMessage(type, data));
+    let delivered = 0;
+
+    for (const [socket, client] of this.clients) {
+      if (!client.subscriptions.has(channel) || (userId && client.userId !== userId)) {
+        continue;
+      }
+      if (socket.readyState === WebSocket.OPEN) {
+        socket.send(payload);
+        delivered += 1;
+      }
+    }
+
+    return delivered;
+  }
+
+  /**
+   * 라운드 상태 브로드캐스트 (game.state, game.<gameId>)
+   */
+  public publishGameState(game: Game, participants: number, currentRound: number): void {
+    if (!this.server) {
+      return;
+    }
+
+    const state: GameStatePayload = {
+      gameId: game.id,
+      symbol: game.symbol,
+      status: this.toGameStateStatus(game.status),
+      currentRound,
+      timeRemaining: this.getTimeRemaining(game),
+      participants,
+      startPrice: game.startPrice ? Number(game.startPrice) : undefined,
+      endPrice: game.endPrice ? Number(game.endPrice) : undefined
+    };
+
+    this.publish('game.state', 'game.state', state);
+    this.publish(`game.${game.id}`, 'game.state', state);
+  }
+
+  /**
+   * 순위 변동 브로드캐스트
+   * 상위 rankingBroadcastTop 안에서 움직인 변동은 채널 전체에, 나머지는 본인 연결에만 전송
+   */
+  public publishRankingChanges(period: RankingPeriod, periodKey: string, changes: Array<Omit<RankingUpdatePayload, 'timestamp' | 'period' | 'periodKey'>>): void {
+    if (!this.server) {
+      return;
+    }
+
+    const channel = `ranking.${period}`;
+    const timestamp = Date.now();
+
+    for (const change of changes) {
+      const payload: RankingUpdatePayload = { ...change, timestamp, period, periodKey };
+      const isVisible = change.newRank <= this.config.rankingBroadcastTop
+        || (change.oldRank > 0 && change.oldRank <= this.config.rankingBroadcastTop);
+
+      this.publish(channel, 'ranking.update', payload, isVisible ? undefined : change.userId);
+    }
+  }
+
+  /**
+   * 에어드롭 지급 알림 (본인 연결에만 전송)
+   */
+  public publishAirdrop(notification: AirdropNotificationPayload): void {
+    this.publish(AIRDROP_CHANNEL, 'airdrop.notification', notification, notification.userId);
+  }
+
+  /**
+   * 라운드 무효 알림 (참가자 본인 연결에만 전송)
+   */
+  public publishPredictionVoid(notification: PredictionVoidPayload): void {
+    this.publish(NOTIFICATION_CHANNEL, 'prediction.void', notification, notification.userId);
+  }
+
+  /**
+   * 대결 상태 알림 (참가자 본인 연결에만 전송)
+   */
+  public publishDuelUpdate(notification: DuelUpdatePayload): void {
+    this.publish(NOTIFICATION_CHANNEL, 'duel.update', notification, notification.userId);
+  }
+
+  /**
+   * 업적 달성 알림 (본인 연결에만 전송)
+   */
+  public publishAchievementUnlocked(notification: AchievementUnlockedPayload): void {
+    this.publish(NOTIFICATION_CHANNEL, 'achievement.unlocked', notification, notification.userId);
+  }
+
+  /**
+   * 가격 알림 발동 알림 (본인 연결에만 전송)
+   * @returns 전송한 연결 수 (0 이면 전달되지 않음)
+   */
+  public publishPriceAlert(notification: PriceAlertTriggeredPayload): number {
+    return this.publish(NOTIFICATION_CHANNEL, 'price.alert', notification, notification.userId);
+  }
+
+  /**
+   * 새 연결 처리 (토큰이 있으면 검증, 유효하지 않으면 4401 로 종료)
+   */
+  private handleConnection(socket: WebSocket, request: IncomingMessage): void {
+    const client: ClientState = {
+      id: randomUUID(),
+      subscriptions: new Set(),
+      lastSeen: Date.now()
+    };
+
+    const token = this.extractToken(request);
+    if (token) {
+      try {
+        client.userId = verifyAccessToken(token).id;
+      } catch (error) {
+        logger.warn('WebSocket 인증 실패:', { error: error instanceof Error ? error.message : 'Unknown error' });
+        socket.close(4401, 'Invalid token');
+        return;
+      }
+    }
+
+    this.clients.set(socket, client);
+
+    socket.on('message', raw => this.handleMessage(socket, client, raw));
+    socket.on('pong', () => {
+      client.lastSeen = Date.now();
+    });
+    socket.on('close', () => this.clients.delete(socket));
+    socket.on('error', error => {
+      logger.warn(`WebSocket 연결 ${client.id} 오류: ${error.message}`);
+    });
+
+    this.send(socket, 'connected', {
+      clientId: client.id,
+      authenticated: !!client.userId,
+      heartbeatTimeout: this.config.heartbeatTimeout
+    });
+  }
+
+  /**
+   * 클라이언트 메시지 처리 (heartbeat, subscribe, unsubscribe)
+   */
+  private handleMessage(socket: WebSocket, client: ClientState, raw: RawData): void {
+    client.lastSeen = Date.now();
+
+    let message: RealtimeMessage<RealtimeSubscription>;
+    try {
+      message = JSON.parse(raw.toString());
+    } catch {
+      this.send(socket, 'error', { message: '잘못된 메시지 형식입니다.' });
+      return;
+    }
+
+    switch (message?.type) {
+    case 'heartbeat':
+      this.send(socket, 'heartbeat', { timestamp: Date.now() }, message.id);
+      return;
+    case 'subscribe':
+      this.subscribe(socket, client, message);
+      return;
+    case 'unsubscribe': {
+      const channel = this.resolveChannel(message.data);
+      if (channel) {
+        client.subscriptions.delete(channel);
+      }
+      this.send(socket, 'unsubscribed', { channel }, message.id);
+      return;
+    }
+    default:
+      this.send(socket, 'error', { message: `지원하지 않는 메시지 타입입니다: ${message?.type}` }, message?.id);
+    }
+  }
+
+  /**
+   * 채널 구독 (airdrop, notifications 는 인증된 연결만)
+   */
+  private subscribe(socket: WebSocket, client: ClientState, message: RealtimeMessage<RealtimeSubscription>): void {
+    const channel = this.resolveChannel(message.data);
+
+    if (!channel) {
+      this.send(socket, 'error', { message: '알 수 없는 채널입니다.', channel: message.data?.channel }, message.id);
+      return;
+    }
+
+    if (PRIVATE_CHANNELS.includes(channel) && !client.userId) {
+      this.send(socket, 'error', { message: '인증이 필요한 채널입니다.', channel }, message.id);
+      return;
+    }
+
+    if (!client.subscriptions.has(channel) && client.subscriptions.size >= this.config.maxSubscriptions) {
+      this.send(socket, 'error', { message: '구독 가능한 채널 수를 초과했습니다.', channel }, message.id);
+      return;
+    }
+
+    client.subscriptions.add(channel);
+    this.send(socket, 'subscribed', { channel }, message.id);
+
+    // 가격 채널은 다음 주기를 기다리지 않고 마지막 가격을 바로 전송
+    if (channel.startsWith('price.')) {
+      void this.sendLatestPrice(socket, channel.substring('price.'.length));
+    }
+    // 알림 채널은 연결이 없던 동안 전달하지 못한 알림을 다시 전송
+    if (channel === NOTIFICATION_CHANNEL && client.userId && this.notificationReplay) {
+      this.notificationReplay(client.userId).catch(error => {
+        logger.warn(`미전달 알림 재전송 실패 (${client.userId}): ${error instanceof Error ? error.message : error}`);
+      });
+    }
+  }
+
+  /**
+   * 구독 요청을 채널 이름으로 정규화 (허용되지 않은 채널이면 null)
+   */
+  private resolveChannel(subscription?: RealtimeSubscription): string | null {
+    if (!subscription || typeof subscription.channel !== 'string') {
+      return null;
+    }
+
+    let channel = subscription.channel.trim().toLowerCase();
+    const params = subscription.params || {};
+
+    if (channel === 'price' && typeof params.symbol === 'string') {
+      channel = `price.${params.symbol.toLowerCase()}`;
+    } else if (channel === 'game' && typeof params.gameId === 'string') {
+      channel = `game.${params.gameId.toLowerCase()}`;
+    } else if (channel === 'ranking' && typeof params.period === 'string') {
+      channel = `ranking.${params.period.toLowerCase()}`;
+    }
+
+    if (PRIVATE_CHANNELS.includes(channel) || PUBLIC_CHANNEL_PATTERNS.some(pattern => pattern.test(channel))) {
+      return channel;
+    }
+    return null;
+  }
+
+  /**
+   * 구독 중인 심볼의 가격을 조회해 바뀐 경우에만 브로드캐스트
+   */
+  private async broadcastPrices(): Promise<void> {
+    if (this.isBroadcastingPrices || !this.priceService) {
+      return;
+    }
+
+    this.isBroadcastingPrices = true;
+    try {
+      const symbols = new Set<string>();
+      for (const client of this.clients.values()) {
+        for (const channel of client.subscriptions) {
+          if (channel.startsWith('price.')) {
+            symbols.add(channel.substring('price.'.length));
+          }
+        }
+      }
+
+      for (const symbol of symbols) {
+        const update = await this.fetchPriceUpdate(symbol);
+        if (update && this.lastPrices.get(symbol) !== update.price) {
+          this.lastPrices.set(symbol, update.price);
+          this.publish(`price.${symbol}`, 'price.update', update);
+        }
+      }
+    } catch (error) {
+      logger.error('가격 브로드캐스트 실패:', error);
+    } finally {
+      this.isBroadcastingPrices = false;
+    }
+  }
+
+  /**
+   * 새로 구독한 연결에 현재 가격 전송
+   */
+  private async sendLatestPrice(socket: WebSocket, symbol: string): Promise<void> {
+    const update = await this.fetchPriceUpdate(symbol);
+    if (update) {
+      this.send(socket, 'price.update', update);
+    }
+  }
+
+  /**
+   * 오라클 가격을 price.update 형식으로 변환 (조회 실패 시 null)
+   */
+  private async fetchPriceUpdate(symbol: string): Promise<PriceUpdatePayload | null> {
+    const price = await this.priceService?.getCurrentPriceBySymbol(symbol);
+    if (!price) {
+      return null;
+    }
+
+    const changePercent24h = price.change24h ?? 0;
+    const previousPrice = price.price / (1 + changePercent24h / 100);
+
+    return {
+      symbol: price.symbol,
+      price: price.price,
+      change24h: Number((price.price - previousPrice).toFixed(8)),
+      changePercent24h,
+      volume24h: 0,
+      timestamp: new Date(price.timestamp).getTime()
+    };
+  }
+
+  /**
+   * 하트비트가 끊긴 연결 정리 및 ping 전송
+   */
+  private sweepIdleClients(): void {
+    const now = Date.now();
+
+    for (const [socket, client] of this.clients) {
+      if (now - client.lastSeen > this.config.heartbeatTimeout) {
+        socket.terminate();
+        this.clients.delete(socket);
+      } else if (socket.readyState === WebSocket.OPEN) {
+        socket.ping();
+      }
+    }
+  }
+
+  /**
+   * 라운드 상태를 클라이언트 상태 값으로 변환 (완료/취소/만료는 ended)
+   */
+  private toGameStateStatus(status: GameStatus): GameStatePayload['status'] {
+    switch (status) {
+    case GameStatus.WAITING:
+      return 'waiting';
+    case GameStatus.ACTIVE:
+      return 'active';
+    case GameStatus.VOID:
+      return 'void';
+    default:
+      return 'ended';
+    }
+  }
+
+  /**
+   * 다음 상태 전환까지 남은 시간 (밀리초)
+   */
+  private getTimeRemaining(game: Game): number {
+    if (game.status === GameStatus.WAITING && game.predictionDeadline) {
+      return Math.max(0, new Date(game.predictionDeadline).getTime() - Date.now());
+    }
+    if (game.status === GameStatus.ACTIVE) {
+      return game.timeUntilEnd;
+    }
+    return 0;
+  }
+
+  /**
+   * 접속 URL 의 token 파라미터 또는 Authorization 헤더에서 토큰 추출
+   */
+  private extractToken(request: IncomingMessage): string | null {
+    const url = new URL(request.url || '/', 'http://localhost');
+    const queryToken = url.searchParams.get('token');
+    if (queryToken) {
+      return queryToken;
+    }
+
+    const [scheme, token] = (request.headers.authorization || '').split(' ');
+    return scheme === 'Bearer' && token ? token : null;
+  }
+
+  private send<T>(socket: WebSocket, type: string, data: T, id?: string): void {
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(this.createMessage(type, data, id)));
+    }
+  }
+
+  private createMessage<T>(type: string, data: T, id?: string): RealtimeMessage<T> {
+    return { type, data, timestamp: Date.now(), id: id || randomUUID() };
+  }
+}
+
+export default WebSocketService;
@@ -0,0 +1,163 @@
+import { hexlify, parseEther, randomBytes, Wallet } from 'ethers';
+import { AppDataSource } from '../config/database';
+import { airdropTokens } from '../config/blockchain';
+import { AirdropTransfer } from '../models/AirdropTransfer';
+import { AirdropStatus, Ranking, RankingPeriod } from '../models/Ranking';
+import { User } from '../models/User';
+import { AirdropExecutor, AirdropPayout } from '../services/AirdropExecutor';
+import { createTestUser, setupTestDatabase, teardownTestDatabase } from './helpers/database';
+import { createTestProvider, createTestWallet, describeWithChain, HARDHAT_CHAIN_ID, HARDHAT_PRIVATE_KEYS } from './helpers/chain';
+
+describeWithChain('AirdropExecutor (로컬 Hardhat 노드)', () => {
+  const provider = createTestProvider();
+  const treasury = createTestWallet(0, provider);
+  let executor: AirdropExecutor;
+  let sequence = 0;
+
+  const createRanking = async (name: string): Promise<{ user: User; ranking: Ranking }> => {
+    const user = await createTestUser(name, { walletAddress: Wallet.createRandom().address });
+    const ranking = await AppDataSource.getRepository(Ranking).save({
+      userId: user.id,
+      period: RankingPeriod.WEEKLY,
+      periodKey: '2026-W01',
+      rank: ++sequence,
+      totalScore: 100,
+      averageScore: 10,
+      totalGames: 10,
+      winCount: 5,
+      loseCount: 5,
+      drawCount: 0,
+      winRate: 50,
+      currentStreak: 0,
+      bestStreak: 1,
+      periodStart: new Date('2026-01-05T00:00:00Z'),
+      periodEnd: new Date('2026-01-12T00:00:00Z')
+    });
+    return { user, ranking };
+  };
+
+  const payoutOf = (user: User, ranking: Ranking, amount: number): AirdropPayout => ({
+    rankingId: ranking.id,
+    userId: user.id,
+    rank: ranking.rank,
+    tier: 1,
+    rewards: [{ token: 'CTA', amount }]
+  });
+
+  // 이전 실행이 중단되어 PROCESSING 으로 남은 전송 행
+  const createProcessingTransfer = async (user: User, ranking: Ranking, values: Partial<AirdropTransfer>): Promise<AirdropTransfer> => {
+    await AppDataSource.getRepository(Ranking).update(ranking.id, { airdropStatus: AirdropStatus.PROCESSING });
+    return await AppDataSource.getRepository(AirdropTransfer).save({
+      rankingId: ranking.id,
+      userId: user.id,
+      tier: 1,
+      token: 'CTA',
+      amount: 1,
+      status: AirdropStatus.PROCESSING,
+      ...values
+    });
+  };
+
+  const findTransfer = (rankingId: string): Promise<AirdropTransfer | null> =>
+    AppDataSource.getRepository(AirdropTransfer).findOne({ where: { rankingId } });
+
+  const findRanking = (id: string): Promise<Ranking | null> =>
+    AppDataSource.getRepository(Ranking).findOne({ where: { id } });
+
+  beforeAll(async () => {
+    await setupTestDatabase('airdrop_executor');
+    executor = new AirdropExecutor({
+      rpcUrl: process.env.TEST_RPC_URL as string,
+      chainId: HARDHAT_CHAIN_ID,
+      treasuryPrivateKey: HARDHAT_PRIVATE_KEYS[0],
+      confirmations: 1,
+      confirmationTimeout: 10000,
+      maxRetries: 3
+    }, { CTA: airdropTokens.CTA });
+  });
+
+  afterAll(async () => {
+    provider.destroy();
+    await teardownTestDatabase();
+  });
+
+  it('전송 후 블록 확인까지 마치고, 다시 실행해도 재전송하지 않음', async () => {
+    const first = await createRanking('airdrop_happy_1');
+    const second = await createRanking('airdrop_happy_2');
+    const payouts = [payoutOf(first.user, first.ranking, 1.5), payoutOf(second.user, second.ranking, 0.25)];
+
+    const results = await executor.executePayouts(payouts);
+
+    expect(results.map(result => result.status)).toEqual([AirdropStatus.COMPLETED, AirdropStatus.COMPLETED]);
+    expect(await provider.getBalance(first.user.walletAddress as string)).toBe(parseEther('1.5'));
+    expect(await provider.getBalance(second.user.walletAddress as string)).toBe(parseEther('0.25'));
+
+    const ranking = await findRanking(first.ranking.id);
+    expect(ranking?.airdropStatus).toBe(AirdropStatus.COMPLETED);
+    expect(ranking?.transactionHash).toBe(results[0].txHash);
+    expect(Number(ranking?.airdropAmount)).toBe(1.5);
+
+    const nonce = await provider.getTransactionCount(treasury.address, 'latest');
+    const again = await executor.executePayouts(payouts);
+
+    expect(again.every(result => result.skipped && result.status === AirdropStatus.COMPLETED)).toBe(true);
+    expect(await provider.getTransactionCount(treasury.address, 'latest')).toBe(nonce);
+  });
+
+  it('재시작 시 이미 전송된 PROCESSING 전송은 영수증으로만 확정', async () => {
+    const { user, ranking } = await createRanking('airdrop_restart_sent');
+
+    // 해시와 nonce 를 기록하고 전송한 직후 프로세스가 중단된 상황
+    const tx = await treasury.sendTransaction({ to: user.walletAddress, value: parseEther('1') });
+    await tx.wait();
+    await createProcessingTransfer(user, ranking, { transactionHash: tx.hash, nonce: tx.nonce });
+    const nonce = await provider.getTransactionCount(treasury.address, 'latest');
+
+    const results = await executor.executePayouts([payoutOf(user, ranking, 1)]);
+
+    expect(results).toEqual([expect.objectContaining({ status: AirdropStatus.COMPLETED, skipped: true, txHash: tx.hash })]);
+    expect(await provider.getTransactionCount(treasury.address, 'latest')).toBe(nonce);
+    expect(await provider.getBalance(user.walletAddress as string)).toBe(parseEther('1'));
+    expect((await findRanking(ranking.id))?.airdropStatus).toBe(AirdropStatus.COMPLETED);
+  });
+
+  it('재시작 시 서명 전에 중단된 PROCESSING 전송은 실패 처리 후 다시 전송', async () => {
+    const { user, ranking } = await createRanking('airdrop_restart_unsigned');
+    await createProcessingTransfer(user, ranking, {});
+
+    const results = await executor.executePayouts([payoutOf(user, ranking, 1)]);
+
+    expect(results).toEqual([expect.objectContaining({ status: AirdropStatus.COMPLETED })]);
+    expect(await provider.getBalance(user.walletAddress as string)).toBe(parseEther('1'));
+
+    const transfer = await findTransfer(ranking.id);
+    expect(transfer?.status).toBe(AirdropStatus.COMPLETED);
+    expect(transfer?.retryCount).toBe(1);
+  });
+
+  it('nonce 가 소비되었는데 트랜잭션을 찾을 수 없으면 수동 확인 대상으로 전환하고 재시도하지 않음', async () => {
+    const { user, ranking } = await createRanking('airdrop_nonce_consumed');
+    // 같은 nonce 를 다른 트랜잭션이 소비
+    const other = await treasury.sendTransaction({ to: treasury.address, value: 0 });
+    await other.wait();
+    await createProcessingTransfer(user, ranking, { transactionHash: hexlify(randomBytes(32)), nonce: other.nonce });
+
+    expect(await executor.reconcilePending()).toBe(1);
+
+    const transfer = await findTransfer(ranking.id);
+    expect(transfer?.status).toBe(AirdropStatus.NEEDS_REVIEW);
+    expect(transfer?.transactionHash).toBeTruthy();
+    expect((await findRanking(ranking.id))?.airdropStatus).toBe(AirdropStatus.NEEDS_REVIEW);
+    await expect(executor.retryPayout(ranking.id)).rejects.toThrow('재시도할 수 없는 에어드롭 상태입니다');
+    expect(await provider.getBalance(user.walletAddress as string)).toBe(0n);
+  });
+
+  it('nonce 가 아직 소비되지 않았으면 PROCESSING 유지', async () => {
+    const { user, ranking } = await createRanking('airdrop_nonce_pending');
+    const nonce = await provider.getTransactionCount(treasury.address, 'latest');
+    await createProcessingTransfer(user, ranking, { transactionHash: hexlify(randomBytes(32)), nonce: nonce + 100 });
+
+    expect(await executor.reconcilePending()).toBe(0);
+    expect((await findTransfer(ranking.id))?.status).toBe(AirdropStatus.PROCESSING);
+  });
+});
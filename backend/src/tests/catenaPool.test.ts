@@ -0,0 +1,169 @@
+import { Contract, ContractFactory, parseUnits, Wallet } from 'ethers';
+import { airdropChainConfig } from '../config/blockchain';
+import { catenaPoolConfig, priceProviderConfigs } from '../config/price';
+import { createProviderAdapter, PriceOracle, PriceProviderAdapter } from '../services/PriceOracle';
+import { createTestProvider, createTestWallet, describeWithNode, HARDHAT_CHAIN_ID, loadContractArtifact, mineAt } from './helpers/chain';
+
+const USDT_LIQUIDITY = '100000';
+
+// CTA 가격과 USDT 준비금으로 풀 준비금 계산 (CTA 가 token0)
+const reservesFor = (price: string, liquidity: string = USDT_LIQUIDITY): [bigint, bigint] => [
+  parseUnits(liquidity, 18) * 10n ** 18n / parseUnits(price, 18),
+  parseUnits(liquidity, 6)
+];
+
+// 오프체인 소스 대역
+const fixedSource = (name: string, price: number): PriceProviderAdapter => ({
+  name,
+  supports: symbol => symbol.toUpperCase() === 'CTA',
+  fetchQuote: async () => ({ price })
+});
+
+describeWithNode('Catena 풀 가격 제공자 (로컬 Hardhat 노드 + MockCtaUsdtPool)', () => {
+  const provider = createTestProvider();
+  const owner = createTestWallet(1, provider);
+  const configs = {
+    provider: priceProviderConfigs.catena,
+    pool: { ...catenaPoolConfig },
+    chainId: airdropChainConfig.chainId
+  };
+  let pool: Contract;
+  let clock: number;
+
+  // 다음 블록 시각을 지정해 준비금 변경 (누적 가격은 이전 준비금으로 그 시각까지 쌓임)
+  const setReservesAt = async (timestamp: number, price: string, liquidity?: string): Promise<void> => {
+    await provider.send('evm_setNextBlockTimestamp', [timestamp]);
+    await (await pool.setReserves(...reservesFor(price, liquidity))).wait();
+  };
+
+  // 서버 시각을 고정하고 조회
+  const quoteAt = async (adapter: PriceProviderAdapter, timestamp: number): Promise<number> => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(timestamp * 1000);
+    try {
+      return (await adapter.fetchQuote('CTA')).price;
+    } finally {
+      now.mockRestore();
+    }
+  };
+
+  beforeAll(async () => {
+    const { abi, bytecode } = loadContractArtifact('MockCtaUsdtPool');
+    const [token0, token1] = [Wallet.createRandom().address, Wallet.createRandom().address]
+      .sort((a, b) => (BigInt(a) < BigInt(b) ? -1 : 1));
+    const contract = await new ContractFactory(abi, bytecode, owner).deploy(token0, token1, ...reservesFor('0.05'));
+    await contract.waitForDeployment();
+    pool = contract as Contract;
+
+    priceProviderConfigs.catena = { ...configs.provider, baseUrl: process.env.TEST_RPC_URL as string, symbols: { CTA: await pool.getAddress() } };
+    Object.assign(catenaPoolConfig, { ctaTokenAddress: token0, minUsdtReserve: 1000, maxDeviationPercent: 5, twapWindowSeconds: 600 });
+    airdropChainConfig.chainId = HARDHAT_CHAIN_ID;
+
+    const latest = await provider.getBlock('latest');
+    clock = (latest?.timestamp as number) + 10;
+  });
+
+  afterAll(() => {
+    priceProviderConfigs.catena = configs.provider;
+    Object.assign(catenaPoolConfig, configs.pool);
+    airdropChainConfig.chainId = configs.chainId;
+    provider.destroy();
+  });
+
+  beforeEach(async () => {
+    clock += 1000;
+    await setReservesAt(clock, '0.05');
+  });
+
+  it('spot 은 현재 준비금 비율 (토큰 소수 자릿수 보정)', async () => {
+    catenaPoolConfig.mode = 'spot';
+    const adapter = createProviderAdapter('catena');
+
+    expect(adapter.supports('cta')).toBe(true);
+    expect(adapter.supports('BTC')).toBe(false);
+    expect(await quoteAt(adapter, clock)).toBeCloseTo(0.05, 10);
+
+    await setReservesAt(clock + 1, '0.08');
+    expect(await quoteAt(adapter, clock + 1)).toBeCloseTo(0.08, 10);
+  });
+
+  it('twap 은 구간이 쌓이기 전에는 현재 비율, 쌓인 뒤에는 시간 가중 평균', async () => {
+    catenaPoolConfig.mode = 'twap';
+    const adapter = createProviderAdapter('catena');
+
+    expect(await quoteAt(adapter, clock)).toBeCloseTo(0.05, 10);
+
+    // 300초 동안 0.05, 이후 300초 동안 0.10
+    await setReservesAt(clock + 300, '0.10');
+    expect(await quoteAt(adapter, clock + 300)).toBeCloseTo(0.10, 10);
+
+    await mineAt(provider, clock + 600);
+    expect(await quoteAt(adapter, clock + 600)).toBeCloseTo(0.075, 8);
+  });
+
+  it('twap 은 짧은 순간의 준비금 조작을 구간 길이만큼 희석', async () => {
+    catenaPoolConfig.mode = 'twap';
+    const adapter = createProviderAdapter('catena');
+    await quoteAt(adapter, clock);
+
+    // 마지막 6초 동안만 가격을 10배로 올림
+    await setReservesAt(clock + 594, '0.5');
+    await mineAt(provider, clock + 600);
+
+    expect(await quoteAt(adapter, clock + 600)).toBeCloseTo(0.05 + 0.45 * 6 / 600, 8);
+  });
+
+  it('USDT 준비금이 최소 유동성 미만이면 조회 실패', async () => {
+    catenaPoolConfig.mode = 'spot';
+    const adapter = createProviderAdapter('catena');
+
+    await setReservesAt(clock + 1, '0.05', '999');
+    await expect(adapter.fetchQuote('CTA')).rejects.toThrow('풀 유동성이 부족합니다');
+
+    await setReservesAt(clock + 2, '0.05', '1000');
+    expect(await quoteAt(adapter, clock + 2)).toBeCloseTo(0.05, 10);
+  });
+
+  describe('오라클 집계 (오프체인 중앙값 대비 허용 편차)', () => {
+    const config = { providers: [], quorum: 3, maxDeviationPercent: 1, timeout: 5000 };
+
+    beforeEach(() => {
+      catenaPoolConfig.mode = 'spot';
+    });
+
+    it('허용 편차 이내면 온체인 가격도 채택', async () => {
+      // 오프체인 허용 편차(1%)보다 넓은 온체인 허용 편차(5%) 적용
+      await setReservesAt(clock + 1, '0.052');
+      const oracle = new PriceOracle([fixedSource('stub_a', 0.05), fixedSource('stub_b', 0.05), createProviderAdapter('catena')], config);
+
+      const result = await oracle.getPrice('CTA');
+
+      expect(result.providers).toEqual(['stub_a', 'stub_b', 'catena']);
+      expect(result.price).toBeCloseTo(0.05, 10);
+      expect(result.method).toBe('median(quorum=3,maxDeviation=1%,catena<=5%)');
+    });
+
+    it('허용 편차를 넘으면 온체인 가격 제외', async () => {
+      await setReservesAt(clock + 1, '0.06');
+      const oracle = new PriceOracle([fixedSource('stub_a', 0.05), fixedSource('stub_b', 0.0502), createProviderAdapter('catena')], config);
+
+      const result = await oracle.getPrice('CTA');
+      const onChain = result.sources.find(source => source.provider === 'catena');
+
+      expect(result.providers).toEqual(['stub_a', 'stub_b']);
+      expect(result.price).toBeCloseTo(0.0501, 10);
+      expect(onChain?.accepted).toBe(false);
+      expect(onChain?.deviationPercent).toBeGreaterThan(5);
+    });
+
+    it('오프체인 소스가 모두 실패하면 온체인 가격만으로 집계', async () => {
+      const failing: PriceProviderAdapter = { ...fixedSource('stub_down', 0), fetchQuote: async () => { throw new Error('down'); } };
+      const oracle = new PriceOracle([failing, createProviderAdapter('catena')], { ...config, quorum: 2 });
+
+      const result = await oracle.getPrice('CTA');
+
+      expect(result.providers).toEqual(['catena']);
+      expect(result.price).toBeCloseTo(0.05, 10);
+      expect(result.degraded).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import { calculateEloChange, expectedScore } from '../utils/elo';
+import { DuelService } from '../services/DuelService';
+import { DuelLeg } from '../models/DuelLeg';
+import { Game, GameStatus } from '../models/Game';
+import { GamePredictionType } from '../models/GamePrediction';
+
+describe('Elo 레이팅', () => {
+  it('같은 레이팅이면 기대 승률 0.5, 양쪽 기대 승률 합은 1', () => {
+    expect(expectedScore(1200, 1200)).toBe(0.5);
+    expect(expectedScore(1400, 1200) + expectedScore(1200, 1400)).toBeCloseTo(1, 10);
+    expect(expectedScore(1400, 1200)).toBeGreaterThan(0.5);
+  });
+
+  it.each<[number, number, 'win' | 'lose' | 'draw']>([
+    [1200, 1200, 'win'],
+    [1200, 1200, 'lose'],
+    [1500, 1200, 'win'],
+    [1500, 1200, 'lose'],
+    [1500, 1200, 'draw'],
+    [1000, 1873, 'draw'],
+    [1000, 1873, 'win']
+  ])('%i vs %i, %s → 변동 합은 0', (ratingA, ratingB, outcome) => {
+    const { deltaA, deltaB } = calculateEloChange(ratingA, ratingB, outcome, 32);
+    expect(deltaA + deltaB).toBe(0);
+  });
+
+  it.each<[number, number, 'win' | 'lose' | 'draw', number]>([
+    [1200, 1200, 'win', 16],
+    [1200, 1200, 'lose', -16],
+    [1200, 1200, 'draw', 0],
+    [1600, 1200, 'win', 3],     // 32 x (1 - 0.909) = 2.9
+    [1600, 1200, 'lose', -29],
+    [1600, 1200, 'draw', -13]
+  ])('%i vs %i, %s → A 변동 %i', (ratingA, ratingB, outcome, deltaA) => {
+    expect(calculateEloChange(ratingA, ratingB, outcome, 32).deltaA).toBe(deltaA);
+  });
+
+  it('K 계수에 비례', () => {
+    expect(calculateEloChange(1200, 1200, 'win', 16).deltaA).toBe(8);
+    expect(calculateEloChange(1200, 1200, 'win', 64).deltaA).toBe(32);
+  });
+});
+
+describe('DuelService.judgeLeg', () => {
+  const createLeg = (challenger?: GamePredictionType, opponent?: GamePredictionType): DuelLeg => {
+    const leg = new DuelLeg();
+    leg.challengerPrediction = challenger;
+    leg.opponentPrediction = opponent;
+    return leg;
+  };
+
+  const createRound = (endPrice: number, flatTolerancePercent = 0.05, status = GameStatus.COMPLETED): Game => {
+    const game = new Game();
+    game.status = status;
+    game.startPrice = 100;
+    game.endPrice = endPrice;
+    game.flatTolerancePercent = flatTolerancePercent;
+    return game;
+  };
+
+  const { UP, DOWN } = GamePredictionType;
+
+  it.each<[string, DuelLeg, number, ReturnType<typeof DuelService.judgeLeg>]>([
+    ['도전자만 맞춤', createLeg(UP, DOWN), 101, { result: 'challenger', outcome: 'up' }],
+    ['상대만 맞춤', createLeg(UP, DOWN), 99, { result: 'opponent', outcome: 'down' }],
+    ['둘 다 맞춤', createLeg(DOWN, DOWN), 99, { result: 'draw', outcome: 'down' }],
+    ['둘 다 틀림', createLeg(UP, UP), 99, { result: 'draw', outcome: 'down' }],
+    ['보합 허용 범위 안 상승', createLeg(UP, DOWN), 100.05, { result: 'draw', outcome: 'flat' }],
+    ['보합 허용 범위 안 하락', createLeg(UP, DOWN), 99.96, { result: 'draw', outcome: 'flat' }],
+    ['보합 허용 범위 바로 밖', createLeg(UP, DOWN), 100.06, { result: 'challenger', outcome: 'up' }],
+    ['도전자 미예측, 상대 맞춤', createLeg(undefined, DOWN), 99, { result: 'opponent', outcome: 'down' }],
+    ['상대 미예측, 도전자 맞춤', createLeg(UP, undefined), 101, { result: 'challenger', outcome: 'up' }],
+    ['한쪽 미예측, 다른 쪽 틀림', createLeg(UP, undefined), 99, { result: 'draw', outcome: 'down' }],
+    ['둘 다 미예측', createLeg(), 101, { result: 'draw', outcome: 'up' }],
+    ['보합이면 미예측도 무승부', createLeg(UP, undefined), 100, { result: 'draw', outcome: 'flat' }]
+  ])('%s', (_name, leg, endPrice, expected) => {
+    expect(DuelService.judgeLeg(leg, createRound(endPrice))).toEqual(expected);
+  });
+
+  it('보합 허용 범위가 0 이면 가격이 같을 때만 보합', () => {
+    expect(DuelService.judgeLeg(createLeg(UP, DOWN), createRound(100, 0))).toEqual({ result: 'draw', outcome: 'flat' });
+    expect(DuelService.judgeLeg(createLeg(UP, DOWN), createRound(100.01, 0))).toEqual({ result: 'challenger', outcome: 'up' });
+  });
+
+  it.each([GameStatus.VOID, GameStatus.CANCELLED, GameStatus.EXPIRED])('%s 라운드는 무효', status => {
+    expect(DuelService.judgeLeg(createLeg(UP, DOWN), createRound(101, 0.05, status))).toEqual({ result: 'void' });
+  });
+});
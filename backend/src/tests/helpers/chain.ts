@@ -0,0 +1,52 @@
+/**
+ * 체인 통합 테스트용 로컬 Hardhat 노드
+ * TEST_RPC_URL 이 지정된 경우에만 실행 (예: contracts 에서 `npx hardhat node` 후 http://127.0.0.1:8545)
+ * 컨트랙트를 배포하는 테스트는 contracts 에서 `npm run compile` 로 만든 아티팩트를 사용
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { InterfaceAbi, JsonRpcProvider, Wallet } from 'ethers';
+
+export const HARDHAT_CHAIN_ID = 31337;
+
+// Hardhat 기본 계정 #0, #1 (공개된 테스트 키, 로컬 노드 전용)
+// 테스트 파일이 동시에 실행되어도 nonce 가 겹치지 않도록 파일마다 다른 계정 사용
+export const HARDHAT_PRIVATE_KEYS = [
+  '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80',
+  '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d'
+];
+
+export const describeWithNode = process.env.TEST_RPC_URL ? describe : describe.skip;
+export const describeWithChain = process.env.TEST_DB_NAME && process.env.TEST_RPC_URL ? describe : describe.skip;
+
+/**
+ * 테스트용 provider (같은 요청의 결과를 잠시 재사용하는 캐시를 꺼서 직전 전송이 반영된 nonce/잔액을 읽음)
+ */
+export function createTestProvider(): JsonRpcProvider {
+  return new JsonRpcProvider(process.env.TEST_RPC_URL, HARDHAT_CHAIN_ID, { staticNetwork: true, cacheTimeout: -1 });
+}
+
+export function createTestWallet(account: number, provider: JsonRpcProvider = createTestProvider()): Wallet {
+  return new Wallet(HARDHAT_PRIVATE_KEYS[account], provider);
+}
+
+/**
+ * Hardhat 컴파일 아티팩트 (contracts/artifacts/contracts/<name>.sol/<name>.json)
+ */
+export function loadContractArtifact(name: string): { abi: InterfaceAbi; bytecode: string } {
+  const path = join(__dirname, '../../../../contracts/artifacts/contracts', `${name}.sol`, `${name}.json`);
+  try {
+    return JSON.parse(readFileSync(path, 'utf8'));
+  } catch {
+    throw new Error(`${name} 아티팩트가 없습니다. contracts 에서 npm run compile 을 먼저 실행하세요. (${path})`);
+  }
+}
+
+/**
+ * 다음 블록 시각을 지정하고 블록 생성 (트랜잭션 없이 시간만 진행)
+ */
+export async function mineAt(provider: JsonRpcProvider, timestamp: number): Promise<void> {
+  await provider.send('evm_setNextBlockTimestamp', [timestamp]);
+  await provider.send('evm_mine', []);
+}
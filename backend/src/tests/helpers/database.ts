@@ -0,0 +1,45 @@
+/**
+ * 통합 테스트용 데이터베이스
+ * TEST_DB_NAME 이 지정된 경우에만 실행 (DB_HOST/DB_PORT/DB_USER/DB_PASSWORD 는 서버 설정과 같음)
+ * 테스트 파일마다 별도 스키마를 지우고 엔티티 기준으로 다시 만들어 개발 DB 와 다른 테스트 파일에 영향을 주지 않음
+ */
+
+import { AppDataSource, closeDatabaseConnection, initializeDatabase } from '../../config/database';
+import { SocialProvider, User } from '../../models/User';
+
+export const describeWithDatabase = process.env.TEST_DB_NAME ? describe : describe.skip;
+
+/**
+ * 테스트 스키마 준비 (test_<name>)
+ */
+export async function setupTestDatabase(name: string): Promise<void> {
+  const schema = `test_${name}`;
+  AppDataSource.setOptions({
+    database: process.env.TEST_DB_NAME,
+    schema,
+    synchronize: false,
+    logging: false,
+    extra: { ...(AppDataSource.options as { extra?: object }).extra, options: `-c search_path=${schema},public` } // 직접 작성한 SQL 도 테스트 스키마 사용
+  });
+  await initializeDatabase();
+  await AppDataSource.query(`CREATE SCHEMA IF NOT EXISTS "${schema}"`);
+  await AppDataSource.synchronize(true);
+}
+
+export async function teardownTestDatabase(): Promise<void> {
+  await closeDatabaseConnection();
+}
+
+/**
+ * 테스트 사용자 생성
+ */
+export async function createTestUser(name: string, overrides: Partial<User> = {}): Promise<User> {
+  const repository = AppDataSource.getRepository(User);
+  return await repository.save(repository.create({
+    email: `${name}@test.local`,
+    username: name,
+    socialId: name,
+    socialProvider: SocialProvider.GOOGLE,
+    ...overrides
+  }));
+}
@@ -0,0 +1,128 @@
+import { evaluatePredictionTiming, isPriceStale } from '../utils/predictionTiming';
+import { gamePredictionGuardConfig, GamePredictionGuardConfig } from '../config/game';
+import { Game, GameStatus } from '../models/Game';
+import { GameService } from '../services/GameService';
+
+const config: GamePredictionGuardConfig = {
+  antiSnipeWindow: 3000,
+  maxPriceLatency: 5000,
+  maxClockSkew: 2000,
+  nearDeadlineWindow: 10000
+};
+
+const RECEIVED_AT = Date.parse('2026-01-01T00:00:00Z');
+
+describe('evaluatePredictionTiming', () => {
+  it('입력이 없으면 접수 시각만 기록', () => {
+    expect(evaluatePredictionTiming({ receivedAt: RECEIVED_AT }, config)).toEqual({ receivedAt: RECEIVED_AT, flags: [] });
+  });
+
+  it.each<[number, boolean]>([
+    [0, false],
+    [5000, false],
+    [5001, true],
+    [-1000, false]   // 접수 이후 집계된 가격
+  ])('기준 가격 지연 %ims → stale_price %s', (latency, flagged) => {
+    const timing = evaluatePredictionTiming({ receivedAt: RECEIVED_AT, priceTimestamp: RECEIVED_AT - latency }, config);
+
+    expect(timing.priceLatencyMs).toBe(latency);
+    expect(timing.flags.includes('stale_price')).toBe(flagged);
+  });
+
+  it('ISO 문자열 가격 시각도 해석하고, 해석할 수 없으면 지연을 기록하지 않음', () => {
+    const iso = evaluatePredictionTiming({ receivedAt: RECEIVED_AT, priceTimestamp: new Date(RECEIVED_AT - 6000).toISOString() }, config);
+    expect(iso.priceLatencyMs).toBe(6000);
+    expect(iso.flags).toEqual(['stale_price']);
+
+    const invalid = evaluatePredictionTiming({ receivedAt: RECEIVED_AT, priceTimestamp: 'not-a-date' }, config);
+    expect(invalid.priceLatencyMs).toBeUndefined();
+    expect(invalid.flags).toEqual([]);
+  });
+
+  it.each<[number, boolean]>([
+    [2000, false],
+    [-2000, false],
+    [2001, true],
+    [-2001, true]
+  ])('시계 차이 %ims → clock_skew %s', (skew, flagged) => {
+    const timing = evaluatePredictionTiming({ receivedAt: RECEIVED_AT, clientTimestamp: RECEIVED_AT - skew }, config);
+
+    expect(timing.clockSkewMs).toBe(skew);
+    expect(timing.flags.includes('clock_skew')).toBe(flagged);
+  });
+
+  it.each<[number, boolean]>([
+    [10001, false],
+    [10000, true],
+    [1, true],
+    [0, true]
+  ])('마감까지 %ims → near_deadline %s', (margin, flagged) => {
+    const timing = evaluatePredictionTiming({
+      receivedAt: RECEIVED_AT,
+      predictionDeadline: new Date(RECEIVED_AT + margin)
+    }, config);
+
+    expect(timing.deadlineMarginMs).toBe(margin);
+    expect(timing.flags.includes('near_deadline')).toBe(flagged);
+  });
+
+  it('여러 의심 패턴을 함께 표시', () => {
+    const timing = evaluatePredictionTiming({
+      receivedAt: RECEIVED_AT,
+      priceTimestamp: RECEIVED_AT - 9000,
+      clientTimestamp: RECEIVED_AT + 5000,
+      predictionDeadline: new Date(RECEIVED_AT + 4000)
+    }, config);
+
+    expect(timing.flags).toEqual(['stale_price', 'clock_skew', 'near_deadline']);
+  });
+});
+
+describe('isPriceStale', () => {
+  it.each<[string | number, boolean]>([
+    [RECEIVED_AT - 5000, false],
+    [RECEIVED_AT - 5001, true],
+    [new Date(RECEIVED_AT - 1000).toISOString(), false],
+    ['not-a-date', true]
+  ])('가격 시각 %s → %s', (priceTimestamp, stale) => {
+    expect(isPriceStale(RECEIVED_AT, priceTimestamp, config)).toBe(stale);
+  });
+});
+
+describe('GameService.assertPredictionOpen (마감 직전 거절 구간)', () => {
+  const gameService = new GameService();
+  const deadline = RECEIVED_AT + 60000;
+  const window = gamePredictionGuardConfig.antiSnipeWindow;
+
+  const createRound = (status: GameStatus = GameStatus.WAITING): Game => {
+    const game = new Game();
+    game.status = status;
+    game.predictionDeadline = new Date(deadline);
+    return game;
+  };
+
+  it.each<[string, number]>([
+    ['마감 1분 전', deadline - 60000],
+    ['거절 구간 직전', deadline - window - 1]
+  ])('%s 은 접수', (_name, now) => {
+    expect(() => gameService.assertPredictionOpen(createRound(), now)).not.toThrow();
+  });
+
+  it.each<[string, number]>([
+    ['거절 구간 시작', deadline - window],
+    ['마감 1ms 전', deadline - 1]
+  ])('%s 은 마감 직전 구간으로 거절', (_name, now) => {
+    expect(() => gameService.assertPredictionOpen(createRound(), now)).toThrow(`예측 마감 ${Math.ceil(window / 1000)}초 전부터는`);
+  });
+
+  it.each<[string, number]>([
+    ['마감 시각', deadline],
+    ['마감 이후', deadline + 1]
+  ])('%s 은 마감으로 거절', (_name, now) => {
+    expect(() => gameService.assertPredictionOpen(createRound(), now)).toThrow('예측이 마감된 게임입니다.');
+  });
+
+  it('진행 중인 라운드는 마감 전이어도 거절', () => {
+    expect(() => gameService.assertPredictionOpen(createRound(GameStatus.ACTIVE), deadline - 60000)).toThrow('예측이 마감된 게임입니다.');
+  });
+});
@@ -0,0 +1,139 @@
+import { priceAlertConfig } from '../config/priceAlerts';
+import { AppDataSource } from '../config/database';
+import { PriceAlert } from '../models/PriceAlert';
+import { PriceAlertService } from '../services/PriceAlertService';
+import { PriceAlertTriggeredPayload, WebSocketService } from '../services/WebSocketService';
+import { createTestUser, describeWithDatabase, setupTestDatabase, teardownTestDatabase } from './helpers/database';
+
+const lookupPrice = async (): Promise<{ price: number }> => ({ price: 100 });
+
+describeWithDatabase('PriceAlertService 사용자별 한도 (동시 요청)', () => {
+  const service = PriceAlertService.getInstance();
+  const limits = { ...priceAlertConfig };
+
+  beforeAll(async () => {
+    await setupTestDatabase('price_alert');
+    priceAlertConfig.maxPerUser = 5;
+    priceAlertConfig.maxActivePerUser = 3;
+  });
+
+  afterAll(async () => {
+    Object.assign(priceAlertConfig, limits);
+    await teardownTestDatabase();
+  });
+
+  it('동시에 등록해도 전체 한도를 넘지 않음', async () => {
+    const user = await createTestUser('alert_total');
+
+    const results = await Promise.allSettled(Array.from({ length: 12 }, () =>
+      service.createAlert(user.id, { tokenSymbol: 'BTC', condition: 'above', targetPrice: 200, isActive: false }, lookupPrice)
+    ));
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(5);
+    expect(await AppDataSource.getRepository(PriceAlert).count({ where: { userId: user.id } })).toBe(5);
+  });
+
+  it('동시에 다시 활성화해도 활성 한도를 넘지 않음', async () => {
+    const user = await createTestUser('alert_active');
+    const alerts: PriceAlert[] = [];
+    for (let i = 0; i < 5; i++) {
+      alerts.push(await service.createAlert(user.id, { tokenSymbol: 'BTC', condition: 'below', targetPrice: 50, isActive: false }, lookupPrice));
+    }
+
+    const results = await Promise.allSettled(alerts.map(alert =>
+      service.updateAlert(alert.id, user.id, { isActive: true }, lookupPrice)
+    ));
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(3);
+    expect(await AppDataSource.getRepository(PriceAlert).count({ where: { userId: user.id, isActive: true } })).toBe(3);
+  });
+});
+
+describeWithDatabase('PriceAlertService 발동 기록 (연결이 없으면 전달 보류 후 재전송)', () => {
+  const service = PriceAlertService.getInstance();
+  const sent: PriceAlertTriggeredPayload[] = [];
+  let connected = false;
+  let clock = Date.now();
+
+  // 매번 새 집계 시각의 가격으로 평가
+  const evaluateAt = (price: number): Promise<number> => {
+    clock += 1000;
+    return service.evaluate({ symbol: 'BTC', price, timestamp: new Date(clock).toISOString() });
+  };
+
+  beforeAll(async () => {
+    await setupTestDatabase('price_alert_notification');
+  });
+
+  afterAll(async () => {
+    await teardownTestDatabase();
+  });
+
+  beforeEach(() => {
+    connected = false;
+    sent.length = 0;
+    jest.spyOn(WebSocketService.getInstance(), 'publishPriceAlert').mockImplementation(payload => {
+      if (!connected) {
+        return 0;
+      }
+      sent.push(payload);
+      return 1;
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('받을 연결이 없으면 한 번만 울리는 알림이 비활성화되어도 발동 기록은 남고, 다음 구독 때 한 번만 전달', async () => {
+    const user = await createTestUser('alert_offline');
+    const alert = await service.createAlert(user.id, { tokenSymbol: 'BTC', condition: 'above', targetPrice: 110 }, lookupPrice);
+
+    expect(await evaluateAt(120)).toBe(1);
+
+    const fired = await AppDataSource.getRepository(PriceAlert).findOneByOrFail({ id: alert.id });
+    expect(fired.isActive).toBe(false);
+    const [pending, ...rest] = await service.getNotifications(user.id, true);
+    expect(rest).toHaveLength(0);
+    expect(pending.toJSON()).toMatchObject({ alertId: alert.id, tokenSymbol: 'BTC', price: 120, targetPrice: 110, deliveredAt: null });
+
+    connected = true;
+    expect(await service.deliverPending(user.id)).toBe(1);
+    expect(sent).toEqual([expect.objectContaining({ notificationId: pending.id, userId: user.id, alertId: alert.id, price: 120 })]);
+    expect(await service.getNotifications(user.id, true)).toHaveLength(0);
+
+    expect(await service.deliverPending(user.id)).toBe(0);
+    expect(sent).toHaveLength(1);
+  });
+
+  it('받을 연결이 있으면 발동과 함께 전달 처리', async () => {
+    const user = await createTestUser('alert_online');
+    await service.createAlert(user.id, { tokenSymbol: 'BTC', condition: 'below', targetPrice: 90 }, lookupPrice);
+    connected = true;
+
+    expect(await evaluateAt(80)).toBe(1);
+
+    expect(sent).toHaveLength(1);
+    const [notification] = await service.getNotifications(user.id);
+    expect(sent[0].notificationId).toBe(notification.id);
+    expect(notification.deliveredAt).toBeInstanceOf(Date);
+  });
+
+  it('API 로 확인 처리한 기록은 재전송하지 않음', async () => {
+    const user = await createTestUser('alert_ack');
+    await service.createAlert(user.id, { tokenSymbol: 'BTC', condition: 'above', targetPrice: 1000 }, lookupPrice);
+    await service.createAlert(user.id, { tokenSymbol: 'BTC', condition: 'above', targetPrice: 1100 }, lookupPrice);
+
+    expect(await evaluateAt(1200)).toBe(2);
+    const [first, second] = await service.getNotifications(user.id, true);
+
+    expect(await service.acknowledgeNotifications(user.id, [first.id])).toBe(1);
+    expect((await service.getNotifications(user.id, true)).map(notification => notification.id)).toEqual([second.id]);
+    expect(await service.acknowledgeNotifications(user.id)).toBe(1);
+    expect(await service.acknowledgeNotifications(user.id)).toBe(0);
+
+    connected = true;
+    expect(await service.deliverPending(user.id)).toBe(0);
+    expect(sent).toHaveLength(0);
+  });
+});
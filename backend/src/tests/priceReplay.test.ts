@@ -0,0 +1,229 @@
+import { buildReplaySeries, getPriceAt, getReplayPrice, getReplayTime, getVisibleReplaySeries } from '../utils/priceReplay';
+import { AppDataSource } from '../config/database';
+import { Game, GameStatus, PRACTICE_GAME_TYPE, PracticeReplay } from '../models/Game';
+import { CandleInterval, CandleSource, PriceCandle } from '../models/PriceCandle';
+import { PriceTick } from '../models/PriceTick';
+import { PracticeService } from '../services/PracticeService';
+import { createTestUser, describeWithDatabase, setupTestDatabase, teardownTestDatabase } from './helpers/database';
+
+const OPEN_AT = Date.parse('2026-01-01T00:00:00Z');
+const START_AT = OPEN_AT + 30000;
+const END_AT = START_AT + 60000;
+
+const replay: PracticeReplay = {
+  speed: 10,
+  openAt: OPEN_AT,
+  startAt: START_AT,
+  endAt: END_AT,
+  startPrice: 100,
+  endPrice: 104,
+  series: buildReplaySeries([
+    { timestamp: OPEN_AT + 10000, price: 99 },
+    { timestamp: START_AT + 15000, price: 101 },
+    { timestamp: START_AT + 45000, price: 103 }
+  ], { openAt: OPEN_AT, startAt: START_AT, endAt: END_AT, startPrice: 100, endPrice: 104 })
+};
+
+// 10배속: 예측 3초, 진행 6초
+const CREATED_AT = Date.parse('2026-06-01T00:00:00Z');
+const STARTED_AT = CREATED_AT + 3000;
+
+const createRound = (status: GameStatus): Game => {
+  const game = new Game();
+  game.status = status;
+  game.createdAt = new Date(CREATED_AT);
+  game.predictionWindow = 3000;
+  game.duration = 6000;
+  if (status !== GameStatus.WAITING) {
+    game.startedAt = new Date(STARTED_AT);
+  }
+  return game;
+};
+
+describe('getReplayTime', () => {
+  it.each<[number, number]>([
+    [0, OPEN_AT],
+    [1500, OPEN_AT + 15000],
+    [3000, START_AT],
+    [4500, START_AT],    // 예측 시간이 지나도 시작 전까지는 구간 끝에 고정
+    [-1000, OPEN_AT]     // 생성 이전 시각은 구간 시작
+  ])('WAITING, 생성 후 %ims → 예측 구간 비율', (elapsed, expected) => {
+    expect(getReplayTime(createRound(GameStatus.WAITING), replay, CREATED_AT + elapsed)).toBe(expected);
+  });
+
+  it.each<[number, number]>([
+    [0, START_AT],
+    [1500, START_AT + 15000],
+    [3000, START_AT + 30000],
+    [6000, END_AT],
+    [9000, END_AT]
+  ])('ACTIVE, 시작 후 %ims → 진행 구간 비율', (elapsed, expected) => {
+    expect(getReplayTime(createRound(GameStatus.ACTIVE), replay, STARTED_AT + elapsed)).toBe(expected);
+  });
+
+  it('시간이 0 이면 구간 끝', () => {
+    const game = createRound(GameStatus.WAITING);
+    game.predictionWindow = 0;
+    expect(getReplayTime(game, replay, CREATED_AT)).toBe(START_AT);
+  });
+
+  it.each<[GameStatus, number]>([
+    [GameStatus.COMPLETED, END_AT],
+    [GameStatus.CANCELLED, START_AT],
+    [GameStatus.VOID, START_AT]
+  ])('%s 라운드 → 고정 시각', (status, expected) => {
+    expect(getReplayTime(createRound(status), replay, STARTED_AT)).toBe(expected);
+  });
+});
+
+describe('getReplayPrice', () => {
+  it.each<[string, number, number]>([
+    ['첫 가격 이전', OPEN_AT, 99],              // 첫 가격으로 대체
+    ['예측 중 가격', OPEN_AT + 10000, 99],
+    ['시작 직전', START_AT - 1, 99],
+    ['시작 시각', START_AT, 100],
+    ['진행 중', START_AT + 20000, 101],
+    ['종료 직전', END_AT - 1, 103],
+    ['종료 시각', END_AT, 104],
+    ['종료 이후', END_AT + 1000, 104]
+  ])('%s', (_name, at, price) => {
+    expect(getReplayPrice(replay, at)).toBe(price);
+  });
+
+  it('가격이 없으면 시작 가격', () => {
+    expect(getReplayPrice({ ...replay, series: [] }, START_AT)).toBe(100);
+  });
+
+  it('라운드 상태 전환 시점의 재생 가격은 확정한 시작/종료 가격', () => {
+    expect(getReplayPrice(replay, getReplayTime(createRound(GameStatus.ACTIVE), replay, STARTED_AT))).toBe(replay.startPrice);
+    expect(getReplayPrice(replay, getReplayTime(createRound(GameStatus.COMPLETED), replay))).toBe(replay.endPrice);
+  });
+});
+
+describe('getPriceAt', () => {
+  const points = [{ timestamp: 1000, price: 10 }, { timestamp: 2000, price: 20 }];
+
+  it.each<[number, number]>([
+    [0, 10],      // 첫 가격 이전은 첫 가격
+    [1000, 10],
+    [1999, 10],
+    [2000, 20],
+    [5000, 20]
+  ])('%i → %d', (at, price) => {
+    expect(getPriceAt(points, at)).toBe(price);
+  });
+
+  it('가격이 없으면 null', () => {
+    expect(getPriceAt([], 1000)).toBeNull();
+  });
+});
+
+describe('getVisibleReplaySeries', () => {
+  it('재생 시각 이후 가격은 공개하지 않음', () => {
+    expect(getVisibleReplaySeries(replay, START_AT + 20000).map(point => point.price)).toEqual([99, 100, 101]);
+    expect(getVisibleReplaySeries(replay, OPEN_AT)).toEqual([]);
+    expect(getVisibleReplaySeries(replay, END_AT)).toHaveLength(5);
+  });
+});
+
+describe('buildReplaySeries', () => {
+  const window = { openAt: OPEN_AT, startAt: START_AT, endAt: END_AT, startPrice: 100, endPrice: 104 };
+
+  it('시작/종료 시각 가격은 저장된 값이 있어도 확정한 시작/종료 가격으로 고정', () => {
+    const series = buildReplaySeries([
+      { timestamp: START_AT, price: 98 },
+      { timestamp: END_AT, price: 110 }
+    ], window);
+
+    expect(series).toEqual([
+      { timestamp: START_AT, price: 100 },
+      { timestamp: END_AT, price: 104 }
+    ]);
+  });
+
+  it('구간 밖, 잘못된 가격 제외 후 시간순 정렬하고 같은 시각은 마지막 값', () => {
+    const series = buildReplaySeries([
+      { timestamp: START_AT + 2000, price: 102 },
+      { timestamp: OPEN_AT - 1, price: 90 },
+      { timestamp: END_AT + 1, price: 120 },
+      { timestamp: START_AT + 1000, price: 0 },
+      { timestamp: START_AT + 1000, price: Number.NaN },
+      { timestamp: OPEN_AT, price: 97 },
+      { timestamp: START_AT + 2000, price: 102.5 }
+    ], window);
+
+    expect(series).toEqual([
+      { timestamp: OPEN_AT, price: 97 },
+      { timestamp: START_AT, price: 100 },
+      { timestamp: START_AT + 2000, price: 102.5 },
+      { timestamp: END_AT, price: 104 }
+    ]);
+  });
+});
+
+describeWithDatabase('PracticeService 재생 구간 (저장된 1분봉과 틱)', () => {
+  const MINUTE = 60000;
+  // 최근 정규 라운드 없이 하루 전 1분봉만 저장된 상태
+  const BASE = Math.floor(Date.now() / (60 * MINUTE)) * 60 * MINUTE - 24 * 60 * MINUTE;
+  let practiceService: PracticeService;
+
+  const saveCandle = async (openTime: number, open: number, close: number): Promise<void> => {
+    await AppDataSource.getRepository(PriceCandle).save({
+      symbol: 'BTC',
+      interval: CandleInterval.ONE_MINUTE,
+      openTime: new Date(openTime),
+      open,
+      high: Math.max(open, close),
+      low: Math.min(open, close),
+      close,
+      tickCount: 6,
+      source: CandleSource.TICKS
+    });
+  };
+
+  beforeAll(async () => {
+    await setupTestDatabase('price_replay');
+    practiceService = new PracticeService();
+
+    // 이어진 1분봉은 BASE, BASE + 1분 두 개뿐 (BASE + 3분 봉은 떨어져 있어 1m 등급 구간을 채우지 못함)
+    await saveCandle(BASE, 100, 101);
+    await saveCandle(BASE + MINUTE, 101, 103);
+    await saveCandle(BASE + 3 * MINUTE, 90, 91);
+    await AppDataSource.getRepository(PriceTick).save({
+      symbol: 'BTC',
+      price: 102.5,
+      provider: 'binance',
+      observedAt: new Date(BASE + 90000)
+    });
+  });
+
+  afterAll(async () => {
+    await teardownTestDatabase();
+  });
+
+  it('1분봉이 모두 저장된 구간을 골라 봉 경계의 종가로 시작/종료 가격을 정함', async () => {
+    const user = await createTestUser('practice_candles');
+
+    const game = await practiceService.startPractice(user.id, 'BTC', '1m');
+    const replay = game.metadata?.replay as PracticeReplay;
+
+    expect(game.gameType).toBe(PRACTICE_GAME_TYPE);
+    expect(game.status).toBe(GameStatus.WAITING);
+    expect(replay).toMatchObject({ openAt: BASE + 30000, startAt: BASE + MINUTE, endAt: BASE + 2 * MINUTE, startPrice: 101, endPrice: 103 });
+    expect(replay.series).toEqual([
+      { timestamp: BASE + MINUTE, price: 101 },
+      { timestamp: BASE + 90000, price: 102.5 },
+      { timestamp: BASE + 2 * MINUTE, price: 103 }
+    ]);
+    expect(await AppDataSource.getRepository(Game).count()).toBe(1);
+  });
+
+  it('저장된 1분봉으로 구간을 채울 수 없으면 404', async () => {
+    const user = await createTestUser('practice_no_candles');
+
+    await expect(practiceService.startPractice(user.id, 'ETH', '1m')).rejects.toMatchObject({
+      statusCode: 404,
+      message: '재생할 수 있는 과거 가격이 없습니다.'
+    });
+  });
+});
@@ -0,0 +1,176 @@
+import { calculatePredictionScore, getMaxStreakTier, getScoringRuleSet, ScoringInput } from '../utils/scoring';
+import { GAME_ROUND_TIERS } from '../config/game';
+import { GamePrediction, GamePredictionStatus, GamePredictionType } from '../models/GamePrediction';
+
+describe('calculatePredictionScore', () => {
+  describe('기본 점수와 변화율 보너스', () => {
+    it.each<[string, string, Partial<ScoringInput>, number, number]>([
+      ['v1 성공', 'v1', { priceChangePercent: 1 }, 100, 2],
+      ['v1 변화율 보너스 상한', 'v1', { priceChangePercent: 40 }, 100, 50],
+      ['v2 하락 변화율도 절댓값', 'v2', { priceChangePercent: -2.4 }, 100, 5],
+      ['v2 변화 없음', 'v2', { priceChangePercent: 0 }, 100, 0]
+    ])('%s', (_name, version, input, base, accuracy) => {
+      const breakdown = calculatePredictionScore({ isCorrect: true, priceChangePercent: 0, ...input }, version);
+
+      expect(breakdown.version).toBe(version);
+      expect(breakdown.base).toBe(base);
+      expect(breakdown.accuracy).toBe(accuracy);
+      expect(breakdown.total).toBe(breakdown.base + breakdown.accuracy + breakdown.speed + breakdown.streak + breakdown.confidence);
+    });
+
+    it('없는 규칙 버전이면 예외', () => {
+      expect(() => calculatePredictionScore({ isCorrect: true, priceChangePercent: 1 }, 'v0')).toThrow('v0');
+    });
+  });
+
+  describe('속도 보너스 (v2)', () => {
+    it.each<[number | undefined, number]>([
+      [undefined, 0],
+      [0, 30],
+      [0.25, 30],
+      [0.2501, 15],
+      [0.5, 15],
+      [0.75, 5],
+      [0.76, 0],
+      [1, 0],
+      [-1, 30],   // 0 으로 보정
+      [2, 0]      // 1 로 보정
+    ])('경과 비율 %s → %i점', (elapsedRatio, points) => {
+      const breakdown = calculatePredictionScore({ isCorrect: true, priceChangePercent: 0, elapsedRatio }, 'v2');
+      expect(breakdown.speed).toBe(points);
+    });
+
+    it('v1 은 속도 보너스 없음', () => {
+      expect(calculatePredictionScore({ isCorrect: true, priceChangePercent: 0, elapsedRatio: 0 }, 'v1').speed).toBe(0);
+    });
+  });
+
+  describe('연승 보너스 (v2)', () => {
+    it.each<[number, number, number]>([
+      [0, 1, 0],
+      [1, 2, 10],
+      [2, 3, 20],
+      [4, 5, 50],
+      [9, 10, 100],
+      [30, 31, 100]
+    ])('직전 %i연승 → %i연승, %i점', (previousStreak, streakCount, points) => {
+      const breakdown = calculatePredictionScore({ isCorrect: true, priceChangePercent: 0, previousStreak }, 'v2');
+      expect(breakdown.streakCount).toBe(streakCount);
+      expect(breakdown.streak).toBe(points);
+    });
+
+    it('정산 시 조회할 최대 연승 구간', () => {
+      expect(getMaxStreakTier('v2')).toBe(10);
+      expect(getMaxStreakTier('v1')).toBe(0);
+    });
+  });
+
+  describe('신뢰도', () => {
+    it.each<[boolean, number | undefined, number]>([
+      [true, undefined, 0],
+      [true, 5, 0],
+      [true, 8, 30],
+      [true, 15, 50],   // 10 으로 보정
+      [true, 1, 0],
+      [false, 5, 0],
+      [false, 8, -15],
+      [false, 10, -25]
+    ])('성공 %s, 신뢰도 %s → %i점', (isCorrect, confidence, points) => {
+      const breakdown = calculatePredictionScore({ isCorrect, priceChangePercent: 1, confidence }, 'v2');
+      expect(breakdown.confidence).toBe(points);
+    });
+  });
+
+  describe('실패와 보합', () => {
+    it('실패는 감점만 남기고 연승을 끊음', () => {
+      const breakdown = calculatePredictionScore({
+        isCorrect: false,
+        priceChangePercent: 3,
+        elapsedRatio: 0,
+        previousStreak: 4,
+        confidence: 7
+      }, 'v2');
+
+      expect(breakdown).toEqual({
+        version: 'v2',
+        base: 0,
+        accuracy: 0,
+        speed: 0,
+        streak: 0,
+        confidence: -10,
+        total: -10,
+        streakCount: 0
+      });
+    });
+
+    it.each<[string, boolean, number]>([
+      ['보합 (방향 맞음)', true, 4],
+      ['보합 (방향 틀림)', false, 4],
+      ['보합 (연승 없음)', false, 0]
+    ])('%s 은 0점이고 직전 연승 유지', (_name, isCorrect, previousStreak) => {
+      const breakdown = calculatePredictionScore({
+        isCorrect,
+        isDraw: true,
+        priceChangePercent: 0.01,
+        elapsedRatio: 0,
+        previousStreak,
+        confidence: 10
+      }, 'v2');
+
+      expect(breakdown.total).toBe(0);
+      expect(breakdown.confidence).toBe(0);
+      expect(breakdown.streakCount).toBe(previousStreak);
+    });
+  });
+});
+
+describe('GamePrediction 정산과 등급 가중치', () => {
+  const createPrediction = (predictionType: GamePredictionType, multiplier?: number): GamePrediction => {
+    const prediction = new GamePrediction();
+    prediction.predictionType = predictionType;
+    prediction.predictionPrice = 100;
+    prediction.status = GamePredictionStatus.PENDING;
+    if (multiplier !== undefined) {
+      prediction.metadata = { predictionTimestamp: 0, predictionPrice: 100, gameDuration: 60000, rankingMultiplier: multiplier };
+    }
+    return prediction;
+  };
+
+  it.each<[GamePredictionType, number, number, GamePredictionStatus]>([
+    [GamePredictionType.UP, 101, 0, GamePredictionStatus.WIN],
+    [GamePredictionType.DOWN, 101, 0, GamePredictionStatus.LOSE],
+    [GamePredictionType.UP, 100.04, 0.05, GamePredictionStatus.DRAW],
+    [GamePredictionType.DOWN, 99.95, 0.05, GamePredictionStatus.DRAW],
+    [GamePredictionType.DOWN, 99.9, 0.05, GamePredictionStatus.WIN],
+    [GamePredictionType.UP, 100, 0, GamePredictionStatus.DRAW]
+  ])('%s 예측, 결과 %d, 보합 허용 %d% → %s', (predictionType, resultPrice, tolerance, status) => {
+    const prediction = createPrediction(predictionType);
+    prediction.updateResult(resultPrice, { previousStreak: 0 }, tolerance);
+
+    expect(prediction.status).toBe(status);
+    expect(prediction.metadata?.scoreBreakdown?.total).toBe(prediction.scoreEarned);
+    if (status === GamePredictionStatus.DRAW) {
+      expect(prediction.scoreEarned).toBe(0);
+    }
+  });
+
+  it.each(Object.values(GAME_ROUND_TIERS).map(tier => [tier.id, tier.pointMultiplier] as [string, number]))(
+    '%s 등급 랭킹 점수는 예측 점수 x %d',
+    (_tier, multiplier) => {
+      const prediction = createPrediction(GamePredictionType.UP, multiplier);
+      prediction.updateResult(101, { previousStreak: 0, elapsedRatio: 1 }, 0);
+
+      expect(prediction.scoreEarned).toBe(getScoringRuleSet().base + 2);
+      expect(prediction.rankingPoints).toBe(Math.round(prediction.scoreEarned * multiplier));
+    }
+  );
+
+  it('가중치가 없으면 예측 점수 그대로, 감점도 가중', () => {
+    expect(createPrediction(GamePredictionType.UP).rankingPoints).toBe(0);
+
+    const prediction = createPrediction(GamePredictionType.UP, 1.5);
+    prediction.updateResult(99, { previousStreak: 0, confidence: 10 }, 0);
+    expect(prediction.scoreEarned).toBe(-25);
+    expect(prediction.rankingPoints).toBe(Math.round(-25 * 1.5));
+  });
+});
@@ -0,0 +1,7 @@
+/**
+ * Jest 공통 설정
+ * 테스트 파일이 모듈을 불러오기 전에 실행되므로 설정 모듈이 읽는 환경변수를 여기서 지정
+ */
+
+process.env.NODE_ENV = 'test';
+process.env.LOG_LEVEL = process.env.LOG_LEVEL || 'error';
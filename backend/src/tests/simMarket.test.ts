@@ -0,0 +1,175 @@
+import { AppDataSource } from '../config/database';
+import { gameRoundConfig, getRoundTier } from '../config/game';
+import { priceOracleConfig } from '../config/price';
+import { simMarketConfig } from '../config/simMarket';
+import { Game, GameStatus } from '../models/Game';
+import { GamePrediction, GamePredictionStatus, GamePredictionType } from '../models/GamePrediction';
+import { PriceAlert } from '../models/PriceAlert';
+import { SettlementPriceKind } from '../models/SettlementRecord';
+import { GameRoundScheduler } from '../services/GameRoundScheduler';
+import { GameService } from '../services/GameService';
+import { PriceAlertService } from '../services/PriceAlertService';
+import { PriceService, SymbolPrice } from '../services/PriceService';
+import { SettlementService } from '../services/SettlementService';
+import { SimMarket } from '../services/SimMarket';
+import { WebSocketService } from '../services/WebSocketService';
+import { createTestUser, describeWithDatabase, setupTestDatabase, teardownTestDatabase } from './helpers/database';
+
+const START = Date.parse('2026-01-01T00:00:00Z');
+const SECOND = 1000;
+
+// 시계만 고정 (DB 드라이버가 쓰는 타이머는 실제 시간으로 동작)
+const REAL_TIMERS = [
+  'hrtime', 'nextTick', 'performance', 'queueMicrotask', 'requestAnimationFrame', 'cancelAnimationFrame',
+  'requestIdleCallback', 'cancelIdleCallback', 'setImmediate', 'clearImmediate', 'setInterval', 'clearInterval',
+  'setTimeout', 'clearTimeout'
+] as const;
+
+// 응답을 막지 않도록 비동기로 처리되는 작업(가격 알림 평가) 대기
+const waitFor = async (check: () => Promise<boolean>, timeout: number = 5000): Promise<void> => {
+  const until = Date.now() + timeout;
+  while (!await check()) {
+    if (Date.now() > until) {
+      throw new Error('조건을 기다리다 시간 초과');
+    }
+    await new Promise(resolve => setTimeout(resolve, 50));
+  }
+};
+
+describeWithDatabase('시뮬레이션 시장 (PRICE_PROVIDER=sim) 라운드와 가격 알림', () => {
+  const configs = {
+    sim: { ...simMarketConfig },
+    providers: priceOracleConfig.providers,
+    rounds: { ...gameRoundConfig }
+  };
+  const scheduler = GameRoundScheduler.getInstance();
+  let market: SimMarket;
+  let priceService: PriceService;
+  let gameService: GameService;
+
+  const at = (offsetSeconds: number): number => START + offsetSeconds * SECOND;
+
+  // 시계를 시뮬레이션 시작 후 offsetSeconds 초로 옮김
+  const advanceTo = (offsetSeconds: number): void => {
+    jest.setSystemTime(at(offsetSeconds));
+  };
+
+  const predict = async (game: Game, userId: string, predictionType: GamePredictionType): Promise<GamePrediction> => {
+    const price = await gameService.getReceiptPrice(game, Date.now());
+    const prediction = new GamePrediction();
+    prediction.gameId = game.id;
+    prediction.userId = userId;
+    prediction.predictionType = predictionType;
+    prediction.predictionPrice = price?.price || game.startPrice;
+    prediction.stake = 0;
+    prediction.updateMetadata({ predictionTimestamp: Date.now(), predictionPrice: prediction.predictionPrice, gameDuration: game.duration });
+    return await gameService.placePrediction(prediction);
+  };
+
+  beforeAll(async () => {
+    jest.useFakeTimers({ doNotFake: [...REAL_TIMERS], now: at(60) });
+
+    // BTC 는 시작 120초 후부터 60초 동안 20% 하락
+    Object.assign(simMarketConfig, {
+      enabled: true,
+      seed: 'e2e',
+      model: 'gbm',
+      tickMs: SECOND,
+      startTime: START,
+      scenarios: [{ symbol: 'BTC', type: 'crash', magnitude: 20, durationMs: 60 * SECOND, startOffsetMs: 120 * SECOND }]
+    });
+    priceOracleConfig.providers = ['sim'];
+    Object.assign(gameRoundConfig, { symbols: ['BTC'], tiers: [getRoundTier('1m')] });
+
+    await setupTestDatabase('sim_market');
+    market = SimMarket.getInstance();
+    priceService = new PriceService();
+    gameService = new GameService();
+  });
+
+  afterAll(async () => {
+    scheduler.stop();
+    jest.useRealTimers();
+    Object.assign(simMarketConfig, configs.sim);
+    priceOracleConfig.providers = configs.providers;
+    Object.assign(gameRoundConfig, configs.rounds);
+    await teardownTestDatabase();
+  });
+
+  it('같은 시드와 시각이면 같은 가격 경로', () => {
+    const first = [at(60), at(90), at(150)].map(time => market.priceAt('BTC', time));
+    const second = [at(60), at(90), at(150)].map(time => market.priceAt('BTC', time));
+
+    expect(second).toEqual(first);
+    expect(market.priceAt('BTC', START - SECOND)).toBe(65000);
+    expect(market.priceAt('BTC', at(180))).toBeLessThan(market.priceAt('BTC', at(120)) * 0.85);
+  });
+
+  it('라운드 생성 → 시작 → 정산 후 하락 예측만 승리하고, 하락 도중 가격 알림이 발동', async () => {
+    const up = await createTestUser('sim_up');
+    const down = await createTestUser('sim_down');
+    const watcher = await createTestUser('sim_watcher');
+    const alertService = PriceAlertService.getInstance();
+    const published = jest.spyOn(WebSocketService.getInstance(), 'publishPriceAlert');
+    const lookupPrice = (symbol: string): Promise<SymbolPrice | null> => priceService.getCurrentPriceBySymbol(symbol, true);
+
+    const openPrice = market.priceAt('BTC', at(60));
+    const below = await alertService.createAlert(watcher.id, { tokenSymbol: 'BTC', condition: 'below', targetPrice: Math.round(openPrice * 0.95) }, lookupPrice);
+    const above = await alertService.createAlert(watcher.id, { tokenSymbol: 'BTC', condition: 'above', targetPrice: Math.round(openPrice * 1.05) }, lookupPrice);
+
+    // 첫 점검에서 라운드 생성 (예측 마감 30초 후)
+    await scheduler.start();
+    scheduler.stop();
+
+    const game = await AppDataSource.getRepository(Game).findOneOrFail({ where: { tokenSymbol: 'BTC', tier: '1m' } });
+    expect(game.status).toBe(GameStatus.WAITING);
+    expect(Number(game.startPrice)).toBeCloseTo(openPrice, 6);
+
+    await predict(game, up.id, GamePredictionType.UP);
+    await predict(game, down.id, GamePredictionType.DOWN);
+
+    // 예측 마감 → 시작 가격 확정
+    advanceTo(90);
+    await scheduler.tick();
+    const active = await AppDataSource.getRepository(Game).findOneByOrFail({ id: game.id });
+    expect(active.status).toBe(GameStatus.ACTIVE);
+    expect(Number(active.startPrice)).toBe(Number(market.priceAt('BTC', at(90)).toFixed(8)));
+
+    // 종료 시각 (하락 구간 중간) → 정산
+    advanceTo(150);
+    await scheduler.tick();
+    const settled = await AppDataSource.getRepository(Game).findOneByOrFail({ id: game.id });
+    expect(settled.status).toBe(GameStatus.COMPLETED);
+    expect(Number(settled.endPrice)).toBe(Number(market.priceAt('BTC', at(150)).toFixed(8)));
+
+    const predictions = await AppDataSource.getRepository(GamePrediction).find({ where: { gameId: game.id } });
+    const statusOf = (userId: string): GamePredictionStatus | undefined => predictions.find(prediction => prediction.userId === userId)?.status;
+    expect(statusOf(down.id)).toBe(GamePredictionStatus.WIN);
+    expect(statusOf(up.id)).toBe(GamePredictionStatus.LOSE);
+
+    // 종료 기록에 예측별 판정 근거 해시가 서명되고, 정산 후 기준 가격이 바뀌면 검증 실패
+    const settlementService = new SettlementService();
+    const { records, predictions: basis } = await settlementService.getGameRecords(game.id);
+    const end = records.find(({ record }) => record.kind === SettlementPriceKind.END);
+    expect(basis.map(item => item.predictionId).sort()).toEqual(predictions.map(prediction => prediction.id).sort());
+    expect(end?.record.predictionsHash).toBe(SettlementService.hashPredictionBasis(basis));
+    expect(end?.verification).toEqual({ hashValid: true, signatureValid: true, chainValid: true, signerTrusted: true, predictionsValid: true });
+    expect(records.find(({ record }) => record.kind === SettlementPriceKind.START)?.verification.predictionsValid).toBeNull();
+
+    const tampered = predictions.find(prediction => prediction.userId === up.id) as GamePrediction;
+    await AppDataSource.getRepository(GamePrediction).update(tampered.id, { predictionPrice: Number(tampered.predictionPrice) * 2 });
+    const after = await settlementService.getGameRecords(game.id);
+    expect(after.records.find(({ record }) => record.kind === SettlementPriceKind.END)?.verification.predictionsValid).toBe(false);
+
+    // 정산 가격 조회 시 평가된 알림 (하락 알림만 발동)
+    const alerts = AppDataSource.getRepository(PriceAlert);
+    await waitFor(async () => (await alerts.findOneByOrFail({ id: below.id })).triggerCount === 1);
+    const fired = await alerts.findOneByOrFail({ id: below.id });
+    expect(fired.isActive).toBe(false);
+    expect(Number(fired.lastTriggeredPrice)).toBeCloseTo(market.priceAt('BTC', at(150)), 6);
+    expect(fired.lastTriggeredAt?.getTime()).toBe(at(150));
+    expect((await alerts.findOneByOrFail({ id: above.id })).triggerCount).toBe(0);
+    expect(published).toHaveBeenCalledTimes(1);
+    expect(published).toHaveBeenCalledWith(expect.objectContaining({ userId: watcher.id, alertId: below.id, symbol: 'BTC' }));
+  });
+});
@@ -0,0 +1,123 @@
+import { calculateStakeSettlements, calculateWager, StakeEntry, StakeSettlement } from '../utils/staking';
+import { GameStakeConfig } from '../config/game';
+
+const config: GameStakeConfig = {
+  mode: 'parimutuel',
+  fixedOdds: 1.9,
+  minStake: 10,
+  maxStake: 1000,
+  neutralConfidence: 5
+};
+
+const entry = (id: string, wager: number, result: StakeEntry['result']): StakeEntry => ({ id, wager, result });
+
+const settle = (entries: StakeEntry[], mode: 'parimutuel' | 'fixed', odds = 1.9): Record<string, Pick<StakeSettlement, 'amount' | 'kind'>> =>
+  Object.fromEntries(calculateStakeSettlements(entries, mode, odds).map(item => [item.id, { amount: item.amount, kind: item.kind }]));
+
+describe('calculateWager', () => {
+  it.each<[number, number, number]>([
+    [0, 5, 0],
+    [-10, 5, 0],
+    [100, 5, 100],
+    [100, 10, 200],
+    [100, 1, 20],
+    [100, 0, 20],     // 1 로 보정
+    [100, 12, 200],   // 10 으로 보정
+    [100, 7.4, 140],  // 7 로 반올림
+    [1, 1, 1],        // 스테이크가 있으면 최소 1
+    [33, 3, 20]       // 19.8 → 20
+  ])('스테이크 %d, 신뢰도 %d → 예치액 %d', (stake, confidence, wager) => {
+    expect(calculateWager(stake, confidence, config)).toBe(wager);
+  });
+});
+
+describe('calculateStakeSettlements', () => {
+  describe('parimutuel', () => {
+    it('승리자가 패배 예치액을 예치액 비율로 나눔', () => {
+      expect(settle([
+        entry('a', 100, 'win'),
+        entry('b', 300, 'win'),
+        entry('c', 200, 'lose')
+      ], 'parimutuel')).toEqual({
+        a: { amount: 150, kind: 'payout' },
+        b: { amount: 450, kind: 'payout' },
+        c: { amount: 0, kind: 'lost' }
+      });
+    });
+
+    it('나눈 몫은 소수점 버림 (지급 합계가 예치 합계를 넘지 않음)', () => {
+      const entries = [
+        entry('a', 10, 'win'),
+        entry('b', 10, 'win'),
+        entry('c', 10, 'win'),
+        entry('d', 100, 'lose')
+      ];
+      const result = settle(entries, 'parimutuel');
+
+      expect(result.a).toEqual({ amount: 43, kind: 'payout' });
+      expect(result.b).toEqual({ amount: 43, kind: 'payout' });
+      expect(result.c).toEqual({ amount: 43, kind: 'payout' });
+      const paid = Object.values(result).reduce((sum, item) => sum + item.amount, 0);
+      expect(paid).toBeLessThanOrEqual(entries.reduce((sum, item) => sum + item.wager, 0));
+    });
+
+    it('승리자가 없으면 패배 예치액도 반환', () => {
+      expect(settle([
+        entry('a', 100, 'lose'),
+        entry('b', 50, 'lose'),
+        entry('c', 30, 'draw')
+      ], 'parimutuel')).toEqual({
+        a: { amount: 100, kind: 'refund' },
+        b: { amount: 50, kind: 'refund' },
+        c: { amount: 30, kind: 'refund' }
+      });
+    });
+
+    it('패배자가 없으면 승리자는 예치액만 돌려받음', () => {
+      expect(settle([entry('a', 100, 'win'), entry('b', 40, 'win')], 'parimutuel')).toEqual({
+        a: { amount: 100, kind: 'payout' },
+        b: { amount: 40, kind: 'payout' }
+      });
+    });
+
+    it('보합/무효 예치액은 배당 풀에 들어가지 않음', () => {
+      expect(settle([
+        entry('a', 100, 'win'),
+        entry('b', 100, 'lose'),
+        entry('c', 500, 'draw'),
+        entry('d', 500, 'void')
+      ], 'parimutuel')).toEqual({
+        a: { amount: 200, kind: 'payout' },
+        b: { amount: 0, kind: 'lost' },
+        c: { amount: 500, kind: 'refund' },
+        d: { amount: 500, kind: 'refund' }
+      });
+    });
+  });
+
+  describe('fixed', () => {
+    it.each<[number, number, number]>([
+      [100, 1.9, 190],
+      [15, 1.9, 28],    // 28.5 → 28
+      [7, 2.25, 15],    // 15.75 → 15
+      [100, 1, 100]
+    ])('예치액 %d, 배당률 %d → %d', (wager, odds, amount) => {
+      expect(settle([entry('a', wager, 'win')], 'fixed', odds).a).toEqual({ amount, kind: 'payout' });
+    });
+
+    it('승리자가 없어도 패배 예치액은 반환하지 않음', () => {
+      expect(settle([entry('a', 100, 'lose')], 'fixed')).toEqual({ a: { amount: 0, kind: 'lost' } });
+    });
+
+    it.each<StakeEntry['result']>(['draw', 'void'])('%s 는 예치액 반환', result => {
+      expect(settle([entry('a', 80, result), entry('b', 20, 'win')], 'fixed').a).toEqual({ amount: 80, kind: 'refund' });
+    });
+  });
+
+  it('라운드 전체가 무효면 모두 반환', () => {
+    const entries = [entry('a', 10, 'void'), entry('b', 20, 'void')];
+    for (const mode of ['parimutuel', 'fixed'] as const) {
+      expect(calculateStakeSettlements(entries, mode, 1.9).every(item => item.kind === 'refund' && item.amount === item.wager)).toBe(true);
+    }
+  });
+});
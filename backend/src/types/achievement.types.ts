@@ -0,0 +1,87 @@
+// src/types/achievement.types.ts
+
+import { RankingPeriod } from '../models/Ranking';
+
+/**
+ * 업적 종류 (프론트엔드 AchievementType 과 같은 값)
+ */
+export enum AchievementType {
+  FIRST_WIN = 'first_win',
+  WINNING_STREAK = 'winning_streak',
+  ACCURACY_MASTER = 'accuracy_master',
+  VOLUME_TRADER = 'volume_trader',
+  SYMBOL_SPECIALIST = 'symbol_specialist',
+  RANK_CLIMBER = 'rank_climber',
+  MISSION_COMPLETER = 'mission_completer'
+}
+
+/**
+ * 업적 판정 지표
+ * - wins: 누적 예측 성공 수 (점수 원장 기준)
+ * - games: 누적 정산 예측 수 (점수 원장 기준)
+ * - win_rate: 승률 (%, minGames 이상 플레이한 경우에만 인정)
+ * - best_streak: 전체 기간 최고 연승
+ * - symbol_wins: 특정 심볼 예측 성공 수
+ * - rank: 지정한 랭킹 기간의 순위 (value 이내에 들면 달성)
+ * - missions_completed: 완료한 미션 수
+ */
+export type AchievementMetric =
+  | 'wins'
+  | 'games'
+  | 'win_rate'
+  | 'best_streak'
+  | 'symbol_wins'
+  | 'rank'
+  | 'missions_completed';
+
+/**
+ * 업적 판정을 다시 하게 만드는 이벤트
+ * - game: 정규 라운드 예측 정산
+ * - ranking: 실시간 순위 변동
+ * - mission: 미션 완료
+ */
+export type AchievementEvent = 'game' | 'ranking' | 'mission';
+
+/**
+ * 업적 달성 조건
+ */
+export interface AchievementRequirement {
+  type: AchievementMetric;
+  value: number;            // 목표값 (rank 는 이 순위 이내)
+  symbol?: string;          // symbol_wins 대상 심볼
+  minGames?: number;        // win_rate 인정 최소 게임 수
+  period?: RankingPeriod;   // rank 대상 랭킹 기간
+}
+
+/**
+ * 업적 보상 (점수는 수령 시 점수 원장에 지급, 배지는 달성 즉시 부여)
+ */
+export interface AchievementReward {
+  points: number;
+  badge?: string;
+}
+
+/**
+ * 업적 정의
+ */
+export interface AchievementDefinition {
+  id: string;
+  type: AchievementType;
+  title: string;
+  description: string;
+  icon: string;
+  requirement: AchievementRequirement;
+  reward: AchievementReward;
+}
+
+/**
+ * 업적 판정에 쓰는 사용자 누적 지표
+ */
+export interface AchievementMetrics {
+  wins: number;
+  games: number;
+  winRate: number;
+  bestStreak: number;
+  symbolWins: Record<string, number>;
+  missionsCompleted: number;
+}
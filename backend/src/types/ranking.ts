@@ -6,9 +6,10 @@
 export type RankingPeriod = 'daily' | 'weekly' | 'monthly' | 'all';
 
 /**
- * 에어드롭 등급 (1등급이 가장 높음)
+ * 에어드롭 등급 (1등급이 가장 높음, 0은 보상 대상 아님)
+ * 등급 수와 순위 범위는 보상 테이블(reward_tables)에서 설정
  */
-export type AirdropTier = 0 | 1 | 2 | 3 | 4;
+export type AirdropTier = number;
 
 /**
  * 사용자 점수 정보
@@ -0,0 +1,49 @@
+/**
+ * Elo Rating Utility
+ * 1:1 대결 레이팅 계산 (표준 Elo, 두 선수의 변동량 합은 0)
+ */
+
+import { duelConfig } from '../config/game';
+
+/**
+ * 대결 결과 (A 기준 점수: 승 1, 무 0.5, 패 0)
+ */
+export type EloOutcome = 'win' | 'draw' | 'lose';
+
+/**
+ * 레이팅 변동 결과
+ */
+export interface EloChange {
+  expected: number; // A 의 기대 승률
+  deltaA: number;
+  deltaB: number;
+}
+
+const OUTCOME_SCORES: Record<EloOutcome, number> = {
+  win: 1,
+  draw: 0.5,
+  lose: 0
+};
+
+/**
+ * A 가 B 를 상대로 이길 기대 확률
+ */
+export function expectedScore(ratingA: number, ratingB: number): number {
+  return 1 / (1 + Math.pow(10, (ratingB - ratingA) / 400));
+}
+
+/**
+ * 대결 결과에 따른 레이팅 변동
+ * A 의 변동량을 반올림하고 B 는 부호만 바꿔 총합을 보존
+ */
+export function calculateEloChange(
+  ratingA: number,
+  ratingB: number,
+  outcome: EloOutcome,
+  k: number = duelConfig.eloK
+): EloChange {
+  const expected = expectedScore(ratingA, ratingB);
+  const deltaA = Math.round(k * (OUTCOME_SCORES[outcome] - expected));
+
+  return { expected, deltaA, deltaB: -deltaA };
+}
@@ -0,0 +1,89 @@
+/**
+ * Prediction Timing Utility
+ * 예측 접수 시각 기록과 의심 패턴 판정 규칙
+ *
+ * 접수 시각은 서버가 요청을 받은 시각이며, 기준 가격 지연은 접수 시각과 기준 가격의
+ * 오라클 집계 시각 차이(양수면 접수 시각보다 오래된 가격)로 기록함
+ */
+
+import { gamePredictionGuardConfig, GamePredictionGuardConfig } from '../config/game';
+
+/**
+ * 의심 패턴
+ * - stale_price: 접수 시각보다 허용 지연 이상 오래된 가격이 기준 가격으로 쓰임
+ * - clock_skew: 클라이언트가 보낸 시각이 서버 접수 시각과 허용 차이 이상 어긋남
+ * - near_deadline: 예측 마감 임박 구간에 접수됨
+ */
+export type PredictionTimingFlag = 'stale_price' | 'clock_skew' | 'near_deadline';
+
+/**
+ * 예측 접수 시각 기록
+ */
+export interface PredictionTiming {
+  receivedAt: number;         // 서버 접수 시각 (Unix ms)
+  priceObservedAt?: number;   // 기준 가격 집계 시각 (Unix ms)
+  priceLatencyMs?: number;    // 접수 시각 - 기준 가격 집계 시각
+  clientTimestamp?: number;   // 클라이언트가 보낸 서버 기준 추정 시각 (Unix ms)
+  clockSkewMs?: number;       // 서버 접수 시각 - 클라이언트 시각
+  deadlineMarginMs?: number;  // 접수 시각부터 예측 마감까지 남은 시간
+  flags: PredictionTimingFlag[];
+}
+
+/**
+ * 접수 시각 판정 입력
+ */
+export interface PredictionTimingInput {
+  receivedAt: number;
+  priceTimestamp?: string | number;
+  clientTimestamp?: number;
+  predictionDeadline?: Date;
+}
+
+/**
+ * 접수 시각 기록 및 의심 패턴 판정
+ * 입력만으로 결과가 정해지는 순수 함수
+ */
+export function evaluatePredictionTiming(
+  input: PredictionTimingInput,
+  config: GamePredictionGuardConfig = gamePredictionGuardConfig
+): PredictionTiming {
+  const timing: PredictionTiming = { receivedAt: input.receivedAt, flags: [] };
+
+  const priceObservedAt = input.priceTimestamp !== undefined ? new Date(input.priceTimestamp).getTime() : NaN;
+  if (Number.isFinite(priceObservedAt)) {
+    timing.priceObservedAt = priceObservedAt;
+    timing.priceLatencyMs = input.receivedAt - priceObservedAt;
+    if (timing.priceLatencyMs > config.maxPriceLatency) {
+      timing.flags.push('stale_price');
+    }
+  }
+
+  if (input.clientTimestamp !== undefined && Number.isFinite(input.clientTimestamp)) {
+    timing.clientTimestamp = input.clientTimestamp;
+    timing.clockSkewMs = input.receivedAt - input.clientTimestamp;
+    if (Math.abs(timing.clockSkewMs) > config.maxClockSkew) {
+      timing.flags.push('clock_skew');
+    }
+  }
+
+  if (input.predictionDeadline) {
+    timing.deadlineMarginMs = input.predictionDeadline.getTime() - input.receivedAt;
+    if (timing.deadlineMarginMs <= config.nearDeadlineWindow) {
+      timing.flags.push('near_deadline');
+    }
+  }
+
+  return timing;
+}
+
+/**
+ * 기준 가격이 접수 시각 대비 허용 지연을 넘었는지 확인
+ */
+export function isPriceStale(
+  receivedAt: number,
+  priceTimestamp: string | number,
+  config: GamePredictionGuardConfig = gamePredictionGuardConfig
+): boolean {
+  const observedAt = new Date(priceTimestamp).getTime();
+  return !Number.isFinite(observedAt) || receivedAt - observedAt > config.maxPriceLatency;
+}
@@ -0,0 +1,79 @@
+/**
+ * Price Replay Utility
+ * 연습 게임의 과거 가격 재생 규칙
+ *
+ * 예측 시간은 재생 구간의 [openAt, startAt], 진행 시간은 [startAt, endAt] 에 비례해 대응시키므로
+ * 배속 적용 후 최소 시간이 보정되어도 재생 구간의 시작과 끝은 항상 라운드 상태 전환 시점과 맞음
+ */
+
+import { Game, GameStatus, PracticeReplay, ReplayPricePoint } from '../models/Game';
+
+/**
+ * 실제 시각에 대응하는 원본 가격 시각 (Unix ms)
+ * WAITING 은 예측 시간, ACTIVE 는 진행 시간 비율로 계산하며 종료된 라운드는 재생 구간 끝
+ */
+export function getReplayTime(game: Game, replay: PracticeReplay, now: number = Date.now()): number {
+  const ratio = (elapsed: number, total: number): number =>
+    total > 0 ? Math.min(Math.max(elapsed / total, 0), 1) : 1;
+
+  if (game.status === GameStatus.WAITING) {
+    return replay.openAt + (replay.startAt - replay.openAt) * ratio(now - game.createdAt.getTime(), game.predictionWindow);
+  }
+  if (game.status === GameStatus.ACTIVE && game.startedAt) {
+    return replay.startAt + (replay.endAt - replay.startAt) * ratio(now - game.startedAt.getTime(), game.duration);
+  }
+  return game.status === GameStatus.COMPLETED ? replay.endAt : replay.startAt;
+}
+
+/**
+ * 원본 시각 기준 가격 (그 시각 이전의 마지막 가격, 없으면 첫 가격)
+ * 재생 구간의 시작/종료 시각에는 확정한 시작/종료 가격이 들어있음 (buildReplaySeries)
+ */
+export function getReplayPrice(replay: PracticeReplay, at: number): number {
+  return getPriceAt(replay.series, at) ?? replay.startPrice;
+}
+
+/**
+ * 시간순 가격 중 시각 기준 가격 (그 시각 이전의 마지막 가격, 없으면 첫 가격, 가격이 없으면 null)
+ */
+export function getPriceAt(points: ReplayPricePoint[], at: number): number | null {
+  let price = points[0]?.price ?? null;
+  for (const point of points) {
+    if (point.timestamp > at) {
+      break;
+    }
+    price = point.price;
+  }
+  return price;
+}
+
+/**
+ * 원본 시각까지 공개할 가격 (종료 전에는 이후 가격을 내려주지 않음)
+ */
+export function getVisibleReplaySeries(replay: PracticeReplay, at: number): ReplayPricePoint[] {
+  return replay.series.filter(point => point.timestamp <= at);
+}
+
+/**
+ * 재생 가격 정리 (구간 밖 제외, 같은 시각은 마지막 값, 시간순)
+ * 시작/종료 시각에는 확정한 시작/종료 가격을 넣어 재생 가격과 판정 가격이 같도록 함
+ */
+export function buildReplaySeries(
+  points: ReplayPricePoint[],
+  replay: Pick<PracticeReplay, 'openAt' | 'startAt' | 'endAt' | 'startPrice' | 'endPrice'>
+): ReplayPricePoint[] {
+  const byTimestamp = new Map<number, number>();
+
+  for (const point of points) {
+    const price = Number(point.price);
+    if (point.timestamp >= replay.openAt && point.timestamp <= replay.endAt && Number.isFinite(price) && price > 0) {
+      byTimestamp.set(point.timestamp, price);
+    }
+  }
+  byTimestamp.set(replay.startAt, replay.startPrice);
+  byTimestamp.set(replay.endAt, replay.endPrice);
+
+  return [...byTimestamp.entries()]
+    .map(([timestamp, price]) => ({ timestamp, price }))
+    .sort((a, b) => a.timestamp - b.timestamp);
+}
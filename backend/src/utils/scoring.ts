@@ -0,0 +1,182 @@
+/**
+ * Scoring Utility
+ * 예측 점수 계산 규칙 (버전별 규칙 세트)
+ *
+ * 정산 시 백엔드에서만 계산하며, 계산 결과(ScoreBreakdown)는 예측 메타데이터와
+ * 점수 원장(game_scores) 메타데이터에 함께 저장됨. 프론트엔드는 저장된 내역을 그대로 표시함
+ *
+ * 규칙을 바꿀 때는 기존 버전을 수정하지 말고 새 버전을 추가할 것
+ * (이미 정산된 점수를 같은 규칙으로 다시 설명할 수 있어야 함)
+ */
+
+/**
+ * 점수 규칙 세트
+ */
+export interface ScoringRuleSet {
+  version: string;
+  base: number;                                              // 예측 성공 기본 점수
+  accuracy: { pointsPerPercent: number; max: number };       // 가격 변화율(%) 비례 보너스
+  speed: Array<{ maxElapsedRatio: number; points: number }>; // 예측 가능 시간 중 경과 비율별 보너스
+  streak: Array<{ minStreak: number; points: number }>;      // 이번 예측을 포함한 연승 수별 보너스
+  confidence: {
+    neutral: number;      // 가감점이 없는 신뢰도 (1-10)
+    winPerLevel: number;  // 성공 시 neutral 초과 1단계당 가산점
+    lossPerLevel: number; // 실패 시 neutral 초과 1단계당 감점
+  };
+}
+
+/**
+ * 점수 계산 입력
+ */
+export interface ScoringInput {
+  isCorrect: boolean;
+  isDraw?: boolean;           // 보합 (점수/감점 없이 연승 수 유지)
+  priceChangePercent: number; // 예측 시점 대비 결과 가격 변화율 (%)
+  elapsedRatio?: number;      // 예측 제출 시점까지 경과한 예측 가능 시간 비율 (0-1)
+  previousStreak?: number;    // 이번 예측 직전까지의 연승 수
+  confidence?: number;        // 예측 신뢰도 (1-10)
+}
+
+/**
+ * 정산 시 예측 외부에서 정해지는 계산 입력 (제출 시점, 연승, 신뢰도)
+ */
+export type ScoringContext = Pick<ScoringInput, 'elapsedRatio' | 'previousStreak' | 'confidence'>;
+
+/**
+ * 점수 구성 내역
+ */
+export interface ScoreBreakdown {
+  version: string;
+  base: number;
+  accuracy: number;
+  speed: number;
+  streak: number;
+  confidence: number; // 실패 시 음수 (신뢰도 감점)
+  total: number;
+  streakCount: number; // 이번 예측을 포함한 연승 수 (실패 시 0, 보합 시 직전 연승 유지)
+}
+
+/**
+ * 버전별 규칙 세트
+ * v1: 기존 정산 규칙 (기본 100점 + 변화율 x2, 최대 50점)
+ * v2: 속도/연승/신뢰도 보너스 추가
+ */
+export const SCORING_RULE_SETS: Record<string, ScoringRuleSet> = {
+  v1: {
+    version: 'v1',
+    base: 100,
+    accuracy: { pointsPerPercent: 2, max: 50 },
+    speed: [],
+    streak: [],
+    confidence: { neutral: 10, winPerLevel: 0, lossPerLevel: 0 }
+  },
+  v2: {
+    version: 'v2',
+    base: 100,
+    accuracy: { pointsPerPercent: 2, max: 50 },
+    speed: [
+      { maxElapsedRatio: 0.25, points: 30 },
+      { maxElapsedRatio: 0.5, points: 15 },
+      { maxElapsedRatio: 0.75, points: 5 }
+    ],
+    streak: [
+      { minStreak: 10, points: 100 },
+      { minStreak: 5, points: 50 },
+      { minStreak: 3, points: 20 },
+      { minStreak: 2, points: 10 }
+    ],
+    confidence: { neutral: 5, winPerLevel: 10, lossPerLevel: 5 }
+  }
+};
+
+/**
+ * 정산에 사용하는 규칙 버전 (SCORING_VERSION 환경변수, 기본값 v2)
+ */
+export const ACTIVE_SCORING_VERSION = process.env.SCORING_VERSION && SCORING_RULE_SETS[process.env.SCORING_VERSION]
+  ? process.env.SCORING_VERSION
+  : 'v2';
+
+/**
+ * 규칙 세트 조회 (없는 버전이면 예외)
+ */
+export function getScoringRuleSet(version: string = ACTIVE_SCORING_VERSION): ScoringRuleSet {
+  const ruleSet = SCORING_RULE_SETS[version];
+  if (!ruleSet) {
+    throw new Error(`알 수 없는 점수 규칙 버전입니다: ${version}`);
+  }
+  return ruleSet;
+}
+
+/**
+ * 연승 보너스 계산에 필요한 최대 연승 수 (정산 시 이전 기록 조회 범위)
+ */
+export function getMaxStreakTier(version: string = ACTIVE_SCORING_VERSION): number {
+  return getScoringRuleSet(version).streak.reduce((max, tier) => Math.max(max, tier.minStreak), 0);
+}
+
+/**
+ * 예측 점수 계산
+ * 입력만으로 결과가 정해지는 순수 함수
+ */
+export function calculatePredictionScore(input: ScoringInput, version: string = ACTIVE_SCORING_VERSION): ScoreBreakdown {
+  const rules = getScoringRuleSet(version);
+  const confidence = clamp(Math.round(input.confidence ?? rules.confidence.neutral), 1, 10);
+  const confidenceLevels = Math.max(0, confidence - rules.confidence.neutral);
+
+  if (input.isDraw) {
+    return {
+      version: rules.version,
+      base: 0,
+      accuracy: 0,
+      speed: 0,
+      streak: 0,
+      confidence: 0,
+      total: 0,
+      streakCount: Math.max(0, input.previousStreak || 0)
+    };
+  }
+
+  if (!input.isCorrect) {
+    const penalty = confidenceLevels > 0 ? -confidenceLevels * rules.confidence.lossPerLevel : 0;
+    return {
+      version: rules.version,
+      base: 0,
+      accuracy: 0,
+      speed: 0,
+      streak: 0,
+      confidence: penalty,
+      total: penalty,
+      streakCount: 0
+    };
+  }
+
+  const changePercent = Math.abs(input.priceChangePercent) || 0;
+  const accuracy = Math.round(Math.min(changePercent * rules.accuracy.pointsPerPercent, rules.accuracy.max));
+
+  const elapsedRatio = input.elapsedRatio !== undefined ? clamp(input.elapsedRatio, 0, 1) : undefined;
+  const speedTier = elapsedRatio !== undefined
+    ? [...rules.speed].sort((a, b) => a.maxElapsedRatio - b.maxElapsedRatio).find(tier => elapsedRatio <= tier.maxElapsedRatio)
+    : undefined;
+
+  const streakCount = Math.max(0, input.previousStreak || 0) + 1;
+  const streakTier = [...rules.streak].sort((a, b) => b.minStreak - a.minStreak).find(tier => streakCount >= tier.minStreak);
+
+  const breakdown = {
+    version: rules.version,
+    base: rules.base,
+    accuracy,
+    speed: speedTier ? speedTier.points : 0,
+    streak: streakTier ? streakTier.points : 0,
+    confidence: confidenceLevels * rules.confidence.winPerLevel,
+    streakCount
+  };
+
+  return {
+    ...breakdown,
+    total: breakdown.base + breakdown.accuracy + breakdown.speed + breakdown.streak + breakdown.confidence
+  };
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
@@ -0,0 +1,73 @@
+/**
+ * Staking Utility
+ * 예측 스테이크 예치액/배당 계산 규칙
+ *
+ * 예치액은 예측 제출 시 점수 원장에서 차감(STAKE_ESCROW)되고, 라운드 정산 시
+ * 배당(STAKE_PAYOUT) 또는 반환(STAKE_REFUND) 항목으로 돌려받음. 패배한 스테이크는 돌려받지 않음
+ */
+
+import { gameStakeConfig, GameStakeConfig, GameStakeMode } from '../config/game';
+
+/**
+ * 정산 대상 스테이크 1건
+ */
+export interface StakeEntry {
+  id: string;                                   // 예측 ID
+  wager: number;                                // 예치액
+  result: 'win' | 'lose' | 'draw' | 'void';
+}
+
+/**
+ * 스테이크 정산 결과
+ * payout: 배당 지급 (예치액 포함), refund: 예치액 반환, lost: 지급 없음
+ */
+export interface StakeSettlement {
+  id: string;
+  wager: number;
+  amount: number;
+  kind: 'payout' | 'refund' | 'lost';
+}
+
+/**
+ * 예치액 계산 (스테이크 x 신뢰도 배수)
+ * 신뢰도가 기준값이면 배수 1, 1-10 범위로 보정하며 스테이크가 있으면 최소 1점 예치
+ */
+export function calculateWager(stake: number, confidence: number, config: GameStakeConfig = gameStakeConfig): number {
+  if (!stake || stake <= 0) {
+    return 0;
+  }
+
+  const level = Math.min(Math.max(Math.round(confidence), 1), 10);
+  return Math.max(1, Math.round(stake * level / config.neutralConfidence));
+}
+
+/**
+ * 라운드 스테이크 정산
+ * 입력만으로 결과가 정해지는 순수 함수 (재실행해도 같은 금액)
+ * - 보합/무효는 예치액 반환
+ * - fixed: 승리 시 예치액 x 배당률 (소수점 버림)
+ * - parimutuel: 승리 시 예치액 + 패배 예치액 합계를 승리 예치액 비율로 나눈 몫 (소수점 버림)
+ *   승리자가 없으면 상대가 없으므로 패배 예치액도 반환
+ */
+export function calculateStakeSettlements(entries: StakeEntry[], mode: GameStakeMode, fixedOdds: number): StakeSettlement[] {
+  const winnerPool = entries.filter(entry => entry.result === 'win').reduce((sum, entry) => sum + entry.wager, 0);
+  const loserPool = entries.filter(entry => entry.result === 'lose').reduce((sum, entry) => sum + entry.wager, 0);
+
+  return entries.map(entry => {
+    if (entry.result === 'draw' || entry.result === 'void') {
+      return { id: entry.id, wager: entry.wager, amount: entry.wager, kind: 'refund' };
+    }
+
+    if (entry.result === 'lose') {
+      return mode === 'parimutuel' && winnerPool === 0
+        ? { id: entry.id, wager: entry.wager, amount: entry.wager, kind: 'refund' }
+        : { id: entry.id, wager: entry.wager, amount: 0, kind: 'lost' };
+    }
+
+    const amount = mode === 'fixed'
+      ? Math.floor(entry.wager * fixedOdds)
+      : entry.wager + Math.floor(loserPool * entry.wager / winnerPool);
+
+    return { id: entry.id, wager: entry.wager, amount, kind: 'payout' };
+  });
+}
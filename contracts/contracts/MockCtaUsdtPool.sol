@@ -0,0 +1,69 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/access/Ownable.sol";
+
+/**
+ * @title MockCtaUsdtPool
+ * @dev 로컬 Hardhat 노드용 CTA/USDT 유동성 풀 목업
+ * @notice Uniswap V2 페어와 같은 getReserves / token0 / token1 / priceXCumulativeLast 를 제공하므로
+ *         백엔드 catena 가격 제공자를 실제 풀 대신 이 컨트랙트로 시험할 수 있음
+ *         소유자가 setReserves 로 준비금을 바꾸면 V2 와 같은 방식으로 누적 가격이 갱신됨
+ */
+contract MockCtaUsdtPool is Ownable {
+
+    uint224 private constant Q112 = 2**112;
+
+    address public immutable token0;
+    address public immutable token1;
+
+    uint112 private reserve0;
+    uint112 private reserve1;
+    uint32 private blockTimestampLast;
+
+    // token0 가격(token1 기준)과 token1 가격(token0 기준)의 UQ112x112 시간 가중 누적값
+    uint256 public price0CumulativeLast;
+    uint256 public price1CumulativeLast;
+
+    // 이벤트 (Uniswap V2 Sync 와 같은 형식)
+    event Sync(uint112 reserve0, uint112 reserve1);
+
+    constructor(address _token0, address _token1, uint112 _reserve0, uint112 _reserve1) Ownable(msg.sender) {
+        require(_token0 != address(0) && _token1 != address(0) && _token0 != _token1, "Invalid tokens");
+        token0 = _token0;
+        token1 = _token1;
+        _update(_reserve0, _reserve1);
+    }
+
+    /**
+     * @dev 현재 준비금과 마지막 갱신 블록 시각
+     */
+    function getReserves() external view returns (uint112 _reserve0, uint112 _reserve1, uint32 _blockTimestampLast) {
+        return (reserve0, reserve1, blockTimestampLast);
+    }
+
+    /**
+     * @dev 준비금 변경 (스왑/유동성 변화 흉내)
+     */
+    function setReserves(uint112 _reserve0, uint112 _reserve1) external onlyOwner {
+        _update(_reserve0, _reserve1);
+    }
+
+    /**
+     * @dev 이전 준비금으로 경과 시간만큼 누적 가격을 더한 뒤 준비금 교체 (오버플로는 V2 와 같이 의도된 것)
+     */
+    function _update(uint112 _reserve0, uint112 _reserve1) private {
+        uint32 blockTimestamp = uint32(block.timestamp % 2**32);
+        unchecked {
+            uint32 timeElapsed = blockTimestamp - blockTimestampLast;
+            if (timeElapsed > 0 && reserve0 != 0 && reserve1 != 0) {
+                price0CumulativeLast += uint256((uint224(reserve1) * Q112) / reserve0) * timeElapsed;
+                price1CumulativeLast += uint256((uint224(reserve0) * Q112) / reserve1) * timeElapsed;
+            }
+        }
+        reserve0 = _reserve0;
+        reserve1 = _reserve1;
+        blockTimestampLast = blockTimestamp;
+        emit Sync(_reserve0, _reserve1);
+    }
+}
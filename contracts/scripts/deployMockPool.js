@@ -0,0 +1,46 @@
+/**
+ * 로컬 Hardhat 노드에 CTA/USDT 목업 풀 배포
+ *
+ *   npx hardhat node
+ *   npm run deploy:mock-pool
+ *
+ * 출력된 환경변수를 백엔드 .env 에 넣으면 catena 가격 제공자가 이 풀에서 CTA 가격을 읽음
+ * MOCK_POOL_CTA_PRICE(기본 0.05 USDT), MOCK_POOL_USDT_LIQUIDITY(기본 100000 USDT)로 초기 준비금 지정
+ */
+const { ethers } = require("hardhat");
+
+const CTA_DECIMALS = 18;
+const USDT_DECIMALS = 6;
+
+async function main() {
+  const [deployer] = await ethers.getSigners();
+  const price = process.env.MOCK_POOL_CTA_PRICE || "0.05";
+  const liquidity = process.env.MOCK_POOL_USDT_LIQUIDITY || "100000";
+
+  // 토큰은 주소만 필요하므로 임의 주소 사용 (Uniswap V2 와 같이 작은 주소가 token0)
+  const [token0, token1] = [ethers.Wallet.createRandom().address, ethers.Wallet.createRandom().address]
+    .sort((a, b) => (BigInt(a) < BigInt(b) ? -1 : 1));
+  const ctaToken = token0;
+
+  const usdtReserve = ethers.parseUnits(liquidity, USDT_DECIMALS);
+  const ctaReserve = ethers.parseUnits(liquidity, CTA_DECIMALS) * 10n ** 18n / ethers.parseUnits(price, 18);
+
+  const Pool = await ethers.getContractFactory("MockCtaUsdtPool");
+  const pool = await Pool.deploy(token0, token1, ctaReserve, usdtReserve);
+  await pool.waitForDeployment();
+
+  console.log(`MockCtaUsdtPool 배포 완료 (배포자: ${deployer.address})`);
+  console.log(`CTA 가격 ${price} USDT, USDT 준비금 ${liquidity}`);
+  console.log("");
+  console.log("CATENA_RPC_URL=http://127.0.0.1:8545");
+  console.log("CATENA_CHAIN_ID=31337");
+  console.log(`CATENA_CTA_POOL_ADDRESS=${await pool.getAddress()}`);
+  console.log(`CATENA_CTA_TOKEN_ADDRESS=${ctaToken}`);
+  console.log(`CATENA_CTA_DECIMALS=${CTA_DECIMALS}`);
+  console.log(`CATENA_USDT_DECIMALS=${USDT_DECIMALS}`);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -13,6 +13,8 @@ import { HomePage } from './pages/HomePage'
 import { MissionPage } from './pages/MissionPage'
 import { GamePage } from './pages/GamePage'
 import { RankingPage } from './pages/RankingPage'
+import { TournamentPage } from './pages/TournamentPage'
+import { PracticePage } from './pages/PracticePage'
 import { LoginPage } from './pages/LoginPage'
 
 // 단순한 Error Boundary 클래스 컴포넌트
@@ -119,6 +121,22 @@ function App() {
               </ProtectedRoute>
             } />
             
+            <Route path="/tournament" element={
+              <ProtectedRoute>
+                <Layout>
+                  <TournamentPage />
+                </Layout>
+              </ProtectedRoute>
+            } />
+            
+            <Route path="/practice" element={
+              <ProtectedRoute>
+                <Layout>
+                  <PracticePage />
+                </Layout>
+              </ProtectedRoute>
+            } />
+            
             {/* Fallback Route */}
             <Route path="*" element={<Navigate to="/" replace />} />
           </Routes>
@@ -13,6 +13,8 @@ export function Layout({ children }: LayoutProps) {
     { name: '미션', href: '/mission', current: location.pathname === '/mission' },
     { name: '게임', href: '/game', current: location.pathname === '/game' },
     { name: '랭킹', href: '/ranking', current: location.pathname === '/ranking' },
+    { name: '토너먼트', href: '/tournament', current: location.pathname === '/tournament' },
+    { name: '연습', href: '/practice', current: location.pathname === '/practice' },
   ]
 
   return (
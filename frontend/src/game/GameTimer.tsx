@@ -1,10 +1,12 @@
 // frontend/src/game/GameTimer.tsx
 import React, { useState, useEffect, useCallback } from 'react';
 import { Clock, Play, Pause, Square, AlertTriangle } from 'lucide-react';
+import { timeSyncService } from '../services/TimeSyncService';
 
 // 타입 정의
 interface GameTimerProps {
   duration: number; // 게임 시간 (초)
+  endsAt?: number; // 종료 시각 (서버 기준 Unix ms, 있으면 duration 대신 이 시각까지 카운트다운)
   isActive: boolean; // 타이머 활성 상태
   onTimeUp?: () => void; // 시간 종료 콜백
   onTick?: (timeRemaining: number) => void; // 매 초마다 호출되는 콜백
@@ -68,6 +70,7 @@ const Button: React.FC<{
 
 const GameTimer: React.FC<GameTimerProps> = ({
   duration,
+  endsAt,
   isActive,
   onTimeUp,
   onTick,
@@ -88,18 +91,23 @@ const GameTimer: React.FC<GameTimerProps> = ({
     endTime: null
   });
 
+  // 서버 시각 동기화 (남은 시간은 로컬 시계가 아닌 서버 기준으로 계산)
+  useEffect(() => {
+    timeSyncService.sync();
+  }, []);
+
   // 타이머 시작
   const startTimer = useCallback(() => {
-    const now = Date.now();
+    const now = timeSyncService.now();
     setTimerState(prev => ({
       ...prev,
       isRunning: true,
       isPaused: false,
       startTime: now,
-      endTime: now + (prev.timeRemaining * 1000),
+      endTime: endsAt ?? now + (prev.timeRemaining * 1000),
       hasWarning: prev.timeRemaining <= warningThreshold
     }));
-  }, [warningThreshold]);
+  }, [endsAt, warningThreshold]);
 
   // 타이머 일시정지
   const pauseTimer = useCallback(() => {
@@ -114,7 +122,7 @@ const GameTimer: React.FC<GameTimerProps> = ({
 
   // 타이머 재개
   const resumeTimer = useCallback(() => {
-    const now = Date.now();
+    const now = timeSyncService.now();
     setTimerState(prev => ({
       ...prev,
       isRunning: true,
@@ -172,7 +180,7 @@ const GameTimer: React.FC<GameTimerProps> = ({
     if (!timerState.isRunning || !timerState.endTime) return;
 
     const interval = setInterval(() => {
-      const now = Date.now();
+      const now = timeSyncService.now();
       const remaining = Math.max(0, Math.ceil((timerState.endTime! - now) / 1000));
 
       setTimerState(prev => ({
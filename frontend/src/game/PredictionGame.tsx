@@ -8,6 +8,9 @@ import {
   Trophy 
 } from 'lucide-react';
 
+import type { ScoreCalculation } from '../types/game.types';
+import { timeSyncService } from '../services/TimeSyncService';
+
 // 타입 정의
 interface PriceData {
   symbol: string;
@@ -27,7 +30,8 @@ interface StartGameResponse {
     startPrice: number;
     startTime: string;
     endTime: string;
-    duration: number;
+    predictionDeadline?: string; // 예측 마감 시각 (서버 기준)
+    duration: number;            // 라운드 진행 시간 (밀리초)
     status: string;
   };
   message?: string;
@@ -41,6 +45,20 @@ interface PredictResponse {
     prediction: 'UP' | 'DOWN';
     predictionPrice: number;
     confidence: number;
+    stake: number;        // 신뢰도 배수가 적용되어 예치된 스테이크
+    stakeMode: 'parimutuel' | 'fixed';
+    stakeOdds: number;
+  };
+  message?: string;
+}
+
+interface PredictionRevisionResponse {
+  success: boolean;
+  data: {
+    predictionId: string;
+    gameId: string;
+    prediction?: 'UP' | 'DOWN';
+    stakeRefunded?: number;
   };
   message?: string;
 }
@@ -71,6 +89,15 @@ interface GameDetailResponse {
     priceChange?: number;
     remainingTime?: number;
     participantCount?: number;
+    myResult?: {
+      predictionId: string;
+      predictionType: 'up' | 'down';
+      status: 'pending' | 'win' | 'lose' | 'draw' | 'cancelled' | 'withdrawn';
+      scoreEarned: number;
+      scoreBreakdown: ScoreCalculation | null;
+      stake: number;
+      stakePayout: number | null; // 스테이크 배당/반환액 (미정산이면 null)
+    } | null;
   };
   message?: string;
 }
@@ -80,21 +107,33 @@ interface GameState {
   status: 'idle' | 'active' | 'ended' | 'loading';
   duration: number;
   timeRemaining: number;
+  endsAt: number | null;               // 라운드 종료 시각 (서버 기준 Unix ms)
+  predictionClosesAt: number | null;   // 예측 제출/수정 가능 마지막 시각 (마감 직전 거절 구간 제외)
   prediction: 'UP' | 'DOWN' | null;
   startPrice: number | null;
   currentPrice: number | null;
   endPrice: number | null;
-  result: 'WIN' | 'LOSE' | null;
+  result: 'WIN' | 'LOSE' | 'DRAW' | 'VOID' | null;
   score: number | null;
+  stake: number;               // 예치된 스테이크
+  stakePayout: number | null;  // 스테이크 배당/반환액
   round: number;
 }
 
 interface PredictionGameProps {
-  onGameComplete?: (result: { score: number; result: 'WIN' | 'LOSE' }) => void;
+  onGameComplete?: (result: { score: number; result: 'WIN' | 'LOSE' | 'DRAW'; breakdown: ScoreCalculation | null }) => void;
   onScoreUpdate?: (score: number) => void;
   disabled?: boolean;
 }
 
+// 결과 표시 문구
+const RESULT_LABELS: Record<NonNullable<GameState['result']>, string> = {
+  WIN: '승리!',
+  LOSE: '패배',
+  DRAW: '보합',
+  VOID: '무효'
+};
+
 // 기본 UI 컴포넌트들
 const Card: React.FC<{ children: React.ReactNode; className?: string }> = ({ 
   children, 
@@ -205,14 +244,20 @@ const PredictionGame: React.FC<PredictionGameProps> = ({
     status: 'idle',
     duration: 60, // 기본 1분 게임 (초 단위)
     timeRemaining: 0,
+    endsAt: null,
+    predictionClosesAt: null,
     prediction: null,
     startPrice: null,
     currentPrice: null,
     endPrice: null,
     result: null,
     score: null,
+    stake: 0,
+    stakePayout: null,
     round: 1
   });
+  const [stakeInput, setStakeInput] = useState(0);
+  const [confidence, setConfidence] = useState(5);
   const [totalScore, setTotalScore] = useState(0);
   const [winStreak, setWinStreak] = useState(0);
   const [gamesPlayed, setGamesPlayed] = useState(0);
@@ -272,29 +317,6 @@ const PredictionGame: React.FC<PredictionGameProps> = ({
     }
   }, []);
 
-  // JWT 토큰에서 사용자 ID 추출 (타입 안전)
-  const getUserIdFromToken = (): string | null => {
-    try {
-      const token = localStorage.getItem('token');
-      if (!token) return null;
-      
-      // JWT 토큰 페이로드 디코딩 (검증 없이)
-      const base64Url = token.split('.')[1];
-      const base64 = base64Url.replace(/-/g, '+').replace(/_/g, '/');
-      const jsonPayload = decodeURIComponent(
-        atob(base64)
-          .split('')
-          .map(c => '%' + ('00' + c.charCodeAt(0).toString(16)).slice(-2))
-          .join('')
-      );
-      
-      const payload = JSON.parse(jsonPayload);
-      return payload.userId || payload.sub || null;
-    } catch {
-      return null;
-    }
-  };
-
   // 게임 시작
   const startGame = useCallback(async () => {
     if (disabled || gameState.status === 'active') return;
@@ -312,15 +334,26 @@ const PredictionGame: React.FC<PredictionGameProps> = ({
       });
 
       if (result.success && result.data) {
+        // 남은 시간은 서버가 정한 예측 마감 시각 기준으로 계산 (로컬 시계 차이 보정)
+        await timeSyncService.sync();
+        const deadline = result.data.predictionDeadline ? Date.parse(result.data.predictionDeadline) : NaN;
+        const endsAt = Number.isFinite(deadline)
+          ? deadline + result.data.duration
+          : timeSyncService.now() + gameState.duration * 1000;
+
         setGameState(prev => ({
           ...prev,
           id: result.data.gameId,
           status: 'active',
-          timeRemaining: gameState.duration, // 🔧 원래 초 단위 값 유지
+          timeRemaining: Math.max(0, Math.ceil((endsAt - timeSyncService.now()) / 1000)),
+          endsAt,
+          predictionClosesAt: Number.isFinite(deadline) ? deadline - timeSyncService.getAntiSnipeWindow() : null,
           startPrice: result.data.startPrice,
           prediction: null,
           result: null,
-          score: null
+          score: null,
+          stake: 0,
+          stakePayout: null
         }));
       } else {
         throw new Error(result.message || '게임 시작 실패');
@@ -343,14 +376,18 @@ const PredictionGame: React.FC<PredictionGameProps> = ({
         method: 'POST',
         body: JSON.stringify({
           gameId: gameState.id,
-          prediction
+          prediction,
+          confidence,
+          stake: stakeInput,
+          clientTimestamp: timeSyncService.now()
         })
       });
 
       if (result.success) {
         setGameState(prev => ({
           ...prev,
-          prediction
+          prediction,
+          stake: result.data?.stake || 0
         }));
       } else {
         throw new Error(result.message || '예측 제출 실패');
@@ -359,14 +396,70 @@ const PredictionGame: React.FC<PredictionGameProps> = ({
       console.error('예측 제출 오류:', error);
       setError(error instanceof Error ? error.message : '예측 제출 중 오류가 발생했습니다.');
     }
+  }, [gameState.status, gameState.prediction, gameState.id, confidence, stakeInput]);
+
+  // 예측 방향 변경 (예측 마감 전까지)
+  const changePrediction = useCallback(async () => {
+    if (gameState.status !== 'active' || !gameState.prediction || !gameState.id) return;
+
+    try {
+      setError(null);
+      const prediction = gameState.prediction === 'UP' ? 'DOWN' : 'UP';
+
+      const result = await makeApiCall<PredictionRevisionResponse>(`/api/game/${gameState.id}/prediction`, {
+        method: 'PUT',
+        body: JSON.stringify({ prediction, clientTimestamp: timeSyncService.now() })
+      });
+
+      if (result.success) {
+        setGameState(prev => ({ ...prev, prediction }));
+      } else {
+        throw new Error(result.message || '예측 변경 실패');
+      }
+    } catch (error) {
+      console.error('예측 변경 오류:', error);
+      setError(error instanceof Error ? error.message : '예측 변경 중 오류가 발생했습니다.');
+    }
+  }, [gameState.status, gameState.prediction, gameState.id]);
+
+  // 예측 철회 (스테이크 반환, 같은 라운드에는 다시 참여할 수 없음)
+  const withdrawPrediction = useCallback(async () => {
+    if (gameState.status !== 'active' || !gameState.prediction || !gameState.id) return;
+
+    try {
+      setError(null);
+
+      const result = await makeApiCall<PredictionRevisionResponse>(`/api/game/${gameState.id}/prediction`, {
+        method: 'DELETE'
+      });
+
+      if (result.success) {
+        setGameState(prev => ({
+          ...prev,
+          id: null,
+          status: 'idle',
+          prediction: null,
+          startPrice: null,
+          stake: 0,
+          stakePayout: null
+        }));
+      } else {
+        throw new Error(result.message || '예측 철회 실패');
+      }
+    } catch (error) {
+      console.error('예측 철회 오류:', error);
+      setError(error instanceof Error ? error.message : '예측 철회 중 오류가 발생했습니다.');
+    }
   }, [gameState.status, gameState.prediction, gameState.id]);
 
-  // 게임 타이머
+  // 게임 타이머 (서버 기준 종료 시각까지 남은 시간)
   useEffect(() => {
     if (gameState.status === 'active' && gameState.timeRemaining > 0) {
       const timer = setInterval(() => {
         setGameState(prev => {
-          const newTimeRemaining = prev.timeRemaining - 1;
+          const newTimeRemaining = prev.endsAt
+            ? Math.max(0, Math.ceil((prev.endsAt - timeSyncService.now()) / 1000))
+            : prev.timeRemaining - 1;
           
           if (newTimeRemaining <= 0) {
             // 게임 종료 처리
@@ -402,39 +495,48 @@ const PredictionGame: React.FC<PredictionGameProps> = ({
 
           if (result.success && result.data) {
             const gameData = result.data;
-            const currentUserId = getUserIdFromToken(); // 🔧 토큰에서 사용자 ID 추출
-            
-            // 사용자의 예측과 점수 찾기
-            const userPrediction = gameData.predictions?.find(p => p.userId === currentUserId);
-            const userScore = gameData.scores?.find(s => s.userId === currentUserId);
-            
-            // 결과 계산 (게임이 완료된 경우)
-            let gameResult: 'WIN' | 'LOSE' | null = null;
-            if (gameData.status === 'COMPLETED' && gameData.endPrice && gameState.startPrice) {
-              const priceIncreased = gameData.endPrice > gameState.startPrice;
-              const predictionCorrect = (gameState.prediction === 'UP' && priceIncreased) || 
-                                       (gameState.prediction === 'DOWN' && !priceIncreased);
-              gameResult = predictionCorrect ? 'WIN' : 'LOSE';
+
+            // 결과와 점수는 서버 정산 결과를 그대로 사용
+            const myResult = gameData.myResult;
+            const earnedScore = myResult?.scoreEarned || 0;
+            let gameResult: GameState['result'] = null;
+            if (myResult?.status === 'win') {
+              gameResult = 'WIN';
+            } else if (myResult?.status === 'lose') {
+              gameResult = 'LOSE';
+            } else if (myResult?.status === 'draw') {
+              gameResult = 'DRAW';
+            } else if (myResult?.status === 'cancelled') {
+              // 정산 가격을 확정하지 못해 라운드가 무효 처리됨 (게임 수/연승에 반영하지 않음)
+              gameResult = 'VOID';
             }
 
             setGameState(prev => ({
               ...prev,
               endPrice: gameData.endPrice || gameData.currentPrice || prev.currentPrice,
               result: gameResult,
-              score: userScore?.points || 0
+              score: earnedScore,
+              stakePayout: myResult?.stakePayout ?? null
             }));
 
-            // 통계 업데이트
+            // 통계 업데이트 (실패 시에도 신뢰도 감점이 있을 수 있음, 보합은 연승 유지)
             if (gameResult === 'WIN') {
               setWinStreak(prev => prev + 1);
               setTotalWins(prev => prev + 1);
+            } else if (gameResult === 'LOSE') {
+              setWinStreak(0);
+            }
+
+            if (gameResult === 'VOID') {
+              return;
+            }
+
+            if (gameResult && earnedScore !== 0) {
               setTotalScore(prev => {
-                const newScore = prev + (userScore?.points || 0);
+                const newScore = prev + earnedScore;
                 onScoreUpdate?.(newScore);
                 return newScore;
               });
-            } else if (gameResult === 'LOSE') {
-              setWinStreak(0);
             }
 
             setGamesPlayed(prev => prev + 1);
@@ -442,8 +544,9 @@ const PredictionGame: React.FC<PredictionGameProps> = ({
             // 부모 컴포넌트에 결과 전달
             if (gameResult) {
               onGameComplete?.({
-                score: userScore?.points || 0,
-                result: gameResult
+                score: earnedScore,
+                result: gameResult,
+                breakdown: myResult?.scoreBreakdown || null
               });
             }
           } else {
@@ -461,6 +564,11 @@ const PredictionGame: React.FC<PredictionGameProps> = ({
     }
   }, [gameState.status, gameState.id, gameState.prediction, gameState.startPrice, onGameComplete, onScoreUpdate]);
 
+  // 서버 시각 동기화
+  useEffect(() => {
+    timeSyncService.sync();
+  }, []);
+
   // 실시간 가격 업데이트
   useEffect(() => {
     fetchPriceData();
@@ -476,11 +584,15 @@ const PredictionGame: React.FC<PredictionGameProps> = ({
       id: null,
       status: 'idle',
       timeRemaining: 0,
+      endsAt: null,
+      predictionClosesAt: null,
       prediction: null,
       startPrice: null,
       endPrice: null,
       result: null,
       score: null,
+      stake: 0,
+      stakePayout: null,
       round: prev.round + 1
     }));
   }, []);
@@ -506,6 +618,9 @@ const PredictionGame: React.FC<PredictionGameProps> = ({
     return 'text-gray-500';
   };
 
+  // 예측 제출/수정 가능 여부 (서버 기준 마감 시각, 타이머가 매초 다시 렌더링)
+  const predictionClosed = gameState.predictionClosesAt !== null && timeSyncService.now() >= gameState.predictionClosesAt;
+
   return (
     <div className="max-w-2xl mx-auto p-4 space-y-6">
       {/* 에러 메시지 */}
@@ -647,9 +762,36 @@ const PredictionGame: React.FC<PredictionGameProps> = ({
                   <div className="text-center text-lg font-medium">
                     {formatTime(gameState.timeRemaining)} 후 가격이 어떻게 될까요?
                   </div>
+                  <div className="grid grid-cols-2 gap-3 text-sm">
+                    <label className="flex flex-col gap-1">
+                      <span className="text-gray-600">스테이크 (0이면 걸지 않음)</span>
+                      <input
+                        type="number"
+                        min={0}
+                        step={10}
+                        value={stakeInput}
+                        onChange={(e) => setStakeInput(Math.max(0, parseInt(e.target.value) || 0))}
+                        className="border border-gray-300 rounded px-2 py-1"
+                      />
+                    </label>
+                    <label className="flex flex-col gap-1">
+                      <span className="text-gray-600">신뢰도 {confidence} (스테이크 x{(confidence / 5).toFixed(1)})</span>
+                      <input
+                        type="range"
+                        min={1}
+                        max={10}
+                        value={confidence}
+                        onChange={(e) => setConfidence(parseInt(e.target.value))}
+                      />
+                    </label>
+                  </div>
+                  {predictionClosed && (
+                    <div className="text-center text-sm text-red-600">예측이 마감되었습니다.</div>
+                  )}
                   <div className="grid grid-cols-2 gap-3">
                     <Button
                       onClick={() => makePrediction('UP')}
+                      disabled={predictionClosed}
                       className="h-16 text-lg bg-green-600 hover:bg-green-700"
                     >
                       <TrendingUp className="w-6 h-6 mr-2" />
@@ -657,6 +799,7 @@ const PredictionGame: React.FC<PredictionGameProps> = ({
                     </Button>
                     <Button
                       onClick={() => makePrediction('DOWN')}
+                      disabled={predictionClosed}
                       className="h-16 text-lg bg-red-600 hover:bg-red-700"
                     >
                       <TrendingDown className="w-6 h-6 mr-2" />
@@ -680,9 +823,22 @@ const PredictionGame: React.FC<PredictionGameProps> = ({
                       </>
                     )}
                   </div>
+                  {gameState.stake > 0 && (
+                    <div className="text-sm text-gray-600 mt-1">스테이크 {gameState.stake}점 예치</div>
+                  )}
                   <div className="text-sm text-gray-600 mt-2">
                     결과를 기다리는 중...
                   </div>
+                  {!predictionClosed && (
+                    <div className="flex justify-center gap-2 mt-3">
+                      <Button onClick={changePrediction} className="bg-gray-600 hover:bg-gray-700 text-sm">
+                        방향 바꾸기
+                      </Button>
+                      <Button onClick={withdrawPrediction} className="bg-gray-400 hover:bg-gray-500 text-sm">
+                        예측 철회
+                      </Button>
+                    </div>
+                  )}
                 </div>
               )}
             </div>
@@ -693,19 +849,32 @@ const PredictionGame: React.FC<PredictionGameProps> = ({
             <div className="space-y-4">
               {gameState.result && (
                 <div className={`text-center p-6 rounded-lg ${
-                  gameState.result === 'WIN' ? 'bg-green-50' : 'bg-red-50'
+                  gameState.result === 'WIN' ? 'bg-green-50' : gameState.result === 'LOSE' ? 'bg-red-50' : 'bg-gray-50'
                 }`}>
                   <div className={`text-3xl font-bold mb-2 ${
-                    gameState.result === 'WIN' ? 'text-green-600' : 'text-red-600'
+                    gameState.result === 'WIN' ? 'text-green-600' : gameState.result === 'LOSE' ? 'text-red-600' : 'text-gray-600'
                   }`}>
-                    {gameState.result === 'WIN' ? '승리!' : '패배'}
+                    {RESULT_LABELS[gameState.result]}
                   </div>
                   
                   <div className="space-y-2 text-sm">
-                    <div>시작: {gameState.startPrice?.toLocaleString()}</div>
-                    <div>종료: {gameState.endPrice?.toLocaleString()}</div>
+                    {gameState.result === 'VOID' ? (
+                      <div>정산 가격을 확정하지 못해 라운드가 무효 처리되었습니다. 연승 기록은 유지됩니다.</div>
+                    ) : (
+                      <>
+                        <div>시작: {gameState.startPrice?.toLocaleString()}</div>
+                        <div>종료: {gameState.endPrice?.toLocaleString()}</div>
+                      </>
+                    )}
                     <div>예측: {gameState.prediction === 'UP' ? '상승' : '하락'}</div>
-                    {gameState.score !== null && (
+                    {gameState.stake > 0 && gameState.stakePayout !== null && (
+                      <div>
+                        스테이크 {gameState.stake}점 {gameState.stakePayout > 0
+                          ? `→ ${gameState.stakePayout}점 ${gameState.result === 'WIN' ? '배당' : '반환'}`
+                          : '잃음'}
+                      </div>
+                    )}
+                    {gameState.result !== 'VOID' && gameState.score !== null && (
                       <div className="text-lg font-bold">
                         획득 점수: {gameState.score}점
                       </div>
@@ -3,39 +3,17 @@ import React, { useState, useEffect, useCallback } from 'react';
 import { 
   Trophy, 
   Target, 
-  TrendingUp, 
   Star, 
   Award, 
   Zap,
-  Clock,
+  Gauge,
   Flame
 } from 'lucide-react';
+import type { ScoreCalculation } from '../types/game.types';
 
 // 타입 정의
-interface ScoreData {
-  baseScore: number;
-  accuracyBonus: number;
-  speedBonus: number;
-  streakBonus: number;
-  difficultyBonus: number;
-  totalScore: number;
-  multiplier: number;
-}
-
-interface GameResult {
-  prediction: 'UP' | 'DOWN';
-  actualDirection: 'UP' | 'DOWN';
-  priceChange: number;
-  timeUsed: number;
-  gameDuration: number;
-  isCorrect: boolean;
-}
-
 interface ScoreManagerProps {
-  gameResult?: GameResult;
-  currentStreak?: number;
-  totalGamesPlayed?: number;
-  onScoreCalculated?: (scoreData: ScoreData) => void;
+  breakdown?: ScoreCalculation | null; // 서버가 정산한 점수 구성 (GET /api/game/:gameId 의 myResult.scoreBreakdown)
   showAnimation?: boolean;
   animationDuration?: number;
   className?: string;
@@ -110,96 +88,16 @@ const Badge: React.FC<{
 };
 
 const ScoreManager: React.FC<ScoreManagerProps> = ({
-  gameResult,
-  currentStreak = 0,
-  totalGamesPlayed = 0,
-  onScoreCalculated,
+  breakdown,
   showAnimation = true,
   animationDuration = 2000,
   className = ''
 }) => {
   // 상태 관리
-  const [scoreData, setScoreData] = useState<ScoreData>({
-    baseScore: 0,
-    accuracyBonus: 0,
-    speedBonus: 0,
-    streakBonus: 0,
-    difficultyBonus: 0,
-    totalScore: 0,
-    multiplier: 1.0
-  });
-
   const [isAnimating, setIsAnimating] = useState(false);
   const [displayScore, setDisplayScore] = useState(0);
 
-  // 점수 계산 로직
-  const calculateScore = useCallback((result: GameResult): ScoreData => {
-    if (!result.isCorrect) {
-      return {
-        baseScore: 0,
-        accuracyBonus: 0,
-        speedBonus: 0,
-        streakBonus: 0,
-        difficultyBonus: 0,
-        totalScore: 0,
-        multiplier: 0
-      };
-    }
-
-    // 1. 기본 점수 (100점)
-    const baseScore = 100;
-
-    // 2. 정확도 보너스 (가격 변화율에 따라)
-    const priceChangePercent = Math.abs(result.priceChange);
-    let accuracyBonus = 0;
-    if (priceChangePercent >= 5) accuracyBonus = 100; // 5% 이상 변화
-    else if (priceChangePercent >= 2) accuracyBonus = 50; // 2% 이상 변화
-    else if (priceChangePercent >= 1) accuracyBonus = 25; // 1% 이상 변화
-    else accuracyBonus = 10; // 1% 미만 변화
-
-    // 3. 속도 보너스 (예측 제출 시간에 따라)
-    const timeRatio = result.timeUsed / result.gameDuration;
-    let speedBonus = 0;
-    if (timeRatio <= 0.1) speedBonus = 75; // 10% 이내 빠른 예측
-    else if (timeRatio <= 0.25) speedBonus = 50; // 25% 이내
-    else if (timeRatio <= 0.5) speedBonus = 25; // 50% 이내
-    else speedBonus = 0; // 50% 초과
-
-    // 4. 연승 보너스
-    let streakBonus = 0;
-    if (currentStreak >= 10) streakBonus = 200;
-    else if (currentStreak >= 5) streakBonus = 100;
-    else if (currentStreak >= 3) streakBonus = 50;
-    else streakBonus = currentStreak * 10;
-
-    // 5. 난이도 보너스 (게임 시간에 따라)
-    let difficultyBonus = 0;
-    if (result.gameDuration <= 30) difficultyBonus = 100; // 30초 이하 초단기
-    else if (result.gameDuration <= 60) difficultyBonus = 50; // 1분 이하 단기
-    else if (result.gameDuration <= 180) difficultyBonus = 25; // 3분 이하 중기
-    else difficultyBonus = 0; // 장기
-
-    // 6. 멀티플라이어 (경험에 따라)
-    let multiplier = 1.0;
-    if (totalGamesPlayed >= 100) multiplier = 1.5;
-    else if (totalGamesPlayed >= 50) multiplier = 1.3;
-    else if (totalGamesPlayed >= 20) multiplier = 1.2;
-    else if (totalGamesPlayed >= 10) multiplier = 1.1;
-
-    // 총점 계산
-    const subtotal = baseScore + accuracyBonus + speedBonus + streakBonus + difficultyBonus;
-    const totalScore = Math.round(subtotal * multiplier);
-
-    return {
-      baseScore,
-      accuracyBonus,
-      speedBonus,
-      streakBonus,
-      difficultyBonus,
-      totalScore,
-      multiplier
-    };
-  }, [currentStreak, totalGamesPlayed]);
+  const totalScore = breakdown?.total ?? 0;
 
   // 점수 애니메이션
   const animateScore = useCallback((targetScore: number) => {
@@ -232,55 +130,56 @@ const ScoreManager: React.FC<ScoreManagerProps> = ({
     requestAnimationFrame(animate);
   }, [showAnimation, animationDuration]);
 
-  // 게임 결과 변경 시 점수 계산
+  // 서버 정산 결과가 바뀌면 점수 애니메이션
   useEffect(() => {
-    if (gameResult) {
-      const newScoreData = calculateScore(gameResult);
-      setScoreData(newScoreData);
-      animateScore(newScoreData.totalScore);
-      onScoreCalculated?.(newScoreData);
-    }
-  }, [gameResult, calculateScore, animateScore, onScoreCalculated]);
+    animateScore(breakdown?.total ?? 0);
+  }, [breakdown, animateScore]);
 
-  // 점수 세부 항목 생성
+  // 점수 세부 항목 생성 (0점 항목은 표시하지 않음)
   const getScoreBreakdown = (): ScoreBreakdown[] => {
-    return [
+    if (!breakdown) {
+      return [];
+    }
+
+    const items: ScoreBreakdown[] = [
       {
         label: '기본 점수',
-        value: scoreData.baseScore,
+        value: breakdown.base,
         icon: <Target className="w-4 h-4" />,
         color: 'text-blue-600',
         description: '예측 성공 기본 점수'
       },
       {
         label: '정확도 보너스',
-        value: scoreData.accuracyBonus,
+        value: breakdown.accuracy,
         icon: <Star className="w-4 h-4" />,
         color: 'text-yellow-600',
         description: '가격 변화율에 따른 보너스'
       },
       {
         label: '속도 보너스',
-        value: scoreData.speedBonus,
+        value: breakdown.speed,
         icon: <Zap className="w-4 h-4" />,
         color: 'text-purple-600',
         description: '빠른 예측 제출 보너스'
       },
       {
         label: '연승 보너스',
-        value: scoreData.streakBonus,
+        value: breakdown.streak,
         icon: <Flame className="w-4 h-4" />,
         color: 'text-red-600',
-        description: `${currentStreak}연승 달성 보너스`
+        description: `${breakdown.streakCount}연승 달성 보너스`
       },
       {
-        label: '난이도 보너스',
-        value: scoreData.difficultyBonus,
-        icon: <Clock className="w-4 h-4" />,
-        color: 'text-green-600',
-        description: '짧은 게임 시간 보너스'
+        label: breakdown.confidence < 0 ? '신뢰도 감점' : '신뢰도 보너스',
+        value: breakdown.confidence,
+        icon: <Gauge className="w-4 h-4" />,
+        color: breakdown.confidence < 0 ? 'text-gray-600' : 'text-green-600',
+        description: '예측 신뢰도에 따른 가감점'
       }
     ];
+
+    return items.filter(item => item.value !== 0);
   };
 
   // 등급 계산
@@ -295,7 +194,7 @@ const ScoreManager: React.FC<ScoreManagerProps> = ({
     return { grade: 'F', color: 'text-red-600', description: '실패' };
   };
 
-  const currentGrade = getGrade(scoreData.totalScore);
+  const currentGrade = getGrade(totalScore);
 
   return (
     <div className={`space-y-6 ${className}`}>
@@ -315,7 +214,7 @@ const ScoreManager: React.FC<ScoreManagerProps> = ({
             <div className="flex items-center justify-center space-x-2">
               <Award className={`w-6 h-6 ${currentGrade.color}`} />
               <Badge 
-                variant={scoreData.totalScore > 0 ? 'success' : 'destructive'}
+                variant={totalScore > 0 ? 'success' : 'destructive'}
                 className="text-lg px-4 py-2"
               >
                 {currentGrade.grade} 등급
@@ -325,13 +224,10 @@ const ScoreManager: React.FC<ScoreManagerProps> = ({
               </span>
             </div>
 
-            {/* 멀티플라이어 표시 */}
-            {scoreData.multiplier > 1.0 && (
-              <div className="flex items-center justify-center space-x-2">
-                <TrendingUp className="w-4 h-4 text-orange-500" />
-                <span className="text-sm text-orange-600">
-                  경험 보너스: x{scoreData.multiplier}
-                </span>
+            {/* 점수 규칙 버전 */}
+            {breakdown && (
+              <div className="text-xs text-gray-500">
+                점수 규칙 {breakdown.version}
               </div>
             )}
           </div>
@@ -339,14 +235,14 @@ const ScoreManager: React.FC<ScoreManagerProps> = ({
       </Card>
 
       {/* 점수 세부 내역 */}
-      {scoreData.totalScore > 0 && (
+      {breakdown && getScoreBreakdown().length > 0 && (
         <Card>
           <CardHeader>
             <CardTitle>점수 세부 내역</CardTitle>
           </CardHeader>
           <CardContent>
             <div className="space-y-3">
-              {getScoreBreakdown().map((item, index) => (
+              {getScoreBreakdown().map((item) => (
                 <div key={item.label} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
                   <div className="flex items-center space-x-3">
                     <div className={item.color}>
@@ -358,37 +254,10 @@ const ScoreManager: React.FC<ScoreManagerProps> = ({
                     </div>
                   </div>
                   <div className={`font-bold ${item.color}`}>
-                    +{item.value}
+                    {item.value > 0 ? '+' : ''}{item.value}
                   </div>
                 </div>
               ))}
-              
-              {/* 소계 */}
-              <div className="border-t pt-3 mt-3">
-                <div className="flex items-center justify-between p-3 bg-blue-50 rounded-lg">
-                  <div className="font-semibold text-blue-900">소계</div>
-                  <div className="font-bold text-blue-600">
-                    {(scoreData.baseScore + scoreData.accuracyBonus + scoreData.speedBonus + 
-                      scoreData.streakBonus + scoreData.difficultyBonus).toLocaleString()}
-                  </div>
-                </div>
-              </div>
-
-              {/* 멀티플라이어 적용 */}
-              {scoreData.multiplier > 1.0 && (
-                <div className="flex items-center justify-between p-3 bg-orange-50 rounded-lg">
-                  <div className="flex items-center space-x-2">
-                    <TrendingUp className="w-4 h-4 text-orange-600" />
-                    <span className="font-semibold text-orange-900">
-                      경험 보너스 (x{scoreData.multiplier})
-                    </span>
-                  </div>
-                  <div className="font-bold text-orange-600">
-                    +{(scoreData.totalScore - (scoreData.baseScore + scoreData.accuracyBonus + 
-                       scoreData.speedBonus + scoreData.streakBonus + scoreData.difficultyBonus)).toLocaleString()}
-                  </div>
-                </div>
-              )}
 
               {/* 최종 점수 */}
               <div className="border-t pt-3 mt-3">
@@ -398,7 +267,7 @@ const ScoreManager: React.FC<ScoreManagerProps> = ({
                     <span className="font-bold text-gray-900 text-lg">최종 점수</span>
                   </div>
                   <div className="font-bold text-2xl text-green-600">
-                    {scoreData.totalScore.toLocaleString()}
+                    {breakdown.total.toLocaleString()}
                   </div>
                 </div>
               </div>
@@ -16,6 +16,8 @@ export type WebSocketReadyState =
 
 /**
  * WebSocket 메시지 타입
+ * 서버 메시지 type: price.update, ranking.update, game.state, airdrop.notification, prediction.void, achievement.unlocked
+ * (구독 응답은 subscribed / unsubscribed / error)
  */
 export interface WebSocketMessage<T = any> {
   type: string;
@@ -45,6 +47,8 @@ export interface RankingUpdateMessage {
   oldRank: number;
   score: number;
   timestamp: number;
+  period: 'daily' | 'weekly' | 'monthly' | 'all_time';
+  periodKey: string;
 }
 
 /**
@@ -52,10 +56,13 @@ export interface RankingUpdateMessage {
  */
 export interface GameStateMessage {
   gameId: string;
-  status: 'waiting' | 'active' | 'ended';
+  symbol: string;
+  status: 'waiting' | 'active' | 'ended' | 'void';
   currentRound: number;
   timeRemaining: number;
   participants: number;
+  startPrice?: number;
+  endPrice?: number;
 }
 
 /**
@@ -64,13 +71,40 @@ export interface GameStateMessage {
 export interface AirdropNotificationMessage {
   userId: string;
   amount: string;
+  token: string;
   rank: number;
-  period: 'weekly' | 'monthly';
+  period: 'daily' | 'weekly' | 'monthly' | 'all_time' | 'season';
   txHash?: string;
 }
 
+/**
+ * 예측 무효 알림 메시지 (정산 가격 누락/지연으로 라운드 무효, 예측은 취소됨)
+ */
+export interface PredictionVoidMessage {
+  userId: string;
+  gameId: string;
+  predictionId: string;
+  symbol: string;
+  reason: 'price_unavailable' | 'price_stale';
+}
+
+/**
+ * 업적 달성 알림 메시지 (보상 점수는 수령 API 로 지급)
+ */
+export interface AchievementUnlockedMessage {
+  userId: string;
+  achievementId: string;
+  type: string;
+  title: string;
+  icon: string;
+  rewardPoints: number;
+  badge?: string;
+  completedAt: string;
+}
+
 /**
  * WebSocket 구독 옵션
+ * 채널: price.<symbol>, game.state, game.<gameId>, ranking.<period>, airdrop, notifications (인증 필요)
  */
 export interface WebSocketSubscription {
   channel: string;
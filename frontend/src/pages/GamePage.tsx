@@ -13,6 +13,7 @@ import {
 import PredictionGame from '../game/PredictionGame';
 import GameTimer from '../game/GameTimer';
 import ScoreManager from '../game/ScoreManager';
+import type { ScoreCalculation } from '../types/game.types';
 
 // 타입 정의
 interface User {
@@ -197,6 +198,9 @@ const GamePage: React.FC = () => {
     difficulty: 'normal'
   });
 
+  // 마지막으로 정산된 예측의 점수 구성 (서버 계산 값)
+  const [lastScoreBreakdown, setLastScoreBreakdown] = useState<ScoreCalculation | null>(null);
+
   // 인증 토큰 가져오기
   const getAuthToken = (): string | null => {
     try {
@@ -280,7 +284,9 @@ const GamePage: React.FC = () => {
   }, [loadUserInfo, checkMissionStatus]);
 
   // 게임 완료 처리
-  const handleGameComplete = useCallback((result: { score: number; result: 'WIN' | 'LOSE' }) => {
+  const handleGameComplete = useCallback((result: { score: number; result: 'WIN' | 'LOSE' | 'DRAW'; breakdown: ScoreCalculation | null }) => {
+    setLastScoreBreakdown(result.breakdown);
+
     if (gameState.user) {
       setGameState(prev => ({
         ...prev,
@@ -484,8 +490,7 @@ const GamePage: React.FC = () => {
           <div className="space-y-6">
             {/* 점수 매니저 */}
             <ScoreManager
-              currentStreak={0} // 실제로는 게임 상태에서 가져와야 함
-              totalGamesPlayed={gameState.user?.gamesPlayed || 0}
+              breakdown={lastScoreBreakdown}
               showAnimation={gameSettings.animationEnabled}
             />
           </div>
@@ -512,10 +517,11 @@ const GamePage: React.FC = () => {
             <h4 className="font-semibold mb-2">점수 계산</h4>
             <ul className="text-sm text-gray-600 space-y-1">
               <li>• 기본 점수: 100점</li>
-              <li>• 정확도 보너스: 가격 변화율에 따라 최대 100점</li>
-              <li>• 속도 보너스: 빠른 예측 시 최대 75점</li>
-              <li>• 연승 보너스: 연속 승리 시 최대 200점</li>
-              <li>• 난이도 보너스: 짧은 게임 시간 시 최대 100점</li>
+              <li>• 정확도 보너스: 가격 변화율 1%당 2점, 최대 50점</li>
+              <li>• 속도 보너스: 예측 가능 시간의 25% / 50% / 75% 이내 제출 시 30 / 15 / 5점</li>
+              <li>• 연승 보너스: 2 / 3 / 5 / 10연승 시 10 / 20 / 50 / 100점</li>
+              <li>• 신뢰도: 5 초과 1단계당 성공 시 +10점, 실패 시 -5점</li>
+              <li>• 점수는 정산 시 서버에서 계산되며, 결과 화면에 항목별 내역이 표시됩니다</li>
             </ul>
           </div>
           
@@ -0,0 +1,336 @@
+// CTA_Mission/frontend/src/pages/PracticePage.tsx
+import React, { useState, useEffect, useCallback } from 'react'
+import { practiceService } from '../services/PracticeService'
+import type { PracticeGame, PracticeState, PracticeSummary, ReplayPricePoint, ScoreCalculation } from '../types/game.types'
+
+// 기본 UI 컴포넌트들
+const Card: React.FC<{ children: React.ReactNode; className?: string }> = ({
+  children,
+  className = ''
+}) => (
+  <div className={`bg-white rounded-xl border border-gray-100 shadow-lg ${className}`}>
+    {children}
+  </div>
+)
+
+const SYMBOLS = ['BTC', 'ETH', 'CTA']
+const TIERS = ['1m', '5m', '15m', '1h']
+const POLL_INTERVAL = 1000
+
+const STATUS_LABELS: Record<string, string> = {
+  waiting: '예측 접수 중',
+  active: '재생 중',
+  completed: '종료',
+  cancelled: '취소',
+  expired: '만료',
+  void: '무효'
+}
+
+const RESULT_LABELS: Record<string, string> = {
+  pending: '결과 대기',
+  win: '성공',
+  lose: '실패',
+  draw: '보합',
+  cancelled: '취소',
+  withdrawn: '철회'
+}
+
+const BREAKDOWN_LABELS: Array<[keyof ScoreCalculation, string]> = [
+  ['base', '기본 점수'],
+  ['accuracy', '정확도 보너스'],
+  ['speed', '속도 보너스'],
+  ['streak', '연승 보너스'],
+  ['confidence', '신뢰도 보너스']
+]
+
+const formatPrice = (value: number | null | undefined): string =>
+  value === null || value === undefined ? '-' : value.toLocaleString(undefined, { maximumFractionDigits: 8 })
+
+const isRunning = (game: PracticeGame | null): boolean =>
+  !!game && (game.status === 'waiting' || game.status === 'active')
+
+/**
+ * 재생 가격 미니 차트 (공개된 구간만)
+ */
+const ReplayChart: React.FC<{ series: ReplayPricePoint[]; from: string | null; to: string | null }> = ({ series, from, to }) => {
+  if (series.length < 2 || !from || !to) {
+    return <div className="h-32 flex items-center justify-center text-sm text-gray-400">재생 가격을 기다리는 중...</div>
+  }
+
+  const start = Date.parse(from)
+  const end = Date.parse(to)
+  const prices = series.map(point => point.price)
+  const min = Math.min(...prices)
+  const max = Math.max(...prices)
+  const points = series.map(point => {
+    const x = ((point.timestamp - start) / Math.max(end - start, 1)) * 100
+    const y = max === min ? 50 : 100 - ((point.price - min) / (max - min)) * 100
+    return `${x.toFixed(2)},${y.toFixed(2)}`
+  }).join(' ')
+
+  return (
+    <svg viewBox="0 0 100 100" preserveAspectRatio="none" className="w-full h-32 bg-gray-50 rounded-lg">
+      <polyline points={points} fill="none" stroke="#2563eb" strokeWidth="1.5" vectorEffect="non-scaling-stroke" />
+    </svg>
+  )
+}
+
+/**
+ * 연습 모드 페이지
+ * 과거 라운드 가격을 배속 재생하는 연습 게임 (랭킹/점수/에어드랍 미반영)
+ */
+const PracticePage: React.FC = () => {
+  const [symbol, setSymbol] = useState(SYMBOLS[0])
+  const [tier, setTier] = useState(TIERS[0])
+  const [confidence, setConfidence] = useState(5)
+  const [state, setState] = useState<PracticeState | null>(null)
+  const [history, setHistory] = useState<{ summary: PracticeSummary; games: PracticeGame[] } | null>(null)
+  const [isStarting, setIsStarting] = useState(false)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadHistory = useCallback(async () => {
+    try {
+      setHistory(await practiceService.getHistory())
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '연습 기록을 불러오지 못했습니다.')
+    }
+  }, [])
+
+  useEffect(() => {
+    loadHistory()
+  }, [loadHistory])
+
+  // 진행 중인 연습 게임은 재생 가격을 주기적으로 갱신하고, 끝나면 기록을 다시 조회
+  useEffect(() => {
+    if (!state || !isRunning(state)) return
+
+    const timer = setInterval(async () => {
+      try {
+        const next = await practiceService.getState(state.gameId)
+        setState(next)
+        if (!isRunning(next)) {
+          loadHistory()
+        }
+      } catch (err) {
+        setError(err instanceof Error ? err.message : '연습 게임 상태를 불러오지 못했습니다.')
+      }
+    }, POLL_INTERVAL)
+
+    return () => clearInterval(timer)
+  }, [state, loadHistory])
+
+  const handleStart = async () => {
+    setIsStarting(true)
+    try {
+      setState(await practiceService.start(symbol, tier))
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '연습 게임을 시작하지 못했습니다.')
+    } finally {
+      setIsStarting(false)
+    }
+  }
+
+  const handlePredict = async (prediction: 'up' | 'down') => {
+    if (!state) return
+
+    setIsSubmitting(true)
+    try {
+      await practiceService.predict(state.gameId, prediction, confidence)
+      setState(await practiceService.getState(state.gameId))
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '예측 제출에 실패했습니다.')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const prediction = state?.prediction
+  const breakdown = prediction?.scoreBreakdown
+
+  return (
+    <div className="px-4">
+      <div className="flex justify-between items-center mb-2">
+        <h2 className="text-2xl font-bold text-white">🎯 연습 모드</h2>
+      </div>
+      <p className="text-sm text-gray-400 mb-6">
+        지난 라운드의 실제 가격을 빠르게 재생합니다. 연습 결과는 랭킹, 점수, 에어드랍에 반영되지 않습니다.
+      </p>
+
+      {error && (
+        <div className="mb-4 p-3 rounded-lg bg-red-100 text-red-800 text-sm">{error}</div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2">
+          <Card className="p-6">
+            {/* 시작 설정 */}
+            <div className="flex flex-wrap gap-3 items-end mb-6">
+              <label className="text-sm text-gray-700">
+                심볼
+                <select
+                  value={symbol}
+                  onChange={event => setSymbol(event.target.value)}
+                  disabled={isRunning(state)}
+                  className="block mt-1 border border-gray-300 rounded-md px-3 py-2"
+                >
+                  {SYMBOLS.map(item => <option key={item} value={item}>{item}</option>)}
+                </select>
+              </label>
+              <label className="text-sm text-gray-700">
+                라운드 길이
+                <select
+                  value={tier}
+                  onChange={event => setTier(event.target.value)}
+                  disabled={isRunning(state)}
+                  className="block mt-1 border border-gray-300 rounded-md px-3 py-2"
+                >
+                  {TIERS.map(item => <option key={item} value={item}>{item}</option>)}
+                </select>
+              </label>
+              <button
+                onClick={handleStart}
+                disabled={isStarting || isRunning(state)}
+                className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md text-sm font-medium disabled:opacity-50"
+              >
+                {isStarting ? '준비 중...' : '연습 시작'}
+              </button>
+            </div>
+
+            {!state ? (
+              <div className="py-12 text-center text-gray-500">심볼과 라운드 길이를 고르고 연습을 시작하세요.</div>
+            ) : (
+              <>
+                <div className="flex justify-between items-center mb-3">
+                  <div className="font-semibold text-gray-900">
+                    {state.symbol} · {state.tier} · {STATUS_LABELS[state.status] || state.status}
+                    {state.replay.speed && <span className="ml-2 text-xs text-gray-500">{state.replay.speed}배속</span>}
+                  </div>
+                  <div className="text-lg font-bold text-blue-600">{formatPrice(state.replay.currentPrice)}</div>
+                </div>
+
+                <ReplayChart series={state.replay.series} from={state.replay.from} to={state.replay.to} />
+
+                <div className="grid grid-cols-2 gap-4 my-4 text-center text-sm">
+                  <div>
+                    <div className="font-bold text-gray-900">{formatPrice(state.startPrice)}</div>
+                    <div className="text-xs text-gray-600">시작 가격</div>
+                  </div>
+                  <div>
+                    <div className="font-bold text-gray-900">{formatPrice(state.endPrice)}</div>
+                    <div className="text-xs text-gray-600">종료 가격</div>
+                  </div>
+                </div>
+
+                {/* 예측 */}
+                {state.status === 'waiting' && !prediction && (
+                  <div className="p-4 bg-gray-50 rounded-lg">
+                    <label className="block text-sm text-gray-700 mb-2">
+                      신뢰도 {confidence}
+                      <input
+                        type="range"
+                        min={1}
+                        max={10}
+                        value={confidence}
+                        onChange={event => setConfidence(Number(event.target.value))}
+                        className="w-full"
+                      />
+                    </label>
+                    <div className="flex gap-3">
+                      <button
+                        onClick={() => handlePredict('up')}
+                        disabled={isSubmitting}
+                        className="flex-1 bg-green-600 hover:bg-green-700 text-white py-2 rounded-md font-medium disabled:opacity-50"
+                      >
+                        📈 상승
+                      </button>
+                      <button
+                        onClick={() => handlePredict('down')}
+                        disabled={isSubmitting}
+                        className="flex-1 bg-red-600 hover:bg-red-700 text-white py-2 rounded-md font-medium disabled:opacity-50"
+                      >
+                        📉 하락
+                      </button>
+                    </div>
+                  </div>
+                )}
+
+                {prediction && (
+                  <div className="p-4 bg-gray-50 rounded-lg text-sm">
+                    <div className="flex justify-between mb-2">
+                      <span className="text-gray-700">
+                        내 예측: {prediction.prediction === 'up' ? '상승' : '하락'} ({formatPrice(prediction.predictionPrice)})
+                      </span>
+                      <span className="font-semibold text-gray-900">{RESULT_LABELS[prediction.status] || prediction.status}</span>
+                    </div>
+
+                    {/* 점수 구성 (정산 후) */}
+                    {breakdown && (
+                      <table className="w-full mt-2">
+                        <tbody className="divide-y divide-gray-200">
+                          {BREAKDOWN_LABELS.map(([key, label]) => (
+                            <tr key={key}>
+                              <td className="py-1 text-gray-600">
+                                {label}{key === 'streak' && breakdown.streakCount > 0 ? ` (${breakdown.streakCount}연승)` : ''}
+                              </td>
+                              <td className="py-1 text-right text-gray-900">{breakdown[key]}</td>
+                            </tr>
+                          ))}
+                          <tr>
+                            <td className="py-1 font-semibold text-gray-900">합계 (연습, 미반영)</td>
+                            <td className="py-1 text-right font-bold text-blue-600">{breakdown.total}</td>
+                          </tr>
+                        </tbody>
+                      </table>
+                    )}
+                  </div>
+                )}
+              </>
+            )}
+          </Card>
+        </div>
+
+        {/* 연습 기록 */}
+        <div>
+          <Card className="p-6">
+            <h3 className="font-semibold text-gray-900 mb-3">연습 기록</h3>
+            {history && (
+              <div className="grid grid-cols-3 gap-2 mb-4 text-center text-sm">
+                <div>
+                  <div className="font-bold text-gray-900">{history.summary.totalGames}</div>
+                  <div className="text-xs text-gray-600">게임</div>
+                </div>
+                <div>
+                  <div className="font-bold text-green-600">{history.summary.winCount}</div>
+                  <div className="text-xs text-gray-600">성공</div>
+                </div>
+                <div>
+                  <div className="font-bold text-blue-600">{history.summary.totalScore.toLocaleString()}</div>
+                  <div className="text-xs text-gray-600">연습 점수</div>
+                </div>
+              </div>
+            )}
+            {!history || history.games.length === 0 ? (
+              <div className="text-sm text-gray-500">아직 연습 기록이 없습니다.</div>
+            ) : (
+              <ul className="divide-y divide-gray-200 text-sm">
+                {history.games.map(game => (
+                  <li key={game.gameId} className="py-2 flex justify-between">
+                    <span className="text-gray-700">{game.symbol} · {game.tier}</span>
+                    <span className="text-gray-900">
+                      {game.prediction ? `${RESULT_LABELS[game.prediction.status] || game.prediction.status} ${game.prediction.scoreEarned}점` : '-'}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </Card>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export { PracticePage }
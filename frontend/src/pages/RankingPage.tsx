@@ -2,11 +2,15 @@
 import React, { useState, useEffect, useCallback } from 'react'
 import { Link } from 'react-router-dom'
 import { useWeb3Auth } from '../providers/Web3AuthProvider'
+import { rankingService, type RankingMetric } from '../services/RankingService'
+import type { RewardTable } from '../types/game.types'
 
 // 타입 정의
 interface RankingUser {
   id: string
   rank: number
+  rankChange: number // 직전 순위 대비 변동 (양수면 상승)
+  rankDirection: 'up' | 'down' | 'same' | 'new'
   nickname: string
   walletAddress: string
   totalScore: number
@@ -46,6 +50,35 @@ interface UserStats {
   rewardTier: number
 }
 
+// 리더보드 지표 탭 (minGames: 서버 기본 최소 게임 수, LEADERBOARD_MIN_GAMES_*)
+const METRIC_TABS: { key: RankingMetric; label: string; minGames: number }[] = [
+  { key: 'totalScore', label: '총점', minGames: 0 },
+  { key: 'winRate', label: '승률', minGames: 20 },
+  { key: 'gamesPlayed', label: '게임 수', minGames: 0 },
+  { key: 'avgScore', label: '평균 점수', minGames: 20 },
+  { key: 'streak', label: '연승', minGames: 0 }
+]
+
+// 리더보드 심볼 탭 (overall: 전체 심볼)
+const SYMBOL_TABS = [
+  { key: 'overall', label: '전체' },
+  { key: 'BTC', label: 'BTC' },
+  { key: 'ETH', label: 'ETH' },
+  { key: 'CTA', label: 'CTA' }
+]
+
+// 지표별 정렬 값
+const getMetricValue = (ranking: RankingUser, metric: RankingMetric): number => {
+  const values: Record<RankingMetric, number> = {
+    totalScore: ranking.totalScore,
+    winRate: ranking.winRate,
+    gamesPlayed: ranking.gamesPlayed,
+    avgScore: ranking.gamesPlayed > 0 ? ranking.totalScore / ranking.gamesPlayed : 0,
+    streak: ranking.streak
+  }
+  return values[metric]
+}
+
 // 기본 UI 컴포넌트들
 const Card: React.FC<{ children: React.ReactNode; className?: string }> = ({ 
   children, 
@@ -160,6 +193,9 @@ const RankingPage: React.FC = () => {
   
   const [selectedTab, setSelectedTab] = useState<'ranking' | 'airdrop'>('ranking')
   const [selectedPeriodType, setSelectedPeriodType] = useState<'weekly' | 'monthly' | 'all'>('weekly')
+  const [selectedMetric, setSelectedMetric] = useState<RankingMetric>('totalScore')
+  const [selectedSymbol, setSelectedSymbol] = useState('overall')
+  const selectedMetricTab = METRIC_TABS.find(tab => tab.key === selectedMetric) ?? METRIC_TABS[0]
   const [isLoading, setIsLoading] = useState(false)
   const [lastUpdated, setLastUpdated] = useState<Date>(new Date())
   
@@ -173,6 +209,7 @@ const RankingPage: React.FC = () => {
     rewardTier: 0
   })
   const [airdropHistory, setAirdropHistory] = useState<AirdropHistory[]>([])
+  const [rewardTable, setRewardTable] = useState<RewardTable | null>(null)
 
   // Mock 데이터 생성
   const generateMockRankings = useCallback(() => {
@@ -190,26 +227,17 @@ const RankingPage: React.FC = () => {
       const gamesPlayed = Math.floor(Math.random() * 50) + 10
       const winRate = Math.max(30, 85 - (i * 0.5) + Math.floor(Math.random() * 10))
       
-      let rewardTier = 0
-      let estimatedReward = '0 CTA'
-      
-      if (i === 0) {
-        rewardTier = 1
-        estimatedReward = '10,000 CTA'
-      } else if (i < 50) {
-        rewardTier = 2
-        estimatedReward = '1,000 CTA'
-      } else if (i < 550) {
-        rewardTier = 3
-        estimatedReward = '100 CTA'
-      } else if (i < 1550) {
-        rewardTier = 4
-        estimatedReward = '10 CTA'
-      }
+      // 보상 등급은 백엔드 보상 테이블 기준
+      const tier = rewardTable ? rankingService.getTierForRank(rewardTable, i + 1) : null
+      const rewardTier = tier ? tier.tier : 0
+      const estimatedReward = rankingService.formatRewards(tier)
+      const rankChange = Math.floor(Math.random() * 7) - 3
 
       mockUsers.push({
         id: `user-${i + 1}`,
         rank: i + 1,
+        rankChange,
+        rankDirection: rankChange > 0 ? 'up' : rankChange < 0 ? 'down' : 'same',
         nickname: isCurrentUser ? (user.name || user.email || 'You') : usernames[i % usernames.length] + (i > 19 ? `${Math.floor(i / 20)}` : ''),
         walletAddress: `0x${Math.random().toString(16).substr(2, 40)}`,
         totalScore: score,
@@ -224,7 +252,7 @@ const RankingPage: React.FC = () => {
     }
 
     return mockUsers
-  }, [user])
+  }, [user, rewardTable])
 
   // Mock 에어드롭 히스토리 생성
   const generateMockAirdropHistory = useCallback((): AirdropHistory[] => {
@@ -263,13 +291,16 @@ const RankingPage: React.FC = () => {
     setIsLoading(true)
     try {
       // 실제로는 API 호출
-      // const response = await fetch(`/api/ranking/${selectedPeriodType}`)
-      // const data = await response.json()
+      // const data = await rankingService.getRanking({ period: selectedPeriodType, metric: selectedMetric, symbol: selectedSymbol })
       
       // Mock 데이터 사용
       await new Promise(resolve => setTimeout(resolve, 1000)) // 로딩 시뮬레이션
       
+      // 선택한 지표 순으로 정렬하고 최소 게임 수를 채우지 못한 사용자는 제외
       const mockRankings = generateMockRankings()
+        .filter(u => u.gamesPlayed >= selectedMetricTab.minGames)
+        .sort((a, b) => getMetricValue(b, selectedMetric) - getMetricValue(a, selectedMetric) || b.totalScore - a.totalScore)
+        .map((u, index) => ({ ...u, rank: index + 1 }))
       setRankings(mockRankings.slice(0, 50)) // 상위 50명만 표시
       
       // 현재 사용자 통계 설정
@@ -291,7 +322,7 @@ const RankingPage: React.FC = () => {
     } finally {
       setIsLoading(false)
     }
-  }, [selectedPeriodType, generateMockRankings])
+  }, [selectedPeriodType, selectedMetric, selectedMetricTab, selectedSymbol, generateMockRankings])
 
   // 에어드롭 히스토리 로드
   const loadAirdropHistory = useCallback(async () => {
@@ -312,6 +343,11 @@ const RankingPage: React.FC = () => {
     }
   }, [generateMockAirdropHistory])
 
+  // 보상 등급표 로드
+  useEffect(() => {
+    rankingService.getRewardTable(selectedPeriodType).then(setRewardTable)
+  }, [selectedPeriodType])
+
   // 초기 데이터 로드
   useEffect(() => {
     if (selectedTab === 'ranking') {
@@ -319,7 +355,7 @@ const RankingPage: React.FC = () => {
     } else {
       loadAirdropHistory()
     }
-  }, [selectedTab, selectedPeriodType, loadRankingData, loadAirdropHistory])
+  }, [selectedTab, selectedPeriodType, selectedMetric, selectedSymbol, loadRankingData, loadAirdropHistory])
 
   // 실시간 업데이트 (30초마다)
   useEffect(() => {
@@ -340,6 +376,16 @@ const RankingPage: React.FC = () => {
     return `#${rank}`
   }
 
+  // 순위 변동 표시 헬퍼
+  const renderRankChange = (ranking: RankingUser) => {
+    switch (ranking.rankDirection) {
+      case 'up': return <span className="ml-2 text-xs text-green-600">▲{ranking.rankChange}</span>
+      case 'down': return <span className="ml-2 text-xs text-red-600">▼{Math.abs(ranking.rankChange)}</span>
+      case 'new': return <span className="ml-2 text-xs text-blue-600">NEW</span>
+      default: return <span className="ml-2 text-xs text-gray-400">-</span>
+    }
+  }
+
   // 보상 등급 색상 헬퍼
   const getRewardTierColor = (tier: number) => {
     switch (tier) {
@@ -347,6 +393,9 @@ const RankingPage: React.FC = () => {
       case 2: return 'text-gray-600 bg-gray-50'
       case 3: return 'text-orange-600 bg-orange-50'
       case 4: return 'text-blue-600 bg-blue-50'
+      case 5: return 'text-green-600 bg-green-50'
+      case 6: return 'text-purple-600 bg-purple-50'
+      case 7: return 'text-pink-600 bg-pink-50'
       default: return 'text-gray-400 bg-gray-50'
     }
   }
@@ -477,6 +526,40 @@ const RankingPage: React.FC = () => {
               </div>
             </div>
 
+            {/* 지표/심볼 선택 */}
+            <div className="flex flex-col sm:flex-row justify-between items-center mb-6">
+              <div className="flex flex-wrap gap-2 mb-4 sm:mb-0">
+                {METRIC_TABS.map(({ key, label }) => (
+                  <Button
+                    key={key}
+                    variant={selectedMetric === key ? 'primary' : 'outline'}
+                    size="sm"
+                    onClick={() => setSelectedMetric(key)}
+                  >
+                    {label}
+                  </Button>
+                ))}
+              </div>
+
+              <div className="flex space-x-2">
+                {SYMBOL_TABS.map(({ key, label }) => (
+                  <Button
+                    key={key}
+                    variant={selectedSymbol === key ? 'secondary' : 'ghost'}
+                    size="sm"
+                    onClick={() => setSelectedSymbol(key)}
+                  >
+                    {label}
+                  </Button>
+                ))}
+              </div>
+            </div>
+            {selectedMetricTab.minGames > 0 && (
+              <div className="text-sm text-gray-500 mb-6">
+                {selectedMetricTab.label} 랭킹은 {selectedMetricTab.minGames}게임 이상 참여한 플레이어만 표시됩니다.
+              </div>
+            )}
+
             {/* 보상 구조 */}
             <Card className="mb-8">
               <CardHeader>
@@ -561,6 +644,7 @@ const RankingPage: React.FC = () => {
                                 <span className="font-medium text-gray-900">
                                   {ranking.rank}
                                 </span>
+                                {renderRankChange(ranking)}
                               </div>
                             </td>
                             <td className="px-6 py-4 whitespace-nowrap">
@@ -634,6 +718,31 @@ const RankingPage: React.FC = () => {
               </Card>
             </div>
 
+            {/* 보상 등급표 */}
+            {rewardTable && (
+              <Card className="mb-8">
+                <CardHeader>
+                  <CardTitle>🎁 보상 등급표</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-2">
+                    {rewardTable.tiers.map((tier) => (
+                      <div key={tier.tier} className={`flex items-center justify-between rounded-lg px-4 py-2 ${getRewardTierColor(tier.tier)}`}>
+                        <div className="font-semibold">
+                          {tier.name}
+                          <span className="ml-2 text-sm font-normal">
+                            {tier.rankFrom === tier.rankTo ? `${tier.rankFrom}위` : `${tier.rankFrom.toLocaleString()}~${tier.rankTo.toLocaleString()}위`}
+                            {' '}({tier.recipients.toLocaleString()}명)
+                          </span>
+                        </div>
+                        <div className="font-bold">{rankingService.formatRewards(tier)}</div>
+                      </div>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
             {/* 에어드롭 히스토리 */}
             <Card>
               <CardHeader>
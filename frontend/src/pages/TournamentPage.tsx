@@ -0,0 +1,288 @@
+// CTA_Mission/frontend/src/pages/TournamentPage.tsx
+import React, { useState, useEffect, useCallback } from 'react'
+import { Link } from 'react-router-dom'
+import { tournamentService } from '../services/TournamentService'
+import type { Tournament, TournamentDetail, TournamentEntry, TournamentStatus } from '../types/game.types'
+
+// 기본 UI 컴포넌트들
+const Card: React.FC<{ children: React.ReactNode; className?: string }> = ({
+  children,
+  className = ''
+}) => (
+  <div className={`bg-white rounded-xl border border-gray-100 shadow-lg ${className}`}>
+    {children}
+  </div>
+)
+
+const Badge: React.FC<{
+  children: React.ReactNode
+  variant?: 'default' | 'success' | 'warning' | 'error'
+  className?: string
+}> = ({ children, variant = 'default', className = '' }) => {
+  const variantClasses = {
+    default: 'bg-gray-100 text-gray-800',
+    success: 'bg-green-100 text-green-800',
+    warning: 'bg-yellow-100 text-yellow-800',
+    error: 'bg-red-100 text-red-800'
+  }
+
+  return (
+    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${variantClasses[variant]} ${className}`}>
+      {children}
+    </span>
+  )
+}
+
+const STATUS_LABELS: Record<TournamentStatus, { label: string; variant: 'default' | 'success' | 'warning' | 'error' }> = {
+  scheduled: { label: '등록 예정', variant: 'default' },
+  registration: { label: '참가 등록 중', variant: 'success' },
+  live: { label: '진행 중', variant: 'warning' },
+  finalizing: { label: '순위 확정 중', variant: 'warning' },
+  finished: { label: '종료', variant: 'default' },
+  cancelled: { label: '취소', variant: 'error' }
+}
+
+const formatDate = (value?: string | null): string =>
+  value ? new Date(value).toLocaleString('ko-KR', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' }) : '-'
+
+const formatPrizePool = (prizePool: Record<string, number>): string =>
+  Object.entries(prizePool).map(([token, amount]) => `${amount.toLocaleString()} ${token}`).join(' + ') || '-'
+
+/**
+ * 토너먼트 페이지
+ * 진행 중/예정 토너먼트 목록과 선택한 토너먼트의 상금, 참가 조건, 현재 라운드, 순위표
+ */
+const TournamentPage: React.FC = () => {
+  const [live, setLive] = useState<Tournament[]>([])
+  const [upcoming, setUpcoming] = useState<Tournament[]>([])
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [detail, setDetail] = useState<TournamentDetail | null>(null)
+  const [entries, setEntries] = useState<TournamentEntry[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [isRegistering, setIsRegistering] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadTournaments = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const data = await tournamentService.getActiveTournaments()
+      setLive(data.live)
+      setUpcoming(data.upcoming)
+      setSelectedId(current => current ?? data.live[0]?.id ?? data.upcoming[0]?.id ?? null)
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '토너먼트 목록을 불러오지 못했습니다.')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  const loadDetail = useCallback(async (tournamentId: string) => {
+    try {
+      const [tournament, leaderboard] = await Promise.all([
+        tournamentService.getTournament(tournamentId),
+        tournamentService.getLeaderboard(tournamentId)
+      ])
+      setDetail(tournament)
+      setEntries(leaderboard.entries)
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '토너먼트 정보를 불러오지 못했습니다.')
+    }
+  }, [])
+
+  useEffect(() => {
+    loadTournaments()
+  }, [loadTournaments])
+
+  useEffect(() => {
+    if (selectedId) {
+      loadDetail(selectedId)
+    }
+  }, [selectedId, loadDetail])
+
+  const handleRegister = async () => {
+    if (!detail) return
+
+    setIsRegistering(true)
+    try {
+      await tournamentService.register(detail.id)
+      await loadDetail(detail.id)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '참가 등록에 실패했습니다.')
+    } finally {
+      setIsRegistering(false)
+    }
+  }
+
+  const renderList = (title: string, tournaments: Tournament[]) => (
+    <div className="mb-6">
+      <h3 className="text-sm font-semibold text-gray-300 mb-2">{title}</h3>
+      {tournaments.length === 0 ? (
+        <div className="text-sm text-gray-500">없음</div>
+      ) : (
+        <div className="space-y-2">
+          {tournaments.map(tournament => (
+            <button
+              key={tournament.id}
+              onClick={() => setSelectedId(tournament.id)}
+              className={`w-full text-left p-3 rounded-lg border ${
+                selectedId === tournament.id ? 'border-blue-500 bg-blue-50' : 'border-gray-200 bg-white hover:bg-gray-50'
+              }`}
+            >
+              <div className="flex justify-between items-center">
+                <span className="font-semibold text-gray-900">{tournament.name}</span>
+                <Badge variant={STATUS_LABELS[tournament.status].variant}>{STATUS_LABELS[tournament.status].label}</Badge>
+              </div>
+              <div className="text-xs text-gray-600 mt-1">
+                {tournament.symbol} · {tournament.tier} · {tournament.roundCount}라운드 · {tournament.format === 'elimination' ? '서바이벌' : '누적 점수'}
+              </div>
+              <div className="text-xs text-gray-500">
+                {tournament.status === 'live'
+                  ? `${tournament.roundsPlayed}/${tournament.roundCount} 라운드 진행`
+                  : `등록 마감 ${formatDate(tournament.registrationClosesAt)}`}
+                {' · '}참가 {tournament.entrantCount}{tournament.maxEntrants ? `/${tournament.maxEntrants}` : ''}명
+              </div>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+
+  return (
+    <div className="px-4">
+      <div className="flex justify-between items-center mb-6">
+        <h2 className="text-2xl font-bold text-white">🏟️ 토너먼트</h2>
+        <button
+          onClick={loadTournaments}
+          disabled={isLoading}
+          className="text-sm text-gray-300 hover:text-white disabled:opacity-50"
+        >
+          {isLoading ? '🔄 로딩중...' : '🔄 새로고침'}
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 rounded-lg bg-red-100 text-red-800 text-sm">{error}</div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div>
+          {renderList('진행 중', live)}
+          {renderList('예정', upcoming)}
+        </div>
+
+        <div className="lg:col-span-2">
+          {!detail ? (
+            <Card className="p-8 text-center text-gray-500">토너먼트를 선택하세요.</Card>
+          ) : (
+            <Card className="p-6">
+              <div className="flex justify-between items-start mb-4">
+                <div>
+                  <h3 className="text-xl font-bold text-gray-900">{detail.name}</h3>
+                  {detail.description && <p className="text-sm text-gray-600 mt-1">{detail.description}</p>}
+                </div>
+                <Badge variant={STATUS_LABELS[detail.status].variant}>{STATUS_LABELS[detail.status].label}</Badge>
+              </div>
+
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6 text-center">
+                <div>
+                  <div className="text-lg font-bold text-blue-600">{formatPrizePool(detail.prizePool)}</div>
+                  <div className="text-xs text-gray-600">총 상금</div>
+                </div>
+                <div>
+                  <div className="text-lg font-bold text-purple-600">{detail.entrantCount}명</div>
+                  <div className="text-xs text-gray-600">참가자 (최소 {detail.minEntrants}명)</div>
+                </div>
+                <div>
+                  <div className="text-lg font-bold text-green-600">{detail.roundsPlayed}/{detail.roundCount}</div>
+                  <div className="text-xs text-gray-600">라운드</div>
+                </div>
+                <div>
+                  <div className="text-lg font-bold text-orange-600">{formatDate(detail.registrationClosesAt)}</div>
+                  <div className="text-xs text-gray-600">등록 마감</div>
+                </div>
+              </div>
+
+              {/* 참가 조건 및 등록 */}
+              <div className="mb-6 p-4 bg-gray-50 rounded-lg text-sm">
+                <div className="font-semibold text-gray-800 mb-1">참가 조건</div>
+                <div className="text-gray-600">
+                  {detail.requirements.missions?.length ? `미션 완료: ${detail.requirements.missions.join(', ')}` : '미션 조건 없음'}
+                  {' · '}
+                  {detail.requirements.minGames ? `최소 ${detail.requirements.minGames}게임 참여` : '게임 수 조건 없음'}
+                </div>
+                {detail.myEntry ? (
+                  <div className="mt-2 text-green-700 font-medium">
+                    ✅ 참가 중 {detail.myEntry.status === 'eliminated' && `(${detail.myEntry.eliminatedInRound}라운드 탈락)`}
+                  </div>
+                ) : detail.status === 'registration' && (
+                  <div className="mt-3">
+                    {detail.eligibility && !detail.eligibility.eligible && (
+                      <ul className="mb-2 text-red-700 list-disc list-inside">
+                        {detail.eligibility.unmet.map(reason => <li key={reason}>{reason}</li>)}
+                      </ul>
+                    )}
+                    <button
+                      onClick={handleRegister}
+                      disabled={isRegistering || detail.eligibility?.eligible === false}
+                      className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md text-sm font-medium disabled:opacity-50"
+                    >
+                      {isRegistering ? '등록 중...' : '참가 등록'}
+                    </button>
+                  </div>
+                )}
+              </div>
+
+              {/* 현재 라운드 */}
+              {detail.currentRound && (
+                <div className="mb-6 p-4 bg-blue-50 rounded-lg text-sm flex justify-between items-center">
+                  <div>
+                    <div className="font-semibold text-blue-800">현재 라운드 ({detail.symbol} {detail.tier})</div>
+                    <div className="text-blue-700">예측 마감 {formatDate(detail.currentRound.predictionDeadline)}</div>
+                  </div>
+                  <Link to="/game" className="text-blue-700 font-semibold hover:underline">예측하러 가기 →</Link>
+                </div>
+              )}
+
+              {/* 순위표 */}
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500">순위</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500">플레이어</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500">점수</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500">적중</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500">상태</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {entries.length === 0 ? (
+                    <tr>
+                      <td colSpan={5} className="px-3 py-6 text-center text-gray-500">참가자가 없습니다.</td>
+                    </tr>
+                  ) : entries.map(entry => (
+                    <tr key={entry.userId}>
+                      <td className="px-3 py-2 font-bold text-gray-900">{entry.rank ?? '-'}</td>
+                      <td className="px-3 py-2 text-gray-900">{entry.nickname || entry.userId.slice(0, 8)}</td>
+                      <td className="px-3 py-2 text-gray-900">{entry.totalScore.toLocaleString()}</td>
+                      <td className="px-3 py-2 text-gray-600">{entry.correctCount}/{entry.roundsPlayed}</td>
+                      <td className="px-3 py-2">
+                        {entry.status === 'eliminated'
+                          ? <Badge variant="error">{entry.eliminatedInRound}R 탈락</Badge>
+                          : <Badge variant="success">{entry.status === 'finished' ? '완주' : '생존'}</Badge>}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </Card>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export { TournamentPage }
@@ -0,0 +1,83 @@
+import type { Achievement, AchievementSummary, UserAchievement } from '../types/game.types';
+
+const ACHIEVEMENT_ENDPOINT = '/api/achievements';
+
+/**
+ * API 응답 형식
+ */
+interface ApiResponse<T> {
+  success: boolean;
+  data: T;
+  message?: string;
+}
+
+/**
+ * 업적 서비스
+ * 업적 목록/내 진행 상황 조회와 보상 수령 (달성 알림은 WebSocket notifications 채널의 achievement.unlocked)
+ */
+class AchievementService {
+  private static instance: AchievementService;
+
+  private constructor() {}
+
+  public static getInstance(): AchievementService {
+    if (!AchievementService.instance) {
+      AchievementService.instance = new AchievementService();
+    }
+    return AchievementService.instance;
+  }
+
+  /**
+   * 업적 목록 (로그인 상태면 업적별 내 진행 상황과 요약 포함)
+   */
+  public async getAchievements(): Promise<{ achievements: Achievement[]; summary: AchievementSummary | null }> {
+    return this.request<{ achievements: Achievement[]; summary: AchievementSummary | null }>(ACHIEVEMENT_ENDPOINT);
+  }
+
+  /**
+   * 내 업적 진행 상황
+   */
+  public async getProgress(): Promise<{ achievements: UserAchievement[]; summary: AchievementSummary }> {
+    return this.request<{ achievements: UserAchievement[]; summary: AchievementSummary }>(`${ACHIEVEMENT_ENDPOINT}/progress`);
+  }
+
+  /**
+   * 달성한 업적의 점수 보상 수령
+   */
+  public async claim(achievementId: string): Promise<UserAchievement> {
+    return this.request<UserAchievement>(`${ACHIEVEMENT_ENDPOINT}/${encodeURIComponent(achievementId)}/claim`, {
+      method: 'POST'
+    });
+  }
+
+  /**
+   * API 요청 (토큰이 있으면 인증 헤더 포함)
+   */
+  private async request<T>(url: string, options: RequestInit = {}): Promise<T> {
+    let token: string | null = null;
+    try {
+      token = localStorage.getItem('token');
+    } catch {
+      token = null;
+    }
+
+    const response = await fetch(url, {
+      ...options,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token ? { 'Authorization': `Bearer ${token}` } : {}),
+        ...options.headers,
+      },
+    });
+
+    const body = await response.json().catch(() => ({})) as Partial<ApiResponse<T>>;
+    if (!response.ok || !body.success) {
+      throw new Error(body.message || `HTTP ${response.status}`);
+    }
+
+    return body.data as T;
+  }
+}
+
+// 싱글톤 인스턴스 export
+export const achievementService = AchievementService.getInstance();
@@ -0,0 +1,102 @@
+import type { PracticeGame, PracticeState, PracticeSummary } from '../types/game.types';
+import { timeSyncService } from './TimeSyncService';
+
+// 게임 API 와 같은 출처로 요청 (PredictionGame 과 동일)
+const PRACTICE_ENDPOINT = '/api/practice';
+const PREDICT_ENDPOINT = '/api/game/predict';
+
+/**
+ * API 응답 형식
+ */
+interface ApiResponse<T> {
+  success: boolean;
+  data: T;
+  message?: string;
+}
+
+/**
+ * 연습 모드 서비스
+ * 과거 가격 재생 연습 게임 시작, 진행 상태/기록 조회와 예측 제출 (예측은 정규 라운드와 같은 API)
+ */
+class PracticeService {
+  private static instance: PracticeService;
+
+  private constructor() {}
+
+  public static getInstance(): PracticeService {
+    if (!PracticeService.instance) {
+      PracticeService.instance = new PracticeService();
+    }
+    return PracticeService.instance;
+  }
+
+  /**
+   * 연습 게임 시작
+   */
+  public async start(symbol: string, tier: string): Promise<PracticeState> {
+    return this.request<PracticeState>(PRACTICE_ENDPOINT, {
+      method: 'POST',
+      body: JSON.stringify({ symbol, tier })
+    });
+  }
+
+  /**
+   * 진행 상태 (공개된 재생 가격, 내 예측, 정산 후 점수 구성)
+   */
+  public async getState(gameId: string): Promise<PracticeState> {
+    return this.request<PracticeState>(`${PRACTICE_ENDPOINT}/${gameId}`);
+  }
+
+  /**
+   * 예측 제출
+   */
+  public async predict(gameId: string, prediction: 'up' | 'down', confidence: number): Promise<void> {
+    await this.request<unknown>(PREDICT_ENDPOINT, {
+      method: 'POST',
+      body: JSON.stringify({
+        gameId,
+        prediction,
+        confidence,
+        clientTimestamp: timeSyncService.now()
+      })
+    });
+  }
+
+  /**
+   * 내 연습 기록
+   */
+  public async getHistory(limit: number = 10): Promise<{ summary: PracticeSummary; games: PracticeGame[] }> {
+    return this.request<{ summary: PracticeSummary; games: PracticeGame[] }>(`${PRACTICE_ENDPOINT}/history?limit=${limit}`);
+  }
+
+  /**
+   * API 요청 (토큰이 있으면 인증 헤더 포함)
+   */
+  private async request<T>(url: string, options: RequestInit = {}): Promise<T> {
+    let token: string | null = null;
+    try {
+      token = localStorage.getItem('token');
+    } catch {
+      token = null;
+    }
+
+    const response = await fetch(url, {
+      ...options,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token ? { 'Authorization': `Bearer ${token}` } : {}),
+        ...options.headers,
+      },
+    });
+
+    const body = await response.json().catch(() => ({})) as Partial<ApiResponse<T>>;
+    if (!response.ok || !body.success) {
+      throw new Error(body.message || `HTTP ${response.status}`);
+    }
+
+    return body.data as T;
+  }
+}
+
+// 싱글톤 인스턴스 export
+export const practiceService = PracticeService.getInstance();
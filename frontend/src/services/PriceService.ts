@@ -30,6 +30,10 @@ export interface PriceData {
 export interface ChartDataPoint {
   timestamp: number;
   price: number;
+  open?: number;
+  high?: number;
+  low?: number;
+  close?: number;
   volume?: number;
 }
 
@@ -72,12 +76,16 @@ interface BackendPriceData {
 }
 
 /**
- * 백엔드 차트 데이터 구조
+ * 백엔드 차트 캔들 구조 (저장된 OHLCV 캔들, price 는 종가)
  */
-interface BackendChartData {
-  prices: [number, number][]; // [timestamp, price]
-  market_caps?: [number, number][];
-  total_volumes?: [number, number][];
+interface BackendChartCandle {
+  timestamp: number;
+  price: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
 }
 
 /**
@@ -106,7 +114,7 @@ export class PriceService {
    * 타임프레임을 백엔드 days 파라미터로 매핑
    */
   private readonly timeframeToDaysMap: Record<string, string> = {
-    '1h': '1',
+    '1h': String(1 / 24),
     '1d': '1',
     '7d': '7',
     '30d': '30'
@@ -116,10 +124,10 @@ export class PriceService {
    * 타임프레임을 백엔드 interval 파라미터로 매핑
    */
   private readonly timeframeToIntervalMap: Record<string, string> = {
-    '1h': 'minutely',
-    '1d': 'hourly',
-    '7d': 'daily',
-    '30d': 'daily'
+    '1h': '1m',
+    '1d': '5m',
+    '7d': '1h',
+    '30d': '1h'
   };
 
   /**
@@ -268,12 +276,11 @@ export class PriceService {
         return cached;
       }
 
-      const tokenId = this.symbolToTokenIdMap[symbol];
       const days = this.timeframeToDaysMap[timeframe];
       const interval = this.timeframeToIntervalMap[timeframe];
 
-      const response: AxiosResponse<StandardApiResponse<BackendChartData>> = await axios.get(
-        `${API_BASE_URL}/api/price/${tokenId}/chart`,
+      const response: AxiosResponse<StandardApiResponse<BackendChartCandle[]>> = await axios.get(
+        `${API_BASE_URL}/api/price/${symbol}/chart`,
         {
           timeout: 20000,
           headers: {
@@ -357,14 +364,18 @@ export class PriceService {
    * 백엔드 차트 데이터를 프론트엔드 형식으로 변환
    */
   private transformBackendChartData(
-    backendData: BackendChartData, 
+    backendData: BackendChartCandle[], 
     symbol: SupportedSymbol, 
     timeframe: string
   ): ChartData {
-    const data: ChartDataPoint[] = backendData.prices.map(([timestamp, price], index) => ({
-      timestamp,
-      price,
-      volume: backendData.total_volumes?.[index]?.[1]
+    const data: ChartDataPoint[] = backendData.map(candle => ({
+      timestamp: candle.timestamp,
+      price: candle.price,
+      open: candle.open,
+      high: candle.high,
+      low: candle.low,
+      close: candle.close,
+      volume: candle.volume
     }));
 
     return {
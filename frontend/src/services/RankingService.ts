@@ -1,4 +1,5 @@
 import axios, { type AxiosResponse } from 'axios';
+import type { RewardTable, RewardTierDefinition, RewardTokenAmount } from '../types/game.types';
 
 // 환경 변수 타입 안전성 확보
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:5000';
@@ -6,7 +7,7 @@ const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:5000
 /**
  * 랭킹 기준 메트릭
  */
-export type RankingMetric = 'totalScore' | 'winRate' | 'gamesPlayed' | 'avgScore';
+export type RankingMetric = 'totalScore' | 'winRate' | 'gamesPlayed' | 'avgScore' | 'streak';
 
 /**
  * 랭킹 조회 기간
@@ -28,6 +29,9 @@ export interface UserRanking {
   walletAddress: string;
   score: number;
   rank: number;
+  previousRank?: number | null; // 직전 순위
+  rankChange?: number; // 순위 변동 (양수면 상승)
+  rankDirection?: 'up' | 'down' | 'same' | 'new';
   gamesPlayed: number;
   winRate: number;
   lastActive: string;
@@ -35,6 +39,8 @@ export interface UserRanking {
   tier: 'Bronze' | 'Silver' | 'Gold' | 'Platinum' | 'Diamond';
   totalScore: number;
   avgScore: number;
+  bestStreak?: number;
+  metricValue?: number; // 순위 기준 지표 값
   period: RankingPeriod;
 }
 
@@ -46,6 +52,8 @@ export interface RankingOptions {
   offset?: number;
   period?: RankingPeriod;
   metric?: RankingMetric;
+  symbol?: string;     // 심볼별 랭킹 (생략 시 전체)
+  minGames?: number;   // 최소 게임 수 (승률/평균 점수는 서버 설정값 이상으로만 적용)
   userId?: string;
 }
 
@@ -71,12 +79,10 @@ export interface AirdropInfo {
  * 에어드롭 스케줄 정보
  */
 export interface AirdropSchedule {
-  nextWeeklyAirdrop: string;
-  nextMonthlyAirdrop: string;
-  weeklyPrizePool: string;
-  monthlyPrizePool: string;
-  eligibleUsersCount: number;
-  lastAirdropDate?: string;
+  nextAirdrop: string;
+  frequency: string;
+  periodKey: string;
+  rewardTable: RewardTable;
 }
 
 /**
@@ -84,12 +90,47 @@ export interface AirdropSchedule {
  */
 export interface SeasonInfo {
   id: string;
+  number: number;
   name: string;
+  description?: string;
+  status: 'scheduled' | 'active' | 'finalizing' | 'closed';
   startDate: string;
   endDate: string;
-  prizePool: string;
-  status: 'upcoming' | 'active' | 'ended';
-  participantsCount: number;
+  periodKey: string;
+  prizePool?: Record<string, number>; // 토큰별 총 보상 수량
+  rewardTable?: RewardTable;
+  participantCount: number; // 종료 시 확정된 참가자 수
+  snapshotHash?: string;
+  closedAt?: string;
+  timeRemaining: number;
+}
+
+/**
+ * 시즌 순위 항목
+ */
+export interface SeasonStandingEntry {
+  rank: number;
+  userId: string;
+  nickname?: string;
+  totalScore: number;
+  totalGames: number;
+  winCount: number;
+  loseCount: number;
+  drawCount: number;
+  winRate: number;
+  rewardTier: number | null;
+  rewards: RewardTokenAmount[];
+}
+
+/**
+ * 시즌 순위 (종료된 시즌은 최종 스냅샷)
+ */
+export interface SeasonLeaderboard {
+  season: SeasonInfo;
+  final: boolean;
+  total: number;
+  entries: SeasonStandingEntry[];
+  snapshotVerified?: boolean;
 }
 
 /**
@@ -201,10 +242,12 @@ export class RankingService {
         offset = 0,
         period = 'weekly',
         metric = 'totalScore',
+        symbol,
+        minGames,
         userId
       } = options;
 
-      const cacheKey = `${period}_${metric}_${limit}_${offset}_${userId || ''}`;
+      const cacheKey = `${period}_${metric}_${symbol || 'overall'}_${minGames ?? ''}_${limit}_${offset}_${userId || ''}`;
       const cached = this.rankingCache.get(cacheKey);
       
       if (cached && this.isCacheValid(cacheKey)) {
@@ -239,6 +282,8 @@ export class RankingService {
             limit: limit.toString(),
             offset: offset.toString(),
             metric,
+            ...(symbol && { symbol }),
+            ...(minGames !== undefined && { minGames: minGames.toString() }),
             ...(userId && { userId })
           }
         }
@@ -379,6 +424,48 @@ export class RankingService {
     }
   }
 
+  /**
+   * 보상 등급표 조회 (기간에 적용되는 보상 테이블)
+   */
+  public async getRewardTable(period: string = 'current'): Promise<RewardTable> {
+    try {
+      const response: AxiosResponse<StandardApiResponse<RewardTable>> = await axios.get(
+        `${API_BASE_URL}/api/ranking/airdrop/tiers`,
+        {
+          params: { period },
+          timeout: 10000,
+          headers: this.getAuthHeaders()
+        }
+      );
+
+      if (!response.data.success || !response.data.data) {
+        throw new Error(`Reward Tiers API Error: ${response.data.error || 'Failed to fetch reward tiers'}`);
+      }
+
+      return response.data.data;
+    } catch (error) {
+      console.error('Failed to fetch reward tiers:', error);
+      return this.getDefaultRewardTable();
+    }
+  }
+
+  /**
+   * 순위에 해당하는 보상 등급 조회
+   */
+  public getTierForRank(table: RewardTable, rank: number): RewardTierDefinition | null {
+    return table.tiers.find(tier => rank >= tier.rankFrom && rank <= tier.rankTo) || null;
+  }
+
+  /**
+   * 보상 수량 표시 문자열 (예: 1,000 CTA + 5,000 USDT)
+   */
+  public formatRewards(tier: RewardTierDefinition | null): string {
+    if (!tier) return '0 CTA';
+    return tier.rewards
+      .map(reward => `${reward.amount.toLocaleString()} ${reward.token}`)
+      .join(' + ');
+  }
+
   /**
    * 에어드롭 히스토리 조회
    */
@@ -490,7 +577,7 @@ export class RankingService {
    */
   public async getSeasonHistory(limit: number = 10): Promise<SeasonInfo[]> {
     try {
-      const response: AxiosResponse<StandardApiResponse<SeasonInfo[]>> = await axios.get(
+      const response: AxiosResponse<StandardApiResponse<{ seasons: SeasonInfo[] }>> = await axios.get(
         `${API_BASE_URL}/api/ranking/season/history`,
         {
           timeout: 10000,
@@ -503,13 +590,38 @@ export class RankingService {
         return [];
       }
 
-      return response.data.data;
+      return response.data.data.seasons || [];
     } catch (error) {
       console.error('Failed to fetch season history:', error);
       return [];
     }
   }
 
+  /**
+   * 시즌 순위 조회
+   */
+  public async getSeasonLeaderboard(seasonId: string, limit: number = 100, offset: number = 0): Promise<SeasonLeaderboard | null> {
+    try {
+      const response: AxiosResponse<StandardApiResponse<SeasonLeaderboard>> = await axios.get(
+        `${API_BASE_URL}/api/ranking/season/${seasonId}/leaderboard`,
+        {
+          timeout: 10000,
+          headers: this.getAuthHeaders(),
+          params: { limit: limit.toString(), offset: offset.toString() }
+        }
+      );
+
+      if (!response.data.success || !response.data.data) {
+        return null;
+      }
+
+      return response.data.data;
+    } catch (error) {
+      console.error('Failed to fetch season leaderboard:', error);
+      return null;
+    }
+  }
+
   /**
    * 랭킹 통계 조회
    */
@@ -579,16 +691,45 @@ export class RankingService {
    * 기본 에어드롭 스케줄 생성
    */
   private getDefaultAirdropSchedule(): AirdropSchedule {
-    const now = new Date();
-    const nextWeek = new Date(now.getTime() + 7 * 24 * 60 * 60 * 1000);
-    const nextMonth = new Date(now.getTime() + 30 * 24 * 60 * 60 * 1000);
+    const nextWeek = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000);
+
+    return {
+      nextAirdrop: nextWeek.toISOString(),
+      frequency: 'weekly',
+      periodKey: '',
+      rewardTable: this.getDefaultRewardTable()
+    };
+  }
+
+  /**
+   * 기본 보상 등급표 (백엔드 config/reward.ts 기본값과 동일, API 실패 시 표시용)
+   */
+  private getDefaultRewardTable(): RewardTable {
+    const tiers: RewardTierDefinition[] = [
+      { tier: 1, name: '1등', rankFrom: 1, rankTo: 1, recipients: 1, rewards: [{ token: 'CTA', amount: 1000 }, { token: 'USDT', amount: 5000 }] },
+      { tier: 2, name: '2등', rankFrom: 2, rankTo: 21, recipients: 20, rewards: [{ token: 'CTA', amount: 50 }, { token: 'USDT', amount: 250 }] },
+      { tier: 3, name: '3등', rankFrom: 22, rankTo: 521, recipients: 500, rewards: [{ token: 'CTA', amount: 2 }] },
+      { tier: 4, name: '4등', rankFrom: 522, rankTo: 1521, recipients: 1000, rewards: [{ token: 'CTA', amount: 1 }] },
+      { tier: 5, name: '5등', rankFrom: 1522, rankTo: 3521, recipients: 2000, rewards: [{ token: 'CTA', amount: 0.5 }] },
+      { tier: 6, name: '6등', rankFrom: 3522, rankTo: 8521, recipients: 5000, rewards: [{ token: 'CTA', amount: 0.2 }] },
+      { tier: 7, name: '7등', rankFrom: 8522, rankTo: 18521, recipients: 10000, rewards: [{ token: 'CTA', amount: 0.1 }] }
+    ];
+
+    const tokenTotals: Record<string, number> = {};
+    for (const tier of tiers) {
+      for (const reward of tier.rewards) {
+        tokenTotals[reward.token] = (tokenTotals[reward.token] || 0) + reward.amount * tier.recipients;
+      }
+    }
 
     return {
-      nextWeeklyAirdrop: nextWeek.toISOString(),
-      nextMonthlyAirdrop: nextMonth.toISOString(),
-      weeklyPrizePool: '100000',
-      monthlyPrizePool: '500000',
-      eligibleUsersCount: 500
+      name: 'weekly 기본 보상',
+      period: 'weekly',
+      periodKey: null,
+      tiers,
+      tieBreakers: ['higher_win_rate', 'more_games', 'earliest_reached'],
+      maxRewardedRank: 18521,
+      tokenTotals
     };
   }
 
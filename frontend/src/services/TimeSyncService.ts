@@ -0,0 +1,127 @@
+// 게임 API 와 같은 출처로 요청 (PredictionGame 과 동일)
+const TIME_ENDPOINT = '/api/game/time';
+
+// 재동기화 주기 (시계 드리프트 보정)
+const RESYNC_INTERVAL = 5 * 60 * 1000;
+
+// 동기화 1회에 측정하는 표본 수 (왕복 시간이 가장 짧은 표본 사용)
+const SAMPLE_COUNT = 3;
+
+/**
+ * 서버 시각 응답
+ */
+interface ServerTimeResponse {
+  success: boolean;
+  data: {
+    serverTime: number;       // 서버 시각 (Unix ms)
+    iso: string;
+    antiSnipeWindow: number;  // 예측 마감 직전 거절 구간 (ms)
+    settlementSigner: string; // 정산 기록 서명 주소
+  };
+}
+
+/**
+ * 서버 시각 동기화 서비스
+ * 게임 타이머와 예측 마감 표시는 로컬 시계 대신 서버 시각(보정값 적용)을 기준으로 함
+ * 보정값 = 서버 시각 + 왕복 시간/2 - 응답 수신 시각
+ */
+class TimeSyncService {
+  private static instance: TimeSyncService;
+  private offset = 0;
+  private roundTrip: number | null = null;
+  private antiSnipeWindow = 0;
+  private lastSyncAt = 0;
+  private pending: Promise<void> | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): TimeSyncService {
+    if (!TimeSyncService.instance) {
+      TimeSyncService.instance = new TimeSyncService();
+    }
+    return TimeSyncService.instance;
+  }
+
+  /**
+   * 서버 시각 동기화 (재동기화 주기 이내면 생략, 동시 호출은 하나로 합침)
+   */
+  public async sync(force: boolean = false): Promise<void> {
+    if (!force && this.lastSyncAt && Date.now() - this.lastSyncAt < RESYNC_INTERVAL) {
+      return;
+    }
+    if (!this.pending) {
+      this.pending = this.measure().finally(() => {
+        this.pending = null;
+      });
+    }
+    return this.pending;
+  }
+
+  /**
+   * 서버 기준 현재 시각 (Unix ms)
+   */
+  public now(): number {
+    return Date.now() + this.offset;
+  }
+
+  /**
+   * 로컬 시계 보정값 (ms, 양수면 로컬 시계가 느림)
+   */
+  public getOffset(): number {
+    return this.offset;
+  }
+
+  /**
+   * 마지막 동기화의 왕복 시간 (ms, 동기화 전이면 null)
+   */
+  public getRoundTrip(): number | null {
+    return this.roundTrip;
+  }
+
+  /**
+   * 예측 마감 직전 거절 구간 (ms)
+   */
+  public getAntiSnipeWindow(): number {
+    return this.antiSnipeWindow;
+  }
+
+  /**
+   * 왕복 시간이 가장 짧은 표본으로 보정값 측정
+   */
+  private async measure(): Promise<void> {
+    let best: { offset: number; roundTrip: number; antiSnipeWindow: number } | null = null;
+
+    for (let i = 0; i < SAMPLE_COUNT; i++) {
+      try {
+        const sentAt = Date.now();
+        const response = await fetch(TIME_ENDPOINT, { cache: 'no-store' });
+        const receivedAt = Date.now();
+        const roundTrip = receivedAt - sentAt;
+
+        if (!response.ok) continue;
+        const result: ServerTimeResponse = await response.json();
+        if (!result.success) continue;
+
+        if (!best || roundTrip < best.roundTrip) {
+          best = {
+            offset: result.data.serverTime + roundTrip / 2 - receivedAt,
+            roundTrip,
+            antiSnipeWindow: result.data.antiSnipeWindow
+          };
+        }
+      } catch (error) {
+        console.error('서버 시각 동기화 실패:', error);
+      }
+    }
+
+    if (best) {
+      this.offset = Math.round(best.offset);
+      this.roundTrip = best.roundTrip;
+      this.antiSnipeWindow = best.antiSnipeWindow;
+      this.lastSyncAt = Date.now();
+    }
+  }
+}
+
+// 싱글톤 인스턴스 export
+export const timeSyncService = TimeSyncService.getInstance();
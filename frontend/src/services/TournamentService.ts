@@ -0,0 +1,91 @@
+import type { Tournament, TournamentDetail, TournamentEntry } from '../types/game.types';
+
+// 게임 API 와 같은 출처로 요청 (PredictionGame 과 동일)
+const TOURNAMENT_ENDPOINT = '/api/tournament';
+
+/**
+ * API 응답 형식
+ */
+interface ApiResponse<T> {
+  success: boolean;
+  data: T;
+  message?: string;
+}
+
+/**
+ * 토너먼트 서비스
+ * 예정/진행 중 토너먼트 목록, 상세, 순위표 조회와 참가 등록
+ */
+class TournamentService {
+  private static instance: TournamentService;
+
+  private constructor() {}
+
+  public static getInstance(): TournamentService {
+    if (!TournamentService.instance) {
+      TournamentService.instance = new TournamentService();
+    }
+    return TournamentService.instance;
+  }
+
+  /**
+   * 진행 중/예정 토너먼트
+   */
+  public async getActiveTournaments(): Promise<{ live: Tournament[]; upcoming: Tournament[] }> {
+    return this.request<{ live: Tournament[]; upcoming: Tournament[] }>(TOURNAMENT_ENDPOINT);
+  }
+
+  /**
+   * 토너먼트 상세 (로그인 상태면 내 참가 정보 포함)
+   */
+  public async getTournament(tournamentId: string): Promise<TournamentDetail> {
+    return this.request<TournamentDetail>(`${TOURNAMENT_ENDPOINT}/${tournamentId}`);
+  }
+
+  /**
+   * 토너먼트 순위표
+   */
+  public async getLeaderboard(tournamentId: string, limit: number = 100): Promise<{ final: boolean; entries: TournamentEntry[] }> {
+    return this.request<{ final: boolean; entries: TournamentEntry[] }>(
+      `${TOURNAMENT_ENDPOINT}/${tournamentId}/leaderboard?limit=${limit}`
+    );
+  }
+
+  /**
+   * 참가 등록
+   */
+  public async register(tournamentId: string): Promise<TournamentEntry> {
+    return this.request<TournamentEntry>(`${TOURNAMENT_ENDPOINT}/${tournamentId}/register`, { method: 'POST' });
+  }
+
+  /**
+   * API 요청 (토큰이 있으면 인증 헤더 포함)
+   */
+  private async request<T>(url: string, options: RequestInit = {}): Promise<T> {
+    let token: string | null = null;
+    try {
+      token = localStorage.getItem('token');
+    } catch {
+      token = null;
+    }
+
+    const response = await fetch(url, {
+      ...options,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token ? { 'Authorization': `Bearer ${token}` } : {}),
+        ...options.headers,
+      },
+    });
+
+    const body = await response.json().catch(() => ({})) as Partial<ApiResponse<T>>;
+    if (!response.ok || !body.success) {
+      throw new Error(body.message || `HTTP ${response.status}`);
+    }
+
+    return body.data as T;
+  }
+}
+
+// 싱글톤 인스턴스 export
+export const tournamentService = TournamentService.getInstance();
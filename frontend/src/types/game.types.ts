@@ -141,13 +141,19 @@ export interface GameParticipation {
 // 점수 및 랭킹 타입
 // ================================
 
+/**
+ * 예측 점수 구성 (서버 정산 결과, backend/src/utils/scoring.ts 의 ScoreBreakdown)
+ * 클라이언트는 점수를 다시 계산하지 않고 이 값을 그대로 표시함
+ */
 export interface ScoreCalculation {
-  baseScore: number;        // 기본 점수
-  timeBonus: number;        // 시간 보너스
-  difficultyBonus: number;  // 난이도 보너스
-  streakBonus: number;      // 연속 성공 보너스
-  accuracyBonus: number;    // 정확도 보너스
-  totalScore: number;
+  version: string;     // 점수 규칙 버전
+  base: number;        // 기본 점수
+  accuracy: number;    // 정확도 보너스
+  speed: number;       // 속도 보너스
+  streak: number;      // 연승 보너스
+  confidence: number;  // 신뢰도 보너스 (실패 시 음수)
+  total: number;
+  streakCount: number; // 이번 예측을 포함한 연승 수
 }
 
 export interface UserStats {
@@ -210,19 +216,43 @@ export interface Leaderboard {
 // 에어드롭 및 보상 타입
 // ================================
 
-export enum AirdropTier {
-  TIER_1 = 1, // 1등 1명
-  TIER_2 = 2, // 2등 50명  
-  TIER_3 = 3, // 3등 500명
-  TIER_4 = 4  // 4등 1000명
+// 보상 등급 (1등급이 가장 높음). 등급 수와 순위 범위는 백엔드 보상 테이블에서 설정
+export type AirdropTier = number;
+
+export interface RewardTokenAmount {
+  token: string; // 토큰 심볼 (CTA, USDT 등)
+  amount: number; // 1인당 지급 수량
+}
+
+export interface RewardTierDefinition {
+  tier: AirdropTier;
+  name: string;
+  rankFrom: number;
+  rankTo: number;
+  recipients: number; // 해당 등급 수상자 수
+  rewards: RewardTokenAmount[];
+}
+
+export type RewardTieBreaker = 'higher_win_rate' | 'more_games' | 'fewer_games' | 'best_streak' | 'earliest_reached';
+
+export interface RewardTable {
+  id?: string;
+  name: string;
+  period: string;
+  periodKey: string | null;
+  tiers: RewardTierDefinition[];
+  tieBreakers: RewardTieBreaker[];
+  maxRewardedRank: number;
+  tokenTotals: Record<string, number>; // 토큰별 총 지급량
+  version?: number;
 }
 
 export interface AirdropReward {
   tier: AirdropTier;
   rank: number;
-  amount: number; // CTA 토큰 양
+  rewards: RewardTokenAmount[];
   recipients: number; // 해당 티어 수상자 수
-  totalAmount: number; // 해당 티어 총 지급량
+  totalAmounts: Record<string, number>; // 해당 티어 토큰별 총 지급량
 }
 
 export interface AirdropDistribution {
@@ -251,6 +281,133 @@ export interface UserAirdrop {
   createdAt: Date;
 }
 
+// ================================
+// 토너먼트 타입
+// ================================
+
+export type TournamentStatus = 'scheduled' | 'registration' | 'live' | 'finalizing' | 'finished' | 'cancelled';
+
+// elimination: 라운드마다 틀린 참가자 탈락, cumulative: 라운드 점수 합계
+export type TournamentFormat = 'elimination' | 'cumulative';
+
+export interface TournamentRequirements {
+  missions?: string[]; // 완료해야 하는 미션 유형
+  minGames?: number;   // 최소 참여 게임 수
+}
+
+export interface Tournament {
+  id: string;
+  number: number;
+  name: string;
+  description?: string;
+  status: TournamentStatus;
+  format: TournamentFormat;
+  symbol: string;
+  tier: string;
+  roundCount: number;
+  roundsPlayed: number;
+  registrationOpensAt: string;
+  registrationClosesAt: string;
+  requirements: TournamentRequirements;
+  minEntrants: number;
+  maxEntrants: number | null;
+  entrantCount: number;
+  periodKey: string;
+  startedAt?: string;
+  finishedAt?: string;
+}
+
+export interface TournamentEntry {
+  userId: string;
+  nickname?: string;
+  status: 'active' | 'eliminated' | 'finished';
+  totalScore: number;
+  roundsPlayed: number;
+  correctCount: number;
+  drawCount: number;
+  eliminatedInRound: number | null;
+  rank: number | null;
+  rewardTier: number | null;
+  rewards: RewardTokenAmount[];
+}
+
+export interface TournamentDetail extends Tournament {
+  prizePool: Record<string, number>;
+  rewardTable: RewardTable;
+  currentRound: {
+    sequence: number;
+    gameId: string;
+    status: string | null;
+    predictionDeadline: string | null;
+    endsAt: string | null;
+  } | null;
+  myEntry?: TournamentEntry | null;
+  eligibility?: { eligible: boolean; unmet: string[] };
+}
+
+// ================================
+// 연습 모드 타입
+// ================================
+
+export type PracticeStatus = 'waiting' | 'active' | 'completed' | 'cancelled' | 'expired' | 'void';
+
+export interface ReplayPricePoint {
+  timestamp: number; // 원래 가격이 기록된 시각
+  price: number;
+}
+
+export interface PracticePrediction {
+  predictionId: string;
+  prediction: 'up' | 'down';
+  predictionPrice: number;
+  confidence: number | null;
+  status: 'pending' | 'win' | 'lose' | 'draw' | 'cancelled' | 'withdrawn';
+  resultPrice: number | null;
+  priceChangePercent: number | null;
+  scoreEarned: number;
+  scoreBreakdown: ScoreCalculation | null; // 정산 후에만 포함
+  withdrawn: boolean;
+  resolvedAt: string | null;
+}
+
+export interface PracticeGame {
+  gameId: string;
+  symbol: string;
+  tier: string;
+  status: PracticeStatus;
+  ranked: false; // 연습 게임은 랭킹/원장/에어드랍에 반영되지 않음
+  predictionDeadline: string;
+  predictionWindow: number;
+  duration: number;
+  startedAt: string | null;
+  endsAt: string | null;
+  startPrice: number | null; // 라운드 시작 후 공개
+  endPrice: number | null;   // 정산 후 공개
+  flatTolerancePercent: number;
+  voidReason: string | null;
+  createdAt: string;
+  prediction: PracticePrediction | null;
+}
+
+export interface PracticeState extends PracticeGame {
+  replay: {
+    speed: number | null;
+    from: string | null;
+    to: string | null;
+    replayTime: string;
+    currentPrice: number;
+    series: ReplayPricePoint[]; // 지금까지 공개된 재생 가격
+  };
+}
+
+export interface PracticeSummary {
+  totalGames: number;
+  winCount: number;
+  loseCount: number;
+  drawCount: number;
+  totalScore: number;
+}
+
 // ================================
 // 게임 설정 타입
 // ================================
@@ -380,7 +537,8 @@ export enum AchievementType {
   ACCURACY_MASTER = 'accuracy_master',
   VOLUME_TRADER = 'volume_trader',
   SYMBOL_SPECIALIST = 'symbol_specialist',
-  RANK_CLIMBER = 'rank_climber'
+  RANK_CLIMBER = 'rank_climber',
+  MISSION_COMPLETER = 'mission_completer'
 }
 
 export interface Achievement {
@@ -393,19 +551,36 @@ export interface Achievement {
     type: string;
     value: number;
     symbol?: CryptoSymbol;
+    minGames?: number;
+    period?: string;
   };
   reward: {
     points: number;
     badge?: string;
   };
   unlockedAt?: Date;
+  progress?: UserAchievement | null; // 로그인 시 내 진행 상황
 }
 
 export interface UserAchievement {
-  userId: string;
+  userId?: string;
   achievementId: string;
+  status: 'in_progress' | 'completed' | 'claimed';
   progress: number;
+  target: number;
+  progressPercent: number;
   isCompleted: boolean;
-  completedAt?: Date;
-  claimedAt?: Date;
+  isClaimable: boolean;
+  rewardPoints: number;
+  badge: string | null;
+  completedAt?: Date | null;
+  claimedAt?: Date | null;
+}
+
+export interface AchievementSummary {
+  total: number;
+  completed: number;
+  claimed: number;
+  claimablePoints: number;
+  badges: string[];
 }
\ No newline at end of file
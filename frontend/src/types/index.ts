@@ -85,9 +85,14 @@ export type {
   Leaderboard,
   
   // 에어드롭
+  AirdropTier,
   AirdropReward,
   AirdropDistribution,
   UserAirdrop,
+  RewardTokenAmount,
+  RewardTierDefinition,
+  RewardTieBreaker,
+  RewardTable,
   
   // 게임 설정
   GameConfiguration,
@@ -109,7 +114,8 @@ export type {
   
   // 업적
   Achievement,
-  UserAchievement
+  UserAchievement,
+  AchievementSummary
 } from './game.types';
 
 export {
@@ -119,7 +125,6 @@ export {
   CryptoSymbol,
   UserTier,
   RankingPeriod,
-  AirdropTier,
   GameEventType,
   AchievementType
 } from './game.types';